@@ -1,5 +1,19 @@
 //  @ts-check
 
 import { tanstackConfig } from '@tanstack/eslint-config'
+import globals from 'globals'
+import tseslint from 'typescript-eslint'
 
-export default [{ ignores: ['.output/**', '.nitro/**'] }, ...tanstackConfig]
+export default [
+  { ignores: ['.output/**', '.nitro/**'] },
+  ...tanstackConfig,
+  {
+    // The service worker is a plain script outside the TypeScript project
+    files: ['public/sw.js'],
+    ...tseslint.configs.disableTypeChecked,
+    languageOptions: {
+      ...tseslint.configs.disableTypeChecked.languageOptions,
+      globals: { ...globals.serviceworker },
+    },
+  },
+]
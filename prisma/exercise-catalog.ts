@@ -0,0 +1,641 @@
+import { Equipment, ExerciseType, MuscleGroup } from '@prisma/client'
+
+/**
+ * Built-in exercise catalog, upserted by the seed.
+ *
+ * Each entry is matched to its database row by `key`, so a key must never be
+ * changed or reused once released. To change an entry (rename it, rewrite its
+ * instructions, fix its muscle group), edit it in place and bump its
+ * `version`; the next seed updates the existing row, keeping its id and every
+ * workout set, plan and PR that references it. To retire an entry, leave it
+ * here — removing it does not delete the row.
+ */
+export interface CatalogExercise {
+  key: string
+  version: number
+  name: string
+  description: string
+  muscleGroup: MuscleGroup
+  equipment: Equipment
+  exerciseType: ExerciseType
+  isTimed: boolean
+  instructions: string
+}
+
+export const exerciseCatalog: Array<CatalogExercise> = [
+  // === CHEST ===
+  {
+    key: 'barbell-bench-press',
+    version: 1,
+    name: 'Bench Press',
+    description: 'Flat barbell press for overall chest strength',
+    muscleGroup: MuscleGroup.CHEST,
+    equipment: Equipment.BARBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Lie on a flat bench with eyes under the bar. Lower the bar to mid-chest with elbows at about 45 degrees, then press back to lockout.',
+  },
+  {
+    key: 'incline-barbell-bench-press',
+    version: 1,
+    name: 'Incline Bench Press',
+    description: 'Barbell press on an incline to bias the upper chest',
+    muscleGroup: MuscleGroup.CHEST,
+    equipment: Equipment.BARBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Set the bench to 30-45 degrees. Lower the bar to the upper chest and press it back up over the shoulders.',
+  },
+  {
+    key: 'dumbbell-bench-press',
+    version: 1,
+    name: 'Dumbbell Bench Press',
+    description: 'Flat press with dumbbells for a longer range of motion',
+    muscleGroup: MuscleGroup.CHEST,
+    equipment: Equipment.DUMBBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Lie on a flat bench holding a dumbbell over each shoulder. Lower them to the sides of the chest and press back up.',
+  },
+  {
+    key: 'dumbbell-fly',
+    version: 1,
+    name: 'Dumbbell Fly',
+    description: 'Chest isolation through a wide arc',
+    muscleGroup: MuscleGroup.CHEST,
+    equipment: Equipment.DUMBBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'With a slight bend in the elbows, open the arms wide until you feel a stretch across the chest, then bring the dumbbells back together.',
+  },
+  {
+    key: 'cable-crossover',
+    version: 1,
+    name: 'Cable Crossover',
+    description: 'Cable fly with constant tension on the chest',
+    muscleGroup: MuscleGroup.CHEST,
+    equipment: Equipment.CABLE,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Stand between two high pulleys. Pull the handles down and together in front of the hips, then return under control.',
+  },
+  {
+    key: 'machine-chest-press',
+    version: 1,
+    name: 'Machine Chest Press',
+    description: 'Seated guided press for the chest',
+    muscleGroup: MuscleGroup.CHEST,
+    equipment: Equipment.MACHINE,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Adjust the seat so the handles line up with mid-chest. Press forward to full extension and return slowly.',
+  },
+  {
+    key: 'push-up',
+    version: 1,
+    name: 'Push-Up',
+    description: 'Bodyweight press for chest, shoulders and triceps',
+    muscleGroup: MuscleGroup.CHEST,
+    equipment: Equipment.BODYWEIGHT,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Hold a straight line from head to heels. Lower the chest to just above the floor and push back up.',
+  },
+  {
+    key: 'chest-dip',
+    version: 1,
+    name: 'Dip',
+    description: 'Bodyweight press on parallel bars',
+    muscleGroup: MuscleGroup.CHEST,
+    equipment: Equipment.BODYWEIGHT,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Support yourself on parallel bars, lean slightly forward and lower until the shoulders are just below the elbows, then press back up.',
+  },
+
+  // === BACK ===
+  {
+    key: 'barbell-deadlift',
+    version: 1,
+    name: 'Deadlift',
+    description: 'Full posterior-chain pull from the floor',
+    muscleGroup: MuscleGroup.BACK,
+    equipment: Equipment.BARBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Stand with the bar over mid-foot. Brace, grip just outside the legs and drive through the floor to stand tall, keeping the bar close.',
+  },
+  {
+    key: 'barbell-row',
+    version: 1,
+    name: 'Barbell Row',
+    description: 'Bent-over row for upper back thickness',
+    muscleGroup: MuscleGroup.BACK,
+    equipment: Equipment.BARBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Hinge until the torso is nearly parallel to the floor. Row the bar to the lower ribs and lower it under control.',
+  },
+  {
+    key: 'dumbbell-row',
+    version: 1,
+    name: 'Dumbbell Row',
+    description: 'Single-arm row supported on a bench',
+    muscleGroup: MuscleGroup.BACK,
+    equipment: Equipment.DUMBBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Brace one hand and knee on a bench. Pull the dumbbell toward the hip, pause, and lower to a full stretch.',
+  },
+  {
+    key: 'pull-up',
+    version: 1,
+    name: 'Pull-Up',
+    description: 'Overhand bodyweight pull for the lats',
+    muscleGroup: MuscleGroup.BACK,
+    equipment: Equipment.BODYWEIGHT,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Hang from the bar with an overhand grip. Pull until the chin clears the bar, then lower to a dead hang.',
+  },
+  {
+    key: 'chin-up',
+    version: 1,
+    name: 'Chin-Up',
+    description: 'Underhand bodyweight pull for lats and biceps',
+    muscleGroup: MuscleGroup.BACK,
+    equipment: Equipment.BODYWEIGHT,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Hang with palms facing you, shoulder-width apart. Pull the chin over the bar and lower under control.',
+  },
+  {
+    key: 'lat-pulldown',
+    version: 1,
+    name: 'Lat Pulldown',
+    description: 'Cable pulldown for lat width',
+    muscleGroup: MuscleGroup.BACK,
+    equipment: Equipment.CABLE,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Grip the bar slightly wider than the shoulders. Pull it to the upper chest while driving the elbows down, then let it rise slowly.',
+  },
+  {
+    key: 'seated-cable-row',
+    version: 1,
+    name: 'Seated Cable Row',
+    description: 'Horizontal cable row for the mid back',
+    muscleGroup: MuscleGroup.BACK,
+    equipment: Equipment.CABLE,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Sit tall with a slight knee bend. Row the handle to the stomach, squeeze the shoulder blades together and return.',
+  },
+
+  // === LEGS ===
+  {
+    key: 'barbell-back-squat',
+    version: 1,
+    name: 'Squat',
+    description: 'Barbell back squat for overall leg strength',
+    muscleGroup: MuscleGroup.LEGS,
+    equipment: Equipment.BARBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'With the bar across the upper back, brace and sit down between the heels to at least parallel, then drive back up.',
+  },
+  {
+    key: 'barbell-front-squat',
+    version: 1,
+    name: 'Front Squat',
+    description: 'Upright squat with the bar in the front rack',
+    muscleGroup: MuscleGroup.LEGS,
+    equipment: Equipment.BARBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Rest the bar on the front of the shoulders with elbows high. Squat down keeping the torso upright and stand back up.',
+  },
+  {
+    key: 'romanian-deadlift',
+    version: 1,
+    name: 'Romanian Deadlift',
+    description: 'Hip hinge for hamstrings and glutes',
+    muscleGroup: MuscleGroup.LEGS,
+    equipment: Equipment.BARBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'With soft knees, push the hips back and slide the bar down the thighs until the hamstrings are stretched, then stand up.',
+  },
+  {
+    key: 'leg-press',
+    version: 1,
+    name: 'Leg Press',
+    description: 'Machine press for quads and glutes',
+    muscleGroup: MuscleGroup.LEGS,
+    equipment: Equipment.MACHINE,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Place feet shoulder-width on the platform. Lower until the knees reach about 90 degrees and press back without locking out.',
+  },
+  {
+    key: 'leg-extension',
+    version: 1,
+    name: 'Leg Extension',
+    description: 'Quadriceps isolation',
+    muscleGroup: MuscleGroup.LEGS,
+    equipment: Equipment.MACHINE,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Line the knee up with the machine pivot. Extend the legs fully, pause, and lower slowly.',
+  },
+  {
+    key: 'lying-leg-curl',
+    version: 1,
+    name: 'Leg Curl',
+    description: 'Hamstring isolation',
+    muscleGroup: MuscleGroup.LEGS,
+    equipment: Equipment.MACHINE,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Lie face down with the pad above the heels. Curl the heels toward the glutes and lower under control.',
+  },
+  {
+    key: 'dumbbell-walking-lunge',
+    version: 1,
+    name: 'Walking Lunge',
+    description: 'Alternating lunges for legs and balance',
+    muscleGroup: MuscleGroup.LEGS,
+    equipment: Equipment.DUMBBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Holding dumbbells at your sides, step forward and lower the back knee toward the floor, then step through into the next rep.',
+  },
+  {
+    key: 'bulgarian-split-squat',
+    version: 1,
+    name: 'Bulgarian Split Squat',
+    description: 'Rear-foot-elevated single-leg squat',
+    muscleGroup: MuscleGroup.LEGS,
+    equipment: Equipment.DUMBBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Rest the rear foot on a bench. Lower the back knee toward the floor and drive up through the front heel.',
+  },
+  {
+    key: 'barbell-hip-thrust',
+    version: 1,
+    name: 'Hip Thrust',
+    description: 'Glute-focused hip extension',
+    muscleGroup: MuscleGroup.LEGS,
+    equipment: Equipment.BARBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Sit with the upper back against a bench and the bar over the hips. Drive the hips up until the torso is level, then lower.',
+  },
+  {
+    key: 'standing-calf-raise',
+    version: 1,
+    name: 'Calf Raise',
+    description: 'Standing raise for the calves',
+    muscleGroup: MuscleGroup.LEGS,
+    equipment: Equipment.MACHINE,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Stand on the platform edge with heels hanging off. Rise onto the toes as high as possible and lower to a full stretch.',
+  },
+  {
+    key: 'goblet-squat',
+    version: 1,
+    name: 'Goblet Squat',
+    description: 'Front-loaded squat holding a kettlebell',
+    muscleGroup: MuscleGroup.LEGS,
+    equipment: Equipment.KETTLEBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Hold the kettlebell at the chest. Squat down between the knees with an upright torso and stand back up.',
+  },
+
+  // === SHOULDERS ===
+  {
+    key: 'overhead-press',
+    version: 1,
+    name: 'Overhead Press',
+    description: 'Standing barbell press for the shoulders',
+    muscleGroup: MuscleGroup.SHOULDERS,
+    equipment: Equipment.BARBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Start with the bar on the front of the shoulders. Brace and press it overhead, moving the head back and through as it passes.',
+  },
+  {
+    key: 'dumbbell-shoulder-press',
+    version: 1,
+    name: 'Dumbbell Shoulder Press',
+    description: 'Seated overhead press with dumbbells',
+    muscleGroup: MuscleGroup.SHOULDERS,
+    equipment: Equipment.DUMBBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Sit with back support and dumbbells at shoulder height. Press overhead until the arms are straight and lower back down.',
+  },
+  {
+    key: 'dumbbell-lateral-raise',
+    version: 1,
+    name: 'Lateral Raise',
+    description: 'Side delt isolation',
+    muscleGroup: MuscleGroup.SHOULDERS,
+    equipment: Equipment.DUMBBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'With a slight elbow bend, raise the dumbbells out to the sides until level with the shoulders, then lower slowly.',
+  },
+  {
+    key: 'cable-face-pull',
+    version: 1,
+    name: 'Face Pull',
+    description: 'Rope pull for rear delts and upper back',
+    muscleGroup: MuscleGroup.SHOULDERS,
+    equipment: Equipment.CABLE,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Set a rope at face height. Pull toward the forehead, splitting the rope and rotating the hands back, then return.',
+  },
+  {
+    key: 'reverse-dumbbell-fly',
+    version: 1,
+    name: 'Reverse Fly',
+    description: 'Bent-over raise for the rear delts',
+    muscleGroup: MuscleGroup.SHOULDERS,
+    equipment: Equipment.DUMBBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Hinge forward with a flat back. Raise the dumbbells out to the sides, squeezing the shoulder blades, and lower.',
+  },
+
+  // === ARMS ===
+  {
+    key: 'barbell-curl',
+    version: 1,
+    name: 'Barbell Curl',
+    description: 'Standing curl for the biceps',
+    muscleGroup: MuscleGroup.ARMS,
+    equipment: Equipment.BARBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Hold the bar with an underhand grip. Curl it to the shoulders without swinging and lower to full extension.',
+  },
+  {
+    key: 'dumbbell-curl',
+    version: 1,
+    name: 'Dumbbell Curl',
+    description: 'Alternating or simultaneous biceps curl',
+    muscleGroup: MuscleGroup.ARMS,
+    equipment: Equipment.DUMBBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Keep the elbows at your sides and curl the dumbbells up, turning the palms toward you, then lower slowly.',
+  },
+  {
+    key: 'hammer-curl',
+    version: 1,
+    name: 'Hammer Curl',
+    description: 'Neutral-grip curl for biceps and forearms',
+    muscleGroup: MuscleGroup.ARMS,
+    equipment: Equipment.DUMBBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Hold the dumbbells with palms facing each other and curl them up without rotating the wrists.',
+  },
+  {
+    key: 'cable-triceps-pushdown',
+    version: 1,
+    name: 'Triceps Pushdown',
+    description: 'Cable extension for the triceps',
+    muscleGroup: MuscleGroup.ARMS,
+    equipment: Equipment.CABLE,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'With elbows pinned to your sides, push the bar or rope down to full extension and let it rise back to chest height.',
+  },
+  {
+    key: 'overhead-triceps-extension',
+    version: 1,
+    name: 'Overhead Triceps Extension',
+    description: 'Long-head triceps stretch and extension',
+    muscleGroup: MuscleGroup.ARMS,
+    equipment: Equipment.DUMBBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Hold one dumbbell overhead with both hands. Lower it behind the head by bending the elbows, then extend back up.',
+  },
+  {
+    key: 'skull-crusher',
+    version: 1,
+    name: 'Skull Crusher',
+    description: 'Lying barbell triceps extension',
+    muscleGroup: MuscleGroup.ARMS,
+    equipment: Equipment.BARBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Lie on a bench holding the bar over the chest. Bend the elbows to lower it toward the forehead and extend back up.',
+  },
+
+  // === CORE ===
+  {
+    key: 'plank',
+    version: 1,
+    name: 'Plank',
+    description: 'Static hold for core stability',
+    muscleGroup: MuscleGroup.CORE,
+    equipment: Equipment.BODYWEIGHT,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: true,
+    instructions:
+      'Rest on the forearms and toes with the body in a straight line. Brace the abs and glutes and hold.',
+  },
+  {
+    key: 'side-plank',
+    version: 1,
+    name: 'Side Plank',
+    description: 'Static hold for the obliques',
+    muscleGroup: MuscleGroup.CORE,
+    equipment: Equipment.BODYWEIGHT,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: true,
+    instructions:
+      'Support yourself on one forearm with feet stacked. Lift the hips into a straight line and hold, then switch sides.',
+  },
+  {
+    key: 'hanging-leg-raise',
+    version: 1,
+    name: 'Hanging Leg Raise',
+    description: 'Lower-ab raise from a bar',
+    muscleGroup: MuscleGroup.CORE,
+    equipment: Equipment.BODYWEIGHT,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Hang from a bar and raise the legs to hip height or higher without swinging, then lower under control.',
+  },
+  {
+    key: 'cable-crunch',
+    version: 1,
+    name: 'Cable Crunch',
+    description: 'Weighted kneeling crunch',
+    muscleGroup: MuscleGroup.CORE,
+    equipment: Equipment.CABLE,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'Kneel below a high pulley holding a rope by your head. Crunch the ribs toward the hips and return slowly.',
+  },
+  {
+    key: 'ab-wheel-rollout',
+    version: 1,
+    name: 'Ab Wheel Rollout',
+    description: 'Anti-extension core exercise',
+    muscleGroup: MuscleGroup.CORE,
+    equipment: Equipment.NONE,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: false,
+    instructions:
+      'From the knees, roll the wheel forward as far as you can keep a flat back, then pull back to the start.',
+  },
+
+  // === CARDIO ===
+  {
+    key: 'treadmill-run',
+    version: 1,
+    name: 'Treadmill Run',
+    description: 'Steady or interval running indoors',
+    muscleGroup: MuscleGroup.CARDIO,
+    equipment: Equipment.MACHINE,
+    exerciseType: ExerciseType.CARDIO,
+    isTimed: true,
+    instructions:
+      'Start at an easy pace to warm up, then hold your target pace or alternate fast and easy intervals.',
+  },
+  {
+    key: 'rowing-machine',
+    version: 1,
+    name: 'Rowing Machine',
+    description: 'Full-body low-impact cardio',
+    muscleGroup: MuscleGroup.CARDIO,
+    equipment: Equipment.MACHINE,
+    exerciseType: ExerciseType.CARDIO,
+    isTimed: true,
+    instructions:
+      'Drive with the legs first, then lean back slightly and pull the handle to the lower ribs. Reverse the order to return.',
+  },
+  {
+    key: 'stationary-bike',
+    version: 1,
+    name: 'Stationary Bike',
+    description: 'Low-impact cycling',
+    muscleGroup: MuscleGroup.CARDIO,
+    equipment: Equipment.MACHINE,
+    exerciseType: ExerciseType.CARDIO,
+    isTimed: true,
+    instructions:
+      'Set the seat so the knee is slightly bent at the bottom of the stroke. Pedal at a steady cadence against your chosen resistance.',
+  },
+  {
+    key: 'jump-rope',
+    version: 1,
+    name: 'Jump Rope',
+    description: 'Skipping for conditioning and footwork',
+    muscleGroup: MuscleGroup.CARDIO,
+    equipment: Equipment.NONE,
+    exerciseType: ExerciseType.CARDIO,
+    isTimed: true,
+    instructions:
+      'Turn the rope from the wrists and make small, quick hops on the balls of the feet.',
+  },
+
+  // === FULL BODY ===
+  {
+    key: 'kettlebell-swing',
+    version: 1,
+    name: 'Kettlebell Swing',
+    description: 'Explosive hip hinge',
+    muscleGroup: MuscleGroup.FULL_BODY,
+    equipment: Equipment.KETTLEBELL,
+    exerciseType: ExerciseType.PLYOMETRIC,
+    isTimed: false,
+    instructions:
+      'Hike the kettlebell back between the legs, then snap the hips forward to float it to chest height. Let it fall back into the next rep.',
+  },
+  {
+    key: 'burpee',
+    version: 1,
+    name: 'Burpee',
+    description: 'Squat thrust with a jump',
+    muscleGroup: MuscleGroup.FULL_BODY,
+    equipment: Equipment.BODYWEIGHT,
+    exerciseType: ExerciseType.PLYOMETRIC,
+    isTimed: false,
+    instructions:
+      'Drop into a squat, kick the feet back to a plank, return the feet and jump up with arms overhead.',
+  },
+  {
+    key: 'box-jump',
+    version: 1,
+    name: 'Box Jump',
+    description: 'Explosive jump onto a box',
+    muscleGroup: MuscleGroup.FULL_BODY,
+    equipment: Equipment.NONE,
+    exerciseType: ExerciseType.PLYOMETRIC,
+    isTimed: false,
+    instructions:
+      'Swing the arms and jump onto the box, landing softly with both feet. Stand tall, then step down.',
+  },
+  {
+    key: 'farmers-carry',
+    version: 1,
+    name: "Farmer's Carry",
+    description: 'Loaded walk for grip and trunk strength',
+    muscleGroup: MuscleGroup.FULL_BODY,
+    equipment: Equipment.DUMBBELL,
+    exerciseType: ExerciseType.STRENGTH,
+    isTimed: true,
+    instructions:
+      'Pick up a heavy dumbbell in each hand and walk with short, quick steps while standing tall.',
+  },
+]
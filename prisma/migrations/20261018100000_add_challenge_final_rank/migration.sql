@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "challenge_participants" ADD COLUMN "final_rank" INTEGER;
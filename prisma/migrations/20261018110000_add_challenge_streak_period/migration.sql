@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "StreakPeriod" AS ENUM ('DAILY', 'WEEKLY');
+
+-- AlterTable
+ALTER TABLE "challenges" ADD COLUMN "streak_period" "StreakPeriod" NOT NULL DEFAULT 'DAILY';
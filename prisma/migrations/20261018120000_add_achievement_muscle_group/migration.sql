@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "achievements" ADD COLUMN "muscle_group" "MuscleGroup";
+
+-- Backfill muscle groups for the built-in MUSCLE_FOCUS achievements
+UPDATE "achievements" SET "muscle_group" = 'CHEST' WHERE "code" = 'MUSCLE_CHEST_50';
+UPDATE "achievements" SET "muscle_group" = 'BACK' WHERE "code" = 'MUSCLE_BACK_50';
+UPDATE "achievements" SET "muscle_group" = 'LEGS' WHERE "code" = 'MUSCLE_LEGS_50';
+UPDATE "achievements" SET "muscle_group" = 'SHOULDERS' WHERE "code" = 'MUSCLE_SHOULDERS_50';
+UPDATE "achievements" SET "muscle_group" = 'ARMS' WHERE "code" = 'MUSCLE_ARMS_50';
+UPDATE "achievements" SET "muscle_group" = 'CORE' WHERE "code" = 'MUSCLE_CORE_50';
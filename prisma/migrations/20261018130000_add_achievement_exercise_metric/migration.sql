@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "ExerciseAchievementMetric" AS ENUM ('MAX_WEIGHT', 'TOTAL_REPS', 'TOTAL_SETS', 'TOTAL_VOLUME');
+
+-- AlterTable
+ALTER TABLE "achievements" ADD COLUMN "exercise_metric" "ExerciseAchievementMetric";
+
+-- Existing exercise achievements were lift targets, so measure them by heaviest weight
+UPDATE "achievements" SET "exercise_metric" = 'MAX_WEIGHT' WHERE "category" = 'EXERCISE_SPECIFIC';
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "AchievementBackfillStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "achievement_backfills" (
+    "id" TEXT NOT NULL,
+    "achievement_id" TEXT NOT NULL,
+    "status" "AchievementBackfillStatus" NOT NULL DEFAULT 'PENDING',
+    "users_processed" INTEGER NOT NULL DEFAULT 0,
+    "users_awarded" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "achievement_backfills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "achievement_backfills_status_created_at_idx" ON "achievement_backfills"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "achievement_backfills_achievement_id_created_at_idx" ON "achievement_backfills"("achievement_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "achievement_backfills" ADD CONSTRAINT "achievement_backfills_achievement_id_fkey" FOREIGN KEY ("achievement_id") REFERENCES "achievements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
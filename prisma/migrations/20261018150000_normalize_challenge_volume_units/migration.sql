@@ -0,0 +1,27 @@
+-- Volume challenges used to sum raw weight * reps, so sets logged in pounds
+-- counted ~2.2x. Remove the excess from each participant's progress, over the
+-- same sets the progress updater counted: working sets from sessions completed
+-- inside the challenge window after joining, up to the participant finishing.
+-- Completions already recorded are kept.
+WITH excess AS (
+  SELECT cp.id, SUM(ws.weight * ws.reps * (1 - 0.45359237)) AS amount
+  FROM challenge_participants cp
+  JOIN challenges c ON c.id = cp.challenge_id
+  JOIN workout_sessions s ON s.user_id = cp.user_id
+  JOIN workout_sets ws ON ws.workout_session_id = s.id
+  WHERE c.challenge_type IN ('TOTAL_VOLUME', 'SPECIFIC_EXERCISE')
+    AND (c.challenge_type = 'TOTAL_VOLUME' OR ws.exercise_id = c.exercise_id)
+    AND s.completed_at >= GREATEST(c.start_date, cp.joined_at)
+    AND s.completed_at < c.end_date
+    AND (cp.completed_at IS NULL OR s.completed_at <= cp.completed_at)
+    AND ws.weight_unit = 'LBS'
+    AND ws.is_warmup = false
+    AND ws.is_dropset = false
+    AND ws.weight IS NOT NULL
+    AND ws.reps IS NOT NULL
+  GROUP BY cp.id
+)
+UPDATE challenge_participants cp
+SET progress = GREATEST(cp.progress - excess.amount, 0)
+FROM excess
+WHERE cp.id = excess.id;
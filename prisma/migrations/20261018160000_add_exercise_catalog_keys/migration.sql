@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "exercises" ADD COLUMN     "catalog_key" TEXT,
+ADD COLUMN     "catalog_version" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exercises_catalog_key_key" ON "exercises"("catalog_key");
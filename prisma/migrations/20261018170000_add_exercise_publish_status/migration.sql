@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "ExercisePublishStatus" AS ENUM ('PRIVATE', 'PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "exercises" ADD COLUMN     "publish_status" "ExercisePublishStatus" NOT NULL DEFAULT 'PRIVATE',
+ADD COLUMN     "publish_requested_at" TIMESTAMP(3);
+
+-- Existing custom exercises were admin-created and visible to everyone
+UPDATE "exercises" SET "publish_status" = 'APPROVED' WHERE "is_custom" = true;
+
+-- CreateIndex
+CREATE INDEX "exercises_publish_status_idx" ON "exercises"("publish_status");
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ExerciseGroupType" AS ENUM ('SUPERSET', 'CIRCUIT', 'GIANT_SET');
+
+-- AlterTable
+ALTER TABLE "plan_exercises" ADD COLUMN     "group_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "workout_sets" ADD COLUMN     "group_id" TEXT,
+ADD COLUMN     "group_type" "ExerciseGroupType";
+
+-- CreateTable
+CREATE TABLE "plan_exercise_groups" (
+    "id" TEXT NOT NULL,
+    "plan_day_id" TEXT NOT NULL,
+    "group_type" "ExerciseGroupType" NOT NULL,
+    "rounds" INTEGER NOT NULL,
+    "rest_seconds" INTEGER NOT NULL DEFAULT 90,
+
+    CONSTRAINT "plan_exercise_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "plan_exercise_groups_plan_day_id_idx" ON "plan_exercise_groups"("plan_day_id");
+
+-- CreateIndex
+CREATE INDEX "plan_exercises_group_id_idx" ON "plan_exercises"("group_id");
+
+-- AddForeignKey
+ALTER TABLE "plan_exercises" ADD CONSTRAINT "plan_exercises_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "plan_exercise_groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "plan_exercise_groups" ADD CONSTRAINT "plan_exercise_groups_plan_day_id_fkey" FOREIGN KEY ("plan_day_id") REFERENCES "plan_days"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "workout_sessions" ADD COLUMN     "resumed_at" TIMESTAMP(3),
+ADD COLUMN     "auto_closed_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "workout_sessions_user_id_auto_closed_at_idx" ON "workout_sessions"("user_id", "auto_closed_at");
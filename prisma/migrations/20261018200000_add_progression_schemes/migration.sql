@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "ProgressionScheme" AS ENUM ('LINEAR', 'DOUBLE', 'RPE');
+
+-- AlterTable
+ALTER TABLE "plan_exercises" ADD COLUMN     "progression_scheme" "ProgressionScheme",
+ADD COLUMN     "target_reps_max" INTEGER,
+ADD COLUMN     "target_rpe" INTEGER,
+ADD COLUMN     "weight_increment" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "progression_suggestions" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "plan_exercise_id" TEXT NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL,
+    "reps" INTEGER NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "basis_weight" DOUBLE PRECISION NOT NULL,
+    "basis_reps" INTEGER NOT NULL,
+    "basis_rpe" INTEGER,
+    "based_on_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "progression_suggestions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "progression_suggestions_plan_exercise_id_idx" ON "progression_suggestions"("plan_exercise_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "progression_suggestions_user_id_plan_exercise_id_key" ON "progression_suggestions"("user_id", "plan_exercise_id");
+
+-- AddForeignKey
+ALTER TABLE "progression_suggestions" ADD CONSTRAINT "progression_suggestions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "progression_suggestions" ADD CONSTRAINT "progression_suggestions_plan_exercise_id_fkey" FOREIGN KEY ("plan_exercise_id") REFERENCES "plan_exercises"("id") ON DELETE CASCADE ON UPDATE CASCADE;
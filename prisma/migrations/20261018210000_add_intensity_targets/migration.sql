@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "plan_exercises" ADD COLUMN     "target_percent_1rm" DOUBLE PRECISION,
+ADD COLUMN     "target_rir" INTEGER;
+
+-- AlterTable
+ALTER TABLE "workout_sessions" ADD COLUMN     "target_weights" JSONB;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "SetType" AS ENUM ('WARMUP', 'WORKING', 'TOP', 'BACKOFF', 'DROP');
+
+-- CreateTable
+CREATE TABLE "plan_set_prescriptions" (
+    "id" TEXT NOT NULL,
+    "plan_exercise_id" TEXT NOT NULL,
+    "set_order" INTEGER NOT NULL,
+    "set_type" "SetType" NOT NULL,
+    "target_reps" INTEGER,
+    "target_rpe" INTEGER,
+    "target_weight" DOUBLE PRECISION,
+    "target_percent_1rm" DOUBLE PRECISION,
+    "percent_off" DOUBLE PRECISION,
+
+    CONSTRAINT "plan_set_prescriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plan_set_prescriptions_plan_exercise_id_set_order_key" ON "plan_set_prescriptions"("plan_exercise_id", "set_order");
+
+-- AddForeignKey
+ALTER TABLE "plan_set_prescriptions" ADD CONSTRAINT "plan_set_prescriptions_plan_exercise_id_fkey" FOREIGN KEY ("plan_exercise_id") REFERENCES "plan_exercises"("id") ON DELETE CASCADE ON UPDATE CASCADE;
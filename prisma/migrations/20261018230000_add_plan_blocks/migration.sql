@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "workout_plans" ADD COLUMN "block_weeks" INTEGER;
+
+-- AlterTable
+ALTER TABLE "workout_sessions" ADD COLUMN "block_week" INTEGER;
+
+-- CreateTable
+CREATE TABLE "plan_weeks" (
+    "id" TEXT NOT NULL,
+    "workout_plan_id" TEXT NOT NULL,
+    "week_number" INTEGER NOT NULL,
+    "set_delta" INTEGER NOT NULL DEFAULT 0,
+    "rep_delta" INTEGER NOT NULL DEFAULT 0,
+    "intensity_percent" DOUBLE PRECISION NOT NULL DEFAULT 100,
+    "is_deload" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "plan_weeks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "plan_block_progress" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "workout_plan_id" TEXT NOT NULL,
+    "current_week" INTEGER NOT NULL DEFAULT 1,
+    "blocks_completed" INTEGER NOT NULL DEFAULT 0,
+    "week_started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "plan_block_progress_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plan_weeks_workout_plan_id_week_number_key" ON "plan_weeks"("workout_plan_id", "week_number");
+
+-- CreateIndex
+CREATE INDEX "plan_block_progress_workout_plan_id_idx" ON "plan_block_progress"("workout_plan_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plan_block_progress_user_id_workout_plan_id_key" ON "plan_block_progress"("user_id", "workout_plan_id");
+
+-- AddForeignKey
+ALTER TABLE "plan_weeks" ADD CONSTRAINT "plan_weeks_workout_plan_id_fkey" FOREIGN KEY ("workout_plan_id") REFERENCES "workout_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "plan_block_progress" ADD CONSTRAINT "plan_block_progress_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "plan_block_progress" ADD CONSTRAINT "plan_block_progress_workout_plan_id_fkey" FOREIGN KEY ("workout_plan_id") REFERENCES "workout_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "PlanScheduleType" AS ENUM ('WEEKDAYS', 'ROTATION');
+
+-- AlterTable
+ALTER TABLE "workout_plans" ADD COLUMN "schedule_type" "PlanScheduleType",
+ADD COLUMN "rotation_days_on" INTEGER,
+ADD COLUMN "rotation_days_off" INTEGER,
+ADD COLUMN "schedule_start_date" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "plan_days" ADD COLUMN "weekday" INTEGER;
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "plan_exercise_alternates" (
+    "id" TEXT NOT NULL,
+    "plan_exercise_id" TEXT NOT NULL,
+    "exercise_id" TEXT NOT NULL,
+    "sort_order" INTEGER NOT NULL,
+
+    CONSTRAINT "plan_exercise_alternates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "workout_substitutions" (
+    "id" TEXT NOT NULL,
+    "workout_session_id" TEXT NOT NULL,
+    "plan_exercise_id" TEXT NOT NULL,
+    "exercise_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workout_substitutions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "plan_exercise_alternates_exercise_id_idx" ON "plan_exercise_alternates"("exercise_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plan_exercise_alternates_plan_exercise_id_exercise_id_key" ON "plan_exercise_alternates"("plan_exercise_id", "exercise_id");
+
+-- CreateIndex
+CREATE INDEX "workout_substitutions_plan_exercise_id_idx" ON "workout_substitutions"("plan_exercise_id");
+
+-- CreateIndex
+CREATE INDEX "workout_substitutions_exercise_id_idx" ON "workout_substitutions"("exercise_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workout_substitutions_workout_session_id_plan_exercise_id_key" ON "workout_substitutions"("workout_session_id", "plan_exercise_id");
+
+-- AddForeignKey
+ALTER TABLE "plan_exercise_alternates" ADD CONSTRAINT "plan_exercise_alternates_plan_exercise_id_fkey" FOREIGN KEY ("plan_exercise_id") REFERENCES "plan_exercises"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "plan_exercise_alternates" ADD CONSTRAINT "plan_exercise_alternates_exercise_id_fkey" FOREIGN KEY ("exercise_id") REFERENCES "exercises"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workout_substitutions" ADD CONSTRAINT "workout_substitutions_workout_session_id_fkey" FOREIGN KEY ("workout_session_id") REFERENCES "workout_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workout_substitutions" ADD CONSTRAINT "workout_substitutions_plan_exercise_id_fkey" FOREIGN KEY ("plan_exercise_id") REFERENCES "plan_exercises"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workout_substitutions" ADD CONSTRAINT "workout_substitutions_exercise_id_fkey" FOREIGN KEY ("exercise_id") REFERENCES "exercises"("id") ON DELETE CASCADE ON UPDATE CASCADE;
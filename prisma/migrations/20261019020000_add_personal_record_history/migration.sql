@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "personal_record_history" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "exercise_id" TEXT NOT NULL,
+    "record_type" "RecordType" NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "previous_value" DOUBLE PRECISION,
+    "workout_set_id" TEXT NOT NULL,
+    "achieved_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "personal_record_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "personal_record_history_user_id_achieved_at_idx" ON "personal_record_history"("user_id", "achieved_at");
+
+-- CreateIndex
+CREATE INDEX "personal_record_history_user_id_exercise_id_achieved_at_idx" ON "personal_record_history"("user_id", "exercise_id", "achieved_at");
+
+-- CreateIndex
+CREATE INDEX "personal_record_history_exercise_id_idx" ON "personal_record_history"("exercise_id");
+
+-- CreateIndex
+CREATE INDEX "personal_record_history_workout_set_id_idx" ON "personal_record_history"("workout_set_id");
+
+-- AddForeignKey
+ALTER TABLE "personal_record_history" ADD CONSTRAINT "personal_record_history_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "personal_record_history" ADD CONSTRAINT "personal_record_history_exercise_id_fkey" FOREIGN KEY ("exercise_id") REFERENCES "exercises"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "personal_record_history" ADD CONSTRAINT "personal_record_history_workout_set_id_fkey" FOREIGN KEY ("workout_set_id") REFERENCES "workout_sets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the history with the records held today; earlier ones were overwritten
+INSERT INTO "personal_record_history" ("id", "user_id", "exercise_id", "record_type", "value", "previous_value", "workout_set_id", "achieved_at")
+SELECT gen_random_uuid()::text, "user_id", "exercise_id", "record_type", "value", "previous_record", "workout_set_id", "achieved_at"
+FROM "personal_records";
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "bodyweight_entries" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL,
+    "recorded_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bodyweight_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bodyweight_entries_user_id_recorded_at_idx" ON "bodyweight_entries"("user_id", "recorded_at");
+
+-- AddForeignKey
+ALTER TABLE "bodyweight_entries" ADD CONSTRAINT "bodyweight_entries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "MeasurementSite" AS ENUM ('NECK', 'SHOULDERS', 'CHEST', 'WAIST', 'HIPS', 'LEFT_ARM', 'RIGHT_ARM', 'LEFT_FOREARM', 'RIGHT_FOREARM', 'LEFT_THIGH', 'RIGHT_THIGH', 'LEFT_CALF', 'RIGHT_CALF');
+
+-- CreateTable
+CREATE TABLE "body_measurements" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "site" "MeasurementSite" NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "recorded_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "body_measurements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "progress_photos" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "mime_type" TEXT NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    "notes" TEXT,
+    "taken_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "progress_photos_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "body_measurements_user_id_site_recorded_at_idx" ON "body_measurements"("user_id", "site", "recorded_at");
+
+-- CreateIndex
+CREATE INDEX "body_measurements_user_id_recorded_at_idx" ON "body_measurements"("user_id", "recorded_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "progress_photos_storage_key_key" ON "progress_photos"("storage_key");
+
+-- CreateIndex
+CREATE INDEX "progress_photos_user_id_taken_at_idx" ON "progress_photos"("user_id", "taken_at");
+
+-- AddForeignKey
+ALTER TABLE "body_measurements" ADD CONSTRAINT "body_measurements_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "progress_photos" ADD CONSTRAINT "progress_photos_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
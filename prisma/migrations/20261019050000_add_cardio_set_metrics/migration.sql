@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "DistanceUnit" AS ENUM ('M', 'KM', 'MI');
+
+-- AlterEnum
+ALTER TYPE "RecordType" ADD VALUE 'MAX_DISTANCE';
+ALTER TYPE "RecordType" ADD VALUE 'FASTEST_1K';
+ALTER TYPE "RecordType" ADD VALUE 'FASTEST_5K';
+ALTER TYPE "RecordType" ADD VALUE 'FASTEST_10K';
+
+-- AlterTable
+ALTER TABLE "workout_sets" ADD COLUMN     "avg_heart_rate" INTEGER,
+ADD COLUMN     "calories" INTEGER,
+ADD COLUMN     "distance" DOUBLE PRECISION,
+ADD COLUMN     "distance_unit" "DistanceUnit" NOT NULL DEFAULT 'KM',
+ADD COLUMN     "level" DOUBLE PRECISION,
+ADD COLUMN     "max_heart_rate" INTEGER;
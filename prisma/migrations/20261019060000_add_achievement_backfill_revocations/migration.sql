@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "achievement_backfills" ADD COLUMN     "users_revoked" INTEGER NOT NULL DEFAULT 0;
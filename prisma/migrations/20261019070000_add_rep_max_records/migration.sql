@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "RecordType" ADD VALUE 'E1RM';
+ALTER TYPE "RecordType" ADD VALUE 'REP_MAX_1';
+ALTER TYPE "RecordType" ADD VALUE 'REP_MAX_2';
+ALTER TYPE "RecordType" ADD VALUE 'REP_MAX_3';
+ALTER TYPE "RecordType" ADD VALUE 'REP_MAX_4';
+ALTER TYPE "RecordType" ADD VALUE 'REP_MAX_5';
+ALTER TYPE "RecordType" ADD VALUE 'REP_MAX_6';
+ALTER TYPE "RecordType" ADD VALUE 'REP_MAX_7';
+ALTER TYPE "RecordType" ADD VALUE 'REP_MAX_8';
+ALTER TYPE "RecordType" ADD VALUE 'REP_MAX_9';
+ALTER TYPE "RecordType" ADD VALUE 'REP_MAX_10';
+ALTER TYPE "RecordType" ADD VALUE 'REP_MAX_11';
+ALTER TYPE "RecordType" ADD VALUE 'REP_MAX_12';
@@ -2,9 +2,12 @@ import 'dotenv/config'
 import {
   AchievementCategory,
   AchievementRarity,
+  MuscleGroup,
   PrismaClient,
 } from '@prisma/client'
 import { PrismaPg } from '@prisma/adapter-pg'
+import { exerciseCatalog } from './exercise-catalog'
+import type { CatalogExercise } from './exercise-catalog'
 
 const adapter = new PrismaPg({
   connectionString: process.env.DATABASE_URL!,
@@ -262,6 +265,7 @@ const achievements = [
     rarity: AchievementRarity.UNCOMMON,
     icon: 'heart',
     threshold: 50,
+    muscleGroup: MuscleGroup.CHEST,
     sortOrder: 50,
   },
   {
@@ -272,6 +276,7 @@ const achievements = [
     rarity: AchievementRarity.UNCOMMON,
     icon: 'arrow-up',
     threshold: 50,
+    muscleGroup: MuscleGroup.BACK,
     sortOrder: 51,
   },
   {
@@ -282,6 +287,7 @@ const achievements = [
     rarity: AchievementRarity.UNCOMMON,
     icon: 'footprints',
     threshold: 50,
+    muscleGroup: MuscleGroup.LEGS,
     sortOrder: 52,
   },
   {
@@ -292,6 +298,7 @@ const achievements = [
     rarity: AchievementRarity.UNCOMMON,
     icon: 'chevrons-up',
     threshold: 50,
+    muscleGroup: MuscleGroup.SHOULDERS,
     sortOrder: 53,
   },
   {
@@ -302,6 +309,7 @@ const achievements = [
     rarity: AchievementRarity.UNCOMMON,
     icon: 'zap',
     threshold: 50,
+    muscleGroup: MuscleGroup.ARMS,
     sortOrder: 54,
   },
   {
@@ -312,13 +320,69 @@ const achievements = [
     rarity: AchievementRarity.UNCOMMON,
     icon: 'circle',
     threshold: 50,
+    muscleGroup: MuscleGroup.CORE,
     sortOrder: 55,
   },
 ]
 
+// Create or update one catalog exercise, matched by its stable key.
+// Returns what happened so the seed can report it.
+async function upsertCatalogExercise(
+  entry: CatalogExercise,
+): Promise<'created' | 'updated' | 'unchanged'> {
+  const { key, version, ...fields } = entry
+
+  const existing = await prisma.exercise.findUnique({
+    where: { catalogKey: key },
+    select: { id: true, catalogVersion: true },
+  })
+  if (existing) {
+    // Only rewrite rows seeded from an older version of the entry
+    if ((existing.catalogVersion ?? 0) >= version) return 'unchanged'
+    await prisma.exercise.update({
+      where: { id: existing.id },
+      data: { ...fields, catalogVersion: version },
+    })
+    return 'updated'
+  }
+
+  // Adopt a built-in exercise created before the catalog had keys rather than
+  // duplicating it, so its existing workout sets stay attached
+  const legacy = await prisma.exercise.findFirst({
+    where: {
+      catalogKey: null,
+      isCustom: false,
+      userId: null,
+      name: { equals: fields.name, mode: 'insensitive' },
+    },
+    select: { id: true },
+  })
+  if (legacy) {
+    await prisma.exercise.update({
+      where: { id: legacy.id },
+      data: { ...fields, catalogKey: key, catalogVersion: version },
+    })
+    return 'updated'
+  }
+
+  await prisma.exercise.create({
+    data: { ...fields, catalogKey: key, catalogVersion: version },
+  })
+  return 'created'
+}
+
 async function main() {
   console.log('Seeding database...')
 
+  const counts = { created: 0, updated: 0, unchanged: 0 }
+  for (const entry of exerciseCatalog) {
+    counts[await upsertCatalogExercise(entry)]++
+  }
+
+  console.log(
+    `Seeded ${exerciseCatalog.length} exercises (${counts.created} created, ${counts.updated} updated)`,
+  )
+
   // Upsert achievements to preserve existing IDs (and UserAchievement FK references)
   for (const achievement of achievements) {
     await prisma.achievement.upsert({
@@ -331,6 +395,7 @@ async function main() {
         icon: achievement.icon,
         threshold: achievement.threshold,
         sortOrder: achievement.sortOrder,
+        muscleGroup: achievement.muscleGroup,
       },
       create: achievement,
     })
@@ -0,0 +1,105 @@
+// Service worker: keeps the app shell and built assets available offline so
+// an active workout can be reopened without a connection. Server function
+// calls are never cached; sets logged offline are queued by the app itself.
+
+// Bump VERSION whenever what's precached or how it's cached changes, so the
+// new worker starts from empty caches and clears out the old ones
+const VERSION = 'v2'
+const CACHE_PREFIX = 'gymlink-'
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${VERSION}`
+const PAGES_CACHE = `${CACHE_PREFIX}pages-${VERSION}`
+const CACHES = [SHELL_CACHE, PAGES_CACHE]
+// Pages visited are kept for offline use, dropping the least recently
+// fetched beyond this many
+const MAX_CACHED_PAGES = 25
+
+const SHELL_URL = '/workout/active'
+const PRECACHE = [SHELL_URL, '/manifest.json', '/icon-192.png', '/icon-512.png']
+
+/** Keep a response in `cacheName` if it's worth reusing */
+function cacheResponse(cacheName, request, response) {
+  if (!response.ok) return Promise.resolve()
+  const copy = response.clone()
+  return caches.open(cacheName).then((cache) => cache.put(request, copy))
+}
+
+/** Delete the oldest entries until at most `max` are left */
+function trimCache(cacheName, max) {
+  return caches.open(cacheName).then((cache) =>
+    cache.keys().then((keys) =>
+      // Keys are in the order they were last put
+      Promise.all(
+        keys
+          .slice(0, Math.max(0, keys.length - max))
+          .map((key) => cache.delete(key)),
+      ),
+    ),
+  )
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX))
+            .filter((key) => !CACHES.includes(key))
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+  if (url.pathname.startsWith('/_serverFn')) return
+
+  if (request.mode === 'navigate') {
+    // Network first so pages stay fresh; fall back to the cached shell
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          event.waitUntil(
+            cacheResponse(PAGES_CACHE, request, response).then(() =>
+              trimCache(PAGES_CACHE, MAX_CACHED_PAGES),
+            ),
+          )
+          return response
+        })
+        .catch(() =>
+          caches
+            .match(request)
+            .then((cached) => cached ?? caches.match(SHELL_URL)),
+        ),
+    )
+    return
+  }
+
+  if (url.pathname.startsWith('/assets/') || PRECACHE.includes(url.pathname)) {
+    // Built assets are content-hashed, so a cached copy never goes stale
+    event.respondWith(
+      caches.match(request).then(
+        (cached) =>
+          cached ??
+          fetch(request).then((response) => {
+            event.waitUntil(cacheResponse(SHELL_CACHE, request, response))
+            return response
+          }),
+      ),
+    )
+  }
+})
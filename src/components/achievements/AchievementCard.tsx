@@ -1,6 +1,8 @@
 import { memo } from 'react'
 import AchievementBadge from './AchievementBadge'
+import AchievementProgressBar from './AchievementProgressBar'
 import type { AchievementCategory, AchievementRarity } from '@prisma/client'
+import type { AchievementProgress } from '@/lib/achievement-rules'
 
 interface AchievementCardProps {
   name: string
@@ -10,6 +12,8 @@ interface AchievementCardProps {
   category: AchievementCategory
   earned: boolean
   earnedAt?: Date | null
+  progress?: AchievementProgress
+  progressUnit?: string
   onClick?: () => void
 }
 
@@ -52,6 +56,8 @@ export default memo(function AchievementCard({
   rarity,
   earned,
   earnedAt,
+  progress,
+  progressUnit,
   onClick,
 }: AchievementCardProps) {
   const borderColor = earned ? rarityBorderColors[rarity] : 'border-zinc-700/50'
@@ -87,6 +93,8 @@ export default memo(function AchievementCard({
             <p className="text-xs text-zinc-500">
               Earned {formatDate(earnedAt)}
             </p>
+          ) : progress ? (
+            <AchievementProgressBar progress={progress} unit={progressUnit} />
           ) : (
             <p className="text-xs text-zinc-500">Locked</p>
           )}
@@ -1,6 +1,12 @@
 import { useMemo, useState } from 'react'
 import AchievementCard from './AchievementCard'
-import type { AchievementCategory, AchievementRarity } from '@prisma/client'
+import type {
+  AchievementCategory,
+  AchievementRarity,
+  ExerciseAchievementMetric,
+} from '@prisma/client'
+import type { AchievementProgress } from '@/lib/achievement-rules'
+import { getAchievementUnit } from '@/lib/achievement-rules'
 
 interface Achievement {
   id: string
@@ -12,6 +18,7 @@ interface Achievement {
   icon: string
   threshold: number
   sortOrder: number
+  exerciseMetric?: ExerciseAchievementMetric | null
 }
 
 interface UserAchievement {
@@ -25,6 +32,7 @@ interface AchievementGridProps {
   allAchievements: Array<Achievement>
   earnedAchievements: Array<UserAchievement>
   earnedSet: Set<string>
+  progress?: Partial<Record<string, AchievementProgress>>
 }
 
 const categoryLabels: Record<AchievementCategory, string> = {
@@ -51,6 +59,7 @@ export default function AchievementGrid({
   allAchievements,
   earnedAchievements,
   earnedSet,
+  progress = {},
 }: AchievementGridProps) {
   const [selectedCategory, setSelectedCategory] = useState<
     AchievementCategory | 'ALL'
@@ -146,6 +155,8 @@ export default function AchievementGrid({
             category={achievement.category}
             earned={earnedSet.has(achievement.id)}
             earnedAt={earnedDates.get(achievement.id)}
+            progress={progress[achievement.id]}
+            progressUnit={getAchievementUnit(achievement)}
           />
         ))}
       </div>
@@ -0,0 +1,30 @@
+import type { AchievementProgress } from '@/lib/achievement-rules'
+import { getProgressRatio } from '@/lib/achievement-rules'
+
+interface AchievementProgressBarProps {
+  progress: AchievementProgress
+  unit?: string
+}
+
+export default function AchievementProgressBar({
+  progress,
+  unit,
+}: AchievementProgressBarProps) {
+  const percent = getProgressRatio(progress) * 100
+
+  return (
+    <div>
+      <div className="h-1.5 rounded-full bg-zinc-700 overflow-hidden">
+        <div
+          className="h-full rounded-full bg-blue-500 transition-all duration-500"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className="text-xs text-zinc-500 mt-1">
+        {Math.floor(progress.current).toLocaleString()} /{' '}
+        {progress.target.toLocaleString()}
+        {unit && ` ${unit}`}
+      </p>
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 export { default as AchievementBadge } from './AchievementBadge'
 export { default as AchievementCard } from './AchievementCard'
 export { default as AchievementGrid } from './AchievementGrid'
+export { default as AchievementProgressBar } from './AchievementProgressBar'
 export { default as AchievementToast } from './AchievementToast'
@@ -1,8 +1,17 @@
 import { Crown } from 'lucide-react'
+import type { DistanceUnit, WeightUnit } from '@prisma/client'
 import type { SharedPR } from '@/lib/compare.server'
 import { formatPR } from '@/lib/formatting'
 
-export default function ComparePRCard({ pr }: { pr: SharedPR }) {
+export default function ComparePRCard({
+  pr,
+  weightUnit,
+  distanceUnit,
+}: {
+  pr: SharedPR
+  weightUnit: WeightUnit
+  distanceUnit: DistanceUnit
+}) {
   return (
     <div className="flex items-center gap-3 py-3 px-4">
       {/* My value */}
@@ -16,13 +25,17 @@ export default function ComparePRCard({ pr }: { pr: SharedPR }) {
               pr.winner === 'me' ? 'text-blue-400' : 'text-zinc-400'
             }`}
           >
-            {formatPR({
-              recordType: pr.recordType,
-              value: pr.myValue,
-              weight: pr.myWeight,
-              reps: pr.myReps,
-              timeSeconds: pr.myTimeSeconds,
-            })}
+            {formatPR(
+              {
+                recordType: pr.recordType,
+                value: pr.myValue,
+                weight: pr.myWeight,
+                reps: pr.myReps,
+                timeSeconds: pr.myTimeSeconds,
+              },
+              weightUnit,
+              distanceUnit,
+            )}
           </span>
         </div>
       </div>
@@ -42,13 +55,17 @@ export default function ComparePRCard({ pr }: { pr: SharedPR }) {
               pr.winner === 'them' ? 'text-blue-400' : 'text-zinc-400'
             }`}
           >
-            {formatPR({
-              recordType: pr.recordType,
-              value: pr.theirValue,
-              weight: pr.theirWeight,
-              reps: pr.theirReps,
-              timeSeconds: pr.theirTimeSeconds,
-            })}
+            {formatPR(
+              {
+                recordType: pr.recordType,
+                value: pr.theirValue,
+                weight: pr.theirWeight,
+                reps: pr.theirReps,
+                timeSeconds: pr.theirTimeSeconds,
+              },
+              weightUnit,
+              distanceUnit,
+            )}
           </span>
           {pr.winner === 'them' && (
             <Crown className="w-3.5 h-3.5 text-yellow-400" />
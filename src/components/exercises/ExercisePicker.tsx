@@ -21,7 +21,7 @@ export default function ExercisePicker({
   onSelect,
   excludeIds = [],
 }: ExercisePickerProps) {
-  const { user } = useAuth()
+  const { token } = useAuth()
   const [exercises, setExercises] = useState<Array<Exercise>>([])
   const [loading, setLoading] = useState(true)
   const [search, setSearch] = useState('')
@@ -41,7 +41,7 @@ export default function ExercisePicker({
             muscleGroup,
             equipment,
             search: search || undefined,
-            userId: user?.id,
+            token,
           },
         })
         setExercises(result.exercises.filter((e) => !excludeIds.includes(e.id)))
@@ -54,7 +54,7 @@ export default function ExercisePicker({
 
     const debounce = setTimeout(fetchExercises, DEBOUNCE_DELAY_MS)
     return () => clearTimeout(debounce)
-  }, [isOpen, muscleGroup, equipment, search, user?.id, excludeIds])
+  }, [isOpen, muscleGroup, equipment, search, token, excludeIds])
 
   // Prevent body scroll when modal is open
   useBodyOverflow(isOpen)
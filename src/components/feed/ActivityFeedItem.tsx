@@ -1,9 +1,23 @@
 import { memo } from 'react'
 import { Link } from '@tanstack/react-router'
 import { Dumbbell, Medal, PartyPopper, Target, Trophy } from 'lucide-react'
-import type { ActivityType } from '@prisma/client'
+import type {
+  ActivityType,
+  DistanceUnit,
+  RecordType,
+  WeightUnit,
+} from '@prisma/client'
 import Avatar from '@/components/ui/Avatar'
-import { formatVolume } from '@/lib/formatting'
+import {
+  formatDistanceMeters,
+  formatRaceTime,
+  formatSetWeight,
+  formatStrengthRecord,
+  formatVolume,
+  formatWeightKg,
+} from '@/lib/formatting'
+import { isStrengthRecord } from '@/lib/pr-utils'
+import { useAuth } from '@/context/AuthContext'
 
 interface ActivityMetadata {
   workoutName?: string
@@ -15,8 +29,11 @@ interface ActivityMetadata {
   previousRecord?: number
   recordType?: string
   weight?: number
+  weightUnit?: WeightUnit
   reps?: number
   timeSeconds?: number
+  distance?: number
+  distanceUnit?: DistanceUnit
   achievementName?: string
   achievementRarity?: string
   challengeName?: string
@@ -71,14 +88,25 @@ const formatPRTime = (seconds: number) => {
   return `${mins}:${secs.toString().padStart(2, '0')}`
 }
 
-const formatPRValue = (metadata: ActivityMetadata) => {
+// The set weight keeps the unit it was logged in; record values are in kg,
+// or meters for distance
+const formatPRValue = (
+  metadata: ActivityMetadata,
+  unit: WeightUnit,
+  distanceUnit: DistanceUnit,
+) => {
+  const weightUnit = metadata.weightUnit ?? 'KG'
+  const recordType = metadata.recordType as RecordType | undefined
+  if (recordType && isStrengthRecord(recordType)) {
+    return formatStrengthRecord(recordType, metadata.value ?? 0, unit)
+  }
   switch (metadata.recordType) {
     case 'MAX_VOLUME':
       if (metadata.weight && metadata.reps) {
-        return `${metadata.weight}kg × ${metadata.reps} reps`
+        return `${formatSetWeight(metadata.weight, weightUnit, unit)} × ${metadata.reps} reps`
       }
       if (metadata.weight && metadata.timeSeconds) {
-        return `${metadata.weight}kg × ${formatPRTime(metadata.timeSeconds)}`
+        return `${formatSetWeight(metadata.weight, weightUnit, unit)} × ${formatPRTime(metadata.timeSeconds)}`
       }
       if (metadata.reps) return `${metadata.reps} reps`
       if (metadata.timeSeconds) return formatPRTime(metadata.timeSeconds)
@@ -88,7 +116,13 @@ const formatPRValue = (metadata: ActivityMetadata) => {
     case 'MAX_REPS':
       return `${metadata.value} reps`
     case 'MAX_WEIGHT':
-      return `${metadata.value}kg`
+      return formatWeightKg(metadata.value ?? 0, unit)
+    case 'MAX_DISTANCE':
+      return formatDistanceMeters(metadata.value ?? 0, distanceUnit)
+    case 'FASTEST_1K':
+    case 'FASTEST_5K':
+    case 'FASTEST_10K':
+      return formatRaceTime(metadata.value ?? 0)
     default:
       return (metadata.value ?? 0).toLocaleString()
   }
@@ -103,6 +137,8 @@ const accentBorder: Record<string, string> = {
 }
 
 function ActivityFeedItemComponent({ activity, style }: ActivityFeedItemProps) {
+  const { preferences } = useAuth()
+
   const renderContent = (): React.ReactNode => {
     const metadata = activity.metadata
 
@@ -128,7 +164,10 @@ function ActivityFeedItemComponent({ activity, style }: ActivityFeedItemProps) {
                   <span> · {formatDuration(metadata.duration)}</span>
                 )}
                 {metadata.volume !== undefined && metadata.volume > 0 && (
-                  <span> · {formatVolume(metadata.volume)}</span>
+                  <span>
+                    {' '}
+                    · {formatVolume(metadata.volume, preferences.weightUnit)}
+                  </span>
                 )}
               </p>
             </div>
@@ -148,7 +187,13 @@ function ActivityFeedItemComponent({ activity, style }: ActivityFeedItemProps) {
                   {metadata.exerciseName ?? 'an exercise'}
                 </span>
               </p>
-              <p className="text-sm text-zinc-500">{formatPRValue(metadata)}</p>
+              <p className="text-sm text-zinc-500">
+                {formatPRValue(
+                  metadata,
+                  preferences.weightUnit,
+                  preferences.distanceUnit,
+                )}
+              </p>
             </div>
           </div>
         )
@@ -0,0 +1,236 @@
+import { useState } from 'react'
+import { Check } from 'lucide-react'
+import type { ExerciseGroupType } from '@prisma/client'
+import { MAX_EXERCISE_GROUP_REST_SECONDS } from '@/lib/constants'
+import {
+  EXERCISE_GROUP_LABELS,
+  EXERCISE_GROUP_TYPES,
+  validateExerciseGroup,
+} from '@/lib/exercise-groups'
+
+interface ExerciseGroupSettings {
+  groupType: ExerciseGroupType
+  rounds: number
+  restSeconds: number
+}
+
+interface ExerciseGroupFormProps {
+  /** Exercises to choose members from; omit when editing an existing group */
+  exercises?: Array<{ id: string; exercise: { name: string } }>
+  /** Member count of an existing group, used for validation when editing */
+  memberCount?: number
+  initialData?: Partial<ExerciseGroupSettings>
+  onSubmit: (
+    data: ExerciseGroupSettings & { planExerciseIds: Array<string> },
+  ) => Promise<void>
+  onCancel?: () => void
+  onUngroup?: () => void
+  isLoading?: boolean
+  submitLabel?: string
+}
+
+const REST_PRESETS = [0, 60, 90, 120, 180]
+
+export default function ExerciseGroupForm({
+  exercises,
+  memberCount,
+  initialData,
+  onSubmit,
+  onCancel,
+  onUngroup,
+  isLoading = false,
+  submitLabel = 'Save',
+}: ExerciseGroupFormProps) {
+  const [selectedIds, setSelectedIds] = useState<Array<string>>([])
+  const [groupType, setGroupType] = useState<ExerciseGroupType>(
+    initialData?.groupType ?? 'SUPERSET',
+  )
+  const [rounds, setRounds] = useState(initialData?.rounds ?? 3)
+  const [restSeconds, setRestSeconds] = useState(initialData?.restSeconds ?? 90)
+  const [error, setError] = useState('')
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id],
+    )
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    try {
+      validateExerciseGroup(
+        groupType,
+        exercises ? selectedIds.length : (memberCount ?? 0),
+        rounds,
+        restSeconds,
+      )
+      await onSubmit({
+        groupType,
+        rounds,
+        restSeconds,
+        planExerciseIds: selectedIds,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Group type */}
+      <div>
+        <label className="block text-sm font-medium text-zinc-400 mb-2">
+          Type
+        </label>
+        <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50">
+          {EXERCISE_GROUP_TYPES.map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setGroupType(type)}
+              className={`flex-1 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                groupType === type
+                  ? 'bg-blue-500 text-white'
+                  : 'text-zinc-400 hover:text-white hover:bg-zinc-700/50'
+              }`}
+            >
+              {EXERCISE_GROUP_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Members */}
+      {exercises && (
+        <div>
+          <label className="block text-sm font-medium text-zinc-400 mb-2">
+            Exercises
+          </label>
+          {exercises.length < 2 ? (
+            <p className="text-sm text-zinc-500">
+              Add at least two ungrouped exercises to this day first.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {exercises.map((pe) => {
+                const selected = selectedIds.includes(pe.id)
+                return (
+                  <button
+                    key={pe.id}
+                    type="button"
+                    onClick={() => toggleSelected(pe.id)}
+                    className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl text-left transition-colors ${
+                      selected
+                        ? 'bg-blue-600/20 text-white'
+                        : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'
+                    }`}
+                  >
+                    <span
+                      className={`w-5 h-5 rounded flex items-center justify-center border ${
+                        selected
+                          ? 'bg-blue-600 border-blue-600'
+                          : 'border-zinc-600'
+                      }`}
+                    >
+                      {selected && <Check className="w-3.5 h-3.5" />}
+                    </span>
+                    {pe.exercise.name}
+                  </button>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Rounds */}
+      <div>
+        <label className="block text-sm font-medium text-zinc-400 mb-2">
+          Rounds *
+        </label>
+        <input
+          type="number"
+          value={rounds}
+          onChange={(e) => setRounds(parseInt(e.target.value) || 1)}
+          min={1}
+          max={20}
+          inputMode="numeric"
+          className="w-full px-4 py-3 bg-zinc-800 text-white rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+
+      {/* Rest after each round */}
+      <div>
+        <label className="block text-sm font-medium text-zinc-400 mb-2">
+          Rest Between Rounds
+        </label>
+        <div className="flex flex-wrap gap-2 mb-2">
+          {REST_PRESETS.map((preset) => (
+            <button
+              key={preset}
+              type="button"
+              onClick={() => setRestSeconds(preset)}
+              className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                restSeconds === preset
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+              }`}
+            >
+              {preset >= 60
+                ? `${Math.floor(preset / 60)}:${(preset % 60).toString().padStart(2, '0')}`
+                : `${preset}s`}
+            </button>
+          ))}
+        </div>
+        <input
+          type="number"
+          value={restSeconds}
+          onChange={(e) => setRestSeconds(parseInt(e.target.value) || 0)}
+          min={0}
+          max={MAX_EXERCISE_GROUP_REST_SECONDS}
+          inputMode="numeric"
+          className="w-full px-4 py-3 bg-zinc-800 text-white rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+
+      {/* Actions */}
+      <div className="flex gap-3 pt-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 bg-zinc-800 text-white font-medium rounded-xl hover:bg-zinc-700 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 px-4 py-3 bg-blue-600 text-white font-medium rounded-xl hover:bg-blue-700 disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+
+      {onUngroup && (
+        <button
+          type="button"
+          onClick={onUngroup}
+          disabled={isLoading}
+          className="w-full px-4 py-3 bg-red-600/20 text-red-400 font-medium rounded-xl hover:bg-red-600/30 transition-colors"
+        >
+          Ungroup Exercises
+        </button>
+      )}
+    </form>
+  )
+}
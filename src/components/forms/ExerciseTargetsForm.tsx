@@ -1,16 +1,53 @@
 import { useState } from 'react'
-import type { Exercise } from '@prisma/client'
+import type { Exercise, ProgressionScheme } from '@prisma/client'
+import type { SetPrescription, SetSchemePreset } from '@/lib/set-schemes'
+import SetSchemeEditor from '@/components/forms/SetSchemeEditor'
+import {
+  DEFAULT_WEIGHT_INCREMENT_KG,
+  MAX_PLAN_SETS,
+  RIR_VALUES,
+  RPE_VALUES,
+} from '@/lib/constants'
 import { parseDecimalInput } from '@/lib/formatting'
+import { validateIntensityTargets } from '@/lib/plan-targets'
+import {
+  SET_SCHEME_PRESET_LABELS,
+  buildSetScheme,
+  countTargetSets,
+  validateSetPrescriptions,
+} from '@/lib/set-schemes'
+import {
+  PROGRESSION_SCHEMES,
+  PROGRESSION_SCHEME_LABELS,
+  validateProgressionRule,
+} from '@/lib/progression-rules'
+import {
+  WEIGHT_UNIT_LABELS,
+  convertFromKg,
+  normalizeToKg,
+} from '@/lib/weight-utils'
+import { useAuth } from '@/context/AuthContext'
 
-interface ExerciseTargets {
+export interface ExerciseTargets {
   targetSets: number
   targetReps?: number
   targetTimeSeconds?: number
-  targetWeight?: number
+  targetWeight: number | null // kg
   restSeconds: number
   notes?: string
+  progressionScheme: ProgressionScheme | null
+  targetRepsMax: number | null
+  targetRpe: number | null
+  targetRir: number | null
+  targetPercent1rm: number | null
+  weightIncrement: number | null // kg
+  // Set-by-set scheme; empty when every set shares the targets above
+  setPrescriptions: Array<SetPrescription>
 }
 
+type EffortType = 'RPE' | 'RIR'
+type LoadType = 'WEIGHT' | 'PERCENT'
+
 interface ExerciseTargetsFormProps {
   exercise: Exercise
   initialData?: Partial<ExerciseTargets>
@@ -22,6 +59,20 @@ interface ExerciseTargetsFormProps {
 
 const REST_PRESETS = [30, 60, 90, 120, 180]
 
+const SET_SCHEME_PRESETS: ReadonlyArray<SetSchemePreset> = [
+  'STRAIGHT',
+  'TOP_BACKOFF',
+  'PYRAMID',
+  'DROP',
+]
+
+const PROGRESSION_HINTS: Record<ProgressionScheme, string> = {
+  LINEAR: 'Adds weight after a session where every set hits the target reps.',
+  DOUBLE:
+    'Adds a rep each session up to the top of the rep range, then adds weight and drops back.',
+  RPE: 'Picks the weight that should land your reps at the target effort, from how hard your last top set felt.',
+}
+
 export default function ExerciseTargetsForm({
   exercise,
   initialData,
@@ -30,43 +81,124 @@ export default function ExerciseTargetsForm({
   isLoading = false,
   submitLabel = 'Save',
 }: ExerciseTargetsFormProps) {
+  // Targets are stored in kg but entered in the display unit
+  const { weightUnit } = useAuth().preferences
   const [targetSets, setTargetSets] = useState(initialData?.targetSets ?? 3)
   const [targetReps, setTargetReps] = useState(initialData?.targetReps ?? 10)
   const [targetTimeSeconds, setTargetTimeSeconds] = useState(
     initialData?.targetTimeSeconds ?? 60,
   )
   const [targetWeight, setTargetWeight] = useState<string>(
-    initialData?.targetWeight?.toString() ?? '',
+    initialData?.targetWeight
+      ? convertFromKg(initialData.targetWeight, weightUnit).toString()
+      : '',
+  )
+  const [loadType, setLoadType] = useState<LoadType>(
+    initialData?.targetPercent1rm ? 'PERCENT' : 'WEIGHT',
+  )
+  const [targetPercent1rm, setTargetPercent1rm] = useState<string>(
+    initialData?.targetPercent1rm?.toString() ?? '',
   )
   const [restSeconds, setRestSeconds] = useState(initialData?.restSeconds ?? 60)
   const [notes, setNotes] = useState(initialData?.notes ?? '')
+  const [progressionScheme, setProgressionScheme] =
+    useState<ProgressionScheme | null>(initialData?.progressionScheme ?? null)
+  const [targetRepsMax, setTargetRepsMax] = useState<string>(
+    initialData?.targetRepsMax?.toString() ?? '',
+  )
+  const [effortType, setEffortType] = useState<EffortType | null>(
+    initialData?.targetRpe
+      ? 'RPE'
+      : initialData?.targetRir != null
+        ? 'RIR'
+        : null,
+  )
+  const [targetRpe, setTargetRpe] = useState(initialData?.targetRpe ?? 8)
+  const [targetRir, setTargetRir] = useState(initialData?.targetRir ?? 2)
+  const [weightIncrement, setWeightIncrement] = useState<string>(
+    initialData?.weightIncrement
+      ? convertFromKg(initialData.weightIncrement, weightUnit).toString()
+      : '',
+  )
+  const [setPrescriptions, setSetPrescriptions] = useState<
+    Array<SetPrescription>
+  >(initialData?.setPrescriptions ?? [])
+  const [perSet, setPerSet] = useState(setPrescriptions.length > 0)
+  // Remounts the scheme editor when a preset replaces its sets
+  const [schemeKey, setSchemeKey] = useState(0)
   const [error, setError] = useState('')
 
+  const applyPreset = (preset: SetSchemePreset) => {
+    setSetPrescriptions(buildSetScheme(preset, targetSets, targetReps))
+    setSchemeKey((key) => key + 1)
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
 
-    if (targetSets < 1) {
+    const { isTimed } = exercise
+    const scheme = isTimed ? null : progressionScheme
+    const sets = !isTimed && perSet ? setPrescriptions : []
+    const setCount = sets.length > 0 ? countTargetSets(sets) : targetSets
+
+    if (!perSet && targetSets < 1) {
       setError('At least 1 set is required')
       return
     }
 
+    const usePercent = !isTimed && loadType === 'PERCENT'
+    const targets = {
+      targetRepsMax:
+        !isTimed && targetRepsMax ? parseInt(targetRepsMax) || null : null,
+      targetRpe: effortType === 'RPE' ? targetRpe : null,
+      targetRir: !isTimed && effortType === 'RIR' ? targetRir : null,
+      targetPercent1rm:
+        usePercent && targetPercent1rm
+          ? parseDecimalInput(targetPercent1rm)
+          : null,
+      progressionScheme: scheme,
+      weightIncrement:
+        scheme && weightIncrement
+          ? normalizeToKg(parseDecimalInput(weightIncrement), weightUnit)
+          : null,
+    }
+
     try {
+      const rule = {
+        targetSets: setCount,
+        targetReps: isTimed ? null : targetReps,
+        ...targets,
+      }
+      if (perSet && sets.length === 0) {
+        throw new Error('Add at least one set to the scheme')
+      }
+      validateIntensityTargets(rule, isTimed)
+      validateProgressionRule(rule, isTimed)
+      validateSetPrescriptions(sets, isTimed)
       await onSubmit({
-        targetSets,
-        targetReps: exercise.isTimed ? undefined : targetReps,
-        targetTimeSeconds: exercise.isTimed ? targetTimeSeconds : undefined,
-        targetWeight: targetWeight
-          ? parseDecimalInput(targetWeight)
-          : undefined,
+        targetSets: setCount,
+        targetReps: isTimed ? undefined : targetReps,
+        targetTimeSeconds: isTimed ? targetTimeSeconds : undefined,
+        targetWeight:
+          !usePercent && targetWeight
+            ? normalizeToKg(parseDecimalInput(targetWeight), weightUnit)
+            : null,
         restSeconds,
         notes: notes.trim() || undefined,
+        ...targets,
+        setPrescriptions: sets,
       })
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     }
   }
 
+  // RIR means little for a hold, so timed exercises only offer RPE
+  const effortTypes: Array<EffortType | null> = exercise.isTimed
+    ? [null, 'RPE']
+    : [null, 'RPE', 'RIR']
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       {error && (
@@ -88,15 +220,65 @@ export default function ExerciseTargetsForm({
         <label className="block text-sm font-medium text-zinc-400 mb-2">
           Sets *
         </label>
-        <input
-          type="number"
-          value={targetSets}
-          onChange={(e) => setTargetSets(parseInt(e.target.value) || 1)}
-          min={1}
-          max={20}
-          inputMode="numeric"
-          className="w-full px-4 py-3 bg-zinc-800 text-white rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-        />
+        {!exercise.isTimed && (
+          <div className="flex gap-1 p-1 mb-2 rounded-lg bg-zinc-800/50">
+            {[false, true].map((value) => (
+              <button
+                key={String(value)}
+                type="button"
+                onClick={() => {
+                  setPerSet(value)
+                  if (value && setPrescriptions.length === 0) {
+                    applyPreset('STRAIGHT')
+                  }
+                }}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                  perSet === value
+                    ? 'bg-blue-500 text-white'
+                    : 'text-zinc-400 hover:text-white'
+                }`}
+              >
+                {value ? 'Set by Set' : 'Same Every Set'}
+              </button>
+            ))}
+          </div>
+        )}
+        {perSet && !exercise.isTimed ? (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {SET_SCHEME_PRESETS.map((preset) => (
+                <button
+                  key={preset}
+                  type="button"
+                  onClick={() => applyPreset(preset)}
+                  className="px-3 py-1.5 rounded-full text-xs font-medium bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-white transition-colors"
+                >
+                  {SET_SCHEME_PRESET_LABELS[preset]}
+                </button>
+              ))}
+            </div>
+            <SetSchemeEditor
+              key={schemeKey}
+              initialSets={setPrescriptions}
+              weightUnit={weightUnit}
+              onChange={setSetPrescriptions}
+            />
+            <p className="text-xs text-zinc-500">
+              Empty reps means as many as possible. Back-offs come off your top
+              set and drop sets off the set before.
+            </p>
+          </div>
+        ) : (
+          <input
+            type="number"
+            value={targetSets}
+            onChange={(e) => setTargetSets(parseInt(e.target.value) || 1)}
+            min={1}
+            max={MAX_PLAN_SETS}
+            inputMode="numeric"
+            className="w-full px-4 py-3 bg-zinc-800 text-white rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        )}
       </div>
 
       {/* Reps or Time based on exercise type */}
@@ -126,34 +308,193 @@ export default function ExerciseTargetsForm({
           <label className="block text-sm font-medium text-zinc-400 mb-2">
             Reps
           </label>
-          <input
-            type="number"
-            value={targetReps}
-            onChange={(e) => setTargetReps(parseInt(e.target.value) || 1)}
-            min={1}
-            max={100}
-            inputMode="numeric"
-            className="w-full px-4 py-3 bg-zinc-800 text-white rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-          />
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              value={targetReps}
+              onChange={(e) => setTargetReps(parseInt(e.target.value) || 1)}
+              min={1}
+              max={100}
+              inputMode="numeric"
+              className="w-full px-4 py-3 bg-zinc-800 text-white rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <span className="text-zinc-500 text-sm">to</span>
+            <input
+              type="number"
+              value={targetRepsMax}
+              onChange={(e) => setTargetRepsMax(e.target.value)}
+              min={targetReps + 1}
+              max={100}
+              inputMode="numeric"
+              placeholder="Max"
+              className="w-full px-4 py-3 bg-zinc-800 text-white placeholder-zinc-500 rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          <p className="text-xs text-zinc-500 mt-1">
+            Leave the max empty for a fixed rep count
+          </p>
         </div>
       )}
 
-      {/* Weight (optional) */}
+      {/* Weight or %1RM (optional) */}
       <div>
         <label className="block text-sm font-medium text-zinc-400 mb-2">
-          Target Weight (kg)
+          {loadType === 'PERCENT'
+            ? 'Target % of Estimated 1RM'
+            : `Target Weight (${WEIGHT_UNIT_LABELS[weightUnit]})`}
         </label>
-        <input
-          type="text"
-          value={targetWeight}
-          onChange={(e) => setTargetWeight(e.target.value)}
-          inputMode="decimal"
-          pattern="[0-9]*[.,]?[0-9]*"
-          placeholder="Optional"
-          className="w-full px-4 py-3 bg-zinc-800 text-white placeholder-zinc-500 rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-        />
+        {!exercise.isTimed && (
+          <div className="flex gap-1 p-1 mb-2 rounded-lg bg-zinc-800/50">
+            {(['WEIGHT', 'PERCENT'] as const).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setLoadType(type)}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                  loadType === type
+                    ? 'bg-blue-500 text-white'
+                    : 'text-zinc-400 hover:text-white'
+                }`}
+              >
+                {type === 'WEIGHT' ? 'Weight' : '% e1RM'}
+              </button>
+            ))}
+          </div>
+        )}
+        {loadType === 'PERCENT' ? (
+          <>
+            <input
+              type="text"
+              value={targetPercent1rm}
+              onChange={(e) => setTargetPercent1rm(e.target.value)}
+              inputMode="decimal"
+              pattern="[0-9]*[.,]?[0-9]*"
+              placeholder="e.g. 80"
+              className="w-full px-4 py-3 bg-zinc-800 text-white placeholder-zinc-500 rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <p className="text-xs text-zinc-500 mt-1">
+              Worked out from each lifter's best recent sets when a workout
+              starts
+            </p>
+          </>
+        ) : (
+          <input
+            type="text"
+            value={targetWeight}
+            onChange={(e) => setTargetWeight(e.target.value)}
+            inputMode="decimal"
+            pattern="[0-9]*[.,]?[0-9]*"
+            placeholder="Optional"
+            className="w-full px-4 py-3 bg-zinc-800 text-white placeholder-zinc-500 rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        )}
+      </div>
+
+      {/* Effort (optional) */}
+      <div>
+        <label className="block text-sm font-medium text-zinc-400 mb-2">
+          Target Effort
+        </label>
+        <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50">
+          {effortTypes.map((type) => (
+            <button
+              key={type ?? 'NONE'}
+              type="button"
+              onClick={() => setEffortType(type)}
+              className={`flex-1 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                effortType === type
+                  ? 'bg-blue-500 text-white'
+                  : 'text-zinc-400 hover:text-white'
+              }`}
+            >
+              {type ?? 'None'}
+            </button>
+          ))}
+        </div>
+        {effortType && (
+          <div className="flex gap-2 mt-2">
+            {(effortType === 'RPE' ? RPE_VALUES : RIR_VALUES).map((value) => {
+              const selected =
+                (effortType === 'RPE' ? targetRpe : targetRir) === value
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() =>
+                    effortType === 'RPE'
+                      ? setTargetRpe(value)
+                      : setTargetRir(value)
+                  }
+                  className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    selected
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                  }`}
+                >
+                  {value}
+                </button>
+              )
+            })}
+          </div>
+        )}
+        {effortType === 'RIR' && (
+          <p className="text-xs text-zinc-500 mt-1">
+            Reps left in the tank at the end of each set
+          </p>
+        )}
       </div>
 
+      {/* Progression */}
+      {!exercise.isTimed && (
+        <div>
+          <label className="block text-sm font-medium text-zinc-400 mb-2">
+            Progression
+          </label>
+          <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50">
+            {[null, ...PROGRESSION_SCHEMES].map((scheme) => (
+              <button
+                key={scheme ?? 'NONE'}
+                type="button"
+                onClick={() => setProgressionScheme(scheme)}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                  progressionScheme === scheme
+                    ? 'bg-blue-500 text-white'
+                    : 'text-zinc-400 hover:text-white'
+                }`}
+              >
+                {scheme
+                  ? PROGRESSION_SCHEME_LABELS[scheme].split(' ')[0]
+                  : 'Manual'}
+              </button>
+            ))}
+          </div>
+          {progressionScheme && (
+            <div className="mt-3 space-y-3">
+              <p className="text-xs text-zinc-500">
+                {PROGRESSION_HINTS[progressionScheme]}
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-2">
+                  Weight Increment ({WEIGHT_UNIT_LABELS[weightUnit]})
+                </label>
+                <input
+                  type="text"
+                  value={weightIncrement}
+                  onChange={(e) => setWeightIncrement(e.target.value)}
+                  inputMode="decimal"
+                  pattern="[0-9]*[.,]?[0-9]*"
+                  placeholder={convertFromKg(
+                    DEFAULT_WEIGHT_INCREMENT_KG,
+                    weightUnit,
+                  ).toString()}
+                  className="w-full px-4 py-3 bg-zinc-800 text-white placeholder-zinc-500 rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Rest time */}
       <div>
         <label className="block text-sm font-medium text-zinc-400 mb-2">
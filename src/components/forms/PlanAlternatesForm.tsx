@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react'
+import { Search, X } from 'lucide-react'
+import type { Exercise } from '@prisma/client'
+import ExerciseCard from '@/components/exercises/ExerciseCard'
+import { getSubstituteExercises } from '@/lib/exercises.server'
+import {
+  DEBOUNCE_DELAY_MS,
+  MAX_PLAN_EXERCISE_ALTERNATES,
+} from '@/lib/constants'
+import { useAuth } from '@/context/AuthContext'
+
+interface PlanAlternatesFormProps {
+  exercise: Exercise
+  initialData: Array<Exercise>
+  onSubmit: (exerciseIds: Array<string>) => Promise<void>
+  onCancel?: () => void
+  isLoading?: boolean
+}
+
+export default function PlanAlternatesForm({
+  exercise,
+  initialData,
+  onSubmit,
+  onCancel,
+  isLoading = false,
+}: PlanAlternatesFormProps) {
+  const { token } = useAuth()
+  const [selected, setSelected] = useState<Array<Exercise>>(initialData)
+  const [candidates, setCandidates] = useState<Array<Exercise>>([])
+  const [search, setSearch] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchCandidates = async () => {
+      setLoading(true)
+      try {
+        const result = await getSubstituteExercises({
+          data: {
+            exerciseId: exercise.id,
+            search: search || undefined,
+            token,
+          },
+        })
+        setCandidates(result.exercises)
+      } catch (err) {
+        console.error('Failed to fetch substitutes:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    const debounce = setTimeout(fetchCandidates, DEBOUNCE_DELAY_MS)
+    return () => clearTimeout(debounce)
+  }, [exercise.id, search, token])
+
+  const isSelected = (id: string) => selected.some((e) => e.id === id)
+  const isFull = selected.length >= MAX_PLAN_EXERCISE_ALTERNATES
+
+  const toggle = (candidate: Exercise) => {
+    if (isSelected(candidate.id)) {
+      setSelected(selected.filter((e) => e.id !== candidate.id))
+    } else if (!isFull) {
+      setSelected([...selected, candidate])
+    }
+  }
+
+  // Not a <form>: the exercise cards are buttons that would submit it
+  const handleSubmit = async () => {
+    setError('')
+
+    try {
+      await onSubmit(selected.map((alternate) => alternate.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <p className="text-sm text-zinc-400">
+        Offered first, in this order, when {exercise.name} is swapped out during
+        a workout.
+      </p>
+
+      {/* Chosen alternates */}
+      {selected.length > 0 ? (
+        <ol className="space-y-2">
+          {selected.map((alternate, index) => (
+            <li
+              key={alternate.id}
+              className="flex items-center gap-3 p-3 bg-zinc-800 rounded-xl"
+            >
+              <span className="text-xs text-zinc-500">{index + 1}.</span>
+              <span className="flex-1 text-sm text-white truncate">
+                {alternate.name}
+              </span>
+              <button
+                type="button"
+                onClick={() => toggle(alternate)}
+                className="p-1 text-zinc-500 hover:text-white rounded"
+                aria-label={`Remove ${alternate.name}`}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-sm text-zinc-500">
+          No alternates. Equivalent exercises are still suggested.
+        </p>
+      )}
+
+      {/* Equivalent exercises to choose from */}
+      <div className="space-y-2">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-zinc-500" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search equivalent exercises..."
+            className="w-full pl-10 pr-4 py-2.5 bg-zinc-800 text-white placeholder-zinc-500 rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+        {isFull && (
+          <p className="text-xs text-zinc-500">
+            Up to {MAX_PLAN_EXERCISE_ALTERNATES} alternates
+          </p>
+        )}
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : candidates.length === 0 ? (
+          <p className="py-6 text-center text-sm text-zinc-500">
+            No equivalent exercises found
+          </p>
+        ) : (
+          candidates.map((candidate) => (
+            <ExerciseCard
+              key={candidate.id}
+              exercise={candidate}
+              selected={isSelected(candidate.id)}
+              onPress={() => toggle(candidate)}
+            />
+          ))
+        )}
+      </div>
+
+      <div className="flex gap-3 pt-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 bg-zinc-800 text-white font-medium rounded-xl hover:bg-zinc-700 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={isLoading}
+          className="flex-1 px-4 py-3 bg-blue-600 text-white font-medium rounded-xl hover:bg-blue-700 disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading ? 'Saving...' : 'Save Alternates'}
+        </button>
+      </div>
+    </div>
+  )
+}
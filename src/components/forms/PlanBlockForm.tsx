@@ -0,0 +1,264 @@
+import { useState } from 'react'
+import type { BlockPreset, PlanWeekSettings } from '@/lib/plan-weeks'
+import { MAX_BLOCK_WEEKS, MIN_BLOCK_WEEKS } from '@/lib/constants'
+import { parseDecimalInput } from '@/lib/formatting'
+import {
+  BLOCK_PRESET_LABELS,
+  buildBlockWeeks,
+  getPlanWeek,
+  validatePlanBlock,
+} from '@/lib/plan-weeks'
+
+interface PlanBlockFormProps {
+  initialData: { blockWeeks: number | null; weeks: Array<PlanWeekSettings> }
+  onSubmit: (data: {
+    blockWeeks: number | null
+    weeks: Array<PlanWeekSettings>
+  }) => Promise<void>
+  onCancel?: () => void
+  isLoading?: boolean
+}
+
+const BLOCK_PRESETS: ReadonlyArray<BlockPreset> = [
+  'VOLUME',
+  'INTENSITY',
+  'DELOAD_ONLY',
+]
+const DEFAULT_BLOCK_WEEKS = 4
+const DELTA_OPTIONS = Array.from({ length: 11 }, (_, i) => i - 5)
+
+// A week as typed, with its load still text
+type WeekDraft = Omit<PlanWeekSettings, 'intensityPercent'> & {
+  intensityPercent: string
+}
+
+function toDraft(week: PlanWeekSettings): WeekDraft {
+  return { ...week, intensityPercent: `${week.intensityPercent}` }
+}
+
+export default function PlanBlockForm({
+  initialData,
+  onSubmit,
+  onCancel,
+  isLoading = false,
+}: PlanBlockFormProps) {
+  const [enabled, setEnabled] = useState(initialData.blockWeeks !== null)
+  const [blockWeeks, setBlockWeeks] = useState(
+    initialData.blockWeeks ?? DEFAULT_BLOCK_WEEKS,
+  )
+  const [weeks, setWeeks] = useState<Array<WeekDraft>>(() =>
+    Array.from(
+      { length: initialData.blockWeeks ?? DEFAULT_BLOCK_WEEKS },
+      (_, i) => toDraft(getPlanWeek(initialData.weeks, i + 1)),
+    ),
+  )
+  const [error, setError] = useState('')
+
+  // Keep the weeks already set up when the block gets longer or shorter
+  const resizeBlock = (length: number) => {
+    setBlockWeeks(length)
+    setWeeks(
+      Array.from(
+        { length: Math.max(0, Math.min(length, MAX_BLOCK_WEEKS)) },
+        (_, i) => weeks.at(i) ?? toDraft(getPlanWeek([], i + 1)),
+      ),
+    )
+  }
+
+  const updateWeek = (index: number, fields: Partial<WeekDraft>) => {
+    setWeeks(weeks.map((w, i) => (i === index ? { ...w, ...fields } : w)))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    const data = enabled
+      ? {
+          blockWeeks,
+          weeks: weeks.map((w) => ({
+            ...w,
+            intensityPercent: parseDecimalInput(w.intensityPercent),
+          })),
+        }
+      : { blockWeeks: null, weeks: [] }
+
+    try {
+      validatePlanBlock(data.blockWeeks, data.weeks)
+      await onSubmit(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50">
+        {[false, true].map((value) => (
+          <button
+            key={String(value)}
+            type="button"
+            onClick={() => setEnabled(value)}
+            className={`flex-1 py-1.5 rounded-md text-xs font-medium transition-colors ${
+              enabled === value
+                ? 'bg-blue-500 text-white'
+                : 'text-zinc-400 hover:text-white'
+            }`}
+          >
+            {value ? 'Training Block' : 'Repeat Days'}
+          </button>
+        ))}
+      </div>
+
+      {enabled ? (
+        <>
+          <div>
+            <label
+              htmlFor="block-weeks"
+              className="block text-sm font-medium text-zinc-400 mb-2"
+            >
+              Weeks per Block
+            </label>
+            <input
+              id="block-weeks"
+              type="number"
+              value={blockWeeks}
+              onChange={(e) => resizeBlock(parseInt(e.target.value) || 0)}
+              min={MIN_BLOCK_WEEKS}
+              max={MAX_BLOCK_WEEKS}
+              inputMode="numeric"
+              className="w-full px-4 py-3 bg-zinc-800 text-white rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {BLOCK_PRESETS.map((preset) => (
+              <button
+                key={preset}
+                type="button"
+                onClick={() =>
+                  setWeeks(
+                    buildBlockWeeks(
+                      preset,
+                      Math.min(Math.max(blockWeeks, 0), MAX_BLOCK_WEEKS),
+                    ).map(toDraft),
+                  )
+                }
+                className="px-3 py-1.5 rounded-full text-xs font-medium bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-white transition-colors"
+              >
+                {BLOCK_PRESET_LABELS[preset]}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[3.5rem_1fr_1fr_1fr_4.5rem] gap-2 px-3 text-xs text-zinc-500">
+              <span />
+              <span>Sets +/-</span>
+              <span>Reps +/-</span>
+              <span>Load %</span>
+              <span />
+            </div>
+            {weeks.map((week, index) => (
+              <div
+                key={week.weekNumber}
+                className="grid grid-cols-[3.5rem_1fr_1fr_1fr_4.5rem] items-center gap-2 p-3 bg-zinc-800 rounded-xl"
+              >
+                <span className="text-xs text-zinc-500">
+                  Week {week.weekNumber}
+                </span>
+                <select
+                  value={week.setDelta}
+                  onChange={(e) =>
+                    updateWeek(index, { setDelta: Number(e.target.value) })
+                  }
+                  disabled={week.isDeload}
+                  aria-label={`Week ${week.weekNumber} set change`}
+                  className="w-full min-w-0 px-2 py-2 bg-zinc-900 text-white text-sm rounded-lg border border-zinc-700 focus:border-blue-500 focus:outline-none appearance-none cursor-pointer disabled:opacity-40"
+                >
+                  {DELTA_OPTIONS.map((delta) => (
+                    <option key={delta} value={delta}>
+                      {delta > 0 ? `+${delta}` : delta}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={week.repDelta}
+                  onChange={(e) =>
+                    updateWeek(index, { repDelta: Number(e.target.value) })
+                  }
+                  aria-label={`Week ${week.weekNumber} rep change`}
+                  className="w-full min-w-0 px-2 py-2 bg-zinc-900 text-white text-sm rounded-lg border border-zinc-700 focus:border-blue-500 focus:outline-none appearance-none cursor-pointer disabled:opacity-40"
+                >
+                  {DELTA_OPTIONS.map((delta) => (
+                    <option key={delta} value={delta}>
+                      {delta > 0 ? `+${delta}` : delta}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={week.intensityPercent}
+                  onChange={(e) =>
+                    updateWeek(index, { intensityPercent: e.target.value })
+                  }
+                  inputMode="decimal"
+                  pattern="[0-9]*[.,]?[0-9]*"
+                  aria-label={`Week ${week.weekNumber} load percent`}
+                  className="w-full min-w-0 px-2 py-2 bg-zinc-900 text-white text-sm rounded-lg border border-zinc-700 focus:border-blue-500 focus:outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateWeek(index, { isDeload: !week.isDeload })
+                  }
+                  className={`py-2 rounded-lg text-xs font-medium transition-colors ${
+                    week.isDeload
+                      ? 'bg-amber-500/20 text-amber-400'
+                      : 'bg-zinc-900 text-zinc-500 hover:text-white'
+                  }`}
+                >
+                  Deload
+                </button>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-zinc-500">
+            Each week changes every exercise's targets. A deload halves the sets
+            and skips progression. Finishing the plan's last day moves you to
+            the next week.
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-zinc-500">
+          The plan's days repeat with the same targets every time.
+        </p>
+      )}
+
+      <div className="flex gap-3 pt-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 bg-zinc-800 text-white font-medium rounded-xl hover:bg-zinc-700 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 px-4 py-3 bg-blue-600 text-white font-medium rounded-xl hover:bg-blue-700 disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading ? 'Saving...' : 'Save Block'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,251 @@
+import { useState } from 'react'
+import type { PlanScheduleType } from '@prisma/client'
+import { MAX_ROTATION_DAYS } from '@/lib/constants'
+import { toDateString } from '@/lib/date-utils'
+import {
+  PLAN_SCHEDULE_TYPE_LABELS,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  validatePlanSchedule,
+} from '@/lib/plan-schedule'
+
+export interface PlanScheduleData {
+  scheduleType: PlanScheduleType | null
+  rotationDaysOn: number | null
+  rotationDaysOff: number | null
+  scheduleStartDate: string | null // YYYY-MM-DD
+  weekdays: Record<string, number | null>
+}
+
+interface PlanScheduleFormProps {
+  initialData: {
+    scheduleType: PlanScheduleType | null
+    rotationDaysOn: number | null
+    rotationDaysOff: number | null
+    scheduleStartDate: Date | null
+  }
+  days: Array<{
+    id: string
+    name: string
+    dayOrder: number
+    restDay: boolean
+    weekday: number | null
+  }>
+  onSubmit: (data: PlanScheduleData) => Promise<void>
+  onCancel?: () => void
+  isLoading?: boolean
+}
+
+const SCHEDULE_TYPES: Array<PlanScheduleType | null> = [
+  null,
+  'WEEKDAYS',
+  'ROTATION',
+]
+
+export default function PlanScheduleForm({
+  initialData,
+  days,
+  onSubmit,
+  onCancel,
+  isLoading = false,
+}: PlanScheduleFormProps) {
+  const [scheduleType, setScheduleType] = useState(initialData.scheduleType)
+  const [startDate, setStartDate] = useState(
+    toDateString(
+      initialData.scheduleStartDate
+        ? new Date(initialData.scheduleStartDate)
+        : new Date(),
+    ),
+  )
+  const [daysOn, setDaysOn] = useState(initialData.rotationDaysOn ?? 3)
+  const [daysOff, setDaysOff] = useState(initialData.rotationDaysOff ?? 1)
+  const [weekdays, setWeekdays] = useState<Record<string, number | null>>(() =>
+    Object.fromEntries(days.map((d) => [d.id, d.weekday])),
+  )
+  const [error, setError] = useState('')
+
+  const trainingDays = days.filter((d) => !d.restDay)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    const isRotation = scheduleType === 'ROTATION'
+    const data: PlanScheduleData = {
+      scheduleType,
+      rotationDaysOn: isRotation ? daysOn : null,
+      rotationDaysOff: isRotation ? daysOff : null,
+      scheduleStartDate: scheduleType ? startDate || null : null,
+      weekdays,
+    }
+
+    try {
+      const [year, month, day] = startDate.split('-').map(Number)
+      validatePlanSchedule(
+        {
+          ...data,
+          scheduleStartDate: startDate ? new Date(year, month - 1, day) : null,
+        },
+        days.map((d) => ({
+          ...d,
+          weekday: scheduleType === 'WEEKDAYS' ? weekdays[d.id] : null,
+        })),
+      )
+      await onSubmit(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50">
+        {SCHEDULE_TYPES.map((type) => (
+          <button
+            key={type ?? 'NONE'}
+            type="button"
+            onClick={() => setScheduleType(type)}
+            className={`flex-1 py-1.5 rounded-md text-xs font-medium transition-colors ${
+              scheduleType === type
+                ? 'bg-blue-500 text-white'
+                : 'text-zinc-400 hover:text-white'
+            }`}
+          >
+            {type ? PLAN_SCHEDULE_TYPE_LABELS[type] : 'None'}
+          </button>
+        ))}
+      </div>
+
+      {scheduleType === null && (
+        <p className="text-sm text-zinc-500">
+          Days run in order whenever you next train, with no dates attached.
+        </p>
+      )}
+
+      {scheduleType === 'WEEKDAYS' && (
+        <div className="space-y-2">
+          {trainingDays.length === 0 && (
+            <p className="text-sm text-zinc-500">
+              Add a training day to the plan to schedule it.
+            </p>
+          )}
+          {trainingDays.map((day) => (
+            <div
+              key={day.id}
+              className="flex items-center gap-3 p-3 bg-zinc-800 rounded-xl"
+            >
+              <span className="flex-1 text-sm text-white truncate">
+                {day.name}
+              </span>
+              <select
+                value={weekdays[day.id] ?? ''}
+                onChange={(e) =>
+                  setWeekdays({
+                    ...weekdays,
+                    [day.id]: e.target.value ? Number(e.target.value) : null,
+                  })
+                }
+                aria-label={`${day.name} weekday`}
+                className="px-3 py-2 bg-zinc-900 text-white text-sm rounded-lg border border-zinc-700 focus:border-blue-500 focus:outline-none appearance-none cursor-pointer"
+              >
+                <option value="">Not scheduled</option>
+                {WEEKDAYS.map((weekday) => (
+                  <option key={weekday} value={weekday}>
+                    {WEEKDAY_LABELS[weekday]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {scheduleType === 'ROTATION' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label
+              htmlFor="rotation-days-on"
+              className="block text-sm font-medium text-zinc-400 mb-2"
+            >
+              Days On
+            </label>
+            <input
+              id="rotation-days-on"
+              type="number"
+              value={daysOn}
+              onChange={(e) => setDaysOn(parseInt(e.target.value) || 0)}
+              min={1}
+              max={MAX_ROTATION_DAYS}
+              inputMode="numeric"
+              className="w-full px-4 py-3 bg-zinc-800 text-white rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="rotation-days-off"
+              className="block text-sm font-medium text-zinc-400 mb-2"
+            >
+              Days Off
+            </label>
+            <input
+              id="rotation-days-off"
+              type="number"
+              value={daysOff}
+              onChange={(e) => setDaysOff(parseInt(e.target.value) || 0)}
+              min={0}
+              max={MAX_ROTATION_DAYS}
+              inputMode="numeric"
+              className="w-full px-4 py-3 bg-zinc-800 text-white rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          <p className="col-span-2 text-xs text-zinc-500">
+            Training days run in plan order, skipping rest days.
+          </p>
+        </div>
+      )}
+
+      {scheduleType && (
+        <div>
+          <label
+            htmlFor="schedule-start"
+            className="block text-sm font-medium text-zinc-400 mb-2"
+          >
+            Starts On
+          </label>
+          <input
+            id="schedule-start"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="w-full px-4 py-3 bg-zinc-800 text-white rounded-xl border border-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+      )}
+
+      <div className="flex gap-3 pt-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 bg-zinc-800 text-white font-medium rounded-xl hover:bg-zinc-700 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 px-4 py-3 bg-blue-600 text-white font-medium rounded-xl hover:bg-blue-700 disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading ? 'Saving...' : 'Save Schedule'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,227 @@
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import type { SetType, WeightUnit } from '@prisma/client'
+import type { SetPrescription } from '@/lib/set-schemes'
+import { MAX_PLAN_SETS, RPE_VALUES } from '@/lib/constants'
+import { parseDecimalInput } from '@/lib/formatting'
+import { SET_TYPES, SET_TYPE_LABELS } from '@/lib/set-schemes'
+import {
+  WEIGHT_UNIT_LABELS,
+  convertFromKg,
+  normalizeToKg,
+} from '@/lib/weight-utils'
+
+type LoadMode = 'WEIGHT' | 'PERCENT_1RM' | 'PERCENT_OFF'
+
+// A set as typed, with its load in the display unit
+interface SetDraft {
+  setType: SetType
+  reps: string
+  rpe: number | null
+  loadMode: LoadMode
+  load: string
+}
+
+interface SetSchemeEditorProps {
+  initialSets: Array<SetPrescription>
+  weightUnit: WeightUnit
+  onChange: (sets: Array<SetPrescription>) => void
+}
+
+const RELATIVE_SET_TYPES: ReadonlyArray<SetType> = ['BACKOFF', 'DROP']
+
+function getLoadModes(setType: SetType): ReadonlyArray<LoadMode> {
+  return RELATIVE_SET_TYPES.includes(setType)
+    ? ['PERCENT_OFF', 'WEIGHT']
+    : ['WEIGHT', 'PERCENT_1RM']
+}
+
+function toDraft(set: SetPrescription, unit: WeightUnit): SetDraft {
+  const base = {
+    setType: set.setType,
+    reps: set.targetReps?.toString() ?? '',
+    rpe: set.targetRpe,
+  }
+  if (set.percentOff !== null) {
+    return { ...base, loadMode: 'PERCENT_OFF', load: `${set.percentOff}` }
+  }
+  if (set.targetPercent1rm !== null) {
+    return {
+      ...base,
+      loadMode: 'PERCENT_1RM',
+      load: `${set.targetPercent1rm}`,
+    }
+  }
+  return {
+    ...base,
+    loadMode: getLoadModes(set.setType)[0],
+    load:
+      set.targetWeight !== null
+        ? `${convertFromKg(set.targetWeight, unit)}`
+        : '',
+  }
+}
+
+function fromDraft(draft: SetDraft, unit: WeightUnit): SetPrescription {
+  const load = draft.load ? parseDecimalInput(draft.load) : null
+  const modeLoad = (mode: LoadMode) => (draft.loadMode === mode ? load : null)
+  const weight = modeLoad('WEIGHT')
+  return {
+    setType: draft.setType,
+    targetReps: parseInt(draft.reps) || null,
+    targetRpe: draft.rpe,
+    targetWeight: weight !== null ? normalizeToKg(weight, unit) : null,
+    targetPercent1rm: modeLoad('PERCENT_1RM'),
+    percentOff: modeLoad('PERCENT_OFF'),
+  }
+}
+
+export default function SetSchemeEditor({
+  initialSets,
+  weightUnit,
+  onChange,
+}: SetSchemeEditorProps) {
+  const [drafts, setDrafts] = useState(() =>
+    initialSets.map((set) => toDraft(set, weightUnit)),
+  )
+
+  const update = (next: Array<SetDraft>) => {
+    setDrafts(next)
+    onChange(next.map((draft) => fromDraft(draft, weightUnit)))
+  }
+
+  const updateSet = (index: number, fields: Partial<SetDraft>) => {
+    update(drafts.map((d, i) => (i === index ? { ...d, ...fields } : d)))
+  }
+
+  const changeSetType = (index: number, setType: SetType) => {
+    const modes = getLoadModes(setType)
+    const draft = drafts[index]
+    updateSet(
+      index,
+      modes.includes(draft.loadMode)
+        ? { setType }
+        : { setType, loadMode: modes[0], load: '' },
+    )
+  }
+
+  const cycleLoadMode = (index: number) => {
+    const draft = drafts[index]
+    const modes = getLoadModes(draft.setType)
+    const next = modes[(modes.indexOf(draft.loadMode) + 1) % modes.length]
+    updateSet(index, { loadMode: next, load: '' })
+  }
+
+  const loadModeLabel = (mode: LoadMode) =>
+    mode === 'WEIGHT'
+      ? WEIGHT_UNIT_LABELS[weightUnit]
+      : mode === 'PERCENT_1RM'
+        ? '%1RM'
+        : '% off'
+
+  return (
+    <div className="space-y-2">
+      {drafts.map((draft, index) => (
+        <div key={index} className="p-3 bg-zinc-800 rounded-xl space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="w-12 text-xs text-zinc-500">Set {index + 1}</span>
+            <select
+              value={draft.setType}
+              onChange={(e) => changeSetType(index, e.target.value as SetType)}
+              aria-label={`Set ${index + 1} type`}
+              className="flex-1 px-3 py-2 bg-zinc-900 text-white text-sm rounded-lg border border-zinc-700 focus:border-blue-500 focus:outline-none appearance-none cursor-pointer"
+            >
+              {SET_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {SET_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => update(drafts.filter((_, i) => i !== index))}
+              className="p-2 text-zinc-500 hover:text-red-400 rounded-lg transition-colors"
+              aria-label={`Remove set ${index + 1}`}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="number"
+              value={draft.reps}
+              onChange={(e) => updateSet(index, { reps: e.target.value })}
+              min={1}
+              max={100}
+              inputMode="numeric"
+              placeholder="Max reps"
+              aria-label={`Set ${index + 1} reps`}
+              className="w-full px-3 py-2 bg-zinc-900 text-white text-sm placeholder-zinc-500 rounded-lg border border-zinc-700 focus:border-blue-500 focus:outline-none"
+            />
+            <div className="flex rounded-lg border border-zinc-700 focus-within:border-blue-500 overflow-hidden">
+              <input
+                type="text"
+                value={draft.load}
+                onChange={(e) => updateSet(index, { load: e.target.value })}
+                inputMode="decimal"
+                pattern="[0-9]*[.,]?[0-9]*"
+                placeholder="Load"
+                aria-label={`Set ${index + 1} load`}
+                className="w-full min-w-0 px-3 py-2 bg-zinc-900 text-white text-sm placeholder-zinc-500 focus:outline-none"
+              />
+              <button
+                type="button"
+                onClick={() => cycleLoadMode(index)}
+                className="px-2 bg-zinc-700 text-xs text-zinc-300 hover:bg-zinc-600 whitespace-nowrap"
+              >
+                {loadModeLabel(draft.loadMode)}
+              </button>
+            </div>
+            <select
+              value={draft.rpe ?? ''}
+              onChange={(e) =>
+                updateSet(index, {
+                  rpe: e.target.value ? Number(e.target.value) : null,
+                })
+              }
+              aria-label={`Set ${index + 1} RPE`}
+              className="w-full px-3 py-2 bg-zinc-900 text-white text-sm rounded-lg border border-zinc-700 focus:border-blue-500 focus:outline-none appearance-none cursor-pointer"
+            >
+              <option value="">No RPE</option>
+              {RPE_VALUES.map((value) => (
+                <option key={value} value={value}>
+                  RPE {value}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      ))}
+
+      {drafts.length < MAX_PLAN_SETS && (
+        <button
+          type="button"
+          onClick={() => {
+            const last = drafts.at(-1)
+            update([
+              ...drafts,
+              last
+                ? { ...last }
+                : {
+                    setType: 'WORKING',
+                    reps: '',
+                    rpe: null,
+                    loadMode: 'WEIGHT',
+                    load: '',
+                  },
+            ])
+          }}
+          className="w-full flex items-center justify-center gap-2 py-2 text-sm text-blue-400 bg-blue-600/10 rounded-xl hover:bg-blue-600/20 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Set
+        </button>
+      )}
+    </div>
+  )
+}
@@ -6,13 +6,22 @@ import {
   Clock,
   Dumbbell,
   ExternalLink,
+  Link2,
   Loader2,
   Pencil,
 } from 'lucide-react'
-import type { MuscleGroup } from '@prisma/client'
+import type { ExerciseGroupType, MuscleGroup, WeightUnit } from '@prisma/client'
 import MuscleGroupBadge from '@/components/exercises/MuscleGroupBadge'
-import { formatDuration, formatTime, formatVolume } from '@/lib/formatting'
+import {
+  formatDuration,
+  formatSetWeight,
+  formatTime,
+  formatVolume,
+} from '@/lib/formatting'
 import { getWorkoutSession } from '@/lib/workouts.server'
+import { getSetVolumeKg } from '@/lib/weight-utils'
+import { formatGroupRounds, groupIntoBlocks } from '@/lib/exercise-groups'
+import { useAuth } from '@/context/AuthContext'
 
 type WorkoutHistory = {
   id: string
@@ -36,8 +45,11 @@ type SessionDetail = {
     reps: number | null
     timeSeconds: number | null
     weight: number | null
+    weightUnit: WeightUnit
     isWarmup: boolean
     isDropset: boolean
+    groupId: string | null
+    groupType: ExerciseGroupType | null
     exercise: {
       id: string
       name: string
@@ -62,7 +74,11 @@ function getUniqueMuscles(
   return Array.from(muscles).slice(0, 3)
 }
 
-function groupSetsByExercise(sets: SessionDetail['workoutSets']) {
+// Superset sets alternate between exercises, so they are merged per exercise
+function groupSetsByExercise(
+  sets: SessionDetail['workoutSets'],
+  mergeAll = false,
+) {
   const groups: Array<{
     exerciseId: string
     exerciseName: string
@@ -71,9 +87,9 @@ function groupSetsByExercise(sets: SessionDetail['workoutSets']) {
   }> = []
 
   for (const set of sets) {
-    const last = groups[groups.length - 1] as
-      | (typeof groups)[number]
-      | undefined
+    const last = mergeAll
+      ? groups.find((g) => g.exerciseId === set.exercise.id)
+      : (groups[groups.length - 1] as (typeof groups)[number] | undefined)
     if (last?.exerciseId === set.exercise.id) {
       last.sets.push(set)
     } else {
@@ -93,15 +109,14 @@ function calculateVolume(sets: SessionDetail['workoutSets']): number {
   let volume = 0
   for (const set of sets) {
     if (set.isWarmup || set.isDropset) continue
-    if (set.weight && set.reps) {
-      volume += set.weight * set.reps
-    }
+    volume += getSetVolumeKg(set)
   }
   return volume
 }
 
 export default function ExpandableWorkoutCard({ workout, userId }: Props) {
   const navigate = useNavigate()
+  const { preferences } = useAuth()
   const [expanded, setExpanded] = useState(false)
   const [detail, setDetail] = useState<SessionDetail | null>(null)
   const [loading, setLoading] = useState(false)
@@ -217,44 +232,68 @@ export default function ExpandableWorkoutCard({ workout, userId }: Props) {
 
       {expanded && detail && (
         <div className="border-t border-zinc-700/50 px-4 py-3 space-y-3">
-          {groupSetsByExercise(detail.workoutSets).map((group) => (
-            <div key={`${group.exerciseId}-${group.sets[0].id}`}>
-              <p className="text-sm font-medium text-zinc-300 mb-1">
-                {group.exerciseName}
-              </p>
-              <div className="space-y-0.5">
-                {group.sets.map((set) => (
-                  <div
-                    key={set.id}
-                    className="flex items-center gap-2 text-xs text-zinc-500"
-                  >
-                    {set.isWarmup && (
-                      <span className="text-yellow-500/70">W</span>
-                    )}
-                    {set.isDropset && (
-                      <span className="text-orange-500/70">D</span>
-                    )}
-                    {!set.isWarmup && !set.isDropset && (
-                      <span className="text-zinc-600">{set.setNumber}</span>
-                    )}
-                    <span className="text-zinc-400">
-                      {group.isTimed
-                        ? set.weight
-                          ? `${set.weight}kg x ${formatTime(set.timeSeconds ?? 0)}`
-                          : formatTime(set.timeSeconds ?? 0)
-                        : set.weight
-                          ? `${set.weight}kg x ${set.reps} reps`
-                          : `${set.reps} reps`}
-                    </span>
+          {groupIntoBlocks(detail.workoutSets, (set) => set.groupId).map(
+            (block) => {
+              const groups = groupSetsByExercise(block.items, !!block.groupId)
+              const rows = groups.map((group) => (
+                <div key={`${group.exerciseId}-${group.sets[0].id}`}>
+                  <p className="text-sm font-medium text-zinc-300 mb-1">
+                    {group.exerciseName}
+                  </p>
+                  <div className="space-y-0.5">
+                    {group.sets.map((set) => (
+                      <div
+                        key={set.id}
+                        className="flex items-center gap-2 text-xs text-zinc-500"
+                      >
+                        {set.isWarmup && (
+                          <span className="text-yellow-500/70">W</span>
+                        )}
+                        {set.isDropset && (
+                          <span className="text-orange-500/70">D</span>
+                        )}
+                        {!set.isWarmup && !set.isDropset && (
+                          <span className="text-zinc-600">{set.setNumber}</span>
+                        )}
+                        <span className="text-zinc-400">
+                          {group.isTimed
+                            ? set.weight
+                              ? `${formatSetWeight(set.weight, set.weightUnit, preferences.weightUnit)} x ${formatTime(set.timeSeconds ?? 0)}`
+                              : formatTime(set.timeSeconds ?? 0)
+                            : set.weight
+                              ? `${formatSetWeight(set.weight, set.weightUnit, preferences.weightUnit)} x ${set.reps} reps`
+                              : `${set.reps} reps`}
+                        </span>
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
-            </div>
-          ))}
+                </div>
+              ))
+
+              const { groupType } = block.items[0]
+              if (!block.groupId || !groupType) return rows
+
+              const rounds = Math.max(
+                ...groups.map((g) => g.sets.filter((s) => !s.isWarmup).length),
+              )
+              return (
+                <div
+                  key={block.groupId}
+                  className="pl-3 border-l-2 border-blue-500/30 space-y-2"
+                >
+                  <p className="flex items-center gap-1 text-xs text-blue-400">
+                    <Link2 className="w-3 h-3" />
+                    {formatGroupRounds(groupType, rounds)}
+                  </p>
+                  {rows}
+                </div>
+              )
+            },
+          )}
 
           {detailVolume > 0 && (
             <div className="pt-2 border-t border-zinc-700/30 text-xs text-zinc-500">
-              Total volume: {formatVolume(detailVolume)}
+              Total volume: {formatVolume(detailVolume, preferences.weightUnit)}
             </div>
           )}
 
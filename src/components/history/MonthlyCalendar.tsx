@@ -1,6 +1,7 @@
 import { memo, useMemo } from 'react'
 import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react'
 import type { MuscleGroup } from '@prisma/client'
+import type { ScheduledDayStatus } from '@/lib/plan-schedule'
 
 type WorkoutDaySummary = {
   id: string
@@ -14,10 +15,18 @@ type WorkoutDaySummary = {
   }>
 }
 
+type PlannedDay = {
+  planDayId: string
+  name: string
+  status: ScheduledDayStatus
+}
+
 type Props = {
   year: number
   month: number // 1-indexed
   dayMap: Partial<Record<number, Array<WorkoutDaySummary>>>
+  // Days the active plan's schedule puts a workout on
+  plannedDays?: Partial<Record<number, PlannedDay>>
   selectedDay: number | null
   loading: boolean
   onSelectDay: (day: number | null) => void
@@ -55,6 +64,7 @@ export default memo(function MonthlyCalendar({
   year,
   month,
   dayMap,
+  plannedDays = {},
   selectedDay,
   loading,
   onSelectDay,
@@ -155,10 +165,14 @@ export default memo(function MonthlyCalendar({
           const isToday = isCurrentMonth && day === todayDate
           const isSelected = day === selectedDay
           const isFuture = isFutureDay(day)
+          const planned = plannedDays[day]
 
           return (
             <button
               key={day}
+              title={
+                planned ? `${planned.name} (${planned.status})` : undefined
+              }
               onClick={() => {
                 if (!isFuture) {
                   onSelectDay(isSelected ? null : day)
@@ -171,7 +185,7 @@ export default memo(function MonthlyCalendar({
                   : isToday
                     ? 'bg-zinc-700/50 border border-zinc-600'
                     : 'hover:bg-zinc-700/30 border border-transparent'
-              } ${isFuture ? 'opacity-30 cursor-default' : ''}`}
+              } ${isFuture ? `${planned ? 'opacity-60' : 'opacity-30'} cursor-default` : ''}`}
             >
               <span
                 className={`text-sm ${
@@ -184,6 +198,15 @@ export default memo(function MonthlyCalendar({
               >
                 {day}
               </span>
+              {workoutCount === 0 && planned && (
+                <div
+                  className={`w-1.5 h-1.5 rounded-full ${
+                    planned.status === 'missed'
+                      ? 'bg-red-400'
+                      : 'border border-blue-400'
+                  }`}
+                />
+              )}
               {workoutCount > 0 && (
                 <div className="flex gap-0.5">
                   {Array.from({ length: Math.min(workoutCount, 3) }).map(
@@ -202,6 +225,24 @@ export default memo(function MonthlyCalendar({
           )
         })}
       </div>
+
+      {/* Legend for the active plan's schedule */}
+      {Object.keys(plannedDays).length > 0 && (
+        <div className="flex items-center justify-center gap-4 mt-3 text-xs text-zinc-500">
+          <span className="flex items-center gap-1.5">
+            <span className="w-1.5 h-1.5 rounded-full bg-green-400" />
+            Trained
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-1.5 h-1.5 rounded-full bg-red-400" />
+            Missed
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-1.5 h-1.5 rounded-full border border-blue-400" />
+            Planned
+          </span>
+        </div>
+      )}
     </div>
   )
 })
@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import { Plus } from 'lucide-react'
+import type { MeasurementSite } from '@prisma/client'
+import type { LengthUnit } from '@/lib/measurements'
+import { useAuth } from '@/context/AuthContext'
+import { useToast } from '@/context/ToastContext'
+import { parseDecimalInput } from '@/lib/formatting'
+import { logMeasurements } from '@/lib/measurements.server'
+import {
+  LENGTH_UNIT_LABELS,
+  MEASUREMENT_SITE_LABELS,
+} from '@/lib/measurements'
+
+type Props = {
+  sites: Array<MeasurementSite>
+  lengthUnit: LengthUnit
+  onLogged: () => void
+}
+
+/** One input per tracked site; filled-in sites are logged together */
+export default function MeasurementLogForm({
+  sites,
+  lengthUnit,
+  onLogged,
+}: Props) {
+  const { token } = useAuth()
+  const { showToast } = useToast()
+  const [inputs, setInputs] = useState<Partial<Record<MeasurementSite, string>>>(
+    {},
+  )
+  const [saving, setSaving] = useState(false)
+
+  const values = sites.flatMap((site) => {
+    const value = parseDecimalInput(inputs[site] ?? '')
+    return value > 0 ? [{ site, value }] : []
+  })
+
+  const handleSave = async () => {
+    if (values.length === 0) return
+    setSaving(true)
+    try {
+      await logMeasurements({ data: { token, values, unit: lengthUnit } })
+      setInputs({})
+      onLogged()
+    } catch (error) {
+      showToast(
+        'error',
+        error instanceof Error ? error.message : 'Failed to log measurements',
+      )
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {sites.map((site) => (
+          <label key={site} className="block">
+            <span className="text-xs text-zinc-400">
+              {MEASUREMENT_SITE_LABELS[site]} ({LENGTH_UNIT_LABELS[lengthUnit]})
+            </span>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={inputs[site] ?? ''}
+              onChange={(e) =>
+                setInputs((prev) => ({ ...prev, [site]: e.target.value }))
+              }
+              className="mt-1 w-full px-3 py-2 rounded-lg bg-zinc-900 border border-zinc-700 text-white placeholder-zinc-500 focus:outline-none focus:border-blue-500"
+            />
+          </label>
+        ))}
+      </div>
+      <button
+        onClick={handleSave}
+        disabled={saving || values.length === 0}
+        className="w-full flex items-center justify-center gap-1 px-3 py-2 rounded-lg bg-blue-500 text-white text-sm font-medium hover:bg-blue-600 disabled:opacity-50 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        {saving ? 'Saving...' : 'Log Measurements'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react'
+import { ImageOff } from 'lucide-react'
+import { useAuth } from '@/context/AuthContext'
+import { getProgressPhoto } from '@/lib/progress-photos.server'
+
+type Props = {
+  photoId: string
+  alt: string
+  className?: string
+}
+
+/** A progress photo, fetched for its owner on demand */
+export default function ProgressPhotoImage({ photoId, alt, className }: Props) {
+  const { token } = useAuth()
+  const [src, setSrc] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    let aborted = false
+    setSrc(null)
+    setFailed(false)
+
+    getProgressPhoto({ data: { token, id: photoId } })
+      .then((result) => {
+        if (!aborted) setSrc(result.dataUrl)
+      })
+      .catch((error) => {
+        console.error('Failed to fetch progress photo:', error)
+        if (!aborted) setFailed(true)
+      })
+
+    return () => {
+      aborted = true
+    }
+  }, [photoId, token])
+
+  if (failed) {
+    return (
+      <div
+        className={`flex items-center justify-center bg-zinc-800 ${className ?? ''}`}
+      >
+        <ImageOff className="w-6 h-6 text-zinc-600" />
+      </div>
+    )
+  }
+
+  if (!src) {
+    return <div className={`bg-zinc-800 animate-pulse ${className ?? ''}`} />
+  }
+
+  return <img src={src} alt={alt} className={`object-cover ${className ?? ''}`} />
+}
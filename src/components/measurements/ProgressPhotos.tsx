@@ -0,0 +1,291 @@
+import { useEffect, useRef, useState } from 'react'
+import { Camera, Check, Trash2 } from 'lucide-react'
+import type { LengthUnit, MeasurementReading } from '@/lib/measurements'
+import { useAuth } from '@/context/AuthContext'
+import { useToast } from '@/context/ToastContext'
+import ProgressPhotoImage from '@/components/measurements/ProgressPhotoImage'
+import {
+  MAX_PROGRESS_PHOTO_SIZE_BYTES,
+  MAX_PROGRESS_PHOTO_SIZE_MB,
+} from '@/lib/constants'
+import { formatLengthCm } from '@/lib/formatting'
+import {
+  MEASUREMENT_SITE_LABELS,
+  compareMeasurements,
+  convertFromCm,
+} from '@/lib/measurements'
+import {
+  deleteProgressPhoto,
+  getProgressPhotos,
+  uploadProgressPhoto,
+} from '@/lib/progress-photos.server'
+
+type Photo = {
+  id: string
+  takenAt: Date | string
+  notes: string | null
+}
+
+type Props = {
+  measurements: Array<MeasurementReading>
+  lengthUnit: LengthUnit
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+/**
+ * Progress photo gallery: upload, pick two photos to see them side by side
+ * with how each measurement changed between their dates
+ */
+export default function ProgressPhotos({ measurements, lengthUnit }: Props) {
+  const { token } = useAuth()
+  const { showToast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [photos, setPhotos] = useState<Array<Photo>>([])
+  const [loading, setLoading] = useState(true)
+  const [uploading, setUploading] = useState(false)
+  const [takenOn, setTakenOn] = useState(() => toDateInput(new Date()))
+  const [selectedIds, setSelectedIds] = useState<Array<string>>([])
+
+  const fetchPhotos = async () => {
+    try {
+      const result = await getProgressPhotos({ data: { token } })
+      setPhotos(result.photos)
+    } catch (error) {
+      console.error('Failed to fetch progress photos:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPhotos()
+  }, [token])
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    if (file.size > MAX_PROGRESS_PHOTO_SIZE_BYTES) {
+      showToast(
+        'error',
+        `Photos must be ${MAX_PROGRESS_PHOTO_SIZE_MB} MB or smaller`,
+      )
+      return
+    }
+
+    setUploading(true)
+    try {
+      const image = await readAsDataUrl(file)
+      // Today's photos are stamped now; earlier ones at midday on their date
+      const takenAt =
+        takenOn === toDateInput(new Date())
+          ? undefined
+          : new Date(`${takenOn}T12:00:00`).toISOString()
+      await uploadProgressPhoto({ data: { token, image, takenAt } })
+      await fetchPhotos()
+    } catch (error) {
+      showToast(
+        'error',
+        error instanceof Error ? error.message : 'Failed to upload photo',
+      )
+    } finally {
+      setUploading(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      if (prev.includes(id)) return prev.filter((s) => s !== id)
+      // Keep the most recent pick when a third photo is chosen
+      return [...prev, id].slice(-2)
+    })
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteProgressPhoto({ data: { token, id } })
+      setSelectedIds((prev) => prev.filter((s) => s !== id))
+      setPhotos((prev) => prev.filter((p) => p.id !== id))
+    } catch {
+      showToast('error', 'Failed to delete photo')
+    }
+  }
+
+  // Oldest first, so the comparison reads before -> after
+  const selected = photos
+    .filter((p) => selectedIds.includes(p.id))
+    .sort(
+      (a, b) => new Date(a.takenAt).getTime() - new Date(b.takenAt).getTime(),
+    )
+  const comparing = selected.length === 2
+  const [before, after] = selected
+  const changes = comparing
+    ? compareMeasurements(
+        measurements,
+        new Date(before.takenAt),
+        new Date(after.takenAt),
+      )
+    : []
+
+  return (
+    <div className="space-y-3">
+      {/* Upload */}
+      <div className="p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50 flex items-center gap-2">
+        <input
+          type="date"
+          value={takenOn}
+          max={toDateInput(new Date())}
+          onChange={(e) => setTakenOn(e.target.value)}
+          className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-zinc-900 border border-zinc-700 text-white focus:outline-none focus:border-blue-500"
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading || !takenOn}
+          className="flex items-center gap-1 px-3 py-2 rounded-lg bg-blue-500 text-white text-sm font-medium hover:bg-blue-600 disabled:opacity-50 transition-colors"
+        >
+          <Camera className="w-4 h-4" />
+          {uploading ? 'Uploading...' : 'Add Photo'}
+        </button>
+      </div>
+
+      {/* Side-by-side comparison */}
+      {comparing && (
+        <div className="p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50 space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            {[before, after].map((photo) => (
+              <div key={photo.id}>
+                <ProgressPhotoImage
+                  photoId={photo.id}
+                  alt={`Progress photo from ${formatDate(photo.takenAt)}`}
+                  className="w-full aspect-[3/4] rounded-lg"
+                />
+                <p className="mt-1 text-xs text-zinc-400 text-center">
+                  {formatDate(photo.takenAt)}
+                </p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-zinc-500 text-center">
+            {Math.round(
+              (new Date(after.takenAt).getTime() -
+                new Date(before.takenAt).getTime()) /
+                DAY_MS,
+            )}{' '}
+            days apart
+          </p>
+          {changes.length > 0 && (
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-zinc-700/50">
+                {changes.map((c) => (
+                  <tr key={c.site}>
+                    <td className="py-1.5 text-zinc-400">
+                      {MEASUREMENT_SITE_LABELS[c.site]}
+                    </td>
+                    <td className="py-1.5 text-right text-white">
+                      {c.from !== null ? formatLengthCm(c.from, lengthUnit) : '-'}
+                      {' -> '}
+                      {c.to !== null ? formatLengthCm(c.to, lengthUnit) : '-'}
+                    </td>
+                    <td className="py-1.5 pl-3 text-right text-xs text-zinc-500 w-16">
+                      {c.change !== null &&
+                        `${c.change > 0 ? '+' : ''}${convertFromCm(c.change, lengthUnit)}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {/* Gallery */}
+      {loading ? (
+        <div className="grid grid-cols-3 gap-2">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div
+              key={i}
+              className="aspect-[3/4] rounded-lg bg-zinc-800 animate-pulse"
+            />
+          ))}
+        </div>
+      ) : photos.length === 0 ? (
+        <p className="py-4 text-center text-sm text-zinc-500">
+          No progress photos yet. Only you can see the photos you add.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-zinc-500 px-1">
+            Select two photos to compare them. Only you can see these.
+          </p>
+          <div className="grid grid-cols-3 gap-2">
+            {photos.map((photo) => {
+              const isSelected = selectedIds.includes(photo.id)
+              return (
+                <div key={photo.id} className="relative">
+                  <button
+                    onClick={() => toggleSelected(photo.id)}
+                    className={`block w-full rounded-lg overflow-hidden ring-2 transition-colors ${
+                      isSelected ? 'ring-blue-500' : 'ring-transparent'
+                    }`}
+                    aria-pressed={isSelected}
+                  >
+                    <ProgressPhotoImage
+                      photoId={photo.id}
+                      alt={`Progress photo from ${formatDate(photo.takenAt)}`}
+                      className="w-full aspect-[3/4]"
+                    />
+                    <span className="absolute bottom-0 inset-x-0 px-1 py-0.5 bg-zinc-900/70 text-[10px] text-zinc-300">
+                      {formatDate(photo.takenAt)}
+                    </span>
+                    {isSelected && (
+                      <span className="absolute top-1 left-1 w-5 h-5 rounded-full bg-blue-500 flex items-center justify-center">
+                        <Check className="w-3 h-3 text-white" />
+                      </span>
+                    )}
+                  </button>
+                  {isSelected && (
+                    <button
+                      onClick={() => handleDelete(photo.id)}
+                      className="absolute top-1 right-1 p-1 rounded-md bg-zinc-900/80 text-zinc-400 hover:text-red-400 transition-colors"
+                      aria-label="Delete photo"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
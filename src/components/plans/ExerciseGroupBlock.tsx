@@ -0,0 +1,76 @@
+import { ChevronDown, ChevronUp, Link2, Pencil } from 'lucide-react'
+import type { ReactNode } from 'react'
+
+interface ExerciseGroupBlockProps {
+  /** e.g. "Superset · 3 rounds · 1:30 rest" */
+  label: string
+  /** Shown next to the summary, e.g. "Round 2 of 3" during a workout */
+  status?: string
+  onEdit?: () => void
+  onMoveUp?: () => void
+  onMoveDown?: () => void
+  isFirst?: boolean
+  isLast?: boolean
+  children: ReactNode
+}
+
+export default function ExerciseGroupBlock({
+  label,
+  status,
+  onEdit,
+  onMoveUp,
+  onMoveDown,
+  isFirst = false,
+  isLast = false,
+  children,
+}: ExerciseGroupBlockProps) {
+  return (
+    <div className="rounded-2xl border border-blue-500/30 bg-blue-500/5 p-2 space-y-2">
+      <div className="flex items-center gap-2 px-2 pt-1">
+        <Link2 className="w-4 h-4 text-blue-400 flex-shrink-0" />
+        <p className="flex-1 min-w-0 text-sm font-medium text-blue-300 truncate">
+          {label}
+        </p>
+        {status && <span className="text-xs text-zinc-400">{status}</span>}
+        {onMoveUp && (
+          <button
+            onClick={onMoveUp}
+            disabled={isFirst}
+            className={`p-1 rounded ${
+              isFirst
+                ? 'text-zinc-700'
+                : 'text-zinc-500 hover:text-white hover:bg-zinc-700'
+            }`}
+            aria-label="Move group up"
+          >
+            <ChevronUp className="w-4 h-4" />
+          </button>
+        )}
+        {onMoveDown && (
+          <button
+            onClick={onMoveDown}
+            disabled={isLast}
+            className={`p-1 rounded ${
+              isLast
+                ? 'text-zinc-700'
+                : 'text-zinc-500 hover:text-white hover:bg-zinc-700'
+            }`}
+            aria-label="Move group down"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </button>
+        )}
+        {onEdit && (
+          <button
+            onClick={onEdit}
+            className="p-1 rounded text-zinc-500 hover:text-white hover:bg-zinc-700"
+            aria-label="Edit group"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { Layers, Pencil, RotateCcw } from 'lucide-react'
+import type { PlanWeekSettings } from '@/lib/plan-weeks'
+import {
+  describeWeekChanges,
+  formatBlockWeek,
+  getPlanWeek,
+} from '@/lib/plan-weeks'
+
+interface PlanBlockCardProps {
+  blockWeeks: number | null
+  weeks: Array<PlanWeekSettings>
+  // The user's place in the block, null when the plan has none
+  position: {
+    weekNumber: number
+    blocksCompleted: number
+    week: PlanWeekSettings
+  } | null
+  canEdit: boolean
+  onEdit: () => void
+  onRestart: () => void
+}
+
+export default function PlanBlockCard({
+  blockWeeks,
+  weeks,
+  position,
+  canEdit,
+  onEdit,
+  onRestart,
+}: PlanBlockCardProps) {
+  if (!blockWeeks || !position) {
+    if (!canEdit) return null
+    return (
+      <button
+        onClick={onEdit}
+        className="w-full flex items-center justify-center gap-2 py-2.5 text-sm text-zinc-400 border border-dashed border-zinc-700 rounded-xl hover:text-white hover:border-zinc-500 transition-colors"
+      >
+        <Layers className="w-4 h-4" />
+        Set Up Training Block
+      </button>
+    )
+  }
+
+  const changes = describeWeekChanges(position.week)
+
+  return (
+    <div className="p-3 bg-zinc-800/50 rounded-xl border border-zinc-700/50 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium text-white">
+            {formatBlockWeek(position.weekNumber, blockWeeks)}
+          </p>
+          <p
+            className={`text-xs ${position.week.isDeload ? 'text-amber-400' : 'text-zinc-500'}`}
+          >
+            {changes ?? 'Targets as planned'}
+            {position.blocksCompleted > 0 &&
+              ` · ${position.blocksCompleted} block${position.blocksCompleted !== 1 ? 's' : ''} done`}
+          </p>
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={onRestart}
+            className="p-2 text-zinc-400 hover:text-white rounded-lg hover:bg-zinc-700 transition-colors"
+            aria-label="Restart block"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          {canEdit && (
+            <button
+              onClick={onEdit}
+              className="p-2 text-zinc-400 hover:text-white rounded-lg hover:bg-zinc-700 transition-colors"
+              aria-label="Edit block"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-1">
+        {Array.from({ length: blockWeeks }, (_, i) => {
+          const week = getPlanWeek(weeks, i + 1)
+          const isCurrent = week.weekNumber === position.weekNumber
+          return (
+            <div
+              key={week.weekNumber}
+              title={`Week ${week.weekNumber}${week.isDeload ? ' (deload)' : ''}`}
+              className={`flex-1 h-1.5 rounded-full ${
+                isCurrent
+                  ? week.isDeload
+                    ? 'bg-amber-400'
+                    : 'bg-blue-500'
+                  : week.weekNumber < position.weekNumber
+                    ? 'bg-zinc-500'
+                    : week.isDeload
+                      ? 'bg-amber-500/30'
+                      : 'bg-zinc-700'
+              }`}
+            />
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import {
   Dumbbell,
   Moon,
 } from 'lucide-react'
+import { WEEKDAY_LABELS } from '@/lib/plan-schedule'
 
 interface PlanDayCardProps {
   day: {
@@ -12,6 +13,7 @@ interface PlanDayCardProps {
     name: string
     dayOrder: number
     restDay: boolean
+    weekday?: number | null // Pinned by a weekday schedule
     _count?: { planExercises: number }
   }
   onPress?: () => void
@@ -103,6 +105,7 @@ export default function PlanDayCard({
                   <span>
                     {exerciseCount} exercise{exerciseCount !== 1 ? 's' : ''}
                   </span>
+                  {day.weekday && <span>· {WEEKDAY_LABELS[day.weekday]}</span>}
                 </>
               )}
             </div>
@@ -1,6 +1,34 @@
-import { ChevronDown, ChevronUp, Repeat, Timer, Trash2 } from 'lucide-react'
-import type { Exercise } from '@prisma/client'
+import {
+  ArrowLeftRight,
+  ChevronDown,
+  ChevronUp,
+  Repeat,
+  Timer,
+  Trash2,
+  TrendingUp,
+} from 'lucide-react'
+import type {
+  Exercise,
+  PlanSetPrescription,
+  ProgressionScheme,
+  ProgressionSuggestion,
+} from '@prisma/client'
 import MuscleGroupBadge from '@/components/exercises/MuscleGroupBadge'
+import {
+  formatEffortTarget,
+  formatLoadTarget,
+  formatRepTarget,
+} from '@/lib/plan-targets'
+import {
+  SET_TYPE_LABELS,
+  describeSetPrescription,
+  getPrescribedWeight,
+} from '@/lib/set-schemes'
+import {
+  describeNextTargets,
+  describeProgressionRule,
+} from '@/lib/progression-rules'
+import { useAuth } from '@/context/AuthContext'
 
 interface PlanExerciseCardProps {
   planExercise: {
@@ -12,9 +40,24 @@ interface PlanExerciseCardProps {
     restSeconds: number
     notes?: string | null
     exercise: Exercise
+    progressionScheme: ProgressionScheme | null
+    targetRepsMax: number | null
+    targetRpe: number | null
+    targetRir: number | null
+    targetPercent1rm: number | null
+    weightIncrement: number | null
+    // The viewing user's next targets, if a session has produced them
+    progressionSuggestions: Array<ProgressionSuggestion>
+    setPrescriptions: Array<PlanSetPrescription>
+    // Suggested first when the exercise is swapped out mid-workout
+    alternates?: Array<{ exercise: { name: string } }>
   }
+  // The viewing user's weights for %1RM targets in kg, by plan exercise
+  // or set prescription id
+  targetWeights?: Record<string, number | undefined>
   onPress?: () => void
   onRemove?: () => void
+  onEditAlternates?: () => void
   onMoveUp?: () => void
   onMoveDown?: () => void
   showReorder?: boolean
@@ -24,19 +67,42 @@ interface PlanExerciseCardProps {
 
 export default function PlanExerciseCard({
   planExercise,
+  targetWeights = {},
   onPress,
   onRemove,
+  onEditAlternates,
   onMoveUp,
   onMoveDown,
   showReorder = false,
   isFirst = false,
   isLast = false,
 }: PlanExerciseCardProps) {
-  const { exercise, targetSets, targetReps, targetTimeSeconds, targetWeight } =
-    planExercise
+  const { preferences } = useAuth()
+  const { exercise, targetSets, targetReps, targetTimeSeconds } = planExercise
+  const rule = {
+    ...planExercise,
+    targetReps: targetReps ?? null,
+  }
+  const progression = describeProgressionRule(rule, preferences.weightUnit)
+  const suggestion = planExercise.progressionSuggestions.at(0)
+  const load = formatLoadTarget(
+    {
+      targetWeight: planExercise.targetWeight ?? null,
+      targetPercent1rm: planExercise.targetPercent1rm,
+    },
+    targetWeights[planExercise.id],
+    preferences.weightUnit,
+  )
+  const effort = formatEffortTarget(planExercise)
+  const { setPrescriptions } = planExercise
+  const hasScheme = setPrescriptions.length > 0
 
   // Format target display
   const formatTarget = () => {
+    // The set scheme below spells each set out
+    if (hasScheme) {
+      return `${setPrescriptions.length} sets`
+    }
     if (targetTimeSeconds) {
       const minutes = Math.floor(targetTimeSeconds / 60)
       const seconds = targetTimeSeconds % 60
@@ -46,7 +112,7 @@ export default function PlanExerciseCard({
       return `${targetSets} × ${seconds}s`
     }
     if (targetReps) {
-      return `${targetSets} × ${targetReps}`
+      return `${targetSets} × ${formatRepTarget(targetReps, planExercise.targetRepsMax)}`
     }
     return `${targetSets} sets`
   }
@@ -106,10 +172,58 @@ export default function PlanExerciseCard({
                 )}
                 {formatTarget()}
               </span>
-              {targetWeight && (
-                <span className="text-zinc-500">{targetWeight} kg</span>
+              {load && !hasScheme && (
+                <span className="text-zinc-500">{load}</span>
+              )}
+              {effort && !hasScheme && (
+                <span className="text-zinc-500">@ {effort}</span>
               )}
             </div>
+            {hasScheme && (
+              <ol className="mt-2 space-y-0.5 text-xs text-zinc-400">
+                {setPrescriptions.map((set, index) => (
+                  <li key={set.id}>
+                    <span className="text-zinc-500">
+                      {index + 1}. {SET_TYPE_LABELS[set.setType]}:
+                    </span>{' '}
+                    {describeSetPrescription(
+                      set,
+                      getPrescribedWeight(
+                        setPrescriptions,
+                        index,
+                        [],
+                        (i) => targetWeights[setPrescriptions[i].id],
+                      ),
+                      preferences.weightUnit,
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+            {progression && (
+              <div className="mt-2 text-xs">
+                <p className="flex items-center gap-1 text-blue-400">
+                  <TrendingUp className="w-3.5 h-3.5" />
+                  {progression}
+                </p>
+                <p className="text-zinc-500 mt-0.5">
+                  {suggestion
+                    ? describeNextTargets(
+                        suggestion,
+                        rule,
+                        preferences.weightUnit,
+                      )
+                    : 'Finish a session to get your next targets.'}
+                </p>
+              </div>
+            )}
+            {planExercise.alternates && planExercise.alternates.length > 0 && (
+              <p className="flex items-center gap-1 text-xs text-zinc-500 mt-2">
+                <ArrowLeftRight className="w-3.5 h-3.5" />
+                Or{' '}
+                {planExercise.alternates.map((a) => a.exercise.name).join(', ')}
+              </p>
+            )}
             {planExercise.notes && (
               <p className="text-sm text-zinc-500 mt-2 line-clamp-1">
                 {planExercise.notes}
@@ -119,6 +233,19 @@ export default function PlanExerciseCard({
         </div>
       </button>
 
+      {onEditAlternates && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            onEditAlternates()
+          }}
+          className="p-3 text-zinc-500 hover:text-white hover:bg-zinc-800 rounded-xl transition-colors"
+          aria-label="Edit alternates"
+        >
+          <ArrowLeftRight className="w-5 h-5" />
+        </button>
+      )}
+
       {onRemove && (
         <button
           onClick={(e) => {
@@ -0,0 +1,62 @@
+import { CalendarDays, Pencil } from 'lucide-react'
+import type {
+  Adherence,
+  PlanSchedule,
+  SchedulableDay,
+} from '@/lib/plan-schedule'
+import { ADHERENCE_WINDOW_DAYS } from '@/lib/constants'
+import { describeSchedule } from '@/lib/plan-schedule'
+
+interface PlanScheduleCardProps {
+  schedule: PlanSchedule
+  days: Array<SchedulableDay>
+  adherence: Adherence | null
+  canEdit: boolean
+  onEdit: () => void
+}
+
+export default function PlanScheduleCard({
+  schedule,
+  days,
+  adherence,
+  canEdit,
+  onEdit,
+}: PlanScheduleCardProps) {
+  const description = describeSchedule(schedule, days)
+
+  if (!description) {
+    if (!canEdit) return null
+    return (
+      <button
+        onClick={onEdit}
+        className="w-full flex items-center justify-center gap-2 py-2.5 text-sm text-zinc-400 border border-dashed border-zinc-700 rounded-xl hover:text-white hover:border-zinc-500 transition-colors"
+      >
+        <CalendarDays className="w-4 h-4" />
+        Set Schedule
+      </button>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-3 p-3 bg-zinc-800/50 rounded-xl border border-zinc-700/50">
+      <CalendarDays className="w-5 h-5 text-blue-400 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-white truncate">{description}</p>
+        <p className="text-xs text-zinc-500">
+          {adherence?.percent != null
+            ? `${adherence.percent}% adherence · ${adherence.completed} of ${adherence.planned} in the last ${ADHERENCE_WINDOW_DAYS} days`
+            : 'No scheduled days yet'}
+        </p>
+      </div>
+      {canEdit && (
+        <button
+          onClick={onEdit}
+          className="p-2 text-zinc-400 hover:text-white rounded-lg hover:bg-zinc-700 transition-colors"
+          aria-label="Edit schedule"
+        >
+          <Pencil className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+import { memo } from 'react'
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import type { LengthUnit } from '@/lib/measurements'
+import { formatLengthCm } from '@/lib/formatting'
+import { convertFromCm } from '@/lib/measurements'
+import { useChartDimensions } from '@/hooks/useChartDimensions'
+
+export type MeasurementPoint = {
+  value: number // cm
+  recordedAt: Date | string
+}
+
+type Props = {
+  data: Array<MeasurementPoint>
+  lengthUnit: LengthUnit
+}
+
+type ChartPoint = MeasurementPoint & {
+  time: number
+  chartValue: number
+}
+
+const chartColors = {
+  line: '#a855f7', // purple-500
+  grid: '#3f3f46', // zinc-700
+  text: '#a1a1aa', // zinc-400
+  tooltip: '#18181b', // zinc-900
+  tooltipBorder: '#3f3f46', // zinc-700
+  dot: '#a855f7', // purple-500
+  dotStroke: '#4c1d95', // darker purple
+}
+
+function formatDateShort(time: number): string {
+  return new Date(time).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+type CustomTooltipProps = {
+  active?: boolean
+  payload?: Array<{ payload: ChartPoint }>
+  lengthUnit: LengthUnit
+}
+
+function CustomTooltip({ active, payload, lengthUnit }: CustomTooltipProps) {
+  if (!active || !payload || payload.length === 0) return null
+
+  const point = payload[0].payload
+  const formattedDate = new Date(point.time).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+
+  return (
+    <div
+      className="px-3 py-2 rounded-lg border shadow-lg"
+      style={{
+        backgroundColor: chartColors.tooltip,
+        borderColor: chartColors.tooltipBorder,
+      }}
+    >
+      <p className="text-xs text-zinc-400">{formattedDate}</p>
+      <p className="text-sm font-medium text-white">
+        {formatLengthCm(point.value, lengthUnit)}
+      </p>
+    </div>
+  )
+}
+
+/** One body site's measurements over time, in the display unit */
+export default memo(function MeasurementChart({
+  data: points,
+  lengthUnit,
+}: Props) {
+  const { compact } = useChartDimensions()
+
+  if (points.length === 0) {
+    return (
+      <div className="h-[200px] flex items-center justify-center text-sm text-zinc-500">
+        No measurements yet
+      </div>
+    )
+  }
+
+  const data: Array<ChartPoint> = points.map((p) => ({
+    ...p,
+    time: new Date(p.recordedAt).getTime(),
+    chartValue: convertFromCm(p.value, lengthUnit),
+  }))
+
+  // Tape measurements change slowly; pad the axis so changes stay visible
+  const values = data.map((d) => d.chartValue)
+  const minValue = Math.min(...values)
+  const maxValue = Math.max(...values)
+  const padding = Math.max((maxValue - minValue) * 0.2, 1)
+  const yMin = Math.max(0, Math.floor(minValue - padding))
+  const yMax = Math.ceil(maxValue + padding)
+
+  return (
+    <ResponsiveContainer width="100%" height={compact ? 180 : 200}>
+      <LineChart
+        data={data}
+        margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+      >
+        <CartesianGrid
+          strokeDasharray="3 3"
+          stroke={chartColors.grid}
+          vertical={false}
+        />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={formatDateShort}
+          stroke={chartColors.text}
+          fontSize={compact ? 10 : 12}
+          tickLine={false}
+          axisLine={false}
+          minTickGap={compact ? 30 : 40}
+        />
+        <YAxis
+          domain={[yMin, yMax]}
+          stroke={chartColors.text}
+          fontSize={compact ? 10 : 12}
+          tickLine={false}
+          axisLine={false}
+          width={compact ? 32 : 45}
+        />
+        <Tooltip
+          content={<CustomTooltip lengthUnit={lengthUnit} />}
+          cursor={false}
+        />
+        <Line
+          type="monotone"
+          dataKey="chartValue"
+          stroke={chartColors.line}
+          strokeWidth={2}
+          dot={{
+            fill: chartColors.dot,
+            stroke: chartColors.dotStroke,
+            strokeWidth: 2,
+            r: compact ? 3 : 4,
+          }}
+          activeDot={{
+            fill: chartColors.line,
+            stroke: chartColors.dotStroke,
+            strokeWidth: 2,
+            r: 6,
+          }}
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  )
+})
@@ -0,0 +1,236 @@
+import { memo, useState } from 'react'
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import type { DistanceUnit, RecordType, WeightUnit } from '@prisma/client'
+import type { PrHistoryPoint } from '@/lib/progression.server'
+import { convertFromMeters } from '@/lib/cardio'
+import { formatPR, formatRaceTime } from '@/lib/formatting'
+import {
+  RECORD_TYPE_LABELS,
+  compareRecordTypes,
+  isLowerBetterRecord,
+  isWeightRecord,
+} from '@/lib/pr-utils'
+import { convertFromKg } from '@/lib/weight-utils'
+import { useChartDimensions } from '@/hooks/useChartDimensions'
+
+type Props = {
+  history: Array<PrHistoryPoint>
+  isBodyweight: boolean
+  weightUnit: WeightUnit
+  distanceUnit: DistanceUnit
+}
+
+type ChartPoint = PrHistoryPoint & {
+  time: number
+  chartValue: number
+}
+
+const chartColors = {
+  line: '#eab308', // yellow-500
+  grid: '#3f3f46', // zinc-700
+  text: '#a1a1aa', // zinc-400
+  tooltip: '#18181b', // zinc-900
+  tooltipBorder: '#3f3f46', // zinc-700
+  dotStroke: '#713f12', // darker yellow
+}
+
+function formatDateShort(time: number): string {
+  return new Date(time).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+type CustomTooltipProps = {
+  active?: boolean
+  payload?: Array<{ payload: ChartPoint }>
+  weightUnit: WeightUnit
+  distanceUnit: DistanceUnit
+}
+
+function CustomTooltip({
+  active,
+  payload,
+  weightUnit,
+  distanceUnit,
+}: CustomTooltipProps) {
+  if (!active || !payload || payload.length === 0) return null
+
+  const point = payload[0].payload
+  const formattedDate = new Date(point.achievedAt).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+
+  return (
+    <div
+      className="px-3 py-2 rounded-lg border shadow-lg"
+      style={{
+        backgroundColor: chartColors.tooltip,
+        borderColor: chartColors.tooltipBorder,
+      }}
+    >
+      <p className="text-xs text-zinc-400">{formattedDate}</p>
+      <p className="text-sm font-medium text-white">
+        {formatPR(point, weightUnit, distanceUnit)}
+      </p>
+      {point.previousValue === null && (
+        <p className="text-xs text-zinc-500">First record</p>
+      )}
+    </div>
+  )
+}
+
+/** Each record broken for an exercise, held flat until the next one */
+export default memo(function PrStaircaseChart({
+  history,
+  isBodyweight,
+  weightUnit,
+  distanceUnit,
+}: Props) {
+  const { compact } = useChartDimensions()
+
+  const recordTypes = [...new Set(history.map((h) => h.recordType))].sort(
+    compareRecordTypes,
+  )
+  const [selected, setSelected] = useState<RecordType | null>(null)
+  const recordType =
+    selected && recordTypes.includes(selected) ? selected : recordTypes[0]
+
+  if (history.length === 0) {
+    return (
+      <div className="h-[200px] flex items-center justify-center text-sm text-zinc-500">
+        No personal records yet
+      </div>
+    )
+  }
+
+  // Bodyweight volume folds in the lifter's body weight (or an internal
+  // base weight), so its values mean nothing on their own; only the steps
+  // are shown
+  const hideValues = isBodyweight && recordType === 'MAX_VOLUME'
+  const isWeight =
+    isWeightRecord(recordType) || (recordType === 'MAX_VOLUME' && !isBodyweight)
+  // Fastest times step down as records fall
+  const isRaceTime = isLowerBetterRecord(recordType)
+
+  const toChartValue = (value: number): number => {
+    if (isWeight) return convertFromKg(value, weightUnit)
+    if (recordType === 'MAX_DISTANCE') {
+      return convertFromMeters(value, distanceUnit)
+    }
+    return value
+  }
+
+  const data: Array<ChartPoint> = history
+    .filter((h) => h.recordType === recordType)
+    .map((h) => ({
+      ...h,
+      time: new Date(h.achievedAt).getTime(),
+      chartValue: toChartValue(h.value),
+    }))
+
+  const values = data.map((d) => d.chartValue)
+  const minValue = Math.min(...values)
+  const maxValue = Math.max(...values)
+  const padding = (maxValue - minValue) * 0.1 || maxValue * 0.1
+  const yMin = Math.max(0, Math.floor(minValue - padding))
+  const yMax = Math.ceil(maxValue + padding)
+
+  return (
+    <div className="space-y-3">
+      {recordTypes.length > 1 && (
+        <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50 overflow-x-auto">
+          {recordTypes.map((type) => (
+            <button
+              key={type}
+              onClick={() => setSelected(type)}
+              className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium whitespace-nowrap transition-colors ${
+                type === recordType
+                  ? 'bg-zinc-700 text-white'
+                  : 'text-zinc-400 hover:text-white'
+              }`}
+            >
+              {RECORD_TYPE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <ResponsiveContainer width="100%" height={compact ? 180 : 200}>
+        <LineChart
+          data={data}
+          margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+        >
+          <CartesianGrid
+            strokeDasharray="3 3"
+            stroke={chartColors.grid}
+            vertical={false}
+          />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={formatDateShort}
+            stroke={chartColors.text}
+            fontSize={compact ? 10 : 12}
+            tickLine={false}
+            axisLine={false}
+            minTickGap={compact ? 30 : 40}
+          />
+          <YAxis
+            domain={[yMin, yMax]}
+            hide={hideValues}
+            stroke={chartColors.text}
+            fontSize={compact ? 10 : 12}
+            tickLine={false}
+            axisLine={false}
+            width={compact ? 32 : 45}
+            tickFormatter={(value: number) => {
+              if (isRaceTime) return formatRaceTime(value)
+              if (value >= 1000) return `${(value / 1000).toFixed(1)}k`
+              return value.toString()
+            }}
+          />
+          <Tooltip
+            content={
+              <CustomTooltip
+                weightUnit={weightUnit}
+                distanceUnit={distanceUnit}
+              />
+            }
+            cursor={false}
+          />
+          <Line
+            type="stepAfter"
+            dataKey="chartValue"
+            stroke={chartColors.line}
+            strokeWidth={2}
+            dot={{
+              fill: chartColors.line,
+              stroke: chartColors.dotStroke,
+              strokeWidth: 2,
+              r: compact ? 3 : 4,
+            }}
+            activeDot={{
+              fill: chartColors.line,
+              stroke: chartColors.dotStroke,
+              strokeWidth: 2,
+              r: 6,
+            }}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  )
+})
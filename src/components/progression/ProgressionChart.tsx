@@ -8,14 +8,24 @@ import {
   XAxis,
   YAxis,
 } from 'recharts'
+import type { DistanceUnit, WeightUnit } from '@prisma/client'
 import type { ProgressionDataPoint } from '@/lib/progression.server'
 import type { ProgressionMetric } from '@/lib/progression-utils'
-import { formatMetricValue } from '@/lib/progression-utils'
+import {
+  formatMetricValue,
+  isLowerBetterMetric,
+  isWeightMetric,
+} from '@/lib/progression-utils'
+import { convertFromMeters, convertPaceFromKm } from '@/lib/cardio'
+import { formatTime } from '@/lib/formatting'
+import { convertFromKg } from '@/lib/weight-utils'
 import { useChartDimensions } from '@/hooks/useChartDimensions'
 
 type Props = {
   data: Array<ProgressionDataPoint>
   metric: ProgressionMetric
+  weightUnit: WeightUnit
+  distanceUnit: DistanceUnit
 }
 
 const chartColors = {
@@ -42,9 +52,17 @@ type CustomTooltipProps = {
   active?: boolean
   payload?: Array<TooltipPayloadEntry>
   metric: ProgressionMetric
+  weightUnit: WeightUnit
+  distanceUnit: DistanceUnit
 }
 
-function CustomTooltip({ active, payload, metric }: CustomTooltipProps) {
+function CustomTooltip({
+  active,
+  payload,
+  metric,
+  weightUnit,
+  distanceUnit,
+}: CustomTooltipProps) {
   if (!active || !payload || payload.length === 0) return null
 
   const data = payload[0]
@@ -65,15 +83,32 @@ function CustomTooltip({ active, payload, metric }: CustomTooltipProps) {
     >
       <p className="text-xs text-zinc-400">{formattedDate}</p>
       <p className="text-sm font-medium text-white">
-        {formatMetricValue(data.value, metric)}
+        {formatMetricValue(data.value, metric, weightUnit, distanceUnit)}
       </p>
     </div>
   )
 }
 
-export default memo(function ProgressionChart({ data, metric }: Props) {
+export default memo(function ProgressionChart({
+  data: points,
+  metric,
+  weightUnit,
+  distanceUnit,
+}: Props) {
   const { compact } = useChartDimensions()
 
+  // Weight metrics arrive in kg, distance in meters and pace in seconds per
+  // km; chart them in the display units
+  const toDisplayValue = (value: number): number => {
+    if (isWeightMetric(metric)) return convertFromKg(value, weightUnit)
+    if (metric === 'distance') return convertFromMeters(value, distanceUnit)
+    if (metric === 'pace') return convertPaceFromKm(value, distanceUnit)
+    return value
+  }
+  const data = points.map((d) => ({ ...d, value: toDisplayValue(d.value) }))
+  // Keep improvement pointing up when a lower pace is better
+  const reversed = isLowerBetterMetric(metric)
+
   if (data.length === 0) {
     return (
       <div className="h-[250px] flex items-center justify-center text-zinc-500">
@@ -118,12 +153,23 @@ export default memo(function ProgressionChart({ data, metric }: Props) {
           tickLine={false}
           axisLine={false}
           width={compact ? 32 : 45}
+          reversed={reversed}
           tickFormatter={(value: number) => {
+            if (metric === 'pace') return formatTime(value)
             if (value >= 1000) return `${(value / 1000).toFixed(1)}k`
             return value.toString()
           }}
         />
-        <Tooltip content={<CustomTooltip metric={metric} />} cursor={false} />
+        <Tooltip
+          content={
+            <CustomTooltip
+              metric={metric}
+              weightUnit={weightUnit}
+              distanceUnit={distanceUnit}
+            />
+          }
+          cursor={false}
+        />
         <Line
           type="monotone"
           dataKey="value"
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react'
+import type { E1rmFormula } from '@/lib/progression-utils'
+import type { RepMaxSet } from '@/lib/rep-maxes'
+import { useAuth } from '@/context/AuthContext'
+import { useToast } from '@/context/ToastContext'
+import { formatWeightKg } from '@/lib/formatting'
+import { getExerciseRepMaxes } from '@/lib/progression.server'
+import { E1RM_FORMULAS, E1RM_FORMULA_LABELS } from '@/lib/progression-utils'
+import { buildRepMaxTable, getBestEstimated1RM } from '@/lib/rep-maxes'
+
+interface RepMaxTableProps {
+  exerciseId: string
+}
+
+export default function RepMaxTable({ exerciseId }: RepMaxTableProps) {
+  const { token, preferences, updatePreferences } = useAuth()
+  const { showToast } = useToast()
+  const [bests, setBests] = useState<Array<RepMaxSet>>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchRepMaxes = async () => {
+      setLoading(true)
+      try {
+        const result = await getExerciseRepMaxes({
+          data: { token, exerciseId },
+        })
+        setBests(result.bests)
+      } catch (error) {
+        console.error('Failed to fetch rep maxes:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRepMaxes()
+  }, [exerciseId, token])
+
+  const changeFormula = async (e1rmFormula: E1rmFormula) => {
+    if (e1rmFormula === preferences.e1rmFormula) return
+    try {
+      await updatePreferences({ e1rmFormula })
+    } catch {
+      showToast('error', 'Failed to update 1RM formula')
+    }
+  }
+
+  const formatDate = (date: Date | string) =>
+    new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    })
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <div className="w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (bests.length === 0) {
+    return (
+      <p className="py-4 text-center text-sm text-zinc-500">
+        No weighted sets to build rep maxes from
+      </p>
+    )
+  }
+
+  const unit = preferences.weightUnit
+  const estimated = getBestEstimated1RM(bests, preferences.e1rmFormula)
+  const rows = buildRepMaxTable(bests)
+
+  return (
+    <div className="space-y-3">
+      {/* Estimated 1RM */}
+      {estimated && (
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-xs text-zinc-500">Estimated 1RM</p>
+            <p className="text-lg font-bold text-white">
+              {formatWeightKg(estimated.value, unit)}
+            </p>
+            <p className="text-xs text-zinc-500 truncate">
+              From {formatWeightKg(estimated.from.weightKg, unit)} x{' '}
+              {estimated.from.reps}
+            </p>
+          </div>
+          <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50 flex-shrink-0">
+            {E1RM_FORMULAS.map((formula) => (
+              <button
+                key={formula}
+                onClick={() => changeFormula(formula)}
+                className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+                  preferences.e1rmFormula === formula
+                    ? 'bg-blue-500 text-white'
+                    : 'text-zinc-400 hover:text-white hover:bg-zinc-700/50'
+                }`}
+              >
+                {E1RM_FORMULA_LABELS[formula]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Rep maxes */}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-zinc-500">
+            <th className="py-1 text-left font-medium">Reps</th>
+            <th className="py-1 text-left font-medium">Best</th>
+            <th className="py-1 text-right font-medium">Date</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-zinc-700/50">
+          {rows.map(({ targetReps, best }) => (
+            <tr key={targetReps}>
+              <td className="py-1.5 text-zinc-400">{targetReps}RM</td>
+              {best ? (
+                <>
+                  <td className="py-1.5 text-white">
+                    {formatWeightKg(best.weightKg, unit)}
+                    {best.reps > targetReps && (
+                      <span className="text-xs text-zinc-500">
+                        {' '}
+                        (x{best.reps})
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1.5 text-right text-xs text-zinc-500">
+                    {formatDate(best.completedAt)}
+                  </td>
+                </>
+              ) : (
+                <td colSpan={2} className="py-1.5 text-zinc-600">
+                  -
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,283 @@
+import { useEffect, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import type { WeightUnit } from '@prisma/client'
+import type { TimeRange } from '@/components/progression/TimeRangeSelector'
+import type { RelativeStrength } from '@/lib/relative-strength'
+import { useAuth } from '@/context/AuthContext'
+import { useToast } from '@/context/ToastContext'
+import { getStartDateForRange } from '@/components/progression/TimeRangeSelector'
+import {
+  deleteBodyweightEntry,
+  getBodyweightEntries,
+  logBodyweight,
+} from '@/lib/bodyweight.server'
+import { formatWeightKg, parseDecimalInput } from '@/lib/formatting'
+import { getRelativeStrength } from '@/lib/relative-strength.server'
+import { LIFTER_SEX_LABELS } from '@/lib/relative-strength'
+import { WEIGHT_UNIT_LABELS, convertFromKg } from '@/lib/weight-utils'
+
+type BodyweightEntry = {
+  id: string
+  weight: number
+  recordedAt: Date | string
+}
+
+type TrendPoint = {
+  time: number
+  weight: number
+}
+
+function BodyweightTooltip({
+  active,
+  payload,
+  weightUnit,
+}: {
+  active?: boolean
+  payload?: Array<{ payload: TrendPoint }>
+  weightUnit: WeightUnit
+}) {
+  if (!active || !payload || payload.length === 0) return null
+
+  const point = payload[0].payload
+
+  return (
+    <div
+      className="px-3 py-2 rounded-lg border shadow-lg"
+      style={{
+        backgroundColor: '#18181b',
+        borderColor: '#3f3f46',
+      }}
+    >
+      <p className="text-xs text-zinc-400">
+        {new Date(point.time).toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          year: 'numeric',
+        })}
+      </p>
+      <p className="text-sm font-medium text-white">
+        {point.weight}
+        {WEIGHT_UNIT_LABELS[weightUnit]}
+      </p>
+    </div>
+  )
+}
+
+type Props = {
+  timeRange: TimeRange
+}
+
+/** Body weight log with its trend, and the strength scores it feeds */
+export default function BodyweightCard({ timeRange }: Props) {
+  const { token, preferences } = useAuth()
+  const { showToast } = useToast()
+  const [entries, setEntries] = useState<Array<BodyweightEntry>>([])
+  const [strength, setStrength] = useState<RelativeStrength | null>(null)
+  const [input, setInput] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const unit = preferences.weightUnit
+
+  const fetchBodyweight = async () => {
+    try {
+      const [entriesRes, strengthRes] = await Promise.all([
+        getBodyweightEntries({
+          data: { token, startDate: getStartDateForRange(timeRange) },
+        }),
+        getRelativeStrength({ data: { token } }),
+      ])
+      setEntries(entriesRes.entries)
+      setStrength(strengthRes.strength)
+    } catch (error) {
+      console.error('Failed to fetch body weight:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchBodyweight()
+  }, [token, timeRange])
+
+  const handleLog = async () => {
+    const weight = parseDecimalInput(input)
+    if (weight <= 0) return
+    setSaving(true)
+    try {
+      await logBodyweight({ data: { token, weight, weightUnit: unit } })
+      setInput('')
+      await fetchBodyweight()
+    } catch (error) {
+      showToast(
+        'error',
+        error instanceof Error ? error.message : 'Failed to log body weight',
+      )
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteLatest = async () => {
+    const latest = entries.at(-1)
+    if (!latest) return
+    try {
+      await deleteBodyweightEntry({ data: { token, id: latest.id } })
+      await fetchBodyweight()
+    } catch {
+      showToast('error', 'Failed to delete body weight')
+    }
+  }
+
+  const latest = entries.at(-1)
+  const change =
+    latest && entries.length > 1 ? latest.weight - entries[0].weight : null
+  const trend: Array<TrendPoint> = entries.map((e) => ({
+    time: new Date(e.recordedAt).getTime(),
+    weight: convertFromKg(e.weight, unit),
+  }))
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-xs text-zinc-500">Current</p>
+          <p className="text-lg font-bold text-white">
+            {latest ? formatWeightKg(latest.weight, unit) : '-'}
+          </p>
+          {change !== null && (
+            <p className="text-xs text-zinc-500">
+              {change > 0 ? '+' : ''}
+              {formatWeightKg(change, unit)} this period
+            </p>
+          )}
+        </div>
+        {latest && (
+          <button
+            onClick={handleDeleteLatest}
+            className="p-2 rounded-lg text-zinc-500 hover:text-red-400 hover:bg-zinc-700/50 transition-colors"
+            aria-label="Delete latest body weight"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {trend.length >= 2 && (
+        <ResponsiveContainer width="100%" height={140}>
+          <LineChart
+            data={trend}
+            margin={{ top: 5, right: 5, bottom: 0, left: -10 }}
+          >
+            <CartesianGrid
+              strokeDasharray="3 3"
+              stroke="#3f3f46"
+              vertical={false}
+            />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tickLine={false}
+              axisLine={false}
+              fontSize={11}
+              stroke="#a1a1aa"
+              minTickGap={30}
+              tickFormatter={(v: number) =>
+                new Date(v).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                })
+              }
+            />
+            <YAxis
+              domain={['dataMin - 1', 'dataMax + 1']}
+              tickLine={false}
+              axisLine={false}
+              fontSize={11}
+              stroke="#a1a1aa"
+              tickFormatter={(v: number) => Math.round(v).toString()}
+            />
+            <Tooltip
+              content={<BodyweightTooltip weightUnit={unit} />}
+              cursor={false}
+            />
+            <Line
+              type="monotone"
+              dataKey="weight"
+              stroke="#22c55e"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={`Body weight (${WEIGHT_UNIT_LABELS[unit]})`}
+          className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-zinc-900 border border-zinc-700 text-white placeholder-zinc-500 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          onClick={handleLog}
+          disabled={saving || parseDecimalInput(input) <= 0}
+          className="flex items-center gap-1 px-3 py-2 rounded-lg bg-blue-500 text-white text-sm font-medium hover:bg-blue-600 disabled:opacity-50 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Log
+        </button>
+      </div>
+
+      {preferences.lifterSex && (
+        <div className="pt-3 border-t border-zinc-700/50">
+          <p className="text-xs text-zinc-500 mb-2">
+            Strength scores ({LIFTER_SEX_LABELS[preferences.lifterSex]})
+          </p>
+          {strength ? (
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div>
+                <p className="text-base font-bold text-white">
+                  {strength.dots.toFixed(1)}
+                </p>
+                <p className="text-xs text-zinc-400">DOTS</p>
+              </div>
+              <div>
+                <p className="text-base font-bold text-white">
+                  {strength.wilks.toFixed(1)}
+                </p>
+                <p className="text-xs text-zinc-400">Wilks</p>
+              </div>
+              <div>
+                <p className="text-base font-bold text-white">
+                  {strength.ipfGl.toFixed(1)}
+                </p>
+                <p className="text-xs text-zinc-400">IPF GL</p>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-zinc-500">
+              Log a body weight and a squat, bench press and deadlift to get
+              your scores
+            </p>
+          )}
+          {strength && (
+            <p className="mt-2 text-xs text-zinc-500 text-center">
+              Estimated total {formatWeightKg(strength.totalKg, unit)}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
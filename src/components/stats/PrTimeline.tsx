@@ -1,8 +1,20 @@
 import { memo } from 'react'
 import { TrendingUp, Trophy } from 'lucide-react'
-import type { MuscleGroup, RecordType } from '@prisma/client'
+import type {
+  DistanceUnit,
+  MuscleGroup,
+  RecordType,
+  WeightUnit,
+} from '@prisma/client'
 import MuscleGroupBadge from '@/components/exercises/MuscleGroupBadge'
-import { formatTime, formatVolume } from '@/lib/formatting'
+import {
+  formatDistanceMeters,
+  formatRaceTime,
+  formatTime,
+  formatVolume,
+  formatWeightKg,
+} from '@/lib/formatting'
+import { RECORD_TYPE_LABELS, isWeightRecord } from '@/lib/pr-utils'
 
 type PrEntry = {
   id: string
@@ -17,13 +29,8 @@ type PrEntry = {
 
 type Props = {
   timeline: Array<PrEntry>
-}
-
-const recordTypeLabels: Record<RecordType, string> = {
-  MAX_WEIGHT: 'Weight',
-  MAX_REPS: 'Reps',
-  MAX_VOLUME: 'Volume',
-  MAX_TIME: 'Time',
+  weightUnit: WeightUnit
+  distanceUnit: DistanceUnit
 }
 
 const recordTypeColors: Record<RecordType, string> = {
@@ -31,24 +38,55 @@ const recordTypeColors: Record<RecordType, string> = {
   MAX_REPS: 'bg-blue-500/20 text-blue-400',
   MAX_VOLUME: 'bg-green-500/20 text-green-400',
   MAX_TIME: 'bg-purple-500/20 text-purple-400',
+  MAX_DISTANCE: 'bg-cyan-500/20 text-cyan-400',
+  FASTEST_1K: 'bg-red-500/20 text-red-400',
+  FASTEST_5K: 'bg-red-500/20 text-red-400',
+  FASTEST_10K: 'bg-red-500/20 text-red-400',
+  E1RM: 'bg-orange-500/20 text-orange-400',
+  REP_MAX_1: 'bg-orange-500/20 text-orange-400',
+  REP_MAX_2: 'bg-orange-500/20 text-orange-400',
+  REP_MAX_3: 'bg-orange-500/20 text-orange-400',
+  REP_MAX_4: 'bg-orange-500/20 text-orange-400',
+  REP_MAX_5: 'bg-orange-500/20 text-orange-400',
+  REP_MAX_6: 'bg-orange-500/20 text-orange-400',
+  REP_MAX_7: 'bg-orange-500/20 text-orange-400',
+  REP_MAX_8: 'bg-orange-500/20 text-orange-400',
+  REP_MAX_9: 'bg-orange-500/20 text-orange-400',
+  REP_MAX_10: 'bg-orange-500/20 text-orange-400',
+  REP_MAX_11: 'bg-orange-500/20 text-orange-400',
+  REP_MAX_12: 'bg-orange-500/20 text-orange-400',
 }
 
-function formatValue(value: number, recordType: RecordType): string {
+function formatValue(
+  value: number,
+  recordType: RecordType,
+  weightUnit: WeightUnit,
+  distanceUnit: DistanceUnit,
+): string {
+  if (isWeightRecord(recordType)) return formatWeightKg(value, weightUnit)
   switch (recordType) {
-    case 'MAX_WEIGHT':
-      return `${value}kg`
     case 'MAX_REPS':
       return `${value} reps`
     case 'MAX_VOLUME':
-      return formatVolume(value)
+      return formatVolume(value, weightUnit)
     case 'MAX_TIME':
       return formatTime(value)
+    case 'MAX_DISTANCE':
+      return formatDistanceMeters(value, distanceUnit)
+    case 'FASTEST_1K':
+    case 'FASTEST_5K':
+    case 'FASTEST_10K':
+      return formatRaceTime(value)
     default:
       return `${value}`
   }
 }
 
-export default memo(function PrTimeline({ timeline }: Props) {
+export default memo(function PrTimeline({
+  timeline,
+  weightUnit,
+  distanceUnit,
+}: Props) {
   if (timeline.length === 0) {
     return (
       <div className="py-6 text-center text-zinc-500 text-sm">
@@ -90,7 +128,7 @@ export default memo(function PrTimeline({ timeline }: Props) {
                 <span
                   className={`text-[11px] px-1.5 py-0.5 rounded-full font-medium ${recordTypeColors[pr.recordType]}`}
                 >
-                  {recordTypeLabels[pr.recordType]}
+                  {RECORD_TYPE_LABELS[pr.recordType]}
                 </span>
                 {pr.muscleGroup && (
                   <MuscleGroupBadge muscleGroup={pr.muscleGroup} size="sm" />
@@ -100,7 +138,12 @@ export default memo(function PrTimeline({ timeline }: Props) {
               {/* Value + improvement */}
               <div className="flex items-center gap-2 mt-1">
                 <span className="text-sm text-zinc-300">
-                  {formatValue(pr.value, pr.recordType)}
+                  {formatValue(
+                    pr.value,
+                    pr.recordType,
+                    weightUnit,
+                    distanceUnit,
+                  )}
                 </span>
                 {pr.improvement !== null && pr.improvement > 0 && (
                   <span className="flex items-center gap-0.5 text-xs font-medium text-green-400">
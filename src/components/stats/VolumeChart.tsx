@@ -11,8 +11,10 @@ import {
   XAxis,
   YAxis,
 } from 'recharts'
+import type { WeightUnit } from '@prisma/client'
 import type { Granularity } from '@/lib/date-utils'
 import { useChartDimensions } from '@/hooks/useChartDimensions'
+import { WEIGHT_UNIT_LABELS, convertFromKg } from '@/lib/weight-utils'
 
 export type VolumeDataPoint = {
   periodStart: string
@@ -23,6 +25,7 @@ export type VolumeDataPoint = {
 type Props = {
   data?: Array<VolumeDataPoint>
   granularity: Granularity
+  weightUnit: WeightUnit
 }
 
 const chartColors = {
@@ -86,9 +89,15 @@ type CustomTooltipProps = {
   active?: boolean
   payload?: Array<TooltipPayloadEntry>
   granularity: Granularity
+  weightUnit: WeightUnit
 }
 
-function CustomTooltip({ active, payload, granularity }: CustomTooltipProps) {
+function CustomTooltip({
+  active,
+  payload,
+  granularity,
+  weightUnit,
+}: CustomTooltipProps) {
   if (!active || !payload || payload.length === 0) return null
 
   const data = payload[0].payload
@@ -106,8 +115,8 @@ function CustomTooltip({ active, payload, granularity }: CustomTooltipProps) {
       </p>
       <p className="text-sm font-medium text-white">
         {data.volume >= 1000
-          ? `${(data.volume / 1000).toFixed(1)}k kg`
-          : `${data.volume} kg`}
+          ? `${(data.volume / 1000).toFixed(1)}k ${WEIGHT_UNIT_LABELS[weightUnit]}`
+          : `${Math.round(data.volume)} ${WEIGHT_UNIT_LABELS[weightUnit]}`}
       </p>
       <p className="text-xs text-zinc-400">
         {data.workouts} workout{data.workouts !== 1 ? 's' : ''}
@@ -116,8 +125,21 @@ function CustomTooltip({ active, payload, granularity }: CustomTooltipProps) {
   )
 }
 
-export default memo(function VolumeChart({ data, granularity }: Props) {
+export default memo(function VolumeChart({
+  data: volumeKg,
+  granularity,
+  weightUnit,
+}: Props) {
   const { compact } = useChartDimensions()
+  // Volumes arrive in kg; chart them in the display unit
+  const data = useMemo(
+    () =>
+      volumeKg?.map((w) => ({
+        ...w,
+        volume: convertFromKg(w.volume, weightUnit),
+      })),
+    [volumeKg, weightUnit],
+  )
   const hasVolume = data?.some((w) => w.volume > 0) ?? false
 
   if (!hasVolume) {
@@ -204,7 +226,9 @@ export default memo(function VolumeChart({ data, granularity }: Props) {
           />
         )}
         <Tooltip
-          content={<CustomTooltip granularity={granularity} />}
+          content={
+            <CustomTooltip granularity={granularity} weightUnit={weightUnit} />
+          }
           cursor={false}
         />
         <ReferenceLine
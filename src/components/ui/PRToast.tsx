@@ -1,7 +1,19 @@
 import { useEffect } from 'react'
 import { Trophy, X } from 'lucide-react'
-
-type RecordType = 'MAX_WEIGHT' | 'MAX_REPS' | 'MAX_VOLUME' | 'MAX_TIME'
+import type { DistanceUnit, RecordType, WeightUnit } from '@prisma/client'
+import { convertFromKg, normalizeToKg } from '@/lib/weight-utils'
+import {
+  formatDistanceMeters,
+  formatRaceTime,
+  formatStrengthRecord,
+  formatWeightKg,
+} from '@/lib/formatting'
+import {
+  isLowerBetterRecord,
+  isStrengthRecord,
+  isWeightRecord,
+} from '@/lib/pr-utils'
+import { useAuth } from '@/context/AuthContext'
 
 interface PRToastProps {
   exerciseName: string
@@ -9,6 +21,8 @@ interface PRToastProps {
   previousRecord?: number
   recordType: RecordType
   weight?: number
+  // Unit the set was logged in; the record itself is in kg
+  weightUnit?: WeightUnit
   reps?: number
   timeSeconds?: number
   onClose: () => void
@@ -24,17 +38,22 @@ function formatTime(seconds: number): string {
 function formatRecordDisplay(
   recordType: RecordType,
   newRecord: number,
-  weight?: number,
+  displayUnit: WeightUnit,
+  distanceUnit: DistanceUnit,
+  weightKg?: number,
   reps?: number,
   timeSeconds?: number,
 ): string {
+  if (isStrengthRecord(recordType)) {
+    return formatStrengthRecord(recordType, newRecord, displayUnit)
+  }
   switch (recordType) {
     case 'MAX_VOLUME':
-      if (weight && reps) {
-        return `${weight}kg × ${reps} reps`
+      if (weightKg && reps) {
+        return `${formatWeightKg(weightKg, displayUnit)} × ${reps} reps`
       }
-      if (weight && timeSeconds) {
-        return `${weight}kg × ${formatTime(timeSeconds)}`
+      if (weightKg && timeSeconds) {
+        return `${formatWeightKg(weightKg, displayUnit)} × ${formatTime(timeSeconds)}`
       }
       if (reps) return `${reps} reps`
       if (timeSeconds) return formatTime(timeSeconds)
@@ -44,7 +63,13 @@ function formatRecordDisplay(
     case 'MAX_REPS':
       return `${newRecord} reps`
     case 'MAX_WEIGHT':
-      return `${newRecord}kg`
+      return formatWeightKg(newRecord, displayUnit)
+    case 'MAX_DISTANCE':
+      return formatDistanceMeters(newRecord, distanceUnit)
+    case 'FASTEST_1K':
+    case 'FASTEST_5K':
+    case 'FASTEST_10K':
+      return formatRaceTime(newRecord)
     default:
       return newRecord.toLocaleString()
   }
@@ -53,14 +78,24 @@ function formatRecordDisplay(
 function formatImprovement(
   recordType: RecordType,
   improvement: number,
+  displayUnit: WeightUnit,
+  distanceUnit: DistanceUnit,
 ): string {
+  if (isWeightRecord(recordType)) {
+    return `+${convertFromKg(improvement, displayUnit)}`
+  }
   switch (recordType) {
     case 'MAX_TIME':
       return `+${formatTime(improvement)}`
     case 'MAX_REPS':
       return `+${improvement} reps`
+    case 'MAX_DISTANCE':
+      return `+${formatDistanceMeters(improvement, distanceUnit)}`
+    case 'FASTEST_1K':
+    case 'FASTEST_5K':
+    case 'FASTEST_10K':
+      return `-${formatRaceTime(improvement)}`
     case 'MAX_VOLUME':
-    case 'MAX_WEIGHT':
     default:
       return `+${improvement.toLocaleString()}`
   }
@@ -72,20 +107,27 @@ export default function PRToast({
   previousRecord,
   recordType,
   weight,
+  weightUnit,
   reps,
   timeSeconds,
   onClose,
   autoCloseMs = 4000,
 }: PRToastProps) {
+  const { preferences } = useAuth()
+  const weightKg = weight && normalizeToKg(weight, weightUnit ?? 'KG')
+
   // Auto-close after delay
   useEffect(() => {
     const timer = setTimeout(onClose, autoCloseMs)
     return () => clearTimeout(timer)
   }, [onClose, autoCloseMs])
 
+  // Fastest times improve by coming down
   const improvement =
     previousRecord && previousRecord !== newRecord
-      ? newRecord - previousRecord
+      ? isLowerBetterRecord(recordType)
+        ? previousRecord - newRecord
+        : newRecord - previousRecord
       : null
 
   return (
@@ -103,7 +145,12 @@ export default function PRToast({
               <span className="text-lg font-bold text-yellow-400">New PR!</span>
               {improvement && improvement > 0 && (
                 <span className="px-2 py-0.5 text-xs font-medium bg-green-500/30 text-green-400 rounded-full">
-                  {formatImprovement(recordType, improvement)}
+                  {formatImprovement(
+                    recordType,
+                    improvement,
+                    preferences.weightUnit,
+                    preferences.distanceUnit,
+                  )}
                 </span>
               )}
             </div>
@@ -112,7 +159,9 @@ export default function PRToast({
               {formatRecordDisplay(
                 recordType,
                 newRecord,
-                weight,
+                preferences.weightUnit,
+                preferences.distanceUnit,
+                weightKg,
                 reps,
                 timeSeconds,
               )}
@@ -123,7 +172,9 @@ export default function PRToast({
                   {formatRecordDisplay(
                     recordType,
                     previousRecord,
-                    weight,
+                    preferences.weightUnit,
+                    preferences.distanceUnit,
+                    weightKg,
                     reps,
                     timeSeconds,
                   )}
@@ -1,14 +1,52 @@
 import { memo, useState } from 'react'
-import { ChevronDown, ChevronUp, Plus, Repeat, Timer } from 'lucide-react'
+import {
+  ArrowLeftRight,
+  Check,
+  ChevronDown,
+  ChevronUp,
+  Circle,
+  Plus,
+  Repeat,
+  Timer,
+} from 'lucide-react'
 import WorkoutSetRow from './WorkoutSetRow'
-import type { Exercise, PlanExercise, WorkoutSet } from '@prisma/client'
+import type {
+  Exercise,
+  PlanExercise,
+  PlanSetPrescription,
+  WorkoutSet,
+} from '@prisma/client'
 import MuscleGroupBadge from '@/components/exercises/MuscleGroupBadge'
+import {
+  formatEffortTarget,
+  formatLoadTarget,
+  formatRepTarget,
+} from '@/lib/plan-targets'
+import {
+  SET_TYPE_LABELS,
+  describeSetPrescription,
+  getPrescribedWeight,
+} from '@/lib/set-schemes'
+import { normalizeToKg } from '@/lib/weight-utils'
+import { useAuth } from '@/context/AuthContext'
 
 interface ExerciseWorkoutCardProps {
   exercise: Exercise
   sets: Array<WorkoutSet>
-  planExercise?: PlanExercise | null
+  planExercise?:
+    | (PlanExercise & {
+        // Set-by-set scheme (missing in old caches)
+        setPrescriptions?: Array<PlanSetPrescription>
+      })
+    | null
+  // kg for %1RM targets as resolved when the session started, by plan
+  // exercise or set prescription id
+  targetWeights?: Record<string, number | undefined>
+  // Name of the planned exercise this one is done in place of
+  substitutedFor?: string
   onLogSet: (exerciseId: string) => void
+  // Offered for plan exercises, to do something else in their place
+  onSwap?: (exerciseId: string) => void
   onDeleteSet: (setId: string) => void
   isExpanded?: boolean
   onToggleExpand?: (exerciseId: string) => void
@@ -18,11 +56,15 @@ export default memo(function ExerciseWorkoutCard({
   exercise,
   sets,
   planExercise,
+  targetWeights = {},
+  substitutedFor,
   onLogSet,
+  onSwap,
   onDeleteSet,
   isExpanded = false,
   onToggleExpand,
 }: ExerciseWorkoutCardProps) {
+  const { preferences } = useAuth()
   const [expanded, setExpanded] = useState(isExpanded)
 
   const handleToggle = () => {
@@ -39,12 +81,21 @@ export default memo(function ExerciseWorkoutCard({
   const targetSets = planExercise?.targetSets ?? 0
   const completedSets = sets.filter((s) => !s.isWarmup && !s.isDropset).length
   const hasTarget = targetSets > 0
+  const setPrescriptions = planExercise?.setPrescriptions ?? []
+  const loggedWeights = sets.map((s) =>
+    s.weight === null ? null : normalizeToKg(s.weight, s.weightUnit),
+  )
 
   // Format target display
   const formatTarget = () => {
     if (!planExercise) return null
 
-    const { targetReps, targetTimeSeconds, targetWeight } = planExercise
+    const { targetReps, targetTimeSeconds } = planExercise
+
+    // The checklist spells each set of a scheme out
+    if (setPrescriptions.length > 0) {
+      return `${setPrescriptions.length} sets`
+    }
 
     let display = `${planExercise.targetSets}`
 
@@ -53,11 +104,21 @@ export default memo(function ExerciseWorkoutCard({
       const secs = targetTimeSeconds % 60
       display += ` × ${mins}:${secs.toString().padStart(2, '0')}`
     } else if (targetReps) {
-      display += ` × ${targetReps}`
+      display += ` × ${formatRepTarget(targetReps, planExercise.targetRepsMax)}`
     }
 
-    if (targetWeight) {
-      display += ` @ ${targetWeight}kg`
+    const load = formatLoadTarget(
+      planExercise,
+      targetWeights[planExercise.id],
+      preferences.weightUnit,
+    )
+    if (load) {
+      display += ` @ ${load}`
+    }
+
+    const effort = formatEffortTarget(planExercise)
+    if (effort) {
+      display += load ? `, ${effort}` : ` @ ${effort}`
     }
 
     return display
@@ -78,6 +139,13 @@ export default memo(function ExerciseWorkoutCard({
             <MuscleGroupBadge muscleGroup={exercise.muscleGroup} />
           </div>
 
+          {substitutedFor && (
+            <p className="flex items-center gap-1 text-xs text-zinc-500 mb-1">
+              <ArrowLeftRight className="w-3 h-3" />
+              In place of {substitutedFor}
+            </p>
+          )}
+
           <div className="flex items-center gap-3 text-sm">
             {/* Target from plan */}
             {targetDisplay && (
@@ -118,6 +186,49 @@ export default memo(function ExerciseWorkoutCard({
       {/* Expanded content */}
       {isExpandedState && (
         <div className="px-4 pb-4 space-y-3">
+          {/* Set scheme checklist */}
+          {setPrescriptions.length > 0 && (
+            <ol className="space-y-1.5">
+              {setPrescriptions.map((set, index) => {
+                const done = index < sets.length
+                return (
+                  <li
+                    key={set.id}
+                    className={`flex items-start gap-2 text-sm ${
+                      done
+                        ? 'text-zinc-500'
+                        : index === sets.length
+                          ? 'text-white'
+                          : 'text-zinc-400'
+                    }`}
+                  >
+                    {done ? (
+                      <Check className="w-4 h-4 mt-0.5 text-green-400 shrink-0" />
+                    ) : (
+                      <Circle className="w-4 h-4 mt-0.5 text-zinc-600 shrink-0" />
+                    )}
+                    <span>
+                      <span className="font-medium">
+                        {SET_TYPE_LABELS[set.setType]}
+                      </span>{' '}
+                      ·{' '}
+                      {describeSetPrescription(
+                        set,
+                        getPrescribedWeight(
+                          setPrescriptions,
+                          index,
+                          loggedWeights,
+                          (i) => targetWeights[setPrescriptions[i].id],
+                        ),
+                        preferences.weightUnit,
+                      )}
+                    </span>
+                  </li>
+                )
+              })}
+            </ol>
+          )}
+
           {/* Logged sets */}
           {sets.length > 0 && (
             <div className="space-y-2">
@@ -128,6 +239,11 @@ export default memo(function ExerciseWorkoutCard({
                   reps={set.reps}
                   timeSeconds={set.timeSeconds}
                   weight={set.weight}
+                  weightUnit={set.weightUnit}
+                  displayUnit={preferences.weightUnit}
+                  distance={set.distance}
+                  distanceUnit={set.distanceUnit}
+                  avgHeartRate={set.avgHeartRate}
                   rpe={set.rpe}
                   isWarmup={set.isWarmup}
                   isDropset={set.isDropset}
@@ -137,17 +253,32 @@ export default memo(function ExerciseWorkoutCard({
             </div>
           )}
 
-          {/* Log set button */}
-          <button
-            onClick={(e) => {
-              e.stopPropagation()
-              onLogSet(exercise.id)
-            }}
-            className="w-full flex items-center justify-center gap-2 py-3 bg-blue-600/20 text-blue-400 font-medium rounded-xl hover:bg-blue-600/30 transition-colors"
-          >
-            <Plus className="w-5 h-5" />
-            Log Set
-          </button>
+          <div className="flex gap-2">
+            {/* Log set button */}
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                onLogSet(exercise.id)
+              }}
+              className="flex-1 flex items-center justify-center gap-2 py-3 bg-blue-600/20 text-blue-400 font-medium rounded-xl hover:bg-blue-600/30 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              Log Set
+            </button>
+
+            {onSwap && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onSwap(exercise.id)
+                }}
+                className="px-4 py-3 bg-zinc-800 text-zinc-400 rounded-xl hover:bg-zinc-700 hover:text-white transition-colors"
+                aria-label="Swap exercise"
+              >
+                <ArrowLeftRight className="w-5 h-5" />
+              </button>
+            )}
+          </div>
         </div>
       )}
     </div>
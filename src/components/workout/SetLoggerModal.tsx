@@ -1,15 +1,28 @@
 import { useEffect, useState } from 'react'
 import { Calendar, Minus, Plus, X } from 'lucide-react'
-import type { Exercise, WeightUnit } from '@prisma/client'
+import type { DistanceUnit, Exercise, WeightUnit } from '@prisma/client'
 import { useBodyOverflow } from '@/hooks/useBodyOverflow'
 import {
+  CARDIO_TIME_INCREMENT,
   MIN_REPS,
   MIN_TIME_SECONDS,
   MIN_WEIGHT,
   RPE_VALUES,
   TIME_INCREMENT,
 } from '@/lib/constants'
-import { parseDecimalInput } from '@/lib/formatting'
+import { formatPace, parseDecimalInput } from '@/lib/formatting'
+import {
+  DISTANCE_UNITS,
+  DISTANCE_UNIT_LABELS,
+  SPEED_UNIT_LABELS,
+  calculatePace,
+  calculateSpeed,
+  convertFromMeters,
+  normalizeToMeters,
+} from '@/lib/cardio'
+import { WEIGHT_UNITS } from '@/lib/preferences'
+import { WEIGHT_UNIT_LABELS, convertWeight } from '@/lib/weight-utils'
+import { useAuth } from '@/context/AuthContext'
 
 interface PreviousWorkoutData {
   date: Date | null
@@ -20,6 +33,8 @@ interface PreviousWorkoutData {
     timeSeconds: number | null
     rpe: number | null
     weightUnit: WeightUnit
+    distance?: number | null
+    distanceUnit?: DistanceUnit
   }>
 }
 
@@ -30,6 +45,13 @@ interface SetLoggerModalProps {
     reps?: number
     timeSeconds?: number
     weight?: number
+    weightUnit: WeightUnit
+    distance?: number
+    distanceUnit: DistanceUnit
+    avgHeartRate?: number
+    maxHeartRate?: number
+    level?: number
+    calories?: number
     rpe?: number
     isWarmup: boolean
     isDropset: boolean
@@ -40,11 +62,21 @@ interface SetLoggerModalProps {
     reps?: number
     timeSeconds?: number
     weight?: number
+    // Unit the default weight is in; falls back to the display preference
+    weightUnit?: WeightUnit
+    distance?: number
+    distanceUnit?: DistanceUnit
+    avgHeartRate?: number
+    maxHeartRate?: number
+    level?: number
+    calories?: number
     rpe?: number
     isWarmup?: boolean
     isDropset?: boolean
   }
   previousWorkout?: PreviousWorkoutData | null
+  // The plan's prescription for this set, e.g. "Back-off · 5 reps · ≈ 90kg"
+  targetLabel?: string
   isLoading?: boolean
   mode?: 'log' | 'edit'
 }
@@ -57,9 +89,14 @@ export default function SetLoggerModal({
   setNumber,
   defaultValues,
   previousWorkout,
+  targetLabel,
   isLoading = false,
   mode = 'log',
 }: SetLoggerModalProps) {
+  const { preferences } = useAuth()
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>(
+    defaultValues?.weightUnit ?? preferences.weightUnit,
+  )
   const [weight, setWeight] = useState<number | string>(
     defaultValues?.weight ?? 0,
   )
@@ -67,41 +104,100 @@ export default function SetLoggerModal({
   const [timeSeconds, setTimeSeconds] = useState(
     defaultValues?.timeSeconds ?? 60,
   )
+  const [distanceUnit, setDistanceUnit] = useState<DistanceUnit>(
+    defaultValues?.distanceUnit ?? preferences.distanceUnit,
+  )
+  const [distance, setDistance] = useState<number | string>(
+    defaultValues?.distance ?? '',
+  )
+  const [avgHeartRate, setAvgHeartRate] = useState<number | string>(
+    defaultValues?.avgHeartRate ?? '',
+  )
+  const [maxHeartRate, setMaxHeartRate] = useState<number | string>(
+    defaultValues?.maxHeartRate ?? '',
+  )
+  const [level, setLevel] = useState<number | string>(
+    defaultValues?.level ?? '',
+  )
+  const [calories, setCalories] = useState<number | string>(
+    defaultValues?.calories ?? '',
+  )
   const [rpe, setRpe] = useState<number | undefined>(undefined)
   const [isWarmup, setIsWarmup] = useState(false)
   const [isDropset, setIsDropset] = useState(false)
 
+  // Cardio sets log distance, heart rate, level and calories instead of
+  // weight and reps
+  const isCardio = exercise.exerciseType === 'CARDIO'
+
   // Reset state when modal opens with new defaults
   useEffect(() => {
     if (isOpen) {
+      setWeightUnit(defaultValues?.weightUnit ?? preferences.weightUnit)
       setWeight(defaultValues?.weight ?? 0)
       setReps(defaultValues?.reps ?? 10)
       setTimeSeconds(defaultValues?.timeSeconds ?? 60)
+      setDistanceUnit(defaultValues?.distanceUnit ?? preferences.distanceUnit)
+      setDistance(defaultValues?.distance ?? '')
+      setAvgHeartRate(defaultValues?.avgHeartRate ?? '')
+      setMaxHeartRate(defaultValues?.maxHeartRate ?? '')
+      setLevel(defaultValues?.level ?? '')
+      setCalories(defaultValues?.calories ?? '')
       setRpe(defaultValues?.rpe ?? undefined)
       setIsWarmup(defaultValues?.isWarmup ?? false)
       setIsDropset(defaultValues?.isDropset ?? false)
     }
-  }, [isOpen, defaultValues])
+  }, [isOpen, defaultValues, preferences.weightUnit, preferences.distanceUnit])
 
   // Prevent body scroll when modal is open
   useBodyOverflow(isOpen)
 
   if (!isOpen) return null
 
+  const distanceNum =
+    typeof distance === 'string' ? parseDecimalInput(distance) : distance
+  const distanceMeters = normalizeToMeters(distanceNum, distanceUnit)
+  const pace = calculatePace(distanceMeters, timeSeconds, distanceUnit)
+  const speed = calculateSpeed(distanceMeters, timeSeconds, distanceUnit)
+
+  // Optional cardio fields stay unset when left blank
+  const optionalNumber = (value: number | string): number | undefined => {
+    if (typeof value === 'number') return value
+    if (value.trim() === '') return undefined
+    return parseDecimalInput(value)
+  }
+
   const handleLog = () => {
     const weightNum =
       typeof weight === 'string' ? parseDecimalInput(weight) : weight
     const repsNum = typeof reps === 'string' ? parseInt(reps) || 1 : reps
+    const isTimed = exercise.isTimed || isCardio
     onLog({
-      reps: exercise.isTimed ? undefined : repsNum,
-      timeSeconds: exercise.isTimed ? timeSeconds : undefined,
-      weight: weightNum > 0 ? weightNum : undefined,
+      reps: isTimed ? undefined : repsNum,
+      timeSeconds: isTimed ? timeSeconds : undefined,
+      weight: !isCardio && weightNum > 0 ? weightNum : undefined,
+      weightUnit,
+      ...(isCardio && {
+        distance: distanceNum > 0 ? distanceNum : undefined,
+        avgHeartRate: optionalNumber(avgHeartRate),
+        maxHeartRate: optionalNumber(maxHeartRate),
+        level: optionalNumber(level),
+        calories: optionalNumber(calories),
+      }),
+      distanceUnit,
       rpe,
       isWarmup,
       isDropset,
     })
   }
 
+  const changeDistanceUnit = (unit: DistanceUnit) => {
+    if (distanceNum > 0) {
+      setDistance(convertFromMeters(distanceMeters, unit))
+    }
+    setDistanceUnit(unit)
+  }
+
   const adjustWeight = (delta: number) => {
     setWeight((prev) => {
       const num = typeof prev === 'string' ? parseDecimalInput(prev) : prev
@@ -126,6 +222,9 @@ export default function SetLoggerModal({
     return `${mins}:${secs.toString().padStart(2, '0')}`
   }
 
+  // Whole minutes take long enough to step through on a cardio set
+  const timeIncrement = isCardio ? CARDIO_TIME_INCREMENT : TIME_INCREMENT
+
   return (
     <div className="fixed inset-0 z-50 flex items-end justify-center">
       {/* Backdrop */}
@@ -143,6 +242,9 @@ export default function SetLoggerModal({
               {mode === 'edit' ? 'Edit' : 'Log'} Set {setNumber}
             </h2>
             <p className="text-sm text-zinc-400">{exercise.name}</p>
+            {targetLabel && (
+              <p className="text-xs text-blue-400 mt-0.5">{targetLabel}</p>
+            )}
           </div>
           <button
             onClick={onClose}
@@ -197,7 +299,9 @@ export default function SetLoggerModal({
 
                 const handleLoadSet = () => {
                   if (set.weight !== null) {
-                    setWeight(set.weight)
+                    setWeight(
+                      convertWeight(set.weight, set.weightUnit, weightUnit),
+                    )
                   }
                   if (set.reps !== null) {
                     setReps(set.reps)
@@ -205,6 +309,10 @@ export default function SetLoggerModal({
                   if (set.timeSeconds !== null) {
                     setTimeSeconds(set.timeSeconds)
                   }
+                  if (set.distance != null) {
+                    setDistance(set.distance)
+                    setDistanceUnit(set.distanceUnit ?? 'KM')
+                  }
                 }
 
                 return (
@@ -214,7 +322,12 @@ export default function SetLoggerModal({
                     className={badgeClasses}
                     title={`Set ${set.setNumber} - Tap to load`}
                   >
-                    {set.weight ? `${set.weight}kg` : ''}
+                    {set.distance
+                      ? `${set.distance}${DISTANCE_UNIT_LABELS[set.distanceUnit ?? 'KM']}${set.timeSeconds ? ' in ' : ''}`
+                      : ''}
+                    {set.weight
+                      ? `${convertWeight(set.weight, set.weightUnit, weightUnit)}${WEIGHT_UNIT_LABELS[weightUnit]}`
+                      : ''}
                     {set.weight && set.reps ? ' × ' : ''}
                     {set.reps ? `${set.reps}` : ''}
                     {set.timeSeconds && !set.reps
@@ -229,60 +342,116 @@ export default function SetLoggerModal({
 
         {/* Body */}
         <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {/* Distance Input */}
+          {isCardio && (
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <label className="text-sm font-medium text-zinc-400">
+                  Distance ({DISTANCE_UNIT_LABELS[distanceUnit]})
+                </label>
+                <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50">
+                  {DISTANCE_UNITS.map((unit) => (
+                    <button
+                      key={unit}
+                      onClick={() => changeDistanceUnit(unit)}
+                      className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                        distanceUnit === unit
+                          ? 'bg-blue-500 text-white'
+                          : 'text-zinc-400 hover:text-white hover:bg-zinc-700/50'
+                      }`}
+                    >
+                      {DISTANCE_UNIT_LABELS[unit]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-center">
+                <input
+                  type="text"
+                  value={distance}
+                  onChange={(e) => setDistance(e.target.value)}
+                  placeholder="0"
+                  className="w-36 text-center text-xl font-semibold bg-zinc-800 text-white rounded-xl py-2.5 border border-zinc-700 focus:border-blue-500 focus:outline-none"
+                  inputMode="decimal"
+                  pattern="[0-9]*[.,]?[0-9]*"
+                />
+              </div>
+            </div>
+          )}
+
           {/* Weight Input */}
-          <div>
-            <label className="block text-sm font-medium text-zinc-400 mb-3">
-              Weight (kg)
-            </label>
-            <div className="flex items-center justify-center gap-2">
-              <button
-                onClick={() => adjustWeight(-10)}
-                className="w-11 h-11 flex items-center justify-center bg-zinc-800 rounded-xl text-white text-sm font-medium hover:bg-zinc-700 active:bg-zinc-600 transition-colors"
-                aria-label="Decrease weight by 10"
-              >
-                -10
-              </button>
-              <button
-                onClick={() => adjustWeight(-1)}
-                className="w-11 h-11 flex items-center justify-center bg-zinc-800 rounded-xl text-white text-sm font-medium hover:bg-zinc-700 active:bg-zinc-600 transition-colors"
-                aria-label="Decrease weight by 1"
-              >
-                -1
-              </button>
-              <input
-                type="text"
-                value={weight}
-                onChange={(e) => setWeight(e.target.value)}
-                className="w-24 text-center text-xl font-semibold bg-zinc-800 text-white rounded-xl py-2.5 border border-zinc-700 focus:border-blue-500 focus:outline-none"
-                inputMode="decimal"
-                pattern="[0-9]*[.,]?[0-9]*"
-              />
-              <button
-                onClick={() => adjustWeight(1)}
-                className="w-11 h-11 flex items-center justify-center bg-zinc-800 rounded-xl text-white text-sm font-medium hover:bg-zinc-700 active:bg-zinc-600 transition-colors"
-                aria-label="Increase weight by 1"
-              >
-                +1
-              </button>
-              <button
-                onClick={() => adjustWeight(10)}
-                className="w-11 h-11 flex items-center justify-center bg-zinc-800 rounded-xl text-white text-sm font-medium hover:bg-zinc-700 active:bg-zinc-600 transition-colors"
-                aria-label="Increase weight by 10"
-              >
-                +10
-              </button>
+          {!isCardio && (
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <label className="text-sm font-medium text-zinc-400">
+                  Weight ({WEIGHT_UNIT_LABELS[weightUnit]})
+                </label>
+                <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50">
+                  {WEIGHT_UNITS.map((unit) => (
+                    <button
+                      key={unit}
+                      onClick={() => setWeightUnit(unit)}
+                      className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                        weightUnit === unit
+                          ? 'bg-blue-500 text-white'
+                          : 'text-zinc-400 hover:text-white hover:bg-zinc-700/50'
+                      }`}
+                    >
+                      {WEIGHT_UNIT_LABELS[unit]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center justify-center gap-2">
+                <button
+                  onClick={() => adjustWeight(-10)}
+                  className="w-11 h-11 flex items-center justify-center bg-zinc-800 rounded-xl text-white text-sm font-medium hover:bg-zinc-700 active:bg-zinc-600 transition-colors"
+                  aria-label="Decrease weight by 10"
+                >
+                  -10
+                </button>
+                <button
+                  onClick={() => adjustWeight(-1)}
+                  className="w-11 h-11 flex items-center justify-center bg-zinc-800 rounded-xl text-white text-sm font-medium hover:bg-zinc-700 active:bg-zinc-600 transition-colors"
+                  aria-label="Decrease weight by 1"
+                >
+                  -1
+                </button>
+                <input
+                  type="text"
+                  value={weight}
+                  onChange={(e) => setWeight(e.target.value)}
+                  className="w-24 text-center text-xl font-semibold bg-zinc-800 text-white rounded-xl py-2.5 border border-zinc-700 focus:border-blue-500 focus:outline-none"
+                  inputMode="decimal"
+                  pattern="[0-9]*[.,]?[0-9]*"
+                />
+                <button
+                  onClick={() => adjustWeight(1)}
+                  className="w-11 h-11 flex items-center justify-center bg-zinc-800 rounded-xl text-white text-sm font-medium hover:bg-zinc-700 active:bg-zinc-600 transition-colors"
+                  aria-label="Increase weight by 1"
+                >
+                  +1
+                </button>
+                <button
+                  onClick={() => adjustWeight(10)}
+                  className="w-11 h-11 flex items-center justify-center bg-zinc-800 rounded-xl text-white text-sm font-medium hover:bg-zinc-700 active:bg-zinc-600 transition-colors"
+                  aria-label="Increase weight by 10"
+                >
+                  +10
+                </button>
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Reps or Time Input */}
-          {exercise.isTimed ? (
+          {exercise.isTimed || isCardio ? (
             <div>
               <label className="block text-sm font-medium text-zinc-400 mb-3">
                 Time
               </label>
               <div className="flex items-center justify-center gap-3">
                 <button
-                  onClick={() => adjustTime(-TIME_INCREMENT)}
+                  onClick={() => adjustTime(-timeIncrement)}
                   className="w-12 h-12 flex items-center justify-center bg-zinc-800 rounded-xl text-white hover:bg-zinc-700 active:bg-zinc-600 transition-colors"
                   aria-label="Decrease time"
                 >
@@ -292,13 +461,19 @@ export default function SetLoggerModal({
                   {formatTime(timeSeconds)}
                 </div>
                 <button
-                  onClick={() => adjustTime(TIME_INCREMENT)}
+                  onClick={() => adjustTime(timeIncrement)}
                   className="w-12 h-12 flex items-center justify-center bg-zinc-800 rounded-xl text-white hover:bg-zinc-700 active:bg-zinc-600 transition-colors"
                   aria-label="Increase time"
                 >
                   <Plus className="w-5 h-5" />
                 </button>
               </div>
+              {isCardio && pace !== null && speed !== null && (
+                <p className="mt-2 text-center text-sm text-zinc-400">
+                  {formatPace(pace, distanceUnit)} · {speed}{' '}
+                  {SPEED_UNIT_LABELS[distanceUnit]}
+                </p>
+              )}
             </div>
           ) : (
             <div>
@@ -338,6 +513,52 @@ export default function SetLoggerModal({
             </div>
           )}
 
+          {/* Heart Rate, Level and Calories */}
+          {isCardio && (
+            <div className="grid grid-cols-2 gap-3">
+              {[
+                {
+                  label: 'Avg HR (bpm)',
+                  value: avgHeartRate,
+                  onChange: setAvgHeartRate,
+                  inputMode: 'numeric' as const,
+                },
+                {
+                  label: 'Max HR (bpm)',
+                  value: maxHeartRate,
+                  onChange: setMaxHeartRate,
+                  inputMode: 'numeric' as const,
+                },
+                {
+                  label: 'Incline / Level',
+                  value: level,
+                  onChange: setLevel,
+                  inputMode: 'decimal' as const,
+                },
+                {
+                  label: 'Calories',
+                  value: calories,
+                  onChange: setCalories,
+                  inputMode: 'numeric' as const,
+                },
+              ].map((field) => (
+                <div key={field.label}>
+                  <label className="block text-sm font-medium text-zinc-400 mb-2">
+                    {field.label}
+                  </label>
+                  <input
+                    type="text"
+                    value={field.value}
+                    onChange={(e) => field.onChange(e.target.value)}
+                    placeholder="-"
+                    className="w-full text-center font-semibold bg-zinc-800 text-white rounded-xl py-2.5 border border-zinc-700 focus:border-blue-500 focus:outline-none"
+                    inputMode={field.inputMode}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* RPE Selector */}
           <div>
             <label className="block text-sm font-medium text-zinc-400 mb-3">
@@ -0,0 +1,124 @@
+import { useNavigate } from '@tanstack/react-router'
+import { useEffect, useState } from 'react'
+import { Clock } from 'lucide-react'
+import { useAuth } from '@/context/AuthContext'
+import { useToast } from '@/context/ToastContext'
+import {
+  getAutoClosedSession,
+  resolveAutoClosedSession,
+} from '@/lib/workouts.server'
+import { formatRelativeDate } from '@/lib/formatting'
+
+type AutoClosedSession = {
+  id: string
+  completedAt: Date | null
+  workoutPlan: { name: string } | null
+  planDay: { name: string } | null
+  _count: { workoutSets: number }
+}
+
+type Action = 'resume' | 'finish' | 'discard'
+
+/**
+ * Shown once per app open when a workout was auto-closed for inactivity,
+ * so the user decides whether to pick it back up, keep it or drop it.
+ */
+export default function StaleSessionPrompt() {
+  const { user, token } = useAuth()
+  const navigate = useNavigate()
+  const { showToast } = useToast()
+  const [session, setSession] = useState<AutoClosedSession | null>(null)
+  const [pendingAction, setPendingAction] = useState<Action | null>(null)
+
+  const userId = user?.id
+  useEffect(() => {
+    if (!userId) return
+    getAutoClosedSession({ data: { token } })
+      .then((result) => setSession(result.session))
+      .catch((error: unknown) => {
+        console.error('Failed to check for auto-closed workouts:', error)
+      })
+  }, [userId])
+
+  if (!session?.completedAt) return null
+
+  const name =
+    session.planDay?.name || session.workoutPlan?.name || 'Quick workout'
+  const endedAt = new Date(session.completedAt)
+
+  const handleAction = async (action: Action) => {
+    setPendingAction(action)
+    try {
+      await resolveAutoClosedSession({
+        data: { sessionId: session.id, action, token },
+      })
+      setSession(null)
+      if (action === 'resume') {
+        navigate({ to: '/workout/active' })
+      } else if (action === 'finish') {
+        navigate({
+          to: '/workout/summary/$sessionId',
+          params: { sessionId: session.id },
+        })
+      } else {
+        showToast('success', 'Workout discarded')
+      }
+    } catch (error) {
+      showToast(
+        'error',
+        error instanceof Error ? error.message : 'Failed to update workout',
+      )
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+      <div className="relative w-full max-w-sm bg-zinc-900 rounded-2xl p-6 animate-fade-in">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 rounded-full bg-amber-500/20">
+            <Clock className="w-5 h-5 text-amber-400" />
+          </div>
+          <h3 className="text-lg font-semibold text-white">
+            Unfinished Workout
+          </h3>
+        </div>
+        <p className="text-zinc-400 text-sm mb-6">
+          {name} ({formatRelativeDate(endedAt).toLowerCase()}) went idle, so it
+          was closed at your last set at{' '}
+          {endedAt.toLocaleTimeString('en-US', {
+            hour: 'numeric',
+            minute: '2-digit',
+          })}{' '}
+          with {session._count.workoutSets} set
+          {session._count.workoutSets !== 1 ? 's' : ''} logged.
+        </p>
+        <div className="flex flex-col gap-3">
+          <button
+            onClick={() => handleAction('resume')}
+            disabled={pendingAction !== null}
+            className="w-full py-3 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-medium rounded-xl transition-colors"
+          >
+            Resume Workout
+          </button>
+          <button
+            onClick={() => handleAction('finish')}
+            disabled={pendingAction !== null}
+            className="w-full py-3 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white font-medium rounded-xl transition-colors"
+          >
+            Finish at Last Set
+          </button>
+          <button
+            onClick={() => handleAction('discard')}
+            disabled={pendingAction !== null}
+            className="w-full py-3 bg-red-600/20 hover:bg-red-600/30 disabled:opacity-50 text-red-400 font-medium rounded-xl transition-colors"
+          >
+            Discard
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react'
+import { Undo2 } from 'lucide-react'
+import type { Equipment, Exercise } from '@prisma/client'
+import Modal from '@/components/ui/Modal'
+import ExerciseCard from '@/components/exercises/ExerciseCard'
+import { equipmentConfig } from '@/components/exercises/EquipmentBadge'
+import { getSubstituteExercises } from '@/lib/exercises.server'
+import { rankSubstitutes } from '@/lib/exercise-substitution'
+import { useAuth } from '@/context/AuthContext'
+
+interface SwapExerciseSheetProps {
+  isOpen: boolean
+  onClose: () => void
+  // The exercise the plan calls for
+  plannedExerciseId: string
+  plannedExerciseName: string
+  // Whether another exercise is standing in for it already
+  isSubstituted: boolean
+  // The plan's preferred alternates, in order
+  alternates: Array<Exercise>
+  // Exercises already in the workout
+  excludeIds: Array<string>
+  onSelect: (exercise: Exercise | null) => Promise<void>
+}
+
+const EQUIPMENT = Object.keys(equipmentConfig) as Array<Equipment>
+
+export default function SwapExerciseSheet({
+  isOpen,
+  onClose,
+  plannedExerciseId,
+  plannedExerciseName,
+  isSubstituted,
+  alternates,
+  excludeIds,
+  onSelect,
+}: SwapExerciseSheetProps) {
+  const { token } = useAuth()
+  const [planned, setPlanned] = useState<Exercise | null>(null)
+  const [candidates, setCandidates] = useState<Array<Exercise>>([])
+  const [loading, setLoading] = useState(true)
+  // Equipment that's taken, e.g. the barbell when the rack is in use
+  const [unavailable, setUnavailable] = useState<Set<Equipment>>(new Set())
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const fetchCandidates = async () => {
+      setLoading(true)
+      try {
+        const result = await getSubstituteExercises({
+          data: { exerciseId: plannedExerciseId, token },
+        })
+        setPlanned(result.exercise)
+        setCandidates(result.exercises)
+      } catch (error) {
+        console.error('Failed to fetch substitutes:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCandidates()
+  }, [isOpen, plannedExerciseId, token])
+
+  const toggleEquipment = (equipment: Equipment) => {
+    const next = new Set(unavailable)
+    if (next.has(equipment)) {
+      next.delete(equipment)
+    } else {
+      next.add(equipment)
+    }
+    setUnavailable(next)
+  }
+
+  const handleSelect = async (exercise: Exercise | null) => {
+    setIsSubmitting(true)
+    try {
+      await onSelect(exercise)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const options = planned
+    ? rankSubstitutes(planned, alternates, candidates, {
+        availableEquipment: new Set(
+          EQUIPMENT.filter((equipment) => !unavailable.has(equipment)),
+        ),
+        excludeIds,
+      })
+    : []
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Swap Exercise">
+      <div className="space-y-4">
+        <p className="text-sm text-zinc-400">
+          Do something else in place of {plannedExerciseName}. It takes over the
+          planned sets and reps for this workout.
+        </p>
+
+        {isSubstituted && (
+          <button
+            onClick={() => handleSelect(null)}
+            disabled={isSubmitting}
+            className="w-full flex items-center justify-center gap-2 py-2.5 text-sm text-zinc-300 bg-zinc-800 rounded-xl hover:bg-zinc-700 disabled:opacity-50 transition-colors"
+          >
+            <Undo2 className="w-4 h-4" />
+            Back to {plannedExerciseName}
+          </button>
+        )}
+
+        <div>
+          <p className="text-xs text-zinc-500 mb-2 px-1">
+            Tap equipment that's taken
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {EQUIPMENT.map((equipment) => (
+              <button
+                key={equipment}
+                onClick={() => toggleEquipment(equipment)}
+                className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+                  unavailable.has(equipment)
+                    ? 'bg-zinc-900 text-zinc-600 line-through'
+                    : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-white'
+                }`}
+              >
+                {equipmentConfig[equipment].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : options.length === 0 ? (
+          <p className="py-8 text-center text-sm text-zinc-500">
+            No equivalent exercises with the free equipment
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {options.map(({ exercise, isAlternate }) => (
+              <div key={exercise.id}>
+                {isAlternate && (
+                  <p className="text-xs text-blue-400 mb-1 px-1">
+                    Plan alternate
+                  </p>
+                )}
+                <ExerciseCard
+                  exercise={exercise}
+                  onPress={() => !isSubmitting && handleSelect(exercise)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Modal>
+  )
+}
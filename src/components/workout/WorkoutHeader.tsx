@@ -1,12 +1,18 @@
 import { useEffect, useState } from 'react'
 import { ArrowLeft, Check } from 'lucide-react'
+import { getElapsedSeconds } from '@/lib/session-activity'
 
 interface WorkoutHeaderProps {
   startedAt: Date
+  // Set when the session was resumed after an auto-close
+  resumedAt?: Date | null
+  bankedSeconds?: number | null
   onBack: () => void
   onFinish: () => void
   planName?: string
   dayName?: string
+  // e.g. "Week 2 of 5 · +1 set" when the plan runs in training blocks
+  weekLabel?: string
 }
 
 function formatDuration(seconds: number): string {
@@ -22,17 +28,24 @@ function formatDuration(seconds: number): string {
 
 export default function WorkoutHeader({
   startedAt,
+  resumedAt,
+  bankedSeconds,
   onBack,
   onFinish,
   planName,
   dayName,
+  weekLabel,
 }: WorkoutHeaderProps) {
   const [elapsedSeconds, setElapsedSeconds] = useState<number | null>(null)
 
   useEffect(() => {
     // Calculate initial elapsed time
     const calculateElapsed = () => {
-      return Math.floor((Date.now() - new Date(startedAt).getTime()) / 1000)
+      return getElapsedSeconds({
+        startedAt,
+        resumedAt,
+        durationSeconds: bankedSeconds,
+      })
     }
 
     setElapsedSeconds(calculateElapsed())
@@ -43,7 +56,7 @@ export default function WorkoutHeader({
     }, 1000)
 
     return () => clearInterval(interval)
-  }, [startedAt])
+  }, [startedAt, resumedAt, bankedSeconds])
 
   return (
     <header className="sticky top-0 z-40 bg-zinc-900/95 backdrop-blur-md border-b border-zinc-800 safe-area-pt">
@@ -68,6 +81,9 @@ export default function WorkoutHeader({
           <p className="text-lg font-mono font-semibold text-white">
             {elapsedSeconds !== null ? formatDuration(elapsedSeconds) : '0:00'}
           </p>
+          {weekLabel && (
+            <p className="text-xs text-blue-400 truncate">{weekLabel}</p>
+          )}
         </div>
 
         {/* Finish button */}
@@ -1,10 +1,24 @@
-import { Flame, Trash2, TrendingDown } from 'lucide-react'
+import { Flame, Heart, Trash2, TrendingDown } from 'lucide-react'
+import type { DistanceUnit, WeightUnit } from '@prisma/client'
+import { formatPace, formatSetWeight } from '@/lib/formatting'
+import {
+  DISTANCE_UNIT_LABELS,
+  calculatePace,
+  normalizeToMeters,
+} from '@/lib/cardio'
 
 interface WorkoutSetRowProps {
   setNumber: number
   reps?: number | null
   timeSeconds?: number | null
   weight?: number | null
+  // Unit the set was logged in, and the unit to display it in
+  weightUnit: WeightUnit
+  displayUnit: WeightUnit
+  // Cardio distance, shown in the unit it was logged in
+  distance?: number | null
+  distanceUnit?: DistanceUnit
+  avgHeartRate?: number | null
   rpe?: number | null
   isWarmup?: boolean
   isDropset?: boolean
@@ -16,6 +30,11 @@ export default function WorkoutSetRow({
   reps,
   timeSeconds,
   weight,
+  weightUnit,
+  displayUnit,
+  distance,
+  distanceUnit = 'KM',
+  avgHeartRate,
   rpe,
   isWarmup = false,
   isDropset = false,
@@ -27,6 +46,15 @@ export default function WorkoutSetRow({
     return `${mins}:${secs.toString().padStart(2, '0')}`
   }
 
+  const pace =
+    distance != null && timeSeconds != null
+      ? calculatePace(
+          normalizeToMeters(distance, distanceUnit),
+          timeSeconds,
+          distanceUnit,
+        )
+      : null
+
   return (
     <div className="flex items-center gap-3 py-2 px-3 bg-zinc-800/50 rounded-lg">
       {/* Set number */}
@@ -35,10 +63,20 @@ export default function WorkoutSetRow({
       </div>
 
       {/* Set details */}
-      <div className="flex-1 flex items-center gap-3">
+      <div className="flex-1 flex flex-wrap items-center gap-x-3 gap-y-1">
+        {/* Distance */}
+        {distance != null && distance > 0 && (
+          <span className="text-white font-medium">
+            {distance}
+            {DISTANCE_UNIT_LABELS[distanceUnit]}
+          </span>
+        )}
+
         {/* Weight */}
         {weight != null && weight > 0 && (
-          <span className="text-white font-medium">{weight} kg</span>
+          <span className="text-white font-medium">
+            {formatSetWeight(weight, weightUnit, displayUnit)}
+          </span>
         )}
 
         {/* Reps or Time */}
@@ -46,6 +84,19 @@ export default function WorkoutSetRow({
         {timeSeconds != null && (
           <span className="text-zinc-400">{formatTime(timeSeconds)}</span>
         )}
+        {pace !== null && (
+          <span className="text-xs text-zinc-500">
+            {formatPace(pace, distanceUnit)}
+          </span>
+        )}
+
+        {/* Heart rate */}
+        {avgHeartRate != null && (
+          <span className="flex items-center gap-1 text-xs px-2 py-0.5 bg-red-600/20 rounded-full text-red-400">
+            <Heart className="w-3 h-3" />
+            {avgHeartRate}
+          </span>
+        )}
 
         {/* RPE */}
         {rpe != null && (
@@ -8,12 +8,16 @@ import {
 } from 'react'
 import { useRouter } from '@tanstack/react-router'
 import type { ReactNode } from 'react'
+import type { UserPreferences } from '@/lib/preferences'
 import {
   getCurrentUser,
   loginUser,
   logoutUser,
   registerUser,
 } from '@/lib/auth.server'
+import { DEFAULT_PREFERENCES } from '@/lib/preferences'
+import { clearOfflineData } from '@/lib/offline-queue'
+import { updatePreferences as updatePreferencesFn } from '@/lib/preferences.server'
 
 const TOKEN_KEY = 'gymlink_auth_token'
 
@@ -22,7 +26,7 @@ export interface User {
   email: string
   name: string
   isAdmin?: boolean
-  preferences?: Record<string, unknown>
+  preferences?: UserPreferences
 }
 
 interface AuthContextType {
@@ -31,10 +35,12 @@ interface AuthContextType {
   isLoading: boolean
   isInitializing: boolean
   error: string | null
+  preferences: UserPreferences
   login: (email: string, password: string) => Promise<void>
   register: (email: string, password: string, name: string) => Promise<void>
   logout: () => Promise<void>
   refreshUser: () => Promise<void>
+  updatePreferences: (changes: Partial<UserPreferences>) => Promise<void>
   clearError: () => void
 }
 
@@ -151,6 +157,7 @@ export function AuthProvider({
     try {
       await logoutUser()
       removeStoredToken()
+      clearOfflineData()
       setToken(null)
       setUser(null)
       router.navigate({ to: '/' })
@@ -161,6 +168,37 @@ export function AuthProvider({
     }
   }, [router])
 
+  // Apply locally first so the whole UI switches immediately, then persist
+  const updatePreferences = useCallback(
+    async (changes: Partial<UserPreferences>) => {
+      const previous = user?.preferences
+      setUser((u) =>
+        u
+          ? {
+              ...u,
+              preferences: {
+                ...DEFAULT_PREFERENCES,
+                ...u.preferences,
+                ...changes,
+              },
+            }
+          : u,
+      )
+      try {
+        const result = await updatePreferencesFn({
+          data: { token, ...changes },
+        })
+        setUser((u) => (u ? { ...u, preferences: result.preferences } : u))
+      } catch (err) {
+        setUser((u) => (u ? { ...u, preferences: previous } : u))
+        throw err
+      }
+    },
+    [user, token],
+  )
+
+  const preferences = user?.preferences ?? DEFAULT_PREFERENCES
+
   const value = useMemo(
     () => ({
       user,
@@ -168,10 +206,12 @@ export function AuthProvider({
       isLoading,
       isInitializing,
       error,
+      preferences,
       login,
       register,
       logout,
       refreshUser,
+      updatePreferences,
       clearError,
     }),
     [
@@ -180,10 +220,12 @@ export function AuthProvider({
       isLoading,
       isInitializing,
       error,
+      preferences,
       login,
       register,
       logout,
       refreshUser,
+      updatePreferences,
       clearError,
     ],
   )
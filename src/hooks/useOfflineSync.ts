@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { QueuedSetOperation } from '@/lib/offline-queue'
+import {
+  dropSetOperations,
+  enqueueOperation,
+  isNetworkError,
+  loadQueue,
+  saveQueue,
+} from '@/lib/offline-queue'
+import {
+  deleteWorkoutSet,
+  logWorkoutSet,
+  updateWorkoutSet,
+} from '@/lib/workouts.server'
+
+export type LoggedSetResult = Awaited<ReturnType<typeof logWorkoutSet>>
+
+export interface SyncResult {
+  synced: number
+  // Operations the server rejected; they are dropped from the queue
+  conflicts: Array<string>
+  // Sets the server logged during this sync, carrying their PR results
+  loggedSets: Array<LoggedSetResult>
+  // Operations still waiting for a connection
+  pending: number
+}
+
+// Queue changes and replays run one at a time across every mounted page,
+// so an edit never races the request that is sending the set it changes
+let queueLock: Promise<unknown> = Promise.resolve()
+
+function withQueueLock<T>(task: () => Promise<T> | T): Promise<T> {
+  const run = queueLock.then(task)
+  queueLock = run.catch(() => undefined)
+  return run
+}
+
+async function sendOperation(
+  op: QueuedSetOperation,
+  token: string | null,
+  result: SyncResult,
+): Promise<void> {
+  if (op.kind === 'log') {
+    const logged = await logWorkoutSet({
+      data: {
+        ...op.payload,
+        id: op.setId,
+        completedAt: op.queuedAt,
+        token,
+      },
+    })
+    result.loggedSets.push(logged)
+  } else if (op.kind === 'update') {
+    await updateWorkoutSet({ data: { ...op.payload, id: op.setId, token } })
+  } else {
+    try {
+      await deleteWorkoutSet({ data: { id: op.setId, token } })
+    } catch (error) {
+      // Already gone, which is what the delete wanted
+      if (error instanceof Error && error.message === 'Set not found') return
+      throw error
+    }
+  }
+}
+
+/** Send queued operations in order until the queue is empty or the network drops. */
+async function replayQueue(
+  token: string | null,
+  userId: string,
+): Promise<SyncResult> {
+  const result: SyncResult = {
+    synced: 0,
+    conflicts: [],
+    loggedSets: [],
+    pending: 0,
+  }
+
+  let queue = loadQueue(userId)
+  while (queue.length > 0) {
+    const [op] = queue
+    try {
+      await sendOperation(op, token, result)
+      queue = queue.slice(1)
+      result.synced++
+    } catch (error) {
+      if (isNetworkError(error)) break
+      // The server will never accept it, nor anything queued after it for that set
+      queue = dropSetOperations(queue, op.setId)
+      result.conflicts.push(
+        error instanceof Error ? error.message : 'Failed to sync set',
+      )
+    }
+    saveQueue(userId, queue)
+  }
+
+  result.pending = queue.length
+  return result
+}
+
+/**
+ * Offline-first set logging: changes are queued locally, per user, and
+ * replayed to the server whenever a connection is available. `onSync`
+ * receives the outcome of every replay that sent something, including ones
+ * started by the connection coming back.
+ */
+export function useOfflineSync(
+  token: string | null,
+  userId: string | null,
+  onSync?: (result: SyncResult) => void,
+) {
+  const [pendingCount, setPendingCount] = useState(0)
+  const [isOnline, setIsOnline] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+
+  const onSyncRef = useRef(onSync)
+  onSyncRef.current = onSync
+
+  const sync = useCallback(async (): Promise<SyncResult> => {
+    if (!userId) {
+      return { synced: 0, conflicts: [], loggedSets: [], pending: 0 }
+    }
+    setIsSyncing(true)
+    try {
+      const result = await withQueueLock(() => replayQueue(token, userId))
+      setPendingCount(result.pending)
+      if (result.synced > 0 || result.conflicts.length > 0) {
+        onSyncRef.current?.(result)
+      }
+      return result
+    } finally {
+      setIsSyncing(false)
+    }
+  }, [token, userId])
+
+  const enqueue = useCallback(
+    async (op: QueuedSetOperation) => {
+      if (!userId) throw new Error('Authentication required')
+      const queue = await withQueueLock(() => {
+        const next = enqueueOperation(loadQueue(userId), op)
+        saveQueue(userId, next)
+        return next
+      })
+      setPendingCount(queue.length)
+    },
+    [userId],
+  )
+
+  useEffect(() => {
+    setPendingCount(userId ? loadQueue(userId).length : 0)
+    setIsOnline(navigator.onLine)
+
+    const handleOnline = () => {
+      setIsOnline(true)
+      sync().catch(console.error)
+    }
+    const handleOffline = () => setIsOnline(false)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [sync, userId])
+
+  return { pendingCount, isOnline, isSyncing, enqueue, sync }
+}
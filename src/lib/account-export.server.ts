@@ -0,0 +1,135 @@
+import { createServerFn } from '@tanstack/react-start'
+import { prisma } from './db.server'
+import { requireAuth } from './auth-guard.server'
+import { parsePreferences } from './preferences'
+import { getPhotoFileName } from './progress-photos'
+import { rateLimit } from './rate-limit.server'
+import type { PhotoMimeType } from './progress-photos'
+
+// Export everything the user has logged, as one JSON document they can keep.
+// Progress photos are listed rather than embedded, since a full library runs
+// to gigabytes; each image is fetched on its own with getProgressPhoto and
+// saved under the listed file name.
+export const exportAccountData = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token: string | null }) => data)
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'account-export', limit: 3, windowMs: 3600_000 })
+    const { userId } = await requireAuth(data.token)
+
+    const [
+      user,
+      profile,
+      workouts,
+      personalRecords,
+      bodyweight,
+      measurements,
+      photos,
+    ] = await Promise.all([
+      prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { email: true, name: true, preferences: true, createdAt: true },
+      }),
+      prisma.userProfile.findUnique({
+        where: { userId },
+        select: {
+          username: true,
+          bio: true,
+          avatarUrl: true,
+          isPrivate: true,
+          showAchievements: true,
+          showStats: true,
+          createdAt: true,
+        },
+      }),
+      prisma.workoutSession.findMany({
+        where: { userId },
+        orderBy: { startedAt: 'asc' },
+        select: {
+          startedAt: true,
+          completedAt: true,
+          durationSeconds: true,
+          notes: true,
+          moodRating: true,
+          workoutPlan: { select: { name: true } },
+          workoutSets: {
+            orderBy: { completedAt: 'asc' },
+            select: {
+              setNumber: true,
+              reps: true,
+              timeSeconds: true,
+              weight: true,
+              weightUnit: true,
+              distance: true,
+              distanceUnit: true,
+              avgHeartRate: true,
+              maxHeartRate: true,
+              level: true,
+              calories: true,
+              isWarmup: true,
+              isDropset: true,
+              rpe: true,
+              notes: true,
+              completedAt: true,
+              exercise: { select: { name: true } },
+            },
+          },
+        },
+      }),
+      prisma.personalRecord.findMany({
+        where: { userId },
+        orderBy: { achievedAt: 'asc' },
+        select: {
+          recordType: true,
+          value: true,
+          previousRecord: true,
+          achievedAt: true,
+          exercise: { select: { name: true } },
+        },
+      }),
+      prisma.bodyweightEntry.findMany({
+        where: { userId },
+        orderBy: { recordedAt: 'asc' },
+        select: { weight: true, recordedAt: true },
+      }),
+      prisma.bodyMeasurement.findMany({
+        where: { userId },
+        orderBy: { recordedAt: 'asc' },
+        select: { site: true, value: true, recordedAt: true },
+      }),
+      prisma.progressPhoto.findMany({
+        where: { userId },
+        orderBy: { takenAt: 'asc' },
+        select: {
+          id: true,
+          mimeType: true,
+          sizeBytes: true,
+          notes: true,
+          takenAt: true,
+        },
+      }),
+    ])
+
+    return {
+      exportedAt: new Date(),
+      account: { ...user, preferences: parsePreferences(user.preferences) },
+      profile,
+      workouts: workouts.map(({ workoutPlan, workoutSets, ...session }) => ({
+        ...session,
+        plan: workoutPlan?.name ?? null,
+        sets: workoutSets.map(({ exercise, ...set }) => ({
+          ...set,
+          exercise: exercise.name,
+        })),
+      })),
+      personalRecords: personalRecords.map(({ exercise, ...record }) => ({
+        ...record,
+        exercise: exercise.name,
+      })),
+      bodyweight, // kg
+      measurements, // cm
+      progressPhotos: photos.map((photo) => ({
+        ...photo,
+        fileName: getPhotoFileName(photo.id, photo.mimeType as PhotoMimeType),
+      })),
+    }
+  })
@@ -0,0 +1,262 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  enqueueAchievementBackfill,
+  processPendingBackfills,
+} from './achievement-backfill.server'
+import {
+  getAchievementStats,
+  getHistoricalEarnedAt,
+} from './achievement-stats.server'
+import { mockPrisma } from '@/test/setup'
+
+vi.mock('./achievement-stats.server', () => ({
+  getAchievementStats: vi.fn(),
+  getHistoricalEarnedAt: vi.fn(),
+  getReferencedExerciseIds: vi.fn(() => []),
+}))
+
+const achievement = {
+  id: 'ach-1',
+  code: 'WORKOUTS_5',
+  name: 'Getting Started',
+  description: 'Complete 5 workouts',
+  category: 'MILESTONE',
+  rarity: 'COMMON',
+  icon: 'dumbbell',
+  threshold: 5,
+  sortOrder: 0,
+  isHidden: false,
+  exerciseId: null,
+  muscleGroup: null,
+  exerciseMetric: null,
+  createdAt: new Date('2025-01-01'),
+}
+
+function statsWithWorkouts(totalWorkouts: number) {
+  return {
+    totalWorkouts,
+    totalPRs: 0,
+    totalVolume: 0,
+    currentStreak: 0,
+    consistencyWeeks: 0,
+    muscleGroupSets: {},
+    exerciseStats: {},
+  }
+}
+
+describe('enqueueAchievementBackfill', () => {
+  it('reuses a job that is still pending', async () => {
+    const pending = { id: 'job-1', status: 'PENDING' }
+    mockPrisma.achievementBackfill.findFirst.mockResolvedValue(pending as any)
+
+    const result = await enqueueAchievementBackfill('ach-1')
+
+    expect(result).toBe(pending)
+    expect(mockPrisma.achievementBackfill.create).not.toHaveBeenCalled()
+  })
+
+  it('creates a job when none is pending', async () => {
+    mockPrisma.achievementBackfill.findFirst.mockResolvedValue(null)
+    mockPrisma.achievementBackfill.create.mockResolvedValue({
+      id: 'job-2',
+    } as any)
+
+    await enqueueAchievementBackfill('ach-1')
+
+    expect(mockPrisma.achievementBackfill.create).toHaveBeenCalledWith({
+      data: { achievementId: 'ach-1' },
+    })
+  })
+})
+
+describe('processPendingBackfills', () => {
+  beforeEach(() => {
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma))
+    mockPrisma.achievementBackfill.findFirst
+      .mockResolvedValueOnce({ id: 'job-1' } as any)
+      .mockResolvedValueOnce(null)
+  })
+
+  it('awards qualifying users with their historical earn date', async () => {
+    const earnedAt = new Date('2024-06-01T10:00:00Z')
+    mockPrisma.achievementBackfill.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.achievementBackfill.findUniqueOrThrow.mockResolvedValue({
+      id: 'job-1',
+      achievement,
+    } as any)
+    mockPrisma.user.findMany
+      .mockResolvedValueOnce([
+        { id: 'u1', userAchievements: [] },
+        { id: 'u2', userAchievements: [] },
+      ] as any)
+      .mockResolvedValueOnce([])
+    vi.mocked(getAchievementStats)
+      .mockResolvedValueOnce(statsWithWorkouts(8))
+      .mockResolvedValueOnce(statsWithWorkouts(2))
+    vi.mocked(getHistoricalEarnedAt).mockResolvedValue(earnedAt)
+    mockPrisma.userAchievement.findUnique.mockResolvedValue(null)
+    mockPrisma.userAchievement.create.mockResolvedValue({ id: 'ua-1' } as any)
+
+    const ran = await processPendingBackfills()
+
+    expect(ran).toBe(1)
+    expect(mockPrisma.userAchievement.create).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.userAchievement.create).toHaveBeenCalledWith({
+      data: {
+        userId: 'u1',
+        achievementId: 'ach-1',
+        earnedAt,
+        notified: false,
+      },
+    })
+    expect(mockPrisma.activityFeedItem.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          referenceId: 'ua-1',
+          createdAt: earnedAt,
+        }),
+      }),
+    )
+    expect(mockPrisma.achievementBackfill.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: { usersProcessed: 2, usersAwarded: 1, usersRevoked: 0 },
+    })
+    expect(mockPrisma.achievementBackfill.update).toHaveBeenLastCalledWith({
+      where: { id: 'job-1' },
+      data: { status: 'COMPLETED', completedAt: expect.any(Date) },
+    })
+  })
+
+  it('pages through users after the last id of each batch', async () => {
+    mockPrisma.achievementBackfill.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.achievementBackfill.findUniqueOrThrow.mockResolvedValue({
+      id: 'job-1',
+      achievement,
+    } as any)
+    mockPrisma.user.findMany
+      .mockResolvedValueOnce([{ id: 'u1', userAchievements: [] }] as any)
+      .mockResolvedValueOnce([])
+    vi.mocked(getAchievementStats).mockResolvedValue(statsWithWorkouts(0))
+
+    await processPendingBackfills()
+
+    const secondQuery = mockPrisma.user.findMany.mock.calls[1][0] as any
+    expect(secondQuery.where.id).toEqual({ gt: 'u1' })
+  })
+
+  it('falls back to now when the earn date cannot be determined', async () => {
+    mockPrisma.achievementBackfill.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.achievementBackfill.findUniqueOrThrow.mockResolvedValue({
+      id: 'job-1',
+      achievement,
+    } as any)
+    mockPrisma.user.findMany
+      .mockResolvedValueOnce([{ id: 'u1', userAchievements: [] }] as any)
+      .mockResolvedValueOnce([])
+    vi.mocked(getAchievementStats).mockResolvedValue(statsWithWorkouts(5))
+    vi.mocked(getHistoricalEarnedAt).mockResolvedValue(null)
+    mockPrisma.userAchievement.findUnique.mockResolvedValue(null)
+    mockPrisma.userAchievement.create.mockResolvedValue({ id: 'ua-1' } as any)
+
+    await processPendingBackfills()
+
+    const { data } = mockPrisma.userAchievement.create.mock.calls[0][0] as any
+    expect(data.earnedAt).toBeInstanceOf(Date)
+  })
+
+  it('revokes the award from holders who no longer qualify', async () => {
+    mockPrisma.achievementBackfill.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.achievementBackfill.findUniqueOrThrow.mockResolvedValue({
+      id: 'job-1',
+      achievement,
+    } as any)
+    mockPrisma.user.findMany
+      .mockResolvedValueOnce([
+        { id: 'u1', userAchievements: [{ id: 'ua-1' }] },
+        { id: 'u2', userAchievements: [{ id: 'ua-2' }] },
+      ] as any)
+      .mockResolvedValueOnce([])
+    vi.mocked(getAchievementStats)
+      .mockResolvedValueOnce(statsWithWorkouts(3))
+      .mockResolvedValueOnce(statsWithWorkouts(6))
+    mockPrisma.userAchievement.deleteMany.mockResolvedValue({ count: 1 })
+
+    await processPendingBackfills()
+
+    expect(mockPrisma.userAchievement.deleteMany).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.userAchievement.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'ua-1' },
+    })
+    expect(mockPrisma.activityFeedItem.deleteMany).toHaveBeenCalledWith({
+      where: { activityType: 'ACHIEVEMENT_EARNED', referenceId: 'ua-1' },
+    })
+    expect(mockPrisma.userAchievement.create).not.toHaveBeenCalled()
+    expect(mockPrisma.achievementBackfill.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: { usersProcessed: 2, usersAwarded: 0, usersRevoked: 1 },
+    })
+  })
+
+  it('keeps streak awards after the streak lapses', async () => {
+    mockPrisma.achievementBackfill.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.achievementBackfill.findUniqueOrThrow.mockResolvedValue({
+      id: 'job-1',
+      achievement: { ...achievement, category: 'STREAK' },
+    } as any)
+    mockPrisma.user.findMany
+      .mockResolvedValueOnce([
+        { id: 'u1', userAchievements: [{ id: 'ua-1' }] },
+      ] as any)
+      .mockResolvedValueOnce([])
+    vi.mocked(getAchievementStats).mockResolvedValue(statsWithWorkouts(0))
+
+    await processPendingBackfills()
+
+    expect(mockPrisma.userAchievement.deleteMany).not.toHaveBeenCalled()
+    expect(mockPrisma.activityFeedItem.deleteMany).not.toHaveBeenCalled()
+  })
+
+  it('requeues jobs left running past the timeout', async () => {
+    vi.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') })
+    mockPrisma.achievementBackfill.updateMany.mockResolvedValue({ count: 0 })
+
+    await processPendingBackfills()
+    vi.useRealTimers()
+
+    expect(mockPrisma.achievementBackfill.updateMany).toHaveBeenCalledWith({
+      where: {
+        status: 'RUNNING',
+        startedAt: { lt: new Date('2026-10-19T11:00:00Z') },
+      },
+      data: { status: 'PENDING', startedAt: null },
+    })
+  })
+
+  it('does not run a job another sweep already claimed', async () => {
+    mockPrisma.achievementBackfill.updateMany.mockResolvedValue({ count: 0 })
+
+    const ran = await processPendingBackfills()
+
+    expect(ran).toBe(0)
+    expect(mockPrisma.user.findMany).not.toHaveBeenCalled()
+  })
+
+  it('marks the job failed when evaluation throws', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockPrisma.achievementBackfill.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.achievementBackfill.findUniqueOrThrow.mockRejectedValue(
+      new Error('boom'),
+    )
+
+    await processPendingBackfills()
+
+    expect(mockPrisma.achievementBackfill.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: {
+        status: 'FAILED',
+        completedAt: expect.any(Date),
+        error: 'boom',
+      },
+    })
+  })
+})
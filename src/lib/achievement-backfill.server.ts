@@ -0,0 +1,250 @@
+import { prisma } from './db.server'
+import {
+  ACHIEVEMENT_BACKFILL_BATCH_SIZE,
+  ACHIEVEMENT_BACKFILL_INTERVAL_MS,
+  ACHIEVEMENT_BACKFILL_TIMEOUT_MS,
+} from './constants'
+import { isAchievementEarned, isAchievementRevoked } from './achievement-rules'
+import {
+  getAchievementStats,
+  getHistoricalEarnedAt,
+  getReferencedExerciseIds,
+} from './achievement-stats.server'
+import type { Achievement } from '@prisma/client'
+
+declare global {
+  var achievementBackfillTimer: ReturnType<typeof setInterval> | undefined
+}
+
+/**
+ * Queue a backfill of one achievement across all users. A job that is still
+ * waiting is reused so repeated edits don't stack duplicate work.
+ */
+export async function enqueueAchievementBackfill(achievementId: string) {
+  const pending = await prisma.achievementBackfill.findFirst({
+    where: { achievementId, status: 'PENDING' },
+  })
+  if (pending) return pending
+
+  return prisma.achievementBackfill.create({
+    data: { achievementId },
+  })
+}
+
+/** What re-evaluating one user changed. */
+type BackfillOutcome = 'awarded' | 'revoked' | null
+
+/**
+ * Award the achievement to a user who already qualifies, dated to when they
+ * first met the threshold where history allows.
+ */
+async function awardUser(
+  userId: string,
+  achievement: Achievement,
+): Promise<BackfillOutcome> {
+  const earnedAt =
+    (await getHistoricalEarnedAt(userId, achievement)) ?? new Date()
+
+  return prisma.$transaction(async (tx) => {
+    // A workout may have awarded it since this batch was loaded
+    const existing = await tx.userAchievement.findUnique({
+      where: {
+        userId_achievementId: { userId, achievementId: achievement.id },
+      },
+    })
+    if (existing) return null
+
+    const userAchievement = await tx.userAchievement.create({
+      data: {
+        userId,
+        achievementId: achievement.id,
+        earnedAt,
+        notified: false,
+      },
+    })
+
+    await tx.activityFeedItem.create({
+      data: {
+        userId,
+        activityType: 'ACHIEVEMENT_EARNED',
+        referenceId: userAchievement.id,
+        metadata: {
+          achievementName: achievement.name,
+          achievementIcon: achievement.icon,
+          achievementRarity: achievement.rarity,
+        },
+        // Keep backfilled awards in their place in the feed timeline
+        createdAt: earnedAt,
+      },
+    })
+
+    return 'awarded'
+  })
+}
+
+/** Take back an award along with the feed entry that announced it. */
+async function revokeUser(userAchievementId: string): Promise<BackfillOutcome> {
+  return prisma.$transaction(async (tx) => {
+    await tx.activityFeedItem.deleteMany({
+      where: {
+        activityType: 'ACHIEVEMENT_EARNED',
+        referenceId: userAchievementId,
+      },
+    })
+    // deleteMany so an award removed since this batch was loaded is a no-op
+    const { count } = await tx.userAchievement.deleteMany({
+      where: { id: userAchievementId },
+    })
+    return count > 0 ? 'revoked' : null
+  })
+}
+
+/**
+ * Re-evaluate the achievement for one user: award it if they now qualify, or
+ * revoke it if they hold it but no longer meet the rule.
+ */
+async function backfillUser(
+  userId: string,
+  heldId: string | undefined,
+  achievement: Achievement,
+  exerciseIds: Array<string>,
+): Promise<BackfillOutcome> {
+  const stats = await getAchievementStats(userId, exerciseIds)
+
+  if (heldId) {
+    return isAchievementRevoked(achievement, stats) ? revokeUser(heldId) : null
+  }
+  return isAchievementEarned(achievement, stats)
+    ? awardUser(userId, achievement)
+    : null
+}
+
+/**
+ * Re-evaluate a claimed job's achievement for every active user, in batches,
+ * recording progress on the job as it goes. Users who qualify are awarded it
+ * and holders who no longer meet the rule (say after deleting sets) lose it.
+ */
+async function runAchievementBackfill(backfillId: string): Promise<void> {
+  try {
+    const { achievement } = await prisma.achievementBackfill.findUniqueOrThrow({
+      where: { id: backfillId },
+      include: { achievement: true },
+    })
+    const exerciseIds = getReferencedExerciseIds([achievement])
+
+    let usersProcessed = 0
+    let usersAwarded = 0
+    let usersRevoked = 0
+    let lastUserId: string | undefined
+
+    for (;;) {
+      const users = await prisma.user.findMany({
+        where: {
+          ...(lastUserId && { id: { gt: lastUserId } }),
+          deletedAt: null,
+          OR: [
+            // Every rule needs at least one completed workout to qualify
+            { workoutSessions: { some: { completedAt: { not: null } } } },
+            { userAchievements: { some: { achievementId: achievement.id } } },
+          ],
+        },
+        select: {
+          id: true,
+          userAchievements: {
+            where: { achievementId: achievement.id },
+            select: { id: true },
+          },
+        },
+        orderBy: { id: 'asc' },
+        take: ACHIEVEMENT_BACKFILL_BATCH_SIZE,
+      })
+      if (users.length === 0) break
+
+      for (const user of users) {
+        const outcome = await backfillUser(
+          user.id,
+          user.userAchievements[0]?.id,
+          achievement,
+          exerciseIds,
+        )
+        if (outcome === 'awarded') usersAwarded++
+        if (outcome === 'revoked') usersRevoked++
+      }
+      usersProcessed += users.length
+      lastUserId = users[users.length - 1].id
+
+      await prisma.achievementBackfill.update({
+        where: { id: backfillId },
+        data: { usersProcessed, usersAwarded, usersRevoked },
+      })
+    }
+
+    await prisma.achievementBackfill.update({
+      where: { id: backfillId },
+      data: { status: 'COMPLETED', completedAt: new Date() },
+    })
+  } catch (error) {
+    console.error('Achievement backfill failed:', error)
+    await prisma.achievementBackfill.update({
+      where: { id: backfillId },
+      data: {
+        status: 'FAILED',
+        completedAt: new Date(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    })
+  }
+}
+
+/**
+ * Run queued backfills oldest first until none are pending, first requeueing
+ * jobs whose worker died mid-run. Returns the number of jobs this call ran.
+ */
+export async function processPendingBackfills(): Promise<number> {
+  let ran = 0
+
+  // Running a job again is safe: users already awarded or revoked are skipped
+  await prisma.achievementBackfill.updateMany({
+    where: {
+      status: 'RUNNING',
+      startedAt: { lt: new Date(Date.now() - ACHIEVEMENT_BACKFILL_TIMEOUT_MS) },
+    },
+    data: { status: 'PENDING', startedAt: null },
+  })
+
+  for (;;) {
+    const next = await prisma.achievementBackfill.findFirst({
+      where: { status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    })
+    if (!next) return ran
+
+    // Conditional claim so concurrent sweeps never run the same job
+    const { count } = await prisma.achievementBackfill.updateMany({
+      where: { id: next.id, status: 'PENDING' },
+      data: { status: 'RUNNING', startedAt: new Date() },
+    })
+    if (count === 0) continue
+
+    await runAchievementBackfill(next.id)
+    ran++
+  }
+}
+
+function runScheduledSweep() {
+  processPendingBackfills().catch((error: unknown) => {
+    console.error('Achievement backfill sweep failed:', error)
+  })
+}
+
+/** Start one queue worker per server process (the global survives dev reloads) */
+export function startAchievementBackfillWorker() {
+  if (globalThis.achievementBackfillTimer) return
+  globalThis.achievementBackfillTimer = setInterval(
+    runScheduledSweep,
+    ACHIEVEMENT_BACKFILL_INTERVAL_MS,
+  )
+  globalThis.achievementBackfillTimer.unref()
+  runScheduledSweep()
+}
@@ -0,0 +1,392 @@
+import { describe, expect, it } from 'vitest'
+import {
+  canRuleChangeAwardMore,
+  getAchievementProgress,
+  getAchievementUnit,
+  getAchievementValue,
+  getExerciseAchievementValue,
+  getProgressRatio,
+  isAchievementEarned,
+  isAchievementRevoked,
+  normalizeAchievementRule,
+} from './achievement-rules'
+import type { AchievementStats } from './achievement-rules'
+
+describe('achievement rules', () => {
+  const stats: AchievementStats = {
+    totalWorkouts: 12,
+    totalPRs: 7,
+    totalVolume: 15000,
+    currentStreak: 4,
+    consistencyWeeks: 3,
+    muscleGroupSets: { CHEST: 40, BACK: 55 },
+    exerciseStats: {
+      bench: {
+        maxWeight: 102.5,
+        totalReps: 480,
+        totalSets: 60,
+        totalVolume: 36000,
+      },
+    },
+  }
+
+  describe('getAchievementValue', () => {
+    it('uses total workouts for MILESTONE', () => {
+      expect(
+        getAchievementValue({ category: 'MILESTONE', threshold: 10 }, stats),
+      ).toBe(12)
+    })
+
+    it('uses current weekly streak for STREAK', () => {
+      expect(
+        getAchievementValue({ category: 'STREAK', threshold: 4 }, stats),
+      ).toBe(4)
+    })
+
+    it('uses PR count for PERSONAL_RECORD', () => {
+      expect(
+        getAchievementValue(
+          { category: 'PERSONAL_RECORD', threshold: 5 },
+          stats,
+        ),
+      ).toBe(7)
+    })
+
+    it('uses total volume for VOLUME', () => {
+      expect(
+        getAchievementValue({ category: 'VOLUME', threshold: 10000 }, stats),
+      ).toBe(15000)
+    })
+
+    it('uses consistent weeks for CONSISTENCY', () => {
+      expect(
+        getAchievementValue({ category: 'CONSISTENCY', threshold: 4 }, stats),
+      ).toBe(3)
+    })
+
+    it('uses the configured muscle group for MUSCLE_FOCUS', () => {
+      expect(
+        getAchievementValue(
+          { category: 'MUSCLE_FOCUS', threshold: 50, muscleGroup: 'BACK' },
+          stats,
+        ),
+      ).toBe(55)
+    })
+
+    it('treats an untrained muscle group as zero sets', () => {
+      expect(
+        getAchievementValue(
+          { category: 'MUSCLE_FOCUS', threshold: 50, muscleGroup: 'LEGS' },
+          stats,
+        ),
+      ).toBe(0)
+    })
+
+    it('sums all muscle groups when MUSCLE_FOCUS has no muscle group', () => {
+      expect(
+        getAchievementValue(
+          { category: 'MUSCLE_FOCUS', threshold: 50, muscleGroup: null },
+          stats,
+        ),
+      ).toBe(95)
+    })
+
+    it('uses the configured metric of the linked exercise for EXERCISE_SPECIFIC', () => {
+      const rule = {
+        category: 'EXERCISE_SPECIFIC' as const,
+        threshold: 100,
+        exerciseId: 'bench',
+      }
+      expect(
+        getAchievementValue({ ...rule, exerciseMetric: 'MAX_WEIGHT' }, stats),
+      ).toBe(102.5)
+      expect(
+        getAchievementValue({ ...rule, exerciseMetric: 'TOTAL_REPS' }, stats),
+      ).toBe(480)
+      expect(
+        getAchievementValue({ ...rule, exerciseMetric: 'TOTAL_SETS' }, stats),
+      ).toBe(60)
+      expect(
+        getAchievementValue({ ...rule, exerciseMetric: 'TOTAL_VOLUME' }, stats),
+      ).toBe(36000)
+    })
+
+    it('treats an untrained exercise as zero', () => {
+      expect(
+        getAchievementValue(
+          {
+            category: 'EXERCISE_SPECIFIC',
+            threshold: 100,
+            exerciseId: 'squat',
+            exerciseMetric: 'MAX_WEIGHT',
+          },
+          stats,
+        ),
+      ).toBe(0)
+    })
+
+    it('cannot evaluate EXERCISE_SPECIFIC without an exercise or metric', () => {
+      expect(
+        getAchievementValue(
+          {
+            category: 'EXERCISE_SPECIFIC',
+            threshold: 100,
+            exerciseId: 'bench',
+          },
+          stats,
+        ),
+      ).toBeNull()
+      expect(
+        getAchievementValue(
+          {
+            category: 'EXERCISE_SPECIFIC',
+            threshold: 100,
+            exerciseId: null,
+            exerciseMetric: 'MAX_WEIGHT',
+          },
+          stats,
+        ),
+      ).toBeNull()
+    })
+  })
+
+  describe('getExerciseAchievementValue', () => {
+    it('reads the metric from the given exercise stats', () => {
+      expect(
+        getExerciseAchievementValue(
+          { exerciseMetric: 'TOTAL_SETS' },
+          stats.exerciseStats.bench,
+        ),
+      ).toBe(60)
+    })
+
+    it('returns null without a metric', () => {
+      expect(
+        getExerciseAchievementValue(
+          { exerciseMetric: null },
+          stats.exerciseStats.bench,
+        ),
+      ).toBeNull()
+    })
+  })
+
+  describe('isAchievementEarned', () => {
+    it('earns when the value meets the stored threshold exactly', () => {
+      expect(
+        isAchievementEarned({ category: 'MILESTONE', threshold: 12 }, stats),
+      ).toBe(true)
+    })
+
+    it('does not earn below the threshold', () => {
+      expect(
+        isAchievementEarned({ category: 'MILESTONE', threshold: 13 }, stats),
+      ).toBe(false)
+    })
+
+    it('honours custom tiers regardless of code', () => {
+      expect(
+        isAchievementEarned({ category: 'VOLUME', threshold: 12345 }, stats),
+      ).toBe(true)
+      expect(
+        isAchievementEarned(
+          { category: 'MUSCLE_FOCUS', threshold: 40, muscleGroup: 'CHEST' },
+          stats,
+        ),
+      ).toBe(true)
+    })
+
+    it('earns exercise lift targets once the threshold is lifted', () => {
+      expect(
+        isAchievementEarned(
+          {
+            category: 'EXERCISE_SPECIFIC',
+            threshold: 100,
+            exerciseId: 'bench',
+            exerciseMetric: 'MAX_WEIGHT',
+          },
+          stats,
+        ),
+      ).toBe(true)
+      expect(
+        isAchievementEarned(
+          {
+            category: 'EXERCISE_SPECIFIC',
+            threshold: 110,
+            exerciseId: 'bench',
+            exerciseMetric: 'MAX_WEIGHT',
+          },
+          stats,
+        ),
+      ).toBe(false)
+    })
+
+    it('never earns rules that cannot be evaluated', () => {
+      expect(
+        isAchievementEarned(
+          { category: 'EXERCISE_SPECIFIC', threshold: 1, exerciseId: 'x' },
+          stats,
+        ),
+      ).toBe(false)
+    })
+  })
+
+  describe('isAchievementRevoked', () => {
+    it('revokes once the value falls below the threshold', () => {
+      expect(
+        isAchievementRevoked({ category: 'MILESTONE', threshold: 13 }, stats),
+      ).toBe(true)
+      expect(
+        isAchievementRevoked({ category: 'VOLUME', threshold: 15000 }, stats),
+      ).toBe(false)
+    })
+
+    it('keeps streak and consistency awards after the run lapses', () => {
+      expect(
+        isAchievementRevoked({ category: 'STREAK', threshold: 10 }, stats),
+      ).toBe(false)
+      expect(
+        isAchievementRevoked({ category: 'CONSISTENCY', threshold: 10 }, stats),
+      ).toBe(false)
+    })
+
+    it('never revokes rules that cannot be evaluated', () => {
+      expect(
+        isAchievementRevoked(
+          { category: 'EXERCISE_SPECIFIC', threshold: 1, exerciseId: 'x' },
+          stats,
+        ),
+      ).toBe(false)
+    })
+  })
+
+  describe('canRuleChangeAwardMore', () => {
+    const previous = {
+      category: 'MUSCLE_FOCUS' as const,
+      threshold: 50,
+      muscleGroup: 'CHEST' as const,
+    }
+
+    it('is true when the threshold is lowered', () => {
+      expect(canRuleChangeAwardMore(previous, { threshold: 40 })).toBe(true)
+    })
+
+    it('is false when the threshold is raised or unchanged', () => {
+      expect(canRuleChangeAwardMore(previous, { threshold: 60 })).toBe(false)
+      expect(canRuleChangeAwardMore(previous, { threshold: 50 })).toBe(false)
+    })
+
+    it('is true when what the rule measures changes', () => {
+      expect(canRuleChangeAwardMore(previous, { muscleGroup: 'BACK' })).toBe(
+        true,
+      )
+      expect(canRuleChangeAwardMore(previous, { category: 'VOLUME' })).toBe(
+        true,
+      )
+    })
+
+    it('ignores fields that are not being updated', () => {
+      expect(canRuleChangeAwardMore(previous, {})).toBe(false)
+    })
+  })
+
+  describe('getAchievementProgress', () => {
+    it('reports the current value against the threshold', () => {
+      expect(
+        getAchievementProgress(
+          { category: 'MUSCLE_FOCUS', threshold: 50, muscleGroup: 'CHEST' },
+          stats,
+        ),
+      ).toEqual({ current: 40, target: 50 })
+    })
+
+    it('is null for rules that cannot be evaluated', () => {
+      expect(
+        getAchievementProgress(
+          { category: 'EXERCISE_SPECIFIC', threshold: 1, exerciseId: 'x' },
+          stats,
+        ),
+      ).toBeNull()
+    })
+  })
+
+  describe('getProgressRatio', () => {
+    it('returns the fraction of the target reached', () => {
+      expect(getProgressRatio({ current: 37, target: 50 })).toBe(0.74)
+    })
+
+    it('clamps values past the target to 1', () => {
+      expect(getProgressRatio({ current: 80, target: 50 })).toBe(1)
+    })
+  })
+
+  describe('normalizeAchievementRule', () => {
+    it('requires an exercise and metric for exercise achievements', () => {
+      expect(() =>
+        normalizeAchievementRule({
+          category: 'EXERCISE_SPECIFIC',
+          threshold: 100,
+          exerciseMetric: 'MAX_WEIGHT',
+        }),
+      ).toThrow('Exercise-specific achievements require an exercise')
+      expect(() =>
+        normalizeAchievementRule({
+          category: 'EXERCISE_SPECIFIC',
+          threshold: 100,
+          exerciseId: 'bench',
+        }),
+      ).toThrow('Exercise-specific achievements require a metric')
+    })
+
+    it('rejects a threshold that is not positive', () => {
+      expect(() =>
+        normalizeAchievementRule({ category: 'MILESTONE', threshold: 0 }),
+      ).toThrow('Threshold must be a positive number')
+    })
+
+    it('clears fields the category does not use', () => {
+      expect(
+        normalizeAchievementRule({
+          category: 'MILESTONE',
+          threshold: 10,
+          muscleGroup: 'CHEST',
+          exerciseId: 'bench',
+          exerciseMetric: 'MAX_WEIGHT',
+        }),
+      ).toEqual({
+        category: 'MILESTONE',
+        threshold: 10,
+        muscleGroup: null,
+        exerciseId: null,
+        exerciseMetric: null,
+      })
+      expect(
+        normalizeAchievementRule({
+          category: 'MUSCLE_FOCUS',
+          threshold: 50,
+          muscleGroup: 'BACK',
+        }),
+      ).toMatchObject({ muscleGroup: 'BACK', exerciseId: null })
+    })
+  })
+
+  describe('getAchievementUnit', () => {
+    it('names the unit for each category', () => {
+      expect(getAchievementUnit({ category: 'MILESTONE', threshold: 1 })).toBe(
+        'workouts',
+      )
+      expect(
+        getAchievementUnit({ category: 'MUSCLE_FOCUS', threshold: 1 }),
+      ).toBe('sets')
+    })
+
+    it('follows the metric for exercise achievements', () => {
+      expect(
+        getAchievementUnit({
+          category: 'EXERCISE_SPECIFIC',
+          threshold: 1,
+          exerciseMetric: 'TOTAL_REPS',
+        }),
+      ).toBe('reps')
+    })
+  })
+})
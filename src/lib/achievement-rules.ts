@@ -0,0 +1,224 @@
+import type {
+  AchievementCategory,
+  ExerciseAchievementMetric,
+  MuscleGroup,
+} from '@prisma/client'
+
+/** Working-set totals for one exercise. Weights are in kg. */
+export interface ExerciseAchievementStats {
+  maxWeight: number
+  totalReps: number
+  totalSets: number
+  totalVolume: number
+}
+
+/** Aggregate user stats that achievement rules are evaluated against. */
+export interface AchievementStats {
+  totalWorkouts: number
+  totalPRs: number
+  totalVolume: number
+  currentStreak: number
+  consistencyWeeks: number
+  muscleGroupSets: Partial<Record<MuscleGroup, number>>
+  /** Keyed by exercise id; only loaded for exercises that rules reference. */
+  exerciseStats: Partial<Record<string, ExerciseAchievementStats>>
+}
+
+/** The stored definition fields that drive evaluation. */
+export interface AchievementRule {
+  category: AchievementCategory
+  threshold: number
+  muscleGroup?: MuscleGroup | null
+  exerciseId?: string | null
+  exerciseMetric?: ExerciseAchievementMetric | null
+}
+
+export const EXERCISE_METRIC_LABELS: Record<ExerciseAchievementMetric, string> =
+  {
+    MAX_WEIGHT: 'Heaviest weight (kg)',
+    TOTAL_REPS: 'Total reps',
+    TOTAL_SETS: 'Total sets',
+    TOTAL_VOLUME: 'Total volume (kg)',
+  }
+
+const exerciseMetricKeys: Record<
+  ExerciseAchievementMetric,
+  keyof ExerciseAchievementStats
+> = {
+  MAX_WEIGHT: 'maxWeight',
+  TOTAL_REPS: 'totalReps',
+  TOTAL_SETS: 'totalSets',
+  TOTAL_VOLUME: 'totalVolume',
+}
+
+/**
+ * Current value of the stat an achievement measures, or null when the rule
+ * cannot be evaluated from aggregate stats.
+ *
+ * MUSCLE_FOCUS counts working sets for `muscleGroup`, or across all muscle
+ * groups when none is set. EXERCISE_SPECIFIC reads `exerciseMetric` for the
+ * linked exercise and needs both fields set.
+ */
+export function getAchievementValue(
+  rule: AchievementRule,
+  stats: AchievementStats,
+): number | null {
+  switch (rule.category) {
+    case 'MILESTONE':
+      return stats.totalWorkouts
+    case 'STREAK':
+      return stats.currentStreak
+    case 'PERSONAL_RECORD':
+      return stats.totalPRs
+    case 'VOLUME':
+      return stats.totalVolume
+    case 'CONSISTENCY':
+      return stats.consistencyWeeks
+    case 'MUSCLE_FOCUS': {
+      if (rule.muscleGroup) return stats.muscleGroupSets[rule.muscleGroup] ?? 0
+      return Object.values(stats.muscleGroupSets).reduce(
+        (sum, count) => sum + count,
+        0,
+      )
+    }
+    case 'EXERCISE_SPECIFIC':
+      if (!rule.exerciseId) return null
+      return getExerciseAchievementValue(
+        rule,
+        stats.exerciseStats[rule.exerciseId],
+      )
+  }
+}
+
+/**
+ * Current value of an EXERCISE_SPECIFIC rule given the linked exercise's
+ * stats (undefined when it has never been trained), or null without a metric.
+ */
+export function getExerciseAchievementValue(
+  rule: Pick<AchievementRule, 'exerciseMetric'>,
+  exerciseStats: ExerciseAchievementStats | undefined,
+): number | null {
+  if (!rule.exerciseMetric) return null
+  return exerciseStats?.[exerciseMetricKeys[rule.exerciseMetric]] ?? 0
+}
+
+/** Whether the stats meet the achievement's stored threshold. */
+export function isAchievementEarned(
+  rule: AchievementRule,
+  stats: AchievementStats,
+): boolean {
+  const value = getAchievementValue(rule, stats)
+  return value !== null && value >= rule.threshold
+}
+
+/**
+ * Whether a user holding the achievement should lose it given their current
+ * stats. Streak and consistency awards stand once earned since those runs
+ * lapse with time, and rules that can't be evaluated never revoke.
+ */
+export function isAchievementRevoked(
+  rule: AchievementRule,
+  stats: AchievementStats,
+): boolean {
+  if (rule.category === 'STREAK' || rule.category === 'CONSISTENCY') {
+    return false
+  }
+  const value = getAchievementValue(rule, stats)
+  return value !== null && value < rule.threshold
+}
+
+/** How far a user is toward an achievement's threshold. */
+export interface AchievementProgress {
+  current: number
+  target: number
+}
+
+/** Progress toward `rule`, or null when it cannot be evaluated. */
+export function getAchievementProgress(
+  rule: AchievementRule,
+  stats: AchievementStats,
+): AchievementProgress | null {
+  const current = getAchievementValue(rule, stats)
+  if (current === null) return null
+  return { current, target: rule.threshold }
+}
+
+const exerciseMetricUnits: Record<ExerciseAchievementMetric, string> = {
+  MAX_WEIGHT: 'kg',
+  TOTAL_REPS: 'reps',
+  TOTAL_SETS: 'sets',
+  TOTAL_VOLUME: 'kg',
+}
+
+/** Unit the rule's value is counted in, for display next to progress. */
+export function getAchievementUnit(rule: AchievementRule): string {
+  switch (rule.category) {
+    case 'MILESTONE':
+      return 'workouts'
+    case 'STREAK':
+    case 'CONSISTENCY':
+      return 'weeks'
+    case 'PERSONAL_RECORD':
+      return 'PRs'
+    case 'VOLUME':
+      return 'kg'
+    case 'MUSCLE_FOCUS':
+      return 'sets'
+    case 'EXERCISE_SPECIFIC':
+      return rule.exerciseMetric ? exerciseMetricUnits[rule.exerciseMetric] : ''
+  }
+}
+
+/** Fraction of the target reached, clamped to 0..1. */
+export function getProgressRatio(progress: AchievementProgress): number {
+  if (progress.target <= 0) return 1
+  return Math.min(1, Math.max(0, progress.current / progress.target))
+}
+
+/**
+ * Validate a rule and clear the fields its category doesn't use, so a stored
+ * rule can always be evaluated. Throws when a required field is missing.
+ */
+export function normalizeAchievementRule<T extends AchievementRule>(
+  rule: T,
+): T {
+  if (rule.threshold <= 0) {
+    throw new Error('Threshold must be a positive number')
+  }
+  const isExerciseSpecific = rule.category === 'EXERCISE_SPECIFIC'
+  if (isExerciseSpecific && !rule.exerciseId) {
+    throw new Error('Exercise-specific achievements require an exercise')
+  }
+  if (isExerciseSpecific && !rule.exerciseMetric) {
+    throw new Error('Exercise-specific achievements require a metric')
+  }
+  return {
+    ...rule,
+    muscleGroup:
+      rule.category === 'MUSCLE_FOCUS' ? (rule.muscleGroup ?? null) : null,
+    exerciseId: isExerciseSpecific ? rule.exerciseId : null,
+    exerciseMetric: isExerciseSpecific ? rule.exerciseMetric : null,
+  }
+}
+
+/**
+ * Whether editing a rule from `previous` to `next` could make users who did
+ * not qualify before qualify now. Raising the threshold never can.
+ */
+export function canRuleChangeAwardMore(
+  previous: AchievementRule,
+  next: Partial<AchievementRule>,
+): boolean {
+  if (next.threshold !== undefined && next.threshold < previous.threshold) {
+    return true
+  }
+  return (
+    (next.category !== undefined && next.category !== previous.category) ||
+    (next.muscleGroup !== undefined &&
+      next.muscleGroup !== previous.muscleGroup) ||
+    (next.exerciseId !== undefined &&
+      next.exerciseId !== previous.exerciseId) ||
+    (next.exerciseMetric !== undefined &&
+      next.exerciseMetric !== previous.exerciseMetric)
+  )
+}
@@ -0,0 +1,314 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './db.server'
+import { calculateStreak } from './date-utils.server'
+import { COUNTED_PR_WHERE } from './pr-utils'
+import { getTotalVolume, setVolumeKgSql, setWeightKgSql } from './volume.server'
+import type {
+  AchievementRule,
+  AchievementStats,
+  ExerciseAchievementStats,
+} from './achievement-rules'
+import type { AchievementCategory, MuscleGroup } from '@prisma/client'
+
+/** Exercises linked to any EXERCISE_SPECIFIC achievement in the list. */
+export function getReferencedExerciseIds(
+  achievements: Array<{
+    category: AchievementCategory
+    exerciseId: string | null
+  }>,
+): Array<string> {
+  const ids = new Set<string>()
+  for (const achievement of achievements) {
+    if (
+      achievement.category === 'EXERCISE_SPECIFIC' &&
+      achievement.exerciseId
+    ) {
+      ids.add(achievement.exerciseId)
+    }
+  }
+  return Array.from(ids)
+}
+
+/**
+ * Load every aggregate stat the achievement rules evaluate against.
+ * Per-exercise stats are only loaded for `exerciseIds`.
+ */
+export async function getAchievementStats(
+  userId: string,
+  exerciseIds: Array<string> = [],
+): Promise<AchievementStats> {
+  const [
+    totalWorkouts,
+    totalPRs,
+    totalVolume,
+    currentStreak,
+    muscleGroupSets,
+    consistencyWeeks,
+    exerciseStats,
+  ] = await Promise.all([
+    getTotalWorkouts(userId),
+    getTotalPRs(userId),
+    getTotalVolume(userId),
+    calculateStreak(userId),
+    getMuscleGroupSetCounts(userId),
+    getConsistencyStreak(userId),
+    getExerciseStats(userId, exerciseIds),
+  ])
+
+  return {
+    totalWorkouts,
+    totalPRs,
+    totalVolume,
+    currentStreak,
+    muscleGroupSets,
+    consistencyWeeks,
+    exerciseStats,
+  }
+}
+
+async function getTotalWorkouts(userId: string): Promise<number> {
+  return prisma.workoutSession.count({
+    where: {
+      userId,
+      completedAt: { not: null },
+    },
+  })
+}
+
+async function getTotalPRs(userId: string): Promise<number> {
+  return prisma.personalRecord.count({
+    where: { userId, ...COUNTED_PR_WHERE },
+  })
+}
+
+async function getMuscleGroupSetCounts(
+  userId: string,
+): Promise<Partial<Record<MuscleGroup, number>>> {
+  const rows = await prisma.$queryRaw<
+    Array<{ muscle_group: MuscleGroup; set_count: bigint }>
+  >`
+    SELECT e.muscle_group, COUNT(ws.id) AS set_count
+    FROM workout_sets ws
+    JOIN exercises e ON e.id = ws.exercise_id
+    JOIN workout_sessions s ON s.id = ws.workout_session_id
+    WHERE s.user_id = ${userId} AND s.completed_at IS NOT NULL
+      AND ws.is_warmup = false
+    GROUP BY e.muscle_group
+  `
+
+  const counts: Partial<Record<MuscleGroup, number>> = {}
+  for (const row of rows) {
+    counts[row.muscle_group] = Number(row.set_count)
+  }
+
+  return counts
+}
+
+export async function getExerciseStats(
+  userId: string,
+  exerciseIds: Array<string>,
+): Promise<Partial<Record<string, ExerciseAchievementStats>>> {
+  if (exerciseIds.length === 0) return {}
+
+  const rows = await prisma.$queryRaw<
+    Array<{
+      exercise_id: string
+      max_weight: number | null
+      total_reps: bigint | null
+      total_sets: bigint
+      total_volume: number | null
+    }>
+  >`
+    SELECT
+      ws.exercise_id,
+      MAX(${setWeightKgSql()}) AS max_weight,
+      SUM(ws.reps) AS total_reps,
+      COUNT(ws.id) AS total_sets,
+      SUM(${setVolumeKgSql()}) AS total_volume
+    FROM workout_sets ws
+    JOIN workout_sessions s ON s.id = ws.workout_session_id
+    WHERE s.user_id = ${userId} AND s.completed_at IS NOT NULL
+      AND ws.is_warmup = false
+      AND ws.exercise_id = ANY(${exerciseIds})
+    GROUP BY ws.exercise_id
+  `
+
+  const stats: Partial<Record<string, ExerciseAchievementStats>> = {}
+  for (const row of rows) {
+    stats[row.exercise_id] = {
+      maxWeight: Number(row.max_weight ?? 0),
+      totalReps: Number(row.total_reps ?? 0),
+      totalSets: Number(row.total_sets),
+      totalVolume: Number(row.total_volume ?? 0),
+    }
+  }
+
+  return stats
+}
+
+async function getConsistencyStreak(userId: string): Promise<number> {
+  const result = await prisma.$queryRaw<[{ streak: number }]>`
+    WITH week_counts AS (
+      SELECT date_trunc('week', completed_at)::date AS week_start, COUNT(*) AS cnt
+      FROM workout_sessions
+      WHERE user_id = ${userId} AND completed_at IS NOT NULL
+        AND completed_at >= NOW() - interval '2 years'
+      GROUP BY week_start
+      HAVING COUNT(*) >= 3
+    ),
+    numbered AS (
+      SELECT week_start,
+        week_start - (ROW_NUMBER() OVER (ORDER BY week_start))::int * 7 AS grp
+      FROM week_counts
+    ),
+    streaks AS (
+      SELECT COUNT(*) AS streak_len, MAX(week_start) AS last_week
+      FROM numbered GROUP BY grp
+    )
+    SELECT COALESCE(MAX(streak_len), 0)::int AS streak
+    FROM streaks
+    WHERE last_week >= date_trunc('week', NOW())::date - 7
+  `
+  return Number(result[0].streak)
+}
+
+// ============================================
+// HISTORICAL EARN DATES
+// ============================================
+
+/**
+ * When the user first met `rule`'s threshold, reconstructed from their
+ * workout history. Returns null when that moment cannot be determined:
+ * streak-based rules measure the current run rather than a running total.
+ */
+export async function getHistoricalEarnedAt(
+  userId: string,
+  rule: AchievementRule,
+): Promise<Date | null> {
+  switch (rule.category) {
+    case 'MILESTONE': {
+      const session = await prisma.workoutSession.findFirst({
+        where: { userId, completedAt: { not: null } },
+        orderBy: { completedAt: 'asc' },
+        skip: rule.threshold - 1,
+        select: { completedAt: true },
+      })
+      return session?.completedAt ?? null
+    }
+    case 'PERSONAL_RECORD': {
+      // The count is of counted records held, each first set when its
+      // exercise and record type first appear in the history
+      const firsts = await prisma.personalRecordHistory.groupBy({
+        by: ['exerciseId', 'recordType'],
+        where: { userId, ...COUNTED_PR_WHERE },
+        _min: { achievedAt: true },
+      })
+      const dates = firsts
+        .map((first) => first._min.achievedAt)
+        .filter((date): date is Date => date !== null)
+        .sort((a, b) => a.getTime() - b.getTime())
+      return dates[rule.threshold - 1] ?? null
+    }
+    case 'VOLUME':
+      return getThresholdCrossedAt(
+        userId,
+        Prisma.sql`COALESCE(${setVolumeKgSql()}, 0)`,
+        Prisma.empty,
+        rule.threshold,
+      )
+    case 'MUSCLE_FOCUS':
+      return getThresholdCrossedAt(
+        userId,
+        Prisma.sql`1`,
+        rule.muscleGroup
+          ? Prisma.sql`AND e.muscle_group = ${rule.muscleGroup}::"MuscleGroup"`
+          : Prisma.empty,
+        rule.threshold,
+      )
+    case 'EXERCISE_SPECIFIC':
+      return getExerciseEarnedAt(userId, rule)
+    case 'STREAK':
+    case 'CONSISTENCY':
+      return null
+  }
+}
+
+async function getExerciseEarnedAt(
+  userId: string,
+  rule: AchievementRule,
+): Promise<Date | null> {
+  if (!rule.exerciseId || !rule.exerciseMetric) return null
+  const exerciseFilter = Prisma.sql`AND ws.exercise_id = ${rule.exerciseId}`
+
+  switch (rule.exerciseMetric) {
+    case 'MAX_WEIGHT':
+      return getFirstLiftAt(userId, rule.exerciseId, rule.threshold)
+    case 'TOTAL_REPS':
+      return getThresholdCrossedAt(
+        userId,
+        Prisma.sql`COALESCE(ws.reps, 0)`,
+        exerciseFilter,
+        rule.threshold,
+      )
+    case 'TOTAL_SETS':
+      return getThresholdCrossedAt(
+        userId,
+        Prisma.sql`1`,
+        exerciseFilter,
+        rule.threshold,
+      )
+    case 'TOTAL_VOLUME':
+      return getThresholdCrossedAt(
+        userId,
+        Prisma.sql`COALESCE(${setVolumeKgSql()}, 0)`,
+        exerciseFilter,
+        rule.threshold,
+      )
+  }
+}
+
+/**
+ * Completion time of the session in which a running total of `value` over
+ * the user's working sets first reached `threshold`.
+ */
+async function getThresholdCrossedAt(
+  userId: string,
+  value: Prisma.Sql,
+  filter: Prisma.Sql,
+  threshold: number,
+): Promise<Date | null> {
+  const rows = await prisma.$queryRaw<Array<{ completed_at: Date }>>`
+    SELECT completed_at FROM (
+      SELECT s.completed_at,
+        SUM(${value}) OVER (ORDER BY s.completed_at, ws.set_number, ws.id) AS running
+      FROM workout_sets ws
+      JOIN workout_sessions s ON s.id = ws.workout_session_id
+      JOIN exercises e ON e.id = ws.exercise_id
+      WHERE s.user_id = ${userId} AND s.completed_at IS NOT NULL
+        AND ws.is_warmup = false
+        ${filter}
+    ) totals
+    WHERE running >= ${threshold}
+    ORDER BY completed_at
+    LIMIT 1
+  `
+  return rows[0]?.completed_at ?? null
+}
+
+/** Completion time of the first session with a working set of at least `weight` kg. */
+async function getFirstLiftAt(
+  userId: string,
+  exerciseId: string,
+  weight: number,
+): Promise<Date | null> {
+  const rows = await prisma.$queryRaw<Array<{ completed_at: Date | null }>>`
+    SELECT MIN(s.completed_at) AS completed_at
+    FROM workout_sets ws
+    JOIN workout_sessions s ON s.id = ws.workout_session_id
+    WHERE s.user_id = ${userId} AND s.completed_at IS NOT NULL
+      AND ws.is_warmup = false
+      AND ws.exercise_id = ${exerciseId}
+      AND ${setWeightKgSql()} >= ${weight}
+  `
+  return rows[0]?.completed_at ?? null
+}
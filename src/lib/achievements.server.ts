@@ -1,11 +1,27 @@
 import { createServerFn } from '@tanstack/react-start'
 import { prisma } from './db.server'
 import { requireAdmin, requireAuth } from './auth-guard.server'
-import { calculateStreak } from './date-utils.server'
-import { getTotalVolume } from './volume.server'
+import {
+  getAchievementStats,
+  getExerciseStats,
+  getHistoricalEarnedAt,
+  getReferencedExerciseIds,
+} from './achievement-stats.server'
+import { enqueueAchievementBackfill } from './achievement-backfill.server'
+import {
+  canRuleChangeAwardMore,
+  getAchievementProgress,
+  getExerciseAchievementValue,
+  getProgressRatio,
+  isAchievementEarned,
+  normalizeAchievementRule,
+} from './achievement-rules'
+import type { AchievementProgress } from './achievement-rules'
 import type {
+  Achievement,
   AchievementCategory,
   AchievementRarity,
+  ExerciseAchievementMetric,
   MuscleGroup,
 } from '@prisma/client'
 
@@ -24,6 +40,9 @@ export interface AchievementData {
   threshold: number
   sortOrder: number
   isHidden: boolean
+  exerciseId: string | null
+  muscleGroup: MuscleGroup | null
+  exerciseMetric: ExerciseAchievementMetric | null
 }
 
 export interface UserAchievementData {
@@ -50,7 +69,11 @@ export interface NewlyEarnedAchievement {
 
 export const getUserAchievements = createServerFn({ method: 'GET' })
   .inputValidator(
-    (data: { token: string | null; targetUserId?: string }) => data,
+    (data: {
+      token: string | null
+      targetUserId?: string
+      includeProgress?: boolean
+    }) => data,
   )
   .handler(async ({ data }) => {
     const auth = await requireAuth(data.token)
@@ -96,15 +119,83 @@ export const getUserAchievements = createServerFn({ method: 'GET' })
     // Build earned set for quick lookup
     const earnedSet = new Set(userAchievements.map((ua) => ua.achievementId))
 
+    // Progress exposes raw training totals, so it is only ever the owner's
+    const progress =
+      data.includeProgress && userId === auth.userId
+        ? await getProgressByAchievement(
+            userId,
+            allAchievements.filter((a) => !earnedSet.has(a.id)),
+          )
+        : {}
+
     return {
       earned: userAchievements,
       all: allAchievements,
       earnedCount: userAchievements.length,
       totalCount: allAchievements.length,
       earnedSet: Array.from(earnedSet),
+      progress,
     }
   })
 
+// ============================================
+// GET CLOSEST ACHIEVEMENTS
+// ============================================
+
+export const getClosestAchievements = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token: string | null; limit?: number }) => data)
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+    const limit = data.limit ?? 3
+
+    const unearned = await prisma.achievement.findMany({
+      where: {
+        isHidden: false,
+        userAchievements: { none: { userId } },
+      },
+    })
+    const progress = await getProgressByAchievement(userId, unearned)
+
+    const closest = unearned
+      .flatMap((achievement) => {
+        const p = progress[achievement.id]
+        return p ? [{ ...achievement, progress: p }] : []
+      })
+      .sort(
+        (a, b) =>
+          getProgressRatio(b.progress) - getProgressRatio(a.progress) ||
+          a.sortOrder - b.sortOrder,
+      )
+      .slice(0, limit)
+
+    return { achievements: closest }
+  })
+
+/**
+ * Progress toward each given achievement, keyed by id, computed from the
+ * same stats checkAchievementsInternal awards from. Rules that cannot be
+ * evaluated are left out.
+ */
+async function getProgressByAchievement(
+  userId: string,
+  achievements: Array<Achievement>,
+): Promise<Partial<Record<string, AchievementProgress>>> {
+  if (achievements.length === 0) return {}
+
+  const stats = await getAchievementStats(
+    userId,
+    getReferencedExerciseIds(achievements),
+  )
+
+  const progress: Partial<Record<string, AchievementProgress>> = {}
+  for (const achievement of achievements) {
+    const p = getAchievementProgress(achievement, stats)
+    if (p) progress[achievement.id] = p
+  }
+
+  return progress
+}
+
 // ============================================
 // GET UNNOTIFIED ACHIEVEMENTS
 // ============================================
@@ -157,26 +248,12 @@ export const markAchievementsNotified = createServerFn({ method: 'POST' })
 export async function checkAchievementsInternal(
   userId: string,
   triggerType: 'workout_complete' | 'pr_achieved' | 'manual',
+  // Set when the triggering workout was logged after the fact, so awards are
+  // dated to when history shows the threshold was met rather than now
+  options: { backdated?: boolean } = {},
 ) {
   const newlyEarned: Array<NewlyEarnedAchievement> = []
 
-  // Get user's current stats
-  const [
-    totalWorkouts,
-    totalPRs,
-    totalVolume,
-    currentStreak,
-    muscleGroupSets,
-    consistencyWeeks,
-  ] = await Promise.all([
-    getTotalWorkouts(userId),
-    getTotalPRs(userId),
-    getTotalVolume(userId),
-    calculateStreak(userId),
-    getMuscleGroupSetCounts(userId),
-    getConsistencyStreak(userId),
-  ])
-
   // Get all achievements not yet earned
   const earnedAchievementIds = await prisma.userAchievement.findMany({
     where: { userId },
@@ -188,33 +265,23 @@ export async function checkAchievementsInternal(
     where: { id: { notIn: Array.from(earnedSet) } },
   })
 
-  // Check each unearned achievement
-  const toEarn: typeof allAchievements = []
-  for (const achievement of allAchievements) {
-    let earned = false
-
-    switch (achievement.category) {
-      case 'MILESTONE':
-        earned = checkMilestoneAchievement(achievement.code, totalWorkouts)
-        break
-      case 'STREAK':
-        earned = checkStreakAchievement(achievement.code, currentStreak)
-        break
-      case 'PERSONAL_RECORD':
-        earned = checkPRAchievement(achievement.code, totalPRs)
-        break
-      case 'VOLUME':
-        earned = checkVolumeAchievement(achievement.code, totalVolume)
-        break
-      case 'CONSISTENCY':
-        earned = checkConsistencyAchievement(achievement.code, consistencyWeeks)
-        break
-      case 'MUSCLE_FOCUS':
-        earned = checkMuscleFocusAchievement(achievement.code, muscleGroupSets)
-        break
-    }
+  // Get user's current stats, including any exercises the rules reference
+  const stats = await getAchievementStats(
+    userId,
+    getReferencedExerciseIds(allAchievements),
+  )
+
+  // Evaluate each unearned achievement from its stored category + threshold
+  const toEarn = allAchievements.filter((achievement) =>
+    isAchievementEarned(achievement, stats),
+  )
 
-    if (earned) toEarn.push(achievement)
+  const earnedAt = new Map<string, Date>()
+  if (options.backdated) {
+    for (const achievement of toEarn) {
+      const historical = await getHistoricalEarnedAt(userId, achievement)
+      if (historical) earnedAt.set(achievement.id, historical)
+    }
   }
 
   // Batch all achievement creation into a single transaction
@@ -225,6 +292,7 @@ export async function checkAchievementsInternal(
           data: {
             userId,
             achievementId: achievement.id,
+            earnedAt: earnedAt.get(achievement.id),
             notified: false,
           },
         })
@@ -239,6 +307,7 @@ export async function checkAchievementsInternal(
               achievementIcon: achievement.icon,
               achievementRarity: achievement.rarity,
             },
+            createdAt: userAchievement.earnedAt,
           },
         })
 
@@ -272,152 +341,47 @@ export const checkAchievements = createServerFn({ method: 'POST' })
   })
 
 // ============================================
-// HELPER FUNCTIONS
+// GET EXERCISE ACHIEVEMENTS
 // ============================================
 
-async function getTotalWorkouts(userId: string): Promise<number> {
-  return prisma.workoutSession.count({
-    where: {
-      userId,
-      completedAt: { not: null },
-    },
-  })
-}
-
-async function getTotalPRs(userId: string): Promise<number> {
-  return prisma.personalRecord.count({
-    where: { userId },
-  })
-}
-
-async function getMuscleGroupSetCounts(
-  userId: string,
-): Promise<Record<MuscleGroup, number>> {
-  const rows = await prisma.$queryRaw<
-    Array<{ muscle_group: string; set_count: bigint }>
-  >`
-    SELECT e.muscle_group, COUNT(ws.id) AS set_count
-    FROM workout_sets ws
-    JOIN exercises e ON e.id = ws.exercise_id
-    JOIN workout_sessions s ON s.id = ws.workout_session_id
-    WHERE s.user_id = ${userId} AND s.completed_at IS NOT NULL
-      AND ws.is_warmup = false
-    GROUP BY e.muscle_group
-  `
-
-  const counts: Record<string, number> = {}
-  for (const row of rows) {
-    counts[row.muscle_group] = Number(row.set_count)
-  }
-
-  return counts as Record<MuscleGroup, number>
-}
-
-async function getConsistencyStreak(userId: string): Promise<number> {
-  const result = await prisma.$queryRaw<[{ streak: number }]>`
-    WITH week_counts AS (
-      SELECT date_trunc('week', completed_at)::date AS week_start, COUNT(*) AS cnt
-      FROM workout_sessions
-      WHERE user_id = ${userId} AND completed_at IS NOT NULL
-        AND completed_at >= NOW() - interval '2 years'
-      GROUP BY week_start
-      HAVING COUNT(*) >= 3
-    ),
-    numbered AS (
-      SELECT week_start,
-        week_start - (ROW_NUMBER() OVER (ORDER BY week_start))::int * 7 AS grp
-      FROM week_counts
-    ),
-    streaks AS (
-      SELECT COUNT(*) AS streak_len, MAX(week_start) AS last_week
-      FROM numbered GROUP BY grp
-    )
-    SELECT COALESCE(MAX(streak_len), 0)::int AS streak
-    FROM streaks
-    WHERE last_week >= date_trunc('week', NOW())::date - 7
-  `
-  return Number(result[0].streak)
-}
-
-// Achievement check functions
-function checkMilestoneAchievement(
-  code: string,
-  totalWorkouts: number,
-): boolean {
-  const thresholds: Record<string, number> = {
-    FIRST_WORKOUT: 1,
-    WORKOUTS_5: 5,
-    WORKOUTS_10: 10,
-    WORKOUTS_50: 50,
-    WORKOUTS_100: 100,
-    WORKOUTS_365: 365,
-  }
-  return totalWorkouts >= (thresholds[code] ?? Infinity)
-}
-
-function checkStreakAchievement(code: string, currentStreak: number): boolean {
-  const thresholds: Record<string, number> = {
-    STREAK_1: 1,
-    STREAK_4: 4,
-    STREAK_13: 13,
-    STREAK_26: 26,
-    STREAK_52: 52,
-  }
-  return currentStreak >= (thresholds[code] ?? Infinity)
-}
-
-function checkPRAchievement(code: string, totalPRs: number): boolean {
-  const thresholds: Record<string, number> = {
-    FIRST_PR: 1,
-    PRS_5: 5,
-    PRS_10: 10,
-    PRS_25: 25,
-    PRS_50: 50,
-  }
-  return totalPRs >= (thresholds[code] ?? Infinity)
-}
-
-function checkVolumeAchievement(code: string, totalVolume: number): boolean {
-  const thresholds: Record<string, number> = {
-    VOLUME_1000: 1000,
-    VOLUME_10000: 10000,
-    VOLUME_100000: 100000,
-    VOLUME_500000: 500000,
-    VOLUME_1000000: 1000000,
-  }
-  return totalVolume >= (thresholds[code] ?? Infinity)
-}
-
-function checkConsistencyAchievement(
-  code: string,
-  consistencyWeeks: number,
-): boolean {
-  const thresholds: Record<string, number> = {
-    CONSISTENCY_3X4: 4,
-    CONSISTENCY_3X12: 12,
-  }
-  return consistencyWeeks >= (thresholds[code] ?? Infinity)
-}
-
-function checkMuscleFocusAchievement(
-  code: string,
-  muscleGroupSets: Record<MuscleGroup, number>,
-): boolean {
-  const mapping: Record<string, { muscle: MuscleGroup; threshold: number }> = {
-    MUSCLE_CHEST_50: { muscle: 'CHEST', threshold: 50 },
-    MUSCLE_BACK_50: { muscle: 'BACK', threshold: 50 },
-    MUSCLE_LEGS_50: { muscle: 'LEGS', threshold: 50 },
-    MUSCLE_SHOULDERS_50: { muscle: 'SHOULDERS', threshold: 50 },
-    MUSCLE_ARMS_50: { muscle: 'ARMS', threshold: 50 },
-    MUSCLE_CORE_50: { muscle: 'CORE', threshold: 50 },
-  }
+export const getExerciseAchievements = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token: string | null; exerciseId: string }) => data)
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
 
-  const config = mapping[code]
-  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- defensive check for unknown achievement codes
-  if (!config) return false
+    const [achievements, exerciseStats] = await Promise.all([
+      prisma.achievement.findMany({
+        where: { category: 'EXERCISE_SPECIFIC', exerciseId: data.exerciseId },
+        include: {
+          userAchievements: {
+            where: { userId },
+            select: { earnedAt: true },
+          },
+        },
+        orderBy: [{ sortOrder: 'asc' }, { threshold: 'asc' }],
+      }),
+      getExerciseStats(userId, [data.exerciseId]),
+    ])
 
-  return (muscleGroupSets[config.muscle] || 0) >= config.threshold
-}
+    return {
+      achievements: achievements
+        // Hidden achievements stay secret until earned
+        .filter((a) => !a.isHidden || a.userAchievements.length > 0)
+        .map(({ userAchievements, ...achievement }) => ({
+          ...achievement,
+          earned: userAchievements.length > 0,
+          earnedAt: userAchievements[0]?.earnedAt ?? null,
+          progress: {
+            current:
+              getExerciseAchievementValue(
+                achievement,
+                exerciseStats[data.exerciseId],
+              ) ?? 0,
+            target: achievement.threshold,
+          },
+        })),
+    }
+  })
 
 // ============================================
 // ADMIN FUNCTIONS
@@ -435,6 +399,10 @@ export const getAllAchievements = createServerFn({ method: 'GET' })
         exercise: {
           select: { id: true, name: true },
         },
+        backfills: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
       },
     })
 
@@ -456,11 +424,9 @@ export const createAchievement = createServerFn({ method: 'POST' })
       sortOrder?: number
       isHidden?: boolean
       exerciseId?: string | null
-    }) => {
-      if (data.threshold <= 0)
-        throw new Error('Threshold must be a positive number')
-      return data
-    },
+      muscleGroup?: MuscleGroup | null
+      exerciseMetric?: ExerciseAchievementMetric | null
+    }) => normalizeAchievementRule(data),
   )
   .handler(async ({ data }) => {
     await requireAdmin(data.token)
@@ -470,6 +436,8 @@ export const createAchievement = createServerFn({ method: 'POST' })
       sortOrder = 0,
       isHidden = false,
       exerciseId,
+      muscleGroup,
+      exerciseMetric,
       ...achievementData
     } = data
 
@@ -486,10 +454,15 @@ export const createAchievement = createServerFn({ method: 'POST' })
         ...achievementData,
         sortOrder,
         isHidden,
-        exerciseId: exerciseId || null,
+        exerciseId,
+        muscleGroup,
+        exerciseMetric,
       },
     })
 
+    // Award it to users who already qualify
+    await enqueueAchievementBackfill(achievement.id)
+
     return { achievement }
   })
 
@@ -509,6 +482,8 @@ export const updateAchievement = createServerFn({ method: 'POST' })
       sortOrder?: number
       isHidden?: boolean
       exerciseId?: string | null
+      muscleGroup?: MuscleGroup | null
+      exerciseMetric?: ExerciseAchievementMetric | null
     }) => {
       if (data.threshold !== undefined && data.threshold <= 0)
         throw new Error('Threshold must be a positive number')
@@ -538,14 +513,60 @@ export const updateAchievement = createServerFn({ method: 'POST' })
       }
     }
 
+    // Validate the rule as it will be stored, as on create
+    const rule = normalizeAchievementRule({
+      category: updateData.category ?? existing.category,
+      threshold: updateData.threshold ?? existing.threshold,
+      muscleGroup:
+        updateData.muscleGroup === undefined
+          ? existing.muscleGroup
+          : updateData.muscleGroup,
+      exerciseId:
+        updateData.exerciseId === undefined
+          ? existing.exerciseId
+          : updateData.exerciseId || null,
+      exerciseMetric:
+        updateData.exerciseMetric === undefined
+          ? existing.exerciseMetric
+          : updateData.exerciseMetric,
+    })
+    const ruleData = {
+      ...updateData,
+      muscleGroup: rule.muscleGroup,
+      exerciseId: rule.exerciseId,
+      exerciseMetric: rule.exerciseMetric,
+    }
+
     const achievement = await prisma.achievement.update({
       where: { id },
-      data: updateData,
+      data: ruleData,
     })
 
+    if (canRuleChangeAwardMore(existing, ruleData)) {
+      await enqueueAchievementBackfill(achievement.id)
+    }
+
     return { achievement }
   })
 
+// Queue a re-evaluation of an achievement across all users (admin only)
+export const backfillAchievement = createServerFn({ method: 'POST' })
+  .inputValidator((data: { token: string | null; id: string }) => data)
+  .handler(async ({ data }) => {
+    await requireAdmin(data.token)
+
+    const existing = await prisma.achievement.findUnique({
+      where: { id: data.id },
+    })
+    if (!existing) {
+      throw new Error('Achievement not found')
+    }
+
+    const backfill = await enqueueAchievementBackfill(data.id)
+
+    return { backfill }
+  })
+
 // Delete achievement (admin only)
 export const deleteAchievement = createServerFn({ method: 'POST' })
   .inputValidator((data: { token: string | null; id: string }) => data)
@@ -7,6 +7,7 @@ import {
   verifyToken,
 } from './auth'
 import { EMAIL_REGEX, PASSWORD_MIN_LENGTH } from './constants'
+import { parsePreferences } from './preferences'
 import { rateLimit } from './rate-limit.server'
 import type { JWTPayload } from './auth'
 
@@ -101,6 +102,7 @@ export const registerUser = createServerFn({ method: 'POST' })
         email: user.email,
         name: user.name,
         isAdmin: user.isAdmin,
+        preferences: parsePreferences(user.preferences),
       },
       token,
     }
@@ -155,6 +157,7 @@ export const loginUser = createServerFn({ method: 'POST' })
         email: user.email,
         name: user.name,
         isAdmin: user.isAdmin,
+        preferences: parsePreferences(user.preferences),
       },
       token,
     }
@@ -229,5 +232,8 @@ export const getCurrentUser = createServerFn({ method: 'POST' })
     } as JWTPayload)
 
     log('Get current user success:', { userId: user.id, email: user.email })
-    return { user, token: freshToken }
+    return {
+      user: { ...user, preferences: parsePreferences(user.preferences) },
+      token: freshToken,
+    }
   })
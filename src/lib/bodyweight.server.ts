@@ -0,0 +1,122 @@
+import { createServerFn } from '@tanstack/react-start'
+import { prisma } from './db.server'
+import { requireAuth } from './auth-guard.server'
+import { validateBodyweight } from './bodyweight'
+import { MAX_BACKDATE_DAYS, MAX_BODYWEIGHT_ENTRIES } from './constants'
+import { rateLimit } from './rate-limit.server'
+import { normalizeToKg } from './weight-utils'
+import { recalculatePR } from './workouts.server'
+import type { PrismaClient, WeightUnit } from '@prisma/client'
+
+type PrismaTransactionClient = Parameters<
+  Parameters<PrismaClient['$transaction']>[0]
+>[0]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Rescore the user's bodyweight exercises, whose records depend on what
+ * they weighed when each set was done.
+ */
+async function recalculateBodyweightPRs(
+  tx: PrismaTransactionClient,
+  userId: string,
+): Promise<void> {
+  const exercises = await tx.exercise.findMany({
+    where: {
+      equipment: 'BODYWEIGHT',
+      workoutSets: { some: { workoutSession: { userId } } },
+    },
+    select: { id: true },
+  })
+  for (const exercise of exercises) {
+    await recalculatePR(tx, userId, exercise.id)
+  }
+}
+
+// Log a body weight, now or backdated
+export const logBodyweight = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      token: string | null
+      weight: number
+      weightUnit?: WeightUnit
+      recordedAt?: string
+    }) => data,
+  )
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'bodyweight-log', limit: 20, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
+
+    const weight = normalizeToKg(data.weight, data.weightUnit ?? 'KG')
+    validateBodyweight(weight)
+
+    const now = new Date()
+    const recordedAt = data.recordedAt ? new Date(data.recordedAt) : now
+    if (Number.isNaN(recordedAt.getTime())) {
+      throw new Error('Invalid date')
+    }
+    if (recordedAt > now) {
+      throw new Error('Body weight cannot be logged in the future')
+    }
+    if (recordedAt.getTime() < now.getTime() - MAX_BACKDATE_DAYS * DAY_MS) {
+      throw new Error(
+        `Body weight can be backdated up to ${MAX_BACKDATE_DAYS} days`,
+      )
+    }
+
+    const entry = await prisma.$transaction(async (tx) => {
+      const created = await tx.bodyweightEntry.create({
+        data: { userId, weight, recordedAt },
+      })
+      await recalculateBodyweightPRs(tx, userId)
+      return created
+    })
+
+    return { entry }
+  })
+
+// Delete a logged body weight
+export const deleteBodyweightEntry = createServerFn({ method: 'POST' })
+  .inputValidator((data: { token: string | null; id: string }) => data)
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'bodyweight-delete', limit: 20, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
+
+    const existing = await prisma.bodyweightEntry.findFirst({
+      where: { id: data.id, userId },
+      select: { id: true },
+    })
+    if (!existing) {
+      throw new Error('Body weight entry not found')
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.bodyweightEntry.delete({ where: { id: existing.id } })
+      await recalculateBodyweightPRs(tx, userId)
+    })
+
+    return { success: true }
+  })
+
+// Get the user's body weights in time order, optionally since a date
+export const getBodyweightEntries = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token: string | null; startDate?: string }) => data)
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+
+    // Newest first so the cap drops the oldest entries
+    const entries = await prisma.bodyweightEntry.findMany({
+      where: {
+        userId,
+        ...(data.startDate && {
+          recordedAt: { gte: new Date(data.startDate) },
+        }),
+      },
+      orderBy: { recordedAt: 'desc' },
+      take: MAX_BODYWEIGHT_ENTRIES,
+      select: { id: true, weight: true, recordedAt: true },
+    })
+
+    return { entries: entries.reverse() }
+  })
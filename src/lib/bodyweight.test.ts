@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { getBodyweightAt, validateBodyweight } from './bodyweight'
+
+const reading = (weight: number, day: number) => ({
+  weight,
+  recordedAt: new Date(Date.UTC(2026, 0, day)),
+})
+
+describe('validateBodyweight', () => {
+  it('accepts believable body weights', () => {
+    expect(() => validateBodyweight(20)).not.toThrow()
+    expect(() => validateBodyweight(82.5)).not.toThrow()
+    expect(() => validateBodyweight(350)).not.toThrow()
+  })
+
+  it('rejects weights out of range or not a number', () => {
+    expect(() => validateBodyweight(19.9)).toThrow(
+      'Body weight must be between 20 and 350 kg',
+    )
+    expect(() => validateBodyweight(351)).toThrow()
+    expect(() => validateBodyweight(NaN)).toThrow()
+  })
+})
+
+describe('getBodyweightAt', () => {
+  const readings = [reading(82, 10), reading(80, 1), reading(81, 20)]
+
+  it('uses the latest reading up to the time', () => {
+    expect(getBodyweightAt(readings, new Date(Date.UTC(2026, 0, 15)))).toBe(82)
+    expect(getBodyweightAt(readings, new Date(Date.UTC(2026, 0, 20)))).toBe(81)
+  })
+
+  it('falls back to the first reading after the time', () => {
+    expect(getBodyweightAt(readings, new Date(Date.UTC(2025, 11, 1)))).toBe(80)
+  })
+
+  it('returns null without readings', () => {
+    expect(getBodyweightAt([], new Date())).toBeNull()
+  })
+})
@@ -0,0 +1,43 @@
+import { MAX_BODYWEIGHT_KG, MIN_BODYWEIGHT_KG } from './constants'
+
+/** A logged body weight */
+export interface BodyweightReading {
+  weight: number // kg
+  recordedAt: Date | string
+}
+
+/** Throws unless `weightKg` is a believable body weight */
+export function validateBodyweight(weightKg: number): void {
+  if (
+    !Number.isFinite(weightKg) ||
+    weightKg < MIN_BODYWEIGHT_KG ||
+    weightKg > MAX_BODYWEIGHT_KG
+  ) {
+    throw new Error(
+      `Body weight must be between ${MIN_BODYWEIGHT_KG} and ${MAX_BODYWEIGHT_KG} kg`,
+    )
+  }
+}
+
+/**
+ * What the lifter weighed at `at`: the latest reading up to then, or the
+ * first one after it when nothing was logged before. Null with no readings.
+ */
+export function getBodyweightAt(
+  readings: ReadonlyArray<BodyweightReading>,
+  at: Date,
+): number | null {
+  let before: BodyweightReading | null = null
+  let after: BodyweightReading | null = null
+  for (const reading of readings) {
+    const time = new Date(reading.recordedAt).getTime()
+    if (time <= at.getTime()) {
+      if (!before || time > new Date(before.recordedAt).getTime()) {
+        before = reading
+      }
+    } else if (!after || time < new Date(after.recordedAt).getTime()) {
+      after = reading
+    }
+  }
+  return (before ?? after)?.weight ?? null
+}
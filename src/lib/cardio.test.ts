@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateCardioPRScores,
+  calculatePace,
+  calculateSpeed,
+  convertFromMeters,
+  convertPaceFromKm,
+  getSetDistanceMeters,
+  normalizeToMeters,
+  validateCardioValues,
+} from './cardio'
+
+describe('distance units', () => {
+  it('converts to meters and back', () => {
+    expect(normalizeToMeters(5, 'KM')).toBe(5000)
+    expect(normalizeToMeters(2000, 'M')).toBe(2000)
+    expect(normalizeToMeters(1, 'MI')).toBeCloseTo(1609.344)
+    expect(convertFromMeters(5234, 'KM')).toBe(5.23)
+    expect(convertFromMeters(5000, 'MI')).toBe(3.11)
+    expect(convertFromMeters(1999.6, 'M')).toBe(2000)
+  })
+
+  it('reads a set distance in meters', () => {
+    expect(getSetDistanceMeters({ distance: 3, distanceUnit: 'KM' })).toBe(3000)
+    expect(getSetDistanceMeters({ distance: null, distanceUnit: 'KM' })).toBe(
+      null,
+    )
+  })
+})
+
+describe('calculatePace', () => {
+  it('gives seconds per km, mile or 500m', () => {
+    expect(calculatePace(5000, 1500, 'KM')).toBe(300)
+    expect(calculatePace(1609.344, 480, 'MI')).toBe(480)
+    expect(calculatePace(2000, 420, 'M')).toBe(105)
+  })
+
+  it('needs both a distance and a time', () => {
+    expect(calculatePace(0, 1500, 'KM')).toBeNull()
+    expect(calculatePace(5000, 0, 'KM')).toBeNull()
+  })
+
+  it('converts a per-km pace to other units', () => {
+    expect(convertPaceFromKm(300, 'KM')).toBe(300)
+    expect(convertPaceFromKm(300, 'M')).toBe(150)
+    expect(convertPaceFromKm(300, 'MI')).toBe(483)
+  })
+})
+
+describe('calculateSpeed', () => {
+  it('gives km/h, or mph for miles', () => {
+    expect(calculateSpeed(10000, 1800, 'KM')).toBe(20)
+    expect(calculateSpeed(10000, 1800, 'M')).toBe(20)
+    expect(calculateSpeed(1609.344 * 6, 3600, 'MI')).toBe(6)
+  })
+
+  it('needs both a distance and a time', () => {
+    expect(calculateSpeed(10000, 0, 'KM')).toBeNull()
+  })
+})
+
+describe('validateCardioValues', () => {
+  it('accepts values in range', () => {
+    expect(() =>
+      validateCardioValues({
+        distance: 5,
+        distanceUnit: 'KM',
+        avgHeartRate: 150,
+        maxHeartRate: 178,
+        level: 6.5,
+        calories: 420,
+      }),
+    ).not.toThrow()
+  })
+
+  it('rejects a distance out of range', () => {
+    expect(() => validateCardioValues({ distance: -1 })).toThrow()
+    expect(() => validateCardioValues({ distance: 1001 })).toThrow()
+    expect(() =>
+      validateCardioValues({ distance: 900, distanceUnit: 'MI' }),
+    ).toThrow()
+  })
+
+  it('rejects heart rates out of range or a max below the average', () => {
+    expect(() => validateCardioValues({ avgHeartRate: 10 })).toThrow()
+    expect(() => validateCardioValues({ maxHeartRate: 300 })).toThrow()
+    expect(() => validateCardioValues({ avgHeartRate: 140.5 })).toThrow()
+    expect(() =>
+      validateCardioValues({ avgHeartRate: 160, maxHeartRate: 150 }),
+    ).toThrow('Max heart rate cannot be below the average')
+  })
+
+  it('rejects a level or calories out of range', () => {
+    expect(() => validateCardioValues({ level: -1 })).toThrow()
+    expect(() => validateCardioValues({ level: 101 })).toThrow()
+    expect(() => validateCardioValues({ calories: 10001 })).toThrow()
+    expect(() => validateCardioValues({ calories: 12.5 })).toThrow()
+  })
+})
+
+describe('calculateCardioPRScores', () => {
+  it('scores the distance of any set with one', () => {
+    expect(calculateCardioPRScores(800, 0)).toEqual([
+      { score: 800, recordType: 'MAX_DISTANCE' },
+    ])
+  })
+
+  it('times each record distance the set covered at its average pace', () => {
+    expect(calculateCardioPRScores(6000, 1800)).toEqual([
+      { score: 6000, recordType: 'MAX_DISTANCE' },
+      { score: 300, recordType: 'FASTEST_1K' },
+      { score: 1500, recordType: 'FASTEST_5K' },
+    ])
+  })
+
+  it('scores nothing without a distance', () => {
+    expect(calculateCardioPRScores(0, 1800)).toEqual([])
+  })
+})
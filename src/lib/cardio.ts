@@ -0,0 +1,190 @@
+import {
+  MAX_CARDIO_LEVEL,
+  MAX_DISTANCE_METERS,
+  MAX_HEART_RATE,
+  MAX_SET_CALORIES,
+  MIN_HEART_RATE,
+} from './constants'
+import type { DistanceUnit, RecordType } from '@prisma/client'
+
+export const DISTANCE_UNITS: ReadonlyArray<DistanceUnit> = ['M', 'KM', 'MI']
+
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  M: 'm',
+  KM: 'km',
+  MI: 'mi',
+}
+
+export const METERS_PER_UNIT: Record<DistanceUnit, number> = {
+  M: 1,
+  KM: 1000,
+  MI: 1609.344,
+}
+
+export function normalizeToMeters(
+  distance: number,
+  unit: DistanceUnit,
+): number {
+  return distance * METERS_PER_UNIT[unit]
+}
+
+/**
+ * Convert a distance in meters to the given display unit: whole meters, or
+ * kilometers and miles to two decimals
+ */
+export function convertFromMeters(meters: number, unit: DistanceUnit): number {
+  if (unit === 'M') return Math.round(meters)
+  return Math.round((meters / METERS_PER_UNIT[unit]) * 100) / 100
+}
+
+/**
+ * Distance of a single set in meters, or null when the set has no distance
+ */
+export function getSetDistanceMeters(set: {
+  distance: number | null
+  distanceUnit: DistanceUnit
+}): number | null {
+  if (set.distance === null) return null
+  return normalizeToMeters(set.distance, set.distanceUnit)
+}
+
+// Pace is given per 500m when logging in meters, as on a rowing machine
+export const PACE_DISTANCE_METERS: Record<DistanceUnit, number> = {
+  M: 500,
+  KM: 1000,
+  MI: METERS_PER_UNIT.MI,
+}
+
+export const PACE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  M: '/500m',
+  KM: '/km',
+  MI: '/mi',
+}
+
+export const SPEED_UNIT_LABELS: Record<DistanceUnit, string> = {
+  M: 'km/h',
+  KM: 'km/h',
+  MI: 'mph',
+}
+
+/**
+ * Seconds taken per pace distance of the unit (500m, 1km or 1mi), or null
+ * unless both distance and time were recorded
+ */
+export function calculatePace(
+  meters: number,
+  seconds: number,
+  unit: DistanceUnit,
+): number | null {
+  if (meters <= 0 || seconds <= 0) return null
+  return Math.round((seconds * PACE_DISTANCE_METERS[unit]) / meters)
+}
+
+/** Convert a pace in seconds per km to seconds per the unit's pace distance */
+export function convertPaceFromKm(
+  secondsPerKm: number,
+  unit: DistanceUnit,
+): number {
+  return Math.round((secondsPerKm * PACE_DISTANCE_METERS[unit]) / 1000)
+}
+
+/** Average speed in km/h, or mph for miles, to one decimal */
+export function calculateSpeed(
+  meters: number,
+  seconds: number,
+  unit: DistanceUnit,
+): number | null {
+  if (meters <= 0 || seconds <= 0) return null
+  const hourDistance = unit === 'MI' ? METERS_PER_UNIT.MI : 1000
+  return Math.round(((meters / seconds) * 3600 * 10) / hourDistance) / 10
+}
+
+export type CardioValues = {
+  distance?: number
+  avgHeartRate?: number
+  maxHeartRate?: number
+  level?: number
+  calories?: number
+}
+
+/** Throws unless a set's cardio values are within range */
+export function validateCardioValues(
+  set: CardioValues & { distanceUnit?: DistanceUnit },
+): void {
+  if (set.distance !== undefined) {
+    const meters = normalizeToMeters(set.distance, set.distanceUnit ?? 'KM')
+    if (!(meters >= 0) || meters > MAX_DISTANCE_METERS) {
+      throw new Error(
+        `distance must be between 0 and ${MAX_DISTANCE_METERS / 1000} km`,
+      )
+    }
+  }
+  for (const heartRate of [set.avgHeartRate, set.maxHeartRate]) {
+    if (
+      heartRate !== undefined &&
+      (!Number.isInteger(heartRate) ||
+        heartRate < MIN_HEART_RATE ||
+        heartRate > MAX_HEART_RATE)
+    ) {
+      throw new Error(
+        `Heart rate must be between ${MIN_HEART_RATE} and ${MAX_HEART_RATE} bpm`,
+      )
+    }
+  }
+  if (
+    set.avgHeartRate !== undefined &&
+    set.maxHeartRate !== undefined &&
+    set.maxHeartRate < set.avgHeartRate
+  ) {
+    throw new Error('Max heart rate cannot be below the average')
+  }
+  if (
+    set.level !== undefined &&
+    !(set.level >= 0 && set.level <= MAX_CARDIO_LEVEL)
+  ) {
+    throw new Error(`level must be between 0 and ${MAX_CARDIO_LEVEL}`)
+  }
+  if (
+    set.calories !== undefined &&
+    (!Number.isInteger(set.calories) ||
+      set.calories < 0 ||
+      set.calories > MAX_SET_CALORIES)
+  ) {
+    throw new Error(`calories must be between 0 and ${MAX_SET_CALORIES}`)
+  }
+}
+
+// Distances with a fastest-time record, in meters
+export const FASTEST_DISTANCE_RECORDS = {
+  FASTEST_1K: 1000,
+  FASTEST_5K: 5000,
+  FASTEST_10K: 10000,
+} as const satisfies Partial<Record<RecordType, number>>
+
+/**
+ * Cardio records a set competes for: its distance in meters, and its time
+ * in seconds over each record distance it covered. Splits aren't logged, so
+ * a set longer than a record distance is timed over it at its average pace.
+ */
+export function calculateCardioPRScores(
+  meters: number,
+  seconds: number,
+): Array<{ score: number; recordType: RecordType }> {
+  if (meters <= 0) return []
+  const scores: Array<{ score: number; recordType: RecordType }> = [
+    { score: meters, recordType: 'MAX_DISTANCE' },
+  ]
+  if (seconds <= 0) return scores
+
+  for (const [recordType, distance] of Object.entries(
+    FASTEST_DISTANCE_RECORDS,
+  ) as Array<[keyof typeof FASTEST_DISTANCE_RECORDS, number]>) {
+    if (meters >= distance) {
+      scores.push({
+        score: Math.round((seconds * distance) / meters),
+        recordType,
+      })
+    }
+  }
+  return scores
+}
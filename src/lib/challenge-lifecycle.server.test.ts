@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { runChallengeLifecycle } from './challenge-lifecycle.server'
+import { mockPrisma } from '@/test/setup'
+
+describe('runChallengeLifecycle', () => {
+  const now = new Date('2025-01-15T12:00:00Z')
+  const started = {
+    id: 'c1',
+    name: 'January Grind',
+    status: 'UPCOMING',
+    startDate: new Date('2025-01-01T00:00:00Z'),
+    endDate: new Date('2025-01-31T00:00:00Z'),
+  }
+  const ended = {
+    id: 'c2',
+    name: 'Volume Wars',
+    status: 'ACTIVE',
+    startDate: new Date('2024-12-01T00:00:00Z'),
+    endDate: new Date('2025-01-01T00:00:00Z'),
+  }
+
+  beforeEach(() => {
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma))
+  })
+
+  it('activates due challenges and notifies participants', async () => {
+    mockPrisma.challenge.findMany.mockResolvedValue([started] as any)
+    mockPrisma.challenge.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.challengeParticipant.findMany.mockResolvedValue([
+      { userId: 'u1' },
+      { userId: 'u2' },
+    ] as any)
+
+    const result = await runChallengeLifecycle(now)
+
+    expect(result).toEqual({ started: 1, ended: 0 })
+    expect(mockPrisma.challenge.updateMany).toHaveBeenCalledWith({
+      where: { id: 'c1', status: 'UPCOMING' },
+      data: { status: 'ACTIVE' },
+    })
+    const { data } = mockPrisma.notification.createMany.mock.calls[0][0] as any
+    expect(data).toHaveLength(2)
+    expect(data[0]).toMatchObject({
+      userId: 'u1',
+      type: 'CHALLENGE_STARTED',
+      referenceId: 'c1',
+    })
+  })
+
+  it('skips notifications when another run already transitioned it', async () => {
+    mockPrisma.challenge.findMany.mockResolvedValue([started] as any)
+    mockPrisma.challenge.updateMany.mockResolvedValue({ count: 0 })
+
+    const result = await runChallengeLifecycle(now)
+
+    expect(result.started).toBe(0)
+    expect(mockPrisma.notification.createMany).not.toHaveBeenCalled()
+  })
+
+  it('completes ended challenges with frozen ranks', async () => {
+    mockPrisma.challenge.findMany.mockResolvedValue([ended] as any)
+    mockPrisma.challenge.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.challengeParticipant.findMany.mockResolvedValue([
+      { id: 'p1', userId: 'u1', progress: 4, completedAt: null },
+      { id: 'p2', userId: 'u2', progress: 9, completedAt: null },
+    ] as any)
+
+    const result = await runChallengeLifecycle(now)
+
+    expect(result).toEqual({ started: 0, ended: 1 })
+    expect(mockPrisma.challengeParticipant.update).toHaveBeenCalledWith({
+      where: { id: 'p2' },
+      data: { finalRank: 1 },
+    })
+    expect(mockPrisma.challengeParticipant.update).toHaveBeenCalledWith({
+      where: { id: 'p1' },
+      data: { finalRank: 2 },
+    })
+    const { data } = mockPrisma.notification.createMany.mock.calls[0][0] as any
+    expect(data.map((n: any) => n.type)).toEqual([
+      'CHALLENGE_ENDED',
+      'CHALLENGE_ENDED',
+    ])
+    expect(data[0].message).toContain('#1 of 2')
+  })
+
+  it('completes an upcoming challenge that ended without starting', async () => {
+    mockPrisma.challenge.findMany.mockResolvedValue([
+      { ...ended, status: 'UPCOMING' },
+    ] as any)
+    mockPrisma.challenge.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.challengeParticipant.findMany.mockResolvedValue([])
+
+    const result = await runChallengeLifecycle(now)
+
+    expect(result).toEqual({ started: 0, ended: 1 })
+    expect(mockPrisma.challenge.updateMany).toHaveBeenCalledWith({
+      where: { id: 'c2', status: { in: ['UPCOMING', 'ACTIVE'] } },
+      data: { status: 'COMPLETED' },
+    })
+  })
+
+  it('leaves an active challenge that has not ended alone', async () => {
+    mockPrisma.challenge.findMany.mockResolvedValue([
+      { ...started, status: 'ACTIVE' },
+    ] as any)
+
+    const result = await runChallengeLifecycle(now)
+
+    expect(result).toEqual({ started: 0, ended: 0 })
+    expect(mockPrisma.challenge.updateMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,142 @@
+import { prisma } from './db.server'
+import { CHALLENGE_LIFECYCLE_INTERVAL_MS } from './constants'
+import { rankParticipants, resolveChallengeStatus } from './challenge-utils'
+
+declare global {
+  var challengeLifecycleTimer: ReturnType<typeof setInterval> | undefined
+}
+
+type DueChallenge = { id: string; name: string }
+
+/**
+ * Move an UPCOMING challenge to ACTIVE and notify its participants.
+ * Returns false when another run already started it.
+ */
+async function startChallenge(challenge: DueChallenge): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    // Conditional update so concurrent runs never notify twice
+    const { count } = await tx.challenge.updateMany({
+      where: { id: challenge.id, status: 'UPCOMING' },
+      data: { status: 'ACTIVE' },
+    })
+    if (count === 0) return false
+
+    const participants = await tx.challengeParticipant.findMany({
+      where: { challengeId: challenge.id },
+      select: { userId: true },
+    })
+
+    if (participants.length > 0) {
+      await tx.notification.createMany({
+        data: participants.map((p) => ({
+          userId: p.userId,
+          type: 'CHALLENGE_STARTED' as const,
+          title: 'Challenge Started',
+          message: `"${challenge.name}" has started. Good luck!`,
+          referenceId: challenge.id,
+        })),
+      })
+    }
+
+    return true
+  })
+}
+
+/**
+ * Complete an ended challenge, freeze the final standings and notify every
+ * participant of where they placed. Returns false when another run already
+ * completed it.
+ */
+async function finalizeChallenge(challenge: DueChallenge): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.challenge.updateMany({
+      where: { id: challenge.id, status: { in: ['UPCOMING', 'ACTIVE'] } },
+      data: { status: 'COMPLETED' },
+    })
+    if (count === 0) return false
+
+    const participants = await tx.challengeParticipant.findMany({
+      where: { challengeId: challenge.id },
+      select: { id: true, userId: true, progress: true, completedAt: true },
+    })
+    const standings = rankParticipants(participants)
+
+    for (const participant of standings) {
+      await tx.challengeParticipant.update({
+        where: { id: participant.id },
+        data: { finalRank: participant.rank },
+      })
+    }
+
+    if (standings.length > 0) {
+      await tx.notification.createMany({
+        data: standings.map((p) => ({
+          userId: p.userId,
+          type: 'CHALLENGE_ENDED' as const,
+          title: 'Challenge Ended',
+          message: `"${challenge.name}" has ended. You finished #${p.rank} of ${standings.length}.`,
+          referenceId: challenge.id,
+        })),
+      })
+    }
+
+    return true
+  })
+}
+
+/**
+ * Advance every challenge to the status its date window implies. Challenges
+ * that have already ended go straight to COMPLETED without being started.
+ * Safe to run concurrently and repeatedly: each transition happens at most once.
+ */
+export async function runChallengeLifecycle(
+  now: Date = new Date(),
+): Promise<{ started: number; ended: number }> {
+  // Anything not yet started can't be due for a transition
+  const candidates = await prisma.challenge.findMany({
+    where: {
+      status: { in: ['UPCOMING', 'ACTIVE'] },
+      startDate: { lte: now },
+    },
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      startDate: true,
+      endDate: true,
+    },
+  })
+
+  let started = 0
+  let ended = 0
+  for (const challenge of candidates) {
+    const next = resolveChallengeStatus(challenge, now)
+    if (next === challenge.status) continue
+
+    if (next === 'ACTIVE') {
+      if (await startChallenge(challenge)) started++
+    } else if (next === 'COMPLETED') {
+      if (await finalizeChallenge(challenge)) ended++
+    }
+  }
+
+  return { started, ended }
+}
+
+function runScheduledSweep() {
+  runChallengeLifecycle().catch((error: unknown) => {
+    console.error('Challenge lifecycle sweep failed:', error)
+  })
+}
+
+/** Start one scheduler per server process (the global survives dev reloads) */
+export function startChallengeLifecycleScheduler() {
+  if (globalThis.challengeLifecycleTimer) return
+  globalThis.challengeLifecycleTimer = setInterval(
+    runScheduledSweep,
+    CHALLENGE_LIFECYCLE_INTERVAL_MS,
+  )
+  globalThis.challengeLifecycleTimer.unref()
+  // Catch up on anything that came due while the server was down
+  runScheduledSweep()
+}
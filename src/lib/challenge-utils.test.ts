@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import {
+  computeStreaks,
+  rankParticipants,
+  resolveChallengeStatus,
+} from './challenge-utils'
+
+describe('resolveChallengeStatus', () => {
+  const window = {
+    startDate: new Date('2025-01-10T00:00:00Z'),
+    endDate: new Date('2025-01-20T00:00:00Z'),
+  }
+
+  it('keeps an upcoming challenge upcoming before its start', () => {
+    expect(
+      resolveChallengeStatus(
+        { ...window, status: 'UPCOMING' },
+        new Date('2025-01-05T00:00:00Z'),
+      ),
+    ).toBe('UPCOMING')
+  })
+
+  it('activates once the start date passes', () => {
+    expect(
+      resolveChallengeStatus(
+        { ...window, status: 'UPCOMING' },
+        new Date('2025-01-10T00:00:00Z'),
+      ),
+    ).toBe('ACTIVE')
+  })
+
+  it('completes once the end date passes, even if never started', () => {
+    expect(
+      resolveChallengeStatus(
+        { ...window, status: 'UPCOMING' },
+        new Date('2025-01-21T00:00:00Z'),
+      ),
+    ).toBe('COMPLETED')
+    expect(
+      resolveChallengeStatus(
+        { ...window, status: 'ACTIVE' },
+        new Date('2025-01-20T00:00:00Z'),
+      ),
+    ).toBe('COMPLETED')
+  })
+
+  it('never changes a cancelled challenge', () => {
+    expect(
+      resolveChallengeStatus(
+        { ...window, status: 'CANCELLED' },
+        new Date('2025-01-15T00:00:00Z'),
+      ),
+    ).toBe('CANCELLED')
+  })
+})
+
+describe('rankParticipants', () => {
+  it('orders by progress descending', () => {
+    const ranked = rankParticipants([
+      { id: 'a', progress: 3, completedAt: null },
+      { id: 'b', progress: 7, completedAt: null },
+      { id: 'c', progress: 5, completedAt: null },
+    ])
+
+    expect(ranked.map((p) => [p.id, p.rank])).toEqual([
+      ['b', 1],
+      ['c', 2],
+      ['a', 3],
+    ])
+  })
+
+  it('ranks finishers first by completion time', () => {
+    const ranked = rankParticipants([
+      { id: 'late', progress: 12, completedAt: new Date('2025-01-15') },
+      { id: 'none', progress: 50, completedAt: null },
+      { id: 'early', progress: 10, completedAt: new Date('2025-01-12') },
+    ])
+
+    expect(ranked.map((p) => p.id)).toEqual(['early', 'late', 'none'])
+  })
+
+  it('gives tied participants the same rank and skips the next', () => {
+    const ranked = rankParticipants([
+      { id: 'a', progress: 5, completedAt: null },
+      { id: 'b', progress: 5, completedAt: null },
+      { id: 'c', progress: 2, completedAt: null },
+    ])
+
+    expect(ranked.map((p) => p.rank)).toEqual([1, 1, 3])
+  })
+
+  it('returns an empty list for no participants', () => {
+    expect(rankParticipants([])).toEqual([])
+  })
+})
+
+describe('computeStreaks', () => {
+  // Local-time dates at midday so timezone offsets never change the day
+  const day = (d: number) => new Date(2025, 0, d, 12)
+
+  it('returns zeros with no workouts', () => {
+    expect(computeStreaks([], 'DAILY', day(10))).toEqual({
+      current: 0,
+      best: 0,
+    })
+  })
+
+  it('counts consecutive days and ignores multiple workouts per day', () => {
+    const dates = [day(6), day(7), day(7), day(8)]
+    expect(computeStreaks(dates, 'DAILY', day(8))).toEqual({
+      current: 3,
+      best: 3,
+    })
+  })
+
+  it('keeps the current streak alive while today is still in progress', () => {
+    expect(computeStreaks([day(6), day(7)], 'DAILY', day(8)).current).toBe(2)
+  })
+
+  it('resets the current streak after a missed day but keeps the best', () => {
+    const dates = [day(1), day(2), day(3), day(4), day(6)]
+    expect(computeStreaks(dates, 'DAILY', day(8))).toEqual({
+      current: 0,
+      best: 4,
+    })
+  })
+
+  it('counts consecutive weeks for weekly streaks', () => {
+    // Mon 6th, Sun 12th (same week), Wed 15th, Tue 21st
+    const dates = [day(6), day(12), day(15), day(21)]
+    expect(computeStreaks(dates, 'WEEKLY', day(23))).toEqual({
+      current: 3,
+      best: 3,
+    })
+  })
+
+  it('breaks a weekly streak when a whole week is skipped', () => {
+    const dates = [day(6), day(20)]
+    expect(computeStreaks(dates, 'WEEKLY', day(20))).toEqual({
+      current: 1,
+      best: 1,
+    })
+  })
+})
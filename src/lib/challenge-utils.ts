@@ -0,0 +1,101 @@
+import { getDayStart, getWeekStart } from './date-utils'
+import type { ChallengeStatus, StreakPeriod } from '@prisma/client'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Resolve the status a challenge should have at `now` based on its date window.
+ * COMPLETED and CANCELLED are terminal and never change.
+ */
+export function resolveChallengeStatus(
+  challenge: { status: ChallengeStatus; startDate: Date; endDate: Date },
+  now: Date,
+): ChallengeStatus {
+  if (challenge.status === 'COMPLETED' || challenge.status === 'CANCELLED') {
+    return challenge.status
+  }
+  if (challenge.endDate <= now) return 'COMPLETED'
+  if (challenge.startDate <= now) return 'ACTIVE'
+  return 'UPCOMING'
+}
+
+type RankableParticipant = {
+  progress: number
+  completedAt: Date | null
+}
+
+function compareParticipants(
+  a: RankableParticipant,
+  b: RankableParticipant,
+): number {
+  // Finishers rank above everyone else, earliest finisher first
+  if (a.completedAt && b.completedAt) {
+    return a.completedAt.getTime() - b.completedAt.getTime()
+  }
+  if (a.completedAt) return -1
+  if (b.completedAt) return 1
+  return b.progress - a.progress
+}
+
+/**
+ * Order participants into standings and assign competition ranks ("1224").
+ * Participants who reached the target rank first by completion time; the rest
+ * by progress. Exact ties share a rank.
+ */
+export function rankParticipants<T extends RankableParticipant>(
+  participants: Array<T>,
+): Array<T & { rank: number }> {
+  const sorted = [...participants].sort(compareParticipants)
+
+  const ranked: Array<T & { rank: number }> = []
+  sorted.forEach((participant, index) => {
+    const previous = ranked[index - 1] as (T & { rank: number }) | undefined
+    const rank =
+      previous && compareParticipants(previous, participant) === 0
+        ? previous.rank
+        : index + 1
+    ranked.push({ ...participant, rank })
+  })
+
+  return ranked
+}
+
+/** Sequential index of the day or week containing `date` (local time). */
+function periodIndex(date: Date, period: StreakPeriod): number {
+  const start = period === 'WEEKLY' ? getWeekStart(date) : getDayStart(date)
+  // Use the calendar date in UTC so DST shifts never skip or repeat an index
+  const dayIndex = Math.round(
+    Date.UTC(start.getFullYear(), start.getMonth(), start.getDate()) / DAY_MS,
+  )
+  // Week starts are always Mondays, so dividing by 7 yields consecutive integers
+  return period === 'WEEKLY' ? Math.floor(dayIndex / 7) : dayIndex
+}
+
+/**
+ * Compute current and best streak of consecutive days (or weeks) with at least
+ * one workout. The period containing `asOf` is still in progress, so missing
+ * it does not reset the current streak until it has passed.
+ */
+export function computeStreaks(
+  workoutDates: Array<Date>,
+  period: StreakPeriod,
+  asOf: Date,
+): { current: number; best: number } {
+  const indices = Array.from(
+    new Set(workoutDates.map((date) => periodIndex(date, period))),
+  ).sort((a, b) => a - b)
+
+  let best = 0
+  let run = 0
+  let previous: number | undefined
+  for (const index of indices) {
+    run = previous !== undefined && index === previous + 1 ? run + 1 : 1
+    best = Math.max(best, run)
+    previous = index
+  }
+
+  const asOfIndex = periodIndex(asOf, period)
+  const current = previous !== undefined && previous >= asOfIndex - 1 ? run : 0
+
+  return { current, best }
+}
@@ -1,4 +1,5 @@
 import { beforeEach, describe, expect, it } from 'vitest'
+import { updateChallengeProgressInternal } from './challenges.server'
 import { mockPrisma } from '@/test/setup'
 
 // We test the business logic directly by recreating the handler logic
@@ -18,6 +19,7 @@ describe('challenges server functions', () => {
     challengeType: 'TOTAL_WORKOUTS' as const,
     targetValue: 10,
     exerciseId: null,
+    streakPeriod: 'DAILY' as const,
     status: 'ACTIVE' as const,
     startDate: new Date('2025-01-01'),
     endDate: new Date('2025-01-31'),
@@ -149,6 +151,7 @@ describe('challenges server functions', () => {
         userId: mockUser.id,
         progress: 0,
         completedAt: null,
+        finalRank: null,
         joinedAt: new Date(),
       })
 
@@ -175,6 +178,7 @@ describe('challenges server functions', () => {
         userId: mockUser.id,
         progress: 0,
         completedAt: null,
+        finalRank: null,
         joinedAt: new Date(),
       })
 
@@ -404,5 +408,39 @@ describe('challenges server functions', () => {
 
       expect(progressDelta).toBe(1000 + 800 + 600)
     })
+
+    it('dates a completion to when a backdated workout happened', async () => {
+      const workoutAt = new Date('2025-01-10T18:00:00Z')
+      mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma))
+      mockPrisma.workoutSession.findUnique.mockResolvedValue({
+        id: 'session-1',
+        completedAt: workoutAt,
+        workoutSets: [],
+      } as any)
+      mockPrisma.challengeParticipant.findMany.mockResolvedValue([
+        {
+          id: 'participant-1',
+          progress: 9,
+          challenge: mockChallenge,
+        },
+      ] as any)
+      mockPrisma.challengeParticipant.findUnique.mockResolvedValue({
+        progress: 9,
+        completedAt: null,
+      } as any)
+
+      await updateChallengeProgressInternal('user-123', 'session-1')
+
+      expect(mockPrisma.challengeParticipant.update).toHaveBeenCalledWith({
+        where: { id: 'participant-1', completedAt: null },
+        data: { progress: 10, completedAt: workoutAt },
+      })
+      expect(mockPrisma.activityFeedItem.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          activityType: 'CHALLENGE_COMPLETED',
+          createdAt: workoutAt,
+        }),
+      })
+    })
   })
 })
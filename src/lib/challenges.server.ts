@@ -5,7 +5,13 @@ import { prisma } from './db.server'
 import { requireAuth } from './auth-guard.server'
 import { rateLimit } from './rate-limit.server'
 import { validateDescription, validateNameLength } from './validation'
-import type { ChallengeStatus, ChallengeType } from '@prisma/client'
+import { computeStreaks, rankParticipants } from './challenge-utils'
+import { getSetVolumeKg } from './weight-utils'
+import type {
+  ChallengeStatus,
+  ChallengeType,
+  StreakPeriod,
+} from '@prisma/client'
 
 const CODE_CHARS = '23456789ABCDEFGHJKMNPQRSTUVWXYZ'
 
@@ -27,6 +33,7 @@ export const createChallenge = createServerFn({ method: 'POST' })
       challengeType: ChallengeType
       targetValue: number
       exerciseId?: string
+      streakPeriod?: StreakPeriod
       startDate: string
       endDate: string
       isPublic?: boolean
@@ -75,6 +82,7 @@ export const createChallenge = createServerFn({ method: 'POST' })
         challengeType: data.challengeType,
         targetValue: data.targetValue,
         exerciseId: data.exerciseId,
+        streakPeriod: data.streakPeriod ?? 'DAILY',
         status,
         startDate: new Date(data.startDate),
         endDate: new Date(data.endDate),
@@ -96,6 +104,38 @@ export const createChallenge = createServerFn({ method: 'POST' })
     return { challenge }
   })
 
+// Internal helper: current and best workout streak per user inside a
+// WORKOUT_STREAK challenge's window (used for progress and the detail page)
+async function getStreaksInChallenge(
+  challenge: { startDate: Date; endDate: Date; streakPeriod: StreakPeriod },
+  userIds: Array<string>,
+  now: Date,
+): Promise<Map<string, { current: number; best: number }>> {
+  const asOf = now < challenge.endDate ? now : challenge.endDate
+  const sessions = await prisma.workoutSession.findMany({
+    where: {
+      userId: { in: userIds },
+      completedAt: { gte: challenge.startDate, lte: asOf },
+    },
+    select: { userId: true, completedAt: true },
+  })
+
+  const datesByUser = new Map<string, Array<Date>>()
+  for (const session of sessions) {
+    if (!session.completedAt) continue
+    const dates = datesByUser.get(session.userId) ?? []
+    dates.push(session.completedAt)
+    datesByUser.set(session.userId, dates)
+  }
+
+  return new Map(
+    userIds.map((id) => [
+      id,
+      computeStreaks(datesByUser.get(id) ?? [], challenge.streakPeriod, asOf),
+    ]),
+  )
+}
+
 // Internal helper for joining a challenge (used by joinChallenge and joinChallengeByCode)
 async function joinChallengeInternal(challengeId: string, userId: string) {
   return prisma.$transaction(async (tx) => {
@@ -237,7 +277,6 @@ export const getChallengeDetails = createServerFn({ method: 'GET' })
               },
             },
           },
-          orderBy: { progress: 'desc' },
         },
       },
     })
@@ -249,12 +288,28 @@ export const getChallengeDetails = createServerFn({ method: 'GET' })
       ? challenge.participants.find((p) => p.userId === userId)
       : null
 
+    const streaks =
+      challenge.challengeType === 'WORKOUT_STREAK'
+        ? await getStreaksInChallenge(
+            challenge,
+            challenge.participants.map((p) => p.userId),
+            new Date(),
+          )
+        : null
+
+    // Completed challenges show the standings frozen at end time
+    const standings = rankParticipants(challenge.participants).map((p) => ({
+      ...p,
+      rank: p.finalRank ?? p.rank,
+      streak: streaks?.get(p.userId) ?? null,
+    }))
+    standings.sort((a, b) => a.rank - b.rank)
+
     return {
       challenge: {
         ...challenge,
-        participants: challenge.participants.map((p, index) => ({
+        participants: standings.map((p) => ({
           ...p,
-          rank: index + 1,
           profile: p.user.profile,
         })),
       },
@@ -339,36 +394,58 @@ export async function updateChallengeProgressInternal(
   userId: string,
   sessionId: string,
 ) {
-  // Get user's active challenges and session data in parallel
-  const [participations, session] = await Promise.all([
-    prisma.challengeParticipant.findMany({
-      where: {
-        userId,
-        completedAt: null,
-        challenge: { status: 'ACTIVE' },
-      },
-      include: { challenge: true },
-    }),
-    prisma.workoutSession.findUnique({
-      where: { id: sessionId },
-      include: {
-        workoutSets: {
-          where: { isWarmup: false, isDropset: false },
-          select: { weight: true, reps: true, exerciseId: true },
+  const now = new Date()
+  const session = await prisma.workoutSession.findUnique({
+    where: { id: sessionId },
+    include: {
+      workoutSets: {
+        where: { isWarmup: false, isDropset: false },
+        select: {
+          weight: true,
+          reps: true,
+          weightUnit: true,
+          exerciseId: true,
         },
       },
-    }),
-  ])
+    },
+  })
 
   if (!session) return { success: true }
 
+  // Match challenges against when the workout happened, so a backdated
+  // session only counts toward challenges that were running and joined then.
+  // The date window is checked directly so progress never depends on the
+  // lifecycle scheduler having already flipped the status.
+  const workoutAt = session.completedAt ?? now
+  const participations = await prisma.challengeParticipant.findMany({
+    where: {
+      userId,
+      completedAt: null,
+      joinedAt: { lte: workoutAt },
+      challenge: {
+        status: { in: ['UPCOMING', 'ACTIVE'] },
+        startDate: { lte: workoutAt },
+        endDate: { gt: workoutAt },
+      },
+    },
+    include: { challenge: true },
+  })
+
   // Pre-compute session-level aggregates
   const sessionVolume = session.workoutSets.reduce(
-    (sum, s) => sum + (s.weight ?? 0) * (s.reps ?? 0),
+    (sum, s) => sum + getSetVolumeKg(s),
     0,
   )
   const sessionSetCount = session.workoutSets.length
 
+  // Streaks are recomputed over each challenge window rather than accumulated
+  const bestStreaks = new Map<string, number>()
+  for (const { challenge } of participations) {
+    if (challenge.challengeType !== 'WORKOUT_STREAK') continue
+    const streaks = await getStreaksInChallenge(challenge, [userId], now)
+    bestStreaks.set(challenge.id, streaks.get(userId)?.best ?? 0)
+  }
+
   // Compute progress deltas in-memory first
   const deltas = participations.map((participation) => {
     const challenge = participation.challenge
@@ -387,11 +464,16 @@ export async function updateChallengeProgressInternal(
         progressDelta = sessionSetCount
         break
 
+      case 'WORKOUT_STREAK':
+        progressDelta =
+          (bestStreaks.get(challenge.id) ?? 0) - participation.progress
+        break
+
       case 'SPECIFIC_EXERCISE': {
         if (!challenge.exerciseId) break
         progressDelta = session.workoutSets
           .filter((s) => s.exerciseId === challenge.exerciseId)
-          .reduce((sum, s) => sum + (s.weight ?? 0) * (s.reps ?? 0), 0)
+          .reduce((sum, s) => sum + getSetVolumeKg(s), 0)
         break
       }
     }
@@ -411,7 +493,11 @@ export async function updateChallengeProgressInternal(
 
       if (current?.completedAt) continue
 
-      const newProgress = (current?.progress ?? 0) + progressDelta
+      // Streak progress is absolute: the best run inside the window
+      const newProgress =
+        challenge.challengeType === 'WORKOUT_STREAK'
+          ? (bestStreaks.get(challenge.id) ?? 0)
+          : (current?.progress ?? 0) + progressDelta
       const completed = newProgress >= challenge.targetValue
 
       await tx.challengeParticipant.update({
@@ -421,7 +507,7 @@ export async function updateChallengeProgressInternal(
         },
         data: {
           progress: newProgress,
-          ...(completed && { completedAt: new Date() }),
+          ...(completed && { completedAt: workoutAt }),
         },
       })
 
@@ -432,6 +518,7 @@ export async function updateChallengeProgressInternal(
             activityType: 'CHALLENGE_COMPLETED',
             referenceId: challenge.id,
             metadata: { challengeName: challenge.name },
+            createdAt: workoutAt,
           },
         })
       }
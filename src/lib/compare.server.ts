@@ -2,7 +2,14 @@ import { createServerFn } from '@tanstack/react-start'
 import { prisma } from './db.server'
 import { requireAuth } from './auth-guard.server'
 import { calculateStreak } from './date-utils.server'
-import { PR_PRIORITY } from './pr-utils'
+import {
+  COUNTED_PR_WHERE,
+  isLowerBetterRecord,
+  selectDisplayPR,
+} from './pr-utils'
+import { getRelativeStrengthScores } from './relative-strength.server'
+import { setVolumeKgSql } from './volume.server'
+import { getSetWeightKg } from './weight-utils'
 import type { RecordType } from '@prisma/client'
 
 export interface CompareUserProfile {
@@ -17,6 +24,7 @@ export interface CompareUserStats {
   totalVolume: number
   totalAchievements: number
   currentStreak: number
+  dots: number | null // Null unless the user has a strength score
 }
 
 export interface SharedPR {
@@ -43,22 +51,31 @@ export interface ComparisonData {
 }
 
 async function getUserStats(userId: string): Promise<CompareUserStats> {
-  const [totalWorkouts, totalPRs, totalAchievements, streak, volumeResult] =
-    await Promise.all([
-      prisma.workoutSession.count({
-        where: { userId, completedAt: { not: null } },
-      }),
-      prisma.personalRecord.count({ where: { userId } }),
-      prisma.userAchievement.count({ where: { userId } }),
-      calculateStreak(userId),
-      prisma.$queryRaw<[{ total: number | null }]>`
-        SELECT COALESCE(SUM(ws.weight * ws.reps), 0) AS total
-        FROM workout_sets ws
-        JOIN workout_sessions s ON s.id = ws.workout_session_id
-        WHERE s.user_id = ${userId} AND s.completed_at IS NOT NULL
-          AND ws.is_warmup = false AND ws.weight IS NOT NULL AND ws.reps IS NOT NULL
-      `,
-    ])
+  const [
+    totalWorkouts,
+    totalPRs,
+    totalAchievements,
+    streak,
+    volumeResult,
+    strengthScores,
+  ] = await Promise.all([
+    prisma.workoutSession.count({
+      where: { userId, completedAt: { not: null } },
+    }),
+    prisma.personalRecord.count({
+      where: { userId, ...COUNTED_PR_WHERE },
+    }),
+    prisma.userAchievement.count({ where: { userId } }),
+    calculateStreak(userId),
+    prisma.$queryRaw<[{ total: number | null }]>`
+      SELECT COALESCE(SUM(${setVolumeKgSql()}), 0) AS total
+      FROM workout_sets ws
+      JOIN workout_sessions s ON s.id = ws.workout_session_id
+      WHERE s.user_id = ${userId} AND s.completed_at IS NOT NULL
+        AND ws.is_warmup = false AND ws.weight IS NOT NULL AND ws.reps IS NOT NULL
+    `,
+    getRelativeStrengthScores([userId]),
+  ])
 
   return {
     totalWorkouts,
@@ -66,6 +83,7 @@ async function getUserStats(userId: string): Promise<CompareUserStats> {
     totalVolume: Number(volumeResult[0].total ?? 0),
     totalAchievements,
     currentStreak: streak,
+    dots: strengthScores.get(userId)?.dots ?? null,
   }
 }
 
@@ -77,7 +95,12 @@ async function getUserPRMap(userId: string) {
         select: { id: true, name: true, muscleGroup: true, isTimed: true },
       },
       workoutSet: {
-        select: { reps: true, timeSeconds: true, weight: true },
+        select: {
+          reps: true,
+          timeSeconds: true,
+          weight: true,
+          weightUnit: true,
+        },
       },
     },
     orderBy: [{ exerciseId: 'asc' }, { value: 'desc' }],
@@ -96,6 +119,7 @@ async function getUserPRMap(userId: string) {
       weight: number | null
       reps: number | null
       timeSeconds: number | null
+      achievedAt: Date
     }
   >()
 
@@ -108,9 +132,10 @@ async function getUserPRMap(userId: string) {
         muscleGroup: pr.exercise.muscleGroup,
         recordType: pr.recordType,
         value: pr.value,
-        weight: pr.workoutSet.weight ?? null,
+        weight: getSetWeightKg(pr.workoutSet),
         reps: pr.workoutSet.reps ?? null,
         timeSeconds: pr.workoutSet.timeSeconds ?? null,
+        achievedAt: pr.achievedAt,
       })
     }
   }
@@ -126,11 +151,9 @@ async function getUserPRMap(userId: string) {
     const candidates = Array.from(byType.values()).filter(
       (pr) => pr.exerciseId === exerciseId,
     )
-    candidates.sort(
-      (a, b) => PR_PRIORITY[a.recordType] - PR_PRIORITY[b.recordType],
-    )
-    if (candidates.length > 0) {
-      result.set(exerciseId, candidates[0])
+    const best = selectDisplayPR(candidates)
+    if (best) {
+      result.set(exerciseId, best)
     }
   }
 
@@ -207,11 +230,15 @@ export const getComparisonData = createServerFn({ method: 'GET' })
       const theirPR = theirPRMap.get(exerciseId)
       if (!theirPR) continue
 
+      // Fastest times are won by the lower value
+      const lead = isLowerBetterRecord(myPR.recordType)
+        ? theirPR.value - myPR.value
+        : myPR.value - theirPR.value
       let winner: 'me' | 'them' | 'tie'
-      if (myPR.value > theirPR.value) {
+      if (lead > 0) {
         winner = 'me'
         wins++
-      } else if (theirPR.value > myPR.value) {
+      } else if (lead < 0) {
         winner = 'them'
         losses++
       } else {
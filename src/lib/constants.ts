@@ -22,11 +22,49 @@ export const MAX_LEADERBOARD_SIZE = 100
 // WORKOUT
 // ============================================
 export const TIME_INCREMENT = 15 // seconds
+export const CARDIO_TIME_INCREMENT = 60
 export const MIN_REPS = 1
 export const MIN_WEIGHT = 0
 export const MIN_TIME_SECONDS = 5
 export const DEFAULT_REST_TIMER_SECONDS = 90
 export const REST_TIMER_AUTO_CLOSE_DELAY_MS = 1500
+export const MAX_EXERCISE_GROUP_SIZE = 10 // Exercises per superset/circuit
+export const MAX_EXERCISE_GROUP_ROUNDS = 20
+export const MAX_EXERCISE_GROUP_REST_SECONDS = 600 // Rest after each round
+export const MAX_BACKDATE_DAYS = 365 // How far back a past workout can be logged
+export const MAX_PAST_WORKOUT_SETS = 200
+export const MAX_WORKOUT_DURATION_SECONDS = 12 * 60 * 60
+export const STALE_SESSION_SWEEP_INTERVAL_MS = 5 * 60 * 1000 // Idle workout check cadence
+export const DEFAULT_WEIGHT_INCREMENT_KG = 2.5 // Progression step when a plan sets none
+export const MAX_WEIGHT_INCREMENT_KG = 50
+export const MAX_PLAN_SETS = 20 // Sets per plan exercise, and per set scheme
+export const MAX_PERCENT_OFF = 90 // Back-off and drop set reduction
+export const MIN_PERCENT_1RM = 1
+export const MAX_PERCENT_1RM = 100
+export const E1RM_LOOKBACK_DAYS = 90 // Sets that count toward a %1RM target's max
+export const MIN_BLOCK_WEEKS = 2 // Weeks per training block
+export const MAX_BLOCK_WEEKS = 16
+export const MAX_WEEK_SET_DELTA = 10
+export const MAX_WEEK_REP_DELTA = 10
+export const MIN_WEEK_INTENSITY_PERCENT = 40
+export const MAX_WEEK_INTENSITY_PERCENT = 150
+export const MAX_ROTATION_DAYS = 14 // Days on, or days off, in a plan's rotation
+export const ADHERENCE_WINDOW_DAYS = 28 // Planned days a plan's adherence covers
+export const SCHEDULE_LOOKAHEAD_DAYS = 14 // How far ahead the next planned day is looked for
+export const MAX_PLAN_EXERCISE_ALTERNATES = 5
+export const MAX_SUBSTITUTE_OPTIONS = 50 // Equivalent exercises offered when swapping
+export const MAX_REP_MAX = 12 // Highest rep count with a rep max, and that an e1RM is estimated from
+export const MIN_BODYWEIGHT_KG = 20
+export const MAX_BODYWEIGHT_KG = 350
+export const MAX_BODYWEIGHT_ENTRIES = 1000 // Entries returned for a trend chart
+export const MIN_MEASUREMENT_CM = 5
+export const MAX_MEASUREMENT_CM = 300
+export const MAX_MEASUREMENT_ENTRIES = 2000 // Entries returned for the measurement charts
+export const MAX_DISTANCE_METERS = 1_000_000 // One set, e.g. a long ride
+export const MIN_HEART_RATE = 30 // bpm
+export const MAX_HEART_RATE = 250
+export const MAX_CARDIO_LEVEL = 100 // Incline % or machine resistance level
+export const MAX_SET_CALORIES = 10_000
 
 // ============================================
 // RPE (Rate of Perceived Exertion)
@@ -34,6 +72,9 @@ export const REST_TIMER_AUTO_CLOSE_DELAY_MS = 1500
 export const RPE_MIN = 1
 export const RPE_MAX = 10
 export const RPE_VALUES = [6, 7, 8, 9, 10] as const
+export const RIR_MIN = 0
+export const RIR_MAX = 5
+export const RIR_VALUES = [0, 1, 2, 3, 4] as const
 
 // ============================================
 // MOOD RATING
@@ -64,6 +105,14 @@ export const SHARE_CODE_EXPIRY_DAYS = 7
 // ============================================
 export const CHALLENGE_MIN_DURATION_DAYS = 1
 export const CHALLENGE_MAX_DURATION_DAYS = 365
+export const CHALLENGE_LIFECYCLE_INTERVAL_MS = 60 * 1000 // Status sweep cadence
+
+// ============================================
+// ACHIEVEMENTS
+// ============================================
+export const ACHIEVEMENT_BACKFILL_BATCH_SIZE = 100 // Users evaluated per batch
+export const ACHIEVEMENT_BACKFILL_INTERVAL_MS = 30 * 1000 // Job queue poll cadence
+export const ACHIEVEMENT_BACKFILL_TIMEOUT_MS = 60 * 60 * 1000 // Running jobs older than this are assumed dead
 
 // ============================================
 // UI TIMING
@@ -86,3 +135,7 @@ export const MAX_BIO_LENGTH = 500
 // ============================================
 export const MAX_AVATAR_SIZE_MB = 5
 export const MAX_AVATAR_SIZE_BYTES = MAX_AVATAR_SIZE_MB * 1024 * 1024
+export const MAX_PROGRESS_PHOTO_SIZE_MB = 10
+export const MAX_PROGRESS_PHOTO_SIZE_BYTES =
+  MAX_PROGRESS_PHOTO_SIZE_MB * 1024 * 1024
+export const MAX_PROGRESS_PHOTOS = 500 // Per user
@@ -3,6 +3,12 @@ import { prisma } from './db.server'
 import { requireAuth } from './auth-guard.server'
 import { calculateStreak } from './date-utils.server'
 import { getWeeklyVolume } from './volume.server'
+import { getPlanBlockPosition } from './plan-blocks.server'
+import { applyPlanWeek, describeWeekChanges } from './plan-weeks'
+import { getScheduledDay } from './plan-schedule'
+import { getDayStart } from './date-utils'
+import { COUNTED_PR_WHERE } from './pr-utils'
+import { SCHEDULE_LOOKAHEAD_DAYS } from './constants'
 
 // ============================================
 // DASHBOARD STATS
@@ -39,6 +45,7 @@ export const getDashboardStats = createServerFn({ method: 'GET' })
     const prsThisWeek = await prisma.personalRecord.count({
       where: {
         userId,
+        ...COUNTED_PR_WHERE,
         achievedAt: {
           gte: weekStart,
         },
@@ -85,6 +92,7 @@ export const getNextWorkoutSuggestion = createServerFn({ method: 'GET' })
                     muscleGroup: true,
                   },
                 },
+                setPrescriptions: { select: { targetWeight: true } },
               },
             },
             _count: {
@@ -116,6 +124,7 @@ export const getNextWorkoutSuggestion = createServerFn({ method: 'GET' })
       orderBy: { completedAt: 'desc' },
       select: {
         planDayId: true,
+        completedAt: true,
         planDay: {
           select: { dayOrder: true },
         },
@@ -139,6 +148,28 @@ export const getNextWorkoutSuggestion = createServerFn({ method: 'GET' })
       }
     }
 
+    // A scheduled plan follows the calendar instead: today's day unless it
+    // has been trained already, otherwise the next scheduled one
+    let scheduledFor: Date | null = null
+    if (activePlan.scheduleType) {
+      const today = getDayStart(new Date())
+      const trainedToday =
+        !!lastWorkout?.completedAt && lastWorkout.completedAt >= today
+      for (let i = trainedToday ? 1 : 0; i <= SCHEDULE_LOOKAHEAD_DAYS; i++) {
+        const date = new Date(today)
+        date.setDate(date.getDate() + i)
+        const day = getScheduledDay(activePlan, activePlan.planDays, date)
+        if (day) {
+          nextDay = day
+          scheduledFor = date
+          break
+        }
+      }
+    }
+
+    // Show this week's targets when the plan runs in training blocks
+    const position = await getPlanBlockPosition(userId, activePlan.id)
+
     return {
       suggestion: {
         planId: activePlan.id,
@@ -147,11 +178,25 @@ export const getNextWorkoutSuggestion = createServerFn({ method: 'GET' })
         dayName: nextDay.name,
         dayOrder: nextDay.dayOrder,
         exerciseCount: nextDay._count.planExercises,
-        exercises: nextDay.planExercises.map((pe) => ({
-          id: pe.exercise.id,
-          name: pe.exercise.name,
-          muscleGroup: pe.exercise.muscleGroup,
-        })),
+        scheduledFor,
+        block: position && {
+          weekNumber: position.weekNumber,
+          blockWeeks: position.blockWeeks,
+          isDeload: position.week.isDeload,
+          changes: describeWeekChanges(position.week),
+        },
+        exercises: nextDay.planExercises.map((pe) => {
+          const targets = position ? applyPlanWeek(pe, position.week) : pe
+          return {
+            id: pe.exercise.id,
+            name: pe.exercise.name,
+            muscleGroup: pe.exercise.muscleGroup,
+            targetSets: targets.targetSets,
+            targetReps: targets.targetReps,
+            targetRepsMax: targets.targetRepsMax,
+            targetTimeSeconds: pe.targetTimeSeconds,
+          }
+        }),
       },
     }
   })
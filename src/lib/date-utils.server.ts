@@ -1,13 +1,5 @@
 import { prisma } from './db.server'
-import { getWeekStart } from './date-utils'
-
-/** Format a date as YYYY-MM-DD using local time (avoids UTC offset issues) */
-export function toDateString(date: Date): string {
-  const y = date.getFullYear()
-  const m = String(date.getMonth() + 1).padStart(2, '0')
-  const d = String(date.getDate()).padStart(2, '0')
-  return `${y}-${m}-${d}`
-}
+import { getWeekStart, toDateString } from './date-utils'
 
 /**
  * Calculate weekly workout streak for a user
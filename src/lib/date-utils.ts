@@ -34,3 +34,11 @@ export function getDayStart(date: Date): Date {
   d.setHours(0, 0, 0, 0)
   return d
 }
+
+/** Format a date as YYYY-MM-DD using local time (avoids UTC offset issues) */
+export function toDateString(date: Date): string {
+  const y = date.getFullYear()
+  const m = String(date.getMonth() + 1).padStart(2, '0')
+  const d = String(date.getDate()).padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatGroupSummary,
+  getNextInRound,
+  groupIntoBlocks,
+  moveBlockItem,
+  validateExerciseGroup,
+} from './exercise-groups'
+
+type Item = { id: string; groupId: string | null }
+
+const item = (id: string, groupId: string | null = null): Item => ({
+  id,
+  groupId,
+})
+const ids = (items: Array<Item>) => items.map((i) => i.id)
+const getGroupId = (i: Item) => i.groupId
+
+describe('exercise groups', () => {
+  describe('validateExerciseGroup', () => {
+    it('requires exactly two exercises for a superset', () => {
+      expect(() => validateExerciseGroup('SUPERSET', 2, 3, 90)).not.toThrow()
+      expect(() => validateExerciseGroup('SUPERSET', 3, 3, 90)).toThrow(
+        'A superset needs exactly 2 exercises',
+      )
+    })
+
+    it('requires at least three exercises for a giant set', () => {
+      expect(() => validateExerciseGroup('GIANT_SET', 2, 3, 90)).toThrow(
+        'A giant set needs 3 to 10 exercises',
+      )
+    })
+
+    it('rejects out-of-range rounds and rest', () => {
+      expect(() => validateExerciseGroup('CIRCUIT', 4, 0, 90)).toThrow(
+        'Rounds must be between 1 and 20',
+      )
+      expect(() => validateExerciseGroup('CIRCUIT', 4, 3, -1)).toThrow(
+        'Rest must be between 0 and 600 seconds',
+      )
+    })
+  })
+
+  describe('formatGroupSummary', () => {
+    it('describes type, rounds and rest', () => {
+      expect(
+        formatGroupSummary({
+          groupType: 'SUPERSET',
+          rounds: 3,
+          restSeconds: 90,
+        }),
+      ).toBe('Superset · 3 rounds · 1:30 rest')
+    })
+
+    it('handles a single round without rest', () => {
+      expect(
+        formatGroupSummary({ groupType: 'CIRCUIT', rounds: 1, restSeconds: 0 }),
+      ).toBe('Circuit · 1 round · no rest')
+    })
+  })
+
+  describe('groupIntoBlocks', () => {
+    it('keeps consecutive ungrouped items together', () => {
+      const blocks = groupIntoBlocks(
+        [item('a'), item('b'), item('c', 'g1'), item('d', 'g1'), item('e')],
+        getGroupId,
+      )
+
+      expect(blocks.map((b) => [b.groupId, ids(b.items)])).toEqual([
+        [null, ['a', 'b']],
+        ['g1', ['c', 'd']],
+        [null, ['e']],
+      ])
+    })
+
+    it('collects interleaved group members into the first block', () => {
+      const blocks = groupIntoBlocks(
+        [item('a1', 'g1'), item('x'), item('b1', 'g1'), item('a2', 'g1')],
+        getGroupId,
+      )
+
+      expect(blocks.map((b) => ids(b.items))).toEqual([
+        ['a1', 'b1', 'a2'],
+        ['x'],
+      ])
+    })
+  })
+
+  describe('moveBlockItem', () => {
+    const items = [item('a'), item('b', 'g1'), item('c', 'g1'), item('d')]
+
+    it('steps a single item over a whole group', () => {
+      expect(ids(moveBlockItem(items, 0, 'down', getGroupId))).toEqual([
+        'b',
+        'c',
+        'a',
+        'd',
+      ])
+    })
+
+    it('moves a group as a unit', () => {
+      expect(ids(moveBlockItem(items, 2, 'down', getGroupId))).toEqual([
+        'a',
+        'd',
+        'b',
+        'c',
+      ])
+    })
+
+    it('leaves the order unchanged at the edge', () => {
+      expect(ids(moveBlockItem(items, 0, 'up', getGroupId))).toEqual(ids(items))
+    })
+  })
+
+  describe('getNextInRound', () => {
+    it('advances to the next exercise in the round', () => {
+      expect(getNextInRound([1, 0, 0], 0)).toBe(1)
+      expect(getNextInRound([1, 1, 0], 1)).toBe(2)
+    })
+
+    it('returns null when the round is complete', () => {
+      expect(getNextInRound([2, 2, 2], 2)).toBeNull()
+    })
+
+    it('wraps around to a skipped exercise', () => {
+      expect(getNextInRound([1, 2, 2], 2)).toBe(0)
+    })
+  })
+})
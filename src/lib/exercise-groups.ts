@@ -0,0 +1,171 @@
+import {
+  MAX_EXERCISE_GROUP_REST_SECONDS,
+  MAX_EXERCISE_GROUP_ROUNDS,
+  MAX_EXERCISE_GROUP_SIZE,
+} from './constants'
+import { formatTime } from './formatting'
+import type { ExerciseGroupType } from '@prisma/client'
+
+export const EXERCISE_GROUP_TYPES: ReadonlyArray<ExerciseGroupType> = [
+  'SUPERSET',
+  'GIANT_SET',
+  'CIRCUIT',
+]
+
+export const EXERCISE_GROUP_LABELS: Record<ExerciseGroupType, string> = {
+  SUPERSET: 'Superset',
+  CIRCUIT: 'Circuit',
+  GIANT_SET: 'Giant Set',
+}
+
+/** e.g. "Superset · 3 rounds" */
+export function formatGroupRounds(
+  groupType: ExerciseGroupType,
+  rounds: number,
+): string {
+  return `${EXERCISE_GROUP_LABELS[groupType]} · ${rounds} round${rounds !== 1 ? 's' : ''}`
+}
+
+/** e.g. "Superset · 3 rounds · 1:30 rest" */
+export function formatGroupSummary(group: {
+  groupType: ExerciseGroupType
+  rounds: number
+  restSeconds: number
+}): string {
+  const rest =
+    group.restSeconds > 0 ? `${formatTime(group.restSeconds)} rest` : 'no rest'
+  return `${formatGroupRounds(group.groupType, group.rounds)} · ${rest}`
+}
+
+/** Supersets pair two exercises; giant sets chain three or more. */
+const GROUP_SIZE_LIMITS: Record<ExerciseGroupType, [number, number]> = {
+  SUPERSET: [2, 2],
+  GIANT_SET: [3, MAX_EXERCISE_GROUP_SIZE],
+  CIRCUIT: [2, MAX_EXERCISE_GROUP_SIZE],
+}
+
+/** Throws if a group of this type can't hold `size` exercises for `rounds` rounds. */
+export function validateExerciseGroup(
+  groupType: ExerciseGroupType,
+  size: number,
+  rounds: number,
+  restSeconds: number,
+): void {
+  const [min, max] = GROUP_SIZE_LIMITS[groupType]
+  const label = EXERCISE_GROUP_LABELS[groupType]
+  if (size < min || size > max) {
+    throw new Error(
+      min === max
+        ? `A ${label.toLowerCase()} needs exactly ${min} exercises`
+        : `A ${label.toLowerCase()} needs ${min} to ${max} exercises`,
+    )
+  }
+  if (
+    !Number.isInteger(rounds) ||
+    rounds < 1 ||
+    rounds > MAX_EXERCISE_GROUP_ROUNDS
+  ) {
+    throw new Error(`Rounds must be between 1 and ${MAX_EXERCISE_GROUP_ROUNDS}`)
+  }
+  if (restSeconds < 0 || restSeconds > MAX_EXERCISE_GROUP_REST_SECONDS) {
+    throw new Error(
+      `Rest must be between 0 and ${MAX_EXERCISE_GROUP_REST_SECONDS} seconds`,
+    )
+  }
+}
+
+/** A run of items that share a group, or consecutive ungrouped items. */
+export interface ItemBlock<T> {
+  groupId: string | null
+  items: Array<T>
+}
+
+/**
+ * Split an ordered list into display blocks. All members of a group land in
+ * the block where the group first appears, even if other items were logged
+ * between them; consecutive ungrouped items share one block.
+ */
+export function groupIntoBlocks<T>(
+  items: ReadonlyArray<T>,
+  getGroupId: (item: T) => string | null | undefined,
+): Array<ItemBlock<T>> {
+  const blocks: Array<ItemBlock<T>> = []
+  const byGroup = new Map<string, ItemBlock<T>>()
+
+  for (const item of items) {
+    const groupId = getGroupId(item) ?? null
+    if (groupId) {
+      const existing = byGroup.get(groupId)
+      if (existing) {
+        existing.items.push(item)
+      } else {
+        const block = { groupId, items: [item] }
+        byGroup.set(groupId, block)
+        blocks.push(block)
+      }
+      continue
+    }
+
+    const last = blocks.at(-1)
+    if (last && last.groupId === null) {
+      last.items.push(item)
+    } else {
+      blocks.push({ groupId: null, items: [item] })
+    }
+  }
+
+  return blocks
+}
+
+/**
+ * Move the item at `index` (or the whole group it belongs to) one place up or
+ * down, stepping over an adjacent group as a unit so groups stay contiguous.
+ * Returns the list unchanged when it is already at the edge.
+ */
+export function moveBlockItem<T>(
+  items: ReadonlyArray<T>,
+  index: number,
+  direction: 'up' | 'down',
+  getGroupId: (item: T) => string | null | undefined,
+): Array<T> {
+  // Units are single ungrouped items or whole groups
+  const units: Array<Array<T>> = []
+  let unitIndex = -1
+  items.forEach((item, i) => {
+    const groupId = getGroupId(item) ?? null
+    const last = units.at(-1)
+    if (groupId && last && getGroupId(last[0]) === groupId) {
+      last.push(item)
+    } else {
+      units.push([item])
+    }
+    if (i === index) unitIndex = units.length - 1
+  })
+
+  const target = direction === 'up' ? unitIndex - 1 : unitIndex + 1
+  if (unitIndex < 0 || target < 0 || target >= units.length) {
+    return [...items]
+  }
+
+  const temp = units[unitIndex]
+  units[unitIndex] = units[target]
+  units[target] = temp
+  return units.flat()
+}
+
+/**
+ * After a working set of the exercise at `loggedIndex`, pick the group member
+ * to log next in the same round: the first one after it (wrapping around)
+ * that has fewer sets. Returns null once every member has done the round.
+ */
+export function getNextInRound(
+  setCounts: ReadonlyArray<number>,
+  loggedIndex: number,
+): number | null {
+  const round = setCounts[loggedIndex]
+  for (let step = 1; step < setCounts.length; step++) {
+    const i = (loggedIndex + step) % setCounts.length
+    if (setCounts[i] < round) return i
+  }
+  return null
+}
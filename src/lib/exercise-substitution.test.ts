@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest'
+import {
+  carryOverTargets,
+  isEquivalentExercise,
+  rankSubstitutes,
+} from './exercise-substitution'
+import type {
+  CarriedOverTargets,
+  SubstitutableExercise,
+} from './exercise-substitution'
+
+const exercise = (
+  id: string,
+  fields: Partial<SubstitutableExercise> = {},
+): SubstitutableExercise => ({
+  id,
+  muscleGroup: 'LEGS',
+  equipment: 'BARBELL',
+  exerciseType: 'STRENGTH',
+  isTimed: false,
+  ...fields,
+})
+
+const squat = exercise('squat')
+const frontSquat = exercise('front-squat')
+const legPress = exercise('leg-press', { equipment: 'MACHINE' })
+const gobletSquat = exercise('goblet-squat', { equipment: 'DUMBBELL' })
+const bench = exercise('bench', { muscleGroup: 'CHEST' })
+const wallSit = exercise('wall-sit', { equipment: 'NONE', isTimed: true })
+
+const ids = (options: Array<{ exercise: SubstitutableExercise }>) =>
+  options.map((o) => o.exercise.id)
+
+describe('isEquivalentExercise', () => {
+  it('matches the same muscle group and type', () => {
+    expect(isEquivalentExercise(squat, legPress)).toBe(true)
+  })
+
+  it('rejects other muscle groups, timed holds and the exercise itself', () => {
+    expect(isEquivalentExercise(squat, bench)).toBe(false)
+    expect(isEquivalentExercise(squat, wallSit)).toBe(false)
+    expect(isEquivalentExercise(squat, squat)).toBe(false)
+    expect(
+      isEquivalentExercise(
+        squat,
+        exercise('jump', { exerciseType: 'PLYOMETRIC' }),
+      ),
+    ).toBe(false)
+  })
+})
+
+describe('rankSubstitutes', () => {
+  const candidates = [frontSquat, gobletSquat, legPress, bench, wallSit]
+
+  it('offers equivalent exercises in the order given', () => {
+    expect(ids(rankSubstitutes(squat, [], candidates))).toEqual([
+      'front-squat',
+      'goblet-squat',
+      'leg-press',
+    ])
+  })
+
+  it('puts plan alternates first and lists them once', () => {
+    const options = rankSubstitutes(squat, [legPress, bench], candidates)
+    expect(ids(options)).toEqual([
+      'leg-press',
+      'bench',
+      'front-squat',
+      'goblet-squat',
+    ])
+    expect(options.map((o) => o.isAlternate)).toEqual([
+      true,
+      true,
+      false,
+      false,
+    ])
+  })
+
+  it('leaves out equipment that is taken', () => {
+    const options = rankSubstitutes(squat, [frontSquat], candidates, {
+      availableEquipment: new Set(['MACHINE', 'DUMBBELL']),
+    })
+    expect(ids(options)).toEqual(['goblet-squat', 'leg-press'])
+  })
+
+  it('leaves out exercises already in the workout', () => {
+    expect(
+      ids(
+        rankSubstitutes(squat, [legPress], candidates, {
+          excludeIds: ['leg-press', 'front-squat'],
+        }),
+      ),
+    ).toEqual(['goblet-squat'])
+  })
+})
+
+describe('carryOverTargets', () => {
+  it('keeps sets and reps but drops loads', () => {
+    const targets = {
+      targetSets: 3,
+      targetReps: 5,
+      targetRpe: 8,
+      targetWeight: 140,
+      targetPercent1rm: null,
+      setPrescriptions: [
+        {
+          setType: 'TOP',
+          targetWeight: null,
+          targetPercent1rm: 85,
+          percentOff: null,
+        },
+        {
+          setType: 'BACKOFF',
+          targetWeight: null,
+          targetPercent1rm: null,
+          percentOff: 10,
+        },
+      ],
+      progressionSuggestions: [{ weight: 145, reps: 5 }],
+    }
+
+    expect(carryOverTargets(targets)).toEqual({
+      targetSets: 3,
+      targetReps: 5,
+      targetRpe: 8,
+      targetWeight: null,
+      targetPercent1rm: null,
+      setPrescriptions: [
+        {
+          setType: 'TOP',
+          targetWeight: null,
+          targetPercent1rm: null,
+          percentOff: null,
+        },
+        {
+          setType: 'BACKOFF',
+          targetWeight: null,
+          targetPercent1rm: null,
+          percentOff: 10,
+        },
+      ],
+      progressionSuggestions: [],
+    })
+  })
+
+  it('leaves missing schemes and suggestions missing', () => {
+    const carried = carryOverTargets<CarriedOverTargets>({
+      targetWeight: 20,
+      targetPercent1rm: null,
+    })
+    expect(carried.setPrescriptions).toBeUndefined()
+    expect(carried.progressionSuggestions).toBeUndefined()
+  })
+})
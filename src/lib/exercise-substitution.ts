@@ -0,0 +1,89 @@
+import type { Equipment, ExerciseType, MuscleGroup } from '@prisma/client'
+
+/** The parts of an exercise that decide what can stand in for it */
+export interface SubstitutableExercise {
+  id: string
+  muscleGroup: MuscleGroup
+  equipment: Equipment
+  exerciseType: ExerciseType
+  isTimed: boolean
+}
+
+/** The plan targets a substitute carries over */
+export interface CarriedOverTargets {
+  targetWeight: number | null // kg
+  targetPercent1rm: number | null
+  setPrescriptions?: Array<{
+    targetWeight: number | null
+    targetPercent1rm: number | null
+  }>
+  progressionSuggestions?: Array<unknown>
+}
+
+/** Whether `candidate` trains the same way as `original` */
+export function isEquivalentExercise(
+  original: SubstitutableExercise,
+  candidate: SubstitutableExercise,
+): boolean {
+  return (
+    candidate.id !== original.id &&
+    candidate.muscleGroup === original.muscleGroup &&
+    candidate.exerciseType === original.exerciseType &&
+    candidate.isTimed === original.isTimed
+  )
+}
+
+/**
+ * Exercises to offer in place of `original`: the plan's preferred
+ * alternates first, in the plan's order, then equivalent exercises in the
+ * order given. Alternates are trusted even when they work another muscle
+ * group, but both have to fit the equipment that is free, when given.
+ */
+export function rankSubstitutes<T extends SubstitutableExercise>(
+  original: SubstitutableExercise,
+  alternates: ReadonlyArray<T>,
+  candidates: ReadonlyArray<T>,
+  options: {
+    availableEquipment?: ReadonlySet<Equipment>
+    excludeIds?: ReadonlyArray<string>
+  } = {},
+): Array<{ exercise: T; isAlternate: boolean }> {
+  const { availableEquipment, excludeIds = [] } = options
+  const seen = new Set([original.id, ...excludeIds])
+  const result: Array<{ exercise: T; isAlternate: boolean }> = []
+
+  const add = (exercise: T, isAlternate: boolean) => {
+    if (seen.has(exercise.id)) return
+    if (availableEquipment && !availableEquipment.has(exercise.equipment)) {
+      return
+    }
+    seen.add(exercise.id)
+    result.push({ exercise, isAlternate })
+  }
+
+  for (const exercise of alternates) add(exercise, true)
+  for (const exercise of candidates) {
+    if (isEquivalentExercise(original, exercise)) add(exercise, false)
+  }
+  return result
+}
+
+/**
+ * A plan exercise's targets for the exercise done in its place. Sets,
+ * reps, effort and rest carry over; loads don't, since a weight means
+ * something different on another exercise. Back-off and drop percentages
+ * still work from whatever the substitute's top set was.
+ */
+export function carryOverTargets<T extends CarriedOverTargets>(targets: T): T {
+  return {
+    ...targets,
+    targetWeight: null,
+    targetPercent1rm: null,
+    setPrescriptions: targets.setPrescriptions?.map((set) => ({
+      ...set,
+      targetWeight: null,
+      targetPercent1rm: null,
+    })),
+    progressionSuggestions: targets.progressionSuggestions && [],
+  }
+}
@@ -0,0 +1,232 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createExercise,
+  exerciseVisibilityWhere,
+  getExercise,
+  getExercises,
+  reviewExercisePublish,
+  updateExercise,
+} from './exercises.server'
+import { requireAdmin } from './auth-guard.server'
+import { mockPrisma } from '@/test/setup'
+
+// Run server function handlers directly, after their input validator
+vi.mock('@tanstack/react-start', () => ({
+  createServerFn: () => ({
+    inputValidator: (validate: (data: any) => any) => ({
+      handler: (handler: (ctx: { data: any }) => any) => (ctx: { data: any }) =>
+        handler({ data: validate(ctx.data) }),
+    }),
+  }),
+}))
+
+// Tokens are the signed-in user's id; nobody here is an admin
+vi.mock('./auth-guard.server', () => ({
+  requireAuth: vi.fn((token: string | null) => {
+    if (!token) throw new Error('Authentication required')
+    return Promise.resolve({ userId: token, email: '', isAdmin: false })
+  }),
+  requireAdmin: vi.fn(() => Promise.reject(new Error('Admin access required'))),
+}))
+
+vi.mock('./rate-limit.server', () => ({ rateLimit: vi.fn() }))
+
+const exercises = [
+  { id: 'bench', isCustom: false, userId: null, publishStatus: 'PRIVATE' },
+  {
+    id: 'others-private',
+    isCustom: true,
+    userId: 'user-2',
+    publishStatus: 'PRIVATE',
+  },
+  {
+    id: 'others-pending',
+    isCustom: true,
+    userId: 'user-2',
+    publishStatus: 'PENDING',
+  },
+  {
+    id: 'others-approved',
+    isCustom: true,
+    userId: 'user-2',
+    publishStatus: 'APPROVED',
+  },
+  {
+    id: 'own-private',
+    isCustom: true,
+    userId: 'user-1',
+    publishStatus: 'PRIVATE',
+  },
+  {
+    id: 'own-pending',
+    isCustom: true,
+    userId: 'user-1',
+    publishStatus: 'PENDING',
+  },
+]
+
+/** Apply the equality, AND and OR filters these queries use to a row */
+function matches(row: Record<string, unknown>, where: any): boolean {
+  return Object.entries(where).every(([key, value]: [string, any]) => {
+    if (key === 'AND') return value.every((w: any) => matches(row, w))
+    if (key === 'OR') return value.some((w: any) => matches(row, w))
+    // None of the exercises above is used in a plan
+    if (key === 'planExercises') return false
+    return row[key] === value
+  })
+}
+
+beforeEach(() => {
+  vi.mocked(requireAdmin).mockClear()
+  mockPrisma.exercise.findMany.mockImplementation(
+    ({ where }: any) =>
+      Promise.resolve(exercises.filter((e) => matches(e, where))) as any,
+  )
+  mockPrisma.exercise.findFirst.mockImplementation(
+    ({ where }: any) =>
+      Promise.resolve(exercises.find((e) => matches(e, where)) ?? null) as any,
+  )
+})
+
+async function visibleIds(token?: string) {
+  const result = await getExercises({ data: { token } })
+  return result.exercises.map((e) => e.id)
+}
+
+describe('exercise visibility', () => {
+  it('shows anonymous viewers only built-in and approved exercises', async () => {
+    expect(await visibleIds()).toEqual(['bench', 'others-approved'])
+  })
+
+  it('shows the owner their private and pending exercises', async () => {
+    expect(await visibleIds('user-1')).toEqual([
+      'bench',
+      'others-approved',
+      'own-private',
+      'own-pending',
+    ])
+  })
+
+  it("hides another user's private and pending exercises", async () => {
+    const other = await getExercise({
+      data: { id: 'others-private', token: 'user-1' },
+    })
+    const pending = await getExercise({
+      data: { id: 'others-pending', token: 'user-1' },
+    })
+
+    expect(other.exercise).toBeNull()
+    expect(pending.exercise).toBeNull()
+  })
+
+  it('adds exercises from plans the viewer owns or collaborates on', () => {
+    const where = exerciseVisibilityWhere('user-1')
+
+    expect(where.OR).toContainEqual({
+      planExercises: {
+        some: {
+          planDay: {
+            workoutPlan: {
+              OR: [
+                { userId: 'user-1' },
+                {
+                  collaborators: {
+                    some: { userId: 'user-1', inviteStatus: 'ACCEPTED' },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+    })
+  })
+})
+
+describe('createExercise', () => {
+  it('lets any signed-in user create a private custom exercise', async () => {
+    mockPrisma.exercise.create.mockResolvedValue({ id: 'new' } as any)
+
+    await createExercise({
+      data: {
+        name: 'Landmine Press',
+        muscleGroup: 'SHOULDERS',
+        equipment: 'BARBELL',
+        token: 'user-1',
+      },
+    })
+
+    expect(requireAdmin).not.toHaveBeenCalled()
+    expect(mockPrisma.exercise.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ isCustom: true, userId: 'user-1' }),
+    })
+  })
+})
+
+describe('updateExercise', () => {
+  it("denies editing another user's exercise", async () => {
+    mockPrisma.exercise.findUnique.mockResolvedValue(exercises[3] as any)
+
+    await expect(
+      updateExercise({
+        data: { id: 'others-approved', name: 'Mine now', token: 'user-1' },
+      }),
+    ).rejects.toThrow('Not authorized to edit this exercise')
+    expect(mockPrisma.exercise.update).not.toHaveBeenCalled()
+  })
+
+  const approved = {
+    userId: 'user-1',
+    isCustom: true,
+    publishStatus: 'APPROVED',
+    name: 'Landmine Press',
+    description: null,
+    instructions: null,
+  }
+
+  it('keeps an approved exercise published when its text is unchanged', async () => {
+    mockPrisma.exercise.findUnique.mockResolvedValue(approved as any)
+
+    await updateExercise({
+      data: {
+        id: 'own-approved',
+        name: 'Landmine Press',
+        muscleGroup: 'CHEST',
+        token: 'user-1',
+      },
+    })
+
+    expect(mockPrisma.exercise.update).toHaveBeenCalledWith({
+      where: { id: 'own-approved' },
+      data: { name: 'Landmine Press', muscleGroup: 'CHEST' },
+    })
+  })
+
+  it('sends an approved exercise back for review when renamed', async () => {
+    mockPrisma.exercise.findUnique.mockResolvedValue(approved as any)
+
+    await updateExercise({
+      data: {
+        id: 'own-approved',
+        name: 'Half-Kneeling Press',
+        token: 'user-1',
+      },
+    })
+
+    expect(mockPrisma.exercise.update).toHaveBeenCalledWith({
+      where: { id: 'own-approved' },
+      data: expect.objectContaining({ publishStatus: 'PENDING' }),
+    })
+  })
+})
+
+describe('reviewExercisePublish', () => {
+  it('denies users who are not admins', async () => {
+    await expect(
+      reviewExercisePublish({
+        data: { id: 'own-pending', approve: true, token: 'user-1' },
+      }),
+    ).rejects.toThrow('Admin access required')
+    expect(mockPrisma.exercise.updateMany).not.toHaveBeenCalled()
+  })
+})
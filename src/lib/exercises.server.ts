@@ -7,7 +7,64 @@ import {
   validateNameLength,
 } from './validation'
 import { rateLimit } from './rate-limit.server'
-import type { Equipment, ExerciseType, MuscleGroup } from '@prisma/client'
+import { MAX_SUBSTITUTE_OPTIONS } from './constants'
+import type {
+  Equipment,
+  ExerciseType,
+  MuscleGroup,
+  Prisma,
+} from '@prisma/client'
+
+/**
+ * Exercises a viewer may see: built-ins, approved community exercises, their
+ * own custom exercises, and custom exercises used in plans they own or
+ * collaborate on. Anonymous viewers only see built-in and approved ones.
+ */
+export function exerciseVisibilityWhere(
+  viewerId: string | null,
+): Prisma.ExerciseWhereInput {
+  const visible: Array<Prisma.ExerciseWhereInput> = [
+    { isCustom: false },
+    { publishStatus: 'APPROVED' },
+  ]
+
+  if (viewerId) {
+    visible.push(
+      { userId: viewerId },
+      {
+        planExercises: {
+          some: {
+            planDay: {
+              workoutPlan: {
+                OR: [
+                  { userId: viewerId },
+                  {
+                    collaborators: {
+                      some: { userId: viewerId, inviteStatus: 'ACCEPTED' },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      },
+    )
+  }
+
+  return { OR: visible }
+}
+
+// Resolve the viewer from an optional token, treating bad tokens as anonymous
+async function getViewerId(token?: string | null): Promise<string | null> {
+  if (!token) return null
+  try {
+    const auth = await requireAuth(token)
+    return auth.userId
+  } catch {
+    return null
+  }
+}
 
 // Get exercises with optional filtering and cursor pagination
 export const getExercises = createServerFn({ method: 'GET' })
@@ -21,6 +78,7 @@ export const getExercises = createServerFn({ method: 'GET' })
       includeBuiltIn?: boolean
       cursor?: string
       limit?: number
+      token?: string | null
     }) => {
       if (data.limit !== undefined && (data.limit < 1 || data.limit > 100)) {
         throw new Error('limit must be between 1 and 100')
@@ -34,26 +92,24 @@ export const getExercises = createServerFn({ method: 'GET' })
       equipment,
       exerciseType,
       search,
-      // userId and includeBuiltIn kept for API compatibility but not used
-      // since all exercises are now globally available
+      userId,
+      includeBuiltIn = true,
     } = data
 
     const limit = data.limit ?? 50
+    const viewerId = await getViewerId(data.token)
 
-    const where: {
-      muscleGroup?: MuscleGroup
-      equipment?: Equipment
-      exerciseType?: ExerciseType
-      name?: { contains: string; mode: 'insensitive' }
-    } = {}
+    const where: Prisma.ExerciseWhereInput = {
+      AND: [exerciseVisibilityWhere(viewerId)],
+    }
 
     if (muscleGroup) where.muscleGroup = muscleGroup
     if (equipment) where.equipment = equipment
     if (exerciseType) where.exerciseType = exerciseType
     if (search) where.name = { contains: search, mode: 'insensitive' }
-
-    // Show all exercises (built-in + all custom) - custom exercises are globally available
-    // No user filtering needed - everyone can see all exercises
+    // Narrow to one creator's exercises (still subject to visibility)
+    if (userId) where.userId = userId
+    if (!includeBuiltIn) where.isCustom = true
 
     const exercises = await prisma.exercise.findMany({
       where,
@@ -71,20 +127,70 @@ export const getExercises = createServerFn({ method: 'GET' })
     }
   })
 
+// Get every exercise the viewer can see, for pickers that list the whole
+// catalog instead of paging through it
+export const getAllExercises = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token?: string | null }) => data)
+  .handler(async ({ data }) => {
+    const viewerId = await getViewerId(data.token)
+
+    const exercises = await prisma.exercise.findMany({
+      where: exerciseVisibilityWhere(viewerId),
+      orderBy: [{ muscleGroup: 'asc' }, { name: 'asc' }],
+    })
+
+    return { exercises }
+  })
+
 // Get a single exercise by ID
 export const getExercise = createServerFn({ method: 'GET' })
-  .inputValidator((data: { id: string; userId?: string }) => data)
+  .inputValidator((data: { id: string; token?: string | null }) => data)
   .handler(async ({ data }) => {
-    const exercise = await prisma.exercise.findUnique({
-      where: { id: data.id },
-    })
+    const viewerId = await getViewerId(data.token)
 
-    // All exercises (built-in and custom) are viewable by everyone
+    // Private exercises the viewer can't see are reported as missing
+    const exercise = await prisma.exercise.findFirst({
+      where: { id: data.id, ...exerciseVisibilityWhere(viewerId) },
+    })
 
     return { exercise }
   })
 
-// Create a custom exercise (admin only)
+// Exercises that train the same way as the given one, to swap it for
+export const getSubstituteExercises = createServerFn({ method: 'GET' })
+  .inputValidator(
+    (data: { exerciseId: string; search?: string; token: string | null }) =>
+      data,
+  )
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+
+    const exercise = await prisma.exercise.findFirst({
+      where: { id: data.exerciseId, ...exerciseVisibilityWhere(userId) },
+    })
+    if (!exercise) {
+      throw new Error('Exercise not found')
+    }
+
+    const exercises = await prisma.exercise.findMany({
+      where: {
+        AND: [exerciseVisibilityWhere(userId)],
+        id: { not: exercise.id },
+        muscleGroup: exercise.muscleGroup,
+        exerciseType: exercise.exerciseType,
+        isTimed: exercise.isTimed,
+        ...(data.search && {
+          name: { contains: data.search, mode: 'insensitive' },
+        }),
+      },
+      orderBy: { name: 'asc' },
+      take: MAX_SUBSTITUTE_OPTIONS,
+    })
+
+    return { exercise, exercises }
+  })
+
+// Create a custom exercise, private to its creator until published
 export const createExercise = createServerFn({ method: 'POST' })
   .inputValidator(
     (data: {
@@ -103,7 +209,7 @@ export const createExercise = createServerFn({ method: 'POST' })
     validateNameLength(data.name)
     validateDescription(data.description)
     validateInstructions(data.instructions)
-    const { userId } = await requireAdmin(data.token)
+    const { userId } = await requireAuth(data.token)
     const {
       token: _,
       exerciseType = 'STRENGTH' as ExerciseType,
@@ -156,6 +262,13 @@ export const deleteExercise = createServerFn({ method: 'POST' })
     return { success: true }
   })
 
+/** Fields checked when an exercise is submitted to the community */
+const REVIEWED_EXERCISE_FIELDS = [
+  'name',
+  'description',
+  'instructions',
+] as const
+
 // Update a custom exercise (only owner can update)
 export const updateExercise = createServerFn({ method: 'POST' })
   .inputValidator(
@@ -182,7 +295,14 @@ export const updateExercise = createServerFn({ method: 'POST' })
     // Verify ownership and that it's a custom exercise
     const existing = await prisma.exercise.findUnique({
       where: { id },
-      select: { userId: true, isCustom: true },
+      select: {
+        userId: true,
+        isCustom: true,
+        publishStatus: true,
+        name: true,
+        description: true,
+        instructions: true,
+      },
     })
 
     if (!existing) {
@@ -197,10 +317,128 @@ export const updateExercise = createServerFn({ method: 'POST' })
       throw new Error('Not authorized to edit this exercise')
     }
 
+    // A community exercise stays published unless the text others read
+    // changes, which has to be approved again
+    const rewritten = REVIEWED_EXERCISE_FIELDS.some(
+      (field) =>
+        updateData[field] !== undefined &&
+        updateData[field] !== existing[field],
+    )
+    const republish =
+      existing.publishStatus === 'APPROVED' && rewritten
+        ? { publishStatus: 'PENDING' as const, publishRequestedAt: new Date() }
+        : {}
+
     const exercise = await prisma.exercise.update({
       where: { id },
-      data: updateData,
+      data: { ...updateData, ...republish },
+    })
+
+    return { exercise }
+  })
+
+// Ask for a custom exercise to be shared with the community (owner only)
+export const requestExercisePublish = createServerFn({ method: 'POST' })
+  .inputValidator((data: { id: string; token: string | null }) => data)
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'publish-exercise', limit: 10, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
+
+    const existing = await prisma.exercise.findUnique({
+      where: { id: data.id },
+      select: { userId: true, isCustom: true, publishStatus: true },
+    })
+
+    if (!existing) {
+      throw new Error('Exercise not found')
+    }
+
+    if (!existing.isCustom) {
+      throw new Error('Built-in exercises are already public')
+    }
+
+    if (existing.userId !== userId) {
+      throw new Error('Not authorized to publish this exercise')
+    }
+
+    if (
+      existing.publishStatus === 'PENDING' ||
+      existing.publishStatus === 'APPROVED'
+    ) {
+      throw new Error('Exercise has already been submitted')
+    }
+
+    const exercise = await prisma.exercise.update({
+      where: { id: data.id },
+      data: { publishStatus: 'PENDING', publishRequestedAt: new Date() },
+    })
+
+    return { exercise }
+  })
+
+// Withdraw a custom exercise from the community (owner only)
+export const unpublishExercise = createServerFn({ method: 'POST' })
+  .inputValidator((data: { id: string; token: string | null }) => data)
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+
+    const existing = await prisma.exercise.findUnique({
+      where: { id: data.id },
+      select: { userId: true, isCustom: true },
+    })
+
+    if (!existing || !existing.isCustom || existing.userId !== userId) {
+      throw new Error('Not authorized to unpublish this exercise')
+    }
+
+    const exercise = await prisma.exercise.update({
+      where: { id: data.id },
+      data: { publishStatus: 'PRIVATE', publishRequestedAt: null },
     })
 
     return { exercise }
   })
+
+// List custom exercises waiting for publish approval (admin only)
+export const getPendingExercises = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token: string | null }) => data)
+  .handler(async ({ data }) => {
+    await requireAdmin(data.token)
+
+    const exercises = await prisma.exercise.findMany({
+      where: { isCustom: true, publishStatus: 'PENDING' },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            profile: { select: { username: true } },
+          },
+        },
+      },
+      orderBy: { publishRequestedAt: 'asc' },
+    })
+
+    return { exercises }
+  })
+
+// Approve or reject a publish request (admin only)
+export const reviewExercisePublish = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: { id: string; approve: boolean; token: string | null }) => data,
+  )
+  .handler(async ({ data }) => {
+    await requireAdmin(data.token)
+
+    // Conditional update so a request withdrawn meanwhile isn't approved
+    const { count } = await prisma.exercise.updateMany({
+      where: { id: data.id, isCustom: true, publishStatus: 'PENDING' },
+      data: { publishStatus: data.approve ? 'APPROVED' : 'REJECTED' },
+    })
+
+    if (count === 0) {
+      throw new Error('Exercise is not awaiting review')
+    }
+
+    return { success: true }
+  })
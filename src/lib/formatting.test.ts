@@ -1,13 +1,18 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import {
+  formatDistanceMeters,
   formatDuration,
   formatElapsedTime,
   formatFullDate,
   formatPR,
+  formatPace,
+  formatRaceTime,
   formatRelativeDate,
+  formatSetWeight,
   formatTime,
   formatVolume,
   formatWeight,
+  formatWeightKg,
 } from './formatting'
 
 describe('formatting utilities', () => {
@@ -141,6 +146,11 @@ describe('formatting utilities', () => {
     it('formats volumes 1000000+ in M kg', () => {
       expect(formatVolume(1500000)).toBe('1.5M kg')
     })
+
+    it('converts to pounds when that is the display unit', () => {
+      expect(formatVolume(100, 'LBS')).toBe('220 lbs')
+      expect(formatVolume(2500, 'LBS')).toBe('5.5K lbs')
+    })
   })
 
   describe('formatTime', () => {
@@ -167,6 +177,26 @@ describe('formatting utilities', () => {
     })
   })
 
+  describe('formatWeightKg', () => {
+    it('keeps kilograms as stored', () => {
+      expect(formatWeightKg(102.5)).toBe('102.5kg')
+    })
+
+    it('converts kilograms to pounds', () => {
+      expect(formatWeightKg(20, 'LBS')).toBe('44.09lbs')
+    })
+  })
+
+  describe('formatSetWeight', () => {
+    it('shows a set in the unit it was logged in when units match', () => {
+      expect(formatSetWeight(225, 'LBS', 'LBS')).toBe('225lbs')
+    })
+
+    it('converts a pound set for a kilogram display', () => {
+      expect(formatSetWeight(225, 'LBS')).toBe('102.06kg')
+    })
+  })
+
   describe('formatPR', () => {
     it('formats MAX_VOLUME with weight and reps', () => {
       expect(
@@ -207,5 +237,64 @@ describe('formatting utilities', () => {
     it('formats MAX_WEIGHT', () => {
       expect(formatPR({ recordType: 'MAX_WEIGHT', value: 120 })).toBe('120kg')
     })
+
+    it('names rep-max and estimated 1RM records with their weight', () => {
+      expect(formatPR({ recordType: 'REP_MAX_5', value: 100 })).toBe(
+        '5RM 100kg',
+      )
+      expect(formatPR({ recordType: 'E1RM', value: 117 })).toBe(
+        'Est. 1RM 117kg',
+      )
+    })
+
+    it('shows weights in pounds when that is the display unit', () => {
+      expect(
+        formatPR({ recordType: 'MAX_WEIGHT', value: 102.0582 }, 'LBS'),
+      ).toBe('225lbs')
+      expect(
+        formatPR(
+          { recordType: 'MAX_VOLUME', value: 1000, weight: 100, reps: 10 },
+          'LBS',
+        ),
+      ).toBe('220.46lbs x 10 reps')
+    })
+
+    it('formats cardio records in the distance unit', () => {
+      expect(formatPR({ recordType: 'MAX_DISTANCE', value: 8046.72 })).toBe(
+        '8.05km',
+      )
+      expect(
+        formatPR({ recordType: 'MAX_DISTANCE', value: 8046.72 }, 'KG', 'MI'),
+      ).toBe('5mi')
+      expect(formatPR({ recordType: 'FASTEST_5K', value: 1475 })).toBe('24:35')
+    })
+  })
+
+  describe('formatRaceTime', () => {
+    it('uses minutes and seconds under an hour', () => {
+      expect(formatRaceTime(1475)).toBe('24:35')
+    })
+
+    it('adds hours from an hour on', () => {
+      expect(formatRaceTime(3730)).toBe('1:02:10')
+    })
+  })
+
+  describe('formatDistanceMeters', () => {
+    it('shows whole meters', () => {
+      expect(formatDistanceMeters(2000.4, 'M')).toBe('2000m')
+    })
+
+    it('converts meters to kilometers and miles', () => {
+      expect(formatDistanceMeters(5200)).toBe('5.2km')
+      expect(formatDistanceMeters(1609.344, 'MI')).toBe('1mi')
+    })
+  })
+
+  describe('formatPace', () => {
+    it('appends the pace distance', () => {
+      expect(formatPace(330)).toBe('5:30/km')
+      expect(formatPace(112, 'M')).toBe('1:52/500m')
+    })
   })
 })
@@ -2,6 +2,21 @@
  * Shared formatting utilities for consistent display across the app
  */
 
+import {
+  DISTANCE_UNIT_LABELS,
+  PACE_UNIT_LABELS,
+  convertFromMeters,
+} from './cardio'
+import { LENGTH_UNIT_LABELS, convertFromCm } from './measurements'
+import { RECORD_TYPE_LABELS, isStrengthRecord } from './pr-utils'
+import {
+  WEIGHT_UNIT_LABELS,
+  convertFromKg,
+  normalizeToKg,
+} from './weight-utils'
+import type { LengthUnit } from './measurements'
+import type { DistanceUnit, RecordType, WeightUnit } from '@prisma/client'
+
 /**
  * Format a date as a relative time or short date string
  * Examples: "Today", "Yesterday", "3 days ago", "Dec 5"
@@ -71,13 +86,15 @@ export function formatElapsedTime(startedAt: Date | string): string {
 }
 
 /**
- * Format volume in kg to a readable string
- * Examples: "500 kg", "2.5K kg", "1.5M kg"
+ * Format volume in kg to a readable string in the display unit
+ * Examples: "500 kg", "2.5K kg", "1.5M kg", "5.5K lbs"
  */
-export function formatVolume(kg: number): string {
-  if (kg >= 1000000) return `${(kg / 1000000).toFixed(1)}M kg`
-  if (kg >= 1000) return `${(kg / 1000).toFixed(1)}K kg`
-  return `${Math.round(kg)} kg`
+export function formatVolume(kg: number, unit: WeightUnit = 'KG'): string {
+  const value = unit === 'KG' ? kg : convertFromKg(kg, unit)
+  const label = WEIGHT_UNIT_LABELS[unit]
+  if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M ${label}`
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}K ${label}`
+  return `${Math.round(value)} ${label}`
 }
 
 /**
@@ -90,6 +107,18 @@ export function formatTime(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`
 }
 
+/**
+ * Format a time over a distance, with hours once it reaches an hour
+ * Examples: "24:35", "1:02:10"
+ */
+export function formatRaceTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  if (hours === 0) return formatTime(seconds)
+  const mins = Math.floor((seconds % 3600) / 60)
+  const secs = seconds % 60
+  return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+}
+
 /**
  * Format weight with optional unit
  * Example: "100 kg", "225 lbs"
@@ -98,6 +127,54 @@ export function formatWeight(weight: number, unit = 'kg'): string {
   return `${weight} ${unit}`
 }
 
+/**
+ * Format a weight stored in kg in the display unit
+ * Examples: "100kg", "220.46lbs"
+ */
+export function formatWeightKg(kg: number, unit: WeightUnit = 'KG'): string {
+  return `${convertFromKg(kg, unit)}${WEIGHT_UNIT_LABELS[unit]}`
+}
+
+/**
+ * Format a length stored in cm in the display unit
+ * Examples: "82.5cm", "32.5in"
+ */
+export function formatLengthCm(cm: number, unit: LengthUnit = 'CM'): string {
+  return `${convertFromCm(cm, unit)}${LENGTH_UNIT_LABELS[unit]}`
+}
+
+/**
+ * Format a distance stored in meters in the display unit
+ * Examples: "2000m", "5.2km", "3.1mi"
+ */
+export function formatDistanceMeters(
+  meters: number,
+  unit: DistanceUnit = 'KM',
+): string {
+  return `${convertFromMeters(meters, unit)}${DISTANCE_UNIT_LABELS[unit]}`
+}
+
+/**
+ * Format a pace, in seconds per the unit's pace distance
+ * Examples: "5:30/km", "1:52/500m"
+ */
+export function formatPace(seconds: number, unit: DistanceUnit = 'KM'): string {
+  return `${formatRaceTime(seconds)}${PACE_UNIT_LABELS[unit]}`
+}
+
+/**
+ * Format a logged set's weight, stored in the unit it was logged in, in the
+ * display unit
+ * Example: 225 LBS -> "102.06kg"
+ */
+export function formatSetWeight(
+  weight: number,
+  weightUnit: WeightUnit,
+  unit: WeightUnit = 'KG',
+): string {
+  return formatWeightKg(normalizeToKg(weight, weightUnit), unit)
+}
+
 /**
  * Parse decimal input that may use comma or dot as separator
  * Handles iOS keyboards in European locales that use comma
@@ -108,22 +185,43 @@ export function parseDecimalInput(value: string): number {
 }
 
 /**
- * Format a personal record for display based on record type
+ * A rep-max or estimated 1RM record, e.g. "5RM 100kg". Its value is a bare
+ * weight, so the record type is named alongside it.
  */
-export function formatPR(pr: {
-  recordType: string
-  value: number
-  weight?: number | null
-  reps?: number | null
-  timeSeconds?: number | null
-}): string {
+export function formatStrengthRecord(
+  recordType: RecordType,
+  valueKg: number,
+  unit: WeightUnit = 'KG',
+): string {
+  return `${RECORD_TYPE_LABELS[recordType]} ${formatWeightKg(valueKg, unit)}`
+}
+
+/**
+ * Format a personal record for display based on record type.
+ * Weights are expected in kg and distances in meters, and are shown in the
+ * display units.
+ */
+export function formatPR(
+  pr: {
+    recordType: string
+    value: number
+    weight?: number | null
+    reps?: number | null
+    timeSeconds?: number | null
+  },
+  unit: WeightUnit = 'KG',
+  distanceUnit: DistanceUnit = 'KM',
+): string {
+  if (isStrengthRecord(pr.recordType as RecordType)) {
+    return formatStrengthRecord(pr.recordType as RecordType, pr.value, unit)
+  }
   switch (pr.recordType) {
     case 'MAX_VOLUME':
       if (pr.weight && pr.reps) {
-        return `${pr.weight}kg x ${pr.reps} reps`
+        return `${formatWeightKg(pr.weight, unit)} x ${pr.reps} reps`
       }
       if (pr.weight && pr.timeSeconds) {
-        return `${pr.weight}kg x ${formatTime(pr.timeSeconds)}`
+        return `${formatWeightKg(pr.weight, unit)} x ${formatTime(pr.timeSeconds)}`
       }
       if (pr.reps) return `${pr.reps} reps`
       if (pr.timeSeconds) return formatTime(pr.timeSeconds)
@@ -133,7 +231,13 @@ export function formatPR(pr: {
     case 'MAX_REPS':
       return `${pr.value} reps`
     case 'MAX_WEIGHT':
-      return `${pr.value}kg`
+      return formatWeightKg(pr.value, unit)
+    case 'MAX_DISTANCE':
+      return formatDistanceMeters(pr.value, distanceUnit)
+    case 'FASTEST_1K':
+    case 'FASTEST_5K':
+    case 'FASTEST_10K':
+      return formatRaceTime(pr.value)
     default:
       return pr.value.toLocaleString()
   }
@@ -2,8 +2,11 @@ import { createServerFn } from '@tanstack/react-start'
 import { Prisma } from '@prisma/client'
 import { prisma } from './db.server'
 import { requireAuth } from './auth-guard.server'
+import { COUNTED_PR_WHERE } from './pr-utils'
+import { getRelativeStrengthScores } from './relative-strength.server'
+import { setVolumeKgSql } from './volume.server'
 
-type LeaderboardMetric = 'volume' | 'workouts' | 'streak' | 'prs'
+type LeaderboardMetric = 'volume' | 'workouts' | 'streak' | 'prs' | 'strength'
 type TimeRange = 'week' | 'month' | 'all'
 
 // Get global leaderboard
@@ -28,6 +31,8 @@ export const getGlobalLeaderboard = createServerFn({ method: 'GET' })
         return getStreakLeaderboard(limit)
       case 'prs':
         return getPRsLeaderboard(dateFilter, limit)
+      case 'strength':
+        return getStrengthLeaderboard(limit)
     }
   })
 
@@ -63,6 +68,8 @@ export const getFriendsLeaderboard = createServerFn({ method: 'GET' })
         return getStreakLeaderboard(limit, userIds)
       case 'prs':
         return getPRsLeaderboard(dateFilter, limit, userIds)
+      case 'strength':
+        return getStrengthLeaderboard(limit, userIds)
     }
   })
 
@@ -95,12 +102,12 @@ async function getVolumeLeaderboard(
       : Prisma.empty
 
   // Use raw SQL for efficient database-level aggregation
-  // This calculates weight * reps at the database level instead of fetching all rows
+  // This calculates weight * reps (in kg) at the database level instead of fetching all rows
   // Note: Using actual PostgreSQL table/column names (from @@map directives in schema)
   const results = await prisma.$queryRaw<
     Array<{ user_id: string; volume: bigint | null }>
   >`
-    SELECT ws."user_id", SUM(wset.weight * wset.reps) as volume
+    SELECT ws."user_id", SUM(${setVolumeKgSql('wset')}) as volume
     FROM "workout_sets" wset
     JOIN "workout_sessions" ws ON wset."workout_session_id" = ws.id
     WHERE wset."is_warmup" = false
@@ -214,6 +221,7 @@ async function getPRsLeaderboard(
   const prCounts = await prisma.personalRecord.groupBy({
     by: ['userId'],
     where: {
+      ...COUNTED_PR_WHERE,
       ...(dateFilter && { achievedAt: { gte: dateFilter } }),
       ...(userIds && { userId: { in: userIds } }),
     },
@@ -228,6 +236,18 @@ async function getPRsLeaderboard(
   return enrichLeaderboard(sorted)
 }
 
+// Relative strength (DOTS) leaderboard, over users who opted into scores
+async function getStrengthLeaderboard(limit: number, userIds?: Array<string>) {
+  const scores = await getRelativeStrengthScores(userIds)
+
+  const sorted = [...scores]
+    .map(([userId, strength]) => ({ userId, value: strength.dots }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, limit)
+
+  return enrichLeaderboard(sorted)
+}
+
 // Helper: Add user and profile info to leaderboard entries
 async function enrichLeaderboard(
   entries: Array<{ userId: string; value: number }>,
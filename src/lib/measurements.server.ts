@@ -0,0 +1,106 @@
+import { createServerFn } from '@tanstack/react-start'
+import { prisma } from './db.server'
+import { requireAuth } from './auth-guard.server'
+import { MAX_BACKDATE_DAYS, MAX_MEASUREMENT_ENTRIES } from './constants'
+import {
+  MEASUREMENT_SITES,
+  normalizeToCm,
+  validateMeasurement,
+} from './measurements'
+import { rateLimit } from './rate-limit.server'
+import type { LengthUnit } from './measurements'
+import type { MeasurementSite } from '@prisma/client'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Log measurements at one or more sites, taken together
+export const logMeasurements = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      token: string | null
+      values: Array<{ site: MeasurementSite; value: number }>
+      unit?: LengthUnit
+      recordedAt?: string
+    }) => {
+      if (data.values.length === 0) {
+        throw new Error('Enter at least one measurement')
+      }
+      const sites = data.values.map((v) => v.site)
+      if (!sites.every((site) => MEASUREMENT_SITES.includes(site))) {
+        throw new Error('Unknown measurement site')
+      }
+      if (new Set(sites).size !== sites.length) {
+        throw new Error('Each site can only be measured once per entry')
+      }
+      return data
+    },
+  )
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'measurements-log', limit: 20, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
+
+    const values = data.values.map(({ site, value }) => ({
+      site,
+      value: normalizeToCm(value, data.unit ?? 'CM'),
+    }))
+    for (const { value } of values) validateMeasurement(value)
+
+    const now = new Date()
+    const recordedAt = data.recordedAt ? new Date(data.recordedAt) : now
+    if (Number.isNaN(recordedAt.getTime())) {
+      throw new Error('Invalid date')
+    }
+    if (recordedAt > now) {
+      throw new Error('Measurements cannot be logged in the future')
+    }
+    if (recordedAt.getTime() < now.getTime() - MAX_BACKDATE_DAYS * DAY_MS) {
+      throw new Error(
+        `Measurements can be backdated up to ${MAX_BACKDATE_DAYS} days`,
+      )
+    }
+
+    await prisma.bodyMeasurement.createMany({
+      data: values.map((v) => ({ userId, recordedAt, ...v })),
+    })
+
+    return { success: true }
+  })
+
+// Delete a logged measurement
+export const deleteMeasurement = createServerFn({ method: 'POST' })
+  .inputValidator((data: { token: string | null; id: string }) => data)
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'measurements-delete', limit: 20, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
+
+    const { count } = await prisma.bodyMeasurement.deleteMany({
+      where: { id: data.id, userId },
+    })
+    if (count === 0) {
+      throw new Error('Measurement not found')
+    }
+
+    return { success: true }
+  })
+
+// Get the user's measurements in time order, optionally since a date
+export const getMeasurements = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token: string | null; startDate?: string }) => data)
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+
+    // Newest first so the cap drops the oldest entries
+    const measurements = await prisma.bodyMeasurement.findMany({
+      where: {
+        userId,
+        ...(data.startDate && {
+          recordedAt: { gte: new Date(data.startDate) },
+        }),
+      },
+      orderBy: { recordedAt: 'desc' },
+      take: MAX_MEASUREMENT_ENTRIES,
+      select: { id: true, site: true, value: true, recordedAt: true },
+    })
+
+    return { measurements: measurements.reverse() }
+  })
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import {
+  compareMeasurements,
+  convertFromCm,
+  getMeasurementsAt,
+  normalizeToCm,
+  validateMeasurement,
+} from './measurements'
+import { formatLengthCm } from './formatting'
+import type { MeasurementSite } from '@prisma/client'
+
+const reading = (site: MeasurementSite, value: number, day: number) => ({
+  site,
+  value,
+  recordedAt: new Date(Date.UTC(2026, 0, day)),
+})
+
+const day = (d: number) => new Date(Date.UTC(2026, 0, d))
+
+describe('length units', () => {
+  it('converts inches to cm and back', () => {
+    expect(normalizeToCm(32, 'IN')).toBeCloseTo(81.28)
+    expect(normalizeToCm(80, 'CM')).toBe(80)
+    expect(convertFromCm(81.28, 'IN')).toBe(32)
+    expect(convertFromCm(82.46, 'CM')).toBe(82.5)
+  })
+
+  it('formats a length in the display unit', () => {
+    expect(formatLengthCm(82.5)).toBe('82.5cm')
+    expect(formatLengthCm(82.55, 'IN')).toBe('32.5in')
+  })
+})
+
+describe('validateMeasurement', () => {
+  it('accepts believable measurements', () => {
+    expect(() => validateMeasurement(5)).not.toThrow()
+    expect(() => validateMeasurement(300)).not.toThrow()
+  })
+
+  it('rejects measurements out of range or not a number', () => {
+    expect(() => validateMeasurement(4)).toThrow(
+      'Measurements must be between 5 and 300 cm',
+    )
+    expect(() => validateMeasurement(301)).toThrow()
+    expect(() => validateMeasurement(Infinity)).toThrow()
+  })
+})
+
+describe('getMeasurementsAt', () => {
+  it('keeps the latest reading per site up to the time', () => {
+    const at = getMeasurementsAt(
+      [
+        reading('WAIST', 84, 1),
+        reading('WAIST', 82, 10),
+        reading('WAIST', 80, 20),
+        reading('CHEST', 100, 5),
+      ],
+      day(15),
+    )
+    expect(at.get('WAIST')?.value).toBe(82)
+    expect(at.get('CHEST')?.value).toBe(100)
+  })
+})
+
+describe('compareMeasurements', () => {
+  const readings = [
+    reading('WAIST', 84, 1),
+    reading('LEFT_ARM', 36, 1),
+    reading('WAIST', 81.5, 20),
+    reading('LEFT_ARM', 37.2, 20),
+    reading('CHEST', 102, 20),
+  ]
+
+  it('reports each site before and after, in site order', () => {
+    expect(compareMeasurements(readings, day(2), day(25))).toEqual([
+      { site: 'CHEST', from: null, to: 102, change: null },
+      { site: 'WAIST', from: 84, to: 81.5, change: -2.5 },
+      { site: 'LEFT_ARM', from: 36, to: 37.2, change: 1.2 },
+    ])
+  })
+
+  it('leaves out sites not measured by either date', () => {
+    expect(compareMeasurements(readings, day(1), day(2))).toEqual([
+      { site: 'WAIST', from: 84, to: 84, change: 0 },
+      { site: 'LEFT_ARM', from: 36, to: 36, change: 0 },
+    ])
+  })
+})
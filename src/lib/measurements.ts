@@ -0,0 +1,139 @@
+import { MAX_MEASUREMENT_CM, MIN_MEASUREMENT_CM } from './constants'
+import type { MeasurementSite } from '@prisma/client'
+
+export type LengthUnit = 'CM' | 'IN'
+
+export const LENGTH_UNITS: ReadonlyArray<LengthUnit> = ['CM', 'IN']
+
+export const LENGTH_UNIT_LABELS: Record<LengthUnit, string> = {
+  CM: 'cm',
+  IN: 'in',
+}
+
+export const CM_PER_INCH = 2.54
+
+export const MEASUREMENT_SITES: ReadonlyArray<MeasurementSite> = [
+  'NECK',
+  'SHOULDERS',
+  'CHEST',
+  'WAIST',
+  'HIPS',
+  'LEFT_ARM',
+  'RIGHT_ARM',
+  'LEFT_FOREARM',
+  'RIGHT_FOREARM',
+  'LEFT_THIGH',
+  'RIGHT_THIGH',
+  'LEFT_CALF',
+  'RIGHT_CALF',
+]
+
+export const MEASUREMENT_SITE_LABELS: Record<MeasurementSite, string> = {
+  NECK: 'Neck',
+  SHOULDERS: 'Shoulders',
+  CHEST: 'Chest',
+  WAIST: 'Waist',
+  HIPS: 'Hips',
+  LEFT_ARM: 'Left Arm',
+  RIGHT_ARM: 'Right Arm',
+  LEFT_FOREARM: 'Left Forearm',
+  RIGHT_FOREARM: 'Right Forearm',
+  LEFT_THIGH: 'Left Thigh',
+  RIGHT_THIGH: 'Right Thigh',
+  LEFT_CALF: 'Left Calf',
+  RIGHT_CALF: 'Right Calf',
+}
+
+// Sites tracked until the user picks their own
+export const DEFAULT_MEASUREMENT_SITES: ReadonlyArray<MeasurementSite> = [
+  'CHEST',
+  'WAIST',
+  'LEFT_ARM',
+  'RIGHT_ARM',
+]
+
+export function normalizeToCm(value: number, unit: LengthUnit): number {
+  if (unit === 'IN') return value * CM_PER_INCH
+  return value
+}
+
+/** Convert a length in cm to the given display unit, rounded to one decimal */
+export function convertFromCm(cm: number, unit: LengthUnit): number {
+  const value = unit === 'IN' ? cm / CM_PER_INCH : cm
+  return Math.round(value * 10) / 10
+}
+
+/** Throws unless `cm` is a believable tape measurement */
+export function validateMeasurement(cm: number): void {
+  if (
+    !Number.isFinite(cm) ||
+    cm < MIN_MEASUREMENT_CM ||
+    cm > MAX_MEASUREMENT_CM
+  ) {
+    throw new Error(
+      `Measurements must be between ${MIN_MEASUREMENT_CM} and ${MAX_MEASUREMENT_CM} cm`,
+    )
+  }
+}
+
+/** A logged measurement */
+export interface MeasurementReading {
+  site: MeasurementSite
+  value: number // cm
+  recordedAt: Date | string
+}
+
+export interface MeasurementChange {
+  site: MeasurementSite
+  from: number | null
+  to: number | null
+  change: number | null
+}
+
+/** The latest reading for each site at or before `at` */
+export function getMeasurementsAt(
+  readings: ReadonlyArray<MeasurementReading>,
+  at: Date,
+): Map<MeasurementSite, MeasurementReading> {
+  const latest = new Map<MeasurementSite, MeasurementReading>()
+  for (const reading of readings) {
+    const time = new Date(reading.recordedAt).getTime()
+    if (time > at.getTime()) continue
+    const current = latest.get(reading.site)
+    if (!current || time > new Date(current.recordedAt).getTime()) {
+      latest.set(reading.site, reading)
+    }
+  }
+  return latest
+}
+
+/**
+ * How each site measured at two points in time, in {@link MEASUREMENT_SITES}
+ * order. Sites measured at neither are left out; the change is null unless
+ * both have a reading.
+ */
+export function compareMeasurements(
+  readings: ReadonlyArray<MeasurementReading>,
+  from: Date,
+  to: Date,
+): Array<MeasurementChange> {
+  const before = getMeasurementsAt(readings, from)
+  const after = getMeasurementsAt(readings, to)
+
+  return MEASUREMENT_SITES.flatMap((site) => {
+    const fromValue = before.get(site)?.value ?? null
+    const toValue = after.get(site)?.value ?? null
+    if (fromValue === null && toValue === null) return []
+    return [
+      {
+        site,
+        from: fromValue,
+        to: toValue,
+        change:
+          fromValue !== null && toValue !== null
+            ? Math.round((toValue - fromValue) * 10) / 10
+            : null,
+      },
+    ]
+  })
+}
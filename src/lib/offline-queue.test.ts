@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  applyQueuedOperations,
+  cacheActiveSession,
+  clearOfflineData,
+  dropSetOperations,
+  enqueueOperation,
+  loadCachedSession,
+  loadQueue,
+  saveQueue,
+} from './offline-queue'
+import type { QueuedSetOperation } from './offline-queue'
+
+const queuedAt = '2026-10-18T10:00:00.000Z'
+
+const log = (
+  setId: string,
+  reps = 8,
+): Extract<QueuedSetOperation, { kind: 'log' }> => ({
+  kind: 'log',
+  setId,
+  queuedAt,
+  payload: {
+    workoutSessionId: 'session-1',
+    exerciseId: 'ex-1',
+    setNumber: 1,
+    reps,
+  },
+})
+
+describe('enqueueOperation', () => {
+  it('folds an edit into the pending log for that set', () => {
+    const queue = enqueueOperation([log('a')], {
+      kind: 'update',
+      setId: 'a',
+      queuedAt,
+      payload: { reps: 10, weight: undefined },
+    })
+
+    expect(queue).toEqual([log('a', 10)])
+  })
+
+  it('merges repeated edits of a synced set into one', () => {
+    const queue = [{ reps: 10 }, { weight: 100 }].reduce<
+      Array<QueuedSetOperation>
+    >(
+      (q, payload) =>
+        enqueueOperation(q, { kind: 'update', setId: 'a', queuedAt, payload }),
+      [],
+    )
+
+    expect(queue).toEqual([
+      {
+        kind: 'update',
+        setId: 'a',
+        queuedAt,
+        payload: { reps: 10, weight: 100 },
+      },
+    ])
+  })
+
+  it('drops a set that is deleted before it ever synced', () => {
+    const queue = enqueueOperation([log('a'), log('b')], {
+      kind: 'delete',
+      setId: 'a',
+      queuedAt,
+    })
+
+    expect(queue).toEqual([log('b')])
+  })
+
+  it('replaces pending edits with the delete of a synced set', () => {
+    const queue = enqueueOperation(
+      [{ kind: 'update', setId: 'a', queuedAt, payload: { reps: 10 } }],
+      { kind: 'delete', setId: 'a', queuedAt },
+    )
+
+    expect(queue).toEqual([{ kind: 'delete', setId: 'a', queuedAt }])
+  })
+})
+
+describe('dropSetOperations', () => {
+  it('removes every operation for the set', () => {
+    const queue: Array<QueuedSetOperation> = [
+      log('a'),
+      log('b'),
+      { kind: 'update', setId: 'a', queuedAt, payload: { reps: 5 } },
+    ]
+
+    expect(dropSetOperations(queue, 'a')).toEqual([log('b')])
+  })
+})
+
+describe('applyQueuedOperations', () => {
+  const serverSet = { id: 'a', reps: 8, weight: 60 } as any
+
+  it('overlays queued logs, edits and deletes on the server sets', () => {
+    const sets = applyQueuedOperations(
+      [serverSet, { id: 'b', reps: 5, weight: 80 } as any],
+      [
+        { kind: 'update', setId: 'a', queuedAt, payload: { reps: 9 } },
+        { kind: 'delete', setId: 'b', queuedAt },
+        log('c'),
+      ],
+      'session-1',
+      (op) => ({ id: op.setId, reps: op.payload.reps }) as any,
+    )
+
+    expect(sets).toEqual([
+      { id: 'a', reps: 9, weight: 60 },
+      { id: 'c', reps: 8 },
+    ])
+  })
+
+  it('skips logs for other sessions and sets the server already has', () => {
+    const otherSession: QueuedSetOperation = {
+      ...log('c'),
+      payload: { ...log('c').payload, workoutSessionId: 'session-2' },
+    }
+
+    const sets = applyQueuedOperations(
+      [serverSet],
+      [log('a'), otherSession],
+      'session-1',
+      (op) => ({ id: op.setId }) as any,
+    )
+
+    expect(sets).toEqual([serverSet])
+  })
+})
+
+describe('stored queue', () => {
+  beforeEach(() => {
+    const items = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      get length() {
+        return items.size
+      },
+      key: (i: number) => Array.from(items.keys())[i] ?? null,
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("keeps each user's queue and cached workout apart", () => {
+    saveQueue('user-1', [log('a')])
+    cacheActiveSession('user-1', { id: 'session-1' })
+
+    expect(loadQueue('user-1')).toEqual([log('a')])
+    expect(loadQueue('user-2')).toEqual([])
+    expect(loadCachedSession('user-2')).toBeNull()
+  })
+
+  it('forgets every queue and cached workout when cleared', () => {
+    saveQueue('user-1', [log('a')])
+    saveQueue('user-2', [log('b')])
+    cacheActiveSession('user-1', { id: 'session-1' })
+    localStorage.setItem('gymlink:set-queue', JSON.stringify([log('c')]))
+    localStorage.setItem('gymlink_token', 'token')
+
+    clearOfflineData()
+
+    expect(loadQueue('user-1')).toEqual([])
+    expect(loadQueue('user-2')).toEqual([])
+    expect(loadCachedSession('user-1')).toBeNull()
+    expect(localStorage.getItem('gymlink:set-queue')).toBeNull()
+    expect(localStorage.getItem('gymlink_token')).toBe('token')
+  })
+})
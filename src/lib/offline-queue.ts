@@ -0,0 +1,197 @@
+/**
+ * Local queue of workout set changes made while offline (or not yet sent).
+ * Sets get client-generated IDs so queued logs, edits and deletes can refer
+ * to them before the server has seen them, and replays are idempotent.
+ */
+
+import type { DistanceUnit, WeightUnit, WorkoutSet } from '@prisma/client'
+
+export interface SetValues {
+  reps?: number
+  timeSeconds?: number
+  weight?: number
+  weightUnit?: WeightUnit
+  distance?: number
+  distanceUnit?: DistanceUnit
+  avgHeartRate?: number
+  maxHeartRate?: number
+  level?: number
+  calories?: number
+  rpe?: number
+  isWarmup?: boolean
+  isDropset?: boolean
+  notes?: string
+}
+
+export interface LogSetPayload extends SetValues {
+  workoutSessionId: string
+  exerciseId: string
+  setNumber: number
+  groupId?: string
+}
+
+export type QueuedSetOperation =
+  | { kind: 'log'; setId: string; payload: LogSetPayload; queuedAt: string }
+  | { kind: 'update'; setId: string; payload: SetValues; queuedAt: string }
+  | { kind: 'delete'; setId: string; queuedAt: string }
+
+// Both are kept per user, so a shared device never replays or shows one
+// user's workout under another's account
+const QUEUE_KEY_PREFIX = 'gymlink:set-queue'
+const SESSION_CACHE_KEY_PREFIX = 'gymlink:active-session'
+
+function queueKey(userId: string): string {
+  return `${QUEUE_KEY_PREFIX}:${userId}`
+}
+
+function sessionCacheKey(userId: string): string {
+  return `${SESSION_CACHE_KEY_PREFIX}:${userId}`
+}
+
+export function createClientId(): string {
+  return crypto.randomUUID()
+}
+
+export function loadQueue(userId: string): Array<QueuedSetOperation> {
+  if (typeof localStorage === 'undefined') return []
+  try {
+    const stored = JSON.parse(localStorage.getItem(queueKey(userId)) ?? '[]')
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+export function saveQueue(
+  userId: string,
+  queue: Array<QueuedSetOperation>,
+): void {
+  if (typeof localStorage === 'undefined') return
+  if (queue.length === 0) {
+    localStorage.removeItem(queueKey(userId))
+  } else {
+    localStorage.setItem(queueKey(userId), JSON.stringify(queue))
+  }
+}
+
+/** Keep the last loaded workout so it can be reopened without a connection */
+export function cacheActiveSession(userId: string, session: unknown): void {
+  if (typeof localStorage === 'undefined') return
+  if (session === null) {
+    localStorage.removeItem(sessionCacheKey(userId))
+  } else {
+    localStorage.setItem(sessionCacheKey(userId), JSON.stringify(session))
+  }
+}
+
+/** The cached workout, with dates left as ISO strings */
+export function loadCachedSession(userId: string): unknown {
+  if (typeof localStorage === 'undefined') return null
+  try {
+    return JSON.parse(localStorage.getItem(sessionCacheKey(userId)) ?? 'null')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Forget every queued change and cached workout on this device, including
+ * ones stored before they were kept per user. Called on logout.
+ */
+export function clearOfflineData(): void {
+  if (typeof localStorage === 'undefined') return
+  const keys = Array.from({ length: localStorage.length }, (_, i) =>
+    localStorage.key(i),
+  )
+  for (const key of keys) {
+    if (
+      key?.startsWith(QUEUE_KEY_PREFIX) ||
+      key?.startsWith(SESSION_CACHE_KEY_PREFIX)
+    ) {
+      localStorage.removeItem(key)
+    }
+  }
+}
+
+/**
+ * Add an operation, folding it into what is already queued for the same set:
+ * edits merge into a pending log or edit, and deleting a set the server has
+ * never seen drops it from the queue entirely.
+ */
+export function enqueueOperation(
+  queue: ReadonlyArray<QueuedSetOperation>,
+  op: QueuedSetOperation,
+): Array<QueuedSetOperation> {
+  if (op.kind === 'update') {
+    // At most one log or edit is queued per set; fold the change into it
+    const index = queue.findIndex(
+      (q) => q.setId === op.setId && q.kind !== 'delete',
+    )
+    if (index === -1) return [...queue, op]
+    const changes = withoutUndefined(op.payload)
+    return queue.map((q, i): QueuedSetOperation => {
+      if (i !== index || q.kind === 'delete') return q
+      return q.kind === 'log'
+        ? { ...q, payload: { ...q.payload, ...changes } }
+        : { ...q, payload: { ...q.payload, ...changes } }
+    })
+  }
+
+  if (op.kind === 'delete') {
+    const neverSent = queue.some(
+      (q) => q.kind === 'log' && q.setId === op.setId,
+    )
+    const others = queue.filter((q) => q.setId !== op.setId)
+    return neverSent ? others : [...others, op]
+  }
+
+  return [...queue, op]
+}
+
+/** Drop an operation and anything queued after it for the same set. */
+export function dropSetOperations(
+  queue: ReadonlyArray<QueuedSetOperation>,
+  setId: string,
+): Array<QueuedSetOperation> {
+  return queue.filter((q) => q.setId !== setId)
+}
+
+/**
+ * Overlay queued changes on a session's sets as loaded from the server, so
+ * the workout shows what the user did even before it has synced.
+ */
+export function applyQueuedOperations<T extends WorkoutSet>(
+  sets: ReadonlyArray<T>,
+  queue: ReadonlyArray<QueuedSetOperation>,
+  sessionId: string,
+  buildSet: (op: Extract<QueuedSetOperation, { kind: 'log' }>) => T | null,
+): Array<T> {
+  let result = [...sets]
+  for (const op of queue) {
+    if (op.kind === 'log') {
+      if (op.payload.workoutSessionId !== sessionId) continue
+      if (result.some((s) => s.id === op.setId)) continue
+      const set = buildSet(op)
+      if (set) result.push(set)
+    } else if (op.kind === 'update') {
+      result = result.map((s) =>
+        s.id === op.setId ? { ...s, ...withoutUndefined(op.payload) } : s,
+      )
+    } else {
+      result = result.filter((s) => s.id !== op.setId)
+    }
+  }
+  return result
+}
+
+function withoutUndefined(values: SetValues): Partial<SetValues> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, v]) => v !== undefined),
+  )
+}
+
+/** Whether a failed request never reached the server, so it is worth retrying. */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  return error instanceof TypeError
+}
@@ -0,0 +1,36 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+/**
+ * Stand-in for object storage: objects are files under PHOTO_STORAGE_DIR
+ * (default ./data/photos), addressed by key like bucket objects, so a real
+ * bucket client can replace this module without touching its callers.
+ * Nothing here is served directly; callers check ownership first.
+ */
+const STORAGE_ROOT = path.resolve(
+  process.env.PHOTO_STORAGE_DIR ?? path.join('data', 'photos'),
+)
+
+// "<userId>/<photoId>.<ext>", with nothing that could leave the root
+const KEY_PATTERN = /^[\w-]+\/[\w-]+\.(jpg|png|webp)$/
+
+function resolveKey(key: string): string {
+  if (!KEY_PATTERN.test(key)) {
+    throw new Error('Invalid storage key')
+  }
+  return path.join(STORAGE_ROOT, key)
+}
+
+export async function putObject(key: string, body: Buffer): Promise<void> {
+  const file = resolveKey(key)
+  await mkdir(path.dirname(file), { recursive: true, mode: 0o700 })
+  await writeFile(file, body, { mode: 0o600 })
+}
+
+export async function getObject(key: string): Promise<Buffer> {
+  return readFile(resolveKey(key))
+}
+
+export async function deleteObject(key: string): Promise<void> {
+  await rm(resolveKey(key), { force: true })
+}
@@ -0,0 +1,105 @@
+import { prisma } from './db.server'
+import { getNextBlockWeek, getPlanWeek } from './plan-weeks'
+import type { PlanWeekSettings } from './plan-weeks'
+
+export interface PlanBlockPosition {
+  weekNumber: number
+  blockWeeks: number
+  blocksCompleted: number
+  weekStartedAt: Date | null
+  week: PlanWeekSettings
+}
+
+/**
+ * Where the user is in the plan's training block, or null for a plan
+ * without one. Users who haven't trained the block yet are in week 1.
+ */
+export async function getPlanBlockPosition(
+  userId: string,
+  workoutPlanId: string,
+): Promise<PlanBlockPosition | null> {
+  const plan = await prisma.workoutPlan.findUnique({
+    where: { id: workoutPlanId },
+    select: {
+      blockWeeks: true,
+      weeks: true,
+      blockProgress: { where: { userId } },
+    },
+  })
+  if (!plan?.blockWeeks) return null
+
+  const progress = plan.blockProgress.at(0)
+  // The block may have been shortened since the user reached this week
+  const weekNumber = Math.min(progress?.currentWeek ?? 1, plan.blockWeeks)
+  return {
+    weekNumber,
+    blockWeeks: plan.blockWeeks,
+    blocksCompleted: progress?.blocksCompleted ?? 0,
+    weekStartedAt: progress?.weekStartedAt ?? null,
+    week: getPlanWeek(plan.weeks, weekNumber),
+  }
+}
+
+/**
+ * Move the user on to the next week of the plan's block once a session
+ * finishes its last training day, starting the block over after its last
+ * week. Only a session from the current week counts, so finishing an old
+ * one again can't skip a week. Failures are logged rather than thrown so
+ * finishing a workout never depends on it.
+ */
+export async function advancePlanBlock(
+  userId: string,
+  sessionId: string,
+): Promise<void> {
+  try {
+    const session = await prisma.workoutSession.findFirst({
+      where: { id: sessionId, userId },
+      select: {
+        blockWeek: true,
+        completedAt: true,
+        planDay: {
+          select: {
+            dayOrder: true,
+            workoutPlan: {
+              select: {
+                id: true,
+                blockWeeks: true,
+                planDays: {
+                  where: { restDay: false },
+                  select: { dayOrder: true },
+                },
+                blockProgress: { where: { userId } },
+              },
+            },
+          },
+        },
+      },
+    })
+
+    const plan = session?.planDay?.workoutPlan
+    if (!session?.blockWeek || !session.planDay || !plan?.blockWeeks) return
+
+    const lastDayOrder = Math.max(...plan.planDays.map((d) => d.dayOrder))
+    if (session.planDay.dayOrder < lastDayOrder) return
+
+    const progress = plan.blockProgress.at(0)
+    if ((progress?.currentWeek ?? 1) !== session.blockWeek) return
+
+    const next = getNextBlockWeek(session.blockWeek, plan.blockWeeks)
+    const data = {
+      currentWeek: next.week,
+      blocksCompleted:
+        (progress?.blocksCompleted ?? 0) + (next.rolledOver ? 1 : 0),
+      weekStartedAt: session.completedAt ?? new Date(),
+    }
+    await prisma.planBlockProgress.upsert({
+      where: {
+        userId_workoutPlanId: { userId, workoutPlanId: plan.id },
+      },
+      create: { userId, workoutPlanId: plan.id, ...data },
+      update: data,
+    })
+  } catch (error) {
+    console.error('Failed to advance plan block:', error)
+  }
+}
@@ -0,0 +1,100 @@
+import { prisma } from './db.server'
+import { getNextTargets } from './progression-rules'
+import { getPlanWeek, toBaseWeekSet } from './plan-weeks'
+import { normalizeToKg } from './weight-utils'
+
+/**
+ * Compute the user's next-session targets for every plan exercise with a
+ * progression scheme in a finished session, from its working sets. A
+ * backdated session never replaces a suggestion from a later one, and a
+ * deload week never replaces one at all. Sets from other weeks of a
+ * training block count as if lifted under the plan as written. Failures
+ * are logged rather than thrown so finishing a workout never depends on it.
+ */
+export async function updateProgressionSuggestions(
+  userId: string,
+  sessionId: string,
+): Promise<void> {
+  try {
+    const session = await prisma.workoutSession.findFirst({
+      where: { id: sessionId, userId },
+      select: {
+        completedAt: true,
+        blockWeek: true,
+        workoutPlan: { select: { weeks: true } },
+        planDay: {
+          select: {
+            planExercises: {
+              where: { progressionScheme: { not: null } },
+              select: {
+                id: true,
+                exerciseId: true,
+                progressionScheme: true,
+                targetSets: true,
+                targetReps: true,
+                targetRepsMax: true,
+                targetRpe: true,
+                targetRir: true,
+                weightIncrement: true,
+                progressionSuggestions: {
+                  where: { userId },
+                  select: { basedOnAt: true },
+                },
+              },
+            },
+          },
+        },
+        workoutSets: {
+          where: { isWarmup: false, isDropset: false },
+          orderBy: { completedAt: 'asc' },
+          select: {
+            exerciseId: true,
+            weight: true,
+            weightUnit: true,
+            reps: true,
+            rpe: true,
+          },
+        },
+      },
+    })
+
+    const completedAt = session?.completedAt
+    if (!session?.planDay || !completedAt) return
+
+    const week = session.blockWeek
+      ? getPlanWeek(session.workoutPlan?.weeks ?? [], session.blockWeek)
+      : null
+    if (week?.isDeload) return
+
+    for (const planExercise of session.planDay.planExercises) {
+      const current = planExercise.progressionSuggestions.at(0)
+      if (current && current.basedOnAt > completedAt) continue
+
+      const next = getNextTargets(
+        planExercise,
+        session.workoutSets
+          .filter((s) => s.exerciseId === planExercise.exerciseId)
+          .map((s) => {
+            const set = {
+              weightKg: normalizeToKg(s.weight ?? 0, s.weightUnit),
+              reps: s.reps ?? 0,
+              rpe: s.rpe,
+            }
+            return week ? toBaseWeekSet(set, week) : set
+          }),
+      )
+      if (!next) continue
+
+      const data = { ...next, basedOnAt: completedAt }
+      await prisma.progressionSuggestion.upsert({
+        where: {
+          userId_planExerciseId: { userId, planExerciseId: planExercise.id },
+        },
+        create: { userId, planExerciseId: planExercise.id, ...data },
+        update: data,
+      })
+    }
+  } catch (error) {
+    console.error('Failed to update progression suggestions:', error)
+  }
+}
@@ -0,0 +1,72 @@
+import { prisma } from './db.server'
+import { ADHERENCE_WINDOW_DAYS } from './constants'
+import { getDayStart, toDateString } from './date-utils'
+import {
+  calculateAdherence,
+  getScheduledDates,
+  getScheduledDayStatus,
+} from './plan-schedule'
+import type {
+  Adherence,
+  PlanSchedule,
+  SchedulableDay,
+  ScheduledDayStatus,
+} from './plan-schedule'
+
+type ScheduledPlan<T extends SchedulableDay> = PlanSchedule & {
+  id: string
+  planDays: ReadonlyArray<T>
+}
+
+/**
+ * The plan's scheduled days from `from` to `to` (inclusive), each marked
+ * completed, missed or planned from the user's sessions of the plan.
+ */
+export async function getPlanCalendar<T extends SchedulableDay>(
+  userId: string,
+  plan: ScheduledPlan<T>,
+  from: Date,
+  to: Date,
+  now = new Date(),
+): Promise<Array<{ date: Date; day: T; status: ScheduledDayStatus }>> {
+  const scheduled = getScheduledDates(plan, plan.planDays, from, to)
+  if (scheduled.length === 0) return []
+
+  const end = getDayStart(to)
+  end.setDate(end.getDate() + 1)
+  const sessions = await prisma.workoutSession.findMany({
+    where: {
+      userId,
+      workoutPlanId: plan.id,
+      completedAt: { gte: getDayStart(from), lt: end },
+    },
+    select: { completedAt: true },
+  })
+  const completedDates = new Set(
+    sessions.flatMap((s) =>
+      s.completedAt ? [toDateString(s.completedAt)] : [],
+    ),
+  )
+
+  return scheduled.map(({ date, day }) => ({
+    date,
+    day,
+    status: getScheduledDayStatus(date, completedDates, now),
+  }))
+}
+
+/** How many of the plan's scheduled days the user trained lately */
+export async function getPlanAdherence(
+  userId: string,
+  plan: ScheduledPlan<SchedulableDay>,
+  now = new Date(),
+): Promise<Adherence | null> {
+  if (!plan.scheduleType || !plan.scheduleStartDate) return null
+  const windowStart = getDayStart(now)
+  windowStart.setDate(windowStart.getDate() - ADHERENCE_WINDOW_DAYS)
+  const from =
+    plan.scheduleStartDate > windowStart ? plan.scheduleStartDate : windowStart
+
+  const calendar = await getPlanCalendar(userId, plan, from, now, now)
+  return calculateAdherence(calendar.map((d) => d.status))
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateAdherence,
+  describeSchedule,
+  getIsoWeekday,
+  getScheduledDates,
+  getScheduledDay,
+  getScheduledDayStatus,
+  validatePlanSchedule,
+} from './plan-schedule'
+import type { PlanSchedule, SchedulableDay } from './plan-schedule'
+
+// Monday 19 October 2026
+const monday = new Date(2026, 9, 19)
+const date = (offset: number) => new Date(2026, 9, 19 + offset)
+
+const days: Array<SchedulableDay> = [
+  { id: 'push', dayOrder: 1, restDay: false, weekday: 1 },
+  { id: 'rest', dayOrder: 2, restDay: true, weekday: null },
+  { id: 'pull', dayOrder: 3, restDay: false, weekday: 3 },
+  { id: 'legs', dayOrder: 4, restDay: false, weekday: 5 },
+]
+
+const weekdays: PlanSchedule = {
+  scheduleType: 'WEEKDAYS',
+  rotationDaysOn: null,
+  rotationDaysOff: null,
+  scheduleStartDate: monday,
+}
+
+const rotation: PlanSchedule = {
+  scheduleType: 'ROTATION',
+  rotationDaysOn: 2,
+  rotationDaysOff: 1,
+  scheduleStartDate: monday,
+}
+
+describe('getIsoWeekday', () => {
+  it('numbers Monday 1 through Sunday 7', () => {
+    expect(getIsoWeekday(monday)).toBe(1)
+    expect(getIsoWeekday(date(6))).toBe(7)
+  })
+})
+
+describe('validatePlanSchedule', () => {
+  it('accepts no schedule', () => {
+    expect(() =>
+      validatePlanSchedule({ ...weekdays, scheduleType: null }, days),
+    ).not.toThrow()
+  })
+
+  it('accepts pinned weekdays and a rotation', () => {
+    expect(() => validatePlanSchedule(weekdays, days)).not.toThrow()
+    expect(() => validatePlanSchedule(rotation, days)).not.toThrow()
+  })
+
+  it('requires a start date', () => {
+    expect(() =>
+      validatePlanSchedule({ ...weekdays, scheduleStartDate: null }, days),
+    ).toThrow('Choose when the schedule starts')
+  })
+
+  it('rejects a rotation without training days on', () => {
+    expect(() =>
+      validatePlanSchedule({ ...rotation, rotationDaysOn: 0 }, days),
+    ).toThrow('Days on must be between 1 and 14')
+    expect(() =>
+      validatePlanSchedule({ ...rotation, rotationDaysOff: 15 }, days),
+    ).toThrow('Days off must be between 0 and 14')
+  })
+
+  it('requires a pinned training day', () => {
+    const unpinned = days.map((d) => ({ ...d, weekday: null }))
+    expect(() => validatePlanSchedule(weekdays, unpinned)).toThrow(
+      'Pin at least one training day to a weekday',
+    )
+  })
+
+  it('rejects two days on the same weekday', () => {
+    const clashing = days.map((d) =>
+      d.id === 'pull' ? { ...d, weekday: 1 } : d,
+    )
+    expect(() => validatePlanSchedule(weekdays, clashing)).toThrow(
+      'Two days are pinned to Mon',
+    )
+  })
+})
+
+describe('getScheduledDay', () => {
+  it('places days on their pinned weekdays', () => {
+    expect(getScheduledDay(weekdays, days, monday)?.id).toBe('push')
+    expect(getScheduledDay(weekdays, days, date(1))).toBeNull()
+    expect(getScheduledDay(weekdays, days, date(2))?.id).toBe('pull')
+    expect(getScheduledDay(weekdays, days, date(11))?.id).toBe('legs')
+  })
+
+  it('runs a rotation through the training days in order', () => {
+    const ids = Array.from(
+      { length: 7 },
+      (_, i) => getScheduledDay(rotation, days, date(i))?.id ?? null,
+    )
+    expect(ids).toEqual(['push', 'pull', null, 'legs', 'push', null, 'pull'])
+  })
+
+  it('schedules nothing before the start date', () => {
+    expect(getScheduledDay(weekdays, days, date(-7))).toBeNull()
+    expect(getScheduledDay(rotation, days, date(-1))).toBeNull()
+  })
+
+  it('ignores the time of day', () => {
+    const evening = new Date(2026, 9, 21, 20, 30)
+    expect(getScheduledDay(rotation, days, evening)).toBeNull()
+  })
+})
+
+describe('getScheduledDates', () => {
+  it('lists each scheduled day in the range', () => {
+    const scheduled = getScheduledDates(weekdays, days, monday, date(6))
+    expect(scheduled.map((s) => [s.date.getDate(), s.day.id])).toEqual([
+      [19, 'push'],
+      [21, 'pull'],
+      [23, 'legs'],
+    ])
+  })
+})
+
+describe('getScheduledDayStatus', () => {
+  const completed = new Set(['2026-10-19'])
+
+  it('marks trained, missed and upcoming days', () => {
+    const today = new Date(2026, 9, 22, 9)
+    expect(getScheduledDayStatus(monday, completed, today)).toBe('completed')
+    expect(getScheduledDayStatus(date(2), completed, today)).toBe('missed')
+    expect(getScheduledDayStatus(date(3), completed, today)).toBe('planned')
+  })
+})
+
+describe('calculateAdherence', () => {
+  it('counts trained days against the days that have passed', () => {
+    expect(
+      calculateAdherence(['completed', 'missed', 'completed', 'planned']),
+    ).toEqual({ planned: 3, completed: 2, percent: 67 })
+  })
+
+  it('has no percentage before a scheduled day passes', () => {
+    expect(calculateAdherence(['planned'])).toEqual({
+      planned: 0,
+      completed: 0,
+      percent: null,
+    })
+  })
+})
+
+describe('describeSchedule', () => {
+  it('describes each schedule type', () => {
+    expect(describeSchedule(weekdays, days)).toBe('Mon · Wed · Fri')
+    expect(describeSchedule(rotation, days)).toBe('2 on, 1 off')
+    expect(
+      describeSchedule({ ...weekdays, scheduleType: null }, days),
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,202 @@
+import { MAX_ROTATION_DAYS } from './constants'
+import { getDayStart, toDateString } from './date-utils'
+import type { PlanScheduleType } from '@prisma/client'
+
+/** How a plan's training days land on the calendar */
+export interface PlanSchedule {
+  scheduleType: PlanScheduleType | null
+  rotationDaysOn: number | null
+  rotationDaysOff: number | null
+  scheduleStartDate: Date | null
+}
+
+/** The parts of a plan day a schedule places */
+export interface SchedulableDay {
+  id: string
+  dayOrder: number
+  restDay: boolean
+  weekday: number | null // 1 = Monday ... 7 = Sunday
+}
+
+export type ScheduledDayStatus = 'completed' | 'missed' | 'planned'
+
+export interface Adherence {
+  planned: number
+  completed: number
+  percent: number | null // Null until a planned day has passed
+}
+
+export const PLAN_SCHEDULE_TYPE_LABELS: Record<PlanScheduleType, string> = {
+  WEEKDAYS: 'Weekdays',
+  ROTATION: 'Rotation',
+}
+
+export const WEEKDAYS = [1, 2, 3, 4, 5, 6, 7] as const
+
+export const WEEKDAY_LABELS: Record<number, string> = {
+  1: 'Mon',
+  2: 'Tue',
+  3: 'Wed',
+  4: 'Thu',
+  5: 'Fri',
+  6: 'Sat',
+  7: 'Sun',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** 1 = Monday ... 7 = Sunday */
+export function getIsoWeekday(date: Date): number {
+  const day = date.getDay()
+  return day === 0 ? 7 : day
+}
+
+/** Whole calendar days from `from` to `to`, ignoring the time of day */
+function daysBetween(from: Date, to: Date): number {
+  return Math.round(
+    (getDayStart(to).getTime() - getDayStart(from).getTime()) / DAY_MS,
+  )
+}
+
+function getTrainingDays<T extends SchedulableDay>(
+  days: ReadonlyArray<T>,
+): Array<T> {
+  return days.filter((d) => !d.restDay).sort((a, b) => a.dayOrder - b.dayOrder)
+}
+
+/** Throws if the schedule can't place the plan's days. */
+export function validatePlanSchedule(
+  schedule: PlanSchedule,
+  days: ReadonlyArray<SchedulableDay>,
+): void {
+  const { scheduleType } = schedule
+  if (!scheduleType) return
+  if (!schedule.scheduleStartDate) {
+    throw new Error('Choose when the schedule starts')
+  }
+
+  if (scheduleType === 'ROTATION') {
+    const on = schedule.rotationDaysOn
+    const off = schedule.rotationDaysOff
+    if (!on || on < 1 || on > MAX_ROTATION_DAYS) {
+      throw new Error(`Days on must be between 1 and ${MAX_ROTATION_DAYS}`)
+    }
+    if (off === null || off < 0 || off > MAX_ROTATION_DAYS) {
+      throw new Error(`Days off must be between 0 and ${MAX_ROTATION_DAYS}`)
+    }
+    if (!Number.isInteger(on) || !Number.isInteger(off)) {
+      throw new Error('Days on and off must be whole days')
+    }
+    return
+  }
+
+  const pinned = getTrainingDays(days).filter((d) => d.weekday !== null)
+  if (pinned.length === 0) {
+    throw new Error('Pin at least one training day to a weekday')
+  }
+  const weekdays = new Set<number>()
+  for (const day of pinned) {
+    const weekday = day.weekday ?? 0
+    if (!(WEEKDAYS as ReadonlyArray<number>).includes(weekday)) {
+      throw new Error('Weekday must be between 1 (Monday) and 7 (Sunday)')
+    }
+    if (weekdays.has(weekday)) {
+      throw new Error(`Two days are pinned to ${WEEKDAY_LABELS[weekday]}`)
+    }
+    weekdays.add(weekday)
+  }
+}
+
+/**
+ * The plan day scheduled on `date`, or null for a day off. Weekday plans
+ * train on each day's pinned weekday; rotations work through the training
+ * days in order, `rotationDaysOn` at a time, then rest `rotationDaysOff`.
+ * Nothing is scheduled before the start date.
+ */
+export function getScheduledDay<T extends SchedulableDay>(
+  schedule: PlanSchedule,
+  days: ReadonlyArray<T>,
+  date: Date,
+): T | null {
+  const start = schedule.scheduleStartDate
+  if (!schedule.scheduleType || !start) return null
+  const offset = daysBetween(start, date)
+  if (offset < 0) return null
+
+  const trainingDays = getTrainingDays(days)
+  if (schedule.scheduleType === 'WEEKDAYS') {
+    const weekday = getIsoWeekday(date)
+    return trainingDays.find((d) => d.weekday === weekday) ?? null
+  }
+
+  const on = schedule.rotationDaysOn ?? 0
+  const cycle = on + (schedule.rotationDaysOff ?? 0)
+  if (on === 0 || trainingDays.length === 0) return null
+  const position = offset % cycle
+  if (position >= on) return null
+  const trainingIndex = Math.floor(offset / cycle) * on + position
+  return trainingDays[trainingIndex % trainingDays.length]
+}
+
+/** Every scheduled day from `from` up to and including `to` */
+export function getScheduledDates<T extends SchedulableDay>(
+  schedule: PlanSchedule,
+  days: ReadonlyArray<T>,
+  from: Date,
+  to: Date,
+): Array<{ date: Date; day: T }> {
+  const result: Array<{ date: Date; day: T }> = []
+  const date = getDayStart(from)
+  while (date <= to) {
+    const day = getScheduledDay(schedule, days, date)
+    if (day) result.push({ date: new Date(date), day })
+    date.setDate(date.getDate() + 1)
+  }
+  return result
+}
+
+/**
+ * Whether a scheduled day was trained: completed when the user finished a
+ * session of the plan that date, missed once the day has passed without
+ * one, and planned for today and later.
+ */
+export function getScheduledDayStatus(
+  date: Date,
+  completedDates: ReadonlySet<string>, // YYYY-MM-DD
+  today: Date,
+): ScheduledDayStatus {
+  if (completedDates.has(toDateString(date))) return 'completed'
+  return date < getDayStart(today) ? 'missed' : 'planned'
+}
+
+/** Share of the scheduled days so far that were trained */
+export function calculateAdherence(
+  statuses: ReadonlyArray<ScheduledDayStatus>,
+): Adherence {
+  const completed = statuses.filter((s) => s === 'completed').length
+  const planned = completed + statuses.filter((s) => s === 'missed').length
+  return {
+    planned,
+    completed,
+    percent: planned > 0 ? Math.round((completed / planned) * 100) : null,
+  }
+}
+
+/** e.g. "Mon · Wed · Fri" or "3 on, 1 off", or null when unscheduled */
+export function describeSchedule(
+  schedule: PlanSchedule,
+  days: ReadonlyArray<SchedulableDay>,
+): string | null {
+  if (schedule.scheduleType === 'ROTATION') {
+    return `${schedule.rotationDaysOn} on, ${schedule.rotationDaysOff} off`
+  }
+  if (schedule.scheduleType === 'WEEKDAYS') {
+    return getTrainingDays(days)
+      .map((d) => d.weekday)
+      .filter((weekday) => weekday !== null)
+      .sort((a, b) => a - b)
+      .map((weekday) => WEEKDAY_LABELS[weekday])
+      .join(' · ')
+  }
+  return null
+}
@@ -0,0 +1,76 @@
+import { prisma } from './db.server'
+import { E1RM_LOOKBACK_DAYS } from './constants'
+import { getEstimatedOneRepMaxes, resolvePercentWeight } from './plan-targets'
+import { normalizeToKg } from './weight-utils'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Turn %1RM targets into kg for one user, from the best estimated 1RM in
+ * their completed sets (last {@link E1RM_LOOKBACK_DAYS} days, else all
+ * time). Keyed by plan exercise id, or set prescription id for per-set
+ * targets; exercises the user has never lifted are left out.
+ */
+export async function resolvePercentTargets(
+  userId: string,
+  planExercises: ReadonlyArray<{
+    id: string
+    exerciseId: string
+    targetPercent1rm: number | null
+    setPrescriptions?: ReadonlyArray<{
+      id: string
+      targetPercent1rm: number | null
+    }>
+  }>,
+  now = new Date(),
+): Promise<Record<string, number>> {
+  const percentTargets = planExercises
+    .flatMap((pe) => [
+      pe,
+      ...(pe.setPrescriptions ?? []).map((set) => ({
+        ...set,
+        exerciseId: pe.exerciseId,
+      })),
+    ])
+    .filter((target) => target.targetPercent1rm !== null)
+  if (percentTargets.length === 0) return {}
+
+  const sets = await prisma.workoutSet.findMany({
+    where: {
+      exerciseId: { in: percentTargets.map((target) => target.exerciseId) },
+      isWarmup: false,
+      reps: { gt: 0 },
+      weight: { gt: 0 },
+      workoutSession: { userId, completedAt: { not: null } },
+    },
+    select: {
+      exerciseId: true,
+      weight: true,
+      weightUnit: true,
+      reps: true,
+      completedAt: true,
+    },
+  })
+
+  const oneRepMaxes = getEstimatedOneRepMaxes(
+    sets.map((s) => ({
+      exerciseId: s.exerciseId,
+      weightKg: normalizeToKg(s.weight ?? 0, s.weightUnit),
+      reps: s.reps ?? 0,
+      completedAt: s.completedAt,
+    })),
+    new Date(now.getTime() - E1RM_LOOKBACK_DAYS * DAY_MS),
+  )
+
+  const weights: Record<string, number> = {}
+  for (const target of percentTargets) {
+    const oneRepMax = oneRepMaxes.get(target.exerciseId)
+    if (oneRepMax && target.targetPercent1rm !== null) {
+      weights[target.id] = resolvePercentWeight(
+        target.targetPercent1rm,
+        oneRepMax,
+      )
+    }
+  }
+  return weights
+}
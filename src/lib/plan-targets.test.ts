@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatLoadTarget,
+  formatRepTarget,
+  getEstimatedOneRepMaxes,
+  getTargetRpe,
+  resolvePercentWeight,
+  validateIntensityTargets,
+} from './plan-targets'
+import type { IntensityTargets, LiftedSet } from './plan-targets'
+
+const targets = (
+  overrides: Partial<IntensityTargets> = {},
+): IntensityTargets => ({
+  targetReps: 8,
+  targetRepsMax: null,
+  targetRpe: null,
+  targetRir: null,
+  targetPercent1rm: null,
+  ...overrides,
+})
+
+describe('validateIntensityTargets', () => {
+  it('accepts a rep range with an RIR target', () => {
+    expect(() =>
+      validateIntensityTargets(
+        targets({ targetRepsMax: 12, targetRir: 2 }),
+        false,
+      ),
+    ).not.toThrow()
+  })
+
+  it('rejects a rep range that does not climb', () => {
+    expect(() =>
+      validateIntensityTargets(targets({ targetRepsMax: 8 }), false),
+    ).toThrow('top of the rep range')
+  })
+
+  it('rejects both an RPE and an RIR target', () => {
+    expect(() =>
+      validateIntensityTargets(targets({ targetRpe: 8, targetRir: 2 }), false),
+    ).toThrow('not both')
+  })
+
+  it('rejects percentages outside 1 to 100', () => {
+    expect(() =>
+      validateIntensityTargets(targets({ targetPercent1rm: 120 }), false),
+    ).toThrow('%1RM must be between')
+  })
+
+  it('rejects %1RM targets on timed exercises', () => {
+    expect(() =>
+      validateIntensityTargets(
+        targets({ targetReps: null, targetPercent1rm: 80 }),
+        true,
+      ),
+    ).toThrow('rep-based exercise')
+  })
+})
+
+describe('getTargetRpe', () => {
+  it('converts reps in reserve to RPE', () => {
+    expect(getTargetRpe({ targetRpe: null, targetRir: 2 })).toBe(8)
+    expect(getTargetRpe({ targetRpe: null, targetRir: null })).toBeNull()
+  })
+})
+
+describe('formatting targets', () => {
+  it('shows a rep range only when there is a top', () => {
+    expect(formatRepTarget(8, 12)).toBe('8-12')
+    expect(formatRepTarget(5, null)).toBe('5')
+  })
+
+  it('shows the resolved weight next to a %1RM target', () => {
+    const load = { targetWeight: 60, targetPercent1rm: 80 }
+
+    expect(formatLoadTarget(load, 96, 'KG')).toBe('80% e1RM ≈ 96kg')
+    expect(formatLoadTarget(load, null, 'KG')).toBe('80% e1RM')
+  })
+})
+
+describe('resolvePercentWeight', () => {
+  it('rounds to the nearest half kilo', () => {
+    expect(resolvePercentWeight(80, 117)).toBe(93.5)
+    expect(resolvePercentWeight(75, 100)).toBe(75)
+  })
+})
+
+describe('getEstimatedOneRepMaxes', () => {
+  const since = new Date('2026-07-20T00:00:00Z')
+  const set = (
+    exerciseId: string,
+    weightKg: number,
+    reps: number,
+    date: string,
+  ): LiftedSet => ({
+    exerciseId,
+    weightKg,
+    reps,
+    completedAt: new Date(date),
+  })
+
+  it('prefers the best recent set over an older peak', () => {
+    const maxes = getEstimatedOneRepMaxes(
+      [
+        set('squat', 140, 3, '2026-03-01T10:00:00Z'),
+        set('squat', 100, 5, '2026-10-01T10:00:00Z'),
+        set('squat', 110, 3, '2026-10-08T10:00:00Z'),
+      ],
+      since,
+    )
+
+    expect(maxes.get('squat')).toBe(121)
+  })
+
+  it('falls back to the all-time best without recent sets', () => {
+    const maxes = getEstimatedOneRepMaxes(
+      [set('bench', 100, 1, '2026-01-10T10:00:00Z')],
+      since,
+    )
+
+    expect(maxes.get('bench')).toBe(100)
+    expect(maxes.has('deadlift')).toBe(false)
+  })
+})
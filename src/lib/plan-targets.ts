@@ -0,0 +1,146 @@
+import {
+  MAX_PERCENT_1RM,
+  MIN_PERCENT_1RM,
+  RIR_MAX,
+  RIR_MIN,
+  RPE_MAX,
+  RPE_MIN,
+} from './constants'
+import { formatWeightKg } from './formatting'
+import { calculate1RM } from './progression-utils'
+import type { WeightUnit } from '@prisma/client'
+
+/** Rep range, effort and load targets a plan exercise can prescribe */
+export interface IntensityTargets {
+  targetReps: number | null
+  targetRepsMax: number | null // Top of the rep range
+  targetRpe: number | null
+  targetRir: number | null
+  targetPercent1rm: number | null
+}
+
+/** A completed working set, for estimating a 1RM */
+export interface LiftedSet {
+  exerciseId: string
+  weightKg: number
+  reps: number
+  completedAt: Date
+}
+
+const PERCENT_WEIGHT_STEP_KG = 0.5
+
+/** Throws if the targets can't be prescribed together. */
+export function validateIntensityTargets(
+  targets: IntensityTargets,
+  isTimed: boolean,
+): void {
+  const { targetReps, targetRepsMax, targetRpe, targetRir } = targets
+  const percent = targets.targetPercent1rm
+  if (isTimed && (targetRepsMax !== null || targetRir !== null)) {
+    throw new Error('Rep ranges and RIR need a rep-based exercise')
+  }
+  if (isTimed && percent !== null) {
+    throw new Error('%1RM targets need a rep-based exercise')
+  }
+  if (targetRepsMax !== null && (!targetReps || targetRepsMax <= targetReps)) {
+    throw new Error('The top of the rep range must be above the bottom')
+  }
+  if (targetRpe !== null && targetRir !== null) {
+    throw new Error('Set a target RPE or RIR, not both')
+  }
+  if (targetRpe !== null && (targetRpe < RPE_MIN || targetRpe > RPE_MAX)) {
+    throw new Error(`Target RPE must be between ${RPE_MIN} and ${RPE_MAX}`)
+  }
+  if (targetRir !== null && (targetRir < RIR_MIN || targetRir > RIR_MAX)) {
+    throw new Error(`Target RIR must be between ${RIR_MIN} and ${RIR_MAX}`)
+  }
+  if (
+    percent !== null &&
+    (percent < MIN_PERCENT_1RM || percent > MAX_PERCENT_1RM)
+  ) {
+    throw new Error(
+      `%1RM must be between ${MIN_PERCENT_1RM} and ${MAX_PERCENT_1RM}`,
+    )
+  }
+}
+
+/** The effort target as an RPE, converting RIR (RPE 10 = 0 in reserve) */
+export function getTargetRpe(
+  targets: Pick<IntensityTargets, 'targetRpe' | 'targetRir'>,
+): number | null {
+  if (targets.targetRpe !== null) return targets.targetRpe
+  return targets.targetRir !== null ? RPE_MAX - targets.targetRir : null
+}
+
+/** e.g. "8-12" or "5" */
+export function formatRepTarget(
+  targetReps: number,
+  targetRepsMax: number | null,
+): string {
+  return targetRepsMax ? `${targetReps}-${targetRepsMax}` : `${targetReps}`
+}
+
+/** e.g. "RPE 8" or "RIR 2", or null without an effort target */
+export function formatEffortTarget(
+  targets: Pick<IntensityTargets, 'targetRpe' | 'targetRir'>,
+): string | null {
+  if (targets.targetRpe !== null) return `RPE ${targets.targetRpe}`
+  if (targets.targetRir !== null) return `RIR ${targets.targetRir}`
+  return null
+}
+
+/**
+ * e.g. "80% e1RM ≈ 96kg", or "80% e1RM" when the user has no history yet.
+ * Absolute weights are shown as is.
+ */
+export function formatLoadTarget(
+  targets: { targetWeight: number | null; targetPercent1rm: number | null },
+  resolvedWeight: number | null | undefined, // kg
+  unit: WeightUnit,
+): string | null {
+  const percent = targets.targetPercent1rm
+  if (percent !== null) {
+    return resolvedWeight
+      ? `${percent}% e1RM ≈ ${formatWeightKg(resolvedWeight, unit)}`
+      : `${percent}% e1RM`
+  }
+  return targets.targetWeight
+    ? formatWeightKg(targets.targetWeight, unit)
+    : null
+}
+
+/** Percent of a 1RM, rounded to the nearest half kilo */
+export function resolvePercentWeight(
+  percent: number,
+  oneRepMax: number,
+): number {
+  const kg = (oneRepMax * percent) / 100
+  return Math.round(kg / PERCENT_WEIGHT_STEP_KG) * PERCENT_WEIGHT_STEP_KG
+}
+
+/**
+ * Best estimated 1RM per exercise (Epley) from sets completed since
+ * `since`, falling back to the all-time best for exercises not trained
+ * in that window.
+ */
+export function getEstimatedOneRepMaxes(
+  sets: ReadonlyArray<LiftedSet>,
+  since: Date,
+): Map<string, number> {
+  const recent = new Map<string, number>()
+  const allTime = new Map<string, number>()
+  for (const set of sets) {
+    const e1rm = calculate1RM(set.weightKg, set.reps)
+    if (e1rm <= 0) continue
+    const best = allTime.get(set.exerciseId) ?? 0
+    if (e1rm > best) allTime.set(set.exerciseId, e1rm)
+    if (set.completedAt >= since) {
+      const recentBest = recent.get(set.exerciseId) ?? 0
+      if (e1rm > recentBest) recent.set(set.exerciseId, e1rm)
+    }
+  }
+  for (const [exerciseId, e1rm] of allTime) {
+    if (!recent.has(exerciseId)) recent.set(exerciseId, e1rm)
+  }
+  return recent
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyPlanWeek,
+  buildBlockWeeks,
+  describeWeekChanges,
+  getNextBlockWeek,
+  getPlanWeek,
+  toBaseWeekSet,
+  validatePlanBlock,
+} from './plan-weeks'
+import type { PlanWeekSettings, WeekAdjustableTargets } from './plan-weeks'
+
+const week = (fields: Partial<PlanWeekSettings> = {}): PlanWeekSettings => ({
+  weekNumber: 1,
+  setDelta: 0,
+  repDelta: 0,
+  intensityPercent: 100,
+  isDeload: false,
+  ...fields,
+})
+
+const targets: WeekAdjustableTargets = {
+  targetSets: 3,
+  targetReps: 8,
+  targetRepsMax: 12,
+  targetWeight: 100,
+}
+
+describe('validatePlanBlock', () => {
+  it('accepts a preset block', () => {
+    expect(() =>
+      validatePlanBlock(5, buildBlockWeeks('INTENSITY', 5)),
+    ).not.toThrow()
+  })
+
+  it('rejects a block that is too short', () => {
+    expect(() => validatePlanBlock(1, [])).toThrow('between 2 and 16 weeks')
+  })
+
+  it('rejects weeks outside the block', () => {
+    expect(() => validatePlanBlock(4, [week({ weekNumber: 5 })])).toThrow(
+      'outside the 4-week block',
+    )
+  })
+
+  it('rejects a week configured twice', () => {
+    expect(() =>
+      validatePlanBlock(4, [week({ weekNumber: 2 }), week({ weekNumber: 2 })]),
+    ).toThrow('configured twice')
+  })
+
+  it('rejects weeks without a block length', () => {
+    expect(() => validatePlanBlock(null, [week()])).toThrow(
+      'Set the block length',
+    )
+  })
+
+  it('rejects an out-of-range load', () => {
+    expect(() =>
+      validatePlanBlock(4, [week({ intensityPercent: 200 })]),
+    ).toThrow('load must be between')
+  })
+})
+
+describe('getPlanWeek', () => {
+  it('falls back to a neutral week', () => {
+    expect(getPlanWeek([week({ weekNumber: 2, setDelta: 1 })], 3)).toEqual(
+      week({ weekNumber: 3 }),
+    )
+  })
+})
+
+describe('getNextBlockWeek', () => {
+  it('moves to the next week', () => {
+    expect(getNextBlockWeek(2, 5)).toEqual({ week: 3, rolledOver: false })
+  })
+
+  it('starts over after the last week', () => {
+    expect(getNextBlockWeek(5, 5)).toEqual({ week: 1, rolledOver: true })
+  })
+})
+
+describe('applyPlanWeek', () => {
+  it('adds sets and reps and scales the weight', () => {
+    expect(
+      applyPlanWeek(
+        targets,
+        week({ setDelta: 1, repDelta: -1, intensityPercent: 105 }),
+      ),
+    ).toMatchObject({
+      targetSets: 4,
+      targetReps: 7,
+      targetRepsMax: 11,
+      targetWeight: 105,
+    })
+  })
+
+  it('halves the sets on a deload, rounding up', () => {
+    const deload = week({ setDelta: 2, isDeload: true, intensityPercent: 90 })
+    expect(applyPlanWeek(targets, deload)).toMatchObject({
+      targetSets: 2,
+      targetWeight: 90,
+    })
+  })
+
+  it('keeps at least one set and one rep', () => {
+    expect(
+      applyPlanWeek(
+        { ...targets, targetSets: 1, targetReps: 1, targetRepsMax: null },
+        week({ setDelta: -2, repDelta: -3 }),
+      ),
+    ).toMatchObject({ targetSets: 1, targetReps: 1 })
+  })
+
+  it('only scales the load of a set scheme', () => {
+    const adjusted = applyPlanWeek(
+      { ...targets, setPrescriptions: [{ targetWeight: 100 }] },
+      week({ setDelta: 2, intensityPercent: 95 }),
+    )
+    expect(adjusted.targetSets).toBe(3)
+    expect(adjusted.setPrescriptions).toEqual([{ targetWeight: 95 }])
+  })
+
+  it('adjusts progression suggestions', () => {
+    const adjusted = applyPlanWeek(
+      { ...targets, progressionSuggestions: [{ weight: 80, reps: 10 }] },
+      week({ repDelta: 1, intensityPercent: 110 }),
+    )
+    expect(adjusted.progressionSuggestions).toEqual([{ weight: 88, reps: 11 }])
+  })
+})
+
+describe('toBaseWeekSet', () => {
+  it('undoes the week load and rep changes', () => {
+    expect(
+      toBaseWeekSet(
+        { weightKg: 105, reps: 7 },
+        week({ repDelta: -1, intensityPercent: 105 }),
+      ),
+    ).toEqual({ weightKg: 100, reps: 8 })
+  })
+})
+
+describe('describeWeekChanges', () => {
+  it('lists what the week changes', () => {
+    expect(
+      describeWeekChanges(week({ setDelta: 1, intensityPercent: 105 })),
+    ).toBe('+1 set · 105% load')
+  })
+
+  it('shows a deload in place of the set change', () => {
+    expect(
+      describeWeekChanges(week({ isDeload: true, intensityPercent: 90 })),
+    ).toBe('Deload · 90% load')
+  })
+
+  it('is null for a neutral week', () => {
+    expect(describeWeekChanges(week())).toBeNull()
+  })
+})
+
+describe('buildBlockWeeks', () => {
+  it('adds a set each week and deloads in the last', () => {
+    const weeks = buildBlockWeeks('VOLUME', 4)
+    expect(weeks.map((w) => w.setDelta)).toEqual([0, 1, 2, 0])
+    expect(weeks.map((w) => w.isDeload)).toEqual([false, false, false, true])
+  })
+
+  it('raises the load as reps come down', () => {
+    const weeks = buildBlockWeeks('INTENSITY', 4)
+    expect(weeks.map((w) => w.intensityPercent)).toEqual([100, 102.5, 105, 90])
+    expect(weeks.map((w) => w.repDelta)).toEqual([0, -1, -2, 0])
+  })
+})
@@ -0,0 +1,247 @@
+import {
+  MAX_BLOCK_WEEKS,
+  MAX_WEEK_INTENSITY_PERCENT,
+  MAX_WEEK_REP_DELTA,
+  MAX_WEEK_SET_DELTA,
+  MIN_BLOCK_WEEKS,
+  MIN_WEEK_INTENSITY_PERCENT,
+} from './constants'
+import { resolvePercentWeight } from './plan-targets'
+
+/** How one week of a training block changes the plan's targets */
+export interface PlanWeekSettings {
+  weekNumber: number
+  setDelta: number
+  repDelta: number
+  intensityPercent: number
+  isDeload: boolean
+}
+
+/** The plan targets a week adjusts */
+export interface WeekAdjustableTargets {
+  targetSets: number
+  targetReps: number | null
+  targetRepsMax: number | null
+  targetWeight: number | null // kg
+  setPrescriptions?: Array<{ targetWeight: number | null }>
+  progressionSuggestions?: Array<{ weight: number; reps: number }>
+}
+
+export type BlockPreset = 'VOLUME' | 'INTENSITY' | 'DELOAD_ONLY'
+
+export const BLOCK_PRESET_LABELS: Record<BlockPreset, string> = {
+  VOLUME: 'Add a Set Weekly',
+  INTENSITY: 'Heavier Each Week',
+  DELOAD_ONLY: 'Deload Last Week',
+}
+
+const INTENSITY_STEP_PERCENT = 2.5
+const DELOAD_INTENSITY_PERCENT = 90
+
+/** A week that leaves the plan as written */
+export function getNeutralWeek(weekNumber: number): PlanWeekSettings {
+  return {
+    weekNumber,
+    setDelta: 0,
+    repDelta: 0,
+    intensityPercent: 100,
+    isDeload: false,
+  }
+}
+
+/** Throws if the block can't be run as configured. */
+export function validatePlanBlock(
+  blockWeeks: number | null,
+  weeks: ReadonlyArray<PlanWeekSettings>,
+): void {
+  if (blockWeeks === null) {
+    if (weeks.length > 0) {
+      throw new Error('Set the block length to configure its weeks')
+    }
+    return
+  }
+  if (
+    !Number.isInteger(blockWeeks) ||
+    blockWeeks < MIN_BLOCK_WEEKS ||
+    blockWeeks > MAX_BLOCK_WEEKS
+  ) {
+    throw new Error(
+      `A block must be between ${MIN_BLOCK_WEEKS} and ${MAX_BLOCK_WEEKS} weeks`,
+    )
+  }
+
+  const seen = new Set<number>()
+  for (const week of weeks) {
+    const label = `Week ${week.weekNumber}`
+    if (
+      !Number.isInteger(week.weekNumber) ||
+      week.weekNumber < 1 ||
+      week.weekNumber > blockWeeks
+    ) {
+      throw new Error(`${label} is outside the ${blockWeeks}-week block`)
+    }
+    if (seen.has(week.weekNumber)) {
+      throw new Error(`${label} is configured twice`)
+    }
+    seen.add(week.weekNumber)
+    if (Math.abs(week.setDelta) > MAX_WEEK_SET_DELTA) {
+      throw new Error(
+        `${label}: sets can change by at most ${MAX_WEEK_SET_DELTA}`,
+      )
+    }
+    if (Math.abs(week.repDelta) > MAX_WEEK_REP_DELTA) {
+      throw new Error(
+        `${label}: reps can change by at most ${MAX_WEEK_REP_DELTA}`,
+      )
+    }
+    if (
+      week.intensityPercent < MIN_WEEK_INTENSITY_PERCENT ||
+      week.intensityPercent > MAX_WEEK_INTENSITY_PERCENT
+    ) {
+      throw new Error(
+        `${label}: load must be between ${MIN_WEEK_INTENSITY_PERCENT}% and ${MAX_WEEK_INTENSITY_PERCENT}%`,
+      )
+    }
+  }
+}
+
+/** The settings for a week of the block, neutral if it has none */
+export function getPlanWeek(
+  weeks: ReadonlyArray<PlanWeekSettings>,
+  weekNumber: number,
+): PlanWeekSettings {
+  const week = weeks.find((w) => w.weekNumber === weekNumber)
+  if (!week) return getNeutralWeek(weekNumber)
+  const { setDelta, repDelta, intensityPercent, isDeload } = week
+  return { weekNumber, setDelta, repDelta, intensityPercent, isDeload }
+}
+
+/** The week after `currentWeek`, starting the block over after its last */
+export function getNextBlockWeek(
+  currentWeek: number,
+  blockWeeks: number,
+): { week: number; rolledOver: boolean } {
+  return currentWeek >= blockWeeks
+    ? { week: 1, rolledOver: true }
+    : { week: currentWeek + 1, rolledOver: false }
+}
+
+/** Planned weight (kg) at the week's load, to the nearest half kilo */
+export function scaleWeekLoad(kg: number, week: PlanWeekSettings): number {
+  return week.intensityPercent === 100
+    ? kg
+    : resolvePercentWeight(week.intensityPercent, kg)
+}
+
+/**
+ * A plan exercise's targets for the week. A deload halves the sets
+ * (rounding up) instead of applying the week's set change. Set schemes
+ * keep their sets as written and only take the week's load, and
+ * progression suggestions are adjusted like the plan's own targets.
+ */
+export function applyPlanWeek<T extends WeekAdjustableTargets>(
+  targets: T,
+  week: PlanWeekSettings,
+): T {
+  const adjustReps = (reps: number) => Math.max(1, reps + week.repDelta)
+  const hasScheme = (targets.setPrescriptions?.length ?? 0) > 0
+  const targetSets = hasScheme
+    ? targets.targetSets
+    : week.isDeload
+      ? Math.ceil(targets.targetSets / 2)
+      : Math.max(1, targets.targetSets + week.setDelta)
+
+  return {
+    ...targets,
+    targetSets,
+    targetReps:
+      targets.targetReps !== null ? adjustReps(targets.targetReps) : null,
+    targetRepsMax:
+      targets.targetRepsMax !== null ? adjustReps(targets.targetRepsMax) : null,
+    targetWeight:
+      targets.targetWeight !== null
+        ? scaleWeekLoad(targets.targetWeight, week)
+        : null,
+    setPrescriptions: targets.setPrescriptions?.map((set) => ({
+      ...set,
+      targetWeight:
+        set.targetWeight !== null
+          ? scaleWeekLoad(set.targetWeight, week)
+          : null,
+    })),
+    progressionSuggestions: targets.progressionSuggestions?.map((s) => ({
+      ...s,
+      weight: scaleWeekLoad(s.weight, week),
+      reps: adjustReps(s.reps),
+    })),
+  }
+}
+
+/**
+ * A set lifted in the week as it would have been under the plan as
+ * written, so progression doesn't compound the week's changes.
+ */
+export function toBaseWeekSet<T extends { weightKg: number; reps: number }>(
+  set: T,
+  week: PlanWeekSettings,
+): T {
+  return {
+    ...set,
+    weightKg: (set.weightKg * 100) / week.intensityPercent,
+    reps: Math.max(0, set.reps - week.repDelta),
+  }
+}
+
+/** e.g. "+1 set · 105% load", "Deload", or null for a neutral week */
+export function describeWeekChanges(week: PlanWeekSettings): string | null {
+  const plural = (n: number, word: string) =>
+    `${n > 0 ? '+' : ''}${n} ${word}${Math.abs(n) !== 1 ? 's' : ''}`
+  const parts: Array<string> = []
+  if (week.isDeload) {
+    parts.push('Deload')
+  } else if (week.setDelta !== 0) {
+    parts.push(plural(week.setDelta, 'set'))
+  }
+  if (week.repDelta !== 0) parts.push(plural(week.repDelta, 'rep'))
+  if (week.intensityPercent !== 100)
+    parts.push(`${week.intensityPercent}% load`)
+  return parts.length > 0 ? parts.join(' · ') : null
+}
+
+/** e.g. "Week 3 of 5" */
+export function formatBlockWeek(
+  weekNumber: number,
+  blockWeeks: number,
+): string {
+  return `Week ${weekNumber} of ${blockWeeks}`
+}
+
+/** Starting weeks to edit for a block of the given length */
+export function buildBlockWeeks(
+  preset: BlockPreset,
+  blockWeeks: number,
+): Array<PlanWeekSettings> {
+  return Array.from({ length: blockWeeks }, (_, i) => {
+    const weekNumber = i + 1
+    if (weekNumber === blockWeeks) {
+      return {
+        ...getNeutralWeek(weekNumber),
+        intensityPercent: DELOAD_INTENSITY_PERCENT,
+        isDeload: true,
+      }
+    }
+    switch (preset) {
+      case 'VOLUME':
+        return { ...getNeutralWeek(weekNumber), setDelta: weekNumber - 1 }
+      case 'INTENSITY':
+        // Load climbs as reps come down
+        return {
+          ...getNeutralWeek(weekNumber),
+          repDelta: 1 - weekNumber,
+          intensityPercent: 100 + INTENSITY_STEP_PERCENT * (weekNumber - 1),
+        }
+      case 'DELOAD_ONLY':
+        return getNeutralWeek(weekNumber)
+    }
+  })
+}
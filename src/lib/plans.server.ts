@@ -13,6 +13,31 @@ import {
   validateNotes,
 } from './validation'
 import { rateLimit } from './rate-limit.server'
+import { MAX_PLAN_EXERCISE_ALTERNATES } from './constants'
+import { validateExerciseGroup } from './exercise-groups'
+import { validateProgressionRule } from './progression-rules'
+import { validateIntensityTargets } from './plan-targets'
+import { countTargetSets, validateSetPrescriptions } from './set-schemes'
+import { resolvePercentTargets } from './plan-targets.server'
+import { exerciseVisibilityWhere } from './exercises.server'
+import { getPlanBlockPosition } from './plan-blocks.server'
+import { validatePlanBlock } from './plan-weeks'
+import { getPlanAdherence } from './plan-schedule.server'
+import { validatePlanSchedule } from './plan-schedule'
+import type { ProgressionRule } from './progression-rules'
+import type { IntensityTargets } from './plan-targets'
+import type { SetPrescription } from './set-schemes'
+import type { PlanWeekSettings } from './plan-weeks'
+import type {
+  ExerciseGroupType,
+  PlanScheduleType,
+  PrismaClient,
+  ProgressionScheme,
+} from '@prisma/client'
+
+type PrismaTransactionClient = Parameters<
+  Parameters<PrismaClient['$transaction']>[0]
+>[0]
 
 // ============================================
 // WORKOUT PLAN OPERATIONS
@@ -98,6 +123,8 @@ export const getPlan = createServerFn({ method: 'GET' })
 
         return {
           plan: null,
+          blockPosition: null,
+          adherence: null,
           access: { isOwner: false as const, role: null },
           pendingInvite: true as const,
           inviteInfo: minimalPlan
@@ -147,11 +174,14 @@ export const getPlan = createServerFn({ method: 'GET' })
             },
           },
         },
+        weeks: { orderBy: { weekNumber: 'asc' } },
       },
     })
 
     return {
       plan,
+      blockPosition: await getPlanBlockPosition(userId, data.id),
+      adherence: plan && (await getPlanAdherence(userId, plan)),
       access: {
         isOwner: access.isOwner,
         role: access.role,
@@ -251,6 +281,170 @@ export const setActivePlan = createServerFn({ method: 'POST' })
     return { plan }
   })
 
+// ============================================
+// TRAINING BLOCK OPERATIONS
+// ============================================
+
+// Set how many weeks a block runs and how each week changes the targets
+export const updatePlanBlock = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      workoutPlanId: string
+      blockWeeks: number | null
+      weeks: Array<PlanWeekSettings>
+      token: string | null
+    }) => {
+      validatePlanBlock(data.blockWeeks, data.weeks)
+      return data
+    },
+  )
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'update-plan-block', limit: 20, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
+
+    await requirePlanEditAccess(data.workoutPlanId, userId)
+
+    const plan = await prisma.$transaction(async (tx) => {
+      await tx.planWeek.deleteMany({
+        where: { workoutPlanId: data.workoutPlanId },
+      })
+      return tx.workoutPlan.update({
+        where: { id: data.workoutPlanId },
+        data: {
+          blockWeeks: data.blockWeeks,
+          weeks: {
+            create: data.weeks.map((week) => ({
+              weekNumber: week.weekNumber,
+              setDelta: week.setDelta,
+              repDelta: week.repDelta,
+              intensityPercent: week.intensityPercent,
+              isDeload: week.isDeload,
+            })),
+          },
+        },
+        include: { weeks: { orderBy: { weekNumber: 'asc' } } },
+      })
+    })
+
+    return { plan }
+  })
+
+// Move the user to a week of the plan's block (week 1 restarts it)
+export const setPlanBlockWeek = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      workoutPlanId: string
+      weekNumber: number
+      token: string | null
+    }) => data,
+  )
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+
+    await requirePlanAccess(data.workoutPlanId, userId)
+
+    const plan = await prisma.workoutPlan.findUnique({
+      where: { id: data.workoutPlanId },
+      select: { blockWeeks: true },
+    })
+    if (!plan?.blockWeeks) {
+      throw new Error('This plan has no training block')
+    }
+    if (
+      !Number.isInteger(data.weekNumber) ||
+      data.weekNumber < 1 ||
+      data.weekNumber > plan.blockWeeks
+    ) {
+      throw new Error(`Week must be between 1 and ${plan.blockWeeks}`)
+    }
+
+    const progress = { currentWeek: data.weekNumber, weekStartedAt: new Date() }
+    await prisma.planBlockProgress.upsert({
+      where: {
+        userId_workoutPlanId: { userId, workoutPlanId: data.workoutPlanId },
+      },
+      create: { userId, workoutPlanId: data.workoutPlanId, ...progress },
+      update: progress,
+    })
+
+    return {
+      blockPosition: await getPlanBlockPosition(userId, data.workoutPlanId),
+    }
+  })
+
+// ============================================
+// PLAN SCHEDULE OPERATIONS
+// ============================================
+
+// Tie the plan's days to the calendar: pinned weekdays or an on/off rotation
+export const updatePlanSchedule = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      workoutPlanId: string
+      scheduleType: PlanScheduleType | null
+      rotationDaysOn: number | null
+      rotationDaysOff: number | null
+      scheduleStartDate: string | null // YYYY-MM-DD
+      weekdays: Record<string, number | null> // Plan day id -> weekday
+      token: string | null
+    }) => {
+      if (
+        data.scheduleStartDate &&
+        !/^\d{4}-\d{2}-\d{2}$/.test(data.scheduleStartDate)
+      ) {
+        throw new Error('Invalid start date')
+      }
+      return data
+    },
+  )
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'update-plan-schedule', limit: 20, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
+
+    await requirePlanEditAccess(data.workoutPlanId, userId)
+
+    const planDays = await prisma.planDay.findMany({
+      where: { workoutPlanId: data.workoutPlanId },
+      select: { id: true, dayOrder: true, restDay: true },
+    })
+
+    // A local date, so the schedule starts on the day the user picked
+    const [year, month, day] = (data.scheduleStartDate ?? '')
+      .split('-')
+      .map(Number)
+    const isWeekdays = data.scheduleType === 'WEEKDAYS'
+    const isRotation = data.scheduleType === 'ROTATION'
+    const schedule = {
+      scheduleType: data.scheduleType,
+      rotationDaysOn: isRotation ? data.rotationDaysOn : null,
+      rotationDaysOff: isRotation ? data.rotationDaysOff : null,
+      scheduleStartDate:
+        data.scheduleType && data.scheduleStartDate
+          ? new Date(year, month - 1, day)
+          : null,
+    }
+    const days = planDays.map((d) => ({
+      ...d,
+      weekday: isWeekdays && !d.restDay ? (data.weekdays[d.id] ?? null) : null,
+    }))
+    validatePlanSchedule(schedule, days)
+
+    const plan = await prisma.$transaction(async (tx) => {
+      for (const d of days) {
+        await tx.planDay.update({
+          where: { id: d.id },
+          data: { weekday: d.weekday },
+        })
+      }
+      return tx.workoutPlan.update({
+        where: { id: data.workoutPlanId },
+        data: schedule,
+      })
+    })
+
+    return { plan }
+  })
+
 // ============================================
 // PLAN DAY OPERATIONS
 // ============================================
@@ -378,6 +572,62 @@ export const reorderPlanDays = createServerFn({ method: 'POST' })
 // PLAN EXERCISE OPERATIONS
 // ============================================
 
+const PROGRESSION_RULE_FIELDS = [
+  'progressionScheme',
+  'targetSets',
+  'targetReps',
+  'targetRepsMax',
+  'targetRpe',
+  'targetRir',
+  'weightIncrement',
+] as const satisfies ReadonlyArray<keyof ProgressionRule>
+
+/** Throws unless the exercise can follow the targets and progression rule. */
+async function validatePlanExerciseTargets(
+  exerciseId: string,
+  targets: ProgressionRule & IntensityTargets,
+  setPrescriptions: ReadonlyArray<SetPrescription> = [],
+): Promise<void> {
+  const exercise = await prisma.exercise.findUnique({
+    where: { id: exerciseId },
+    select: { isTimed: true },
+  })
+  if (!exercise) {
+    throw new Error('Exercise not found')
+  }
+  validateIntensityTargets(targets, exercise.isTimed)
+  validateProgressionRule(targets, exercise.isTimed)
+  validateSetPrescriptions(setPrescriptions, exercise.isTimed)
+}
+
+/** Nested create for a set scheme, numbered in the order given */
+function createSetPrescriptions(sets: ReadonlyArray<SetPrescription>) {
+  return {
+    create: sets.map((set, index) => ({
+      setType: set.setType,
+      setOrder: index + 1,
+      targetReps: set.targetReps,
+      targetRpe: set.targetRpe,
+      targetWeight: set.targetWeight,
+      targetPercent1rm: set.targetPercent1rm,
+      percentOff: set.percentOff,
+    })),
+  }
+}
+
+const PLAN_EXERCISE_INCLUDE = {
+  exercise: {
+    select: {
+      id: true,
+      name: true,
+      muscleGroup: true,
+      isTimed: true,
+      equipment: true,
+    },
+  },
+  setPrescriptions: { orderBy: { setOrder: 'asc' } },
+} as const
+
 // Add exercise to a day
 export const addPlanExercise = createServerFn({ method: 'POST' })
   .inputValidator(
@@ -388,9 +638,16 @@ export const addPlanExercise = createServerFn({ method: 'POST' })
       targetSets: number
       targetReps?: number
       targetTimeSeconds?: number
-      targetWeight?: number
+      targetWeight?: number | null
       restSeconds?: number
       notes?: string
+      progressionScheme?: ProgressionScheme | null
+      targetRepsMax?: number | null
+      targetRpe?: number | null
+      targetRir?: number | null
+      targetPercent1rm?: number | null
+      weightIncrement?: number | null
+      setPrescriptions?: Array<SetPrescription>
       token: string | null
     }) => {
       validateNotes(data.notes)
@@ -411,30 +668,47 @@ export const addPlanExercise = createServerFn({ method: 'POST' })
     }
 
     await requirePlanEditAccess(planDay.workoutPlanId, userId)
+    const setPrescriptions = exerciseData.setPrescriptions ?? []
+    // A set scheme decides how many sets count toward the target
+    const targetSets =
+      setPrescriptions.length > 0
+        ? countTargetSets(setPrescriptions)
+        : exerciseData.targetSets
+    await validatePlanExerciseTargets(
+      exerciseData.exerciseId,
+      {
+        progressionScheme: exerciseData.progressionScheme ?? null,
+        targetSets,
+        targetReps: exerciseData.targetReps ?? null,
+        targetRepsMax: exerciseData.targetRepsMax ?? null,
+        targetRpe: exerciseData.targetRpe ?? null,
+        targetRir: exerciseData.targetRir ?? null,
+        targetPercent1rm: exerciseData.targetPercent1rm ?? null,
+        weightIncrement: exerciseData.weightIncrement ?? null,
+      },
+      setPrescriptions,
+    )
 
     const planExercise = await prisma.planExercise.create({
       data: {
         planDayId: exerciseData.planDayId,
         exerciseId: exerciseData.exerciseId,
         exerciseOrder: exerciseData.exerciseOrder,
-        targetSets: exerciseData.targetSets,
+        targetSets,
         targetReps: exerciseData.targetReps,
         targetTimeSeconds: exerciseData.targetTimeSeconds,
         targetWeight: exerciseData.targetWeight,
         restSeconds: exerciseData.restSeconds ?? 60,
         notes: exerciseData.notes,
+        progressionScheme: exerciseData.progressionScheme,
+        targetRepsMax: exerciseData.targetRepsMax,
+        targetRpe: exerciseData.targetRpe,
+        targetRir: exerciseData.targetRir,
+        targetPercent1rm: exerciseData.targetPercent1rm,
+        weightIncrement: exerciseData.weightIncrement,
+        setPrescriptions: createSetPrescriptions(setPrescriptions),
       },
-      include: {
-        exercise: {
-          select: {
-            id: true,
-            name: true,
-            muscleGroup: true,
-            isTimed: true,
-            equipment: true,
-          },
-        },
-      },
+      include: PLAN_EXERCISE_INCLUDE,
     })
 
     return { planExercise }
@@ -448,9 +722,16 @@ export const updatePlanExercise = createServerFn({ method: 'POST' })
       targetSets?: number
       targetReps?: number
       targetTimeSeconds?: number
-      targetWeight?: number
+      targetWeight?: number | null
       restSeconds?: number
       notes?: string
+      progressionScheme?: ProgressionScheme | null
+      targetRepsMax?: number | null
+      targetRpe?: number | null
+      targetRir?: number | null
+      targetPercent1rm?: number | null
+      weightIncrement?: number | null
+      setPrescriptions?: Array<SetPrescription>
       token: string | null
     }) => {
       validateNotes(data.notes)
@@ -459,7 +740,7 @@ export const updatePlanExercise = createServerFn({ method: 'POST' })
   )
   .handler(async ({ data }) => {
     const { userId } = await requireAuth(data.token)
-    const { id, token: _, ...updateData } = data
+    const { id, token: _, setPrescriptions, ...updateData } = data
 
     const existing = await prisma.planExercise.findFirst({
       where: { id },
@@ -474,20 +755,61 @@ export const updatePlanExercise = createServerFn({ method: 'POST' })
 
     await requirePlanEditAccess(existing.planDay.workoutPlanId, userId)
 
+    const targets: ProgressionRule & IntensityTargets = {
+      progressionScheme:
+        updateData.progressionScheme !== undefined
+          ? updateData.progressionScheme
+          : existing.progressionScheme,
+      targetSets: setPrescriptions?.length
+        ? countTargetSets(setPrescriptions)
+        : (updateData.targetSets ?? existing.targetSets),
+      targetReps: updateData.targetReps ?? existing.targetReps,
+      targetRepsMax:
+        updateData.targetRepsMax !== undefined
+          ? updateData.targetRepsMax
+          : existing.targetRepsMax,
+      targetRpe:
+        updateData.targetRpe !== undefined
+          ? updateData.targetRpe
+          : existing.targetRpe,
+      targetRir:
+        updateData.targetRir !== undefined
+          ? updateData.targetRir
+          : existing.targetRir,
+      targetPercent1rm:
+        updateData.targetPercent1rm !== undefined
+          ? updateData.targetPercent1rm
+          : existing.targetPercent1rm,
+      weightIncrement:
+        updateData.weightIncrement !== undefined
+          ? updateData.weightIncrement
+          : existing.weightIncrement,
+    }
+    await validatePlanExerciseTargets(
+      existing.exerciseId,
+      targets,
+      setPrescriptions,
+    )
+
+    // Suggestions worked out under the old rule no longer apply
+    if (PROGRESSION_RULE_FIELDS.some((key) => targets[key] !== existing[key])) {
+      await prisma.progressionSuggestion.deleteMany({
+        where: { planExerciseId: id },
+      })
+    }
+
     const planExercise = await prisma.planExercise.update({
       where: { id },
-      data: updateData,
-      include: {
-        exercise: {
-          select: {
-            id: true,
-            name: true,
-            muscleGroup: true,
-            isTimed: true,
-            equipment: true,
-          },
+      data: {
+        ...updateData,
+        targetSets: targets.targetSets,
+        // Replace the whole scheme; an empty list goes back to uniform sets
+        setPrescriptions: setPrescriptions && {
+          deleteMany: {},
+          ...createSetPrescriptions(setPrescriptions),
         },
       },
+      include: PLAN_EXERCISE_INCLUDE,
     })
 
     return { planExercise }
@@ -512,13 +834,91 @@ export const removePlanExercise = createServerFn({ method: 'POST' })
 
     await requirePlanEditAccess(existing.planDay.workoutPlanId, userId)
 
-    await prisma.planExercise.delete({
-      where: { id: data.id },
+    await prisma.$transaction(async (tx) => {
+      await tx.planExercise.delete({
+        where: { id: data.id },
+      })
+
+      if (existing.groupId) {
+        await shrinkExerciseGroup(tx, existing.groupId)
+      }
     })
 
     return { success: true }
   })
 
+// Replace the exercises a plan exercise suggests first when it is swapped
+// out mid-workout, in the order given
+export const updatePlanExerciseAlternates = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      planExerciseId: string
+      exerciseIds: Array<string>
+      token: string | null
+    }) => {
+      if (data.exerciseIds.length > MAX_PLAN_EXERCISE_ALTERNATES) {
+        throw new Error(
+          `A plan exercise can have at most ${MAX_PLAN_EXERCISE_ALTERNATES} alternates`,
+        )
+      }
+      if (new Set(data.exerciseIds).size !== data.exerciseIds.length) {
+        throw new Error('An alternate is listed twice')
+      }
+      return data
+    },
+  )
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'update-alternates', limit: 20, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
+
+    const existing = await prisma.planExercise.findFirst({
+      where: { id: data.planExerciseId },
+      include: {
+        planDay: { select: { workoutPlanId: true } },
+      },
+    })
+
+    if (!existing) {
+      throw new Error('Exercise not found')
+    }
+
+    await requirePlanEditAccess(existing.planDay.workoutPlanId, userId)
+
+    if (data.exerciseIds.includes(existing.exerciseId)) {
+      throw new Error("An exercise can't be its own alternate")
+    }
+    const visible = await prisma.exercise.count({
+      where: {
+        id: { in: data.exerciseIds },
+        ...exerciseVisibilityWhere(userId),
+      },
+    })
+    if (visible !== data.exerciseIds.length) {
+      throw new Error('Exercise not found')
+    }
+
+    const planExercise = await prisma.planExercise.update({
+      where: { id: data.planExerciseId },
+      data: {
+        alternates: {
+          deleteMany: {},
+          create: data.exerciseIds.map((exerciseId, index) => ({
+            exerciseId,
+            sortOrder: index + 1,
+          })),
+        },
+      },
+      include: {
+        alternates: {
+          orderBy: { sortOrder: 'asc' },
+          include: { exercise: true },
+        },
+      },
+    })
+
+    return { alternates: planExercise.alternates }
+  })
+
 // Reorder exercises in a day
 export const reorderPlanExercises = createServerFn({ method: 'POST' })
   .inputValidator(
@@ -554,18 +954,221 @@ export const reorderPlanExercises = createServerFn({ method: 'POST' })
         throw new Error('Invalid exercise ids for this day')
       }
 
-      for (let i = 0; i < data.exerciseIds.length; i++) {
-        await tx.planExercise.update({
-          where: { id: data.exerciseIds[i] },
-          data: { exerciseOrder: -(i + 1) },
-        })
+      await writeExerciseOrder(tx, data.exerciseIds)
+    })
+
+    return { success: true }
+  })
+
+// Write a day's exercise order in two passes so the unique order never collides
+async function writeExerciseOrder(
+  tx: PrismaTransactionClient,
+  exerciseIds: Array<string>,
+) {
+  for (let i = 0; i < exerciseIds.length; i++) {
+    await tx.planExercise.update({
+      where: { id: exerciseIds[i] },
+      data: { exerciseOrder: -(i + 1) },
+    })
+  }
+  for (let i = 0; i < exerciseIds.length; i++) {
+    await tx.planExercise.update({
+      where: { id: exerciseIds[i] },
+      data: { exerciseOrder: i + 1 },
+    })
+  }
+}
+
+// Drop a group that lost members below what its type allows
+async function shrinkExerciseGroup(
+  tx: PrismaTransactionClient,
+  groupId: string,
+) {
+  const group = await tx.planExerciseGroup.findUnique({
+    where: { id: groupId },
+    include: { _count: { select: { planExercises: true } } },
+  })
+  if (!group) return
+
+  const remaining = group._count.planExercises
+  if (remaining < 2) {
+    await tx.planExerciseGroup.delete({ where: { id: groupId } })
+  } else if (group.groupType === 'GIANT_SET' && remaining < 3) {
+    await tx.planExerciseGroup.update({
+      where: { id: groupId },
+      data: { groupType: 'SUPERSET' },
+    })
+  }
+}
+
+// ============================================
+// EXERCISE GROUP OPERATIONS (supersets, circuits, giant sets)
+// ============================================
+
+// Group exercises of a day so they are performed back to back each round
+export const createExerciseGroup = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      planDayId: string
+      planExerciseIds: Array<string>
+      groupType: ExerciseGroupType
+      rounds: number
+      restSeconds: number
+      token: string | null
+    }) => {
+      if (new Set(data.planExerciseIds).size !== data.planExerciseIds.length) {
+        throw new Error('Each exercise can only be added once')
+      }
+      validateExerciseGroup(
+        data.groupType,
+        data.planExerciseIds.length,
+        data.rounds,
+        data.restSeconds,
+      )
+      return data
+    },
+  )
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'exercise-group', limit: 30, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
+
+    const planDay = await prisma.planDay.findFirst({
+      where: { id: data.planDayId },
+      select: { workoutPlanId: true },
+    })
+
+    if (!planDay) {
+      throw new Error('Day not found')
+    }
+
+    await requirePlanEditAccess(planDay.workoutPlanId, userId)
+
+    const group = await prisma.$transaction(async (tx) => {
+      const dayExercises = await tx.planExercise.findMany({
+        where: { planDayId: data.planDayId },
+        orderBy: { exerciseOrder: 'asc' },
+        select: { id: true, groupId: true },
+      })
+
+      const memberIds = new Set(data.planExerciseIds)
+      const members = dayExercises.filter((pe) => memberIds.has(pe.id))
+      if (members.length !== memberIds.size) {
+        throw new Error('Invalid exercise ids for this day')
+      }
+      if (members.some((pe) => pe.groupId)) {
+        throw new Error('Exercise is already in a group')
       }
-      for (let i = 0; i < data.exerciseIds.length; i++) {
-        await tx.planExercise.update({
-          where: { id: data.exerciseIds[i] },
-          data: { exerciseOrder: i + 1 },
+
+      const created = await tx.planExerciseGroup.create({
+        data: {
+          planDayId: data.planDayId,
+          groupType: data.groupType,
+          rounds: data.rounds,
+          restSeconds: data.restSeconds,
+        },
+      })
+
+      // Each member is done once per round
+      await tx.planExercise.updateMany({
+        where: { id: { in: data.planExerciseIds } },
+        data: { groupId: created.id, targetSets: data.rounds },
+      })
+
+      // Pull the members together where the first of them sits
+      const firstIndex = dayExercises.findIndex((pe) => memberIds.has(pe.id))
+      const others = dayExercises.filter((pe) => !memberIds.has(pe.id))
+      const insertAt = dayExercises
+        .slice(0, firstIndex)
+        .filter((pe) => !memberIds.has(pe.id)).length
+      const order = [
+        ...others.slice(0, insertAt),
+        ...members,
+        ...others.slice(insertAt),
+      ].map((pe) => pe.id)
+      await writeExerciseOrder(tx, order)
+
+      return created
+    })
+
+    return { group }
+  })
+
+// Update a group's type, rounds or rest
+export const updateExerciseGroup = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      id: string
+      groupType?: ExerciseGroupType
+      rounds?: number
+      restSeconds?: number
+      token: string | null
+    }) => data,
+  )
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+    const { id, token: _, ...updateData } = data
+
+    const existing = await prisma.planExerciseGroup.findFirst({
+      where: { id },
+      include: {
+        planDay: { select: { workoutPlanId: true } },
+        _count: { select: { planExercises: true } },
+      },
+    })
+
+    if (!existing) {
+      throw new Error('Group not found')
+    }
+
+    await requirePlanEditAccess(existing.planDay.workoutPlanId, userId)
+
+    validateExerciseGroup(
+      updateData.groupType ?? existing.groupType,
+      existing._count.planExercises,
+      updateData.rounds ?? existing.rounds,
+      updateData.restSeconds ?? existing.restSeconds,
+    )
+
+    const group = await prisma.$transaction(async (tx) => {
+      const updated = await tx.planExerciseGroup.update({
+        where: { id },
+        data: updateData,
+      })
+
+      if (updateData.rounds !== undefined) {
+        await tx.planExercise.updateMany({
+          where: { groupId: id },
+          data: { targetSets: updateData.rounds },
         })
       }
+
+      return updated
+    })
+
+    return { group }
+  })
+
+// Ungroup exercises (the exercises themselves stay in the day)
+export const deleteExerciseGroup = createServerFn({ method: 'POST' })
+  .inputValidator((data: { id: string; token: string | null }) => data)
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+
+    const existing = await prisma.planExerciseGroup.findFirst({
+      where: { id: data.id },
+      include: {
+        planDay: { select: { workoutPlanId: true } },
+      },
+    })
+
+    if (!existing) {
+      throw new Error('Group not found')
+    }
+
+    await requirePlanEditAccess(existing.planDay.workoutPlanId, userId)
+
+    await prisma.planExerciseGroup.delete({
+      where: { id: data.id },
     })
 
     return { success: true }
@@ -595,19 +1198,32 @@ export const getPlanDay = createServerFn({ method: 'GET' })
                 equipment: true,
               },
             },
+            group: true,
+            progressionSuggestions: { where: { userId } },
+            setPrescriptions: { orderBy: { setOrder: 'asc' } },
+            alternates: {
+              orderBy: { sortOrder: 'asc' },
+              include: { exercise: true },
+            },
           },
         },
       },
     })
 
     if (!planDay) {
-      return { planDay: null, access: null }
+      return { planDay: null, targetWeights: {}, access: null }
     }
 
     const access = await requirePlanAccess(planDay.workoutPlan.id, userId)
+    // %1RM targets in kg for the viewer, from their own lifts
+    const targetWeights = await resolvePercentTargets(
+      userId,
+      planDay.planExercises,
+    )
 
     return {
       planDay,
+      targetWeights,
       access: {
         isOwner: access.isOwner,
         role: access.role,
@@ -2,8 +2,17 @@ import { describe, expect, it } from 'vitest'
 import { RecordType } from '@prisma/client'
 import {
   BODYWEIGHT_BASE_SCORE,
+  COUNTED_PR_WHERE,
+  COUNTED_RECORD_TYPES,
   PR_PRIORITY,
+  beatsRecord,
+  buildRecordHistory,
+  diffRecordHistory,
+  getRepMaxRecordType,
+  getStandingRecords,
+  isCountedRecord,
   isDominatedByExistingPR,
+  isWeightRecord,
   selectDisplayPR,
 } from './pr-utils'
 
@@ -26,6 +35,39 @@ describe('PR_PRIORITY', () => {
   it('ranks MAX_WEIGHT as lowest priority (2)', () => {
     expect(PR_PRIORITY[RecordType.MAX_WEIGHT]).toBe(2)
   })
+
+  it('ranks rep maxes and the estimated 1RM with MAX_VOLUME (0)', () => {
+    expect(PR_PRIORITY[RecordType.E1RM]).toBe(0)
+    expect(PR_PRIORITY[RecordType.REP_MAX_1]).toBe(0)
+    expect(PR_PRIORITY[RecordType.REP_MAX_12]).toBe(0)
+  })
+})
+
+describe('getRepMaxRecordType', () => {
+  it('maps a rep count to its rep-max record', () => {
+    expect(getRepMaxRecordType(1)).toBe(RecordType.REP_MAX_1)
+    expect(getRepMaxRecordType(5)).toBe(RecordType.REP_MAX_5)
+    expect(getRepMaxRecordType(12)).toBe(RecordType.REP_MAX_12)
+  })
+
+  it('returns null outside 1 to 12 reps', () => {
+    expect(getRepMaxRecordType(0)).toBeNull()
+    expect(getRepMaxRecordType(13)).toBeNull()
+  })
+})
+
+describe('isWeightRecord', () => {
+  it('is true for records held by load', () => {
+    expect(isWeightRecord(RecordType.MAX_WEIGHT)).toBe(true)
+    expect(isWeightRecord(RecordType.E1RM)).toBe(true)
+    expect(isWeightRecord(RecordType.REP_MAX_3)).toBe(true)
+  })
+
+  it('is false for volume, reps, time and cardio records', () => {
+    expect(isWeightRecord(RecordType.MAX_VOLUME)).toBe(false)
+    expect(isWeightRecord(RecordType.MAX_REPS)).toBe(false)
+    expect(isWeightRecord(RecordType.FASTEST_5K)).toBe(false)
+  })
 })
 
 describe('selectDisplayPR', () => {
@@ -90,6 +132,31 @@ describe('selectDisplayPR', () => {
     )
   })
 
+  it('picks the longest fastest-time record among cardio records', () => {
+    const time = makePR(RecordType.MAX_TIME, 3000)
+    const distance = makePR(RecordType.MAX_DISTANCE, 10000)
+    const fastest5k = makePR(RecordType.FASTEST_5K, 1500)
+    const fastest1k = makePR(RecordType.FASTEST_1K, 290)
+    expect(
+      selectDisplayPR([time, fastest1k, distance, fastest5k])?.recordType,
+    ).toBe(RecordType.FASTEST_5K)
+  })
+
+  it('prefers the lower value for a fastest-time record', () => {
+    const older = makePR(RecordType.FASTEST_5K, 1500, '2026-01-01T00:00:00Z')
+    const faster = makePR(RecordType.FASTEST_5K, 1450, '2025-06-01T00:00:00Z')
+    expect(selectDisplayPR([older, faster])).toBe(faster)
+  })
+
+  it('picks the estimated 1RM, then the lowest rep max, over MAX_VOLUME', () => {
+    const volume = makePR(RecordType.MAX_VOLUME, 500)
+    const fiveRM = makePR(RecordType.REP_MAX_5, 100)
+    const threeRM = makePR(RecordType.REP_MAX_3, 105)
+    const e1rm = makePR(RecordType.E1RM, 117)
+    expect(selectDisplayPR([volume, fiveRM, threeRM, e1rm])).toBe(e1rm)
+    expect(selectDisplayPR([volume, fiveRM, threeRM])).toBe(threeRM)
+  })
+
   it('handles the ab crunch scenario: MAX_VOLUME(1000) vs MAX_REPS(24)', () => {
     const volume = makePR(RecordType.MAX_VOLUME, 1000)
     const reps = makePR(RecordType.MAX_REPS, 24)
@@ -133,6 +200,15 @@ describe('isDominatedByExistingPR', () => {
     ).toBe(false)
   })
 
+  it('returns false for a rep max alongside MAX_VOLUME', () => {
+    expect(
+      isDominatedByExistingPR(RecordType.REP_MAX_5, [
+        RecordType.MAX_VOLUME,
+        RecordType.E1RM,
+      ]),
+    ).toBe(false)
+  })
+
   it('returns false when no existing types', () => {
     expect(isDominatedByExistingPR(RecordType.MAX_REPS, [])).toBe(false)
   })
@@ -146,3 +222,232 @@ describe('isDominatedByExistingPR', () => {
     ).toBe(true)
   })
 })
+
+describe('beatsRecord', () => {
+  it('needs a higher score for most records', () => {
+    expect(beatsRecord(RecordType.MAX_DISTANCE, 5001, 5000)).toBe(true)
+    expect(beatsRecord(RecordType.MAX_DISTANCE, 5000, 5000)).toBe(false)
+  })
+
+  it('needs a lower time for fastest-time records', () => {
+    expect(beatsRecord(RecordType.FASTEST_5K, 1499, 1500)).toBe(true)
+    expect(beatsRecord(RecordType.FASTEST_5K, 1500, 1500)).toBe(false)
+    expect(beatsRecord(RecordType.FASTEST_5K, 1600, 1500)).toBe(false)
+  })
+})
+
+describe('buildRecordHistory', () => {
+  const set = (
+    id: string,
+    score: number,
+    day: number,
+    workoutSessionId = `session-${day}`,
+    recordType: RecordType = RecordType.MAX_VOLUME,
+  ) => ({
+    id,
+    workoutSessionId,
+    recordType,
+    score,
+    completedAt: new Date(Date.UTC(2026, 0, day)),
+  })
+
+  it('records every break in the order the sets were done', () => {
+    const history = buildRecordHistory([
+      set('c', 1200, 3),
+      set('a', 1000, 1),
+      set('b', 1100, 2),
+    ])
+    expect(
+      history.map((h) => [h.workoutSetId, h.value, h.previousValue]),
+    ).toEqual([
+      ['a', 1000, null],
+      ['b', 1100, 1000],
+      ['c', 1200, 1100],
+    ])
+  })
+
+  it('skips sets that only match or fall short of the record', () => {
+    const history = buildRecordHistory([
+      set('a', 1000, 1),
+      set('b', 1000, 2),
+      set('c', 1000.005, 3),
+      set('d', 900, 4),
+    ])
+    expect(history.map((h) => h.workoutSetId)).toEqual(['a'])
+  })
+
+  it('tracks each record type on its own', () => {
+    const history = buildRecordHistory([
+      set('a', 100, 1, 's1', RecordType.MAX_WEIGHT),
+      set('b', 1000, 1, 's1'),
+      set('c', 90, 2, 's2', RecordType.MAX_WEIGHT),
+      set('d', 1100, 2, 's2'),
+    ])
+    expect(history.map((h) => h.workoutSetId)).toEqual(['a', 'b', 'd'])
+  })
+
+  it('keeps the fastest time for fastest-time records', () => {
+    const history = buildRecordHistory([
+      set('a', 1500, 1, 's1', RecordType.FASTEST_5K),
+      set('b', 1550, 2, 's2', RecordType.FASTEST_5K),
+      set('c', 1450, 3, 's3', RecordType.FASTEST_5K),
+    ])
+    expect(history.map((h) => [h.workoutSetId, h.previousValue])).toEqual([
+      ['a', null],
+      ['c', 1500],
+    ])
+  })
+
+  it('rolls back to the earlier record when the set that beat it is gone', () => {
+    const sets = [set('a', 1000, 1), set('b', 1200, 2), set('c', 1100, 3)]
+    const history = buildRecordHistory(sets.filter((s) => s.id !== 'b'))
+    expect(history.map((h) => [h.workoutSetId, h.previousValue])).toEqual([
+      ['a', null],
+      ['c', 1000],
+    ])
+  })
+})
+
+describe('getStandingRecords', () => {
+  const entry = (
+    workoutSetId: string,
+    value: number,
+    previousValue: number | null,
+    workoutSessionId: string,
+    recordType: RecordType = RecordType.MAX_VOLUME,
+  ) => ({
+    recordType,
+    value,
+    previousValue,
+    workoutSetId,
+    workoutSessionId,
+    achievedAt: new Date('2026-01-15T00:00:00Z'),
+  })
+
+  it('returns the latest record of each type', () => {
+    const standing = getStandingRecords([
+      entry('a', 1000, null, 's1'),
+      entry('b', 100, null, 's1', RecordType.MAX_WEIGHT),
+      entry('c', 1100, 1000, 's2'),
+    ])
+    expect(standing.get(RecordType.MAX_VOLUME)).toMatchObject({
+      workoutSetId: 'c',
+      previousRecord: 1000,
+    })
+    expect(standing.get(RecordType.MAX_WEIGHT)?.workoutSetId).toBe('b')
+    expect(standing.has(RecordType.MAX_REPS)).toBe(false)
+  })
+
+  it('compares against the record held before the workout', () => {
+    const standing = getStandingRecords([
+      entry('a', 1000, null, 's1'),
+      entry('b', 1100, 1000, 's2'),
+      entry('c', 1200, 1100, 's2'),
+    ])
+    expect(standing.get(RecordType.MAX_VOLUME)).toMatchObject({
+      workoutSetId: 'c',
+      previousRecord: 1000,
+    })
+  })
+
+  it('compares a first-ever record broken again against the first set', () => {
+    const standing = getStandingRecords([
+      entry('a', 1000, null, 's1'),
+      entry('b', 1100, 1000, 's1'),
+    ])
+    expect(standing.get(RecordType.MAX_VOLUME)?.previousRecord).toBe(1000)
+  })
+})
+
+describe('isCountedRecord', () => {
+  it('counts the record each set competes for by its own score', () => {
+    expect(isCountedRecord(RecordType.MAX_VOLUME)).toBe(true)
+    expect(isCountedRecord(RecordType.MAX_REPS)).toBe(true)
+    expect(isCountedRecord(RecordType.MAX_TIME)).toBe(true)
+  })
+
+  it('leaves out rep-max and estimated 1RM records', () => {
+    expect(isCountedRecord(RecordType.REP_MAX_5)).toBe(false)
+    expect(isCountedRecord(RecordType.E1RM)).toBe(false)
+  })
+
+  it('leaves out distance and fastest-time records', () => {
+    expect(isCountedRecord(RecordType.MAX_DISTANCE)).toBe(false)
+    expect(isCountedRecord(RecordType.FASTEST_1K)).toBe(false)
+    expect(isCountedRecord(RecordType.FASTEST_5K)).toBe(false)
+    expect(isCountedRecord(RecordType.FASTEST_10K)).toBe(false)
+  })
+
+  it('filters PR counts to the same record types', () => {
+    expect(COUNTED_PR_WHERE.recordType.in).toEqual(COUNTED_RECORD_TYPES)
+  })
+})
+
+describe('diffRecordHistory', () => {
+  const achievedAt = new Date('2026-01-15T00:00:00Z')
+  const entry = (
+    workoutSetId: string,
+    value: number,
+    previousValue: number | null,
+  ) => ({
+    recordType: RecordType.MAX_VOLUME,
+    value,
+    previousValue,
+    workoutSetId,
+    workoutSessionId: 's1',
+    achievedAt,
+  })
+  const row = (
+    id: string,
+    workoutSetId: string,
+    value: number,
+    previousValue: number | null,
+  ) => ({
+    id,
+    recordType: RecordType.MAX_VOLUME,
+    value,
+    previousValue,
+    workoutSetId,
+    achievedAt,
+  })
+
+  it('keeps rows that still hold', () => {
+    expect(
+      diffRecordHistory(
+        [row('h1', 'a', 1000, null), row('h2', 'b', 1100, 1000)],
+        [entry('a', 1000, null), entry('b', 1100, 1000)],
+      ),
+    ).toEqual({ staleIds: [], added: [] })
+  })
+
+  it('only adds the records a newly counted set broke', () => {
+    expect(
+      diffRecordHistory(
+        [row('h1', 'a', 1000, null)],
+        [entry('a', 1000, null), entry('b', 1100, 1000)],
+      ),
+    ).toEqual({ staleIds: [], added: [entry('b', 1100, 1000)] })
+  })
+
+  it('replaces the rows an edit changed', () => {
+    expect(
+      diffRecordHistory(
+        [
+          row('h1', 'a', 1000, null),
+          row('h2', 'b', 1100, 1000),
+          row('h3', 'c', 1200, 1100),
+        ],
+        [entry('a', 1000, null), entry('c', 1200, 1000)],
+      ),
+    ).toEqual({ staleIds: ['h2', 'h3'], added: [entry('c', 1200, 1000)] })
+  })
+
+  it('drops duplicate rows', () => {
+    expect(
+      diffRecordHistory(
+        [row('h1', 'a', 1000, null), row('h2', 'a', 1000, null)],
+        [entry('a', 1000, null)],
+      ),
+    ).toEqual({ staleIds: ['h2'], added: [] })
+  })
+})
@@ -2,24 +2,186 @@ import type { RecordType } from '@prisma/client'
 
 /**
  * Internal base score for bodyweight exercises. When equipment is BODYWEIGHT,
- * we treat every set as (BODYWEIGHT_BASE_SCORE + addedWeight) × reps/time
- * so weighted and unweighted sets compete on the same MAX_VOLUME scale.
- * This value is never shown to the user.
+ * we treat every set as (bodyweight + addedWeight) × reps/time so weighted
+ * and unweighted sets compete on the same MAX_VOLUME scale. The user's logged
+ * body weight at the time of the set is used; this stands in for it until
+ * they log one. This value is never shown to the user.
  */
 export const BODYWEIGHT_BASE_SCORE = 60
 
 /**
  * PR display priority: lower number = higher priority.
- * MAX_VOLUME (weighted sets) is most impressive, MAX_WEIGHT least.
- * MAX_TIME and MAX_REPS share the same tier (bodyweight equivalents).
+ * MAX_VOLUME (weighted sets) is most impressive, MAX_WEIGHT least. The
+ * rep-max and estimated 1RM records share its tier, since a weighted set
+ * always holds MAX_VOLUME too and would otherwise never be celebrated.
+ * MAX_TIME and MAX_REPS share the next tier (bodyweight equivalents), as do
+ * the cardio records, which are each achievements in their own right.
  */
 export const PR_PRIORITY: Record<RecordType, number> = {
   MAX_VOLUME: 0,
+  E1RM: 0,
+  REP_MAX_1: 0,
+  REP_MAX_2: 0,
+  REP_MAX_3: 0,
+  REP_MAX_4: 0,
+  REP_MAX_5: 0,
+  REP_MAX_6: 0,
+  REP_MAX_7: 0,
+  REP_MAX_8: 0,
+  REP_MAX_9: 0,
+  REP_MAX_10: 0,
+  REP_MAX_11: 0,
+  REP_MAX_12: 0,
   MAX_TIME: 1,
   MAX_REPS: 1,
+  MAX_DISTANCE: 1,
+  FASTEST_1K: 1,
+  FASTEST_5K: 1,
+  FASTEST_10K: 1,
   MAX_WEIGHT: 2,
 }
 
+export const RECORD_TYPE_LABELS: Record<RecordType, string> = {
+  MAX_WEIGHT: 'Weight',
+  MAX_REPS: 'Reps',
+  MAX_VOLUME: 'Volume',
+  MAX_TIME: 'Time',
+  MAX_DISTANCE: 'Distance',
+  FASTEST_1K: 'Fastest 1K',
+  FASTEST_5K: 'Fastest 5K',
+  FASTEST_10K: 'Fastest 10K',
+  E1RM: 'Est. 1RM',
+  REP_MAX_1: '1RM',
+  REP_MAX_2: '2RM',
+  REP_MAX_3: '3RM',
+  REP_MAX_4: '4RM',
+  REP_MAX_5: '5RM',
+  REP_MAX_6: '6RM',
+  REP_MAX_7: '7RM',
+  REP_MAX_8: '8RM',
+  REP_MAX_9: '9RM',
+  REP_MAX_10: '10RM',
+  REP_MAX_11: '11RM',
+  REP_MAX_12: '12RM',
+}
+
+/** Rep-max records by rep count: index 0 holds the 1RM */
+export const REP_MAX_RECORD_TYPES: ReadonlyArray<RecordType> = [
+  'REP_MAX_1',
+  'REP_MAX_2',
+  'REP_MAX_3',
+  'REP_MAX_4',
+  'REP_MAX_5',
+  'REP_MAX_6',
+  'REP_MAX_7',
+  'REP_MAX_8',
+  'REP_MAX_9',
+  'REP_MAX_10',
+  'REP_MAX_11',
+  'REP_MAX_12',
+]
+
+/** Records a weighted lift holds by load, in the order they're shown */
+export const STRENGTH_RECORD_TYPES: ReadonlyArray<RecordType> = [
+  'E1RM',
+  ...REP_MAX_RECORD_TYPES,
+]
+
+/** The rep-max record for a set of `reps`, or null past the highest tracked */
+export function getRepMaxRecordType(reps: number): RecordType | null {
+  if (reps < 1) return null
+  return REP_MAX_RECORD_TYPES[reps - 1] ?? null
+}
+
+/** Rep-max and estimated 1RM records */
+export function isStrengthRecord(recordType: RecordType): boolean {
+  return STRENGTH_RECORD_TYPES.includes(recordType)
+}
+
+/** Record types whose value is a weight in kg */
+export function isWeightRecord(recordType: RecordType): boolean {
+  return recordType === 'MAX_WEIGHT' || isStrengthRecord(recordType)
+}
+
+/** Cardio records in the order they're shown when a set holds several */
+export const CARDIO_RECORD_TYPES: ReadonlyArray<RecordType> = [
+  'FASTEST_10K',
+  'FASTEST_5K',
+  'FASTEST_1K',
+  'MAX_DISTANCE',
+]
+
+/**
+ * Records counted towards a user's PR total. The rep-max, estimated 1RM and
+ * cardio records a set breaks alongside its own score's record aren't
+ * counted, so logging one set adds at most one PR.
+ */
+export const COUNTED_RECORD_TYPES: ReadonlyArray<RecordType> = [
+  'MAX_VOLUME',
+  'MAX_TIME',
+  'MAX_REPS',
+  'MAX_WEIGHT',
+]
+
+/** Whether a record counts towards a user's PR total */
+export function isCountedRecord(recordType: RecordType): boolean {
+  return COUNTED_RECORD_TYPES.includes(recordType)
+}
+
+/** Prisma filter limiting a PR count to COUNTED_RECORD_TYPES */
+export const COUNTED_PR_WHERE = {
+  recordType: { in: [...COUNTED_RECORD_TYPES] },
+}
+
+/** Record types held by the lowest value, i.e. the fastest times */
+export function isLowerBetterRecord(recordType: RecordType): boolean {
+  return (
+    recordType === 'FASTEST_1K' ||
+    recordType === 'FASTEST_5K' ||
+    recordType === 'FASTEST_10K'
+  )
+}
+
+/** How much a score must beat the standing record by to count as a new PR */
+export const PR_EPSILON = 0.01
+
+/**
+ * Whether `score` beats the standing record of its type by PR_EPSILON;
+ * matching it doesn't take the record over
+ */
+export function beatsRecord(
+  recordType: RecordType,
+  score: number,
+  standing: number,
+): boolean {
+  return isLowerBetterRecord(recordType)
+    ? score <= standing - PR_EPSILON
+    : score >= standing + PR_EPSILON
+}
+
+/** Record types in the order they're shown within a priority tier */
+const DISPLAY_ORDER: ReadonlyArray<RecordType> = [
+  ...STRENGTH_RECORD_TYPES,
+  ...CARDIO_RECORD_TYPES,
+]
+
+/** Where a record type sorts among others of its priority tier */
+function getDisplayRank(recordType: RecordType): number {
+  const index = DISPLAY_ORDER.indexOf(recordType)
+  return index === -1 ? DISPLAY_ORDER.length : index
+}
+
+/**
+ * Sort order of record types for display: by PR_PRIORITY, then strength
+ * records in STRENGTH_RECORD_TYPES order ahead of MAX_VOLUME, then cardio
+ * records in CARDIO_RECORD_TYPES order
+ */
+export function compareRecordTypes(a: RecordType, b: RecordType): number {
+  return (
+    PR_PRIORITY[a] - PR_PRIORITY[b] || getDisplayRank(a) - getDisplayRank(b)
+  )
+}
+
 type PRRecord = {
   recordType: RecordType
   value: number
@@ -28,23 +190,27 @@ type PRRecord = {
 
 /**
  * From a list of PRs for the same exercise, pick the one to display.
- * Priority: MAX_VOLUME > MAX_TIME = MAX_REPS > MAX_WEIGHT.
- * Tiebreak: higher value, then more recent achievedAt.
+ * Priority: strength records = MAX_VOLUME > cardio records = MAX_TIME =
+ * MAX_REPS > MAX_WEIGHT.
+ * Tiebreak: the order of {@link compareRecordTypes}, then the better value,
+ * then more recent achievedAt.
  */
 export function selectDisplayPR<T extends PRRecord>(prs: Array<T>): T | null {
   if (prs.length === 0) return null
   if (prs.length === 1) return prs[0]
 
   return prs.reduce((best, current) => {
-    const bestPriority = PR_PRIORITY[best.recordType]
-    const currentPriority = PR_PRIORITY[current.recordType]
-
-    if (currentPriority < bestPriority) return current
-    if (currentPriority > bestPriority) return best
+    const order = compareRecordTypes(current.recordType, best.recordType)
+    if (order < 0) return current
+    if (order > 0) return best
 
-    // Same priority tier — prefer higher value
-    if (current.value > best.value) return current
-    if (current.value < best.value) return best
+    // Same priority tier — prefer the better value
+    if (current.value !== best.value) {
+      const currentBetter = isLowerBetterRecord(current.recordType)
+        ? current.value < best.value
+        : current.value > best.value
+      return currentBetter ? current : best
+    }
 
     // Same value — prefer more recent
     const bestDate = new Date(best.achievedAt).getTime()
@@ -65,3 +231,123 @@ export function isDominatedByExistingPR(
   const newPriority = PR_PRIORITY[newType]
   return existingTypes.some((t) => PR_PRIORITY[t] < newPriority)
 }
+
+type ScoredSet = {
+  id: string
+  workoutSessionId: string
+  recordType: RecordType
+  score: number
+  completedAt: Date
+}
+
+export type RecordHistoryEntry = {
+  recordType: RecordType
+  value: number
+  previousValue: number | null
+  workoutSetId: string
+  workoutSessionId: string
+  achievedAt: Date
+}
+
+/**
+ * Replay scored sets in the order they were done and return every time a
+ * record was broken, oldest first. A set has to beat the standing record
+ * as {@link beatsRecord}.
+ */
+export function buildRecordHistory(
+  sets: ReadonlyArray<ScoredSet>,
+): Array<RecordHistoryEntry> {
+  const ordered = [...sets].sort(
+    (a, b) =>
+      a.completedAt.getTime() - b.completedAt.getTime() ||
+      a.id.localeCompare(b.id),
+  )
+
+  const best = new Map<RecordType, number>()
+  const history: Array<RecordHistoryEntry> = []
+  for (const set of ordered) {
+    const standing = best.get(set.recordType)
+    if (
+      standing !== undefined &&
+      !beatsRecord(set.recordType, set.score, standing)
+    ) {
+      continue
+    }
+
+    best.set(set.recordType, set.score)
+    history.push({
+      recordType: set.recordType,
+      value: set.score,
+      previousValue: standing ?? null,
+      workoutSetId: set.id,
+      workoutSessionId: set.workoutSessionId,
+      achievedAt: set.completedAt,
+    })
+  }
+  return history
+}
+
+/**
+ * The record of each type standing at the end of `history`. Its
+ * `previousRecord` is the value it beat coming into the workout, as when
+ * the set was logged, so breaking a PR twice in one session still compares
+ * against the record you walked in with.
+ */
+export function getStandingRecords(
+  history: ReadonlyArray<RecordHistoryEntry>,
+): Map<RecordType, RecordHistoryEntry & { previousRecord: number | null }> {
+  const standing = new Map<
+    RecordType,
+    RecordHistoryEntry & { previousRecord: number | null }
+  >()
+  for (const entry of history) {
+    const current = standing.get(entry.recordType)
+    const previousRecord =
+      current?.workoutSessionId === entry.workoutSessionId
+        ? (current.previousRecord ?? current.value)
+        : entry.previousValue
+    standing.set(entry.recordType, { ...entry, previousRecord })
+  }
+  return standing
+}
+
+/** A record history row as stored, without the session it was set in */
+type StoredHistoryEntry = Omit<RecordHistoryEntry, 'workoutSessionId'> & {
+  id: string
+}
+
+function historyKey(entry: Omit<RecordHistoryEntry, 'workoutSessionId'>) {
+  return [
+    entry.recordType,
+    entry.workoutSetId,
+    entry.value,
+    entry.previousValue,
+    entry.achievedAt.getTime(),
+  ].join(':')
+}
+
+/**
+ * Compare an exercise's stored record history with a rebuilt one. Rows that
+ * still hold are kept so their ids stay stable; returns the ids of rows that
+ * no longer happened and the entries that are missing.
+ */
+export function diffRecordHistory(
+  stored: ReadonlyArray<StoredHistoryEntry>,
+  history: ReadonlyArray<RecordHistoryEntry>,
+): { staleIds: Array<string>; added: Array<RecordHistoryEntry> } {
+  const wanted = new Set(history.map(historyKey))
+  const kept = new Set<string>()
+  const staleIds: Array<string> = []
+  for (const row of stored) {
+    const key = historyKey(row)
+    if (wanted.has(key) && !kept.has(key)) {
+      kept.add(key)
+    } else {
+      staleIds.push(row.id)
+    }
+  }
+  return {
+    staleIds,
+    added: history.filter((entry) => !kept.has(historyKey(entry))),
+  }
+}
@@ -0,0 +1,125 @@
+import { createServerFn } from '@tanstack/react-start'
+import { requireAuth } from './auth-guard.server'
+import { prisma } from './db.server'
+import {
+  STALE_SESSION_HOURS_OPTIONS,
+  isDistanceUnit,
+  isE1rmFormula,
+  isLengthUnit,
+  isLifterSex,
+  isMeasurementSites,
+  isStaleSessionHours,
+  isWeightUnit,
+  parsePreferences,
+} from './preferences'
+import { rateLimit } from './rate-limit.server'
+import { recalculateE1rmRecords } from './workouts.server'
+import type { E1rmFormula } from './progression-utils'
+import type { LengthUnit } from './measurements'
+import type { LifterSex } from './relative-strength'
+import type { DistanceUnit, MeasurementSite, WeightUnit } from '@prisma/client'
+
+// Get the current user's preferences with defaults applied
+export const getPreferences = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token: string | null }) => data)
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferences: true },
+    })
+
+    return { preferences: parsePreferences(user?.preferences) }
+  })
+
+// Update one or more preferences, keeping the rest unchanged
+export const updatePreferences = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      token: string | null
+      weightUnit?: WeightUnit
+      staleSessionHours?: number | null
+      e1rmFormula?: E1rmFormula
+      lifterSex?: LifterSex | null
+      lengthUnit?: LengthUnit
+      measurementSites?: Array<MeasurementSite>
+      distanceUnit?: DistanceUnit
+    }) => {
+      if (data.weightUnit !== undefined && !isWeightUnit(data.weightUnit)) {
+        throw new Error('Weight unit must be KG or LBS')
+      }
+      if (
+        data.staleSessionHours !== undefined &&
+        !isStaleSessionHours(data.staleSessionHours)
+      ) {
+        throw new Error(
+          `Auto-close must be off or one of ${STALE_SESSION_HOURS_OPTIONS.join(', ')} hours`,
+        )
+      }
+      if (data.e1rmFormula !== undefined && !isE1rmFormula(data.e1rmFormula)) {
+        throw new Error('Unknown 1RM formula')
+      }
+      if (data.lifterSex !== undefined && !isLifterSex(data.lifterSex)) {
+        throw new Error('Strength score category must be MALE, FEMALE or off')
+      }
+      if (data.lengthUnit !== undefined && !isLengthUnit(data.lengthUnit)) {
+        throw new Error('Length unit must be CM or IN')
+      }
+      if (
+        data.measurementSites !== undefined &&
+        !isMeasurementSites(data.measurementSites)
+      ) {
+        throw new Error('Choose at least one measurement site, each once')
+      }
+      if (
+        data.distanceUnit !== undefined &&
+        !isDistanceUnit(data.distanceUnit)
+      ) {
+        throw new Error('Distance unit must be M, KM or MI')
+      }
+      return data
+    },
+  )
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'preferences-update', limit: 20, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferences: true },
+    })
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    const previous = parsePreferences(user.preferences)
+    const preferences = {
+      ...previous,
+      ...(data.weightUnit !== undefined && { weightUnit: data.weightUnit }),
+      ...(data.staleSessionHours !== undefined && {
+        staleSessionHours: data.staleSessionHours,
+      }),
+      ...(data.e1rmFormula !== undefined && { e1rmFormula: data.e1rmFormula }),
+      ...(data.lifterSex !== undefined && { lifterSex: data.lifterSex }),
+      ...(data.lengthUnit !== undefined && { lengthUnit: data.lengthUnit }),
+      ...(data.measurementSites !== undefined && {
+        measurementSites: data.measurementSites,
+      }),
+      ...(data.distanceUnit !== undefined && {
+        distanceUnit: data.distanceUnit,
+      }),
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { preferences: { ...preferences } },
+    })
+
+    // Estimated 1RM records are stored by the formula they were set with
+    if (preferences.e1rmFormula !== previous.e1rmFormula) {
+      await recalculateE1rmRecords(userId)
+    }
+
+    return { preferences }
+  })
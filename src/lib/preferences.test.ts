@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PREFERENCES, parsePreferences } from './preferences'
+
+describe('parsePreferences', () => {
+  it('returns defaults for an empty object', () => {
+    expect(parsePreferences({})).toEqual(DEFAULT_PREFERENCES)
+  })
+
+  it('returns defaults for non-object values', () => {
+    expect(parsePreferences(null)).toEqual(DEFAULT_PREFERENCES)
+    expect(parsePreferences('LBS')).toEqual(DEFAULT_PREFERENCES)
+    expect(parsePreferences(['LBS'])).toEqual(DEFAULT_PREFERENCES)
+  })
+
+  it('reads a stored weight unit', () => {
+    expect(parsePreferences({ weightUnit: 'LBS' })).toEqual({
+      ...DEFAULT_PREFERENCES,
+      weightUnit: 'LBS',
+    })
+  })
+
+  it('falls back to the default for an unknown weight unit', () => {
+    expect(parsePreferences({ weightUnit: 'stone' }).weightUnit).toBe('KG')
+  })
+
+  it('drops keys it does not know about', () => {
+    expect(parsePreferences({ weightUnit: 'KG', theme: 'dark' })).toEqual({
+      ...DEFAULT_PREFERENCES,
+      weightUnit: 'KG',
+    })
+  })
+
+  it('reads a stored auto-close window, including off', () => {
+    expect(parsePreferences({ staleSessionHours: 8 }).staleSessionHours).toBe(8)
+    expect(
+      parsePreferences({ staleSessionHours: null }).staleSessionHours,
+    ).toBeNull()
+  })
+
+  it('falls back to the default for an unsupported auto-close window', () => {
+    expect(parsePreferences({ staleSessionHours: 5 }).staleSessionHours).toBe(
+      DEFAULT_PREFERENCES.staleSessionHours,
+    )
+  })
+
+  it('reads a stored 1RM formula', () => {
+    expect(parsePreferences({ e1rmFormula: 'BRZYCKI' }).e1rmFormula).toBe(
+      'BRZYCKI',
+    )
+  })
+
+  it('falls back to Epley for an unknown 1RM formula', () => {
+    expect(parsePreferences({ e1rmFormula: 'WATHAN' }).e1rmFormula).toBe(
+      'EPLEY',
+    )
+  })
+
+  it('reads a stored strength score category, including off', () => {
+    expect(parsePreferences({ lifterSex: 'FEMALE' }).lifterSex).toBe('FEMALE')
+    expect(parsePreferences({ lifterSex: 'other' }).lifterSex).toBeNull()
+  })
+
+  it('reads a stored length unit', () => {
+    expect(parsePreferences({ lengthUnit: 'IN' }).lengthUnit).toBe('IN')
+    expect(parsePreferences({ lengthUnit: 'FT' }).lengthUnit).toBe('CM')
+  })
+
+  it('reads a stored distance unit', () => {
+    expect(parsePreferences({ distanceUnit: 'MI' }).distanceUnit).toBe('MI')
+    expect(parsePreferences({ distanceUnit: 'YD' }).distanceUnit).toBe('KM')
+  })
+
+  it('reads stored measurement sites, keeping their order', () => {
+    expect(
+      parsePreferences({ measurementSites: ['WAIST', 'NECK'] })
+        .measurementSites,
+    ).toEqual(['WAIST', 'NECK'])
+  })
+
+  it('falls back to the default sites for an empty, repeated or unknown list', () => {
+    for (const measurementSites of [[], ['WAIST', 'WAIST'], ['ANKLE']]) {
+      expect(parsePreferences({ measurementSites }).measurementSites).toEqual(
+        DEFAULT_PREFERENCES.measurementSites,
+      )
+    }
+  })
+})
@@ -0,0 +1,115 @@
+import { DISTANCE_UNITS } from './cardio'
+import {
+  DEFAULT_MEASUREMENT_SITES,
+  LENGTH_UNITS,
+  MEASUREMENT_SITES,
+} from './measurements'
+import { E1RM_FORMULAS } from './progression-utils'
+import { LIFTER_SEXES } from './relative-strength'
+import type { LengthUnit } from './measurements'
+import type { E1rmFormula } from './progression-utils'
+import type { LifterSex } from './relative-strength'
+import type { DistanceUnit, MeasurementSite, WeightUnit } from '@prisma/client'
+
+export const WEIGHT_UNITS: ReadonlyArray<WeightUnit> = ['KG', 'LBS']
+
+// Hours without a logged set before an open workout is closed automatically
+export const STALE_SESSION_HOURS_OPTIONS: ReadonlyArray<number> = [2, 4, 8, 12]
+
+export interface UserPreferences {
+  // Unit weights and volumes are displayed in, and new sets default to
+  weightUnit: WeightUnit
+  // Idle hours before an open workout is auto-closed; null never closes it
+  staleSessionHours: number | null
+  // Formula estimated 1RMs are worked out with
+  e1rmFormula: E1rmFormula
+  // Category DOTS, Wilks and IPF GL are scored in; null leaves them off
+  lifterSex: LifterSex | null
+  // Unit body measurements are displayed and entered in
+  lengthUnit: LengthUnit
+  // Body sites offered for measuring, in the order they are shown
+  measurementSites: Array<MeasurementSite>
+  // Unit cardio distances and paces are displayed in, and new sets default to
+  distanceUnit: DistanceUnit
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  weightUnit: 'KG',
+  staleSessionHours: 4,
+  e1rmFormula: 'EPLEY',
+  lifterSex: null,
+  lengthUnit: 'CM',
+  measurementSites: [...DEFAULT_MEASUREMENT_SITES],
+  distanceUnit: 'KM',
+}
+
+export function isWeightUnit(value: unknown): value is WeightUnit {
+  return WEIGHT_UNITS.includes(value as WeightUnit)
+}
+
+export function isStaleSessionHours(value: unknown): value is number | null {
+  return value === null || STALE_SESSION_HOURS_OPTIONS.includes(value as number)
+}
+
+export function isE1rmFormula(value: unknown): value is E1rmFormula {
+  return E1RM_FORMULAS.includes(value as E1rmFormula)
+}
+
+export function isLifterSex(value: unknown): value is LifterSex | null {
+  return value === null || LIFTER_SEXES.includes(value as LifterSex)
+}
+
+export function isLengthUnit(value: unknown): value is LengthUnit {
+  return LENGTH_UNITS.includes(value as LengthUnit)
+}
+
+export function isDistanceUnit(value: unknown): value is DistanceUnit {
+  return DISTANCE_UNITS.includes(value as DistanceUnit)
+}
+
+/** At least one known site, none repeated */
+export function isMeasurementSites(
+  value: unknown,
+): value is Array<MeasurementSite> {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    new Set(value).size === value.length &&
+    value.every((site) => MEASUREMENT_SITES.includes(site as MeasurementSite))
+  )
+}
+
+/**
+ * Read preferences from the stored JSON column, falling back to the default
+ * for any missing or unrecognised value.
+ */
+export function parsePreferences(value: unknown): UserPreferences {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ...DEFAULT_PREFERENCES }
+  }
+  const stored = value as Record<string, unknown>
+
+  return {
+    weightUnit: isWeightUnit(stored.weightUnit)
+      ? stored.weightUnit
+      : DEFAULT_PREFERENCES.weightUnit,
+    staleSessionHours: isStaleSessionHours(stored.staleSessionHours)
+      ? stored.staleSessionHours
+      : DEFAULT_PREFERENCES.staleSessionHours,
+    e1rmFormula: isE1rmFormula(stored.e1rmFormula)
+      ? stored.e1rmFormula
+      : DEFAULT_PREFERENCES.e1rmFormula,
+    lifterSex: isLifterSex(stored.lifterSex)
+      ? stored.lifterSex
+      : DEFAULT_PREFERENCES.lifterSex,
+    lengthUnit: isLengthUnit(stored.lengthUnit)
+      ? stored.lengthUnit
+      : DEFAULT_PREFERENCES.lengthUnit,
+    measurementSites: isMeasurementSites(stored.measurementSites)
+      ? [...stored.measurementSites]
+      : [...DEFAULT_PREFERENCES.measurementSites],
+    distanceUnit: isDistanceUnit(stored.distanceUnit)
+      ? stored.distanceUnit
+      : DEFAULT_PREFERENCES.distanceUnit,
+  }
+}
@@ -3,6 +3,7 @@ import { createServerFn } from '@tanstack/react-start'
 import { requireAuth } from './auth-guard.server'
 import { MAX_CODE_GENERATION_ATTEMPTS } from './constants'
 import { prisma } from './db.server'
+import { COUNTED_PR_WHERE } from './pr-utils'
 import { rateLimit } from './rate-limit.server'
 import { getTotalVolume } from './volume.server'
 
@@ -459,7 +460,7 @@ export const getProfileStats = createServerFn({ method: 'GET' })
         },
       }),
       prisma.personalRecord.count({
-        where: { userId },
+        where: { userId, ...COUNTED_PR_WHERE },
       }),
       prisma.userAchievement.count({
         where: { userId },
@@ -0,0 +1,151 @@
+import { createServerFn } from '@tanstack/react-start'
+import { prisma } from './db.server'
+import { requireAuth } from './auth-guard.server'
+import {
+  MAX_PROGRESS_PHOTOS,
+  MAX_PROGRESS_PHOTO_SIZE_BYTES,
+  MAX_PROGRESS_PHOTO_SIZE_MB,
+} from './constants'
+import { deleteObject, getObject, putObject } from './photo-storage.server'
+import {
+  detectPhotoMimeType,
+  getPhotoFileName,
+  getPhotoStorageKey,
+} from './progress-photos'
+import { rateLimit } from './rate-limit.server'
+import { validateNotes } from './validation'
+import type { PhotoMimeType } from './progress-photos'
+
+/** A stored photo as a data URL, for the owner's eyes only */
+async function readPhotoDataUrl(photo: {
+  storageKey: string
+  mimeType: string
+}): Promise<string> {
+  const body = await getObject(photo.storageKey)
+  return `data:${photo.mimeType};base64,${body.toString('base64')}`
+}
+
+// Upload a progress photo, sent as a base64 data URL
+export const uploadProgressPhoto = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      token: string | null
+      image: string
+      takenAt?: string
+      notes?: string
+    }) => data,
+  )
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'progress-photo-upload', limit: 10, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
+    validateNotes(data.notes)
+
+    // Reject oversized uploads before decoding: 4 base64 characters per 3 bytes
+    const base64 = data.image.replace(/^data:[^,]*;base64,/, '')
+    if (base64.length > Math.ceil(MAX_PROGRESS_PHOTO_SIZE_BYTES / 3) * 4) {
+      throw new Error(
+        `Photos must be ${MAX_PROGRESS_PHOTO_SIZE_MB} MB or smaller`,
+      )
+    }
+    const body = Buffer.from(base64, 'base64')
+    const mimeType = detectPhotoMimeType(body)
+    if (!mimeType) {
+      throw new Error('Photos must be JPEG, PNG or WebP images')
+    }
+
+    const takenAt = data.takenAt ? new Date(data.takenAt) : new Date()
+    if (Number.isNaN(takenAt.getTime())) {
+      throw new Error('Invalid date')
+    }
+    if (takenAt > new Date()) {
+      throw new Error('Photos cannot be dated in the future')
+    }
+
+    const count = await prisma.progressPhoto.count({ where: { userId } })
+    if (count >= MAX_PROGRESS_PHOTOS) {
+      throw new Error(
+        `You can keep up to ${MAX_PROGRESS_PHOTOS} progress photos. Delete some to add more.`,
+      )
+    }
+
+    const id = crypto.randomUUID()
+    const storageKey = getPhotoStorageKey(userId, id, mimeType)
+    await putObject(storageKey, body)
+
+    try {
+      const photo = await prisma.progressPhoto.create({
+        data: {
+          id,
+          userId,
+          storageKey,
+          mimeType,
+          sizeBytes: body.length,
+          notes: data.notes || null,
+          takenAt,
+        },
+        select: { id: true, takenAt: true, notes: true },
+      })
+      return { photo }
+    } catch (error) {
+      // Don't leave an orphaned file behind
+      await deleteObject(storageKey)
+      throw error
+    }
+  })
+
+// List the user's progress photos, newest first, without the images
+export const getProgressPhotos = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token: string | null }) => data)
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+
+    const photos = await prisma.progressPhoto.findMany({
+      where: { userId },
+      orderBy: { takenAt: 'desc' },
+      select: { id: true, takenAt: true, notes: true },
+    })
+
+    return { photos }
+  })
+
+// Get one of the user's own progress photos, with the name to save it under
+export const getProgressPhoto = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token: string | null; id: string }) => data)
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+
+    // Scoped to the owner, so other users' photos look the same as missing ones
+    const photo = await prisma.progressPhoto.findFirst({
+      where: { id: data.id, userId },
+      select: { storageKey: true, mimeType: true },
+    })
+    if (!photo) {
+      throw new Error('Progress photo not found')
+    }
+
+    return {
+      dataUrl: await readPhotoDataUrl(photo),
+      fileName: getPhotoFileName(data.id, photo.mimeType as PhotoMimeType),
+    }
+  })
+
+// Delete one of the user's progress photos and its image
+export const deleteProgressPhoto = createServerFn({ method: 'POST' })
+  .inputValidator((data: { token: string | null; id: string }) => data)
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'progress-photo-delete', limit: 20, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
+
+    const photo = await prisma.progressPhoto.findFirst({
+      where: { id: data.id, userId },
+      select: { id: true, storageKey: true },
+    })
+    if (!photo) {
+      throw new Error('Progress photo not found')
+    }
+
+    await prisma.progressPhoto.delete({ where: { id: photo.id } })
+    await deleteObject(photo.storageKey)
+
+    return { success: true }
+  })
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import {
+  detectPhotoMimeType,
+  getPhotoFileName,
+  getPhotoStorageKey,
+} from './progress-photos'
+
+const bytes = (...values: Array<number>) => new Uint8Array(values)
+
+describe('detectPhotoMimeType', () => {
+  it('recognises JPEG, PNG and WebP images by their leading bytes', () => {
+    expect(detectPhotoMimeType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe(
+      'image/jpeg',
+    )
+    expect(
+      detectPhotoMimeType(
+        bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a),
+      ),
+    ).toBe('image/png')
+    expect(
+      detectPhotoMimeType(
+        bytes(0x52, 0x49, 0x46, 0x46, 1, 2, 3, 4, 0x57, 0x45, 0x42, 0x50),
+      ),
+    ).toBe('image/webp')
+  })
+
+  it('rejects anything else, whatever it claims to be', () => {
+    expect(detectPhotoMimeType(new TextEncoder().encode('<svg>'))).toBeNull()
+    // A RIFF file that is not WebP, such as a WAV
+    expect(
+      detectPhotoMimeType(
+        bytes(0x52, 0x49, 0x46, 0x46, 1, 2, 3, 4, 0x57, 0x41, 0x56, 0x45),
+      ),
+    ).toBeNull()
+    expect(detectPhotoMimeType(bytes())).toBeNull()
+  })
+})
+
+describe('getPhotoStorageKey', () => {
+  it('keeps each photo under its owner', () => {
+    expect(getPhotoStorageKey('user-1', 'photo-1', 'image/webp')).toBe(
+      'user-1/photo-1.webp',
+    )
+  })
+})
+
+describe('getPhotoFileName', () => {
+  it('names the download after the photo and its type', () => {
+    expect(getPhotoFileName('photo-1', 'image/jpeg')).toBe(
+      'progress-photo-photo-1.jpg',
+    )
+  })
+})
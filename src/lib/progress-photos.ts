@@ -0,0 +1,46 @@
+export type PhotoMimeType = 'image/jpeg' | 'image/png' | 'image/webp'
+
+export const PHOTO_EXTENSIONS: Record<PhotoMimeType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+}
+
+const startsWith = (bytes: Uint8Array, signature: Array<number>, offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte)
+
+/**
+ * The image type of an upload from its leading bytes, or null for anything
+ * that is not a JPEG, PNG or WebP. The declared type is never trusted.
+ */
+export function detectPhotoMimeType(bytes: Uint8Array): PhotoMimeType | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png'
+  }
+  // "RIFF" <size> "WEBP"
+  if (
+    startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) &&
+    startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)
+  ) {
+    return 'image/webp'
+  }
+  return null
+}
+
+/** The name a photo is saved under when downloaded, as listed in the export */
+export function getPhotoFileName(
+  photoId: string,
+  mimeType: PhotoMimeType,
+): string {
+  return `progress-photo-${photoId}.${PHOTO_EXTENSIONS[mimeType]}`
+}
+
+/** Where a user's photo is kept in photo storage */
+export function getPhotoStorageKey(
+  userId: string,
+  photoId: string,
+  mimeType: PhotoMimeType,
+): string {
+  return `${userId}/${photoId}.${PHOTO_EXTENSIONS[mimeType]}`
+}
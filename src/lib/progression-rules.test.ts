@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest'
+import {
+  describeNextTargets,
+  getNextTargets,
+  validateProgressionRule,
+} from './progression-rules'
+import type { PerformedSet, ProgressionRule } from './progression-rules'
+
+const rule = (overrides: Partial<ProgressionRule> = {}): ProgressionRule => ({
+  progressionScheme: 'LINEAR',
+  targetSets: 3,
+  targetReps: 5,
+  targetRepsMax: null,
+  targetRpe: null,
+  targetRir: null,
+  weightIncrement: null,
+  ...overrides,
+})
+
+const sets = (weightKg: number, ...reps: Array<number>): Array<PerformedSet> =>
+  reps.map((r) => ({ weightKg, reps: r, rpe: null }))
+
+describe('getNextTargets', () => {
+  it('adds the default increment when every linear set hits its reps', () => {
+    expect(getNextTargets(rule(), sets(100, 5, 5, 6))).toEqual({
+      weight: 102.5,
+      reps: 5,
+      outcome: 'increase',
+      basisWeight: 100,
+      basisReps: 5,
+      basisRpe: null,
+    })
+  })
+
+  it('repeats the weight after a missed linear set', () => {
+    const next = getNextTargets(
+      rule({ weightIncrement: 5 }),
+      sets(100, 5, 5, 3),
+    )
+
+    expect(next).toMatchObject({ weight: 100, reps: 5, outcome: 'hold' })
+  })
+
+  it('judges only the sets at the working weight', () => {
+    const next = getNextTargets(rule(), [...sets(60, 5), ...sets(100, 5, 5, 5)])
+
+    expect(next).toMatchObject({ weight: 102.5, outcome: 'increase' })
+  })
+
+  it('builds reps across a double progression range before adding weight', () => {
+    const double = rule({
+      progressionScheme: 'DOUBLE',
+      targetReps: 8,
+      targetRepsMax: 12,
+    })
+
+    expect(getNextTargets(double, sets(50, 10, 9, 9))).toMatchObject({
+      weight: 50,
+      reps: 10,
+      outcome: 'add_reps',
+    })
+    expect(getNextTargets(double, sets(50, 12, 12, 12))).toMatchObject({
+      weight: 52.5,
+      reps: 8,
+      outcome: 'increase',
+    })
+  })
+
+  it('autoregulates from the last rated set toward the target RPE', () => {
+    const rpe = rule({ progressionScheme: 'RPE', targetRpe: 8 })
+    const easy = [{ weightKg: 100, reps: 5, rpe: 6 }]
+    const hard = [{ weightKg: 100, reps: 5, rpe: 10 }]
+
+    expect(getNextTargets(rpe, easy)).toMatchObject({
+      weight: 105,
+      outcome: 'increase',
+      basisRpe: 6,
+    })
+    expect(getNextTargets(rpe, hard)).toMatchObject({
+      weight: 95,
+      outcome: 'decrease',
+    })
+  })
+
+  it('treats a target RIR as the matching RPE', () => {
+    const rir = rule({ progressionScheme: 'RPE', targetRir: 2 })
+
+    expect(getNextTargets(rir, [{ weightKg: 100, reps: 5, rpe: 6 }])).toEqual(
+      getNextTargets({ ...rir, targetRir: null, targetRpe: 8 }, [
+        { weightKg: 100, reps: 5, rpe: 6 },
+      ]),
+    )
+  })
+
+  it('holds an RPE rule when no set was rated', () => {
+    expect(
+      getNextTargets(
+        rule({ progressionScheme: 'RPE', targetRpe: 8 }),
+        sets(100, 5),
+      ),
+    ).toMatchObject({ weight: 100, outcome: 'hold', basisRpe: null })
+  })
+
+  it('returns null without a scheme or any completed reps', () => {
+    expect(
+      getNextTargets(rule({ progressionScheme: null }), sets(100, 5)),
+    ).toBeNull()
+    expect(getNextTargets(rule(), sets(100, 0))).toBeNull()
+  })
+})
+
+describe('validateProgressionRule', () => {
+  it('requires a rep range for double progression', () => {
+    expect(() =>
+      validateProgressionRule(
+        rule({ progressionScheme: 'DOUBLE', targetRepsMax: 5 }),
+        false,
+      ),
+    ).toThrow('Double progression needs a rep range')
+  })
+
+  it('requires an effort target for RPE progression', () => {
+    expect(() =>
+      validateProgressionRule(rule({ progressionScheme: 'RPE' }), false),
+    ).toThrow('needs a target RPE or RIR')
+  })
+
+  it('rejects schemes on timed exercises', () => {
+    expect(() => validateProgressionRule(rule(), true)).toThrow(
+      'rep-based exercise',
+    )
+  })
+
+  it('accepts a manual plan exercise as is', () => {
+    expect(() =>
+      validateProgressionRule(rule({ progressionScheme: null }), true),
+    ).not.toThrow()
+  })
+})
+
+describe('describeNextTargets', () => {
+  it('explains the step in the display unit', () => {
+    const next = getNextTargets(rule(), sets(100, 5, 5, 5))
+
+    expect(describeNextTargets(next!, rule(), 'KG')).toBe(
+      'All sets reached 5+ reps at 100kg, so add weight: 102.5kg × 5.',
+    )
+  })
+})
@@ -0,0 +1,237 @@
+import {
+  DEFAULT_WEIGHT_INCREMENT_KG,
+  MAX_WEIGHT_INCREMENT_KG,
+  RPE_MAX,
+} from './constants'
+import { formatWeightKg } from './formatting'
+import { formatEffortTarget, getTargetRpe } from './plan-targets'
+import type { ProgressionScheme, WeightUnit } from '@prisma/client'
+
+export const PROGRESSION_SCHEMES: ReadonlyArray<ProgressionScheme> = [
+  'LINEAR',
+  'DOUBLE',
+  'RPE',
+]
+
+export const PROGRESSION_SCHEME_LABELS: Record<ProgressionScheme, string> = {
+  LINEAR: 'Linear',
+  DOUBLE: 'Double Progression',
+  RPE: 'RPE',
+}
+
+export interface ProgressionRule {
+  progressionScheme: ProgressionScheme | null
+  targetSets: number
+  targetReps: number | null
+  targetRepsMax: number | null
+  targetRpe: number | null
+  targetRir: number | null
+  weightIncrement: number | null // kg
+}
+
+/** A working set from the session the next targets are based on */
+export interface PerformedSet {
+  weightKg: number
+  reps: number
+  rpe: number | null
+}
+
+export type ProgressionOutcome = 'increase' | 'hold' | 'decrease' | 'add_reps'
+
+export interface NextTargets {
+  weight: number // kg
+  reps: number
+  outcome: ProgressionOutcome
+  basisWeight: number // kg
+  basisReps: number
+  basisRpe: number | null
+}
+
+const WEIGHT_EPSILON = 0.01
+
+/** Throws if the rule can't be followed as configured. */
+export function validateProgressionRule(
+  rule: ProgressionRule,
+  isTimed: boolean,
+): void {
+  const { progressionScheme: scheme } = rule
+  if (!scheme) return
+  if (isTimed) {
+    throw new Error('Progression schemes need a rep-based exercise')
+  }
+  if (!rule.targetReps || rule.targetReps < 1) {
+    throw new Error('Set target reps to use a progression scheme')
+  }
+  if (
+    rule.weightIncrement !== null &&
+    (rule.weightIncrement <= 0 ||
+      rule.weightIncrement > MAX_WEIGHT_INCREMENT_KG)
+  ) {
+    throw new Error(
+      `Weight increment must be between 0 and ${MAX_WEIGHT_INCREMENT_KG} kg`,
+    )
+  }
+  if (
+    scheme === 'DOUBLE' &&
+    (!rule.targetRepsMax || rule.targetRepsMax <= rule.targetReps)
+  ) {
+    throw new Error('Double progression needs a rep range, e.g. 8 to 12')
+  }
+  if (scheme === 'RPE' && getTargetRpe(rule) === null) {
+    throw new Error('RPE progression needs a target RPE or RIR')
+  }
+}
+
+function roundKg(kg: number): number {
+  return Math.round(kg * 100) / 100
+}
+
+/** Round to the nearest loadable weight for the increment */
+function roundToIncrement(kg: number, increment: number): number {
+  return roundKg(Math.round(kg / increment) * increment)
+}
+
+/**
+ * Next session's weight and reps under the rule, from the working sets of
+ * the session just finished. Returns null when the rule has no scheme or
+ * nothing usable was logged.
+ *
+ * - Linear: every target set at the working weight hit the target reps, so
+ *   add one increment; otherwise repeat the weight.
+ * - Double: once every target set reaches the top of the rep range, add one
+ *   increment and drop back to the bottom; otherwise aim for one more rep.
+ * - RPE: estimate a 1RM from the last rated set at the working weight
+ *   (Epley, counting reps in reserve as reps), then pick the weight that
+ *   puts the target reps at the target RPE.
+ */
+export function getNextTargets(
+  rule: ProgressionRule,
+  sets: ReadonlyArray<PerformedSet>,
+): NextTargets | null {
+  const { progressionScheme: scheme, targetReps } = rule
+  const performed = sets.filter((s) => s.reps > 0)
+  if (!scheme || !targetReps || performed.length === 0) return null
+
+  const increment = rule.weightIncrement ?? DEFAULT_WEIGHT_INCREMENT_KG
+  const workingWeight = Math.max(...performed.map((s) => s.weightKg))
+  const workingSets = performed.filter(
+    (s) => s.weightKg >= workingWeight - WEIGHT_EPSILON,
+  )
+  const fewestReps = Math.min(...workingSets.map((s) => s.reps))
+  const completedAllSets = workingSets.length >= rule.targetSets
+  const basis = {
+    basisWeight: workingWeight,
+    basisReps: fewestReps,
+    basisRpe: null,
+  }
+
+  if (scheme === 'LINEAR') {
+    const succeeded = completedAllSets && fewestReps >= targetReps
+    return {
+      weight: succeeded ? roundKg(workingWeight + increment) : workingWeight,
+      reps: targetReps,
+      outcome: succeeded ? 'increase' : 'hold',
+      ...basis,
+    }
+  }
+
+  if (scheme === 'DOUBLE') {
+    const repsMax = rule.targetRepsMax ?? targetReps
+    if (completedAllSets && fewestReps >= repsMax) {
+      return {
+        weight: roundKg(workingWeight + increment),
+        reps: targetReps,
+        outcome: 'increase',
+        ...basis,
+      }
+    }
+    return {
+      weight: workingWeight,
+      reps: Math.min(repsMax, Math.max(targetReps, fewestReps + 1)),
+      outcome: 'add_reps',
+      ...basis,
+    }
+  }
+
+  const targetRpe = getTargetRpe(rule) ?? RPE_MAX
+  const rated = workingSets.filter((s) => s.rpe !== null).at(-1)
+  if (!rated?.rpe) {
+    return {
+      weight: workingWeight,
+      reps: targetReps,
+      outcome: 'hold',
+      ...basis,
+    }
+  }
+  const e1rm = rated.weightKg * (1 + (rated.reps + RPE_MAX - rated.rpe) / 30)
+  const weight = roundToIncrement(
+    e1rm / (1 + (targetReps + RPE_MAX - targetRpe) / 30),
+    increment,
+  )
+  return {
+    weight,
+    reps: targetReps,
+    outcome:
+      weight > workingWeight + WEIGHT_EPSILON
+        ? 'increase'
+        : weight < workingWeight - WEIGHT_EPSILON
+          ? 'decrease'
+          : 'hold',
+    basisWeight: rated.weightKg,
+    basisReps: rated.reps,
+    basisRpe: rated.rpe,
+  }
+}
+
+/** e.g. "Double Progression · 8-12 reps · +2.5kg" */
+export function describeProgressionRule(
+  rule: ProgressionRule,
+  unit: WeightUnit,
+): string | null {
+  const scheme = rule.progressionScheme
+  if (!scheme) return null
+  const increment = formatWeightKg(
+    rule.weightIncrement ?? DEFAULT_WEIGHT_INCREMENT_KG,
+    unit,
+  )
+  const label = PROGRESSION_SCHEME_LABELS[scheme]
+  if (scheme === 'DOUBLE') {
+    return `${label} · ${rule.targetReps}-${rule.targetRepsMax} reps · +${increment}`
+  }
+  if (scheme === 'RPE') {
+    return `${label} · ${rule.targetReps} reps @ ${formatEffortTarget(rule)}`
+  }
+  return `${label} · +${increment} per session`
+}
+
+/** Why the rule chose the next targets, in the user's unit */
+export function describeNextTargets(
+  next: Omit<NextTargets, 'outcome'> & { outcome: string },
+  rule: ProgressionRule,
+  unit: WeightUnit,
+): string {
+  const basis = `${formatWeightKg(next.basisWeight, unit)} × ${next.basisReps}`
+  const target = `${formatWeightKg(next.weight, unit)} × ${next.reps}`
+
+  if (rule.progressionScheme === 'RPE') {
+    if (next.basisRpe === null) {
+      return `No RPE logged last time, so repeat ${target}. Rate your sets to autoregulate.`
+    }
+    const verb =
+      next.outcome === 'increase'
+        ? 'go up to'
+        : next.outcome === 'decrease'
+          ? 'back off to'
+          : 'stay at'
+    return `${basis} felt like RPE ${next.basisRpe}; to hit ${formatEffortTarget(rule)}, ${verb} ${target}.`
+  }
+
+  switch (next.outcome) {
+    case 'increase':
+      return `All sets reached ${next.basisReps}+ reps at ${formatWeightKg(next.basisWeight, unit)}, so add weight: ${target}.`
+    case 'add_reps':
+      return `Fewest reps last time: ${basis}. Build to ${target} before adding weight.`
+    default:
+      return `Missed the target last time (${basis}), so repeat ${target}.`
+  }
+}
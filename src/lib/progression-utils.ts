@@ -1,11 +1,17 @@
 // Progression calculation utilities
 
+import { WEIGHT_UNIT_LABELS } from './weight-utils'
+import { DISTANCE_UNIT_LABELS, PACE_UNIT_LABELS, calculatePace } from './cardio'
+import type { DistanceUnit, ExerciseType, WeightUnit } from '@prisma/client'
+
 export type ProgressionMetric =
   | 'max_weight'
   | 'estimated_1rm'
   | 'volume'
   | 'max_time'
   | 'max_reps'
+  | 'distance'
+  | 'pace'
 
 /**
  * Calculate estimated 1RM using Epley formula
@@ -17,6 +23,45 @@ export function calculate1RM(weight: number, reps: number): number {
   return Math.round(weight * (1 + reps / 30))
 }
 
+export type E1rmFormula = 'EPLEY' | 'BRZYCKI' | 'LOMBARDI'
+
+export const E1RM_FORMULAS: ReadonlyArray<E1rmFormula> = [
+  'EPLEY',
+  'BRZYCKI',
+  'LOMBARDI',
+]
+
+export const E1RM_FORMULA_LABELS: Record<E1rmFormula, string> = {
+  EPLEY: 'Epley',
+  BRZYCKI: 'Brzycki',
+  LOMBARDI: 'Lombardi',
+}
+
+/**
+ * Estimated 1RM by the chosen formula
+ * Epley: weight * (1 + reps/30)
+ * Brzycki: weight * 36 / (37 - reps)
+ * Lombardi: weight * reps^0.1
+ */
+export function estimate1RM(
+  weight: number,
+  reps: number,
+  formula: E1rmFormula = 'EPLEY',
+): number {
+  if (reps <= 0 || weight <= 0) return 0
+  if (reps === 1) return weight
+  switch (formula) {
+    case 'EPLEY':
+      return calculate1RM(weight, reps)
+    case 'BRZYCKI':
+      // The formula breaks down at 37 reps
+      if (reps >= 37) return 0
+      return Math.round((weight * 36) / (37 - reps))
+    case 'LOMBARDI':
+      return Math.round(weight * Math.pow(reps, 0.1))
+  }
+}
+
 /**
  * Calculate volume for a set
  * Volume = weight * reps (or weight * time for timed exercises)
@@ -40,22 +85,25 @@ export function calculateVolume(
 }
 
 /**
- * Calculate metric value for a set based on metric type
+ * Calculate metric value for a set based on metric type. Distance is in
+ * meters and pace in seconds per km.
  */
 export function calculateMetricValue(
   set: {
     weight: number | null
     reps: number | null
     timeSeconds: number | null
+    distanceMeters?: number | null
   },
   metric: ProgressionMetric,
+  formula: E1rmFormula = 'EPLEY',
 ): number {
   switch (metric) {
     case 'max_weight':
       return set.weight ?? 0
     case 'estimated_1rm':
       if (set.weight && set.reps) {
-        return calculate1RM(set.weight, set.reps)
+        return estimate1RM(set.weight, set.reps, formula)
       }
       return 0
     case 'volume':
@@ -64,6 +112,12 @@ export function calculateMetricValue(
       return set.timeSeconds ?? 0
     case 'max_reps':
       return set.reps ?? 0
+    case 'distance':
+      return set.distanceMeters ?? 0
+    case 'pace':
+      return (
+        calculatePace(set.distanceMeters ?? 0, set.timeSeconds ?? 0, 'KM') ?? 0
+      )
     default:
       return 0
   }
@@ -75,10 +129,19 @@ export function calculateMetricValue(
 export function getAvailableMetrics(
   isTimed: boolean,
   equipment?: string,
+  exerciseType?: ExerciseType,
 ): Array<{
   value: ProgressionMetric
   label: string
 }> {
+  if (exerciseType === 'CARDIO') {
+    return [
+      { value: 'distance', label: 'Distance' },
+      { value: 'pace', label: 'Pace' },
+      { value: 'max_time', label: 'Duration' },
+    ]
+  }
+
   if (equipment === 'BODYWEIGHT' && isTimed) {
     return [
       { value: 'max_time', label: 'Duration' },
@@ -109,21 +172,42 @@ export function getAvailableMetrics(
 }
 
 /**
- * Format metric value for display
+ * Whether a metric's values are weights, computed in kg and shown in the
+ * user's display unit
+ */
+export function isWeightMetric(metric: ProgressionMetric): boolean {
+  return (
+    metric === 'max_weight' || metric === 'estimated_1rm' || metric === 'volume'
+  )
+}
+
+/** Whether a session's best value for a metric is its lowest, as for pace */
+export function isLowerBetterMetric(metric: ProgressionMetric): boolean {
+  return metric === 'pace'
+}
+
+/**
+ * Format metric value for display. Weight, distance and pace metrics are
+ * expected to be already converted to the given units.
  */
 export function formatMetricValue(
   value: number,
   metric: ProgressionMetric,
+  unit: WeightUnit = 'KG',
+  distanceUnit: DistanceUnit = 'KM',
 ): string {
+  const label = WEIGHT_UNIT_LABELS[unit]
   switch (metric) {
     case 'max_weight':
     case 'estimated_1rm':
-      return `${value}kg`
+      return `${value}${label}`
     case 'volume':
       if (value >= 1000) {
-        return `${(value / 1000).toFixed(1)}t`
+        return unit === 'KG'
+          ? `${(value / 1000).toFixed(1)}t`
+          : `${(value / 1000).toFixed(1)}k ${label}`
       }
-      return `${value}kg`
+      return `${value}${label}`
     case 'max_time': {
       const mins = Math.floor(value / 60)
       const secs = value % 60
@@ -134,6 +218,13 @@ export function formatMetricValue(
     }
     case 'max_reps':
       return `${value} reps`
+    case 'distance':
+      return `${value}${DISTANCE_UNIT_LABELS[distanceUnit]}`
+    case 'pace': {
+      const mins = Math.floor(value / 60)
+      const secs = value % 60
+      return `${mins}:${secs.toString().padStart(2, '0')}${PACE_UNIT_LABELS[distanceUnit]}`
+    }
     default:
       return `${value}`
   }
@@ -142,29 +233,40 @@ export function formatMetricValue(
 /**
  * Get metric label for Y-axis
  */
-export function getMetricAxisLabel(metric: ProgressionMetric): string {
+export function getMetricAxisLabel(
+  metric: ProgressionMetric,
+  unit: WeightUnit = 'KG',
+  distanceUnit: DistanceUnit = 'KM',
+): string {
   switch (metric) {
     case 'max_weight':
     case 'estimated_1rm':
-      return 'Weight (kg)'
+      return `Weight (${WEIGHT_UNIT_LABELS[unit]})`
     case 'volume':
-      return 'Volume (kg)'
+      return `Volume (${WEIGHT_UNIT_LABELS[unit]})`
     case 'max_time':
       return 'Time (sec)'
     case 'max_reps':
       return 'Reps'
+    case 'distance':
+      return `Distance (${DISTANCE_UNIT_LABELS[distanceUnit]})`
+    case 'pace':
+      return `Pace (min${PACE_UNIT_LABELS[distanceUnit]})`
     default:
       return 'Value'
   }
 }
 
 /**
- * Calculate improvement percentage between first and last value
+ * Calculate improvement percentage between first and last value; when lower
+ * is better, a fall counts as improvement
  */
 export function calculateImprovement(
   firstValue: number,
   lastValue: number,
+  lowerIsBetter = false,
 ): number | null {
   if (firstValue <= 0) return null
-  return Math.round(((lastValue - firstValue) / firstValue) * 100)
+  const gain = lowerIsBetter ? firstValue - lastValue : lastValue - firstValue
+  return Math.round((gain / firstValue) * 100)
 }
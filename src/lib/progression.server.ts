@@ -1,9 +1,14 @@
 import { createServerFn } from '@tanstack/react-start'
 import { prisma } from './db.server'
 import { requireAuth } from './auth-guard.server'
-import { calculateMetricValue } from './progression-utils'
+import { calculateMetricValue, isLowerBetterMetric } from './progression-utils'
+import { getSetDistanceMeters } from './cardio'
 import { selectDisplayPR } from './pr-utils'
-import type { ProgressionMetric } from './progression-utils'
+import { getRepMaxBests } from './rep-maxes'
+import { MAX_REP_MAX } from './constants'
+import { getSetVolumeKg, getSetWeightKg } from './weight-utils'
+import type { E1rmFormula, ProgressionMetric } from './progression-utils'
+import type { RecordType } from '@prisma/client'
 
 export type ProgressionDataPoint = {
   date: string
@@ -21,6 +26,7 @@ export const getExerciseProgression = createServerFn({ method: 'GET' })
       token: string | null
       exerciseId: string
       metric: ProgressionMetric
+      e1rmFormula?: E1rmFormula
       startDate?: string
       endDate?: string
     }) => data,
@@ -75,24 +81,34 @@ export const getExerciseProgression = createServerFn({ method: 'GET' })
       { date: Date; value: number; sessionId: string }
     >()
 
+    // Pace is best at its lowest
+    const lowerIsBetter = isLowerBetterMetric(data.metric)
+
     for (const set of sets) {
       if (!set.workoutSession.completedAt) continue
 
       const sessionId = set.workoutSessionId
       const currentValue = calculateMetricValue(
         {
-          weight: set.weight,
+          weight: getSetWeightKg(set),
           reps: set.reps,
           timeSeconds: set.timeSeconds,
+          distanceMeters: getSetDistanceMeters(set),
         },
         data.metric,
+        data.e1rmFormula,
       )
 
       // Skip zero values
       if (currentValue <= 0) continue
 
       const existing = sessionData.get(sessionId)
-      if (!existing || currentValue > existing.value) {
+      if (
+        !existing ||
+        (lowerIsBetter
+          ? currentValue < existing.value
+          : currentValue > existing.value)
+      ) {
         sessionData.set(sessionId, {
           date: set.workoutSession.completedAt,
           value: currentValue,
@@ -129,6 +145,7 @@ export const getExerciseSummary = createServerFn({ method: 'GET' })
         name: true,
         muscleGroup: true,
         equipment: true,
+        exerciseType: true,
         isTimed: true,
       },
     })
@@ -172,6 +189,7 @@ export const getExerciseSummary = createServerFn({ method: 'GET' })
         workoutSet: {
           select: {
             weight: true,
+            weightUnit: true,
             reps: true,
             timeSeconds: true,
           },
@@ -190,7 +208,7 @@ export const getExerciseSummary = createServerFn({ method: 'GET' })
         ? {
             recordType: currentPR.recordType,
             value: currentPR.value,
-            weight: currentPR.workoutSet.weight,
+            weight: getSetWeightKg(currentPR.workoutSet),
             reps: currentPR.workoutSet.reps,
             timeSeconds: currentPR.workoutSet.timeSeconds,
             achievedAt: currentPR.achievedAt.toISOString(),
@@ -231,8 +249,11 @@ export const getExerciseRecentSessions = createServerFn({ method: 'GET' })
           },
           select: {
             weight: true,
+            weightUnit: true,
             reps: true,
             timeSeconds: true,
+            distance: true,
+            distanceUnit: true,
           },
         },
       },
@@ -249,15 +270,15 @@ export const getExerciseRecentSessions = createServerFn({ method: 'GET' })
         let bestReps = 0
         let totalVolume = 0
         let bestTime = 0
+        let bestDistance = 0
 
         for (const set of session.workoutSets) {
-          if (set.weight && set.weight > bestWeight) {
-            bestWeight = set.weight
+          const weightKg = getSetWeightKg(set) ?? 0
+          if (weightKg > bestWeight) {
+            bestWeight = weightKg
             bestReps = set.reps ?? 0
           }
-          if (set.weight && set.reps) {
-            totalVolume += set.weight * set.reps
-          }
+          totalVolume += getSetVolumeKg(set)
           // Track best reps for bodyweight exercises (no weight)
           if (!set.weight && set.reps && set.reps > bestReps) {
             bestReps = set.reps
@@ -265,6 +286,10 @@ export const getExerciseRecentSessions = createServerFn({ method: 'GET' })
           if (set.timeSeconds && set.timeSeconds > bestTime) {
             bestTime = set.timeSeconds
           }
+          const meters = getSetDistanceMeters(set) ?? 0
+          if (meters > bestDistance) {
+            bestDistance = meters
+          }
         }
 
         return {
@@ -275,7 +300,101 @@ export const getExerciseRecentSessions = createServerFn({ method: 'GET' })
           bestReps,
           totalVolume,
           bestTime,
+          bestDistance,
         }
       }),
     }
   })
+
+// ============================================
+// GET EXERCISE PR HISTORY
+// ============================================
+
+export type PrHistoryPoint = {
+  id: string
+  recordType: RecordType
+  value: number
+  previousValue: number | null
+  achievedAt: string
+  weight: number | null // kg
+  reps: number | null
+  timeSeconds: number | null
+}
+
+export const getExercisePrHistory = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token: string | null; exerciseId: string }) => data)
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+
+    const history = await prisma.personalRecordHistory.findMany({
+      where: { userId, exerciseId: data.exerciseId },
+      include: {
+        workoutSet: {
+          select: {
+            weight: true,
+            weightUnit: true,
+            reps: true,
+            timeSeconds: true,
+          },
+        },
+      },
+      orderBy: { achievedAt: 'asc' },
+    })
+
+    const points: Array<PrHistoryPoint> = history.map((entry) => ({
+      id: entry.id,
+      recordType: entry.recordType,
+      value: entry.value,
+      previousValue: entry.previousValue,
+      achievedAt: entry.achievedAt.toISOString(),
+      weight: getSetWeightKg(entry.workoutSet),
+      reps: entry.workoutSet.reps,
+      timeSeconds: entry.workoutSet.timeSeconds,
+    }))
+
+    return { history: points }
+  })
+
+// ============================================
+// GET EXERCISE REP MAXES
+// ============================================
+
+export const getExerciseRepMaxes = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token: string | null; exerciseId: string }) => data)
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+
+    // Same sets that count toward PRs
+    const sets = await prisma.workoutSet.findMany({
+      where: {
+        exerciseId: data.exerciseId,
+        isWarmup: false,
+        isDropset: false,
+        weight: { gt: 0 },
+        reps: { gte: 1, lte: MAX_REP_MAX },
+        workoutSession: { userId },
+      },
+      select: {
+        weight: true,
+        weightUnit: true,
+        reps: true,
+        completedAt: true,
+      },
+    })
+
+    const bests = getRepMaxBests(
+      sets.map((set) => ({
+        weightKg: getSetWeightKg(set) ?? 0,
+        reps: set.reps ?? 0,
+        completedAt: set.completedAt,
+      })),
+    )
+
+    return {
+      bests: bests.map((best) => ({
+        weightKg: best.weightKg,
+        reps: best.reps,
+        completedAt: new Date(best.completedAt).toISOString(),
+      })),
+    }
+  })
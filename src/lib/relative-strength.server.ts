@@ -0,0 +1,108 @@
+import { createServerFn } from '@tanstack/react-start'
+import { prisma } from './db.server'
+import { requireAuth } from './auth-guard.server'
+import { E1RM_LOOKBACK_DAYS } from './constants'
+import { getEstimatedOneRepMaxes } from './plan-targets'
+import { parsePreferences } from './preferences'
+import {
+  POWERLIFT_CATALOG_KEYS,
+  calculateRelativeStrength,
+} from './relative-strength'
+import { normalizeToKg } from './weight-utils'
+import type { RelativeStrength } from './relative-strength'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Relative-strength scores for users who have picked a strength score
+ * category, logged a body weight and lifted all three powerlifts. The total
+ * is the sum of each lift's best estimated 1RM (last
+ * {@link E1RM_LOOKBACK_DAYS} days, else all time), scored at the user's
+ * latest body weight. Limited to `userIds` when given; users without a
+ * score are left out.
+ */
+export async function getRelativeStrengthScores(
+  userIds?: Array<string>,
+  now = new Date(),
+): Promise<Map<string, RelativeStrength>> {
+  const users = await prisma.user.findMany({
+    where: {
+      deletedAt: null,
+      bodyweightEntries: { some: {} },
+      ...(userIds && { id: { in: userIds } }),
+    },
+    select: { id: true, preferences: true },
+  })
+  const sexes = new Map(
+    users.flatMap((user) => {
+      const { lifterSex } = parsePreferences(user.preferences)
+      return lifterSex ? [[user.id, lifterSex] as const] : []
+    }),
+  )
+  const scores = new Map<string, RelativeStrength>()
+  if (sexes.size === 0) return scores
+
+  const ids = [...sexes.keys()]
+  const [bodyweights, sets] = await Promise.all([
+    prisma.bodyweightEntry.findMany({
+      where: { userId: { in: ids } },
+      distinct: ['userId'],
+      orderBy: [{ userId: 'asc' }, { recordedAt: 'desc' }],
+      select: { userId: true, weight: true },
+    }),
+    prisma.workoutSet.findMany({
+      where: {
+        exercise: { catalogKey: { in: [...POWERLIFT_CATALOG_KEYS] } },
+        isWarmup: false,
+        reps: { gt: 0 },
+        weight: { gt: 0 },
+        workoutSession: { userId: { in: ids }, completedAt: { not: null } },
+      },
+      select: {
+        exerciseId: true,
+        weight: true,
+        weightUnit: true,
+        reps: true,
+        completedAt: true,
+        workoutSession: { select: { userId: true } },
+      },
+    }),
+  ])
+
+  const setsByUser = new Map<string, typeof sets>()
+  for (const set of sets) {
+    const userSets = setsByUser.get(set.workoutSession.userId) ?? []
+    userSets.push(set)
+    setsByUser.set(set.workoutSession.userId, userSets)
+  }
+
+  const since = new Date(now.getTime() - E1RM_LOOKBACK_DAYS * DAY_MS)
+  for (const { userId, weight } of bodyweights) {
+    const sex = sexes.get(userId)
+    const oneRepMaxes = getEstimatedOneRepMaxes(
+      (setsByUser.get(userId) ?? []).map((s) => ({
+        exerciseId: s.exerciseId,
+        weightKg: normalizeToKg(s.weight ?? 0, s.weightUnit),
+        reps: s.reps ?? 0,
+        completedAt: s.completedAt,
+      })),
+      since,
+    )
+    // Squat, bench and deadlift are one catalog exercise each
+    if (!sex || oneRepMaxes.size < POWERLIFT_CATALOG_KEYS.length) continue
+
+    const totalKg = [...oneRepMaxes.values()].reduce((sum, e1rm) => sum + e1rm)
+    scores.set(userId, calculateRelativeStrength(totalKg, weight, sex))
+  }
+  return scores
+}
+
+// Get the current user's relative-strength scores, null until they qualify
+export const getRelativeStrength = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token: string | null }) => data)
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+
+    const scores = await getRelativeStrengthScores([userId])
+    return { strength: scores.get(userId) ?? null }
+  })
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateDots,
+  calculateIpfGl,
+  calculateRelativeStrength,
+  calculateWilks,
+} from './relative-strength'
+
+describe('calculateRelativeStrength', () => {
+  it('scores a total in the MALE category', () => {
+    expect(calculateRelativeStrength(600, 100, 'MALE')).toEqual({
+      totalKg: 600,
+      bodyweightKg: 100,
+      dots: 369.31,
+      wilks: 365.15,
+      ipfGl: 75.8,
+    })
+  })
+
+  it('scores a total in the FEMALE category', () => {
+    expect(calculateRelativeStrength(400, 60, 'FEMALE')).toMatchObject({
+      dots: 443.42,
+      wilks: 445.95,
+      ipfGl: 90.42,
+    })
+  })
+})
+
+describe('body weight limits', () => {
+  it('clamps DOTS and Wilks to the fitted body weights', () => {
+    expect(calculateDots(600, 250, 'MALE')).toBe(
+      calculateDots(600, 210, 'MALE'),
+    )
+    expect(calculateWilks(300, 20, 'FEMALE')).toBe(
+      calculateWilks(300, 26.51, 'FEMALE'),
+    )
+  })
+
+  it('gives no score without a total or a body weight', () => {
+    expect(calculateDots(0, 80, 'MALE')).toBe(0)
+    expect(calculateWilks(500, 0, 'MALE')).toBe(0)
+    expect(calculateIpfGl(500, 30, 'FEMALE')).toBe(0)
+  })
+})
@@ -0,0 +1,122 @@
+export type LifterSex = 'MALE' | 'FEMALE'
+
+export const LIFTER_SEXES: ReadonlyArray<LifterSex> = ['MALE', 'FEMALE']
+
+export const LIFTER_SEX_LABELS: Record<LifterSex, string> = {
+  MALE: 'Men',
+  FEMALE: 'Women',
+}
+
+/** Catalog exercises whose best e1RMs make up a powerlifting total */
+export const POWERLIFT_CATALOG_KEYS = [
+  'barbell-back-squat',
+  'barbell-bench-press',
+  'barbell-deadlift',
+] as const
+
+export interface RelativeStrength {
+  totalKg: number
+  bodyweightKg: number
+  dots: number
+  wilks: number
+  ipfGl: number
+}
+
+// Polynomial coefficients, lowest power first
+const DOTS_COEFFICIENTS: Record<LifterSex, Array<number>> = {
+  MALE: [-307.75076, 24.0900756, -0.1918759221, 0.0007391293, -0.000001093],
+  FEMALE: [-57.96288, 13.6175032, -0.1126655495, 0.0005158568, -0.0000010706],
+}
+
+// Body weights the DOTS polynomial is fitted to
+const DOTS_BODYWEIGHT_RANGE: Record<LifterSex, [number, number]> = {
+  MALE: [40, 210],
+  FEMALE: [40, 150],
+}
+
+const WILKS_COEFFICIENTS: Record<LifterSex, Array<number>> = {
+  MALE: [
+    -216.0475144, 16.2606339, -0.002388645, -0.00113732, 7.01863e-6, -1.291e-8,
+  ],
+  FEMALE: [
+    594.31747775582, -27.23842536447, 0.82112226871, -0.00930733913,
+    4.731582e-5, -9.054e-8,
+  ],
+}
+
+const WILKS_BODYWEIGHT_RANGE: Record<LifterSex, [number, number]> = {
+  MALE: [40, 201.9],
+  FEMALE: [26.51, 154.53],
+}
+
+// IPF GL points for raw (classic) powerlifting: A, B and C
+const IPF_GL_COEFFICIENTS: Record<LifterSex, [number, number, number]> = {
+  MALE: [1199.72839, 1025.18162, 0.00921],
+  FEMALE: [610.32796, 1045.59282, 0.03048],
+}
+
+const IPF_GL_MIN_BODYWEIGHT = 35
+
+function clamp(value: number, [min, max]: [number, number]): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+function polynomial(coefficients: Array<number>, x: number): number {
+  return coefficients.reduce((sum, c, power) => sum + c * x ** power, 0)
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/** DOTS score for a total lifted at a body weight, both in kg */
+export function calculateDots(
+  totalKg: number,
+  bodyweightKg: number,
+  sex: LifterSex,
+): number {
+  if (totalKg <= 0 || bodyweightKg <= 0) return 0
+  const bodyweight = clamp(bodyweightKg, DOTS_BODYWEIGHT_RANGE[sex])
+  return round2(
+    (totalKg * 500) / polynomial(DOTS_COEFFICIENTS[sex], bodyweight),
+  )
+}
+
+/** Wilks score (original coefficients) for a total at a body weight, in kg */
+export function calculateWilks(
+  totalKg: number,
+  bodyweightKg: number,
+  sex: LifterSex,
+): number {
+  if (totalKg <= 0 || bodyweightKg <= 0) return 0
+  const bodyweight = clamp(bodyweightKg, WILKS_BODYWEIGHT_RANGE[sex])
+  return round2(
+    (totalKg * 500) / polynomial(WILKS_COEFFICIENTS[sex], bodyweight),
+  )
+}
+
+/** IPF GL points for a raw total at a body weight, in kg */
+export function calculateIpfGl(
+  totalKg: number,
+  bodyweightKg: number,
+  sex: LifterSex,
+): number {
+  if (totalKg <= 0 || bodyweightKg < IPF_GL_MIN_BODYWEIGHT) return 0
+  const [a, b, c] = IPF_GL_COEFFICIENTS[sex]
+  return round2((totalKg * 100) / (a - b * Math.exp(-c * bodyweightKg)))
+}
+
+/** Every relative-strength score for a total at a body weight */
+export function calculateRelativeStrength(
+  totalKg: number,
+  bodyweightKg: number,
+  sex: LifterSex,
+): RelativeStrength {
+  return {
+    totalKg,
+    bodyweightKg,
+    dots: calculateDots(totalKg, bodyweightKg, sex),
+    wilks: calculateWilks(totalKg, bodyweightKg, sex),
+    ipfGl: calculateIpfGl(totalKg, bodyweightKg, sex),
+  }
+}
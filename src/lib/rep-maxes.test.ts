@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildRepMaxTable,
+  calculateRepMaxPRScores,
+  getBestEstimated1RM,
+  getRepMaxBests,
+} from './rep-maxes'
+import { estimate1RM } from './progression-utils'
+
+const set = (weightKg: number, reps: number, day = 1) => ({
+  weightKg,
+  reps,
+  completedAt: new Date(Date.UTC(2026, 0, day)),
+})
+
+describe('estimate1RM', () => {
+  it('estimates with each formula', () => {
+    expect(estimate1RM(100, 5, 'EPLEY')).toBe(117)
+    expect(estimate1RM(100, 5, 'BRZYCKI')).toBe(113)
+    expect(estimate1RM(100, 5, 'LOMBARDI')).toBe(117)
+    expect(estimate1RM(100, 10, 'BRZYCKI')).toBe(133)
+  })
+
+  it('takes a single as the 1RM and ignores empty sets', () => {
+    expect(estimate1RM(140, 1, 'BRZYCKI')).toBe(140)
+    expect(estimate1RM(0, 5)).toBe(0)
+    expect(estimate1RM(100, 0)).toBe(0)
+    expect(estimate1RM(100, 40, 'BRZYCKI')).toBe(0)
+  })
+})
+
+describe('getRepMaxBests', () => {
+  it('keeps the heaviest set for each rep count', () => {
+    const bests = getRepMaxBests([
+      set(100, 5),
+      set(110, 3),
+      set(105, 5),
+      set(90, 8),
+    ])
+    expect(bests.map((b) => [b.reps, b.weightKg])).toEqual([
+      [3, 110],
+      [5, 105],
+      [8, 90],
+    ])
+  })
+
+  it('credits a tie to the first set', () => {
+    const [best] = getRepMaxBests([set(100, 5, 3), set(100, 5, 1)])
+    expect(best.completedAt).toEqual(new Date(Date.UTC(2026, 0, 1)))
+  })
+
+  it('skips unweighted sets and sets above the table', () => {
+    expect(getRepMaxBests([set(0, 5), set(60, 15)])).toEqual([])
+  })
+})
+
+describe('buildRepMaxTable', () => {
+  it('fills lower rep counts from heavier sets with more reps', () => {
+    const rows = buildRepMaxTable(
+      getRepMaxBests([set(120, 1), set(100, 5), set(80, 10)]),
+    )
+    expect(rows).toHaveLength(12)
+    expect(rows.map((r) => r.best?.weightKg ?? null)).toEqual([
+      120,
+      100,
+      100,
+      100,
+      100,
+      80,
+      80,
+      80,
+      80,
+      80,
+      null,
+      null,
+    ])
+  })
+
+  it('prefers an exact set when it is heavier', () => {
+    const rows = buildRepMaxTable(getRepMaxBests([set(100, 5), set(95, 6)]))
+    expect(rows[4].best?.reps).toBe(5)
+    expect(rows[5].best?.reps).toBe(6)
+    expect(rows[2].best?.reps).toBe(5)
+  })
+})
+
+describe('getBestEstimated1RM', () => {
+  const bests = getRepMaxBests([set(100, 1), set(95, 5), set(82, 10)])
+
+  it('picks the set with the highest estimate for the formula', () => {
+    expect(getBestEstimated1RM(bests, 'EPLEY')).toMatchObject({
+      value: 111,
+      from: { weightKg: 95, reps: 5 },
+    })
+    expect(getBestEstimated1RM(bests, 'BRZYCKI')).toMatchObject({
+      value: 109,
+      from: { weightKg: 82, reps: 10 },
+    })
+  })
+
+  it('returns null without rep maxes', () => {
+    expect(getBestEstimated1RM([], 'LOMBARDI')).toBeNull()
+  })
+})
+
+describe('calculateRepMaxPRScores', () => {
+  it('scores the rep max and the estimated 1RM', () => {
+    expect(calculateRepMaxPRScores(100, 5, 'BRZYCKI')).toEqual([
+      { score: 100, recordType: 'REP_MAX_5' },
+      { score: 113, recordType: 'E1RM' },
+    ])
+  })
+
+  it('counts a single as its own estimate', () => {
+    expect(calculateRepMaxPRScores(140, 1, 'EPLEY')).toEqual([
+      { score: 140, recordType: 'REP_MAX_1' },
+      { score: 140, recordType: 'E1RM' },
+    ])
+  })
+
+  it('has no records past 12 reps or without weight', () => {
+    expect(calculateRepMaxPRScores(60, 15, 'EPLEY')).toEqual([])
+    expect(calculateRepMaxPRScores(0, 5, 'EPLEY')).toEqual([])
+  })
+})
@@ -0,0 +1,91 @@
+import { MAX_REP_MAX } from './constants'
+import { estimate1RM } from './progression-utils'
+import { getRepMaxRecordType } from './pr-utils'
+import type { E1rmFormula } from './progression-utils'
+import type { RecordType } from '@prisma/client'
+
+/** A working set as it counts toward rep maxes */
+export interface RepMaxSet {
+  weightKg: number
+  reps: number
+  completedAt: Date | string
+}
+
+/**
+ * The heaviest set done for exactly 1 to {@link MAX_REP_MAX} reps, in rep
+ * order. Rep counts never done are left out; ties go to the earliest set,
+ * when the record was first set.
+ */
+export function getRepMaxBests(
+  sets: ReadonlyArray<RepMaxSet>,
+): Array<RepMaxSet> {
+  const best = new Map<number, RepMaxSet>()
+  for (const set of sets) {
+    if (set.weightKg <= 0 || set.reps < 1 || set.reps > MAX_REP_MAX) continue
+    const current = best.get(set.reps)
+    if (
+      !current ||
+      set.weightKg > current.weightKg ||
+      (set.weightKg === current.weightKg &&
+        new Date(set.completedAt) < new Date(current.completedAt))
+    ) {
+      best.set(set.reps, set)
+    }
+  }
+
+  return [...best.values()].sort((a, b) => a.reps - b.reps)
+}
+
+/**
+ * One row per rep count from 1 to {@link MAX_REP_MAX}: the heaviest weight
+ * lifted for at least that many reps, since five reps at a weight proves
+ * three. Null where no set has that many reps.
+ */
+export function buildRepMaxTable<T extends RepMaxSet>(
+  bests: ReadonlyArray<T>,
+): Array<{ targetReps: number; best: T | null }> {
+  const rows: Array<{ targetReps: number; best: T | null }> = []
+  let best: T | null = null
+  for (let targetReps = MAX_REP_MAX; targetReps >= 1; targetReps--) {
+    const exact = bests.find((b) => b.reps === targetReps)
+    if (exact && (!best || exact.weightKg > best.weightKg)) best = exact
+    rows.unshift({ targetReps, best })
+  }
+  return rows
+}
+
+/** The highest estimated 1RM across the rep maxes, by the given formula */
+export function getBestEstimated1RM<T extends RepMaxSet>(
+  bests: ReadonlyArray<T>,
+  formula: E1rmFormula,
+): { value: number; from: T } | null {
+  let result: { value: number; from: T } | null = null
+  for (const best of bests) {
+    const value = estimate1RM(best.weightKg, best.reps, formula)
+    if (value > 0 && (!result || value > result.value)) {
+      result = { value, from: best }
+    }
+  }
+  return result
+}
+
+/**
+ * The records a working set of a weighted lift competes for: the rep max for
+ * its rep count and its estimated 1RM by `formula`. None past
+ * {@link MAX_REP_MAX} reps, as with the rep-max table.
+ */
+export function calculateRepMaxPRScores(
+  weightKg: number,
+  reps: number,
+  formula: E1rmFormula,
+): Array<{ score: number; recordType: RecordType }> {
+  const recordType = getRepMaxRecordType(reps)
+  if (weightKg <= 0 || !recordType) return []
+
+  const scores: Array<{ score: number; recordType: RecordType }> = [
+    { score: weightKg, recordType },
+  ]
+  const e1rm = estimate1RM(weightKg, reps, formula)
+  if (e1rm > 0) scores.push({ score: e1rm, recordType: 'E1RM' })
+  return scores
+}
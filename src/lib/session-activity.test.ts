@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getElapsedSeconds,
+  getLastActivityAt,
+  isSessionStale,
+} from './session-activity'
+
+describe('session activity', () => {
+  const startedAt = new Date('2026-10-17T18:00:00Z')
+
+  describe('getLastActivityAt', () => {
+    it('uses the last set when there is one', () => {
+      const lastSetAt = new Date('2026-10-17T18:45:00Z')
+      expect(getLastActivityAt({ startedAt }, lastSetAt)).toEqual(lastSetAt)
+    })
+
+    it('falls back to the start of an empty session', () => {
+      expect(getLastActivityAt({ startedAt }, null)).toEqual(startedAt)
+    })
+
+    it('counts a resume as activity', () => {
+      const resumedAt = new Date('2026-10-18T07:00:00Z')
+      expect(
+        getLastActivityAt(
+          { startedAt, resumedAt },
+          new Date('2026-10-17T18:45:00Z'),
+        ),
+      ).toEqual(resumedAt)
+    })
+  })
+
+  describe('isSessionStale', () => {
+    const lastActivityAt = new Date('2026-10-17T18:45:00Z')
+
+    it('is stale once the window has passed', () => {
+      expect(
+        isSessionStale(lastActivityAt, 4, new Date('2026-10-17T22:45:00Z')),
+      ).toBe(true)
+      expect(
+        isSessionStale(lastActivityAt, 4, new Date('2026-10-17T22:44:00Z')),
+      ).toBe(false)
+    })
+
+    it('never goes stale when auto-close is off', () => {
+      expect(
+        isSessionStale(lastActivityAt, null, new Date('2026-10-20T00:00:00Z')),
+      ).toBe(false)
+    })
+  })
+
+  describe('getElapsedSeconds', () => {
+    it('counts from the start of a fresh session', () => {
+      expect(
+        getElapsedSeconds({ startedAt }, new Date('2026-10-17T19:00:00Z')),
+      ).toBe(3600)
+    })
+
+    it('skips the idle gap of a resumed session', () => {
+      expect(
+        getElapsedSeconds(
+          {
+            startedAt,
+            resumedAt: new Date('2026-10-18T07:00:00Z'),
+            durationSeconds: 2700,
+          },
+          new Date('2026-10-18T07:30:00Z'),
+        ),
+      ).toBe(2700 + 1800)
+    })
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * Activity timing for open workout sessions, shared by the stale-session
+ * sweep and the workout timers
+ */
+
+interface SessionTiming {
+  startedAt: Date | string
+  resumedAt?: Date | string | null
+  // Seconds banked before an auto-close, kept when the session is resumed
+  durationSeconds?: number | null
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+/** The latest of the session's start, its resume and its last logged set */
+export function getLastActivityAt(
+  session: SessionTiming,
+  lastSetAt: Date | string | null,
+): Date {
+  const times = [session.startedAt, session.resumedAt, lastSetAt]
+    .filter((t): t is Date | string => t != null)
+    .map((t) => new Date(t).getTime())
+  return new Date(Math.max(...times))
+}
+
+/** Whether a session idle since `lastActivityAt` is past the auto-close window */
+export function isSessionStale(
+  lastActivityAt: Date,
+  staleSessionHours: number | null,
+  now: Date = new Date(),
+): boolean {
+  if (staleSessionHours === null) return false
+  return now.getTime() - lastActivityAt.getTime() >= staleSessionHours * HOUR_MS
+}
+
+/**
+ * Seconds a session has run as of `now`. A resumed session counts the time
+ * banked before it was auto-closed plus the time since it was resumed, so
+ * the idle gap never inflates its duration.
+ */
+export function getElapsedSeconds(
+  session: SessionTiming,
+  now: Date = new Date(),
+): number {
+  if (!session.resumedAt) {
+    return Math.max(
+      0,
+      Math.floor(
+        (now.getTime() - new Date(session.startedAt).getTime()) / 1000,
+      ),
+    )
+  }
+  const sinceResume = Math.floor(
+    (now.getTime() - new Date(session.resumedAt).getTime()) / 1000,
+  )
+  return (session.durationSeconds ?? 0) + Math.max(0, sinceResume)
+}
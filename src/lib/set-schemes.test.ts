@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildSetScheme,
+  countTargetSets,
+  describeSetPrescription,
+  getPrescribedWeight,
+  validateSetPrescriptions,
+} from './set-schemes'
+import type { SetPrescription } from './set-schemes'
+
+const set = (
+  setType: SetPrescription['setType'],
+  fields: Partial<SetPrescription> = {},
+): SetPrescription => ({
+  setType,
+  targetReps: 5,
+  targetRpe: null,
+  targetWeight: null,
+  targetPercent1rm: null,
+  percentOff: null,
+  ...fields,
+})
+
+const topAndBackoffs = [
+  set('TOP', { targetRpe: 8, targetWeight: 100 }),
+  set('BACKOFF', { percentOff: 10 }),
+  set('BACKOFF', { percentOff: 10 }),
+  set('DROP', { targetReps: null, percentOff: 20 }),
+]
+
+describe('validateSetPrescriptions', () => {
+  it('accepts a top set with back-offs and a drop set', () => {
+    expect(() => validateSetPrescriptions(topAndBackoffs, false)).not.toThrow()
+  })
+
+  it('requires a top set before any back-off', () => {
+    expect(() =>
+      validateSetPrescriptions([set('BACKOFF', { percentOff: 10 })], false),
+    ).toThrow('need a top set before them')
+  })
+
+  it('rejects more than one kind of load on a set', () => {
+    expect(() =>
+      validateSetPrescriptions(
+        [set('WORKING', { targetWeight: 60, targetPercent1rm: 70 })],
+        false,
+      ),
+    ).toThrow('not several')
+  })
+
+  it('needs at least one set that counts', () => {
+    expect(() => validateSetPrescriptions([set('WARMUP')], false)).toThrow(
+      'at least one working set',
+    )
+  })
+})
+
+describe('countTargetSets', () => {
+  it('leaves out warm-ups and drop sets', () => {
+    expect(countTargetSets([set('WARMUP'), ...topAndBackoffs])).toBe(3)
+  })
+})
+
+describe('getPrescribedWeight', () => {
+  const noPercent = () => undefined
+
+  it('works back-offs out from the prescribed top set', () => {
+    expect(getPrescribedWeight(topAndBackoffs, 1, [], noPercent)).toBe(90)
+  })
+
+  it('uses what was actually lifted once the top set is logged', () => {
+    expect(getPrescribedWeight(topAndBackoffs, 2, [110, 99], noPercent)).toBe(
+      99,
+    )
+  })
+
+  it('drops off the set before', () => {
+    expect(
+      getPrescribedWeight(topAndBackoffs, 3, [100, 90, 90], noPercent),
+    ).toBe(72)
+  })
+
+  it('takes %1RM weights from the resolver', () => {
+    const sets = [set('WORKING', { targetPercent1rm: 80 })]
+
+    expect(getPrescribedWeight(sets, 0, [], () => 96)).toBe(96)
+    expect(getPrescribedWeight(sets, 0, [], noPercent)).toBeNull()
+  })
+})
+
+describe('describeSetPrescription', () => {
+  it('shows the relative load with the weight it comes to', () => {
+    expect(describeSetPrescription(topAndBackoffs[1], 90, 'KG')).toBe(
+      '5 reps · -10% from top set ≈ 90kg',
+    )
+    expect(describeSetPrescription(topAndBackoffs[0], 100, 'KG')).toBe(
+      '5 reps · 100kg · RPE 8',
+    )
+  })
+})
+
+describe('buildSetScheme', () => {
+  it('builds a pyramid that finishes on the target reps', () => {
+    expect(buildSetScheme('PYRAMID', 3, 8).map((s) => s.targetReps)).toEqual([
+      12, 10, 8,
+    ])
+  })
+
+  it('builds a valid top set and back-off scheme', () => {
+    const scheme = buildSetScheme('TOP_BACKOFF', 4, 5)
+
+    expect(scheme.map((s) => s.setType)).toEqual([
+      'TOP',
+      'BACKOFF',
+      'BACKOFF',
+      'BACKOFF',
+    ])
+    expect(() => validateSetPrescriptions(scheme, false)).not.toThrow()
+  })
+})
@@ -0,0 +1,222 @@
+import {
+  MAX_PERCENT_1RM,
+  MAX_PERCENT_OFF,
+  MAX_PLAN_SETS,
+  MIN_PERCENT_1RM,
+  RPE_MAX,
+  RPE_MIN,
+} from './constants'
+import { formatWeightKg } from './formatting'
+import { resolvePercentWeight } from './plan-targets'
+import type { SetType, WeightUnit } from '@prisma/client'
+
+export const SET_TYPES: ReadonlyArray<SetType> = [
+  'WARMUP',
+  'WORKING',
+  'TOP',
+  'BACKOFF',
+  'DROP',
+]
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  WARMUP: 'Warm-up',
+  WORKING: 'Working',
+  TOP: 'Top set',
+  BACKOFF: 'Back-off',
+  DROP: 'Drop set',
+}
+
+/** One prescribed set of a plan exercise's set scheme */
+export interface SetPrescription {
+  setType: SetType
+  targetReps: number | null // Null for as many as possible
+  targetRpe: number | null
+  targetWeight: number | null // kg
+  targetPercent1rm: number | null
+  percentOff: number | null // Below the top set (back-offs) or the set before (drops)
+}
+
+export type SetSchemePreset = 'STRAIGHT' | 'TOP_BACKOFF' | 'PYRAMID' | 'DROP'
+
+export const SET_SCHEME_PRESET_LABELS: Record<SetSchemePreset, string> = {
+  STRAIGHT: 'Straight Sets',
+  TOP_BACKOFF: 'Top + Back-offs',
+  PYRAMID: 'Pyramid',
+  DROP: 'Drop Set',
+}
+
+const BACKOFF_PERCENT_OFF = 10
+const DROP_PERCENT_OFF = 20
+const TOP_SET_RPE = 8
+const PYRAMID_REP_STEP = 2
+
+/** Warm-ups and drop sets don't count toward an exercise's target sets */
+export function isCountedSetType(setType: SetType): boolean {
+  return setType !== 'WARMUP' && setType !== 'DROP'
+}
+
+/** How many of the scheme's sets count toward the exercise's target sets */
+export function countTargetSets(sets: ReadonlyArray<SetPrescription>): number {
+  return sets.filter((s) => isCountedSetType(s.setType)).length
+}
+
+/** Throws if the scheme can't be followed as written. */
+export function validateSetPrescriptions(
+  sets: ReadonlyArray<SetPrescription>,
+  isTimed: boolean,
+): void {
+  if (sets.length === 0) return
+  if (isTimed) {
+    throw new Error('Set schemes need a rep-based exercise')
+  }
+  if (sets.length > MAX_PLAN_SETS) {
+    throw new Error(`A set scheme can have at most ${MAX_PLAN_SETS} sets`)
+  }
+  if (countTargetSets(sets) === 0) {
+    throw new Error('A set scheme needs at least one working set')
+  }
+
+  sets.forEach((set, index) => {
+    const label = `Set ${index + 1}`
+    const loads = [set.targetWeight, set.targetPercent1rm, set.percentOff]
+    if (loads.filter((load) => load !== null).length > 1) {
+      throw new Error(`${label}: choose a weight, %1RM or % off, not several`)
+    }
+    if (set.targetReps !== null && set.targetReps < 1) {
+      throw new Error(`${label}: reps must be at least 1`)
+    }
+    if (
+      set.targetRpe !== null &&
+      (set.targetRpe < RPE_MIN || set.targetRpe > RPE_MAX)
+    ) {
+      throw new Error(`${label}: RPE must be between ${RPE_MIN} and ${RPE_MAX}`)
+    }
+    if (set.targetWeight !== null && set.targetWeight < 0) {
+      throw new Error(`${label}: weight can't be negative`)
+    }
+    if (
+      set.targetPercent1rm !== null &&
+      (set.targetPercent1rm < MIN_PERCENT_1RM ||
+        set.targetPercent1rm > MAX_PERCENT_1RM)
+    ) {
+      throw new Error(
+        `${label}: %1RM must be between ${MIN_PERCENT_1RM} and ${MAX_PERCENT_1RM}`,
+      )
+    }
+    if (set.percentOff !== null) {
+      if (set.setType !== 'BACKOFF' && set.setType !== 'DROP') {
+        throw new Error(`${label}: only back-off and drop sets take a % off`)
+      }
+      if (set.percentOff <= 0 || set.percentOff > MAX_PERCENT_OFF) {
+        throw new Error(
+          `${label}: % off must be between 0 and ${MAX_PERCENT_OFF}`,
+        )
+      }
+    }
+    if (
+      set.setType === 'BACKOFF' &&
+      !sets.slice(0, index).some((s) => s.setType === 'TOP')
+    ) {
+      throw new Error(`${label}: back-off sets need a top set before them`)
+    }
+    if (set.setType === 'DROP' && index === 0) {
+      throw new Error('A drop set needs a set before it')
+    }
+  })
+}
+
+/**
+ * Weight (kg) for set `index` of the scheme. Back-offs come off the top
+ * set and drops off the set before, using what was actually lifted when
+ * those sets are logged and their prescribed weight otherwise.
+ * `resolvePercent` supplies the kg for a set's %1RM target, if known.
+ */
+export function getPrescribedWeight(
+  sets: ReadonlyArray<SetPrescription>,
+  index: number,
+  loggedWeights: ReadonlyArray<number | null>, // kg, in the order logged
+  resolvePercent: (index: number) => number | undefined,
+): number | null {
+  const set = sets.at(index)
+  if (!set) return null
+  if (set.targetWeight !== null) return set.targetWeight
+  if (set.targetPercent1rm !== null) return resolvePercent(index) ?? null
+  if (set.percentOff === null) return null
+
+  const baseIndex =
+    set.setType === 'BACKOFF'
+      ? sets.map((s) => s.setType).lastIndexOf('TOP', index)
+      : index - 1
+  if (baseIndex < 0) return null
+  const base =
+    loggedWeights.at(baseIndex) ??
+    getPrescribedWeight(sets, baseIndex, loggedWeights, resolvePercent)
+  return base ? resolvePercentWeight(100 - set.percentOff, base) : null
+}
+
+/** e.g. "5 reps · -10% from top set ≈ 90kg · RPE 8" */
+export function describeSetPrescription(
+  set: SetPrescription,
+  weight: number | null, // kg, from getPrescribedWeight
+  unit: WeightUnit,
+): string {
+  const parts = [set.targetReps ? `${set.targetReps} reps` : 'Max reps']
+  let load: string | null = null
+  if (set.targetPercent1rm !== null) {
+    load = `${set.targetPercent1rm}% e1RM`
+  } else if (set.percentOff !== null) {
+    load = `-${set.percentOff}% from ${set.setType === 'BACKOFF' ? 'top set' : 'last set'}`
+  }
+  if (load) {
+    parts.push(weight ? `${load} ≈ ${formatWeightKg(weight, unit)}` : load)
+  } else if (weight) {
+    parts.push(formatWeightKg(weight, unit))
+  }
+  if (set.targetRpe !== null) parts.push(`RPE ${set.targetRpe}`)
+  return parts.join(' · ')
+}
+
+/** A starting scheme to edit, from the exercise's set and rep targets */
+export function buildSetScheme(
+  preset: SetSchemePreset,
+  targetSets: number,
+  targetReps: number,
+): Array<SetPrescription> {
+  const set = (
+    setType: SetType,
+    fields: Partial<SetPrescription> = {},
+  ): SetPrescription => ({
+    setType,
+    targetReps,
+    targetRpe: null,
+    targetWeight: null,
+    targetPercent1rm: null,
+    percentOff: null,
+    ...fields,
+  })
+  const count = Math.max(1, Math.min(targetSets, MAX_PLAN_SETS - 1))
+
+  switch (preset) {
+    case 'STRAIGHT':
+      return Array.from({ length: count }, () => set('WORKING'))
+    case 'TOP_BACKOFF':
+      return [
+        set('TOP', { targetRpe: TOP_SET_RPE }),
+        ...Array.from({ length: Math.max(count - 1, 1) }, () =>
+          set('BACKOFF', { percentOff: BACKOFF_PERCENT_OFF }),
+        ),
+      ]
+    case 'PYRAMID':
+      // Reps fall as the weight climbs, finishing on the target reps
+      return Array.from({ length: count }, (_, i) =>
+        set('WORKING', {
+          targetReps: targetReps + PYRAMID_REP_STEP * (count - 1 - i),
+        }),
+      )
+    case 'DROP':
+      return [
+        ...Array.from({ length: count }, () => set('WORKING')),
+        set('DROP', { targetReps: null, percentOff: DROP_PERCENT_OFF }),
+      ]
+  }
+}
@@ -5,6 +5,7 @@ import { prisma } from './db.server'
 import { requireAdmin, requireAuth } from './auth-guard.server'
 import { requirePlanOwnership } from './plan-auth.server'
 import { rateLimit } from './rate-limit.server'
+import { getDayStart } from './date-utils'
 
 // Safe charset for share codes (no 0/O, 1/I/L confusion)
 const SHARE_CODE_CHARSET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
@@ -163,10 +164,14 @@ export const importPlanFromCode = createServerFn({ method: 'POST' })
                   orderBy: { exerciseOrder: 'asc' },
                   include: {
                     exercise: true,
+                    setPrescriptions: { orderBy: { setOrder: 'asc' } },
+                    alternates: true,
                   },
                 },
+                exerciseGroups: true,
               },
             },
+            weeks: true,
           },
         },
       },
@@ -197,6 +202,23 @@ export const importPlanFromCode = createServerFn({ method: 'POST' })
           description: sourcePlan.description,
           userId,
           isActive: false,
+          blockWeeks: sourcePlan.blockWeeks,
+          // The importer's schedule starts today rather than on the sharer's date
+          scheduleType: sourcePlan.scheduleType,
+          rotationDaysOn: sourcePlan.rotationDaysOn,
+          rotationDaysOff: sourcePlan.rotationDaysOff,
+          scheduleStartDate: sourcePlan.scheduleType
+            ? getDayStart(new Date())
+            : null,
+          weeks: {
+            create: sourcePlan.weeks.map((week) => ({
+              weekNumber: week.weekNumber,
+              setDelta: week.setDelta,
+              repDelta: week.repDelta,
+              intensityPercent: week.intensityPercent,
+              isDeload: week.isDeload,
+            })),
+          },
         },
       })
 
@@ -208,13 +230,28 @@ export const importPlanFromCode = createServerFn({ method: 'POST' })
             name: sourceDay.name,
             dayOrder: sourceDay.dayOrder,
             restDay: sourceDay.restDay,
+            weekday: sourceDay.weekday,
           },
         })
 
-        // Batch-create all exercises for this day
-        if (sourceDay.planExercises.length > 0) {
-          await tx.planExercise.createMany({
-            data: sourceDay.planExercises.map((sourcePlanExercise) => ({
+        // Recreate supersets/circuits, mapping old group ids to new ones
+        const groupIds = new Map<string, string>()
+        for (const sourceGroup of sourceDay.exerciseGroups) {
+          const group = await tx.planExerciseGroup.create({
+            data: {
+              planDayId: newDay.id,
+              groupType: sourceGroup.groupType,
+              rounds: sourceGroup.rounds,
+              restSeconds: sourceGroup.restSeconds,
+            },
+          })
+          groupIds.set(sourceGroup.id, group.id)
+        }
+
+        // Copy each exercise with its targets, set scheme and alternates
+        for (const sourcePlanExercise of sourceDay.planExercises) {
+          await tx.planExercise.create({
+            data: {
               planDayId: newDay.id,
               exerciseId: sourcePlanExercise.exercise.id,
               exerciseOrder: sourcePlanExercise.exerciseOrder,
@@ -224,7 +261,27 @@ export const importPlanFromCode = createServerFn({ method: 'POST' })
               targetWeight: sourcePlanExercise.targetWeight,
               restSeconds: sourcePlanExercise.restSeconds,
               notes: sourcePlanExercise.notes,
-            })),
+              groupId: sourcePlanExercise.groupId
+                ? groupIds.get(sourcePlanExercise.groupId)
+                : null,
+              progressionScheme: sourcePlanExercise.progressionScheme,
+              targetRepsMax: sourcePlanExercise.targetRepsMax,
+              targetRpe: sourcePlanExercise.targetRpe,
+              targetRir: sourcePlanExercise.targetRir,
+              targetPercent1rm: sourcePlanExercise.targetPercent1rm,
+              weightIncrement: sourcePlanExercise.weightIncrement,
+              setPrescriptions: {
+                create: sourcePlanExercise.setPrescriptions.map(
+                  ({ id: _, planExerciseId: __, ...set }) => set,
+                ),
+              },
+              alternates: {
+                create: sourcePlanExercise.alternates.map((alternate) => ({
+                  exerciseId: alternate.exerciseId,
+                  sortOrder: alternate.sortOrder,
+                })),
+              },
+            },
           })
         }
       }
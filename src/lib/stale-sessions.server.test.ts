@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { closeStaleSessions } from './stale-sessions.server'
+import { mockPrisma } from '@/test/setup'
+
+describe('closeStaleSessions', () => {
+  const now = new Date('2026-10-18T08:00:00Z')
+  const startedAt = new Date('2026-10-17T18:00:00Z')
+  const lastSetAt = new Date('2026-10-17T18:50:00Z')
+
+  const openSession = (overrides: Record<string, unknown> = {}) => ({
+    id: 's1',
+    startedAt,
+    resumedAt: null,
+    durationSeconds: null,
+    user: { preferences: {} },
+    workoutSets: [{ completedAt: lastSetAt }],
+    ...overrides,
+  })
+
+  it('completes an idle session at its last set and flags it for review', async () => {
+    mockPrisma.workoutSession.findMany.mockResolvedValue([openSession()] as any)
+    mockPrisma.workoutSession.updateMany.mockResolvedValue({ count: 1 })
+
+    const result = await closeStaleSessions(now)
+
+    expect(result).toEqual({ closed: 1, discarded: 0 })
+    expect(mockPrisma.workoutSession.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 's1',
+        completedAt: null,
+        workoutSets: { none: { completedAt: { gt: lastSetAt } } },
+      },
+      data: {
+        completedAt: lastSetAt,
+        durationSeconds: 50 * 60,
+        autoClosedAt: now,
+      },
+    })
+  })
+
+  it('discards an idle session with no sets', async () => {
+    mockPrisma.workoutSession.findMany.mockResolvedValue([
+      openSession({ workoutSets: [] }),
+    ] as any)
+    mockPrisma.workoutSession.deleteMany.mockResolvedValue({ count: 1 })
+
+    const result = await closeStaleSessions(now)
+
+    expect(result).toEqual({ closed: 0, discarded: 1 })
+    expect(mockPrisma.workoutSession.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('leaves sessions alone inside the window or with auto-close off', async () => {
+    mockPrisma.workoutSession.findMany.mockResolvedValue([
+      openSession({ workoutSets: [{ completedAt: new Date(now) }] }),
+      openSession({
+        id: 's2',
+        user: { preferences: { staleSessionHours: null } },
+      }),
+    ] as any)
+
+    const result = await closeStaleSessions(now)
+
+    expect(result).toEqual({ closed: 0, discarded: 0 })
+    expect(mockPrisma.workoutSession.updateMany).not.toHaveBeenCalled()
+    expect(mockPrisma.workoutSession.deleteMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,91 @@
+import { prisma } from './db.server'
+import { STALE_SESSION_SWEEP_INTERVAL_MS } from './constants'
+import { parsePreferences } from './preferences'
+import {
+  getElapsedSeconds,
+  getLastActivityAt,
+  isSessionStale,
+} from './session-activity'
+
+declare global {
+  var staleSessionTimer: ReturnType<typeof setInterval> | undefined
+}
+
+/**
+ * Close open workouts with no set logged inside their owner's auto-close
+ * window. A session with sets is completed at its last set and flagged for
+ * the user to review; nothing is announced or counted toward challenges
+ * until they do. An empty session is discarded. Pass `userId` to check only
+ * that user's session. Safe to run concurrently: each session closes once.
+ */
+export async function closeStaleSessions(
+  now: Date = new Date(),
+  userId?: string,
+): Promise<{ closed: number; discarded: number }> {
+  const sessions = await prisma.workoutSession.findMany({
+    where: { completedAt: null, ...(userId && { userId }) },
+    select: {
+      id: true,
+      startedAt: true,
+      resumedAt: true,
+      durationSeconds: true,
+      user: { select: { preferences: true } },
+      workoutSets: {
+        orderBy: { completedAt: 'desc' },
+        take: 1,
+        select: { completedAt: true },
+      },
+    },
+  })
+
+  let closed = 0
+  let discarded = 0
+  for (const session of sessions) {
+    const { staleSessionHours } = parsePreferences(session.user.preferences)
+    const lastSetAt = session.workoutSets.at(0)?.completedAt ?? null
+    const lastActivityAt = getLastActivityAt(session, lastSetAt)
+    if (!isSessionStale(lastActivityAt, staleSessionHours, now)) continue
+
+    if (!lastSetAt) {
+      const { count } = await prisma.workoutSession.deleteMany({
+        where: { id: session.id, completedAt: null, workoutSets: { none: {} } },
+      })
+      discarded += count
+      continue
+    }
+
+    // Skip it if a set was logged since it was loaded
+    const { count } = await prisma.workoutSession.updateMany({
+      where: {
+        id: session.id,
+        completedAt: null,
+        workoutSets: { none: { completedAt: { gt: lastSetAt } } },
+      },
+      data: {
+        completedAt: lastSetAt,
+        durationSeconds: getElapsedSeconds(session, lastSetAt),
+        autoClosedAt: now,
+      },
+    })
+    closed += count
+  }
+
+  return { closed, discarded }
+}
+
+function runScheduledSweep() {
+  closeStaleSessions().catch((error: unknown) => {
+    console.error('Stale session sweep failed:', error)
+  })
+}
+
+/** Start one scheduler per server process (the global survives dev reloads) */
+export function startStaleSessionScheduler() {
+  if (globalThis.staleSessionTimer) return
+  globalThis.staleSessionTimer = setInterval(
+    runScheduledSweep,
+    STALE_SESSION_SWEEP_INTERVAL_MS,
+  )
+  globalThis.staleSessionTimer.unref()
+  runScheduledSweep()
+}
@@ -1,10 +1,16 @@
 import { createServerFn } from '@tanstack/react-start'
-import { Prisma  } from '@prisma/client'
+import { Prisma } from '@prisma/client'
 import { prisma } from './db.server'
 import { requireAuth } from './auth-guard.server'
 import { calculateStreak } from './date-utils.server'
-import { PR_PRIORITY } from './pr-utils'
-import type {RecordType} from '@prisma/client';
+import {
+  COUNTED_PR_WHERE,
+  isLowerBetterRecord,
+  selectDisplayPR,
+} from './pr-utils'
+import { setVolumeKgSql } from './volume.server'
+import { getSetWeightKg } from './weight-utils'
+import type { RecordType } from '@prisma/client'
 import type { Granularity } from './date-utils'
 
 // ============================================
@@ -72,7 +78,7 @@ export const getOverviewStats = createServerFn({ method: 'GET' })
             ? Prisma.sql`AND s.completed_at < ${dateLt}`
             : Prisma.empty
           return prisma.$queryRaw<[{ total: number | null }]>`
-            SELECT COALESCE(SUM(ws.weight * ws.reps), 0) AS total
+            SELECT COALESCE(SUM(${setVolumeKgSql()}), 0) AS total
             FROM workout_sets ws
             JOIN workout_sessions s ON s.id = ws.workout_session_id
             WHERE s.user_id = ${userId}
@@ -87,6 +93,7 @@ export const getOverviewStats = createServerFn({ method: 'GET' })
         prisma.personalRecord.count({
           where: {
             userId,
+            ...COUNTED_PR_WHERE,
             ...(prFilter ? { achievedAt: prFilter } : {}),
           },
         }),
@@ -205,7 +212,7 @@ export const getVolumeHistory = createServerFn({ method: 'GET' })
       Array<{ period_start: Date; volume: number; workouts: bigint }>
     >`
       SELECT date_trunc(${truncInterval}, s.completed_at)::date AS period_start,
-             COALESCE(SUM(ws.weight * ws.reps), 0) AS volume,
+             COALESCE(SUM(${setVolumeKgSql()}), 0) AS volume,
              COUNT(DISTINCT s.id) AS workouts
       FROM workout_sessions s
       LEFT JOIN workout_sets ws ON ws.workout_session_id = s.id
@@ -323,7 +330,12 @@ export const getRecentPRs = createServerFn({ method: 'GET' })
           select: { name: true, muscleGroup: true, isTimed: true },
         },
         workoutSet: {
-          select: { reps: true, timeSeconds: true, weight: true },
+          select: {
+            reps: true,
+            timeSeconds: true,
+            weight: true,
+            weightUnit: true,
+          },
         },
       },
       orderBy: {
@@ -340,7 +352,7 @@ export const getRecentPRs = createServerFn({ method: 'GET' })
         isTimed: pr.exercise.isTimed,
         recordType: pr.recordType,
         value: pr.value,
-        weight: pr.workoutSet.weight ?? null,
+        weight: getSetWeightKg(pr.workoutSet),
         reps: pr.workoutSet.reps ?? null,
         timeSeconds: pr.workoutSet.timeSeconds ?? null,
         achievedAt: pr.achievedAt,
@@ -466,7 +478,12 @@ export const getUserExercisePRs = createServerFn({ method: 'GET' })
           },
         },
         workoutSet: {
-          select: { reps: true, timeSeconds: true, weight: true },
+          select: {
+            reps: true,
+            timeSeconds: true,
+            weight: true,
+            weightUnit: true,
+          },
         },
       },
       orderBy: [
@@ -505,7 +522,7 @@ export const getUserExercisePRs = createServerFn({ method: 'GET' })
           value: pr.value,
           reps: pr.workoutSet.reps ?? null,
           timeSeconds: pr.workoutSet.timeSeconds ?? null,
-          weight: pr.workoutSet.weight ?? null,
+          weight: getSetWeightKg(pr.workoutSet),
           recordType: pr.recordType,
           achievedAt: pr.achievedAt,
           previousRecord: pr.previousRecord,
@@ -514,7 +531,7 @@ export const getUserExercisePRs = createServerFn({ method: 'GET' })
     }
 
     // For each exercise, select the most relevant PR type
-    // Priority: MAX_VOLUME > MAX_TIME/MAX_REPS > MAX_WEIGHT
+    // Priority: MAX_VOLUME > cardio records/MAX_TIME/MAX_REPS > MAX_WEIGHT
     const exerciseIds = [...new Set(prs.map((pr) => pr.exerciseId))]
     const exercisePRs = new Map<
       string,
@@ -526,12 +543,9 @@ export const getUserExercisePRs = createServerFn({ method: 'GET' })
         (pr) => pr.exerciseId === exerciseId,
       )
 
-      exercisePRsForType.sort(
-        (a, b) => PR_PRIORITY[a.recordType] - PR_PRIORITY[b.recordType],
-      )
-
-      if (exercisePRsForType.length > 0) {
-        exercisePRs.set(exerciseId, exercisePRsForType[0])
+      const best = selectDisplayPR(exercisePRsForType)
+      if (best) {
+        exercisePRs.set(exerciseId, best)
       }
     }
 
@@ -685,10 +699,11 @@ export const getPrTimeline = createServerFn({ method: 'GET' })
   .handler(async ({ data }) => {
     const { userId } = await requireAuth(data.token)
 
-    const prs = await prisma.personalRecord.findMany({
+    // Every record broken, not just the ones still standing
+    const prs = await prisma.personalRecordHistory.findMany({
       where: {
         userId,
-        previousRecord: { not: null },
+        previousValue: { not: null },
         ...(data.startDate
           ? { achievedAt: { gte: new Date(data.startDate) } }
           : {}),
@@ -704,11 +719,13 @@ export const getPrTimeline = createServerFn({ method: 'GET' })
 
     return {
       timeline: prs.map((pr) => {
+        // Fastest times improve by getting lower
+        const gain = isLowerBetterRecord(pr.recordType)
+          ? (pr.previousValue ?? 0) - pr.value
+          : pr.value - (pr.previousValue ?? 0)
         const improvement =
-          pr.previousRecord && pr.previousRecord > 0
-            ? Math.round(
-                ((pr.value - pr.previousRecord) / pr.previousRecord) * 100,
-              )
+          pr.previousValue && pr.previousValue > 0
+            ? Math.round((gain / pr.previousValue) * 100)
             : null
 
         return {
@@ -717,7 +734,7 @@ export const getPrTimeline = createServerFn({ method: 'GET' })
           muscleGroup: pr.exercise.muscleGroup,
           recordType: pr.recordType,
           value: pr.value,
-          previousRecord: pr.previousRecord,
+          previousRecord: pr.previousValue,
           improvement,
           achievedAt: pr.achievedAt,
         }
@@ -1,12 +1,29 @@
+import { Prisma } from '@prisma/client'
 import { prisma } from './db.server'
+import { LBS_TO_KG } from './weight-utils'
 
 /**
- * Calculate total volume (weight * reps) for a user.
+ * SQL for a set's weight in kg, where `alias` is the workout_sets alias in the
+ * surrounding query. Every volume aggregation goes through this so sets
+ * logged in pounds are not counted at 2.2x.
+ */
+export function setWeightKgSql(alias = 'ws'): Prisma.Sql {
+  const set = Prisma.raw(alias)
+  return Prisma.sql`(CASE WHEN ${set}.weight_unit = 'LBS' THEN ${set}.weight * ${LBS_TO_KG} ELSE ${set}.weight END)`
+}
+
+/** SQL for a set's volume (weight x reps) in kg. */
+export function setVolumeKgSql(alias = 'ws'): Prisma.Sql {
+  return Prisma.sql`${setWeightKgSql(alias)} * ${Prisma.raw(alias)}.reps`
+}
+
+/**
+ * Calculate total volume (weight * reps, in kg) for a user.
  * Shared across dashboard, achievements, and profile stats.
  */
 export async function getTotalVolume(userId: string): Promise<number> {
   const result = await prisma.$queryRaw<[{ total: number | null }]>`
-    SELECT COALESCE(SUM(ws.weight * ws.reps), 0) AS total
+    SELECT COALESCE(SUM(${setVolumeKgSql()}), 0) AS total
     FROM workout_sets ws
     JOIN workout_sessions s ON s.id = ws.workout_session_id
     WHERE s.user_id = ${userId}
@@ -27,7 +44,7 @@ export async function getWeeklyVolume(
   since: Date,
 ): Promise<number> {
   const result = await prisma.$queryRaw<Array<{ volume: bigint | null }>>`
-    SELECT SUM(wset.weight * wset.reps) as volume
+    SELECT SUM(${setVolumeKgSql('wset')}) as volume
     FROM "workout_sets" wset
     JOIN "workout_sessions" ws ON wset."workout_session_id" = ws.id
     WHERE ws."user_id" = ${userId}
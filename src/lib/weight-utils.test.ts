@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import {
+  convertFromKg,
+  convertWeight,
+  getSetVolumeKg,
+  normalizeToKg,
+} from './weight-utils'
+
+describe('weight utils', () => {
+  describe('normalizeToKg', () => {
+    it('leaves kilograms unchanged', () => {
+      expect(normalizeToKg(100, 'KG')).toBe(100)
+    })
+
+    it('converts pounds to kilograms', () => {
+      expect(normalizeToKg(225, 'LBS')).toBeCloseTo(102.06, 2)
+    })
+  })
+
+  describe('getSetVolumeKg', () => {
+    it('multiplies weight by reps for kilogram sets', () => {
+      expect(getSetVolumeKg({ weight: 100, reps: 5, weightUnit: 'KG' })).toBe(
+        500,
+      )
+    })
+
+    it('normalizes pound sets before multiplying', () => {
+      expect(
+        getSetVolumeKg({ weight: 220.46, reps: 10, weightUnit: 'LBS' }),
+      ).toBeCloseTo(1000, 0)
+    })
+
+    it('counts sets without weight or reps as zero', () => {
+      expect(getSetVolumeKg({ weight: null, reps: 10, weightUnit: 'KG' })).toBe(
+        0,
+      )
+      expect(getSetVolumeKg({ weight: 60, reps: null, weightUnit: 'KG' })).toBe(
+        0,
+      )
+    })
+  })
+  describe('convertFromKg', () => {
+    it('leaves kilograms unchanged', () => {
+      expect(convertFromKg(102.5, 'KG')).toBe(102.5)
+    })
+
+    it('round-trips whole pounds', () => {
+      expect(convertFromKg(normalizeToKg(225, 'LBS'), 'LBS')).toBe(225)
+    })
+  })
+
+  describe('convertWeight', () => {
+    it('returns the weight unchanged when units match', () => {
+      expect(convertWeight(135, 'LBS', 'LBS')).toBe(135)
+    })
+
+    it('converts kilograms to pounds', () => {
+      expect(convertWeight(100, 'KG', 'LBS')).toBe(220.46)
+    })
+  })
+})
@@ -0,0 +1,55 @@
+import type { WeightUnit } from '@prisma/client'
+
+export const LBS_TO_KG = 0.45359237
+
+export function normalizeToKg(weight: number, unit: WeightUnit): number {
+  if (unit === 'LBS') return weight * LBS_TO_KG
+  return weight
+}
+
+/**
+ * Weight of a single set in kg, or null when the set has no weight
+ */
+export function getSetWeightKg(set: {
+  weight: number | null
+  weightUnit: WeightUnit
+}): number | null {
+  if (set.weight === null) return null
+  return normalizeToKg(set.weight, set.weightUnit)
+}
+
+/**
+ * Volume of a single set in kg (weight x reps). Sets without a weight or reps
+ * contribute nothing.
+ */
+export function getSetVolumeKg(set: {
+  weight: number | null
+  reps: number | null
+  weightUnit: WeightUnit
+}): number {
+  if (!set.weight || !set.reps) return 0
+  return normalizeToKg(set.weight, set.weightUnit) * set.reps
+}
+
+export const WEIGHT_UNIT_LABELS: Record<WeightUnit, string> = {
+  KG: 'kg',
+  LBS: 'lbs',
+}
+
+/**
+ * Convert a weight in kg to the given display unit, rounded to two decimals
+ * so that whole-pound entries round-trip cleanly.
+ */
+export function convertFromKg(kg: number, unit: WeightUnit): number {
+  const value = unit === 'LBS' ? kg / LBS_TO_KG : kg
+  return Math.round(value * 100) / 100
+}
+
+export function convertWeight(
+  weight: number,
+  from: WeightUnit,
+  to: WeightUnit,
+): number {
+  if (from === to) return weight
+  return convertFromKg(normalizeToKg(weight, from), to)
+}
@@ -1,9 +1,24 @@
-import { describe, expect, it } from 'vitest'
+import { describe, expect, it, vi } from 'vitest'
 import { RecordType, WeightUnit } from '@prisma/client'
-import { calculatePRScore, normalizeToKg } from './workouts.server'
-import { isDominatedByExistingPR } from './pr-utils'
+import {
+  calculatePRScore,
+  calculateSetPRScores,
+  completeWorkoutSessionInternal,
+  getLoggedSetTime,
+  getPastSetTimes,
+  getPastWorkoutEnd,
+  normalizeToKg,
+} from './workouts.server'
+import { isCountedRecord, isDominatedByExistingPR } from './pr-utils'
+import { calculateRepMaxPRScores } from './rep-maxes'
+import { checkAchievementsInternal } from './achievements.server'
 import { mockPrisma } from '@/test/setup'
 
+vi.mock('./achievements.server')
+vi.mock('./challenges.server')
+vi.mock('./plan-progression.server')
+vi.mock('./plan-blocks.server')
+
 // We test the business logic directly by testing with mocked Prisma
 // TanStack server functions are RPC-based and don't return values when called directly in tests
 
@@ -388,6 +403,24 @@ describe('workout server functions', () => {
         }
       }).toThrow('Session not found')
     })
+
+    it('throws error for a finished session', async () => {
+      mockPrisma.workoutSession.findFirst.mockResolvedValue({
+        ...mockSession,
+        completedAt: new Date('2024-01-01T11:00:00Z'),
+      } as any)
+
+      const session = await mockPrisma.workoutSession.findFirst({
+        where: { id: sessionId, userId },
+      })
+
+      expect(() => {
+        if (session?.completedAt) {
+          throw new Error('Workout is already finished')
+        }
+      }).toThrow('Workout is already finished')
+      expect(mockPrisma.workoutSet.create).not.toHaveBeenCalled()
+    })
   })
 
   describe('updateWorkoutSet logic', () => {
@@ -576,6 +609,20 @@ describe('calculatePRScore', () => {
       expect(weighted!.recordType).toBe(RecordType.MAX_VOLUME)
       expect(bw!.recordType).toBe(RecordType.MAX_VOLUME)
     })
+
+    it('uses the logged body weight in place of the base score', () => {
+      // Pull-ups at 82.5kg: +10kg, 5 reps → (82.5+10)×5 = 462.5
+      const result = calculatePRScore(false, 10, 5, 0, true, 82.5)
+      expect(result).toEqual({
+        score: 462.5,
+        recordType: RecordType.MAX_VOLUME,
+      })
+    })
+
+    it('ignores body weight for other equipment', () => {
+      const result = calculatePRScore(false, 100, 5, 0, false, 82.5)
+      expect(result).toEqual({ score: 500, recordType: RecordType.MAX_VOLUME })
+    })
   })
 
   describe('edge cases', () => {
@@ -593,6 +640,78 @@ describe('calculatePRScore', () => {
   })
 })
 
+describe('calculateSetPRScores', () => {
+  it('adds distance and fastest-time records for a cardio set', () => {
+    // 5.5km run in 27:30, unweighted and timed
+    const scores = calculateSetPRScores(
+      calculatePRScore(true, 0, 0, 1650),
+      true,
+      5500,
+      1650,
+    )
+    expect(scores).toEqual([
+      { score: 1650, recordType: RecordType.MAX_TIME },
+      { score: 5500, recordType: RecordType.MAX_DISTANCE },
+      { score: 300, recordType: RecordType.FASTEST_1K },
+      { score: 1500, recordType: RecordType.FASTEST_5K },
+    ])
+  })
+
+  it('ignores distance for other exercise types', () => {
+    const scores = calculateSetPRScores(
+      calculatePRScore(false, 100, 5, 0),
+      false,
+      5500,
+      0,
+    )
+    expect(scores).toEqual([{ score: 500, recordType: RecordType.MAX_VOLUME }])
+  })
+
+  it('still scores a cardio set logged with distance alone', () => {
+    expect(calculateSetPRScores(null, true, 2000, 0)).toEqual([
+      { score: 2000, recordType: RecordType.MAX_DISTANCE },
+    ])
+  })
+
+  it('adds rep-max and estimated 1RM records for a weighted lift', () => {
+    const scores = calculateSetPRScores(
+      calculatePRScore(false, 100, 5, 0),
+      false,
+      0,
+      0,
+      calculateRepMaxPRScores(100, 5, 'EPLEY'),
+    )
+    expect(scores).toEqual([
+      { score: 500, recordType: RecordType.MAX_VOLUME },
+      { score: 100, recordType: RecordType.REP_MAX_5 },
+      { score: 117, recordType: RecordType.E1RM },
+    ])
+  })
+
+  it('adds exactly one counted PR for a weighted lift', () => {
+    const scores = calculateSetPRScores(
+      calculatePRScore(false, 100, 5, 0),
+      false,
+      0,
+      0,
+      calculateRepMaxPRScores(100, 5, 'EPLEY'),
+    )
+    expect(scores.filter((s) => isCountedRecord(s.recordType))).toHaveLength(1)
+  })
+
+  it('adds exactly one counted PR for a timed cardio set', () => {
+    // 10.2km run in 52:00 holds every distance and fastest-time record
+    const scores = calculateSetPRScores(
+      calculatePRScore(true, 0, 0, 3120),
+      true,
+      10200,
+      3120,
+    )
+    expect(scores).toHaveLength(5)
+    expect(scores.filter((s) => isCountedRecord(s.recordType))).toHaveLength(1)
+  })
+})
+
 describe('previousRecord preservation', () => {
   it('preserves original previousRecord when multiple sets in same session beat PR', () => {
     // Simulates the logic: if existing PR's set is in same session, keep previousRecord
@@ -772,3 +891,160 @@ describe('previousRecord regression/improvement via recalculation', () => {
     expect(updateData).toEqual({})
   })
 })
+
+describe('getPastWorkoutEnd', () => {
+  const now = new Date('2026-10-18T12:00:00Z')
+
+  it('returns the start plus the duration', () => {
+    const startedAt = new Date('2026-10-17T18:00:00Z')
+    expect(getPastWorkoutEnd(startedAt, 3600, now)).toEqual(
+      new Date('2026-10-17T19:00:00Z'),
+    )
+  })
+
+  it('rejects a workout that has not finished yet', () => {
+    const startedAt = new Date('2026-10-18T11:30:00Z')
+    expect(() => getPastWorkoutEnd(startedAt, 3600, now)).toThrow(
+      'A past workout must have already finished',
+    )
+  })
+
+  it('rejects workouts older than the backdating limit', () => {
+    const startedAt = new Date('2025-01-01T18:00:00Z')
+    expect(() => getPastWorkoutEnd(startedAt, 3600, now)).toThrow(
+      'Workouts can only be logged up to 365 days back',
+    )
+  })
+
+  it('rejects invalid start times and durations', () => {
+    expect(() => getPastWorkoutEnd(new Date('nope'), 3600, now)).toThrow(
+      'Invalid start time',
+    )
+    expect(() =>
+      getPastWorkoutEnd(new Date('2026-10-17T18:00:00Z'), 0, now),
+    ).toThrow('Duration must be between 1 second and 12 hours')
+  })
+})
+
+describe('getPastSetTimes', () => {
+  it('spreads sets evenly and ends at the finish time', () => {
+    const startedAt = new Date('2026-10-17T18:00:00Z')
+    const completedAt = new Date('2026-10-17T19:00:00Z')
+
+    expect(getPastSetTimes(startedAt, completedAt, 4)).toEqual([
+      new Date('2026-10-17T18:15:00Z'),
+      new Date('2026-10-17T18:30:00Z'),
+      new Date('2026-10-17T18:45:00Z'),
+      completedAt,
+    ])
+  })
+})
+
+describe('getLoggedSetTime', () => {
+  const startedAt = new Date('2026-10-18T09:00:00Z')
+  const now = new Date('2026-10-18T10:00:00Z')
+
+  it('keeps the time a set was logged offline', () => {
+    expect(getLoggedSetTime(startedAt, '2026-10-18T09:20:00Z', now)).toEqual(
+      new Date('2026-10-18T09:20:00Z'),
+    )
+  })
+
+  it('clamps times outside the session so far', () => {
+    expect(getLoggedSetTime(startedAt, '2026-10-18T08:00:00Z', now)).toEqual(
+      startedAt,
+    )
+    expect(getLoggedSetTime(startedAt, '2026-10-19T08:00:00Z', now)).toEqual(
+      now,
+    )
+  })
+
+  it('uses the current time when none is given or it is invalid', () => {
+    expect(getLoggedSetTime(startedAt, undefined, now)).toEqual(now)
+    expect(getLoggedSetTime(startedAt, 'not a date', now)).toEqual(now)
+  })
+})
+
+describe('completeWorkoutSessionInternal', () => {
+  const userId = 'user-123'
+  const session = {
+    id: 'session-456',
+    userId,
+    planDay: null,
+    startedAt: new Date('2026-10-18T09:00:00Z'),
+    resumedAt: null,
+    completedAt: null,
+    autoClosedAt: null,
+    durationSeconds: null,
+  }
+
+  function mockFinish() {
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma))
+    mockPrisma.workoutSession.update.mockImplementation((args: any) => ({
+      ...session,
+      ...args.data,
+    }))
+    vi.mocked(checkAchievementsInternal).mockResolvedValue({
+      newlyEarned: [],
+    } as any)
+  }
+
+  it('finishes an open session now', async () => {
+    mockPrisma.workoutSession.findFirst.mockResolvedValue(session as any)
+    mockFinish()
+
+    await completeWorkoutSessionInternal(userId, {
+      sessionId: session.id,
+      durationSeconds: 3600,
+    })
+
+    expect(mockPrisma.workoutSession.update).toHaveBeenCalledWith({
+      where: { id: session.id },
+      data: expect.objectContaining({ durationSeconds: 3600 }),
+    })
+  })
+
+  it('rejects a session that is already finished', async () => {
+    mockPrisma.workoutSession.findFirst.mockResolvedValue({
+      ...session,
+      completedAt: new Date('2026-10-18T10:00:00Z'),
+      durationSeconds: 3600,
+    } as any)
+
+    await expect(
+      completeWorkoutSessionInternal(userId, { sessionId: session.id }),
+    ).rejects.toThrow('Workout already finished')
+    expect(mockPrisma.workoutSession.update).not.toHaveBeenCalled()
+    expect(mockPrisma.activityFeedItem.create).not.toHaveBeenCalled()
+  })
+
+  it('keeps an auto-closed session finished at its last set', async () => {
+    const closedAt = new Date('2026-10-18T10:00:00Z')
+    mockPrisma.workoutSession.findFirst.mockResolvedValue({
+      ...session,
+      completedAt: closedAt,
+      autoClosedAt: new Date('2026-10-18T14:00:00Z'),
+      durationSeconds: 3600,
+    } as any)
+    mockFinish()
+
+    await completeWorkoutSessionInternal(userId, {
+      sessionId: session.id,
+      durationSeconds: 18000,
+    })
+
+    expect(mockPrisma.workoutSession.update).toHaveBeenCalledWith({
+      where: { id: session.id },
+      data: expect.objectContaining({
+        completedAt: closedAt,
+        durationSeconds: 3600,
+        autoClosedAt: null,
+      }),
+    })
+    expect(checkAchievementsInternal).toHaveBeenCalledWith(
+      userId,
+      'workout_complete',
+      { backdated: true },
+    )
+  })
+})
@@ -3,36 +3,75 @@ import { prisma } from './db.server'
 import { requireAuth } from './auth-guard.server'
 import { checkAchievementsInternal } from './achievements.server'
 import { updateChallengeProgressInternal } from './challenges.server'
-import { BODYWEIGHT_BASE_SCORE, isDominatedByExistingPR } from './pr-utils'
+import { exerciseVisibilityWhere } from './exercises.server'
+import { updateProgressionSuggestions } from './plan-progression.server'
+import { advancePlanBlock, getPlanBlockPosition } from './plan-blocks.server'
+import { getPlanAdherence, getPlanCalendar } from './plan-schedule.server'
+import { resolvePercentTargets } from './plan-targets.server'
+import {
+  MAX_BACKDATE_DAYS,
+  MAX_PAST_WORKOUT_SETS,
+  MAX_WORKOUT_DURATION_SECONDS,
+} from './constants'
+import {
+  BODYWEIGHT_BASE_SCORE,
+  STRENGTH_RECORD_TYPES,
+  beatsRecord,
+  buildRecordHistory,
+  diffRecordHistory,
+  getRepMaxRecordType,
+  getStandingRecords,
+  isDominatedByExistingPR,
+  selectDisplayPR,
+} from './pr-utils'
+import { calculateRepMaxPRScores } from './rep-maxes'
+import { parsePreferences } from './preferences'
 import { validateNotes } from './validation'
 import { rateLimit } from './rate-limit.server'
-import type { PrismaClient, RecordType, WeightUnit } from '@prisma/client'
+import { closeStaleSessions } from './stale-sessions.server'
+import { getElapsedSeconds } from './session-activity'
+import { normalizeToKg } from './weight-utils'
+import { getBodyweightAt } from './bodyweight'
+import {
+  calculateCardioPRScores,
+  getSetDistanceMeters,
+  validateCardioValues,
+} from './cardio'
+import type { CardioValues } from './cardio'
+import type { E1rmFormula } from './progression-utils'
+import type { ScheduledDayStatus } from './plan-schedule'
+import type {
+  DistanceUnit,
+  PrismaClient,
+  RecordType,
+  WeightUnit,
+} from '@prisma/client'
 
 type PrismaTransactionClient = Parameters<
   Parameters<PrismaClient['$transaction']>[0]
 >[0]
 
-const LBS_TO_KG = 0.45359237
-
-export function normalizeToKg(weight: number, unit: WeightUnit): number {
-  if (unit === 'LBS') return weight * LBS_TO_KG
-  return weight
-}
+export { normalizeToKg }
 
 // ============================================
 // PR HELPERS (internal, not server functions)
 // ============================================
 
-/** Calculate PR score and record type for a set's values. Returns null if not PR-eligible. */
+/**
+ * Calculate PR score and record type for a set's values. Returns null if not
+ * PR-eligible. Bodyweight sets are scored with the lifter's body weight in kg
+ * when one is known.
+ */
 export function calculatePRScore(
   isTimed: boolean,
   weight: number,
   reps: number,
   timeSeconds: number,
   isBodyweight = false,
+  bodyweightKg: number | null = null,
 ): { score: number; recordType: RecordType } | null {
   if (isBodyweight) {
-    const effectiveWeight = BODYWEIGHT_BASE_SCORE + weight
+    const effectiveWeight = (bodyweightKg ?? BODYWEIGHT_BASE_SCORE) + weight
     if (isTimed) {
       if (effectiveWeight > 0 && timeSeconds > 0) {
         return {
@@ -70,19 +109,138 @@ export function calculatePRScore(
   return null
 }
 
-/** Rebuild PR records for a user+exercise from all qualifying sets. */
-async function recalculatePR(
+/**
+ * Every record a set competes for: its {@link calculatePRScore} record, for
+ * a cardio exercise the distance and fastest-time records, and for a
+ * weighted lift the `repMaxScores` from {@link calculateRepMaxPRScores}
+ */
+export function calculateSetPRScores(
+  prScore: { score: number; recordType: RecordType } | null,
+  isCardio: boolean,
+  distanceMeters: number,
+  timeSeconds: number,
+  repMaxScores: Array<{ score: number; recordType: RecordType }> = [],
+): Array<{ score: number; recordType: RecordType }> {
+  return [
+    ...(prScore ? [prScore] : []),
+    ...(isCardio ? calculateCardioPRScores(distanceMeters, timeSeconds) : []),
+    ...repMaxScores,
+  ]
+}
+
+/**
+ * Whether an exercise's working sets hold rep-max and estimated 1RM records:
+ * loaded lifts counted in reps, not bodyweight, timed or cardio work
+ */
+function hasRepMaxRecords(exercise: {
+  isTimed: boolean
+  equipment: string
+  exerciseType: string
+}): boolean {
+  return (
+    !exercise.isTimed &&
+    exercise.equipment !== 'BODYWEIGHT' &&
+    exercise.exerciseType !== 'CARDIO'
+  )
+}
+
+/** The formula the user's estimated 1RM records are worked out with */
+async function findE1rmFormula(
+  tx: PrismaTransactionClient,
+  userId: string,
+): Promise<E1rmFormula> {
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: { preferences: true },
+  })
+  return parsePreferences(user?.preferences).e1rmFormula
+}
+
+/** The user's body weight in kg at a point in time, as {@link getBodyweightAt} */
+async function findBodyweightAt(
+  tx: PrismaTransactionClient,
+  userId: string,
+  at: Date,
+): Promise<number | null> {
+  const before = await tx.bodyweightEntry.findFirst({
+    where: { userId, recordedAt: { lte: at } },
+    orderBy: { recordedAt: 'desc' },
+    select: { weight: true },
+  })
+  if (before) return before.weight
+  const after = await tx.bodyweightEntry.findFirst({
+    where: { userId, recordedAt: { gt: at } },
+    orderBy: { recordedAt: 'asc' },
+    select: { weight: true },
+  })
+  return after?.weight ?? null
+}
+
+/**
+ * Throws unless a logged set has non-negative values, cardio values in range,
+ * and reps, time or distance recorded.
+ */
+function validateSetValues(
+  set: {
+    reps?: number
+    timeSeconds?: number
+    weight?: number
+    distanceUnit?: DistanceUnit
+    rpe?: number
+    notes?: string
+  } & CardioValues,
+): void {
+  if (set.reps !== undefined && set.reps < 0) {
+    throw new Error('reps must be non-negative')
+  }
+  if (set.timeSeconds !== undefined && set.timeSeconds < 0) {
+    throw new Error('timeSeconds must be non-negative')
+  }
+  if (set.weight !== undefined && set.weight < 0) {
+    throw new Error('weight must be non-negative')
+  }
+  if (set.rpe !== undefined && (set.rpe < 1 || set.rpe > 10)) {
+    throw new Error('rpe must be between 1 and 10')
+  }
+  validateCardioValues(set)
+  // Validate that set has meaningful data (must have reps, time or distance)
+  const hasReps = set.reps !== undefined && set.reps > 0
+  const hasTime = set.timeSeconds !== undefined && set.timeSeconds > 0
+  const hasDistance = set.distance !== undefined && set.distance > 0
+  if (!hasReps && !hasTime && !hasDistance) {
+    throw new Error('Set must have reps, time or distance recorded')
+  }
+  validateNotes(set.notes)
+}
+
+/**
+ * Rebuild the PR history and standing PR records for a user+exercise from
+ * all qualifying sets, so an edited or deleted set rolls its records back
+ * to the ones before it.
+ */
+export async function recalculatePR(
   tx: PrismaTransactionClient,
   userId: string,
   exerciseId: string,
 ): Promise<void> {
   const exercise = await tx.exercise.findUnique({
     where: { id: exerciseId },
-    select: { isTimed: true, equipment: true },
+    select: { isTimed: true, equipment: true, exerciseType: true },
   })
   if (!exercise) return
 
   const isBodyweight = exercise.equipment === 'BODYWEIGHT'
+  const isCardio = exercise.exerciseType === 'CARDIO'
+  const e1rmFormula = hasRepMaxRecords(exercise)
+    ? await findE1rmFormula(tx, userId)
+    : null
+  const bodyweights = isBodyweight
+    ? await tx.bodyweightEntry.findMany({
+        where: { userId },
+        select: { weight: true, recordedAt: true },
+        orderBy: { recordedAt: 'asc' },
+      })
+    : []
 
   const sets = await tx.workoutSet.findMany({
     where: {
@@ -93,34 +251,70 @@ async function recalculatePR(
     },
     select: {
       id: true,
+      workoutSessionId: true,
       weight: true,
       reps: true,
       timeSeconds: true,
       weightUnit: true,
+      distance: true,
+      distanceUnit: true,
+      completedAt: true,
     },
   })
 
-  // Find best score per recordType
-  const bestByType = new Map<RecordType, { score: number; setId: string }>()
-
-  for (const set of sets) {
-    const result = calculatePRScore(
-      exercise.isTimed,
-      normalizeToKg(set.weight ?? 0, set.weightUnit),
-      set.reps ?? 0,
-      set.timeSeconds ?? 0,
-      isBodyweight,
-    )
-    if (!result) continue
+  const history = buildRecordHistory(
+    sets.flatMap((set) => {
+      const weightKg = normalizeToKg(set.weight ?? 0, set.weightUnit)
+      return calculateSetPRScores(
+        calculatePRScore(
+          exercise.isTimed,
+          weightKg,
+          set.reps ?? 0,
+          set.timeSeconds ?? 0,
+          isBodyweight,
+          getBodyweightAt(bodyweights, set.completedAt),
+        ),
+        isCardio,
+        getSetDistanceMeters(set) ?? 0,
+        set.timeSeconds ?? 0,
+        e1rmFormula
+          ? calculateRepMaxPRScores(weightKg, set.reps ?? 0, e1rmFormula)
+          : [],
+      ).map((result) => ({ ...set, ...result }))
+    }),
+  )
 
-    const existing = bestByType.get(result.recordType)
-    if (!existing || result.score > existing.score) {
-      bestByType.set(result.recordType, {
-        score: result.score,
-        setId: set.id,
-      })
-    }
+  // Only touch the history rows the change affected
+  const { staleIds, added } = diffRecordHistory(
+    await tx.personalRecordHistory.findMany({
+      where: { userId, exerciseId },
+      select: {
+        id: true,
+        recordType: true,
+        value: true,
+        previousValue: true,
+        workoutSetId: true,
+        achievedAt: true,
+      },
+    }),
+    history,
+  )
+  if (staleIds.length > 0) {
+    await tx.personalRecordHistory.deleteMany({
+      where: { id: { in: staleIds } },
+    })
   }
+  if (added.length > 0) {
+    await tx.personalRecordHistory.createMany({
+      data: added.map(({ workoutSessionId: _, ...entry }) => ({
+        userId,
+        exerciseId,
+        ...entry,
+      })),
+    })
+  }
+
+  const standing = getStandingRecords(history)
 
   // Get all existing PRs for this user+exercise
   const existingPRs = await tx.personalRecord.findMany({
@@ -129,51 +323,44 @@ async function recalculatePR(
 
   const existingByType = new Map(existingPRs.map((pr) => [pr.recordType, pr]))
 
-  // Upsert best PRs, delete orphaned record types
+  // Upsert standing PRs, delete orphaned record types
   const allRecordTypes: Array<RecordType> = [
     'MAX_VOLUME',
     'MAX_TIME',
     'MAX_REPS',
     'MAX_WEIGHT',
+    'MAX_DISTANCE',
+    'FASTEST_1K',
+    'FASTEST_5K',
+    'FASTEST_10K',
+    ...STRENGTH_RECORD_TYPES,
   ]
   for (const recordType of allRecordTypes) {
-    const best = bestByType.get(recordType)
+    const best = standing.get(recordType)
     const existingPR = existingByType.get(recordType)
 
     if (best) {
       if (
         existingPR &&
-        existingPR.value === best.score &&
-        existingPR.workoutSetId === best.setId
+        existingPR.value === best.value &&
+        existingPR.workoutSetId === best.workoutSetId &&
+        existingPR.previousRecord === best.previousRecord
       ) {
         // PR unchanged, skip
         continue
       }
+      const record = {
+        value: best.value,
+        workoutSetId: best.workoutSetId,
+        previousRecord: best.previousRecord,
+        achievedAt: best.achievedAt,
+      }
       await tx.personalRecord.upsert({
         where: {
           userId_exerciseId_recordType: { userId, exerciseId, recordType },
         },
-        create: {
-          userId,
-          exerciseId,
-          recordType,
-          value: best.score,
-          workoutSetId: best.setId,
-          previousRecord: existingPR?.previousRecord ?? null,
-        },
-        update: {
-          value: best.score,
-          workoutSetId: best.setId,
-          // Handle previousRecord based on score change direction
-          ...(existingPR && best.score < existingPR.value
-            ? // Regression: PR-holding set deleted, next-best is lower — preserve history
-              { previousRecord: existingPR.previousRecord }
-            : existingPR && best.score > existingPR.value
-              ? // Improvement via recalc: treat as new PR
-                { previousRecord: existingPR.value, achievedAt: new Date() }
-              : // Same score, different set: no change to previousRecord/achievedAt
-                {}),
-        },
+        create: { userId, exerciseId, recordType, ...record },
+        update: record,
       })
     } else if (existingPR) {
       // No qualifying sets for this record type anymore
@@ -188,15 +375,70 @@ async function recalculatePR(
   }
 }
 
+/**
+ * Rebuild every lift's records that hold an estimated 1RM, as after the
+ * user switches the formula it is worked out with
+ */
+export async function recalculateE1rmRecords(userId: string): Promise<void> {
+  const records = await prisma.personalRecord.findMany({
+    where: { userId, recordType: 'E1RM' },
+    select: { exerciseId: true },
+  })
+  for (const { exerciseId } of records) {
+    await prisma.$transaction((tx) => recalculatePR(tx, userId, exerciseId))
+  }
+}
+
 // ============================================
 // SESSION MANAGEMENT
 // ============================================
 
+/**
+ * Plan ID of a day the user may train from (owner or accepted collaborator).
+ * Throws "Plan day not found" otherwise.
+ */
+async function getAccessiblePlanId(
+  userId: string,
+  planDayId: string,
+): Promise<string> {
+  const planDay = await prisma.planDay.findFirst({
+    where: { id: planDayId },
+    include: {
+      workoutPlan: { select: { userId: true, id: true } },
+    },
+  })
+
+  if (!planDay) {
+    throw new Error('Plan day not found')
+  }
+
+  // Allow if owner or accepted collaborator
+  if (planDay.workoutPlan.userId !== userId) {
+    const collaborator = await prisma.planCollaborator.findUnique({
+      where: {
+        workoutPlanId_userId: {
+          workoutPlanId: planDay.workoutPlan.id,
+          userId,
+        },
+      },
+      select: { inviteStatus: true },
+    })
+
+    if (!collaborator || collaborator.inviteStatus !== 'ACCEPTED') {
+      throw new Error('Plan day not found')
+    }
+  }
+
+  return planDay.workoutPlan.id
+}
+
 // Get user's active (incomplete) workout session
 export const getActiveSession = createServerFn({ method: 'GET' })
   .inputValidator((data: { token: string | null }) => data)
   .handler(async ({ data }) => {
     const { userId } = await requireAuth(data.token)
+    // A session left open past the auto-close window no longer counts
+    await closeStaleSessions(new Date(), userId)
     const session = await prisma.workoutSession.findFirst({
       where: {
         userId,
@@ -204,7 +446,7 @@ export const getActiveSession = createServerFn({ method: 'GET' })
       },
       include: {
         workoutPlan: {
-          select: { id: true, name: true },
+          select: { id: true, name: true, blockWeeks: true, weeks: true },
         },
         planDay: {
           select: {
@@ -223,6 +465,13 @@ export const getActiveSession = createServerFn({ method: 'GET' })
                     equipment: true,
                   },
                 },
+                group: true,
+                progressionSuggestions: { where: { userId } },
+                setPrescriptions: { orderBy: { setOrder: 'asc' } },
+                alternates: {
+                  orderBy: { sortOrder: 'asc' },
+                  include: { exercise: true },
+                },
               },
             },
           },
@@ -241,6 +490,7 @@ export const getActiveSession = createServerFn({ method: 'GET' })
             },
           },
         },
+        substitutions: { include: { exercise: true } },
       },
     })
 
@@ -259,38 +509,24 @@ export const startWorkoutSession = createServerFn({ method: 'POST' })
   .handler(async ({ data }) => {
     rateLimit({ key: 'start-workout', limit: 10, windowMs: 60_000 })
     const { userId } = await requireAuth(data.token)
-    // If plan/day provided, verify access (owner or accepted collaborator)
+    // If plan/day provided, verify access and use the plan ID from the day
+    let targetWeights: Record<string, number> | undefined
+    let blockWeek: number | undefined
     if (data.planDayId) {
-      const planDay = await prisma.planDay.findFirst({
-        where: { id: data.planDayId },
-        include: {
-          workoutPlan: { select: { userId: true, id: true } },
+      data.workoutPlanId = await getAccessiblePlanId(userId, data.planDayId)
+      const position = await getPlanBlockPosition(userId, data.workoutPlanId)
+      blockWeek = position?.weekNumber
+      // Fix %1RM targets for this session so new PRs don't move them mid-workout
+      const percentTargets = await prisma.planExercise.findMany({
+        where: { planDayId: data.planDayId },
+        select: {
+          id: true,
+          exerciseId: true,
+          targetPercent1rm: true,
+          setPrescriptions: { select: { id: true, targetPercent1rm: true } },
         },
       })
-
-      if (!planDay) {
-        throw new Error('Plan day not found')
-      }
-
-      // Allow if owner or accepted collaborator
-      if (planDay.workoutPlan.userId !== userId) {
-        const collaborator = await prisma.planCollaborator.findUnique({
-          where: {
-            workoutPlanId_userId: {
-              workoutPlanId: planDay.workoutPlan.id,
-              userId,
-            },
-          },
-          select: { inviteStatus: true },
-        })
-
-        if (!collaborator || collaborator.inviteStatus !== 'ACCEPTED') {
-          throw new Error('Plan day not found')
-        }
-      }
-
-      // Use the plan ID from the day
-      data.workoutPlanId = planDay.workoutPlan.id
+      targetWeights = await resolvePercentTargets(userId, percentTargets)
     }
 
     const session = await prisma.workoutSession.create({
@@ -299,10 +535,12 @@ export const startWorkoutSession = createServerFn({ method: 'POST' })
         workoutPlanId: data.workoutPlanId,
         planDayId: data.planDayId,
         startedAt: new Date(),
+        targetWeights,
+        blockWeek,
       },
       include: {
         workoutPlan: {
-          select: { id: true, name: true },
+          select: { id: true, name: true, blockWeeks: true, weeks: true },
         },
         planDay: {
           select: {
@@ -321,6 +559,9 @@ export const startWorkoutSession = createServerFn({ method: 'POST' })
                     equipment: true,
                   },
                 },
+                group: true,
+                progressionSuggestions: { where: { userId } },
+                setPrescriptions: { orderBy: { setOrder: 'asc' } },
               },
             },
           },
@@ -331,6 +572,132 @@ export const startWorkoutSession = createServerFn({ method: 'POST' })
     return { session }
   })
 
+/**
+ * Mark a session complete and announce it: activity feed item, challenge
+ * progress and achievements, all dated to `completedAt`. Set `backdated`
+ * when that is in the past so achievements are dated from history too.
+ */
+async function finishWorkoutSession(
+  userId: string,
+  existing: {
+    id: string
+    planDay: { name: string; workoutPlan: { name: string } } | null
+  },
+  fields: {
+    completedAt: Date
+    durationSeconds: number
+    notes?: string
+    moodRating?: number
+    backdated?: boolean
+  },
+) {
+  const { completedAt, durationSeconds } = fields
+
+  // Use transaction to ensure session update and activity feed are atomic
+  const session = await prisma.$transaction(async (tx) => {
+    const updatedSession = await tx.workoutSession.update({
+      where: { id: existing.id },
+      data: {
+        completedAt,
+        durationSeconds,
+        notes: fields.notes,
+        moodRating: fields.moodRating,
+        autoClosedAt: null,
+      },
+    })
+
+    // Create activity feed item for workout completion
+    await tx.activityFeedItem.create({
+      data: {
+        userId,
+        activityType: 'WORKOUT_COMPLETED',
+        referenceId: updatedSession.id,
+        metadata: {
+          durationSeconds,
+          planName: existing.planDay?.workoutPlan.name ?? null,
+          dayName: existing.planDay?.name ?? null,
+        },
+        createdAt: completedAt,
+      },
+    })
+
+    return updatedSession
+  })
+
+  const newAchievements = await runCompletionEffects(
+    userId,
+    existing.id,
+    fields.backdated,
+  )
+
+  return { session, newAchievements }
+}
+
+/**
+ * Count a completed session toward challenges, progression targets, the
+ * plan's training block and achievements, each dated to the session's
+ * `completedAt`. Returns the achievements it newly earned.
+ */
+async function runCompletionEffects(
+  userId: string,
+  sessionId: string,
+  backdated = false,
+) {
+  // Update challenge progress (has its own error handling)
+  await updateChallengeProgressInternal(userId, sessionId)
+
+  // Work out the next targets for exercises with a progression scheme
+  await updateProgressionSuggestions(userId, sessionId)
+
+  // Finishing the plan's last day moves its training block on a week
+  await advancePlanBlock(userId, sessionId)
+
+  // Check for newly earned achievements (has its own error handling)
+  const achievementResult = await checkAchievementsInternal(
+    userId,
+    'workout_complete',
+    { backdated },
+  )
+
+  return achievementResult.newlyEarned
+}
+
+/** Delete a session and its sets, rebuilding any PRs they held. */
+async function deleteWorkoutSession(userId: string, sessionId: string) {
+  await prisma.$transaction(async (tx) => {
+    // Collect affected exercises before deleting
+    const affectedExercises = await tx.workoutSet.findMany({
+      where: { workoutSessionId: sessionId },
+      select: { exerciseId: true },
+      distinct: ['exerciseId'],
+    })
+
+    // Collect PR IDs linked to this session's sets before cascade delete
+    const linkedPRs = await tx.personalRecord.findMany({
+      where: { workoutSet: { workoutSessionId: sessionId } },
+      select: { id: true },
+    })
+    const oldPRIds = linkedPRs.map((pr) => pr.id)
+
+    // Delete session (cascade deletes sets and their PRs)
+    await tx.workoutSession.delete({
+      where: { id: sessionId },
+    })
+
+    // Recalculate PRs for all affected exercises
+    for (const { exerciseId } of affectedExercises) {
+      await recalculatePR(tx, userId, exerciseId)
+    }
+
+    // Clean up orphaned activity feed entries for deleted PRs
+    if (oldPRIds.length > 0) {
+      await tx.activityFeedItem.deleteMany({
+        where: { activityType: 'PR_ACHIEVED', referenceId: { in: oldPRIds } },
+      })
+    }
+  })
+}
+
 // Complete a workout session
 export const completeWorkoutSession = createServerFn({ method: 'POST' })
   .inputValidator(
@@ -358,66 +725,359 @@ export const completeWorkoutSession = createServerFn({ method: 'POST' })
   )
   .handler(async ({ data }) => {
     const { userId } = await requireAuth(data.token)
-    // Verify ownership and get plan info for activity metadata
-    const existing = await prisma.workoutSession.findFirst({
-      where: { id: data.sessionId, userId },
-      include: {
-        planDay: {
-          include: {
-            workoutPlan: { select: { name: true } },
-          },
+    return completeWorkoutSessionInternal(userId, data)
+  })
+
+/**
+ * Finish the user's open session now. One auto-closed while idle is kept
+ * finished at its last set, as resolving it would be; one already finished
+ * can't be finished again.
+ */
+export async function completeWorkoutSessionInternal(
+  userId: string,
+  data: {
+    sessionId: string
+    notes?: string
+    moodRating?: number
+    durationSeconds?: number
+  },
+) {
+  // Verify ownership and get plan info for activity metadata
+  const existing = await prisma.workoutSession.findFirst({
+    where: { id: data.sessionId, userId },
+    include: {
+      planDay: {
+        include: {
+          workoutPlan: { select: { name: true } },
         },
       },
-    })
+    },
+  })
 
-    if (!existing) {
-      throw new Error('Session not found')
+  if (!existing) {
+    throw new Error('Session not found')
+  }
+
+  if (existing.autoClosedAt && existing.completedAt) {
+    return finishAutoClosedSession(userId, existing, existing.completedAt)
+  }
+
+  if (existing.completedAt) {
+    throw new Error('Workout already finished')
+  }
+
+  // Use client-provided duration or calculate from start time
+  return finishWorkoutSession(userId, existing, {
+    completedAt: new Date(),
+    durationSeconds: data.durationSeconds ?? getElapsedSeconds(existing),
+    notes: data.notes,
+    moodRating: data.moodRating,
+  })
+}
+
+/** Keep an auto-closed session finished at the time it was closed */
+function finishAutoClosedSession(
+  userId: string,
+  existing: Parameters<typeof finishWorkoutSession>[1] & {
+    startedAt: Date
+    resumedAt: Date | null
+    durationSeconds: number | null
+  },
+  closedAt: Date,
+) {
+  return finishWorkoutSession(userId, existing, {
+    completedAt: closedAt,
+    durationSeconds:
+      existing.durationSeconds ?? getElapsedSeconds(existing, closedAt),
+    backdated: true,
+  })
+}
+
+/**
+ * Check a past workout's timing against `now` and return when it finished.
+ * It must have ended already and started within MAX_BACKDATE_DAYS.
+ */
+export function getPastWorkoutEnd(
+  startedAt: Date,
+  durationSeconds: number,
+  now: Date = new Date(),
+): Date {
+  if (Number.isNaN(startedAt.getTime())) {
+    throw new Error('Invalid start time')
+  }
+  if (
+    !Number.isInteger(durationSeconds) ||
+    durationSeconds <= 0 ||
+    durationSeconds > MAX_WORKOUT_DURATION_SECONDS
+  ) {
+    throw new Error('Duration must be between 1 second and 12 hours')
+  }
+
+  const completedAt = new Date(startedAt.getTime() + durationSeconds * 1000)
+  if (completedAt > now) {
+    throw new Error('A past workout must have already finished')
+  }
+
+  const earliest = new Date(now)
+  earliest.setDate(earliest.getDate() - MAX_BACKDATE_DAYS)
+  if (startedAt < earliest) {
+    throw new Error(
+      `Workouts can only be logged up to ${MAX_BACKDATE_DAYS} days back`,
+    )
+  }
+
+  return completedAt
+}
+
+/** Completion times for `count` sets spread evenly over a session, the last at its end. */
+export function getPastSetTimes(
+  startedAt: Date,
+  completedAt: Date,
+  count: number,
+): Array<Date> {
+  const span = completedAt.getTime() - startedAt.getTime()
+  return Array.from(
+    { length: count },
+    (_, i) =>
+      new Date(startedAt.getTime() + Math.round((span * (i + 1)) / count)),
+  )
+}
+
+// Log a workout after the fact: creates a completed session and all of its
+// sets in one call, with PRs, challenges and achievements dated to when it
+// actually happened rather than now
+export const logPastWorkout = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      startedAt: string
+      durationSeconds: number
+      planDayId?: string
+      notes?: string
+      moodRating?: number
+      sets: Array<
+        {
+          exerciseId: string
+          reps?: number
+          timeSeconds?: number
+          weight?: number
+          weightUnit?: WeightUnit
+          distanceUnit?: DistanceUnit
+          isWarmup?: boolean
+          isDropset?: boolean
+          rpe?: number
+          notes?: string
+        } & CardioValues
+      >
+      token: string | null
+    }) => {
+      getPastWorkoutEnd(new Date(data.startedAt), data.durationSeconds)
+      if (
+        data.moodRating !== undefined &&
+        (data.moodRating < 1 || data.moodRating > 10)
+      ) {
+        throw new Error('moodRating must be between 1 and 10')
+      }
+      if (data.sets.length === 0) {
+        throw new Error('Add at least one set')
+      }
+      if (data.sets.length > MAX_PAST_WORKOUT_SETS) {
+        throw new Error(
+          `A workout can have at most ${MAX_PAST_WORKOUT_SETS} sets`,
+        )
+      }
+      data.sets.forEach(validateSetValues)
+      validateNotes(data.notes)
+      return data
+    },
+  )
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'log-past-workout', limit: 10, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
+    const startedAt = new Date(data.startedAt)
+    const completedAt = getPastWorkoutEnd(startedAt, data.durationSeconds)
+
+    const workoutPlanId = data.planDayId
+      ? await getAccessiblePlanId(userId, data.planDayId)
+      : undefined
+
+    // A workout from the block's current week can finish that week; one from
+    // before it started belongs to an earlier week we no longer track
+    const position = workoutPlanId
+      ? await getPlanBlockPosition(userId, workoutPlanId)
+      : null
+    const blockWeek =
+      position &&
+      (!position.weekStartedAt || completedAt >= position.weekStartedAt)
+        ? position.weekNumber
+        : undefined
+
+    // Every exercise must be one the user can see
+    const exerciseIds = Array.from(new Set(data.sets.map((s) => s.exerciseId)))
+    const exercises = await prisma.exercise.findMany({
+      where: {
+        AND: [{ id: { in: exerciseIds } }, exerciseVisibilityWhere(userId)],
+      },
+      select: { id: true, name: true },
+    })
+    if (exercises.length !== exerciseIds.length) {
+      throw new Error('Exercise not found')
     }
+    const exerciseNames = new Map(exercises.map((e) => [e.id, e.name]))
 
-    // Use client-provided duration or calculate from start time
-    const durationSeconds =
-      data.durationSeconds ??
-      Math.floor((Date.now() - existing.startedAt.getTime()) / 1000)
+    const setTimes = getPastSetTimes(startedAt, completedAt, data.sets.length)
 
-    // Use transaction to ensure session update and activity feed are atomic
-    const session = await prisma.$transaction(async (tx) => {
-      const updatedSession = await tx.workoutSession.update({
-        where: { id: data.sessionId },
+    const result = await prisma.$transaction(async (tx) => {
+      const session = await tx.workoutSession.create({
         data: {
-          completedAt: new Date(),
-          durationSeconds,
+          userId,
+          workoutPlanId,
+          planDayId: data.planDayId,
+          startedAt,
+          completedAt,
+          durationSeconds: data.durationSeconds,
           notes: data.notes,
           moodRating: data.moodRating,
+          blockWeek,
+        },
+        include: {
+          planDay: {
+            include: {
+              workoutPlan: { select: { name: true } },
+            },
+          },
         },
       })
 
-      // Create activity feed item for workout completion
+      // Number sets per exercise in the order they were entered
+      const setCounts = new Map<string, number>()
+      await tx.workoutSet.createMany({
+        data: data.sets.map((set, i) => {
+          const setNumber = (setCounts.get(set.exerciseId) ?? 0) + 1
+          setCounts.set(set.exerciseId, setNumber)
+          return {
+            workoutSessionId: session.id,
+            exerciseId: set.exerciseId,
+            setNumber,
+            reps: set.reps,
+            timeSeconds: set.timeSeconds,
+            weight: set.weight,
+            weightUnit: set.weightUnit ?? ('KG' as WeightUnit),
+            distance: set.distance,
+            distanceUnit: set.distanceUnit ?? ('KM' as DistanceUnit),
+            avgHeartRate: set.avgHeartRate,
+            maxHeartRate: set.maxHeartRate,
+            level: set.level,
+            calories: set.calories,
+            isWarmup: set.isWarmup ?? false,
+            isDropset: set.isDropset ?? false,
+            rpe: set.rpe,
+            notes: set.notes,
+            completedAt: setTimes[i],
+          }
+        }),
+      })
+
+      // Rebuild PRs so the historical sets compete with everything logged
+      // since; records they now hold are dated to the set, not to today
+      const prs: Array<{
+        exerciseName: string
+        recordType: RecordType
+        value: number
+        previousRecord: number | null
+      }> = []
+      for (const exerciseId of exerciseIds) {
+        await recalculatePR(tx, userId, exerciseId)
+
+        const records = await tx.personalRecord.findMany({
+          where: { userId, exerciseId },
+          include: {
+            workoutSet: {
+              select: {
+                workoutSessionId: true,
+                weight: true,
+                weightUnit: true,
+                reps: true,
+                timeSeconds: true,
+                distance: true,
+                distanceUnit: true,
+              },
+            },
+          },
+        })
+        const recordTypes = records.map((r) => r.recordType)
+        const newRecords = records.filter(
+          (record) =>
+            record.workoutSet.workoutSessionId === session.id &&
+            !isDominatedByExistingPR(
+              record.recordType,
+              recordTypes.filter((t) => t !== record.recordType),
+            ),
+        )
+        // A set can break several records at once; post the headline one
+        const headline = selectDisplayPR(newRecords)
+
+        for (const record of newRecords) {
+          const exerciseName = exerciseNames.get(exerciseId) ?? ''
+          if (record === headline) {
+            const { weight, weightUnit, reps, timeSeconds, distance } =
+              record.workoutSet
+            await tx.activityFeedItem.create({
+              data: {
+                userId,
+                activityType: 'PR_ACHIEVED',
+                referenceId: record.id,
+                metadata: {
+                  exerciseName,
+                  recordType: record.recordType,
+                  value: record.value,
+                  weight: weight && weight > 0 ? weight : null,
+                  weightUnit,
+                  reps: reps && reps > 0 ? reps : null,
+                  timeSeconds:
+                    timeSeconds && timeSeconds > 0 ? timeSeconds : null,
+                  distance: distance && distance > 0 ? distance : null,
+                  distanceUnit: record.workoutSet.distanceUnit,
+                },
+                createdAt: record.achievedAt,
+              },
+            })
+          }
+          prs.push({
+            exerciseName,
+            recordType: record.recordType,
+            value: record.value,
+            previousRecord: record.previousRecord,
+          })
+        }
+      }
+
       await tx.activityFeedItem.create({
         data: {
           userId,
           activityType: 'WORKOUT_COMPLETED',
-          referenceId: updatedSession.id,
+          referenceId: session.id,
           metadata: {
-            durationSeconds,
-            planName: existing.planDay?.workoutPlan.name ?? null,
-            dayName: existing.planDay?.name ?? null,
+            durationSeconds: data.durationSeconds,
+            planName: session.planDay?.workoutPlan.name ?? null,
+            dayName: session.planDay?.name ?? null,
           },
+          // Keep the workout in its place in the feed timeline
+          createdAt: completedAt,
         },
       })
 
-      return updatedSession
+      return { session, prs }
     })
 
-    // Update challenge progress (has its own error handling)
-    await updateChallengeProgressInternal(userId, data.sessionId)
-
-    // Check for newly earned achievements (has its own error handling)
-    const achievementResult = await checkAchievementsInternal(
+    // Challenges only count the workout if it fell inside their window, and
+    // newly earned achievements are dated from workout history
+    const newAchievements = await runCompletionEffects(
       userId,
-      'workout_complete',
+      result.session.id,
+      true,
     )
 
-    return { session, newAchievements: achievementResult.newlyEarned }
+    return { session: result.session, prs: result.prs, newAchievements }
   })
 
 // Discard/cancel an active workout
@@ -434,89 +1094,225 @@ export const discardWorkoutSession = createServerFn({ method: 'POST' })
       throw new Error('Session not found')
     }
 
-    await prisma.$transaction(async (tx) => {
-      // Collect affected exercises before deleting
-      const affectedExercises = await tx.workoutSet.findMany({
-        where: { workoutSessionId: data.sessionId },
-        select: { exerciseId: true },
-        distinct: ['exerciseId'],
-      })
+    await deleteWorkoutSession(userId, data.sessionId)
 
-      // Collect PR IDs linked to this session's sets before cascade delete
-      const linkedPRs = await tx.personalRecord.findMany({
-        where: { workoutSet: { workoutSessionId: data.sessionId } },
-        select: { id: true },
-      })
-      const oldPRIds = linkedPRs.map((pr) => pr.id)
+    return { success: true }
+  })
 
-      // Delete session (cascade deletes sets and their PRs)
-      await tx.workoutSession.delete({
-        where: { id: data.sessionId },
-      })
+// Do a plan exercise as another exercise for the rest of an active session,
+// or go back to the planned one when exerciseId is null
+export const substituteExercise = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      sessionId: string
+      planExerciseId: string
+      exerciseId: string | null
+      token: string | null
+    }) => data,
+  )
+  .handler(async ({ data }) => {
+    rateLimit({ key: 'substitute-exercise', limit: 30, windowMs: 60_000 })
+    const { userId } = await requireAuth(data.token)
 
-      // Recalculate PRs for all affected exercises
-      for (const { exerciseId } of affectedExercises) {
-        await recalculatePR(tx, userId, exerciseId)
-      }
+    const session = await prisma.workoutSession.findFirst({
+      where: { id: data.sessionId, userId, completedAt: null },
+      select: {
+        planDay: {
+          select: {
+            planExercises: { select: { id: true, exerciseId: true } },
+          },
+        },
+        substitutions: { select: { planExerciseId: true, exerciseId: true } },
+      },
+    })
+    if (!session) {
+      throw new Error('Session not found')
+    }
+    const planExercises = session.planDay?.planExercises ?? []
+    const planExercise = planExercises.find(
+      (pe) => pe.id === data.planExerciseId,
+    )
+    if (!planExercise) {
+      throw new Error('Exercise is not part of this workout')
+    }
 
-      // Clean up orphaned activity feed entries for deleted PRs
-      if (oldPRIds.length > 0) {
-        await tx.activityFeedItem.deleteMany({
-          where: { activityType: 'PR_ACHIEVED', referenceId: { in: oldPRIds } },
-        })
+    const key = {
+      workoutSessionId: data.sessionId,
+      planExerciseId: planExercise.id,
+    }
+    if (!data.exerciseId || data.exerciseId === planExercise.exerciseId) {
+      await prisma.workoutSubstitution.deleteMany({ where: key })
+      return { substitution: null }
+    }
+
+    const exercise = await prisma.exercise.findFirst({
+      where: { id: data.exerciseId, ...exerciseVisibilityWhere(userId) },
+      select: { id: true },
+    })
+    if (!exercise) {
+      throw new Error('Exercise not found')
+    }
+    // Each exercise appears once in a workout
+    const inUse =
+      planExercises.some(
+        (pe) =>
+          pe.exerciseId === exercise.id &&
+          !session.substitutions.some((s) => s.planExerciseId === pe.id),
+      ) ||
+      session.substitutions.some(
+        (s) =>
+          s.exerciseId === exercise.id && s.planExerciseId !== planExercise.id,
+      )
+    if (inUse) {
+      throw new Error('That exercise is already in this workout')
+    }
+
+    const substitution = await prisma.workoutSubstitution.upsert({
+      where: { workoutSessionId_planExerciseId: key },
+      create: { ...key, exerciseId: exercise.id },
+      update: { exerciseId: exercise.id },
+      include: { exercise: true },
+    })
+
+    return { substitution }
+  })
+
+// Get the user's latest auto-closed session awaiting review, first closing
+// their open session if it has gone stale
+export const getAutoClosedSession = createServerFn({ method: 'GET' })
+  .inputValidator((data: { token: string | null }) => data)
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+    await closeStaleSessions(new Date(), userId)
+
+    const session = await prisma.workoutSession.findFirst({
+      where: { userId, autoClosedAt: { not: null } },
+      orderBy: { autoClosedAt: 'desc' },
+      include: {
+        workoutPlan: { select: { name: true } },
+        planDay: { select: { name: true } },
+        _count: { select: { workoutSets: true } },
+      },
+    })
+
+    return { session }
+  })
+
+// Act on an auto-closed session: reopen it, keep it finished at its last
+// set, or throw it away
+export const resolveAutoClosedSession = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      sessionId: string
+      action: 'resume' | 'finish' | 'discard'
+      token: string | null
+    }) => {
+      if (!['resume', 'finish', 'discard'].includes(data.action)) {
+        throw new Error('Invalid action')
       }
+      return data
+    },
+  )
+  .handler(async ({ data }) => {
+    const { userId } = await requireAuth(data.token)
+    const existing = await prisma.workoutSession.findFirst({
+      where: { id: data.sessionId, userId, autoClosedAt: { not: null } },
+      include: {
+        planDay: {
+          include: {
+            workoutPlan: { select: { name: true } },
+          },
+        },
+      },
     })
 
-    return { success: true }
+    if (!existing?.completedAt) {
+      throw new Error('Session not found')
+    }
+
+    if (data.action === 'discard') {
+      await deleteWorkoutSession(userId, existing.id)
+      return { session: null, newAchievements: [] }
+    }
+
+    if (data.action === 'finish') {
+      return finishAutoClosedSession(userId, existing, existing.completedAt)
+    }
+
+    // Only one workout can be open at a time
+    const active = await prisma.workoutSession.findFirst({
+      where: { userId, completedAt: null },
+      select: { id: true },
+    })
+    if (active) {
+      throw new Error('Finish or discard your current workout first')
+    }
+
+    // Keep the banked duration so the idle gap is not counted on completion
+    const session = await prisma.workoutSession.update({
+      where: { id: existing.id },
+      data: { completedAt: null, autoClosedAt: null, resumedAt: new Date() },
+    })
+
+    return { session, newAchievements: [] }
   })
 
 // ============================================
 // SET LOGGING
 // ============================================
 
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * When a set was actually done. Sets synced after being logged offline
+ * carry their own time; keep it inside the session so far.
+ */
+export function getLoggedSetTime(
+  sessionStartedAt: Date,
+  loggedAt: string | undefined,
+  now: Date = new Date(),
+): Date {
+  const time = loggedAt ? new Date(loggedAt).getTime() : NaN
+  if (Number.isNaN(time)) return now
+  return new Date(
+    Math.min(Math.max(time, sessionStartedAt.getTime()), now.getTime()),
+  )
+}
+
 // Log a workout set
 export const logWorkoutSet = createServerFn({ method: 'POST' })
   .inputValidator(
-    (data: {
-      workoutSessionId: string
-      exerciseId: string
-      setNumber: number
-      reps?: number
-      timeSeconds?: number
-      weight?: number
-      weightUnit?: WeightUnit
-      isWarmup?: boolean
-      isDropset?: boolean
-      rpe?: number
-      notes?: string
-      token: string | null
-    }) => {
-      // Validate numeric fields
-      if (data.reps !== undefined && data.reps < 0) {
-        throw new Error('reps must be non-negative')
-      }
-      if (data.timeSeconds !== undefined && data.timeSeconds < 0) {
-        throw new Error('timeSeconds must be non-negative')
-      }
-      if (data.weight !== undefined && data.weight < 0) {
-        throw new Error('weight must be non-negative')
-      }
-      if (data.rpe !== undefined && (data.rpe < 1 || data.rpe > 10)) {
-        throw new Error('rpe must be between 1 and 10')
-      }
-      // Validate that set has meaningful data (must have reps or time)
-      const hasReps = data.reps !== undefined && data.reps > 0
-      const hasTime = data.timeSeconds !== undefined && data.timeSeconds > 0
-      if (!hasReps && !hasTime) {
-        throw new Error('Set must have either reps or time recorded')
+    (
+      data: {
+        id?: string
+        workoutSessionId: string
+        exerciseId: string
+        setNumber: number
+        reps?: number
+        timeSeconds?: number
+        weight?: number
+        weightUnit?: WeightUnit
+        distanceUnit?: DistanceUnit
+        isWarmup?: boolean
+        isDropset?: boolean
+        rpe?: number
+        notes?: string
+        groupId?: string
+        completedAt?: string
+        token: string | null
+      } & CardioValues,
+    ) => {
+      validateSetValues(data)
+      if (data.id !== undefined && !UUID_PATTERN.test(data.id)) {
+        throw new Error('Invalid set id')
       }
-      validateNotes(data.notes)
       return data
     },
   )
   .handler(async ({ data }) => {
     const { userId } = await requireAuth(data.token)
-    const { token: _, ...setData } = data
+    const { token: _, id, completedAt: loggedAt, ...setData } = data
 
     // Verify session ownership
     const session = await prisma.workoutSession.findFirst({
@@ -527,10 +1323,82 @@ export const logWorkoutSet = createServerFn({ method: 'POST' })
       throw new Error('Session not found')
     }
 
+    // Sets replayed from the offline queue carry their own id, so a retry of
+    // a set the server already saved returns it instead of logging it twice
+    if (id) {
+      const existing = await prisma.workoutSet.findUnique({
+        where: { id },
+        include: {
+          exercise: {
+            select: {
+              id: true,
+              name: true,
+              isTimed: true,
+              equipment: true,
+              exerciseType: true,
+            },
+          },
+        },
+      })
+      if (existing) {
+        if (existing.workoutSessionId !== session.id) {
+          throw new Error('Set not found')
+        }
+        return { workoutSet: existing, isNewPR: false }
+      }
+    }
+
+    // Completion has already counted the workout toward PRs, achievements,
+    // challenges and the plan, so a finished or auto-closed session is closed
+    if (session.completedAt) {
+      throw new Error('Workout is already finished')
+    }
+
+    const completedAt = getLoggedSetTime(session.startedAt, loggedAt)
+
+    // Snapshot the group onto the set so history keeps it if the plan changes
+    const group =
+      setData.groupId && session.planDayId
+        ? await prisma.planExerciseGroup.findFirst({
+            where: { id: setData.groupId, planDayId: session.planDayId },
+            select: { id: true, groupType: true },
+          })
+        : null
+
     // Use transaction to ensure set creation and PR records are atomic
     const result = await prisma.$transaction(async (tx) => {
+      // Rep-max and e1RM records are only kept for sets logged since they
+      // were added; build a lift's from its history the first time one could
+      // be set, so earlier sets aren't beaten by a lighter one
+      if (
+        !setData.isWarmup &&
+        !setData.isDropset &&
+        (setData.weight ?? 0) > 0 &&
+        getRepMaxRecordType(setData.reps ?? 0)
+      ) {
+        const exercise = await tx.exercise.findUnique({
+          where: { id: setData.exerciseId },
+          select: { isTimed: true, equipment: true, exerciseType: true },
+        })
+        const strengthRecord =
+          exercise && hasRepMaxRecords(exercise)
+            ? await tx.personalRecord.findFirst({
+                where: {
+                  userId,
+                  exerciseId: setData.exerciseId,
+                  recordType: { in: [...STRENGTH_RECORD_TYPES] },
+                },
+                select: { id: true },
+              })
+            : undefined
+        if (strengthRecord === null) {
+          await recalculatePR(tx, userId, setData.exerciseId)
+        }
+      }
+
       const workoutSet = await tx.workoutSet.create({
         data: {
+          id,
           workoutSessionId: setData.workoutSessionId,
           exerciseId: setData.exerciseId,
           setNumber: setData.setNumber,
@@ -538,11 +1406,19 @@ export const logWorkoutSet = createServerFn({ method: 'POST' })
           timeSeconds: setData.timeSeconds,
           weight: setData.weight,
           weightUnit: setData.weightUnit ?? ('KG' as WeightUnit),
+          distance: setData.distance,
+          distanceUnit: setData.distanceUnit ?? ('KM' as DistanceUnit),
+          avgHeartRate: setData.avgHeartRate,
+          maxHeartRate: setData.maxHeartRate,
+          level: setData.level,
+          calories: setData.calories,
           isWarmup: setData.isWarmup ?? false,
           isDropset: setData.isDropset ?? false,
           rpe: setData.rpe,
           notes: setData.notes,
-          completedAt: new Date(),
+          groupId: group?.id,
+          groupType: group?.groupType,
+          completedAt,
         },
         include: {
           exercise: {
@@ -551,12 +1427,13 @@ export const logWorkoutSet = createServerFn({ method: 'POST' })
               name: true,
               isTimed: true,
               equipment: true,
+              exerciseType: true,
             },
           },
         },
       })
 
-      // Check for PR (only for working sets, not warmups)
+      // Check for PRs (only for working sets, not warmups)
       let prResult: {
         isNewPR: boolean
         newRecord?: number
@@ -566,6 +1443,8 @@ export const logWorkoutSet = createServerFn({ method: 'POST' })
         weightUnit?: WeightUnit
         reps?: number
         timeSeconds?: number
+        distance?: number
+        distanceUnit?: DistanceUnit
       } = { isNewPR: false }
 
       if (!setData.isWarmup && !setData.isDropset) {
@@ -576,20 +1455,42 @@ export const logWorkoutSet = createServerFn({ method: 'POST' })
         )
         const reps = setData.reps ?? 0
         const time = setData.timeSeconds ?? 0
+        const distance = setData.distance ?? 0
 
         const isBodyweight = workoutSet.exercise.equipment === 'BODYWEIGHT'
-        const scoreResult = calculatePRScore(
-          workoutSet.exercise.isTimed,
-          weight,
-          reps,
+        const scores = calculateSetPRScores(
+          calculatePRScore(
+            workoutSet.exercise.isTimed,
+            weight,
+            reps,
+            time,
+            isBodyweight,
+            isBodyweight
+              ? await findBodyweightAt(tx, userId, completedAt)
+              : null,
+          ),
+          workoutSet.exercise.exerciseType === 'CARDIO',
+          getSetDistanceMeters(workoutSet) ?? 0,
           time,
-          isBodyweight,
+          hasRepMaxRecords(workoutSet.exercise)
+            ? calculateRepMaxPRScores(
+                weight,
+                reps,
+                await findE1rmFormula(tx, userId),
+              )
+            : [],
         )
 
-        // Check if this is a new PR
-        if (scoreResult) {
-          const { score: prScore, recordType } = scoreResult
+        // New records worth celebrating
+        const celebrated: Array<{
+          id: string
+          recordType: RecordType
+          value: number
+          previousRecord: number | null
+          achievedAt: Date
+        }> = []
 
+        for (const { score: prScore, recordType } of scores) {
           const existingPR = await tx.personalRecord.findUnique({
             where: {
               userId_exerciseId_recordType: {
@@ -600,101 +1501,135 @@ export const logWorkoutSet = createServerFn({ method: 'POST' })
             },
           })
 
-          const PR_EPSILON = 0.01
-          const isNewPR =
-            !existingPR || prScore >= existingPR.value + PR_EPSILON
-
-          if (isNewPR) {
-            // Determine previousRecord: if the existing PR's set is from this
-            // same session, keep its previousRecord (the original beaten value),
-            // otherwise use the existing PR's value.
-            let previousRecord: number | null = null
-            if (existingPR) {
-              const existingSet = await tx.workoutSet.findUnique({
-                where: { id: existingPR.workoutSetId },
-                select: { workoutSessionId: true },
-              })
-              if (existingSet?.workoutSessionId === setData.workoutSessionId) {
-                // Same session — preserve the original beaten value
-                previousRecord = existingPR.previousRecord ?? existingPR.value
-              } else {
-                previousRecord = existingPR.value
-              }
+          // Check if this is a new PR
+          if (
+            existingPR &&
+            !beatsRecord(recordType, prScore, existingPR.value)
+          ) {
+            continue
+          }
+
+          // Determine previousRecord: if the existing PR's set is from this
+          // same session, keep its previousRecord (the original beaten value),
+          // otherwise use the existing PR's value.
+          let previousRecord: number | null = null
+          if (existingPR) {
+            const existingSet = await tx.workoutSet.findUnique({
+              where: { id: existingPR.workoutSetId },
+              select: { workoutSessionId: true },
+            })
+            if (existingSet?.workoutSessionId === setData.workoutSessionId) {
+              // Same session — preserve the original beaten value
+              previousRecord = existingPR.previousRecord ?? existingPR.value
+            } else {
+              previousRecord = existingPR.value
             }
+          }
 
-            // Use upsert to handle the unique constraint
-            const newPR = await tx.personalRecord.upsert({
-              where: {
-                userId_exerciseId_recordType: {
-                  userId,
-                  exerciseId: setData.exerciseId,
-                  recordType,
-                },
-              },
-              create: {
+          // Use upsert to handle the unique constraint
+          const newPR = await tx.personalRecord.upsert({
+            where: {
+              userId_exerciseId_recordType: {
                 userId,
                 exerciseId: setData.exerciseId,
                 recordType,
-                value: prScore,
-                workoutSetId: workoutSet.id,
-                previousRecord,
               },
-              update: {
-                value: prScore,
-                workoutSetId: workoutSet.id,
-                previousRecord,
-                achievedAt: new Date(),
-              },
-            })
+            },
+            create: {
+              userId,
+              exerciseId: setData.exerciseId,
+              recordType,
+              value: prScore,
+              workoutSetId: workoutSet.id,
+              previousRecord,
+              achievedAt: completedAt,
+            },
+            update: {
+              value: prScore,
+              workoutSetId: workoutSet.id,
+              previousRecord,
+              achievedAt: completedAt,
+            },
+          })
 
-            // Check if this PR type is dominated by a higher-priority
-            // PR that already exists (e.g., MAX_REPS when MAX_VOLUME exists).
-            // Still save the record (above), but skip celebration.
-            const otherPRs = await tx.personalRecord.findMany({
-              where: {
-                userId,
-                exerciseId: setData.exerciseId,
-                recordType: { not: recordType },
-              },
-              select: { recordType: true },
-            })
-            const dominated = isDominatedByExistingPR(
+          await tx.personalRecordHistory.create({
+            data: {
+              userId,
+              exerciseId: setData.exerciseId,
               recordType,
-              otherPRs.map((p) => p.recordType),
-            )
-
-            if (!dominated) {
-              // Celebrate locally (toast/confetti) only for non-dominated PRs
-              prResult = {
-                isNewPR: true,
-                newRecord: prScore,
-                previousRecord: previousRecord ?? undefined,
-                recordType,
-                weight: rawWeight > 0 ? rawWeight : undefined,
-                weightUnit: setData.weightUnit ?? ('KG' as WeightUnit),
-                reps: reps > 0 ? reps : undefined,
-                timeSeconds: time > 0 ? time : undefined,
-              }
-
-              // Create activity feed item for PR achieved
-              await tx.activityFeedItem.create({
-                data: {
-                  userId,
-                  activityType: 'PR_ACHIEVED',
-                  referenceId: newPR.id,
-                  metadata: {
-                    exerciseName: workoutSet.exercise.name,
-                    recordType,
-                    value: prScore,
-                    weight: rawWeight > 0 ? rawWeight : null,
-                    weightUnit: setData.weightUnit ?? 'KG',
-                    reps: reps > 0 ? reps : null,
-                    timeSeconds: time > 0 ? time : null,
-                  },
-                },
-              })
-            }
+              value: prScore,
+              previousValue: existingPR?.value ?? null,
+              workoutSetId: workoutSet.id,
+              achievedAt: completedAt,
+            },
+          })
+
+          // Check if this PR type is dominated by a higher-priority
+          // PR that already exists (e.g., MAX_REPS when MAX_VOLUME exists).
+          // Still save the record (above), but skip celebration.
+          const otherPRs = await tx.personalRecord.findMany({
+            where: {
+              userId,
+              exerciseId: setData.exerciseId,
+              recordType: { not: recordType },
+            },
+            select: { recordType: true },
+          })
+          const dominated = isDominatedByExistingPR(
+            recordType,
+            otherPRs.map((p) => p.recordType),
+          )
+
+          if (!dominated) {
+            celebrated.push({
+              id: newPR.id,
+              recordType,
+              value: prScore,
+              previousRecord,
+              achievedAt: completedAt,
+            })
+          }
+        }
+
+        // A set can break several records at once (a lift's volume, rep max
+        // and e1RM, or a cardio set's distance and times); celebrate the
+        // headline one
+        const headline = selectDisplayPR(celebrated)
+        if (headline) {
+          // Celebrate locally (toast/confetti) only for non-dominated PRs
+          prResult = {
+            isNewPR: true,
+            newRecord: headline.value,
+            previousRecord: headline.previousRecord ?? undefined,
+            recordType: headline.recordType,
+            weight: rawWeight > 0 ? rawWeight : undefined,
+            weightUnit: setData.weightUnit ?? ('KG' as WeightUnit),
+            reps: reps > 0 ? reps : undefined,
+            timeSeconds: time > 0 ? time : undefined,
+            distance: distance > 0 ? distance : undefined,
+            distanceUnit: workoutSet.distanceUnit,
           }
+
+          // Create activity feed item for PR achieved
+          await tx.activityFeedItem.create({
+            data: {
+              userId,
+              activityType: 'PR_ACHIEVED',
+              referenceId: headline.id,
+              createdAt: completedAt,
+              metadata: {
+                exerciseName: workoutSet.exercise.name,
+                recordType: headline.recordType,
+                value: headline.value,
+                weight: rawWeight > 0 ? rawWeight : null,
+                weightUnit: setData.weightUnit ?? 'KG',
+                reps: reps > 0 ? reps : null,
+                timeSeconds: time > 0 ? time : null,
+                distance: distance > 0 ? distance : null,
+                distanceUnit: workoutSet.distanceUnit,
+              },
+            },
+          })
         }
       }
 
@@ -707,18 +1642,24 @@ export const logWorkoutSet = createServerFn({ method: 'POST' })
 // Update a logged set
 export const updateWorkoutSet = createServerFn({ method: 'POST' })
   .inputValidator(
-    (data: {
-      id: string
-      reps?: number
-      timeSeconds?: number
-      weight?: number
-      weightUnit?: WeightUnit
-      isWarmup?: boolean
-      isDropset?: boolean
-      rpe?: number
-      notes?: string
-      token: string | null
-    }) => data,
+    (
+      data: {
+        id: string
+        reps?: number
+        timeSeconds?: number
+        weight?: number
+        weightUnit?: WeightUnit
+        distanceUnit?: DistanceUnit
+        isWarmup?: boolean
+        isDropset?: boolean
+        rpe?: number
+        notes?: string
+        token: string | null
+      } & CardioValues,
+    ) => {
+      validateCardioValues(data)
+      return data
+    },
   )
   .handler(async ({ data }) => {
     const { userId } = await requireAuth(data.token)
@@ -838,6 +1779,12 @@ export const getWorkoutSession = createServerFn({ method: 'GET' })
             },
           },
         },
+        substitutions: {
+          select: {
+            exerciseId: true,
+            planExercise: { select: { exercise: { select: { name: true } } } },
+          },
+        },
       },
     })
 
@@ -963,6 +1910,8 @@ export const getLastExerciseSets = createServerFn({ method: 'GET' })
             timeSeconds: true,
             rpe: true,
             weightUnit: true,
+            distance: true,
+            distanceUnit: true,
           },
         },
       },
@@ -1049,7 +1998,57 @@ export const getMonthlyWorkoutDays = createServerFn({ method: 'GET' })
       })
     }
 
-    return { dayMap }
+    // Days the active plan schedules this month, and whether they were trained
+    const activePlan = await prisma.workoutPlan.findFirst({
+      where: { userId, isActive: true, scheduleType: { not: null } },
+      select: {
+        id: true,
+        name: true,
+        scheduleType: true,
+        rotationDaysOn: true,
+        rotationDaysOff: true,
+        scheduleStartDate: true,
+        planDays: {
+          select: {
+            id: true,
+            name: true,
+            dayOrder: true,
+            restDay: true,
+            weekday: true,
+          },
+        },
+      },
+    })
+
+    const plannedDays: Record<
+      number,
+      { planDayId: string; name: string; status: ScheduledDayStatus }
+    > = {}
+    if (!activePlan) return { dayMap, plannedDays, schedule: null }
+
+    const lastDay = new Date(data.year, data.month, 0)
+    const calendar = await getPlanCalendar(
+      userId,
+      activePlan,
+      startDate,
+      lastDay,
+    )
+    for (const { date, day, status } of calendar) {
+      plannedDays[date.getDate()] = {
+        planDayId: day.id,
+        name: day.name,
+        status,
+      }
+    }
+
+    return {
+      dayMap,
+      plannedDays,
+      schedule: {
+        planName: activePlan.name,
+        adherence: await getPlanAdherence(userId, activePlan),
+      },
+    }
   })
 
 // ============================================
@@ -13,6 +13,7 @@ import { Route as StatsRouteImport } from './routes/stats'
 import { Route as RegisterRouteImport } from './routes/register'
 import { Route as PrsRouteImport } from './routes/prs'
 import { Route as NotificationsRouteImport } from './routes/notifications'
+import { Route as MeasurementsRouteImport } from './routes/measurements'
 import { Route as LoginRouteImport } from './routes/login'
 import { Route as LeaderboardsRouteImport } from './routes/leaderboards'
 import { Route as HistoryRouteImport } from './routes/history'
@@ -27,12 +28,14 @@ import { Route as ProfileIndexRouteImport } from './routes/profile/index'
 import { Route as PlansIndexRouteImport } from './routes/plans/index'
 import { Route as ExercisesIndexRouteImport } from './routes/exercises/index'
 import { Route as ChallengesIndexRouteImport } from './routes/challenges/index'
+import { Route as WorkoutLogPastRouteImport } from './routes/workout/log-past'
 import { Route as WorkoutActiveRouteImport } from './routes/workout/active'
 import { Route as UsersSearchRouteImport } from './routes/users/search'
 import { Route as UUsernameRouteImport } from './routes/u/$username'
 import { Route as ProgressExerciseIdRouteImport } from './routes/progress.$exerciseId'
 import { Route as ProfileSetupRouteImport } from './routes/profile/setup'
 import { Route as ProfileSettingsRouteImport } from './routes/profile/settings'
+import { Route as ProfileExercisesAdminRouteImport } from './routes/profile/exercises-admin'
 import { Route as ProfileEditRouteImport } from './routes/profile/edit'
 import { Route as ProfileAchievementsAdminRouteImport } from './routes/profile/achievements-admin'
 import { Route as PlansNewRouteImport } from './routes/plans/new'
@@ -64,6 +67,11 @@ const NotificationsRoute = NotificationsRouteImport.update({
   path: '/notifications',
   getParentRoute: () => rootRouteImport,
 } as any)
+const MeasurementsRoute = MeasurementsRouteImport.update({
+  id: '/measurements',
+  path: '/measurements',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const LoginRoute = LoginRouteImport.update({
   id: '/login',
   path: '/login',
@@ -134,6 +142,11 @@ const ChallengesIndexRoute = ChallengesIndexRouteImport.update({
   path: '/challenges/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const WorkoutLogPastRoute = WorkoutLogPastRouteImport.update({
+  id: '/workout/log-past',
+  path: '/workout/log-past',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const WorkoutActiveRoute = WorkoutActiveRouteImport.update({
   id: '/workout/active',
   path: '/workout/active',
@@ -164,6 +177,11 @@ const ProfileSettingsRoute = ProfileSettingsRouteImport.update({
   path: '/profile/settings',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ProfileExercisesAdminRoute = ProfileExercisesAdminRouteImport.update({
+  id: '/profile/exercises-admin',
+  path: '/profile/exercises-admin',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ProfileEditRoute = ProfileEditRouteImport.update({
   id: '/profile/edit',
   path: '/profile/edit',
@@ -226,6 +244,7 @@ export interface FileRoutesByFullPath {
   '/history': typeof HistoryRoute
   '/leaderboards': typeof LeaderboardsRoute
   '/login': typeof LoginRoute
+  '/measurements': typeof MeasurementsRoute
   '/notifications': typeof NotificationsRoute
   '/prs': typeof PrsRoute
   '/register': typeof RegisterRoute
@@ -236,12 +255,14 @@ export interface FileRoutesByFullPath {
   '/plans/new': typeof PlansNewRoute
   '/profile/achievements-admin': typeof ProfileAchievementsAdminRoute
   '/profile/edit': typeof ProfileEditRoute
+  '/profile/exercises-admin': typeof ProfileExercisesAdminRoute
   '/profile/settings': typeof ProfileSettingsRoute
   '/profile/setup': typeof ProfileSetupRoute
   '/progress/$exerciseId': typeof ProgressExerciseIdRoute
   '/u/$username': typeof UUsernameRoute
   '/users/search': typeof UsersSearchRoute
   '/workout/active': typeof WorkoutActiveRoute
+  '/workout/log-past': typeof WorkoutLogPastRoute
   '/challenges': typeof ChallengesIndexRoute
   '/exercises': typeof ExercisesIndexRoute
   '/plans': typeof PlansIndexRoute
@@ -262,6 +283,7 @@ export interface FileRoutesByTo {
   '/history': typeof HistoryRoute
   '/leaderboards': typeof LeaderboardsRoute
   '/login': typeof LoginRoute
+  '/measurements': typeof MeasurementsRoute
   '/notifications': typeof NotificationsRoute
   '/prs': typeof PrsRoute
   '/register': typeof RegisterRoute
@@ -272,12 +294,14 @@ export interface FileRoutesByTo {
   '/plans/new': typeof PlansNewRoute
   '/profile/achievements-admin': typeof ProfileAchievementsAdminRoute
   '/profile/edit': typeof ProfileEditRoute
+  '/profile/exercises-admin': typeof ProfileExercisesAdminRoute
   '/profile/settings': typeof ProfileSettingsRoute
   '/profile/setup': typeof ProfileSetupRoute
   '/progress/$exerciseId': typeof ProgressExerciseIdRoute
   '/u/$username': typeof UUsernameRoute
   '/users/search': typeof UsersSearchRoute
   '/workout/active': typeof WorkoutActiveRoute
+  '/workout/log-past': typeof WorkoutLogPastRoute
   '/challenges': typeof ChallengesIndexRoute
   '/exercises': typeof ExercisesIndexRoute
   '/plans': typeof PlansIndexRoute
@@ -299,6 +323,7 @@ export interface FileRoutesById {
   '/history': typeof HistoryRoute
   '/leaderboards': typeof LeaderboardsRoute
   '/login': typeof LoginRoute
+  '/measurements': typeof MeasurementsRoute
   '/notifications': typeof NotificationsRoute
   '/prs': typeof PrsRoute
   '/register': typeof RegisterRoute
@@ -309,12 +334,14 @@ export interface FileRoutesById {
   '/plans/new': typeof PlansNewRoute
   '/profile/achievements-admin': typeof ProfileAchievementsAdminRoute
   '/profile/edit': typeof ProfileEditRoute
+  '/profile/exercises-admin': typeof ProfileExercisesAdminRoute
   '/profile/settings': typeof ProfileSettingsRoute
   '/profile/setup': typeof ProfileSetupRoute
   '/progress/$exerciseId': typeof ProgressExerciseIdRoute
   '/u/$username': typeof UUsernameRoute
   '/users/search': typeof UsersSearchRoute
   '/workout/active': typeof WorkoutActiveRoute
+  '/workout/log-past': typeof WorkoutLogPastRoute
   '/challenges/': typeof ChallengesIndexRoute
   '/exercises/': typeof ExercisesIndexRoute
   '/plans/': typeof PlansIndexRoute
@@ -337,6 +364,7 @@ export interface FileRouteTypes {
     | '/history'
     | '/leaderboards'
     | '/login'
+    | '/measurements'
     | '/notifications'
     | '/prs'
     | '/register'
@@ -347,12 +375,14 @@ export interface FileRouteTypes {
     | '/plans/new'
     | '/profile/achievements-admin'
     | '/profile/edit'
+    | '/profile/exercises-admin'
     | '/profile/settings'
     | '/profile/setup'
     | '/progress/$exerciseId'
     | '/u/$username'
     | '/users/search'
     | '/workout/active'
+    | '/workout/log-past'
     | '/challenges'
     | '/exercises'
     | '/plans'
@@ -373,6 +403,7 @@ export interface FileRouteTypes {
     | '/history'
     | '/leaderboards'
     | '/login'
+    | '/measurements'
     | '/notifications'
     | '/prs'
     | '/register'
@@ -383,12 +414,14 @@ export interface FileRouteTypes {
     | '/plans/new'
     | '/profile/achievements-admin'
     | '/profile/edit'
+    | '/profile/exercises-admin'
     | '/profile/settings'
     | '/profile/setup'
     | '/progress/$exerciseId'
     | '/u/$username'
     | '/users/search'
     | '/workout/active'
+    | '/workout/log-past'
     | '/challenges'
     | '/exercises'
     | '/plans'
@@ -409,6 +442,7 @@ export interface FileRouteTypes {
     | '/history'
     | '/leaderboards'
     | '/login'
+    | '/measurements'
     | '/notifications'
     | '/prs'
     | '/register'
@@ -419,12 +453,14 @@ export interface FileRouteTypes {
     | '/plans/new'
     | '/profile/achievements-admin'
     | '/profile/edit'
+    | '/profile/exercises-admin'
     | '/profile/settings'
     | '/profile/setup'
     | '/progress/$exerciseId'
     | '/u/$username'
     | '/users/search'
     | '/workout/active'
+    | '/workout/log-past'
     | '/challenges/'
     | '/exercises/'
     | '/plans/'
@@ -446,6 +482,7 @@ export interface RootRouteChildren {
   HistoryRoute: typeof HistoryRoute
   LeaderboardsRoute: typeof LeaderboardsRoute
   LoginRoute: typeof LoginRoute
+  MeasurementsRoute: typeof MeasurementsRoute
   NotificationsRoute: typeof NotificationsRoute
   PrsRoute: typeof PrsRoute
   RegisterRoute: typeof RegisterRoute
@@ -456,12 +493,14 @@ export interface RootRouteChildren {
   PlansNewRoute: typeof PlansNewRoute
   ProfileAchievementsAdminRoute: typeof ProfileAchievementsAdminRoute
   ProfileEditRoute: typeof ProfileEditRoute
+  ProfileExercisesAdminRoute: typeof ProfileExercisesAdminRoute
   ProfileSettingsRoute: typeof ProfileSettingsRoute
   ProfileSetupRoute: typeof ProfileSetupRoute
   ProgressExerciseIdRoute: typeof ProgressExerciseIdRoute
   UUsernameRoute: typeof UUsernameRoute
   UsersSearchRoute: typeof UsersSearchRoute
   WorkoutActiveRoute: typeof WorkoutActiveRoute
+  WorkoutLogPastRoute: typeof WorkoutLogPastRoute
   ChallengesIndexRoute: typeof ChallengesIndexRoute
   ExercisesIndexRoute: typeof ExercisesIndexRoute
   PlansIndexRoute: typeof PlansIndexRoute
@@ -503,6 +542,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof NotificationsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/measurements': {
+      id: '/measurements'
+      path: '/measurements'
+      fullPath: '/measurements'
+      preLoaderRoute: typeof MeasurementsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/login': {
       id: '/login'
       path: '/login'
@@ -601,6 +647,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ChallengesIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/workout/log-past': {
+      id: '/workout/log-past'
+      path: '/workout/log-past'
+      fullPath: '/workout/log-past'
+      preLoaderRoute: typeof WorkoutLogPastRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/workout/active': {
       id: '/workout/active'
       path: '/workout/active'
@@ -643,6 +696,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ProfileSettingsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/profile/exercises-admin': {
+      id: '/profile/exercises-admin'
+      path: '/profile/exercises-admin'
+      fullPath: '/profile/exercises-admin'
+      preLoaderRoute: typeof ProfileExercisesAdminRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/profile/edit': {
       id: '/profile/edit'
       path: '/profile/edit'
@@ -726,6 +786,7 @@ const rootRouteChildren: RootRouteChildren = {
   HistoryRoute: HistoryRoute,
   LeaderboardsRoute: LeaderboardsRoute,
   LoginRoute: LoginRoute,
+  MeasurementsRoute: MeasurementsRoute,
   NotificationsRoute: NotificationsRoute,
   PrsRoute: PrsRoute,
   RegisterRoute: RegisterRoute,
@@ -736,12 +797,14 @@ const rootRouteChildren: RootRouteChildren = {
   PlansNewRoute: PlansNewRoute,
   ProfileAchievementsAdminRoute: ProfileAchievementsAdminRoute,
   ProfileEditRoute: ProfileEditRoute,
+  ProfileExercisesAdminRoute: ProfileExercisesAdminRoute,
   ProfileSettingsRoute: ProfileSettingsRoute,
   ProfileSetupRoute: ProfileSetupRoute,
   ProgressExerciseIdRoute: ProgressExerciseIdRoute,
   UUsernameRoute: UUsernameRoute,
   UsersSearchRoute: UsersSearchRoute,
   WorkoutActiveRoute: WorkoutActiveRoute,
+  WorkoutLogPastRoute: WorkoutLogPastRoute,
   ChallengesIndexRoute: ChallengesIndexRoute,
   ExercisesIndexRoute: ExercisesIndexRoute,
   PlansIndexRoute: PlansIndexRoute,
@@ -755,12 +818,3 @@ const rootRouteChildren: RootRouteChildren = {
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
   ._addFileTypes<FileRouteTypes>()
-
-import type { getRouter } from './router.tsx'
-import type { createStart } from '@tanstack/react-start'
-declare module '@tanstack/react-start' {
-  interface Register {
-    ssr: true
-    router: Awaited<ReturnType<typeof getRouter>>
-  }
-}
@@ -6,11 +6,13 @@ import {
 } from '@tanstack/react-router'
 import { TanStackRouterDevtoolsPanel } from '@tanstack/react-router-devtools'
 import { TanStackDevtools } from '@tanstack/react-devtools'
+import { useEffect } from 'react'
 
 import appCss from '../styles.css?url'
 import { AuthProvider } from '@/context/AuthContext'
 import { ToastProvider } from '@/context/ToastContext'
 import ErrorBoundary from '@/components/ErrorBoundary'
+import StaleSessionPrompt from '@/components/workout/StaleSessionPrompt'
 
 export const Route = createRootRoute({
   head: () => ({
@@ -64,11 +66,21 @@ export const Route = createRootRoute({
 })
 
 function RootComponent() {
+  // The service worker caches the app shell so workouts open offline
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production') return
+    if (!('serviceWorker' in navigator)) return
+    navigator.serviceWorker.register('/sw.js').catch((error: unknown) => {
+      console.error('Service worker registration failed:', error)
+    })
+  }, [])
+
   return (
     <ErrorBoundary>
       <AuthProvider initialUser={null}>
         <ToastProvider>
           <Outlet />
+          <StaleSessionPrompt />
         </ToastProvider>
       </AuthProvider>
     </ErrorBoundary>
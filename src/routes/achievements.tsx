@@ -1,7 +1,12 @@
 import { createFileRoute, useRouter } from '@tanstack/react-router'
 import { useEffect, useState } from 'react'
 import { ArrowLeft } from 'lucide-react'
-import type { AchievementCategory, AchievementRarity } from '@prisma/client'
+import type {
+  AchievementCategory,
+  AchievementRarity,
+  ExerciseAchievementMetric,
+} from '@prisma/client'
+import type { AchievementProgress } from '@/lib/achievement-rules'
 import { useAuth } from '@/context/AuthContext'
 import { AchievementGrid } from '@/components/achievements'
 import { getUserAchievements } from '@/lib/achievements.server'
@@ -21,6 +26,7 @@ interface Achievement {
   threshold: number
   sortOrder: number
   isHidden: boolean
+  exerciseMetric: ExerciseAchievementMetric | null
 }
 
 interface UserAchievement {
@@ -38,6 +44,9 @@ function AchievementsPage() {
     Array<UserAchievement>
   >([])
   const [earnedSet, setEarnedSet] = useState<Set<string>>(new Set())
+  const [progress, setProgress] = useState<
+    Partial<Record<string, AchievementProgress>>
+  >({})
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -45,10 +54,13 @@ function AchievementsPage() {
       if (!user?.id) return
 
       try {
-        const result = await getUserAchievements({ data: { token } })
+        const result = await getUserAchievements({
+          data: { token, includeProgress: true },
+        })
         setAchievements(result.all)
         setEarnedAchievements(result.earned)
         setEarnedSet(new Set(result.earnedSet))
+        setProgress(result.progress)
       } catch (error) {
         console.error('Failed to load achievements:', error)
       } finally {
@@ -136,6 +148,7 @@ function AchievementsPage() {
           allAchievements={achievements}
           earnedAchievements={earnedAchievements}
           earnedSet={earnedSet}
+          progress={progress}
         />
       </div>
     </div>
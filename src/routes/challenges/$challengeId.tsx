@@ -5,6 +5,7 @@ import {
   Check,
   Clock,
   Crown,
+  Flame,
   Loader2,
   Medal,
   Share2,
@@ -12,7 +13,11 @@ import {
   Trophy,
   Users,
 } from 'lucide-react'
-import type { ChallengeStatus, ChallengeType } from '@prisma/client'
+import type {
+  ChallengeStatus,
+  ChallengeType,
+  StreakPeriod,
+} from '@prisma/client'
 import { useAuth } from '@/context/AuthContext'
 import {
   getChallengeDetails,
@@ -39,6 +44,7 @@ interface ParticipantData {
   progress: number
   completedAt: Date | null
   rank: number
+  streak: { current: number; best: number } | null
   user: { id: string; name: string }
   profile?: { username: string; avatarUrl: string | null }
 }
@@ -48,6 +54,7 @@ interface ChallengeData {
   name: string
   description: string | null
   challengeType: ChallengeType
+  streakPeriod: StreakPeriod
   targetValue: number
   status: ChallengeStatus
   startDate: Date
@@ -69,6 +76,7 @@ function ChallengeDetailPage() {
   const [challenge, setChallenge] = useState<ChallengeData | null>(null)
   const [isParticipating, setIsParticipating] = useState(false)
   const [userProgress, setUserProgress] = useState(0)
+  const [userFinalRank, setUserFinalRank] = useState<number | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isJoining, setIsJoining] = useState(false)
   const [copied, setCopied] = useState(false)
@@ -84,6 +92,7 @@ function ChallengeDetailPage() {
         setChallenge(result.challenge as ChallengeData)
         setIsParticipating(!!result.userParticipation)
         setUserProgress(result.userParticipation?.progress ?? 0)
+        setUserFinalRank(result.userParticipation?.finalRank ?? null)
       }
     } catch (error) {
       console.error('Failed to load challenge:', error)
@@ -138,14 +147,17 @@ function ChallengeDetailPage() {
     })
   }
 
-  const getChallengeTypeLabel = (type: ChallengeType) => {
+  const getChallengeTypeLabel = (
+    type: ChallengeType,
+    streakPeriod: StreakPeriod,
+  ) => {
     switch (type) {
       case 'TOTAL_WORKOUTS':
         return 'Total Workouts'
       case 'TOTAL_VOLUME':
         return 'Total Volume'
       case 'WORKOUT_STREAK':
-        return 'Day Streak'
+        return streakPeriod === 'WEEKLY' ? 'Week Streak' : 'Day Streak'
       case 'SPECIFIC_EXERCISE':
         return 'Exercise Volume'
       case 'TOTAL_SETS':
@@ -298,6 +310,9 @@ function ChallengeDetailPage() {
 
   const progress = (userProgress / challenge.targetValue) * 100
   const isCreator = user?.id === challenge.creatorId
+  const userStreak =
+    challenge.participants.find((p) => p.userId === user?.id)?.streak ?? null
+  const streakUnit = challenge.streakPeriod === 'WEEKLY' ? 'week' : 'day'
 
   return (
     <AppLayout showNav={false}>
@@ -354,7 +369,10 @@ function ChallengeDetailPage() {
               {challenge.targetValue}
             </p>
             <p className="text-xs text-zinc-500">
-              {getChallengeTypeLabel(challenge.challengeType)}
+              {getChallengeTypeLabel(
+                challenge.challengeType,
+                challenge.streakPeriod,
+              )}
               {challenge.exercise && ` - ${challenge.exercise.name}`}
             </p>
           </div>
@@ -403,6 +421,30 @@ function ChallengeDetailPage() {
                 style={{ width: `${Math.min(100, progress)}%` }}
               />
             </div>
+            {userStreak && (
+              <div className="grid grid-cols-2 gap-3 mt-3">
+                <div className="flex items-center gap-2">
+                  <Flame className="w-4 h-4 text-orange-400" />
+                  <div>
+                    <p className="text-white font-medium">
+                      {userStreak.current} {streakUnit}
+                      {userStreak.current === 1 ? '' : 's'}
+                    </p>
+                    <p className="text-xs text-zinc-500">Current streak</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Trophy className="w-4 h-4 text-yellow-500" />
+                  <div>
+                    <p className="text-white font-medium">
+                      {userStreak.best} {streakUnit}
+                      {userStreak.best === 1 ? '' : 's'}
+                    </p>
+                    <p className="text-xs text-zinc-500">Best streak</p>
+                  </div>
+                </div>
+              </div>
+            )}
             {progress >= 100 && (
               <div className="flex items-center gap-2 mt-2 text-green-400">
                 <Trophy className="w-4 h-4" />
@@ -412,6 +454,31 @@ function ChallengeDetailPage() {
           </div>
         )}
 
+        {/* Final Placement */}
+        {isParticipating &&
+          challenge.status === 'COMPLETED' &&
+          userFinalRank !== null && (
+            <div
+              className="bg-zinc-800/50 rounded-xl border border-zinc-700/50 p-4 mb-6 flex items-center gap-3 animate-fade-in"
+              style={{
+                animationDelay: '150ms',
+                animationFillMode: 'backwards',
+              }}
+            >
+              {getRankBadge(userFinalRank)}
+              <div>
+                <p className="text-white font-medium">
+                  You finished #{userFinalRank} of{' '}
+                  {challenge.participants.length}
+                </p>
+                <p className="text-sm text-zinc-400">
+                  Final progress: {Math.round(userProgress)} /{' '}
+                  {challenge.targetValue}
+                </p>
+              </div>
+            </div>
+          )}
+
         {/* Actions */}
         <div
           className="flex gap-2 mb-6 animate-fade-in"
@@ -521,6 +588,12 @@ function ChallengeDetailPage() {
                       <p className="font-bold text-white">
                         {Math.round(participant.progress)}
                       </p>
+                      {participant.streak && (
+                        <p className="flex items-center justify-end gap-0.5 text-xs text-orange-400">
+                          <Flame className="w-3 h-3" />
+                          {participant.streak.current}
+                        </p>
+                      )}
                       {participant.completedAt && (
                         <Trophy className="w-4 h-4 text-yellow-500" />
                       )}
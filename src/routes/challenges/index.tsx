@@ -10,7 +10,11 @@ import {
   Trophy,
   Users,
 } from 'lucide-react'
-import type { ChallengeStatus, ChallengeType } from '@prisma/client'
+import type {
+  ChallengeStatus,
+  ChallengeType,
+  StreakPeriod,
+} from '@prisma/client'
 import { useAuth } from '@/context/AuthContext'
 import {
   getPublicChallenges,
@@ -30,6 +34,7 @@ interface ChallengeData {
   name: string
   description: string | null
   challengeType: ChallengeType
+  streakPeriod: StreakPeriod
   targetValue: number
   status: ChallengeStatus
   startDate: Date
@@ -46,6 +51,7 @@ interface PublicChallengeData {
   name: string
   description: string | null
   challengeType: ChallengeType
+  streakPeriod: StreakPeriod
   targetValue: number
   status: ChallengeStatus
   startDate: Date
@@ -130,14 +136,17 @@ function ChallengesPage() {
     }
   })
 
-  const getChallengeTypeLabel = (type: ChallengeType) => {
+  const getChallengeTypeLabel = (
+    type: ChallengeType,
+    streakPeriod: StreakPeriod,
+  ) => {
     switch (type) {
       case 'TOTAL_WORKOUTS':
         return 'Workouts'
       case 'TOTAL_VOLUME':
         return 'Volume (kg)'
       case 'WORKOUT_STREAK':
-        return 'Day Streak'
+        return streakPeriod === 'WEEKLY' ? 'Week Streak' : 'Day Streak'
       case 'SPECIFIC_EXERCISE':
         return 'Exercise Volume'
       case 'TOTAL_SETS':
@@ -307,9 +316,11 @@ function ChallengesPage() {
                   <div className="flex items-center gap-4 text-sm text-zinc-500 mb-3">
                     <div className="flex items-center gap-1">
                       <Target className="w-4 h-4" />
-                      {getChallengeTypeLabel(challenge.challengeType)}
-                      {challenge.exercise &&
-                        ` - ${challenge.exercise.name}`}:{' '}
+                      {getChallengeTypeLabel(
+                        challenge.challengeType,
+                        challenge.streakPeriod,
+                      )}
+                      {challenge.exercise && ` - ${challenge.exercise.name}`}:{' '}
                       {challenge.targetValue}
                     </div>
                     <div className="flex items-center gap-1">
@@ -378,7 +389,10 @@ function ChallengesPage() {
                   <div className="mb-3">
                     <div className="flex justify-between text-sm mb-1">
                       <span className="text-zinc-400">
-                        {getChallengeTypeLabel(challenge.challengeType)}
+                        {getChallengeTypeLabel(
+                          challenge.challengeType,
+                          challenge.streakPeriod,
+                        )}
                         {challenge.exercise && ` - ${challenge.exercise.name}`}
                       </span>
                       <span className="text-white">
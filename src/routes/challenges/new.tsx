@@ -1,10 +1,10 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useEffect, useRef, useState } from 'react'
 import { ArrowLeft, Loader2, Search, X } from 'lucide-react'
-import type { ChallengeType, Exercise } from '@prisma/client'
+import type { ChallengeType, Exercise, StreakPeriod } from '@prisma/client'
 import { useAuth } from '@/context/AuthContext'
 import { createChallenge } from '@/lib/challenges.server'
-import { getExercises } from '@/lib/exercises.server'
+import { getAllExercises } from '@/lib/exercises.server'
 import AppLayout from '@/components/AppLayout'
 
 export const Route = createFileRoute('/challenges/new')({
@@ -19,6 +19,7 @@ function NewChallengePage() {
   const [description, setDescription] = useState('')
   const [challengeType, setChallengeType] =
     useState<ChallengeType>('TOTAL_WORKOUTS')
+  const [streakPeriod, setStreakPeriod] = useState<StreakPeriod>('DAILY')
   const [targetValue, setTargetValue] = useState('')
   const [startDate, setStartDate] = useState(() => {
     const d = new Date()
@@ -50,7 +51,11 @@ function NewChallengePage() {
     { value: 'TOTAL_WORKOUTS', label: 'Total Workouts', unit: 'workouts' },
     { value: 'TOTAL_VOLUME', label: 'Total Volume', unit: 'kg' },
     { value: 'TOTAL_SETS', label: 'Total Sets', unit: 'sets' },
-    { value: 'WORKOUT_STREAK', label: 'Workout Streak', unit: 'days' },
+    {
+      value: 'WORKOUT_STREAK',
+      label: 'Workout Streak',
+      unit: streakPeriod === 'WEEKLY' ? 'weeks' : 'days',
+    },
     {
       value: 'SPECIFIC_EXERCISE',
       label: 'Specific Exercise',
@@ -61,11 +66,11 @@ function NewChallengePage() {
   // Fetch exercises when SPECIFIC_EXERCISE is selected
   useEffect(() => {
     if (challengeType === 'SPECIFIC_EXERCISE' && exercises.length === 0) {
-      getExercises({ data: { userId: user?.id } }).then((result) => {
+      getAllExercises({ data: { token } }).then((result) => {
         setExercises(result.exercises)
       })
     }
-  }, [challengeType, user?.id, exercises.length])
+  }, [challengeType, exercises.length, token])
 
   // Filter exercises based on search
   const filteredExercises = exercises.filter((ex) =>
@@ -91,6 +96,8 @@ function NewChallengePage() {
           targetValue: parseFloat(targetValue),
           exerciseId:
             challengeType === 'SPECIFIC_EXERCISE' ? exerciseId : undefined,
+          streakPeriod:
+            challengeType === 'WORKOUT_STREAK' ? streakPeriod : undefined,
           startDate,
           endDate,
           isPublic,
@@ -196,6 +203,45 @@ function NewChallengePage() {
             </div>
           </div>
 
+          {/* Streak Period (for WORKOUT_STREAK type) */}
+          {challengeType === 'WORKOUT_STREAK' && (
+            <div>
+              <label className="block text-sm text-zinc-400 mb-2">
+                Count Consecutive
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {(
+                  [
+                    {
+                      value: 'DAILY',
+                      label: 'Days',
+                      hint: 'Workout every day',
+                    },
+                    {
+                      value: 'WEEKLY',
+                      label: 'Weeks',
+                      hint: 'At least one workout a week',
+                    },
+                  ] as const
+                ).map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setStreakPeriod(option.value)}
+                    className={`p-3 rounded-lg text-left transition-colors ${
+                      streakPeriod === option.value
+                        ? 'bg-blue-600/20 border-2 border-blue-500'
+                        : 'bg-zinc-800 border border-zinc-700 hover:bg-zinc-700/30'
+                    }`}
+                  >
+                    <p className="font-medium text-white">{option.label}</p>
+                    <p className="text-xs text-zinc-500">{option.hint}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Exercise Selector (for SPECIFIC_EXERCISE type) */}
           {challengeType === 'SPECIFIC_EXERCISE' && (
             <div>
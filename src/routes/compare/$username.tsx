@@ -7,6 +7,7 @@ import {
   Loader2,
   Lock,
   Medal,
+  Scale,
   Trophy,
   Zap,
 } from 'lucide-react'
@@ -38,7 +39,7 @@ const muscleGroupOrder: Array<MuscleGroup> = [
 
 function ComparePage() {
   const { username } = Route.useParams()
-  const { user, token } = useAuth()
+  const { user, token, preferences } = useAuth()
   const router = useRouter()
 
   const [data, setData] = useState<ComparisonData | null>(null)
@@ -132,8 +133,14 @@ function ComparePage() {
               <CompareStatRow
                 icon={Flame}
                 label="Volume"
-                leftValue={formatVolume(data.me.stats.totalVolume)}
-                rightValue={formatVolume(data.them.stats.totalVolume)}
+                leftValue={formatVolume(
+                  data.me.stats.totalVolume,
+                  preferences.weightUnit,
+                )}
+                rightValue={formatVolume(
+                  data.them.stats.totalVolume,
+                  preferences.weightUnit,
+                )}
                 leftRaw={data.me.stats.totalVolume}
                 rightRaw={data.them.stats.totalVolume}
               />
@@ -151,6 +158,17 @@ function ComparePage() {
                 leftRaw={data.me.stats.currentStreak}
                 rightRaw={data.them.stats.currentStreak}
               />
+              {(data.me.stats.dots !== null ||
+                data.them.stats.dots !== null) && (
+                <CompareStatRow
+                  icon={Scale}
+                  label="DOTS"
+                  leftValue={data.me.stats.dots?.toFixed(1) ?? '-'}
+                  rightValue={data.them.stats.dots?.toFixed(1) ?? '-'}
+                  leftRaw={data.me.stats.dots ?? 0}
+                  rightRaw={data.them.stats.dots ?? 0}
+                />
+              )}
             </div>
 
             {/* PR comparison summary */}
@@ -181,7 +199,12 @@ function ComparePage() {
                     </div>
                     <div className="rounded-xl bg-zinc-800/50 border border-zinc-700/50 divide-y divide-zinc-700/50">
                       {prs.map((pr) => (
-                        <ComparePRCard key={pr.exerciseId} pr={pr} />
+                        <ComparePRCard
+                          key={pr.exerciseId}
+                          pr={pr}
+                          weightUnit={preferences.weightUnit}
+                          distanceUnit={preferences.distanceUnit}
+                        />
                       ))}
                     </div>
                   </section>
@@ -1,4 +1,5 @@
 import {
+  Link,
   createFileRoute,
   useLocation,
   useNavigate,
@@ -12,13 +13,23 @@ import {
   TrendingUp,
   Trophy,
 } from 'lucide-react'
-import type { MuscleGroup } from '@prisma/client'
+import type {
+  AchievementCategory,
+  AchievementRarity,
+  ExerciseAchievementMetric,
+  MuscleGroup,
+} from '@prisma/client'
 import type { RecentWorkout } from '@/components/workout/RecentWorkoutsList'
+import type { AchievementProgress } from '@/lib/achievement-rules'
 import { useAuth } from '@/context/AuthContext'
 import AppLayout from '@/components/AppLayout'
 import { SkeletonCard, SkeletonStatsCard } from '@/components/ui/Skeleton'
 import MuscleGroupBadge from '@/components/exercises/MuscleGroupBadge'
 import RecentWorkoutsList from '@/components/workout/RecentWorkoutsList'
+import {
+  AchievementBadge,
+  AchievementProgressBar,
+} from '@/components/achievements'
 import {
   getActiveSession,
   getRecentWorkouts,
@@ -28,7 +39,14 @@ import {
   getDashboardStats,
   getNextWorkoutSuggestion,
 } from '@/lib/dashboard.server'
-import { formatElapsedTime, formatVolume } from '@/lib/formatting'
+import { getClosestAchievements } from '@/lib/achievements.server'
+import { getAchievementUnit } from '@/lib/achievement-rules'
+import { formatElapsedTime, formatTime, formatVolume } from '@/lib/formatting'
+import { formatRepTarget } from '@/lib/plan-targets'
+import { formatBlockWeek } from '@/lib/plan-weeks'
+import { WEEKDAY_LABELS, getIsoWeekday } from '@/lib/plan-schedule'
+import { toDateString } from '@/lib/date-utils'
+import { WEIGHT_UNIT_LABELS } from '@/lib/weight-utils'
 
 export const Route = createFileRoute('/dashboard')({
   component: DashboardPage,
@@ -55,11 +73,60 @@ type WorkoutSuggestion = {
   dayName: string
   dayOrder: number
   exerciseCount: number
-  exercises: Array<{ id: string; name: string; muscleGroup: MuscleGroup }>
+  // The date the plan's schedule puts this day on, if it has one
+  scheduledFor: Date | null
+  // This week of the plan's training block, if it runs in blocks
+  block: {
+    weekNumber: number
+    blockWeeks: number
+    isDeload: boolean
+    changes: string | null
+  } | null
+  exercises: Array<{
+    id: string
+    name: string
+    muscleGroup: MuscleGroup
+    targetSets: number
+    targetReps: number | null
+    targetRepsMax: number | null
+    targetTimeSeconds: number | null
+  }>
+}
+
+/** "Today's Workout", or when a scheduled plan next trains */
+function formatSuggestionDay(scheduledFor: Date | null): string {
+  if (!scheduledFor) return "Today's Workout"
+  const date = new Date(scheduledFor)
+  if (toDateString(date) === toDateString(new Date())) return "Today's Workout"
+  return `Next Workout · ${WEEKDAY_LABELS[getIsoWeekday(date)]}`
+}
+
+/** e.g. "4 × 8-12", with the week's adjustments already applied */
+function formatSuggestedTarget(
+  exercise: WorkoutSuggestion['exercises'][number],
+): string {
+  const { targetSets, targetReps, targetTimeSeconds } = exercise
+  if (targetTimeSeconds)
+    return `${targetSets} × ${formatTime(targetTimeSeconds)}`
+  if (targetReps) {
+    return `${targetSets} × ${formatRepTarget(targetReps, exercise.targetRepsMax)}`
+  }
+  return `${targetSets} sets`
+}
+
+type ClosestAchievement = {
+  id: string
+  name: string
+  icon: string
+  rarity: AchievementRarity
+  category: AchievementCategory
+  threshold: number
+  exerciseMetric: ExerciseAchievementMetric | null
+  progress: AchievementProgress
 }
 
 function DashboardPage() {
-  const { user, token } = useAuth()
+  const { user, token, preferences } = useAuth()
   const navigate = useNavigate()
   const location = useLocation()
 
@@ -68,6 +135,9 @@ function DashboardPage() {
   const [activeSession, setActiveSession] = useState<ActiveSession | null>(null)
   const [suggestion, setSuggestion] = useState<WorkoutSuggestion | null>(null)
   const [recentWorkouts, setRecentWorkouts] = useState<Array<RecentWorkout>>([])
+  const [closestAchievements, setClosestAchievements] = useState<
+    Array<ClosestAchievement>
+  >([])
   const [startingWorkout, setStartingWorkout] = useState(false)
   const [greeting, setGreeting] = useState('Welcome')
 
@@ -77,18 +147,25 @@ function DashboardPage() {
       if (!user) return
 
       try {
-        const [statsResult, sessionResult, suggestionResult, recentResult] =
-          await Promise.all([
-            getDashboardStats({ data: { token } }),
-            getActiveSession({ data: { token } }),
-            getNextWorkoutSuggestion({ data: { token } }),
-            getRecentWorkouts({ data: { token, limit: 3 } }),
-          ])
+        const [
+          statsResult,
+          sessionResult,
+          suggestionResult,
+          recentResult,
+          closestResult,
+        ] = await Promise.all([
+          getDashboardStats({ data: { token } }),
+          getActiveSession({ data: { token } }),
+          getNextWorkoutSuggestion({ data: { token } }),
+          getRecentWorkouts({ data: { token, limit: 3 } }),
+          getClosestAchievements({ data: { token, limit: 3 } }),
+        ])
 
         setStats(statsResult.stats)
         setActiveSession(sessionResult.session)
         setSuggestion(suggestionResult.suggestion)
         setRecentWorkouts(recentResult.workouts)
+        setClosestAchievements(closestResult.achievements)
       } catch (error) {
         console.error('Failed to fetch dashboard data:', error)
       } finally {
@@ -204,7 +281,9 @@ function DashboardPage() {
               <div className="p-4 rounded-xl bg-gradient-to-br from-zinc-800 to-zinc-800/50 border border-zinc-700/50">
                 <div className="flex items-center justify-between mb-3">
                   <div>
-                    <p className="text-sm text-zinc-500">Today's Workout</p>
+                    <p className="text-sm text-zinc-500">
+                      {formatSuggestionDay(suggestion.scheduledFor)}
+                    </p>
                     <h3 className="text-lg font-semibold text-white">
                       {suggestion.dayName}
                     </h3>
@@ -212,6 +291,18 @@ function DashboardPage() {
                       {suggestion.planName} · {suggestion.exerciseCount}{' '}
                       exercises
                     </p>
+                    {suggestion.block && (
+                      <p
+                        className={`text-xs mt-0.5 ${suggestion.block.isDeload ? 'text-amber-400' : 'text-blue-400'}`}
+                      >
+                        {formatBlockWeek(
+                          suggestion.block.weekNumber,
+                          suggestion.block.blockWeeks,
+                        )}
+                        {suggestion.block.changes &&
+                          ` · ${suggestion.block.changes}`}
+                      </p>
+                    )}
                   </div>
                   <button
                     onClick={handleStartSuggestion}
@@ -236,6 +327,9 @@ function DashboardPage() {
                         className="flex items-center gap-1.5 px-2 py-1 bg-zinc-700/50 rounded-lg"
                       >
                         <span className="text-sm text-zinc-300">{ex.name}</span>
+                        <span className="text-xs text-zinc-500">
+                          {formatSuggestedTarget(ex)}
+                        </span>
                         <MuscleGroupBadge muscleGroup={ex.muscleGroup} />
                       </div>
                     ))}
@@ -289,8 +383,11 @@ function DashboardPage() {
                 <StatCard
                   icon={<TrendingUp className="w-5 h-5" />}
                   label="Volume"
-                  value={formatVolume(stats?.totalVolumeThisWeek ?? 0)}
-                  subtext="kg lifted"
+                  value={formatVolume(
+                    stats?.totalVolumeThisWeek ?? 0,
+                    preferences.weightUnit,
+                  )}
+                  subtext={`${WEIGHT_UNIT_LABELS[preferences.weightUnit]} lifted`}
                 />
                 <StatCard
                   icon={<Calendar className="w-5 h-5" />}
@@ -307,6 +404,53 @@ function DashboardPage() {
               </div>
             </div>
 
+            {/* Closest Achievements */}
+            {closestAchievements.length > 0 && (
+              <div
+                className="space-y-3 animate-fade-in"
+                style={{
+                  animationDelay: '150ms',
+                  animationFillMode: 'backwards',
+                }}
+              >
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-semibold text-white">
+                    Almost There
+                  </h2>
+                  <Link
+                    to="/achievements"
+                    className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+                  >
+                    View all &rarr;
+                  </Link>
+                </div>
+                <div className="rounded-xl bg-zinc-800/50 border border-zinc-700/50 divide-y divide-zinc-700/50">
+                  {closestAchievements.map((achievement) => (
+                    <div
+                      key={achievement.id}
+                      className="p-3 flex items-center gap-3"
+                    >
+                      <AchievementBadge
+                        icon={achievement.icon}
+                        rarity={achievement.rarity}
+                        earned={false}
+                        size="sm"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-white truncate mb-1.5">
+                          {achievement.name}
+                        </p>
+                        <AchievementProgressBar
+                          progress={achievement.progress}
+                          unit={getAchievementUnit(achievement)}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Recent Workouts */}
             <div
               className="animate-fade-in"
@@ -1,7 +1,12 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { useEffect, useState } from 'react'
-import { Dumbbell, Pencil, Plus, Trash2 } from 'lucide-react'
-import type { Equipment, Exercise, MuscleGroup } from '@prisma/client'
+import { Dumbbell, Globe, Lock, Pencil, Plus, Trash2 } from 'lucide-react'
+import type {
+  Equipment,
+  Exercise,
+  ExercisePublishStatus,
+  MuscleGroup,
+} from '@prisma/client'
 import type { ExerciseFormData } from '@/components/forms/ExerciseForm'
 import AppLayout from '@/components/AppLayout'
 import SearchInput from '@/components/ui/SearchInput'
@@ -15,6 +20,8 @@ import {
   createExercise,
   deleteExercise,
   getExercises,
+  requestExercisePublish,
+  unpublishExercise,
   updateExercise,
 } from '@/lib/exercises.server'
 import { useAuth } from '@/context/AuthContext'
@@ -24,6 +31,13 @@ export const Route = createFileRoute('/exercises/')({
   component: ExercisesPage,
 })
 
+const PUBLISH_STATUS_LABELS: Record<ExercisePublishStatus, string> = {
+  PRIVATE: 'Only you and your plan collaborators can see this exercise.',
+  PENDING: 'Submitted to the community, waiting for review.',
+  APPROVED: 'Shared with the community.',
+  REJECTED: 'Not approved for the community. You can edit and resubmit it.',
+}
+
 function ExercisesPage() {
   const { user, token } = useAuth()
   const [exercises, setExercises] = useState<Array<Exercise>>([])
@@ -51,7 +65,7 @@ function ExercisesPage() {
             muscleGroup,
             equipment,
             search: search || undefined,
-            userId: user?.id,
+            token,
           },
         })
         setExercises(result.exercises)
@@ -63,7 +77,7 @@ function ExercisesPage() {
     }
 
     fetchExercises()
-  }, [muscleGroup, equipment, search, user?.id])
+  }, [muscleGroup, equipment, search, token])
 
   const refreshExercises = async () => {
     try {
@@ -72,7 +86,7 @@ function ExercisesPage() {
           muscleGroup,
           equipment,
           search: search || undefined,
-          userId: user?.id,
+          token,
         },
       })
       setExercises(result.exercises)
@@ -119,6 +133,24 @@ function ExercisesPage() {
     }
   }
 
+  const handleTogglePublish = async (exercise: Exercise) => {
+    if (!user?.id) return
+
+    setIsUpdating(true)
+    try {
+      const shared =
+        exercise.publishStatus === 'PENDING' ||
+        exercise.publishStatus === 'APPROVED'
+      const result = shared
+        ? await unpublishExercise({ data: { id: exercise.id, token } })
+        : await requestExercisePublish({ data: { id: exercise.id, token } })
+      setSelectedExercise(result.exercise)
+      await refreshExercises()
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
   const handleDeleteExercise = async () => {
     if (!user?.id || !exerciseToEdit) return
 
@@ -152,7 +184,7 @@ function ExercisesPage() {
                 placeholder="Search exercises..."
               />
             </div>
-            {user?.isAdmin && (
+            {user && (
               <button
                 onClick={() => setShowCreateModal(true)}
                 className="px-4 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors"
@@ -262,6 +294,30 @@ function ExercisesPage() {
               </div>
             )}
 
+            {selectedExercise.isCustom &&
+              selectedExercise.userId === user?.id && (
+                <div className="flex items-center gap-3 pt-4 border-t border-zinc-800">
+                  {selectedExercise.publishStatus === 'APPROVED' ? (
+                    <Globe className="w-4 h-4 flex-shrink-0 text-green-400" />
+                  ) : (
+                    <Lock className="w-4 h-4 flex-shrink-0 text-zinc-400" />
+                  )}
+                  <p className="flex-1 text-sm text-zinc-400">
+                    {PUBLISH_STATUS_LABELS[selectedExercise.publishStatus]}
+                  </p>
+                  <button
+                    onClick={() => handleTogglePublish(selectedExercise)}
+                    disabled={isUpdating}
+                    className="px-3 py-2 text-sm font-medium text-blue-400 bg-blue-600/20 rounded-lg hover:bg-blue-600/30 transition-colors disabled:opacity-50"
+                  >
+                    {selectedExercise.publishStatus === 'PENDING' ||
+                    selectedExercise.publishStatus === 'APPROVED'
+                      ? 'Make private'
+                      : 'Publish'}
+                  </button>
+                </div>
+              )}
+
             {selectedExercise.isCustom &&
               selectedExercise.userId === user?.id && (
                 <div className="flex gap-3 pt-4 border-t border-zinc-800">
@@ -2,6 +2,7 @@ import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useCallback, useEffect, useState } from 'react'
 import { ArrowLeft, Calendar, Filter, X } from 'lucide-react'
 import type { MuscleGroup } from '@prisma/client'
+import type { Adherence, ScheduledDayStatus } from '@/lib/plan-schedule'
 import { useAuth } from '@/context/AuthContext'
 import {
   getFilteredWorkouts,
@@ -9,6 +10,7 @@ import {
   getRecentWorkouts,
 } from '@/lib/workouts.server'
 import { getPlans } from '@/lib/plans.server'
+import { ADHERENCE_WINDOW_DAYS } from '@/lib/constants'
 import { SkeletonWorkoutItem } from '@/components/ui/Skeleton'
 import ExpandableWorkoutCard from '@/components/history/ExpandableWorkoutCard'
 import MonthlyCalendar from '@/components/history/MonthlyCalendar'
@@ -74,6 +76,15 @@ type WorkoutDaySummary = {
   }>
 }
 
+type CalendarMonth = {
+  dayMap: Record<number, Array<WorkoutDaySummary>>
+  plannedDays: Record<
+    number,
+    { planDayId: string; name: string; status: ScheduledDayStatus }
+  >
+  schedule: { planName: string; adherence: Adherence | null } | null
+}
+
 type PlanOption = {
   id: string
   name: string
@@ -102,14 +113,16 @@ function HistoryPage() {
   const now = new Date()
   const calendarMonth = searchParams.month ?? now.getMonth() + 1
   const calendarYear = searchParams.year ?? now.getFullYear()
-  const [calendarData, setCalendarData] = useState<
-    Record<number, Array<WorkoutDaySummary>>
-  >({})
+  const [calendarData, setCalendarData] = useState<CalendarMonth>({
+    dayMap: {},
+    plannedDays: {},
+    schedule: null,
+  })
   const [calendarLoading, setCalendarLoading] = useState(false)
   const [selectedDay, setSelectedDay] = useState<number | null>(null)
-  const [monthCache, setMonthCache] = useState<
-    Map<string, Record<number, Array<WorkoutDaySummary>>>
-  >(new Map())
+  const [monthCache, setMonthCache] = useState<Map<string, CalendarMonth>>(
+    new Map(),
+  )
 
   // Plans for filter dropdown
   const [plans, setPlans] = useState<Array<PlanOption>>([])
@@ -179,9 +192,13 @@ function HistoryPage() {
           data: { token, year, month },
         })
         if (signal?.aborted) return
-        const dayMap = result.dayMap as Record<number, Array<WorkoutDaySummary>>
-        setCalendarData(dayMap)
-        setMonthCache((prev) => new Map(prev).set(cacheKey, dayMap))
+        const data: CalendarMonth = {
+          dayMap: result.dayMap as Record<number, Array<WorkoutDaySummary>>,
+          plannedDays: result.plannedDays,
+          schedule: result.schedule,
+        }
+        setCalendarData(data)
+        setMonthCache((prev) => new Map(prev).set(cacheKey, data))
       } catch (err) {
         if (!signal?.aborted)
           console.error('Failed to fetch calendar data:', err)
@@ -275,8 +292,9 @@ function HistoryPage() {
   }
 
   const selectedDayWorkouts = selectedDay
-    ? (calendarData[selectedDay] ?? [])
+    ? (calendarData.dayMap[selectedDay] ?? [])
     : []
+  const adherence = calendarData.schedule?.adherence
 
   return (
     <div className="min-h-screen bg-zinc-900">
@@ -373,10 +391,30 @@ function HistoryPage() {
         {/* Calendar View */}
         {view === 'calendar' && (
           <>
+            {calendarData.schedule && (
+              <div className="flex items-center justify-between px-4 py-3 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
+                <div>
+                  <p className="text-sm font-medium text-white">
+                    {calendarData.schedule.planName}
+                  </p>
+                  <p className="text-xs text-zinc-500">
+                    {adherence?.percent != null
+                      ? `${adherence.completed} of ${adherence.planned} planned days in the last ${ADHERENCE_WINDOW_DAYS} days`
+                      : 'No planned days yet'}
+                  </p>
+                </div>
+                {adherence?.percent != null && (
+                  <span className="text-lg font-semibold text-white">
+                    {adherence.percent}%
+                  </span>
+                )}
+              </div>
+            )}
             <MonthlyCalendar
               year={calendarYear}
               month={calendarMonth}
-              dayMap={calendarData}
+              dayMap={calendarData.dayMap}
+              plannedDays={calendarData.plannedDays}
               selectedDay={selectedDay}
               loading={calendarLoading}
               onSelectDay={setSelectedDay}
@@ -1,6 +1,6 @@
 import { Link, createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useEffect, useMemo, useState } from 'react'
-import { Crown, Dumbbell, Flame, Medal, Trophy, Zap } from 'lucide-react'
+import { Crown, Dumbbell, Flame, Medal, Scale, Trophy, Zap } from 'lucide-react'
 import { useAuth } from '@/context/AuthContext'
 import {
   getFriendsLeaderboard,
@@ -10,12 +10,13 @@ import AppLayout from '@/components/AppLayout'
 import Avatar from '@/components/ui/Avatar'
 import { SkeletonLeaderboardRow } from '@/components/ui/Skeleton'
 import EmptyState from '@/components/ui/EmptyState'
+import { formatVolume } from '@/lib/formatting'
 
 export const Route = createFileRoute('/leaderboards')({
   component: LeaderboardsPage,
 })
 
-type LeaderboardMetric = 'volume' | 'workouts' | 'streak' | 'prs'
+type LeaderboardMetric = 'volume' | 'workouts' | 'streak' | 'prs' | 'strength'
 type TimeRange = 'week' | 'month' | 'all'
 type LeaderboardScope = 'friends' | 'global'
 
@@ -34,7 +35,7 @@ const podiumStyles: Record<number, string> = {
 }
 
 function LeaderboardsPage() {
-  const { user, token } = useAuth()
+  const { user, token, preferences } = useAuth()
   const navigate = useNavigate()
   const [metric, setMetric] = useState<LeaderboardMetric>('volume')
   const [timeRange, setTimeRange] = useState<TimeRange>('week')
@@ -83,6 +84,8 @@ function LeaderboardsPage() {
         return 'Streak'
       case 'prs':
         return 'PRs'
+      case 'strength':
+        return 'DOTS'
     }
   }
 
@@ -96,21 +99,23 @@ function LeaderboardsPage() {
         return <Zap className="w-4 h-4" />
       case 'prs':
         return <Trophy className="w-4 h-4" />
+      case 'strength':
+        return <Scale className="w-4 h-4" />
     }
   }
 
   const formatValue = (value: number, m: LeaderboardMetric) => {
     switch (m) {
       case 'volume':
-        if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M kg`
-        if (value >= 1000) return `${(value / 1000).toFixed(1)}K kg`
-        return `${Math.round(value)} kg`
+        return formatVolume(value, preferences.weightUnit)
       case 'workouts':
         return `${value} workouts`
       case 'streak':
         return `${value} weeks`
       case 'prs':
         return `${value} PRs`
+      case 'strength':
+        return `${value.toFixed(1)} DOTS`
     }
   }
 
@@ -182,7 +187,13 @@ function LeaderboardsPage() {
         {/* Metric Selection */}
         <div className="flex gap-2 mb-4 overflow-x-auto pb-2">
           {(
-            ['volume', 'workouts', 'streak', 'prs'] as Array<LeaderboardMetric>
+            [
+              'volume',
+              'workouts',
+              'streak',
+              'prs',
+              'strength',
+            ] as Array<LeaderboardMetric>
           ).map((m) => (
             <button
               key={m}
@@ -200,7 +211,16 @@ function LeaderboardsPage() {
         </div>
 
         {/* Time Range Selection */}
-        {metric !== 'streak' && (
+        {metric === 'strength' && (
+          <p className="mb-6 text-xs text-zinc-500">
+            From each lifter's best squat, bench press and deadlift at their
+            latest body weight. Choose a strength score category in Settings to
+            appear here.
+          </p>
+        )}
+
+        {/* Streaks and strength scores are current, not per period */}
+        {metric !== 'streak' && metric !== 'strength' && (
           <div className="flex gap-2 mb-6">
             {(['week', 'month', 'all'] as Array<TimeRange>).map((t) => (
               <button
@@ -0,0 +1,208 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useEffect, useState } from 'react'
+import { Camera, LineChart, Ruler, Settings2, Trash2 } from 'lucide-react'
+import type { MeasurementSite } from '@prisma/client'
+import { useAuth } from '@/context/AuthContext'
+import { useToast } from '@/context/ToastContext'
+import AppLayout from '@/components/AppLayout'
+import StatsSection from '@/components/stats/StatsSection'
+import MeasurementChart from '@/components/progression/MeasurementChart'
+import MeasurementLogForm from '@/components/measurements/MeasurementLogForm'
+import ProgressPhotos from '@/components/measurements/ProgressPhotos'
+import { formatLengthCm } from '@/lib/formatting'
+import { MEASUREMENT_SITES, MEASUREMENT_SITE_LABELS } from '@/lib/measurements'
+import { deleteMeasurement, getMeasurements } from '@/lib/measurements.server'
+
+export const Route = createFileRoute('/measurements')({
+  component: MeasurementsPage,
+})
+
+type Measurement = {
+  id: string
+  site: MeasurementSite
+  value: number // cm
+  recordedAt: Date | string
+}
+
+function MeasurementsPage() {
+  const { user, token, preferences, updatePreferences } = useAuth()
+  const { showToast } = useToast()
+
+  const [loading, setLoading] = useState(true)
+  const [measurements, setMeasurements] = useState<Array<Measurement>>([])
+  const [editingSites, setEditingSites] = useState(false)
+  const [chartSite, setChartSite] = useState<MeasurementSite | null>(null)
+
+  const sites = preferences.measurementSites
+  const lengthUnit = preferences.lengthUnit
+
+  const fetchMeasurements = async () => {
+    try {
+      const result = await getMeasurements({ data: { token } })
+      setMeasurements(result.measurements)
+    } catch (error) {
+      console.error('Failed to fetch measurements:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!user) return
+    fetchMeasurements()
+  }, [user])
+
+  const toggleSite = async (site: MeasurementSite) => {
+    const next = sites.includes(site)
+      ? sites.filter((s) => s !== site)
+      : MEASUREMENT_SITES.filter((s) => s === site || sites.includes(s))
+    if (next.length === 0) return
+    try {
+      await updatePreferences({ measurementSites: next })
+    } catch {
+      showToast('error', 'Failed to update measurement sites')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMeasurement({ data: { token, id } })
+      setMeasurements((prev) => prev.filter((m) => m.id !== id))
+    } catch {
+      showToast('error', 'Failed to delete measurement')
+    }
+  }
+
+  // Chart the chosen site, else the first tracked one
+  const activeSite =
+    chartSite && sites.includes(chartSite) ? chartSite : sites[0]
+  const siteMeasurements = measurements.filter((m) => m.site === activeSite)
+
+  return (
+    <AppLayout title="Measurements">
+      <div className="px-4 py-6 space-y-6">
+        {/* Log */}
+        <StatsSection
+          icon={<Ruler className="w-4 h-4" />}
+          title="Log Measurements"
+          headerAction={
+            <button
+              onClick={() => setEditingSites(!editingSites)}
+              className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              <Settings2 className="w-3.5 h-3.5" />
+              {editingSites ? 'Done' : 'Sites'}
+            </button>
+          }
+          style={{ animationDelay: '0ms' }}
+        >
+          {editingSites ? (
+            <div className="p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
+              <p className="text-sm text-zinc-500 mb-3">
+                Choose the body sites you measure
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {MEASUREMENT_SITES.map((site) => (
+                  <button
+                    key={site}
+                    onClick={() => toggleSite(site)}
+                    className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                      sites.includes(site)
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-zinc-800 text-zinc-400 hover:text-white'
+                    }`}
+                  >
+                    {MEASUREMENT_SITE_LABELS[site]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <MeasurementLogForm
+              sites={sites}
+              lengthUnit={lengthUnit}
+              onLogged={fetchMeasurements}
+            />
+          )}
+        </StatsSection>
+
+        {/* Trend */}
+        <StatsSection
+          icon={<LineChart className="w-4 h-4" />}
+          title="Trend"
+          style={{ animationDelay: '50ms' }}
+        >
+          <div className="p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50 space-y-3">
+            {sites.length > 1 && (
+              <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50 overflow-x-auto">
+                {sites.map((site) => (
+                  <button
+                    key={site}
+                    onClick={() => setChartSite(site)}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium whitespace-nowrap transition-colors ${
+                      site === activeSite
+                        ? 'bg-zinc-700 text-white'
+                        : 'text-zinc-400 hover:text-white'
+                    }`}
+                  >
+                    {MEASUREMENT_SITE_LABELS[site]}
+                  </button>
+                ))}
+              </div>
+            )}
+            {loading ? (
+              <div className="h-[200px] rounded-lg bg-zinc-800 animate-pulse" />
+            ) : (
+              <MeasurementChart
+                data={siteMeasurements}
+                lengthUnit={lengthUnit}
+              />
+            )}
+            {siteMeasurements.length > 0 && (
+              <div className="divide-y divide-zinc-700/50">
+                {[...siteMeasurements]
+                  .reverse()
+                  .slice(0, 5)
+                  .map((m) => (
+                    <div
+                      key={m.id}
+                      className="flex items-center justify-between py-2"
+                    >
+                      <span className="text-sm text-white">
+                        {formatLengthCm(m.value, lengthUnit)}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-zinc-500">
+                          {new Date(m.recordedAt).toLocaleDateString('en-US', {
+                            month: 'short',
+                            day: 'numeric',
+                            year: 'numeric',
+                          })}
+                        </span>
+                        <button
+                          onClick={() => handleDelete(m.id)}
+                          className="p-1.5 rounded-lg text-zinc-500 hover:text-red-400 hover:bg-zinc-700/50 transition-colors"
+                          aria-label="Delete measurement"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+              </div>
+            )}
+          </div>
+        </StatsSection>
+
+        {/* Photos */}
+        <StatsSection
+          icon={<Camera className="w-4 h-4" />}
+          title="Progress Photos"
+          style={{ animationDelay: '100ms' }}
+        >
+          <ProgressPhotos measurements={measurements} lengthUnit={lengthUnit} />
+        </StatsSection>
+      </div>
+    </AppLayout>
+  )
+}
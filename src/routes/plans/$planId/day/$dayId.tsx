@@ -3,32 +3,52 @@ import { useCallback, useEffect, useState } from 'react'
 import {
   ArrowLeft,
   Dumbbell,
+  Link2,
   Moon,
   MoreVertical,
   Pencil,
   Plus,
   Trash2,
 } from 'lucide-react'
-import type { Exercise } from '@prisma/client'
+import type {
+  Exercise,
+  ExerciseGroupType,
+  PlanSetPrescription,
+  ProgressionScheme,
+  ProgressionSuggestion,
+} from '@prisma/client'
 import type { PlanRole } from '@/lib/plan-types'
+import type { ExerciseTargets } from '@/components/forms/ExerciseTargetsForm'
 import AppLayout from '@/components/AppLayout'
 import { Skeleton } from '@/components/ui/Skeleton'
 import EmptyState from '@/components/ui/EmptyState'
 import Modal from '@/components/ui/Modal'
 import ConfirmDialog from '@/components/ui/ConfirmDialog'
 import PlanExerciseCard from '@/components/plans/PlanExerciseCard'
+import ExerciseGroupBlock from '@/components/plans/ExerciseGroupBlock'
 import PlanDayForm from '@/components/forms/PlanDayForm'
 import ExerciseTargetsForm from '@/components/forms/ExerciseTargetsForm'
+import ExerciseGroupForm from '@/components/forms/ExerciseGroupForm'
+import PlanAlternatesForm from '@/components/forms/PlanAlternatesForm'
 import ExercisePicker from '@/components/exercises/ExercisePicker'
 import {
   addPlanExercise,
+  createExerciseGroup,
+  deleteExerciseGroup,
   deletePlanDay,
   getPlanDay,
   removePlanExercise,
   reorderPlanExercises,
+  updateExerciseGroup,
   updatePlanDay,
   updatePlanExercise,
+  updatePlanExerciseAlternates,
 } from '@/lib/plans.server'
+import {
+  formatGroupSummary,
+  groupIntoBlocks,
+  moveBlockItem,
+} from '@/lib/exercise-groups'
 import { useAuth } from '@/context/AuthContext'
 
 export const Route = createFileRoute('/plans/$planId/day/$dayId')({
@@ -45,6 +65,24 @@ type PlanExercise = {
   restSeconds: number
   notes: string | null
   exercise: Exercise
+  groupId: string | null
+  group: ExerciseGroup | null
+  progressionScheme: ProgressionScheme | null
+  targetRepsMax: number | null
+  targetRpe: number | null
+  targetRir: number | null
+  targetPercent1rm: number | null
+  weightIncrement: number | null
+  progressionSuggestions: Array<ProgressionSuggestion>
+  setPrescriptions: Array<PlanSetPrescription>
+  alternates: Array<{ exercise: Exercise }>
+}
+
+type ExerciseGroup = {
+  id: string
+  groupType: ExerciseGroupType
+  rounds: number
+  restSeconds: number
 }
 
 type PlanDay = {
@@ -63,6 +101,8 @@ function DayDetailPage() {
   const router = useRouter()
 
   const [planDay, setPlanDay] = useState<PlanDay | null>(null)
+  // %1RM targets resolved against the viewer's lifts, in kg
+  const [targetWeights, setTargetWeights] = useState<Record<string, number>>({})
   const [access, setAccess] = useState<{
     isOwner: boolean
     role: PlanRole | null
@@ -81,6 +121,10 @@ function DayDetailPage() {
   const [exerciseToRemove, setExerciseToRemove] = useState<PlanExercise | null>(
     null,
   )
+  const [alternatesExercise, setAlternatesExercise] =
+    useState<PlanExercise | null>(null)
+  const [showGroupModal, setShowGroupModal] = useState(false)
+  const [editingGroup, setEditingGroup] = useState<ExerciseGroup | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   const canEdit = access?.role === 'OWNER' || access?.role === 'EDITOR'
@@ -91,6 +135,7 @@ function DayDetailPage() {
     try {
       const result = await getPlanDay({ data: { id: dayId, token } })
       setPlanDay(result.planDay)
+      setTargetWeights(result.targetWeights)
       setAccess(result.access)
     } catch (error) {
       console.error('Failed to fetch plan day:', error)
@@ -140,14 +185,7 @@ function DayDetailPage() {
     setShowExercisePicker(false)
   }
 
-  const handleAddExercise = async (targets: {
-    targetSets: number
-    targetReps?: number
-    targetTimeSeconds?: number
-    targetWeight?: number
-    restSeconds: number
-    notes?: string
-  }) => {
+  const handleAddExercise = async (targets: ExerciseTargets) => {
     if (!user || !planDay || !selectedExercise) return
 
     setIsSubmitting(true)
@@ -163,6 +201,13 @@ function DayDetailPage() {
           targetWeight: targets.targetWeight,
           restSeconds: targets.restSeconds,
           notes: targets.notes,
+          progressionScheme: targets.progressionScheme,
+          targetRepsMax: targets.targetRepsMax,
+          targetRpe: targets.targetRpe,
+          targetRir: targets.targetRir,
+          targetPercent1rm: targets.targetPercent1rm,
+          weightIncrement: targets.weightIncrement,
+          setPrescriptions: targets.setPrescriptions,
           token,
         },
       })
@@ -173,14 +218,7 @@ function DayDetailPage() {
     }
   }
 
-  const handleUpdateExercise = async (targets: {
-    targetSets: number
-    targetReps?: number
-    targetTimeSeconds?: number
-    targetWeight?: number
-    restSeconds: number
-    notes?: string
-  }) => {
+  const handleUpdateExercise = async (targets: ExerciseTargets) => {
     if (!user || !editingExercise) return
 
     setIsSubmitting(true)
@@ -194,6 +232,13 @@ function DayDetailPage() {
           targetWeight: targets.targetWeight,
           restSeconds: targets.restSeconds,
           notes: targets.notes,
+          progressionScheme: targets.progressionScheme,
+          targetRepsMax: targets.targetRepsMax,
+          targetRpe: targets.targetRpe,
+          targetRir: targets.targetRir,
+          targetPercent1rm: targets.targetPercent1rm,
+          weightIncrement: targets.weightIncrement,
+          setPrescriptions: targets.setPrescriptions,
           token,
         },
       })
@@ -222,19 +267,23 @@ function DayDetailPage() {
     }
   }
 
-  const handleMoveExercise = async (
-    index: number,
-    direction: 'up' | 'down',
-  ) => {
-    if (!user || !planDay) return
+  const handleSaveAlternates = async (exerciseIds: Array<string>) => {
+    if (!user || !alternatesExercise) return
 
-    const exercises = [...planDay.planExercises]
-    const newIndex = direction === 'up' ? index - 1 : index + 1
+    setIsSubmitting(true)
+    try {
+      await updatePlanExerciseAlternates({
+        data: { planExerciseId: alternatesExercise.id, exerciseIds, token },
+      })
+      await fetchPlanDay()
+      setAlternatesExercise(null)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
 
-    // Swap exercises
-    const temp = exercises[index]
-    exercises[index] = exercises[newIndex]
-    exercises[newIndex] = temp
+  const saveExerciseOrder = async (exercises: Array<PlanExercise>) => {
+    if (!user || !planDay) return
 
     // Optimistically update UI
     const originalExercises = planDay.planExercises
@@ -255,6 +304,93 @@ function DayDetailPage() {
     }
   }
 
+  // Move a single exercise, or a whole group, past its neighbour
+  const handleMoveExercise = async (
+    index: number,
+    direction: 'up' | 'down',
+  ) => {
+    if (!planDay) return
+
+    await saveExerciseOrder(
+      moveBlockItem(planDay.planExercises, index, direction, (e) => e.groupId),
+    )
+  }
+
+  // Swap an exercise with its neighbour inside the same group
+  const handleMoveWithinGroup = async (
+    index: number,
+    direction: 'up' | 'down',
+  ) => {
+    if (!planDay) return
+
+    const exercises = [...planDay.planExercises]
+    const newIndex = direction === 'up' ? index - 1 : index + 1
+
+    const temp = exercises[index]
+    exercises[index] = exercises[newIndex]
+    exercises[newIndex] = temp
+
+    await saveExerciseOrder(exercises)
+  }
+
+  const handleCreateGroup = async (data: {
+    groupType: ExerciseGroupType
+    rounds: number
+    restSeconds: number
+    planExerciseIds: Array<string>
+  }) => {
+    if (!user) return
+
+    setIsSubmitting(true)
+    try {
+      await createExerciseGroup({
+        data: { planDayId: dayId, ...data, token },
+      })
+      await fetchPlanDay()
+      setShowGroupModal(false)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleUpdateGroup = async (data: {
+    groupType: ExerciseGroupType
+    rounds: number
+    restSeconds: number
+  }) => {
+    if (!user || !editingGroup) return
+
+    setIsSubmitting(true)
+    try {
+      await updateExerciseGroup({
+        data: {
+          id: editingGroup.id,
+          groupType: data.groupType,
+          rounds: data.rounds,
+          restSeconds: data.restSeconds,
+          token,
+        },
+      })
+      await fetchPlanDay()
+      setEditingGroup(null)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleUngroup = async () => {
+    if (!user || !editingGroup) return
+
+    setIsSubmitting(true)
+    try {
+      await deleteExerciseGroup({ data: { id: editingGroup.id, token } })
+      await fetchPlanDay()
+      setEditingGroup(null)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
   if (loading) {
     return (
       <AppLayout showNav={false}>
@@ -305,6 +441,46 @@ function DayDetailPage() {
 
   const existingExerciseIds = planDay.planExercises.map((pe) => pe.exercise.id)
 
+  // Reorder arrows move within a group, or step over whole groups outside one
+  const renderCard = (
+    planExercise: PlanExercise,
+    reorder: {
+      show: boolean
+      isFirst: boolean
+      isLast: boolean
+      onMove: (direction: 'up' | 'down') => void
+    },
+  ) => {
+    const index = planDay.planExercises.indexOf(planExercise)
+    return (
+      <div
+        key={planExercise.id}
+        className="animate-fade-in"
+        style={{
+          animationDelay: `${index * 50}ms`,
+          animationFillMode: 'backwards',
+        }}
+      >
+        <PlanExerciseCard
+          planExercise={planExercise}
+          targetWeights={targetWeights}
+          onPress={canEdit ? () => setEditingExercise(planExercise) : undefined}
+          onRemove={
+            canEdit ? () => setExerciseToRemove(planExercise) : undefined
+          }
+          onEditAlternates={
+            canEdit ? () => setAlternatesExercise(planExercise) : undefined
+          }
+          showReorder={canEdit && reorder.show}
+          isFirst={reorder.isFirst}
+          isLast={reorder.isLast}
+          onMoveUp={canEdit ? () => reorder.onMove('up') : undefined}
+          onMoveDown={canEdit ? () => reorder.onMove('down') : undefined}
+        />
+      </div>
+    )
+  }
+
   return (
     <AppLayout showNav={false}>
       {/* Custom Header */}
@@ -353,6 +529,16 @@ function DayDetailPage() {
                       <Pencil className="w-4 h-4" />
                       Edit Day
                     </button>
+                    <button
+                      onClick={() => {
+                        setShowMenu(false)
+                        setShowGroupModal(true)
+                      }}
+                      className="w-full flex items-center gap-3 px-4 py-3 text-white hover:bg-zinc-700 transition-colors"
+                    >
+                      <Link2 className="w-4 h-4" />
+                      Group Exercises
+                    </button>
                     <button
                       onClick={() => {
                         setShowMenu(false)
@@ -411,43 +597,59 @@ function DayDetailPage() {
                 {planDay.planExercises.length} exercise
                 {planDay.planExercises.length !== 1 ? 's' : ''}
               </p>
-              {planDay.planExercises.map((planExercise, index) => (
-                <div
-                  key={planExercise.id}
-                  className="animate-fade-in"
-                  style={{
-                    animationDelay: `${index * 50}ms`,
-                    animationFillMode: 'backwards',
-                  }}
-                >
-                  <PlanExerciseCard
-                    planExercise={planExercise}
-                    onPress={
-                      canEdit
-                        ? () => setEditingExercise(planExercise)
-                        : undefined
-                    }
-                    onRemove={
-                      canEdit
-                        ? () => setExerciseToRemove(planExercise)
-                        : undefined
-                    }
-                    showReorder={canEdit && planDay.planExercises.length > 1}
-                    isFirst={index === 0}
-                    isLast={index === planDay.planExercises.length - 1}
-                    onMoveUp={
-                      canEdit
-                        ? () => handleMoveExercise(index, 'up')
-                        : undefined
-                    }
-                    onMoveDown={
-                      canEdit
-                        ? () => handleMoveExercise(index, 'down')
-                        : undefined
-                    }
-                  />
-                </div>
-              ))}
+              {groupIntoBlocks(planDay.planExercises, (pe) => pe.groupId).map(
+                (block) => {
+                  const group = block.items[0].group
+                  if (!group) {
+                    return block.items.map((planExercise) => {
+                      const index = planDay.planExercises.indexOf(planExercise)
+                      return renderCard(planExercise, {
+                        show: planDay.planExercises.length > 1,
+                        isFirst: index === 0,
+                        isLast: index === planDay.planExercises.length - 1,
+                        onMove: (direction) =>
+                          handleMoveExercise(index, direction),
+                      })
+                    })
+                  }
+
+                  const firstIndex = planDay.planExercises.indexOf(
+                    block.items[0],
+                  )
+                  const lastIndex = firstIndex + block.items.length - 1
+                  return (
+                    <ExerciseGroupBlock
+                      key={group.id}
+                      label={formatGroupSummary(group)}
+                      onEdit={
+                        canEdit ? () => setEditingGroup(group) : undefined
+                      }
+                      onMoveUp={
+                        canEdit
+                          ? () => handleMoveExercise(firstIndex, 'up')
+                          : undefined
+                      }
+                      onMoveDown={
+                        canEdit
+                          ? () => handleMoveExercise(firstIndex, 'down')
+                          : undefined
+                      }
+                      isFirst={firstIndex === 0}
+                      isLast={lastIndex === planDay.planExercises.length - 1}
+                    >
+                      {block.items.map((planExercise, i) =>
+                        renderCard(planExercise, {
+                          show: true,
+                          isFirst: i === 0,
+                          isLast: i === block.items.length - 1,
+                          onMove: (direction) =>
+                            handleMoveWithinGroup(firstIndex + i, direction),
+                        }),
+                      )}
+                    </ExerciseGroupBlock>
+                  )
+                },
+              )}
             </div>
           )}
         </div>
@@ -519,9 +721,16 @@ function DayDetailPage() {
               targetSets: editingExercise.targetSets,
               targetReps: editingExercise.targetReps ?? undefined,
               targetTimeSeconds: editingExercise.targetTimeSeconds ?? undefined,
-              targetWeight: editingExercise.targetWeight ?? undefined,
+              targetWeight: editingExercise.targetWeight,
               restSeconds: editingExercise.restSeconds,
               notes: editingExercise.notes ?? undefined,
+              progressionScheme: editingExercise.progressionScheme,
+              targetRepsMax: editingExercise.targetRepsMax,
+              targetRpe: editingExercise.targetRpe,
+              targetRir: editingExercise.targetRir,
+              targetPercent1rm: editingExercise.targetPercent1rm,
+              weightIncrement: editingExercise.weightIncrement,
+              setPrescriptions: editingExercise.setPrescriptions,
             }}
             onSubmit={handleUpdateExercise}
             onCancel={() => setEditingExercise(null)}
@@ -531,6 +740,61 @@ function DayDetailPage() {
         )}
       </Modal>
 
+      {/* Alternates Modal */}
+      <Modal
+        isOpen={!!alternatesExercise}
+        onClose={() => setAlternatesExercise(null)}
+        title="Alternates"
+      >
+        {alternatesExercise && (
+          <PlanAlternatesForm
+            exercise={alternatesExercise.exercise}
+            initialData={alternatesExercise.alternates.map((a) => a.exercise)}
+            onSubmit={handleSaveAlternates}
+            onCancel={() => setAlternatesExercise(null)}
+            isLoading={isSubmitting}
+          />
+        )}
+      </Modal>
+
+      {/* Create Group Modal */}
+      <Modal
+        isOpen={showGroupModal}
+        onClose={() => setShowGroupModal(false)}
+        title="Group Exercises"
+      >
+        <ExerciseGroupForm
+          exercises={planDay.planExercises.filter((pe) => !pe.groupId)}
+          onSubmit={handleCreateGroup}
+          onCancel={() => setShowGroupModal(false)}
+          isLoading={isSubmitting}
+          submitLabel="Create Group"
+        />
+      </Modal>
+
+      {/* Edit Group Modal */}
+      <Modal
+        isOpen={!!editingGroup}
+        onClose={() => setEditingGroup(null)}
+        title="Edit Group"
+      >
+        {editingGroup && (
+          <ExerciseGroupForm
+            memberCount={
+              planDay.planExercises.filter(
+                (pe) => pe.groupId === editingGroup.id,
+              ).length
+            }
+            initialData={editingGroup}
+            onSubmit={handleUpdateGroup}
+            onCancel={() => setEditingGroup(null)}
+            onUngroup={handleUngroup}
+            isLoading={isSubmitting}
+            submitLabel="Save Changes"
+          />
+        )}
+      </Modal>
+
       {/* Delete Day Confirmation */}
       <ConfirmDialog
         isOpen={showDeleteConfirm}
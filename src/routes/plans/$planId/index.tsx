@@ -13,7 +13,11 @@ import {
   Users,
   X,
 } from 'lucide-react'
+import type { PlanScheduleType } from '@prisma/client'
 import type { PlanRole } from '@/lib/plan-types'
+import type { Adherence } from '@/lib/plan-schedule'
+import type { PlanWeekSettings } from '@/lib/plan-weeks'
+import type { PlanScheduleData } from '@/components/forms/PlanScheduleForm'
 import AppLayout from '@/components/AppLayout'
 import EmptyState from '@/components/ui/EmptyState'
 import Modal from '@/components/ui/Modal'
@@ -21,6 +25,10 @@ import ConfirmDialog from '@/components/ui/ConfirmDialog'
 import PlanDayCard from '@/components/plans/PlanDayCard'
 import PlanForm from '@/components/forms/PlanForm'
 import PlanDayForm from '@/components/forms/PlanDayForm'
+import PlanBlockForm from '@/components/forms/PlanBlockForm'
+import PlanBlockCard from '@/components/plans/PlanBlockCard'
+import PlanScheduleForm from '@/components/forms/PlanScheduleForm'
+import PlanScheduleCard from '@/components/plans/PlanScheduleCard'
 import SharePlanModal from '@/components/sharing/SharePlanModal'
 import ManageCollaboratorsModal from '@/components/plans/ManageCollaboratorsModal'
 import {
@@ -28,7 +36,10 @@ import {
   deletePlan,
   getPlan,
   reorderPlanDays,
+  setPlanBlockWeek,
   updatePlan,
+  updatePlanBlock,
+  updatePlanSchedule,
 } from '@/lib/plans.server'
 import {
   leaveCollaboration,
@@ -46,6 +57,7 @@ type PlanDay = {
   name: string
   dayOrder: number
   restDay: boolean
+  weekday: number | null
   _count: { planExercises: number }
 }
 
@@ -62,6 +74,18 @@ type Plan = {
   user: { id: string; name: string }
   collaborators: Array<Collaborator>
   planDays: Array<PlanDay>
+  blockWeeks: number | null
+  weeks: Array<PlanWeekSettings>
+  scheduleType: PlanScheduleType | null
+  rotationDaysOn: number | null
+  rotationDaysOff: number | null
+  scheduleStartDate: Date | null
+}
+
+type BlockPosition = {
+  weekNumber: number
+  blocksCompleted: number
+  week: PlanWeekSettings
 }
 
 function PlanDetailPage() {
@@ -71,6 +95,8 @@ function PlanDetailPage() {
   const router = useRouter()
 
   const [plan, setPlan] = useState<Plan | null>(null)
+  const [blockPosition, setBlockPosition] = useState<BlockPosition | null>(null)
+  const [adherence, setAdherence] = useState<Adherence | null>(null)
   const [access, setAccess] = useState<{
     isOwner: boolean
     role: PlanRole | null
@@ -91,6 +117,9 @@ function PlanDetailPage() {
   const [showShareModal, setShowShareModal] = useState(false)
   const [showCollaboratorsModal, setShowCollaboratorsModal] = useState(false)
   const [showLeaveConfirm, setShowLeaveConfirm] = useState(false)
+  const [showBlockModal, setShowBlockModal] = useState(false)
+  const [showRestartConfirm, setShowRestartConfirm] = useState(false)
+  const [showScheduleModal, setShowScheduleModal] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   const canEdit = access?.role === 'OWNER' || access?.role === 'EDITOR'
@@ -106,6 +135,8 @@ function PlanDetailPage() {
         setInviteInfo(result.inviteInfo)
       } else {
         setPlan(result.plan)
+        setBlockPosition(result.blockPosition)
+        setAdherence(result.adherence)
         setAccess(result.access)
       }
     } catch (error) {
@@ -142,6 +173,54 @@ function PlanDetailPage() {
     }
   }
 
+  const handleSaveBlock = async (data: {
+    blockWeeks: number | null
+    weeks: Array<PlanWeekSettings>
+  }) => {
+    if (!user) return
+
+    setIsSubmitting(true)
+    try {
+      await updatePlanBlock({
+        data: { workoutPlanId: planId, ...data, token },
+      })
+      await fetchPlan()
+      setShowBlockModal(false)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRestartBlock = async () => {
+    if (!user) return
+
+    setIsSubmitting(true)
+    try {
+      const result = await setPlanBlockWeek({
+        data: { workoutPlanId: planId, weekNumber: 1, token },
+      })
+      setBlockPosition(result.blockPosition)
+      setShowRestartConfirm(false)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleSaveSchedule = async (data: PlanScheduleData) => {
+    if (!user) return
+
+    setIsSubmitting(true)
+    try {
+      await updatePlanSchedule({
+        data: { workoutPlanId: planId, ...data, token },
+      })
+      await fetchPlan()
+      setShowScheduleModal(false)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
   const handleDeletePlan = async () => {
     if (!user) return
 
@@ -497,6 +576,21 @@ function PlanDetailPage() {
             {collaboratorCount !== 1 ? 's' : ''}
           </button>
         )}
+        <PlanBlockCard
+          blockWeeks={plan.blockWeeks}
+          weeks={plan.weeks}
+          position={blockPosition}
+          canEdit={canEdit}
+          onEdit={() => setShowBlockModal(true)}
+          onRestart={() => setShowRestartConfirm(true)}
+        />
+        <PlanScheduleCard
+          schedule={plan}
+          days={plan.planDays}
+          adherence={adherence}
+          canEdit={canEdit}
+          onEdit={() => setShowScheduleModal(true)}
+        />
       </div>
 
       {/* Days list */}
@@ -599,6 +693,45 @@ function PlanDetailPage() {
         />
       </Modal>
 
+      {/* Training Block Modal */}
+      <Modal
+        isOpen={showBlockModal}
+        onClose={() => setShowBlockModal(false)}
+        title="Training Block"
+      >
+        <PlanBlockForm
+          initialData={{ blockWeeks: plan.blockWeeks, weeks: plan.weeks }}
+          onSubmit={handleSaveBlock}
+          onCancel={() => setShowBlockModal(false)}
+          isLoading={isSubmitting}
+        />
+      </Modal>
+
+      {/* Schedule Modal */}
+      <Modal
+        isOpen={showScheduleModal}
+        onClose={() => setShowScheduleModal(false)}
+        title="Schedule"
+      >
+        <PlanScheduleForm
+          initialData={plan}
+          days={plan.planDays}
+          onSubmit={handleSaveSchedule}
+          onCancel={() => setShowScheduleModal(false)}
+          isLoading={isSubmitting}
+        />
+      </Modal>
+
+      {/* Restart Block Confirmation */}
+      <ConfirmDialog
+        isOpen={showRestartConfirm}
+        title="Restart Block"
+        message="Go back to week 1 of the training block? Your completed sessions are kept."
+        confirmText="Restart"
+        onConfirm={handleRestartBlock}
+        onCancel={() => setShowRestartConfirm(false)}
+      />
+
       {/* Delete Confirmation */}
       <ConfirmDialog
         isOpen={showDeleteConfirm}
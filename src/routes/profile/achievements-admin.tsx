@@ -6,26 +6,33 @@ import {
   Loader2,
   Pencil,
   Plus,
+  RefreshCw,
   Trash2,
   X,
 } from 'lucide-react'
 import type {
+  AchievementBackfillStatus,
   AchievementCategory,
   AchievementRarity,
   Exercise,
+  ExerciseAchievementMetric,
+  MuscleGroup,
 } from '@prisma/client'
 import { useAuth } from '@/context/AuthContext'
 import {
+  backfillAchievement,
   createAchievement,
   deleteAchievement,
   getAllAchievements,
   updateAchievement,
 } from '@/lib/achievements.server'
-import { getExercises } from '@/lib/exercises.server'
+import { getAllExercises } from '@/lib/exercises.server'
+import { EXERCISE_METRIC_LABELS } from '@/lib/achievement-rules'
 import AppLayout from '@/components/AppLayout'
 import { Skeleton } from '@/components/ui/Skeleton'
 import EmptyState from '@/components/ui/EmptyState'
 import { AchievementBadge } from '@/components/achievements'
+import { muscleGroupConfig } from '@/components/exercises/MuscleGroupBadge'
 
 export const Route = createFileRoute('/profile/achievements-admin')({
   component: AchievementsAdminPage,
@@ -43,7 +50,15 @@ interface Achievement {
   sortOrder: number
   isHidden: boolean
   exerciseId: string | null
+  muscleGroup: MuscleGroup | null
+  exerciseMetric: ExerciseAchievementMetric | null
   exercise: { id: string; name: string } | null
+  backfills: Array<{
+    status: AchievementBackfillStatus
+    usersProcessed: number
+    usersAwarded: number
+    usersRevoked: number
+  }>
 }
 
 const CATEGORIES: Array<AchievementCategory> = [
@@ -56,6 +71,12 @@ const CATEGORIES: Array<AchievementCategory> = [
   'EXERCISE_SPECIFIC',
 ]
 
+const MUSCLE_GROUPS = Object.keys(muscleGroupConfig) as Array<MuscleGroup>
+
+const EXERCISE_METRICS = Object.keys(
+  EXERCISE_METRIC_LABELS,
+) as Array<ExerciseAchievementMetric>
+
 const RARITIES: Array<AchievementRarity> = [
   'COMMON',
   'UNCOMMON',
@@ -72,6 +93,21 @@ const RARITY_COLORS: Record<AchievementRarity, string> = {
   LEGENDARY: 'bg-amber-500',
 }
 
+function formatBackfill(backfill: Achievement['backfills'][number]): string {
+  switch (backfill.status) {
+    case 'PENDING':
+      return 'Backfill queued'
+    case 'RUNNING':
+      return `Backfilling... ${backfill.usersProcessed} users checked`
+    case 'COMPLETED':
+      return backfill.usersRevoked > 0
+        ? `Backfill awarded ${backfill.usersAwarded} and revoked ${backfill.usersRevoked} of ${backfill.usersProcessed} users checked`
+        : `Backfill awarded ${backfill.usersAwarded} of ${backfill.usersProcessed} users checked`
+    case 'FAILED':
+      return 'Backfill failed'
+  }
+}
+
 function AchievementsAdminPage() {
   const { user, token } = useAuth()
   const navigate = useNavigate()
@@ -95,6 +131,9 @@ function AchievementsAdminPage() {
   const [sortOrder, setSortOrder] = useState(0)
   const [isHidden, setIsHidden] = useState(false)
   const [exerciseId, setExerciseId] = useState<string | null>(null)
+  const [muscleGroup, setMuscleGroup] = useState<MuscleGroup | null>(null)
+  const [exerciseMetric, setExerciseMetric] =
+    useState<ExerciseAchievementMetric>('MAX_WEIGHT')
 
   // Redirect non-admins
   useEffect(() => {
@@ -109,7 +148,7 @@ function AchievementsAdminPage() {
     try {
       const [achievementsResult, exercisesResult] = await Promise.all([
         getAllAchievements({ data: { token } }),
-        getExercises({ data: {} }),
+        getAllExercises({ data: { token } }),
       ])
       setAchievements(achievementsResult.achievements)
       setExercises(exercisesResult.exercises)
@@ -137,6 +176,8 @@ function AchievementsAdminPage() {
     setSortOrder(0)
     setIsHidden(false)
     setExerciseId(null)
+    setMuscleGroup(null)
+    setExerciseMetric('MAX_WEIGHT')
     setEditingAchievement(null)
     setError(null)
   }
@@ -158,6 +199,8 @@ function AchievementsAdminPage() {
     setSortOrder(achievement.sortOrder)
     setIsHidden(achievement.isHidden)
     setExerciseId(achievement.exerciseId)
+    setMuscleGroup(achievement.muscleGroup)
+    setExerciseMetric(achievement.exerciseMetric ?? 'MAX_WEIGHT')
     setError(null)
     setShowModal(true)
   }
@@ -188,6 +231,9 @@ function AchievementsAdminPage() {
             sortOrder,
             isHidden,
             exerciseId: category === 'EXERCISE_SPECIFIC' ? exerciseId : null,
+            muscleGroup: category === 'MUSCLE_FOCUS' ? muscleGroup : null,
+            exerciseMetric:
+              category === 'EXERCISE_SPECIFIC' ? exerciseMetric : null,
           },
         })
       } else {
@@ -204,6 +250,9 @@ function AchievementsAdminPage() {
             sortOrder,
             isHidden,
             exerciseId: category === 'EXERCISE_SPECIFIC' ? exerciseId : null,
+            muscleGroup: category === 'MUSCLE_FOCUS' ? muscleGroup : null,
+            exerciseMetric:
+              category === 'EXERCISE_SPECIFIC' ? exerciseMetric : null,
           },
         })
       }
@@ -217,6 +266,16 @@ function AchievementsAdminPage() {
     }
   }
 
+  const handleBackfill = async (achievement: Achievement) => {
+    if (!user) return
+    try {
+      await backfillAchievement({ data: { token, id: achievement.id } })
+      loadAchievements()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to queue backfill')
+    }
+  }
+
   const handleDelete = async (achievement: Achievement) => {
     if (!user) return
     if (
@@ -339,9 +398,29 @@ function AchievementsAdminPage() {
                   {achievement.exercise && (
                     <p className="text-xs text-blue-400 mt-0.5">
                       Exercise: {achievement.exercise.name}
+                      {achievement.exerciseMetric &&
+                        ` | ${EXERCISE_METRIC_LABELS[achievement.exerciseMetric]}`}
+                    </p>
+                  )}
+                  {achievement.muscleGroup && (
+                    <p className="text-xs text-blue-400 mt-0.5">
+                      Muscle group:{' '}
+                      {muscleGroupConfig[achievement.muscleGroup].label}
+                    </p>
+                  )}
+                  {achievement.backfills.length > 0 && (
+                    <p className="text-xs text-zinc-500 mt-0.5">
+                      {formatBackfill(achievement.backfills[0])}
                     </p>
                   )}
                 </div>
+                <button
+                  onClick={() => handleBackfill(achievement)}
+                  className="p-2 hover:bg-zinc-700 rounded-lg"
+                  title="Award to users who already qualify"
+                >
+                  <RefreshCw className="w-4 h-4 text-zinc-400" />
+                </button>
                 <button
                   onClick={() => openEditModal(achievement)}
                   className="p-2 hover:bg-zinc-700 rounded-lg"
@@ -489,6 +568,54 @@ function AchievementsAdminPage() {
                   <p className="text-xs text-zinc-500 mt-1">
                     Link this achievement to a specific exercise
                   </p>
+                  <label className="block text-sm text-zinc-400 mb-1 mt-3">
+                    Metric
+                  </label>
+                  <select
+                    value={exerciseMetric}
+                    onChange={(e) =>
+                      setExerciseMetric(
+                        e.target.value as ExerciseAchievementMetric,
+                      )
+                    }
+                    className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+                  >
+                    {EXERCISE_METRICS.map((metric) => (
+                      <option key={metric} value={metric}>
+                        {EXERCISE_METRIC_LABELS[metric]}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-zinc-500 mt-1">
+                    Threshold is measured against this stat for the exercise
+                  </p>
+                </div>
+              )}
+
+              {category === 'MUSCLE_FOCUS' && (
+                <div>
+                  <label className="block text-sm text-zinc-400 mb-1">
+                    Muscle Group
+                  </label>
+                  <select
+                    value={muscleGroup || ''}
+                    onChange={(e) =>
+                      setMuscleGroup(
+                        e.target.value ? (e.target.value as MuscleGroup) : null,
+                      )
+                    }
+                    className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+                  >
+                    <option value="">All muscle groups</option>
+                    {MUSCLE_GROUPS.map((mg) => (
+                      <option key={mg} value={mg}>
+                        {muscleGroupConfig[mg].label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-zinc-500 mt-1">
+                    Threshold counts working sets for this muscle group
+                  </p>
                 </div>
               )}
 
@@ -0,0 +1,171 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useEffect, useState } from 'react'
+import { ArrowLeft, Check, Dumbbell, Loader2, X } from 'lucide-react'
+import type { Equipment, MuscleGroup } from '@prisma/client'
+import { useAuth } from '@/context/AuthContext'
+import {
+  getPendingExercises,
+  reviewExercisePublish,
+} from '@/lib/exercises.server'
+import AppLayout from '@/components/AppLayout'
+import { Skeleton } from '@/components/ui/Skeleton'
+import EmptyState from '@/components/ui/EmptyState'
+import { muscleGroupConfig } from '@/components/exercises/MuscleGroupBadge'
+
+export const Route = createFileRoute('/profile/exercises-admin')({
+  component: ExercisesAdminPage,
+})
+
+interface PendingExercise {
+  id: string
+  name: string
+  description: string | null
+  instructions: string | null
+  muscleGroup: MuscleGroup
+  equipment: Equipment
+  user: {
+    id: string
+    name: string
+    profile: { username: string } | null
+  } | null
+}
+
+function ExercisesAdminPage() {
+  const { user, token } = useAuth()
+  const navigate = useNavigate()
+  const [exercises, setExercises] = useState<Array<PendingExercise>>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Redirect non-admins
+  useEffect(() => {
+    if (user && !user.isAdmin) {
+      navigate({ to: '/profile' })
+    }
+  }, [user, navigate])
+
+  useEffect(() => {
+    if (!user?.isAdmin) return
+    setIsLoading(true)
+    getPendingExercises({ data: { token } })
+      .then((result) => setExercises(result.exercises))
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : 'Failed to load')
+      })
+      .finally(() => setIsLoading(false))
+  }, [user, token])
+
+  const handleReview = async (id: string, approve: boolean) => {
+    setReviewingId(id)
+    setError(null)
+    try {
+      await reviewExercisePublish({ data: { id, approve, token } })
+      setExercises((prev) => prev.filter((e) => e.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to review')
+    } finally {
+      setReviewingId(null)
+    }
+  }
+
+  if (!user?.isAdmin) {
+    return (
+      <AppLayout showNav={false}>
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 text-zinc-500 animate-spin" />
+        </div>
+      </AppLayout>
+    )
+  }
+
+  return (
+    <AppLayout showNav={false}>
+      <div className="p-4">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-6">
+          <button
+            onClick={() => navigate({ to: '/profile/settings' })}
+            className="p-2 -ml-2 hover:bg-zinc-800 rounded-lg"
+          >
+            <ArrowLeft className="w-5 h-5 text-zinc-400" />
+          </button>
+          <h1 className="text-lg font-semibold text-white">Review Exercises</h1>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* List */}
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div
+                key={i}
+                className="p-4 bg-zinc-800/50 rounded-lg border border-zinc-700/50"
+              >
+                <Skeleton className="h-4 w-32 mb-2" />
+                <Skeleton className="h-3 w-48" />
+              </div>
+            ))}
+          </div>
+        ) : exercises.length === 0 ? (
+          <EmptyState
+            icon={<Dumbbell className="w-8 h-8" />}
+            title="Nothing to review"
+            description="Exercises submitted to the community will appear here."
+          />
+        ) : (
+          <div className="space-y-3">
+            {exercises.map((exercise) => (
+              <div
+                key={exercise.id}
+                className="flex items-start gap-4 p-4 bg-zinc-800/50 rounded-lg border border-zinc-700/50"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-white">{exercise.name}</p>
+                  <p className="text-sm text-zinc-400 mt-0.5">
+                    {muscleGroupConfig[exercise.muscleGroup].label} |{' '}
+                    {exercise.equipment}
+                  </p>
+                  {exercise.description && (
+                    <p className="text-sm text-zinc-300 mt-1">
+                      {exercise.description}
+                    </p>
+                  )}
+                  {exercise.user && (
+                    <p className="text-xs text-zinc-500 mt-1">
+                      By{' '}
+                      {exercise.user.profile
+                        ? `@${exercise.user.profile.username}`
+                        : exercise.user.name}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleReview(exercise.id, true)}
+                  disabled={reviewingId === exercise.id}
+                  className="p-2 hover:bg-zinc-700 rounded-lg disabled:opacity-50"
+                  title="Approve"
+                >
+                  <Check className="w-4 h-4 text-green-400" />
+                </button>
+                <button
+                  onClick={() => handleReview(exercise.id, false)}
+                  disabled={reviewingId === exercise.id}
+                  className="p-2 hover:bg-zinc-700 rounded-lg disabled:opacity-50"
+                  title="Reject"
+                >
+                  <X className="w-4 h-4 text-red-400" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
@@ -11,6 +11,7 @@ import {
   History,
   Mail,
   Medal,
+  Ruler,
   Settings,
   Share2,
   Trophy,
@@ -63,7 +64,7 @@ interface FollowCountsData {
 }
 
 function ProfilePage() {
-  const { user, token } = useAuth()
+  const { user, token, preferences } = useAuth()
   const [recentAchievements, setRecentAchievements] = useState<
     Array<RecentAchievement>
   >([])
@@ -268,7 +269,7 @@ function ProfilePage() {
                 <span className="text-sm text-zinc-400">Volume</span>
               </div>
               <p className="text-2xl font-bold text-white">
-                {formatVolume(stats.totalVolume)}
+                {formatVolume(stats.totalVolume, preferences.weightUnit)}
               </p>
             </div>
             <div className="bg-zinc-800/50 border border-zinc-700/50 rounded-xl p-4">
@@ -422,6 +423,16 @@ function ProfilePage() {
               </div>
               <ChevronRight className="w-5 h-5 text-zinc-500" />
             </Link>
+            <Link
+              to="/measurements"
+              className="w-full flex items-center justify-between p-4 hover:bg-zinc-700/30 transition-colors"
+            >
+              <div className="flex items-center gap-3">
+                <Ruler className="w-5 h-5 text-zinc-400" />
+                <span className="text-white">Measurements & Photos</span>
+              </div>
+              <ChevronRight className="w-5 h-5 text-zinc-500" />
+            </Link>
           </div>
         </StatsSection>
 
@@ -3,15 +3,30 @@ import { useEffect, useState } from 'react'
 import {
   ArrowLeft,
   ChevronRight,
+  Clock,
+  Download,
   Dumbbell,
   LogOut,
+  Scale,
   Settings,
   Shield,
   User,
 } from 'lucide-react'
+import type { DistanceUnit, WeightUnit } from '@prisma/client'
+import type { LengthUnit } from '@/lib/measurements'
+import type { E1rmFormula } from '@/lib/progression-utils'
+import type { LifterSex } from '@/lib/relative-strength'
 import { useAuth } from '@/context/AuthContext'
 import { useToast } from '@/context/ToastContext'
+import { exportAccountData } from '@/lib/account-export.server'
+import { getProgressPhoto } from '@/lib/progress-photos.server'
 import { getUserProfile, updateUserProfile } from '@/lib/profile.server'
+import { STALE_SESSION_HOURS_OPTIONS, WEIGHT_UNITS } from '@/lib/preferences'
+import { WEIGHT_UNIT_LABELS } from '@/lib/weight-utils'
+import { LENGTH_UNITS, LENGTH_UNIT_LABELS } from '@/lib/measurements'
+import { DISTANCE_UNITS, DISTANCE_UNIT_LABELS } from '@/lib/cardio'
+import { E1RM_FORMULAS, E1RM_FORMULA_LABELS } from '@/lib/progression-utils'
+import { LIFTER_SEXES, LIFTER_SEX_LABELS } from '@/lib/relative-strength'
 import AppLayout from '@/components/AppLayout'
 import { Skeleton } from '@/components/ui/Skeleton'
 import EmptyState from '@/components/ui/EmptyState'
@@ -28,11 +43,24 @@ interface ProfileData {
 }
 
 function SettingsPage() {
-  const { user, token, logout, isLoading: isAuthLoading } = useAuth()
+  const {
+    user,
+    token,
+    preferences,
+    updatePreferences,
+    logout,
+    isLoading: isAuthLoading,
+  } = useAuth()
   const { showToast } = useToast()
   const navigate = useNavigate()
   const [profile, setProfile] = useState<ProfileData | null>(null)
   const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+  // Progress photos saved so far while an export downloads them
+  const [photosSaved, setPhotosSaved] = useState<{
+    done: number
+    total: number
+  } | null>(null)
 
   useEffect(() => {
     if (!user) return
@@ -67,6 +95,106 @@ function SettingsPage() {
     }
   }
 
+  const changeWeightUnit = async (weightUnit: WeightUnit) => {
+    if (weightUnit === preferences.weightUnit) return
+    try {
+      await updatePreferences({ weightUnit })
+    } catch {
+      showToast('error', 'Failed to update unit')
+    }
+  }
+
+  const changeLengthUnit = async (lengthUnit: LengthUnit) => {
+    if (lengthUnit === preferences.lengthUnit) return
+    try {
+      await updatePreferences({ lengthUnit })
+    } catch {
+      showToast('error', 'Failed to update unit')
+    }
+  }
+
+  const changeDistanceUnit = async (distanceUnit: DistanceUnit) => {
+    if (distanceUnit === preferences.distanceUnit) return
+    try {
+      await updatePreferences({ distanceUnit })
+    } catch {
+      showToast('error', 'Failed to update unit')
+    }
+  }
+
+  const changeStaleSessionHours = async (staleSessionHours: number | null) => {
+    if (staleSessionHours === preferences.staleSessionHours) return
+    try {
+      await updatePreferences({ staleSessionHours })
+    } catch {
+      showToast('error', 'Failed to update auto-close')
+    }
+  }
+
+  const changeE1rmFormula = async (e1rmFormula: E1rmFormula) => {
+    if (e1rmFormula === preferences.e1rmFormula) return
+    try {
+      await updatePreferences({ e1rmFormula })
+    } catch {
+      showToast('error', 'Failed to update 1RM formula')
+    }
+  }
+
+  const changeLifterSex = async (lifterSex: LifterSex | null) => {
+    if (lifterSex === preferences.lifterSex) return
+    try {
+      await updatePreferences({ lifterSex })
+    } catch {
+      showToast('error', 'Failed to update strength scores')
+    }
+  }
+
+  const saveFile = (href: string, fileName: string) => {
+    const link = document.createElement('a')
+    link.href = href
+    link.download = fileName
+    link.click()
+  }
+
+  const downloadAccountData = async () => {
+    setExporting(true)
+    try {
+      const data = await exportAccountData({ data: { token } })
+      const blob = new Blob([JSON.stringify(data, null, 2)], {
+        type: 'application/json',
+      })
+      const url = URL.createObjectURL(blob)
+      saveFile(
+        url,
+        `gymlink-export-${new Date().toISOString().slice(0, 10)}.json`,
+      )
+      URL.revokeObjectURL(url)
+
+      // Photos are listed in the export; save each one next to it, one at a
+      // time so only a single image is ever held in memory
+      let failed = 0
+      for (const [i, photo] of data.progressPhotos.entries()) {
+        setPhotosSaved({ done: i, total: data.progressPhotos.length })
+        try {
+          const { dataUrl, fileName } = await getProgressPhoto({
+            data: { token, id: photo.id },
+          })
+          saveFile(dataUrl, fileName)
+        } catch {
+          failed++
+        }
+      }
+      if (failed > 0) {
+        showToast('error', `${failed} progress photos could not be saved`)
+      }
+    } catch {
+      showToast('error', 'Failed to export your data')
+    } finally {
+      setExporting(false)
+      setPhotosSaved(null)
+    }
+  }
+
   if (loading) {
     return (
       <AppLayout title="Settings" showNav={false}>
@@ -163,6 +291,160 @@ function SettingsPage() {
           </div>
         </StatsSection>
 
+        {/* Units */}
+        <StatsSection icon={<Scale />} title="Units">
+          <div className="rounded-xl bg-zinc-800/50 border border-zinc-700/50 divide-y divide-zinc-700/50">
+            <div className="flex items-center justify-between p-4">
+              <div>
+                <p className="text-white font-medium">Weight Unit</p>
+                <p className="text-sm text-zinc-500">
+                  Used for logging sets and displaying weights
+                </p>
+              </div>
+              <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50">
+                {WEIGHT_UNITS.map((unit) => (
+                  <button
+                    key={unit}
+                    onClick={() => changeWeightUnit(unit)}
+                    className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      preferences.weightUnit === unit
+                        ? 'bg-blue-500 text-white'
+                        : 'text-zinc-400 hover:text-white hover:bg-zinc-700/50'
+                    }`}
+                  >
+                    {WEIGHT_UNIT_LABELS[unit]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between p-4">
+              <div>
+                <p className="text-white font-medium">Length Unit</p>
+                <p className="text-sm text-zinc-500">
+                  Used for body measurements
+                </p>
+              </div>
+              <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50">
+                {LENGTH_UNITS.map((unit) => (
+                  <button
+                    key={unit}
+                    onClick={() => changeLengthUnit(unit)}
+                    className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      preferences.lengthUnit === unit
+                        ? 'bg-blue-500 text-white'
+                        : 'text-zinc-400 hover:text-white hover:bg-zinc-700/50'
+                    }`}
+                  >
+                    {LENGTH_UNIT_LABELS[unit]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between p-4">
+              <div>
+                <p className="text-white font-medium">Distance Unit</p>
+                <p className="text-sm text-zinc-500">
+                  Default for cardio sets and records
+                </p>
+              </div>
+              <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50">
+                {DISTANCE_UNITS.map((unit) => (
+                  <button
+                    key={unit}
+                    onClick={() => changeDistanceUnit(unit)}
+                    className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      preferences.distanceUnit === unit
+                        ? 'bg-blue-500 text-white'
+                        : 'text-zinc-400 hover:text-white hover:bg-zinc-700/50'
+                    }`}
+                  >
+                    {DISTANCE_UNIT_LABELS[unit]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </StatsSection>
+
+        {/* Workouts */}
+        <StatsSection icon={<Clock />} title="Workouts">
+          <div className="space-y-3">
+            <div className="rounded-xl bg-zinc-800/50 border border-zinc-700/50 p-4 space-y-3">
+              <div>
+                <p className="text-white font-medium">
+                  Auto-close Idle Workouts
+                </p>
+                <p className="text-sm text-zinc-500">
+                  Close a workout at its last set after this long without
+                  logging
+                </p>
+              </div>
+              <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50">
+                {[...STALE_SESSION_HOURS_OPTIONS, null].map((hours) => (
+                  <button
+                    key={hours ?? 'off'}
+                    onClick={() => changeStaleSessionHours(hours)}
+                    className={`flex-1 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      preferences.staleSessionHours === hours
+                        ? 'bg-blue-500 text-white'
+                        : 'text-zinc-400 hover:text-white hover:bg-zinc-700/50'
+                    }`}
+                  >
+                    {hours === null ? 'Off' : `${hours}h`}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="rounded-xl bg-zinc-800/50 border border-zinc-700/50 p-4 space-y-3">
+              <div>
+                <p className="text-white font-medium">Estimated 1RM Formula</p>
+                <p className="text-sm text-zinc-500">
+                  Used for e1RM records and progress charts
+                </p>
+              </div>
+              <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50">
+                {E1RM_FORMULAS.map((formula) => (
+                  <button
+                    key={formula}
+                    onClick={() => changeE1rmFormula(formula)}
+                    className={`flex-1 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      preferences.e1rmFormula === formula
+                        ? 'bg-blue-500 text-white'
+                        : 'text-zinc-400 hover:text-white hover:bg-zinc-700/50'
+                    }`}
+                  >
+                    {E1RM_FORMULA_LABELS[formula]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="rounded-xl bg-zinc-800/50 border border-zinc-700/50 p-4 space-y-3">
+              <div>
+                <p className="text-white font-medium">Strength Scores</p>
+                <p className="text-sm text-zinc-500">
+                  Category for DOTS, Wilks and IPF GL, shown on stats,
+                  leaderboards and comparisons
+                </p>
+              </div>
+              <div className="flex gap-1 p-1 rounded-lg bg-zinc-800/50">
+                {[...LIFTER_SEXES, null].map((sex) => (
+                  <button
+                    key={sex ?? 'off'}
+                    onClick={() => changeLifterSex(sex)}
+                    className={`flex-1 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      preferences.lifterSex === sex
+                        ? 'bg-blue-500 text-white'
+                        : 'text-zinc-400 hover:text-white hover:bg-zinc-700/50'
+                    }`}
+                  >
+                    {sex === null ? 'Off' : LIFTER_SEX_LABELS[sex]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </StatsSection>
+
         {/* General */}
         <StatsSection icon={<Settings />} title="General">
           <div className="rounded-xl bg-zinc-800/50 border border-zinc-700/50 divide-y divide-zinc-700/50">
@@ -188,12 +470,40 @@ function SettingsPage() {
                 <ChevronRight className="w-5 h-5 text-zinc-500" />
               </Link>
             )}
+            {user?.isAdmin && (
+              <Link
+                to="/profile/exercises-admin"
+                className="w-full flex items-center justify-between p-4 hover:bg-zinc-700/30 transition-colors"
+              >
+                <div className="flex items-center gap-3">
+                  <Shield className="w-5 h-5 text-amber-400" />
+                  <span className="text-white">Review Exercises</span>
+                </div>
+                <ChevronRight className="w-5 h-5 text-zinc-500" />
+              </Link>
+            )}
           </div>
         </StatsSection>
 
         {/* Account */}
         <StatsSection icon={<User />} title="Account">
-          <div className="rounded-xl bg-zinc-800/50 border border-zinc-700/50">
+          <div className="rounded-xl bg-zinc-800/50 border border-zinc-700/50 divide-y divide-zinc-700/50">
+            <button
+              onClick={downloadAccountData}
+              disabled={exporting}
+              className="w-full flex items-center justify-between p-4 hover:bg-zinc-700/30 transition-colors text-white disabled:opacity-50"
+            >
+              <div className="flex items-center gap-3">
+                <Download className="w-5 h-5 text-zinc-400" />
+                <span>
+                  {photosSaved
+                    ? `Saving photos... ${photosSaved.done} of ${photosSaved.total}`
+                    : exporting
+                      ? 'Preparing export...'
+                      : 'Download My Data'}
+                </span>
+              </div>
+            </button>
             <button
               onClick={logout}
               disabled={isAuthLoading}
@@ -1,10 +1,31 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { useEffect, useMemo, useState } from 'react'
-import { ArrowLeft, Calendar, Clock, Dumbbell, TrendingUp } from 'lucide-react'
-import type { Equipment, MuscleGroup, RecordType } from '@prisma/client'
+import {
+  ArrowLeft,
+  Award,
+  Calendar,
+  Clock,
+  Dumbbell,
+  Medal,
+  TrendingUp,
+  Trophy,
+} from 'lucide-react'
+import type {
+  AchievementCategory,
+  AchievementRarity,
+  Equipment,
+  ExerciseAchievementMetric,
+  ExerciseType,
+  MuscleGroup,
+  RecordType,
+} from '@prisma/client'
 import type { TimeRange } from '@/components/progression/TimeRangeSelector'
-import type { ProgressionDataPoint } from '@/lib/progression.server'
+import type {
+  PrHistoryPoint,
+  ProgressionDataPoint,
+} from '@/lib/progression.server'
 import type { ProgressionMetric } from '@/lib/progression-utils'
+import type { AchievementProgress } from '@/lib/achievement-rules'
 import { Skeleton, SkeletonStatsCard } from '@/components/ui/Skeleton'
 import { SkeletonChart } from '@/components/ui/SocialSkeletons'
 import EmptyState from '@/components/ui/EmptyState'
@@ -15,7 +36,24 @@ import TimeRangeSelector, {
   getStartDateForRange,
 } from '@/components/progression/TimeRangeSelector'
 import MetricSelector from '@/components/progression/MetricSelector'
+import PrStaircaseChart from '@/components/progression/PrStaircaseChart'
+import RepMaxTable from '@/components/prs/RepMaxTable'
+import {
+  AchievementBadge,
+  AchievementProgressBar,
+} from '@/components/achievements'
+import { getExerciseAchievements } from '@/lib/achievements.server'
+import { getAchievementUnit } from '@/lib/achievement-rules'
+import {
+  formatDistanceMeters,
+  formatRaceTime,
+  formatStrengthRecord,
+  formatWeightKg,
+} from '@/lib/formatting'
+import { isStrengthRecord } from '@/lib/pr-utils'
+import { WEIGHT_UNIT_LABELS, convertFromKg } from '@/lib/weight-utils'
 import {
+  getExercisePrHistory,
   getExerciseProgression,
   getExerciseRecentSessions,
   getExerciseSummary,
@@ -23,6 +61,7 @@ import {
 import {
   calculateImprovement,
   getAvailableMetrics,
+  isLowerBetterMetric,
 } from '@/lib/progression-utils'
 
 export const Route = createFileRoute('/progress/$exerciseId')({
@@ -35,6 +74,7 @@ type ExerciseSummary = {
     name: string
     muscleGroup: MuscleGroup
     equipment: Equipment
+    exerciseType: ExerciseType
     isTimed: boolean
   }
   totalSessions: number
@@ -58,16 +98,35 @@ type RecentSession = {
   bestReps: number
   totalVolume: number
   bestTime: number
+  bestDistance: number // meters
+}
+
+type ExerciseAchievement = {
+  id: string
+  category: AchievementCategory
+  name: string
+  description: string
+  icon: string
+  rarity: AchievementRarity
+  threshold: number
+  exerciseMetric: ExerciseAchievementMetric | null
+  earned: boolean
+  earnedAt: Date | null
+  progress: AchievementProgress
 }
 
 function ProgressPage() {
   const { exerciseId } = Route.useParams()
-  const { user, token } = useAuth()
+  const { user, token, preferences } = useAuth()
 
   const [loading, setLoading] = useState(true)
   const [summary, setSummary] = useState<ExerciseSummary | null>(null)
   const [dataPoints, setDataPoints] = useState<Array<ProgressionDataPoint>>([])
   const [recentSessions, setRecentSessions] = useState<Array<RecentSession>>([])
+  const [prHistory, setPrHistory] = useState<Array<PrHistoryPoint>>([])
+  const [achievements, setAchievements] = useState<Array<ExerciseAchievement>>(
+    [],
+  )
   const [timeRange, setTimeRange] = useState<TimeRange>('all')
   const [metric, setMetric] = useState<ProgressionMetric>('max_weight')
 
@@ -77,6 +136,7 @@ function ProgressPage() {
     return getAvailableMetrics(
       summary.exercise.isTimed,
       summary.exercise.equipment,
+      summary.exercise.exerciseType,
     )
   }, [summary])
 
@@ -96,15 +156,20 @@ function ProgressPage() {
       if (!user) return
 
       try {
-        const [summaryRes, sessionsRes] = await Promise.all([
-          getExerciseSummary({ data: { token, exerciseId } }),
-          getExerciseRecentSessions({
-            data: { token, exerciseId, limit: 5 },
-          }),
-        ])
+        const [summaryRes, sessionsRes, prHistoryRes, achievementsRes] =
+          await Promise.all([
+            getExerciseSummary({ data: { token, exerciseId } }),
+            getExerciseRecentSessions({
+              data: { token, exerciseId, limit: 5 },
+            }),
+            getExercisePrHistory({ data: { token, exerciseId } }),
+            getExerciseAchievements({ data: { token, exerciseId } }),
+          ])
 
         setSummary(summaryRes)
         setRecentSessions(sessionsRes.sessions)
+        setPrHistory(prHistoryRes.history)
+        setAchievements(achievementsRes.achievements)
       } catch (error) {
         console.error('Failed to fetch exercise summary:', error)
       }
@@ -126,6 +191,7 @@ function ProgressPage() {
             token,
             exerciseId,
             metric,
+            e1rmFormula: preferences.e1rmFormula,
             startDate,
           },
         })
@@ -138,18 +204,22 @@ function ProgressPage() {
     }
 
     fetchProgression()
-  }, [user, exerciseId, metric, timeRange])
+  }, [user, exerciseId, metric, timeRange, preferences.e1rmFormula])
 
   // Calculate improvement percentage
   const improvement = useMemo(() => {
     if (dataPoints.length < 2) return null
     const firstValue = dataPoints[0].value
     const lastValue = dataPoints[dataPoints.length - 1].value
-    return calculateImprovement(firstValue, lastValue)
-  }, [dataPoints])
+    return calculateImprovement(
+      firstValue,
+      lastValue,
+      isLowerBetterMetric(metric),
+    )
+  }, [dataPoints, metric])
 
-  const formatDate = (dateStr: string) => {
-    return new Date(dateStr).toLocaleDateString('en-US', {
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
       month: 'short',
       day: 'numeric',
     })
@@ -167,13 +237,20 @@ function ProgressPage() {
   const formatPR = () => {
     if (!summary?.currentPR) return null
     const pr = summary.currentPR
+    if (isStrengthRecord(pr.recordType)) {
+      return formatStrengthRecord(
+        pr.recordType,
+        pr.value,
+        preferences.weightUnit,
+      )
+    }
     switch (pr.recordType) {
       case 'MAX_VOLUME':
         if (pr.weight && pr.reps) {
-          return `${pr.weight}kg x ${pr.reps}`
+          return `${formatWeightKg(pr.weight, preferences.weightUnit)} x ${pr.reps}`
         }
         if (pr.weight && pr.timeSeconds) {
-          return `${pr.weight}kg x ${formatTime(pr.timeSeconds)}`
+          return `${formatWeightKg(pr.weight, preferences.weightUnit)} x ${formatTime(pr.timeSeconds)}`
         }
         if (pr.reps) return `${pr.reps} reps`
         if (pr.timeSeconds) return formatTime(pr.timeSeconds)
@@ -183,7 +260,13 @@ function ProgressPage() {
       case 'MAX_REPS':
         return `${pr.value} reps`
       case 'MAX_WEIGHT':
-        return `${pr.value}kg`
+        return formatWeightKg(pr.value, preferences.weightUnit)
+      case 'MAX_DISTANCE':
+        return formatDistanceMeters(pr.value, preferences.distanceUnit)
+      case 'FASTEST_1K':
+      case 'FASTEST_5K':
+      case 'FASTEST_10K':
+        return formatRaceTime(pr.value)
       default:
         return `${pr.value}`
     }
@@ -333,7 +416,12 @@ function ProgressPage() {
               </p>
             </div>
           ) : (
-            <ProgressionChart data={dataPoints} metric={metric} />
+            <ProgressionChart
+              data={dataPoints}
+              metric={metric}
+              weightUnit={preferences.weightUnit}
+              distanceUnit={preferences.distanceUnit}
+            />
           )}
         </div>
 
@@ -371,6 +459,91 @@ function ProgressPage() {
           </div>
         </div>
 
+        {/* PR History */}
+        {prHistory.length > 0 && (
+          <section
+            className="animate-fade-in"
+            style={{ animationDelay: '115ms', animationFillMode: 'backwards' }}
+          >
+            <h2 className="text-sm font-medium text-zinc-400 mb-3 px-1 flex items-center gap-2">
+              <Trophy className="w-4 h-4" />
+              PR History
+            </h2>
+            <div className="p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
+              <PrStaircaseChart
+                history={prHistory}
+                isBodyweight={summary.exercise.equipment === 'BODYWEIGHT'}
+                weightUnit={preferences.weightUnit}
+                distanceUnit={preferences.distanceUnit}
+              />
+            </div>
+          </section>
+        )}
+
+        {/* Rep Maxes */}
+        {!summary.exercise.isTimed && (
+          <section
+            className="animate-fade-in"
+            style={{ animationDelay: '120ms', animationFillMode: 'backwards' }}
+          >
+            <h2 className="text-sm font-medium text-zinc-400 mb-3 px-1 flex items-center gap-2">
+              <Medal className="w-4 h-4" />
+              Rep Maxes
+            </h2>
+            <div className="p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
+              <RepMaxTable exerciseId={exerciseId} />
+            </div>
+          </section>
+        )}
+
+        {/* Exercise Achievements */}
+        {achievements.length > 0 && (
+          <section
+            className="animate-fade-in"
+            style={{ animationDelay: '125ms', animationFillMode: 'backwards' }}
+          >
+            <h2 className="text-sm font-medium text-zinc-400 mb-3 px-1 flex items-center gap-2">
+              <Award className="w-4 h-4" />
+              Achievements
+            </h2>
+            <div className="rounded-xl bg-zinc-800/50 border border-zinc-700/50 divide-y divide-zinc-700/50">
+              {achievements.map((achievement) => (
+                <div
+                  key={achievement.id}
+                  className="p-3 flex items-center gap-3"
+                >
+                  <AchievementBadge
+                    icon={achievement.icon}
+                    rarity={achievement.rarity}
+                    earned={achievement.earned}
+                    size="sm"
+                    showLock={!achievement.earned}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p
+                      className={`font-medium truncate ${achievement.earned ? 'text-white' : 'text-zinc-400'}`}
+                    >
+                      {achievement.name}
+                    </p>
+                    {achievement.earned && achievement.earnedAt ? (
+                      <p className="text-xs text-zinc-500">
+                        Earned {formatDate(achievement.earnedAt)}
+                      </p>
+                    ) : (
+                      <div className="mt-1.5">
+                        <AchievementProgressBar
+                          progress={achievement.progress}
+                          unit={getAchievementUnit(achievement)}
+                        />
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Recent Sessions */}
         {recentSessions.length > 0 && (
           <section
@@ -393,7 +566,23 @@ function ProgressPage() {
                     </p>
                   </div>
                   <div className="text-right">
-                    {summary.exercise.isTimed ? (
+                    {summary.exercise.exerciseType === 'CARDIO' &&
+                    session.bestDistance > 0 ? (
+                      <>
+                        <p className="text-sm font-medium text-white">
+                          {formatDistanceMeters(
+                            session.bestDistance,
+                            preferences.distanceUnit,
+                          )}
+                        </p>
+                        {session.bestTime > 0 && (
+                          <p className="text-xs text-zinc-500 flex items-center justify-end gap-1">
+                            <Clock className="w-3 h-3" />
+                            {formatTime(session.bestTime)}
+                          </p>
+                        )}
+                      </>
+                    ) : summary.exercise.isTimed ? (
                       <p className="text-sm font-medium text-white flex items-center gap-1">
                         <Clock className="w-3 h-3" />
                         {formatTime(session.bestTime)}
@@ -411,10 +600,21 @@ function ProgressPage() {
                     ) : (
                       <>
                         <p className="text-sm font-medium text-white">
-                          {session.bestWeight}kg x {session.bestReps}
+                          {formatWeightKg(
+                            session.bestWeight,
+                            preferences.weightUnit,
+                          )}{' '}
+                          x {session.bestReps}
                         </p>
                         <p className="text-xs text-zinc-500">
-                          Vol: {session.totalVolume.toLocaleString()}kg
+                          Vol:{' '}
+                          {Math.round(
+                            convertFromKg(
+                              session.totalVolume,
+                              preferences.weightUnit,
+                            ),
+                          ).toLocaleString()}
+                          {WEIGHT_UNIT_LABELS[preferences.weightUnit]}
                         </p>
                       </>
                     )}
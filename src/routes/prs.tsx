@@ -1,14 +1,22 @@
 import { createFileRoute, useNavigate, useRouter } from '@tanstack/react-router'
 import { useEffect, useMemo, useState } from 'react'
-import { ArrowLeft, LineChart, TrendingUp, Trophy } from 'lucide-react'
+import {
+  ArrowLeft,
+  ChevronDown,
+  LineChart,
+  TrendingUp,
+  Trophy,
+} from 'lucide-react'
 import type { MuscleGroup, RecordType } from '@prisma/client'
 import type { PRSortMode } from '@/components/prs/PRSortSelector'
 import { useAuth } from '@/context/AuthContext'
 import { formatPR } from '@/lib/formatting'
+import { isLowerBetterRecord } from '@/lib/pr-utils'
 import { SkeletonPRRow } from '@/components/ui/SocialSkeletons'
 import EmptyState from '@/components/ui/EmptyState'
 import MuscleGroupBadge from '@/components/exercises/MuscleGroupBadge'
 import PRSortSelector from '@/components/prs/PRSortSelector'
+import RepMaxTable from '@/components/prs/RepMaxTable'
 import { getUserExercisePRs } from '@/lib/stats.server'
 
 export const Route = createFileRoute('/prs')({
@@ -42,7 +50,7 @@ const muscleGroupOrder: Array<MuscleGroup> = [
 ]
 
 function PRsPage() {
-  const { user, token } = useAuth()
+  const { user, token, preferences } = useAuth()
   const navigate = useNavigate()
   const router = useRouter()
 
@@ -50,6 +58,8 @@ function PRsPage() {
   const [grouped, setGrouped] = useState<GroupedPRs>({})
   const [total, setTotal] = useState(0)
   const [sortMode, setSortMode] = useState<PRSortMode>('muscle')
+  // Exercise whose rep-max table is open
+  const [expandedId, setExpandedId] = useState<string | null>(null)
 
   useEffect(() => {
     const fetchPRs = async () => {
@@ -79,9 +89,10 @@ function PRsPage() {
 
   const getImprovement = (pr: ExercisePR): number | null => {
     if (pr.previousRecord && pr.previousRecord > 0) {
-      return Math.round(
-        ((pr.value - pr.previousRecord) / pr.previousRecord) * 100,
-      )
+      const gain = isLowerBetterRecord(pr.recordType)
+        ? pr.previousRecord - pr.value
+        : pr.value - pr.previousRecord
+      return Math.round((gain / pr.previousRecord) * 100)
     }
     return null
   }
@@ -151,48 +162,69 @@ function PRsPage() {
   const renderPRRow = (pr: ExercisePR) => {
     const improvement = getImprovement(pr)
     const isRecent = isNewPR(pr)
+    const isExpanded = expandedId === pr.exerciseId
 
     return (
-      <div
-        key={`${pr.exerciseId}-${pr.recordType}`}
-        className="p-4 flex items-center gap-3"
-      >
-        <div className="w-10 h-10 rounded-full bg-yellow-500/20 flex items-center justify-center flex-shrink-0">
-          <Trophy className="w-5 h-5 text-yellow-400" />
-        </div>
-        <div className="flex-1 min-w-0">
-          <div className="flex items-center gap-2">
-            <p className="font-medium text-white truncate">{pr.exerciseName}</p>
-            {isRecent && (
-              <span className="px-1.5 py-0.5 rounded-full bg-blue-500/20 text-blue-400 text-[10px] font-semibold uppercase flex-shrink-0">
-                New
-              </span>
-            )}
+      <div key={`${pr.exerciseId}-${pr.recordType}`}>
+        <div className="p-4 flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-yellow-500/20 flex items-center justify-center flex-shrink-0">
+            <Trophy className="w-5 h-5 text-yellow-400" />
           </div>
-          <div className="flex items-center gap-2 mt-0.5">
-            <p className="text-sm text-zinc-400">{formatPR(pr)}</p>
-            {improvement !== null && improvement > 0 && (
-              <span className="flex items-center gap-0.5 text-xs font-medium text-green-400">
-                <TrendingUp className="w-3 h-3" />+{improvement}%
-              </span>
-            )}
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <p className="font-medium text-white truncate">
+                {pr.exerciseName}
+              </p>
+              {isRecent && (
+                <span className="px-1.5 py-0.5 rounded-full bg-blue-500/20 text-blue-400 text-[10px] font-semibold uppercase flex-shrink-0">
+                  New
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2 mt-0.5">
+              <p className="text-sm text-zinc-400">
+                {formatPR(pr, preferences.weightUnit, preferences.distanceUnit)}
+              </p>
+              {improvement !== null && improvement > 0 && (
+                <span className="flex items-center gap-0.5 text-xs font-medium text-green-400">
+                  <TrendingUp className="w-3 h-3" />+{improvement}%
+                </span>
+              )}
+            </div>
           </div>
+          <div className="text-xs text-zinc-500 text-right mr-2 flex-shrink-0">
+            {formatDate(pr.achievedAt)}
+          </div>
+          <button
+            onClick={() =>
+              navigate({
+                to: '/progress/$exerciseId',
+                params: { exerciseId: pr.exerciseId },
+              })
+            }
+            className="p-2 text-zinc-400 hover:text-blue-400 rounded-lg hover:bg-zinc-700/50 transition-colors focus:outline-none active:scale-95"
+            title="View progress"
+          >
+            <LineChart className="w-4 h-4" />
+          </button>
+          {!pr.isTimed && (
+            <button
+              onClick={() => setExpandedId(isExpanded ? null : pr.exerciseId)}
+              className="p-2 -ml-2 text-zinc-400 hover:text-white rounded-lg hover:bg-zinc-700/50 transition-colors focus:outline-none active:scale-95"
+              title="Rep maxes"
+              aria-expanded={isExpanded}
+            >
+              <ChevronDown
+                className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+              />
+            </button>
+          )}
         </div>
-        <div className="text-xs text-zinc-500 text-right mr-2 flex-shrink-0">
-          {formatDate(pr.achievedAt)}
-        </div>
-        <button
-          onClick={() =>
-            navigate({
-              to: '/progress/$exerciseId',
-              params: { exerciseId: pr.exerciseId },
-            })
-          }
-          className="p-2 text-zinc-400 hover:text-blue-400 rounded-lg hover:bg-zinc-700/50 transition-colors focus:outline-none active:scale-95"
-          title="View progress"
-        >
-          <LineChart className="w-4 h-4" />
-        </button>
+        {isExpanded && (
+          <div className="px-4 pb-4">
+            <RepMaxTable exerciseId={pr.exerciseId} />
+          </div>
+        )}
       </div>
     )
   }
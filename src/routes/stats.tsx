@@ -8,6 +8,7 @@ import {
   Clock,
   Dumbbell,
   Flame,
+  Scale,
   Star,
   Target,
   Trophy,
@@ -36,6 +37,7 @@ import WeeklyHeatmap from '@/components/stats/WeeklyHeatmap'
 import RpeChart from '@/components/stats/RpeChart'
 import PrTimeline from '@/components/stats/PrTimeline'
 import AchievementShowcase from '@/components/stats/AchievementShowcase'
+import BodyweightCard from '@/components/stats/BodyweightCard'
 import {
   getDurationStats,
   getExerciseStats,
@@ -114,7 +116,7 @@ const rangeLabels: Record<TimeRange, string> = {
 }
 
 function StatsPage() {
-  const { user, token } = useAuth()
+  const { user, token, preferences } = useAuth()
 
   const [loading, setLoading] = useState(true)
   const [timeRange, setTimeRange] = useState<TimeRange>('all')
@@ -298,7 +300,10 @@ function StatsPage() {
             <StatCard
               icon={<Weight className="w-5 h-5" />}
               label="Volume"
-              value={formatVolume(overview?.totalVolume ?? 0)}
+              value={formatVolume(
+                overview?.totalVolume ?? 0,
+                preferences.weightUnit,
+              )}
               color="green"
               change={
                 hasPreviousStats
@@ -414,7 +419,11 @@ function StatsPage() {
           style={{ animationDelay: '200ms' }}
         >
           <div className="p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
-            <VolumeChart data={volumeHistory} granularity={granularity} />
+            <VolumeChart
+              data={volumeHistory}
+              granularity={granularity}
+              weightUnit={preferences.weightUnit}
+            />
           </div>
         </StatsSection>
 
@@ -489,11 +498,24 @@ function StatsPage() {
             style={{ animationDelay: '500ms' }}
           >
             <div className="p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
-              <PrTimeline timeline={prTimeline} />
+              <PrTimeline
+                timeline={prTimeline}
+                weightUnit={preferences.weightUnit}
+                distanceUnit={preferences.distanceUnit}
+              />
             </div>
           </StatsSection>
         )}
 
+        {/* 11. Body Weight */}
+        <StatsSection
+          icon={<Scale className="w-4 h-4" />}
+          title="Body Weight"
+          style={{ animationDelay: '550ms' }}
+        >
+          <BodyweightCard timeRange={timeRange} />
+        </StatsSection>
+
         {/* Empty state if no data */}
         {overview?.totalWorkouts === 0 && (
           <div className="p-8 rounded-xl bg-zinc-800/50 border border-zinc-700/50 text-center">
@@ -65,7 +65,7 @@ interface AchievementData {
 
 function PublicProfilePage() {
   const { username } = Route.useParams()
-  const { user, token } = useAuth()
+  const { user, token, preferences } = useAuth()
   const navigate = useNavigate()
 
   const [profile, setProfile] = useState<ProfileData | null>(null)
@@ -312,7 +312,7 @@ function PublicProfilePage() {
                   <span className="text-sm text-zinc-400">Volume</span>
                 </div>
                 <p className="text-2xl font-bold text-white">
-                  {formatVolume(stats.totalVolume)}
+                  {formatVolume(stats.totalVolume, preferences.weightUnit)}
                 </p>
               </div>
               <div className="bg-zinc-800/50 border border-zinc-700/50 rounded-xl p-4">
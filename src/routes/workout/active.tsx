@@ -1,12 +1,21 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useCallback, useEffect, useRef, useState } from 'react'
-import { Dumbbell, Plus } from 'lucide-react'
+import { CloudOff, Dumbbell, Plus } from 'lucide-react'
 import type {
+  DistanceUnit,
   Exercise,
+  ExerciseGroupType,
   PlanExercise,
+  PlanExerciseGroup,
+  PlanSetPrescription,
+  ProgressionSuggestion,
+  RecordType,
   WeightUnit,
   WorkoutSet,
 } from '@prisma/client'
+import type { QueuedSetOperation } from '@/lib/offline-queue'
+import type { PlanWeekSettings } from '@/lib/plan-weeks'
+import type { SyncResult } from '@/hooks/useOfflineSync'
 import AppLayout from '@/components/AppLayout'
 import EmptyState from '@/components/ui/EmptyState'
 import ConfirmDialog from '@/components/ui/ConfirmDialog'
@@ -14,7 +23,9 @@ import Confetti from '@/components/ui/Confetti'
 import PRToast from '@/components/ui/PRToast'
 import WorkoutHeader from '@/components/workout/WorkoutHeader'
 import ExerciseWorkoutCard from '@/components/workout/ExerciseWorkoutCard'
+import ExerciseGroupBlock from '@/components/plans/ExerciseGroupBlock'
 import SetLoggerModal from '@/components/workout/SetLoggerModal'
+import SwapExerciseSheet from '@/components/workout/SwapExerciseSheet'
 import RestTimer, {
   clearPersistedRestTimer,
   getPersistedRestTimer,
@@ -22,40 +33,150 @@ import RestTimer, {
 import ExercisePicker from '@/components/exercises/ExercisePicker'
 import { SkeletonExerciseCard } from '@/components/ui/Skeleton'
 import {
-  deleteWorkoutSet,
   discardWorkoutSession,
   getActiveSession,
   getLastExerciseSets,
-  logWorkoutSet,
+  substituteExercise,
 } from '@/lib/workouts.server'
+import {
+  applyQueuedOperations,
+  cacheActiveSession,
+  createClientId,
+  isNetworkError,
+  loadCachedSession,
+  loadQueue,
+} from '@/lib/offline-queue'
+import {
+  SET_TYPE_LABELS,
+  describeSetPrescription,
+  getPrescribedWeight,
+} from '@/lib/set-schemes'
+import { convertFromKg, convertWeight, normalizeToKg } from '@/lib/weight-utils'
+import {
+  applyPlanWeek,
+  describeWeekChanges,
+  formatBlockWeek,
+  getPlanWeek,
+  scaleWeekLoad,
+} from '@/lib/plan-weeks'
+import {
+  formatGroupSummary,
+  getNextInRound,
+  groupIntoBlocks,
+} from '@/lib/exercise-groups'
+import { carryOverTargets } from '@/lib/exercise-substitution'
 import { useAuth } from '@/context/AuthContext'
+import { useToast } from '@/context/ToastContext'
+import { useOfflineSync } from '@/hooks/useOfflineSync'
 
 export const Route = createFileRoute('/workout/active')({
   component: ActiveWorkoutPage,
 })
 
+type GroupedPlanExercise = PlanExercise & {
+  group: PlanExerciseGroup | null
+  // Next targets from the plan's progression scheme (missing in old caches)
+  progressionSuggestions?: Array<ProgressionSuggestion>
+  // Set-by-set scheme (missing in old caches)
+  setPrescriptions?: Array<PlanSetPrescription>
+  // Exercises the plan suggests first when swapping (missing in old caches)
+  alternates?: Array<{ exercise: Exercise }>
+}
+
 type WorkoutExercise = {
   exercise: Exercise
-  planExercise?: PlanExercise | null
+  planExercise?: GroupedPlanExercise | null
+  // The planned exercise this one is done in place of
+  substitutedFor?: Exercise
   sets: Array<WorkoutSet>
 }
 
 type SessionData = {
   id: string
   startedAt: Date
-  workoutPlan?: { id: string; name: string } | null
+  resumedAt: Date | null
+  durationSeconds: number | null
+  // Plan exercise id -> kg for %1RM targets (missing in old caches)
+  targetWeights?: unknown
+  // Week of the plan's training block it was started in
+  blockWeek?: number | null
+  workoutPlan?: {
+    id: string
+    name: string
+    blockWeeks?: number | null
+    weeks?: Array<PlanWeekSettings>
+  } | null
   planDay?: {
     id: string
     name: string
     dayOrder: number
-    planExercises: Array<{ exercise: Exercise } & PlanExercise>
+    planExercises: Array<{ exercise: Exercise } & GroupedPlanExercise>
   } | null
   workoutSets: Array<WorkoutSet & { exercise: Exercise }>
+  // Plan exercises swapped for another exercise (missing in old caches)
+  substitutions?: Array<{
+    planExerciseId: string
+    exerciseId: string
+    exercise: Exercise
+  }>
+}
+
+type QueuedLog = Extract<QueuedSetOperation, { kind: 'log' }>
+
+/** The workout as last loaded, for reopening it offline */
+function loadCachedWorkout(userId: string): SessionData | null {
+  const cached = loadCachedSession(userId) as SessionData | null
+  if (!cached) return null
+  return {
+    ...cached,
+    startedAt: new Date(cached.startedAt),
+    resumedAt: cached.resumedAt && new Date(cached.resumedAt),
+  }
+}
+
+/** The block week the session was started in, if its plan runs in blocks */
+function getSessionWeek(session: SessionData): PlanWeekSettings | null {
+  if (!session.blockWeek) return null
+  return getPlanWeek(session.workoutPlan?.weeks ?? [], session.blockWeek)
+}
+
+/** How a set the server has not seen yet appears in the workout */
+function buildQueuedSet(
+  op: QueuedLog,
+  exercise: Exercise,
+  groupType: ExerciseGroupType | null,
+): WorkoutSet & { exercise: Exercise } {
+  const { payload } = op
+  return {
+    id: op.setId,
+    workoutSessionId: payload.workoutSessionId,
+    exerciseId: payload.exerciseId,
+    setNumber: payload.setNumber,
+    reps: payload.reps ?? null,
+    timeSeconds: payload.timeSeconds ?? null,
+    weight: payload.weight ?? null,
+    weightUnit: payload.weightUnit ?? 'KG',
+    distance: payload.distance ?? null,
+    distanceUnit: payload.distanceUnit ?? 'KM',
+    avgHeartRate: payload.avgHeartRate ?? null,
+    maxHeartRate: payload.maxHeartRate ?? null,
+    level: payload.level ?? null,
+    calories: payload.calories ?? null,
+    isWarmup: payload.isWarmup ?? false,
+    isDropset: payload.isDropset ?? false,
+    rpe: payload.rpe ?? null,
+    notes: payload.notes ?? null,
+    completedAt: new Date(op.queuedAt),
+    groupId: payload.groupId ?? null,
+    groupType,
+    exercise,
+  }
 }
 
 function ActiveWorkoutPage() {
-  const { user, token } = useAuth()
+  const { user, token, preferences } = useAuth()
   const navigate = useNavigate()
+  const { showToast } = useToast()
 
   const [session, setSession] = useState<SessionData | null>(null)
   const [loading, setLoading] = useState(true)
@@ -65,6 +186,8 @@ function ActiveWorkoutPage() {
   const [showExitDialog, setShowExitDialog] = useState(false)
   const [showIncompleteConfirm, setShowIncompleteConfirm] = useState(false)
   const [showExercisePicker, setShowExercisePicker] = useState(false)
+  const [swappingExercise, setSwappingExercise] =
+    useState<WorkoutExercise | null>(null)
   const [loggingExercise, setLoggingExercise] =
     useState<WorkoutExercise | null>(null)
   const [previousWorkout, setPreviousWorkout] = useState<{
@@ -76,9 +199,10 @@ function ActiveWorkoutPage() {
       timeSeconds: number | null
       rpe: number | null
       weightUnit: WeightUnit
+      distance: number | null
+      distanceUnit: DistanceUnit
     }>
   } | null>(null)
-  const [isSubmitting, setIsSubmitting] = useState(false)
 
   // Expanded exercise tracking
   const [expandedExerciseId, setExpandedExerciseId] = useState<string | null>(
@@ -101,8 +225,9 @@ function ActiveWorkoutPage() {
     exerciseName: string
     newRecord: number
     previousRecord?: number
-    recordType: 'MAX_WEIGHT' | 'MAX_REPS' | 'MAX_VOLUME' | 'MAX_TIME'
+    recordType: RecordType
     weight?: number
+    weightUnit?: WeightUnit
     reps?: number
     timeSeconds?: number
   } | null>(null)
@@ -112,32 +237,78 @@ function ActiveWorkoutPage() {
     if (!user) return
 
     try {
-      const result = await getActiveSession({ data: { token } })
+      const cached = loadCachedWorkout(user.id)
+      let loaded: SessionData | null
+      try {
+        loaded = (await getActiveSession({ data: { token } })).session
+      } catch (error) {
+        // Offline: reopen the workout as it was last seen
+        if (!isNetworkError(error) || !cached) throw error
+        loaded = cached
+      }
 
-      if (!result.session) {
+      if (!loaded) {
         // No active session, redirect to workout home
+        cacheActiveSession(user.id, null)
         navigate({ to: '/workout' })
         return
       }
 
-      setSession(result.session)
+      // Show sets that are still queued as if they had synced
+      const planExercises = loaded.planDay?.planExercises ?? []
+      const substitutions = loaded.substitutions ?? []
+      const knownSets = [...loaded.workoutSets, ...(cached?.workoutSets ?? [])]
+      const current: SessionData = {
+        ...loaded,
+        workoutSets: applyQueuedOperations(
+          loaded.workoutSets,
+          loadQueue(user.id),
+          loaded.id,
+          (op) => {
+            const { exerciseId, groupId } = op.payload
+            const sub = substitutions.find((s) => s.exerciseId === exerciseId)
+            const pe = planExercises.find((p) =>
+              sub ? p.id === sub.planExerciseId : p.exerciseId === exerciseId,
+            )
+            const exercise =
+              sub?.exercise ??
+              pe?.exercise ??
+              knownSets.find((s) => s.exerciseId === exerciseId)?.exercise
+            if (!exercise) return null
+            const groupType = groupId ? (pe?.group?.groupType ?? null) : null
+            return buildQueuedSet(op, exercise, groupType)
+          },
+        ),
+      }
+
+      setSession(current)
 
       // Build exercises list from plan day and logged sets
       const exerciseMap = new Map<string, WorkoutExercise>()
 
-      // Add exercises from plan day
-      if (result.session.planDay?.planExercises) {
-        for (const pe of result.session.planDay.planExercises) {
-          exerciseMap.set(pe.exerciseId, {
-            exercise: pe.exercise,
-            planExercise: pe,
-            sets: [],
-          })
+      // Add exercises from plan day, with this week's targets. A swapped
+      // exercise takes over the planned one's targets, loads aside.
+      const week = getSessionWeek(current)
+      if (current.planDay?.planExercises) {
+        for (const pe of current.planDay.planExercises) {
+          const planExercise = week ? applyPlanWeek(pe, week) : pe
+          const sub = substitutions.find((s) => s.planExerciseId === pe.id)
+          exerciseMap.set(
+            sub?.exerciseId ?? pe.exerciseId,
+            sub
+              ? {
+                  exercise: sub.exercise,
+                  planExercise: carryOverTargets(planExercise),
+                  substitutedFor: pe.exercise,
+                  sets: [],
+                }
+              : { exercise: pe.exercise, planExercise, sets: [] },
+          )
         }
       }
 
       // Add sets to their exercises (and create entries for extra exercises)
-      for (const set of result.session.workoutSets) {
+      for (const set of current.workoutSets) {
         const existing = exerciseMap.get(set.exerciseId)
         if (existing) {
           existing.sets.push(set)
@@ -168,6 +339,52 @@ function ActiveWorkoutPage() {
     fetchSession()
   }, [fetchSession])
 
+  // Keep the latest state, queued sets included, for reopening offline
+  useEffect(() => {
+    if (user && session) cacheActiveSession(user.id, session)
+  }, [user, session])
+
+  // PRs are only known once a set reaches the server, so celebrate on sync
+  const handleSyncResult = useCallback(
+    (result: SyncResult) => {
+      const pr = [...result.loggedSets]
+        .reverse()
+        .find((s) => s.isNewPR && s.recordType && s.newRecord)
+      if (pr?.recordType && pr.newRecord) {
+        setShowConfetti(true)
+        setPRToast({
+          exerciseName: pr.workoutSet.exercise.name,
+          newRecord: pr.newRecord,
+          previousRecord: pr.previousRecord,
+          recordType: pr.recordType,
+          weight: pr.weight,
+          weightUnit: pr.weightUnit,
+          reps: pr.reps,
+          timeSeconds: pr.timeSeconds,
+        })
+      }
+      if (result.conflicts.length > 0) {
+        showToast(
+          'error',
+          `${result.conflicts.length} set change${result.conflicts.length !== 1 ? 's' : ''} could not be saved: ${result.conflicts[0]}`,
+        )
+      }
+      fetchSession()
+    },
+    [fetchSession, showToast],
+  )
+
+  const { pendingCount, isOnline, enqueue, sync } = useOfflineSync(
+    token,
+    user?.id ?? null,
+    handleSyncResult,
+  )
+
+  // Send anything left over from an earlier offline stretch
+  useEffect(() => {
+    if (user) sync().catch(console.error)
+  }, [user, sync])
+
   // Restore persisted rest timer on mount
   useEffect(() => {
     const persisted = getPersistedRestTimer()
@@ -192,6 +409,66 @@ function ActiveWorkoutPage() {
     }
   }, [exercises])
 
+  const sessionWeek = session ? getSessionWeek(session) : null
+  const targetWeights = Object.fromEntries(
+    Object.entries(
+      (session?.targetWeights ?? {}) as Record<string, number | undefined>,
+    ).map(([id, kg]) => [
+      id,
+      kg !== undefined && sessionWeek ? scaleWeekLoad(kg, sessionWeek) : kg,
+    ]),
+  )
+
+  // The scheme set the next logged set fills, if the plan spells sets out
+  const getNextPrescription = (ex: WorkoutExercise) => {
+    const prescriptions = ex.planExercise?.setPrescriptions ?? []
+    const index = ex.sets.length
+    const set = prescriptions.at(index)
+    if (!set) return null
+    const weight = getPrescribedWeight(
+      prescriptions,
+      index,
+      ex.sets.map((s) =>
+        s.weight === null ? null : normalizeToKg(s.weight, s.weightUnit),
+      ),
+      (i) => targetWeights[prescriptions[i].id],
+    )
+    return { set, weight }
+  }
+
+  // Plan targets are stored in kg; earlier sets keep the unit they were logged in
+  const getDefaultWeight = (ex: WorkoutExercise) => {
+    const prescribed = getNextPrescription(ex)?.weight
+    if (prescribed != null) {
+      return convertFromKg(prescribed, preferences.weightUnit)
+    }
+    const suggestion = ex.planExercise?.progressionSuggestions?.at(0)
+    if (suggestion) {
+      return convertFromKg(suggestion.weight, preferences.weightUnit)
+    }
+    const resolvedWeight =
+      ex.planExercise?.targetPercent1rm != null &&
+      targetWeights[ex.planExercise.id]
+    if (resolvedWeight) {
+      return convertFromKg(resolvedWeight, preferences.weightUnit)
+    }
+    const targetWeight = ex.planExercise?.targetWeight
+    if (targetWeight != null) {
+      return convertFromKg(targetWeight, preferences.weightUnit)
+    }
+    const lastSet = ex.sets.at(-1)
+    if (lastSet?.weight == null) return undefined
+    return convertWeight(
+      lastSet.weight,
+      lastSet.weightUnit,
+      preferences.weightUnit,
+    )
+  }
+
+  const nextPrescription = loggingExercise
+    ? getNextPrescription(loggingExercise)
+    : null
+
   // Handle opening the set logger modal (fetch previous workout data)
   const handleOpenSetLogger = useCallback(
     async (ex: WorkoutExercise) => {
@@ -216,67 +493,123 @@ function ActiveWorkoutPage() {
     [user, session, token],
   )
 
+  const countWorkingSets = (ex: WorkoutExercise) =>
+    ex.sets.filter((s) => !s.isWarmup).length
+
   // Handle set logging
   const handleLogSet = async (setData: {
     reps?: number
     timeSeconds?: number
     weight?: number
+    weightUnit: WeightUnit
+    distance?: number
+    distanceUnit: DistanceUnit
+    avgHeartRate?: number
+    maxHeartRate?: number
+    level?: number
+    calories?: number
     rpe?: number
     isWarmup: boolean
     isDropset: boolean
   }) => {
     if (!user || !session || !loggingExercise) return
 
-    setIsSubmitting(true)
-    try {
-      const setNumber = loggingExercise.sets.length + 1
+    const setNumber = loggingExercise.sets.length + 1
+    const { exercise, planExercise } = loggingExercise
+    const op: QueuedLog = {
+      kind: 'log',
+      setId: createClientId(),
+      queuedAt: new Date().toISOString(),
+      payload: {
+        workoutSessionId: session.id,
+        exerciseId: exercise.id,
+        setNumber,
+        reps: setData.reps,
+        timeSeconds: setData.timeSeconds,
+        weight: setData.weight,
+        weightUnit: setData.weightUnit,
+        distance: setData.distance,
+        distanceUnit: setData.distanceUnit,
+        avgHeartRate: setData.avgHeartRate,
+        maxHeartRate: setData.maxHeartRate,
+        level: setData.level,
+        calories: setData.calories,
+        rpe: setData.rpe,
+        isWarmup: setData.isWarmup,
+        isDropset: setData.isDropset,
+        groupId: planExercise?.groupId ?? undefined,
+      },
+    }
 
-      const result = await logWorkoutSet({
-        data: {
-          workoutSessionId: session.id,
-          exerciseId: loggingExercise.exercise.id,
-          setNumber,
-          reps: setData.reps,
-          timeSeconds: setData.timeSeconds,
-          weight: setData.weight,
-          rpe: setData.rpe,
-          isWarmup: setData.isWarmup,
-          isDropset: setData.isDropset,
-          token,
-        },
-      })
+    // Show the set right away; it is queued and synced in the background
+    const loggedSet = buildQueuedSet(
+      op,
+      exercise,
+      planExercise?.group?.groupType ?? null,
+    )
+    setSession((prev) =>
+      prev ? { ...prev, workoutSets: [...prev.workoutSets, loggedSet] } : prev,
+    )
+    setExercises((prev) =>
+      prev.map((e) =>
+        e.exercise.id === exercise.id
+          ? { ...e, sets: [...e.sets, loggedSet] }
+          : e,
+      ),
+    )
+    setLoggingExercise(null)
+    enqueue(op)
+      .then(sync)
+      .catch((error: unknown) => console.error('Failed to sync set:', error))
 
-      // Check for new PR and celebrate
-      if (result.isNewPR && result.recordType && result.newRecord) {
-        setShowConfetti(true)
-        setPRToast({
-          exerciseName: loggingExercise.exercise.name,
-          newRecord: result.newRecord,
-          previousRecord: result.previousRecord,
-          recordType: result.recordType,
-          weight: result.weight,
-          reps: result.reps,
-          timeSeconds: result.timeSeconds,
-        })
+    const group = loggingExercise.planExercise?.group
+    if (group && !setData.isWarmup) {
+      // Cycle through the group, resting only once the round is done
+      const members = exercises.filter(
+        (e) => e.planExercise?.groupId === group.id,
+      )
+      const loggedIndex = members.findIndex(
+        (e) => e.exercise.id === loggingExercise.exercise.id,
+      )
+      const setCounts = members.map(
+        (e, i) => countWorkingSets(e) + (i === loggedIndex ? 1 : 0),
+      )
+      const next = getNextInRound(setCounts, loggedIndex)
+      if (next !== null) {
+        setExpandedExerciseId(members[next].exercise.id)
+        await handleOpenSetLogger(members[next])
+        return
       }
 
-      // Close modal and refresh
-      setLoggingExercise(null)
-      await fetchSession()
-
-      // Start rest timer (clear persisted and increment key to force restart)
-      clearPersistedRestTimer()
-      const restSeconds = loggingExercise.planExercise?.restSeconds ?? 60
-      setRestDuration(restSeconds)
-      setNextSetInfo({
-        exerciseName: loggingExercise.exercise.name,
-        setNumber: setNumber + 1,
-      })
-      setRestTimerKey((k) => k + 1)
-      setShowRestTimer(true)
-    } finally {
-      setIsSubmitting(false)
+      const roundsDone = setCounts[loggedIndex]
+      if (group.restSeconds > 0) {
+        clearPersistedRestTimer()
+        setRestDuration(group.restSeconds)
+        setNextSetInfo(
+          roundsDone < group.rounds
+            ? {
+                exerciseName: members[0].exercise.name,
+                setNumber: roundsDone + 1,
+              }
+            : null,
+        )
+        setRestTimerKey((k) => k + 1)
+        setShowRestTimer(true)
+      }
+      setExpandedExerciseId(members[0].exercise.id)
+      return
     }
+
+    // Start rest timer (clear persisted and increment key to force restart)
+    clearPersistedRestTimer()
+    const restSeconds = loggingExercise.planExercise?.restSeconds ?? 60
+    setRestDuration(restSeconds)
+    setNextSetInfo({
+      exerciseName: loggingExercise.exercise.name,
+      setNumber: setNumber + 1,
+    })
+    setRestTimerKey((k) => k + 1)
+    setShowRestTimer(true)
   }
 
   // Handle set deletion
@@ -284,14 +617,29 @@ function ActiveWorkoutPage() {
     async (setId: string) => {
       if (!user) return
 
+      setSession((prev) =>
+        prev
+          ? {
+              ...prev,
+              workoutSets: prev.workoutSets.filter((s) => s.id !== setId),
+            }
+          : prev,
+      )
+      setExercises((prev) =>
+        prev.map((e) => ({ ...e, sets: e.sets.filter((s) => s.id !== setId) })),
+      )
       try {
-        await deleteWorkoutSet({ data: { id: setId, token } })
-        await fetchSession()
+        await enqueue({
+          kind: 'delete',
+          setId,
+          queuedAt: new Date().toISOString(),
+        })
+        await sync()
       } catch (error) {
         console.error('Failed to delete set:', error)
       }
     },
-    [user, token, fetchSession],
+    [user, enqueue, sync],
   )
 
   // Stable callbacks for ExerciseWorkoutCard memo
@@ -308,6 +656,44 @@ function ActiveWorkoutPage() {
     [exercises, handleOpenSetLogger],
   )
 
+  const handleSwapById = useCallback(
+    (id: string) => {
+      const ex = exercises.find((e) => e.exercise.id === id)
+      if (ex?.planExercise) setSwappingExercise(ex)
+    },
+    [exercises],
+  )
+
+  // Do the plan exercise being swapped as another exercise, or as planned
+  // again when exercise is null
+  const handleSubstitute = async (exercise: Exercise | null) => {
+    const planExercise = swappingExercise?.planExercise
+    if (!user || !session || !planExercise) return
+
+    try {
+      await substituteExercise({
+        data: {
+          sessionId: session.id,
+          planExerciseId: planExercise.id,
+          exerciseId: exercise?.id ?? null,
+          token,
+        },
+      })
+      setSwappingExercise(null)
+      await fetchSession()
+      setExpandedExerciseId(exercise?.id ?? planExercise.exerciseId)
+    } catch (error) {
+      showToast(
+        'error',
+        isNetworkError(error)
+          ? 'Swapping an exercise needs a connection'
+          : error instanceof Error
+            ? error.message
+            : 'Failed to swap exercise',
+      )
+    }
+  }
+
   // Handle adding extra exercise
   const handleAddExercise = (exercise: Exercise) => {
     // Add exercise to list without plan targets
@@ -335,6 +721,7 @@ function ActiveWorkoutPage() {
       await discardWorkoutSession({
         data: { sessionId: session.id, token },
       })
+      cacheActiveSession(user.id, null)
       navigate({ to: '/workout' })
     } catch (error) {
       console.error('Failed to discard workout:', error)
@@ -427,12 +814,36 @@ function ActiveWorkoutPage() {
     <div className="min-h-screen bg-zinc-900 flex flex-col">
       <WorkoutHeader
         startedAt={session.startedAt}
+        resumedAt={session.resumedAt}
+        bankedSeconds={session.durationSeconds}
         onBack={handleBack}
         onFinish={handleFinish}
         planName={session.workoutPlan?.name}
         dayName={session.planDay?.name}
+        weekLabel={
+          sessionWeek && session.workoutPlan?.blockWeeks
+            ? [
+                formatBlockWeek(
+                  sessionWeek.weekNumber,
+                  session.workoutPlan.blockWeeks,
+                ),
+                describeWeekChanges(sessionWeek),
+              ]
+                .filter(Boolean)
+                .join(' · ')
+            : undefined
+        }
       />
 
+      {(!isOnline || pendingCount > 0) && (
+        <div className="mx-4 mt-3 px-3 py-2 rounded-lg bg-amber-500/10 border border-amber-500/20 text-amber-400 text-sm flex items-center gap-2">
+          <CloudOff className="w-4 h-4 flex-shrink-0" />
+          {isOnline
+            ? `Syncing ${pendingCount} change${pendingCount !== 1 ? 's' : ''}...`
+            : 'Offline. Sets are saved on this device and sync when you reconnect.'}
+        </div>
+      )}
+
       {/* Exercise list */}
       <div className="flex-1 overflow-y-auto">
         {exercises.length === 0 ? (
@@ -449,26 +860,56 @@ function ActiveWorkoutPage() {
           </div>
         ) : (
           <div className="p-4 pb-36 space-y-3">
-            {exercises.map((ex, index) => (
-              <div
-                key={ex.exercise.id}
-                className="animate-fade-in"
-                style={{
-                  animationDelay: `${index * 50}ms`,
-                  animationFillMode: 'backwards',
-                }}
-              >
-                <ExerciseWorkoutCard
-                  exercise={ex.exercise}
-                  sets={ex.sets}
-                  planExercise={ex.planExercise}
-                  isExpanded={expandedExerciseId === ex.exercise.id}
-                  onToggleExpand={handleToggleExpand}
-                  onLogSet={handleLogSetById}
-                  onDeleteSet={handleDeleteSet}
-                />
-              </div>
-            ))}
+            {groupIntoBlocks(exercises, (e) => e.planExercise?.groupId).map(
+              (block) => {
+                const cards = block.items.map((ex) => {
+                  const index = exercises.indexOf(ex)
+                  return (
+                    <div
+                      key={ex.exercise.id}
+                      className="animate-fade-in"
+                      style={{
+                        animationDelay: `${index * 50}ms`,
+                        animationFillMode: 'backwards',
+                      }}
+                    >
+                      <ExerciseWorkoutCard
+                        exercise={ex.exercise}
+                        sets={ex.sets}
+                        planExercise={ex.planExercise}
+                        targetWeights={targetWeights}
+                        substitutedFor={ex.substitutedFor?.name}
+                        isExpanded={expandedExerciseId === ex.exercise.id}
+                        onToggleExpand={handleToggleExpand}
+                        onLogSet={handleLogSetById}
+                        onSwap={ex.planExercise ? handleSwapById : undefined}
+                        onDeleteSet={handleDeleteSet}
+                      />
+                    </div>
+                  )
+                })
+
+                const group = block.items[0].planExercise?.group
+                if (!group) return cards
+
+                const roundsDone = Math.min(
+                  ...block.items.map(countWorkingSets),
+                )
+                return (
+                  <ExerciseGroupBlock
+                    key={group.id}
+                    label={formatGroupSummary(group)}
+                    status={
+                      roundsDone >= group.rounds
+                        ? 'Done'
+                        : `Round ${roundsDone + 1} of ${group.rounds}`
+                    }
+                  >
+                    {cards}
+                  </ExerciseGroupBlock>
+                )
+              },
+            )}
           </div>
         )}
       </div>
@@ -492,6 +933,9 @@ function ActiveWorkoutPage() {
           setNumber={loggingExercise.sets.length + 1}
           defaultValues={{
             reps:
+              nextPrescription?.set.targetReps ??
+              loggingExercise.planExercise?.progressionSuggestions?.at(0)
+                ?.reps ??
               loggingExercise.planExercise?.targetReps ??
               loggingExercise.sets[loggingExercise.sets.length - 1]?.reps ??
               10,
@@ -500,13 +944,46 @@ function ActiveWorkoutPage() {
               loggingExercise.sets[loggingExercise.sets.length - 1]
                 ?.timeSeconds ??
               60,
-            weight:
-              loggingExercise.planExercise?.targetWeight ??
-              loggingExercise.sets[loggingExercise.sets.length - 1]?.weight ??
+            weight: getDefaultWeight(loggingExercise),
+            weightUnit: preferences.weightUnit,
+            distance:
+              loggingExercise.sets[loggingExercise.sets.length - 1]?.distance ??
               undefined,
+            distanceUnit:
+              loggingExercise.sets[loggingExercise.sets.length - 1]
+                ?.distanceUnit ?? preferences.distanceUnit,
+            isWarmup: nextPrescription?.set.setType === 'WARMUP',
+            isDropset: nextPrescription?.set.setType === 'DROP',
           }}
+          targetLabel={
+            nextPrescription
+              ? `${SET_TYPE_LABELS[nextPrescription.set.setType]} · ${describeSetPrescription(
+                  nextPrescription.set,
+                  nextPrescription.weight,
+                  preferences.weightUnit,
+                )}`
+              : undefined
+          }
           previousWorkout={previousWorkout}
-          isLoading={isSubmitting}
+        />
+      )}
+
+      {/* Swap Exercise Sheet */}
+      {swappingExercise?.planExercise && (
+        <SwapExerciseSheet
+          isOpen={!!swappingExercise}
+          onClose={() => setSwappingExercise(null)}
+          plannedExerciseId={swappingExercise.planExercise.exerciseId}
+          plannedExerciseName={
+            (swappingExercise.substitutedFor ?? swappingExercise.exercise).name
+          }
+          isSubstituted={!!swappingExercise.substitutedFor}
+          alternates={
+            swappingExercise.planExercise.alternates?.map((a) => a.exercise) ??
+            []
+          }
+          excludeIds={existingExerciseIds}
+          onSelect={handleSubstitute}
         />
       )}
 
@@ -589,6 +1066,7 @@ function ActiveWorkoutPage() {
           previousRecord={prToast.previousRecord}
           recordType={prToast.recordType}
           weight={prToast.weight}
+          weightUnit={prToast.weightUnit}
           reps={prToast.reps}
           timeSeconds={prToast.timeSeconds}
           onClose={() => setPRToast(null)}
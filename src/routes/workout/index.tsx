@@ -10,6 +10,7 @@ import {
   ChevronRight,
   Download,
   Dumbbell,
+  History,
   Moon,
   Play,
   Plus,
@@ -263,6 +264,23 @@ function WorkoutPage() {
               </div>
             </div>
 
+            {/* Past Workout */}
+            <Link
+              to="/workout/log-past"
+              className="flex items-center gap-4 p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50 hover:bg-zinc-800 transition-colors"
+            >
+              <div className="p-2.5 rounded-lg bg-purple-600/20">
+                <History className="w-5 h-5 text-purple-400" />
+              </div>
+              <div className="flex-1">
+                <h3 className="font-medium text-white">Log Past Workout</h3>
+                <p className="text-sm text-zinc-500">
+                  Forgot your phone? Enter a session after the fact
+                </p>
+              </div>
+              <ChevronRight className="w-5 h-5 text-zinc-500" />
+            </Link>
+
             {/* Your Plans Section */}
             <div className="space-y-3">
               <div className="flex items-center justify-between">
@@ -0,0 +1,338 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useState } from 'react'
+import { ArrowLeft, Loader2, Plus, Trash2 } from 'lucide-react'
+import type { DistanceUnit, Exercise, WeightUnit } from '@prisma/client'
+import AppLayout from '@/components/AppLayout'
+import ExercisePicker from '@/components/exercises/ExercisePicker'
+import MoodRating from '@/components/workout/MoodRating'
+import SetLoggerModal from '@/components/workout/SetLoggerModal'
+import WorkoutSetRow from '@/components/workout/WorkoutSetRow'
+import { useAuth } from '@/context/AuthContext'
+import { useToast } from '@/context/ToastContext'
+import { logPastWorkout } from '@/lib/workouts.server'
+
+export const Route = createFileRoute('/workout/log-past')({
+  component: LogPastWorkoutPage,
+})
+
+type PastSet = {
+  reps?: number
+  timeSeconds?: number
+  weight?: number
+  weightUnit: WeightUnit
+  distance?: number
+  distanceUnit: DistanceUnit
+  avgHeartRate?: number
+  maxHeartRate?: number
+  level?: number
+  calories?: number
+  rpe?: number
+  isWarmup: boolean
+  isDropset: boolean
+}
+
+type PastExercise = {
+  exercise: Exercise
+  sets: Array<PastSet>
+}
+
+/** YYYY-MM-DD in local time, as a date input expects */
+function toDateInputValue(date: Date): string {
+  const y = date.getFullYear()
+  const m = String(date.getMonth() + 1).padStart(2, '0')
+  const d = String(date.getDate()).padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
+
+function LogPastWorkoutPage() {
+  const { user, token, preferences } = useAuth()
+  const navigate = useNavigate()
+  const { showToast } = useToast()
+
+  const [date, setDate] = useState(() => {
+    const d = new Date()
+    d.setDate(d.getDate() - 1)
+    return toDateInputValue(d)
+  })
+  const [startTime, setStartTime] = useState('18:00')
+  const [durationMinutes, setDurationMinutes] = useState('60')
+  const [notes, setNotes] = useState('')
+  const [moodRating, setMoodRating] = useState<number | undefined>()
+  const [exercises, setExercises] = useState<Array<PastExercise>>([])
+
+  const [showExercisePicker, setShowExercisePicker] = useState(false)
+  const [loggingExercise, setLoggingExercise] = useState<PastExercise | null>(
+    null,
+  )
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  const setCount = exercises.reduce((sum, e) => sum + e.sets.length, 0)
+
+  const handleAddExercise = (exercise: Exercise) => {
+    setExercises((prev) =>
+      prev.some((e) => e.exercise.id === exercise.id)
+        ? prev
+        : [...prev, { exercise, sets: [] }],
+    )
+    setLoggingExercise({ exercise, sets: [] })
+  }
+
+  const handleLogSet = (setData: PastSet) => {
+    if (!loggingExercise) return
+    const exerciseId = loggingExercise.exercise.id
+    setExercises((prev) =>
+      prev.map((e) =>
+        e.exercise.id === exerciseId ? { ...e, sets: [...e.sets, setData] } : e,
+      ),
+    )
+    setLoggingExercise(null)
+  }
+
+  const handleDeleteSet = (exerciseId: string, index: number) => {
+    setExercises((prev) =>
+      prev.map((e) =>
+        e.exercise.id === exerciseId
+          ? { ...e, sets: e.sets.filter((_, i) => i !== index) }
+          : e,
+      ),
+    )
+  }
+
+  const handleRemoveExercise = (exerciseId: string) => {
+    setExercises((prev) => prev.filter((e) => e.exercise.id !== exerciseId))
+  }
+
+  const handleSubmit = async () => {
+    if (!user) return
+    setError('')
+
+    const startedAt = new Date(`${date}T${startTime}`)
+    const minutes = parseInt(durationMinutes)
+    if (Number.isNaN(startedAt.getTime())) {
+      setError('Choose when the workout started')
+      return
+    }
+    if (!minutes || minutes <= 0) {
+      setError('Enter how long the workout lasted')
+      return
+    }
+    if (setCount === 0) {
+      setError('Add at least one set')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const result = await logPastWorkout({
+        data: {
+          token,
+          startedAt: startedAt.toISOString(),
+          durationSeconds: minutes * 60,
+          notes: notes.trim() || undefined,
+          moodRating,
+          sets: exercises.flatMap((e) =>
+            e.sets.map((set) => ({ exerciseId: e.exercise.id, ...set })),
+          ),
+        },
+      })
+
+      if (result.prs.length > 0) {
+        showToast(
+          'success',
+          `${result.prs.length} new PR${result.prs.length !== 1 ? 's' : ''} recorded`,
+        )
+      }
+      navigate({
+        to: '/workout/summary/$sessionId',
+        params: { sessionId: result.session.id },
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log workout')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <AppLayout showNav={false}>
+      <div className="p-4 pb-28 space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate({ to: '/workout' })}
+            className="p-2 -ml-2 hover:bg-zinc-800 rounded-lg"
+          >
+            <ArrowLeft className="w-5 h-5 text-zinc-400" />
+          </button>
+          <h1 className="text-lg font-semibold text-white">Log Past Workout</h1>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* When */}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-zinc-400 mb-2">
+              Date
+            </label>
+            <input
+              type="date"
+              value={date}
+              max={toDateInputValue(new Date())}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zinc-400 mb-2">
+              Start Time
+            </label>
+            <input
+              type="time"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-zinc-400 mb-2">
+            Duration (minutes)
+          </label>
+          <input
+            type="number"
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(e.target.value)}
+            min={1}
+            max={720}
+            inputMode="numeric"
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+          />
+        </div>
+
+        {/* Exercises */}
+        <div className="space-y-3">
+          <h2 className="text-sm font-medium text-zinc-400">Exercises</h2>
+          {exercises.map(({ exercise, sets }) => (
+            <div
+              key={exercise.id}
+              className="bg-zinc-800/50 rounded-xl p-4 space-y-2"
+            >
+              <div className="flex items-center gap-2">
+                <h3 className="flex-1 font-medium text-white truncate">
+                  {exercise.name}
+                </h3>
+                <button
+                  onClick={() => handleRemoveExercise(exercise.id)}
+                  className="p-1 rounded text-zinc-500 hover:text-red-400 hover:bg-zinc-700"
+                  aria-label="Remove exercise"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {sets.map((set, i) => (
+                <WorkoutSetRow
+                  key={i}
+                  setNumber={i + 1}
+                  reps={set.reps}
+                  timeSeconds={set.timeSeconds}
+                  weight={set.weight}
+                  weightUnit={set.weightUnit}
+                  displayUnit={preferences.weightUnit}
+                  distance={set.distance}
+                  distanceUnit={set.distanceUnit}
+                  avgHeartRate={set.avgHeartRate}
+                  rpe={set.rpe}
+                  isWarmup={set.isWarmup}
+                  isDropset={set.isDropset}
+                  onDelete={() => handleDeleteSet(exercise.id, i)}
+                />
+              ))}
+              <button
+                onClick={() => setLoggingExercise({ exercise, sets })}
+                className="w-full py-2 rounded-lg bg-zinc-700/50 hover:bg-zinc-700 text-sm font-medium text-zinc-300 flex items-center justify-center gap-2 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Add Set
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setShowExercisePicker(true)}
+            className="w-full py-3 rounded-xl border border-dashed border-zinc-700 text-zinc-400 hover:text-white hover:border-zinc-500 flex items-center justify-center gap-2 transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            Add Exercise
+          </button>
+        </div>
+
+        {/* How it went */}
+        <div>
+          <label className="block text-sm font-medium text-zinc-400 mb-2">
+            How did it feel?
+          </label>
+          <MoodRating value={moodRating} onChange={setMoodRating} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-zinc-400 mb-2">
+            Notes
+          </label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            placeholder="Anything worth remembering?"
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:border-blue-500 resize-none"
+          />
+        </div>
+      </div>
+
+      {/* Save */}
+      <div className="fixed bottom-0 inset-x-0 p-4 bg-zinc-900/95 border-t border-zinc-800 safe-area-pb">
+        <button
+          onClick={handleSubmit}
+          disabled={isSubmitting || setCount === 0}
+          className="w-full py-3 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:bg-zinc-700 disabled:text-zinc-500 text-white font-medium flex items-center justify-center gap-2 transition-colors"
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save Workout
+        </button>
+      </div>
+
+      {loggingExercise && (
+        <SetLoggerModal
+          isOpen={!!loggingExercise}
+          onClose={() => setLoggingExercise(null)}
+          onLog={handleLogSet}
+          exercise={loggingExercise.exercise}
+          setNumber={loggingExercise.sets.length + 1}
+          defaultValues={{
+            reps: loggingExercise.sets.at(-1)?.reps ?? 10,
+            timeSeconds: loggingExercise.sets.at(-1)?.timeSeconds ?? 60,
+            weight: loggingExercise.sets.at(-1)?.weight,
+            weightUnit:
+              loggingExercise.sets.at(-1)?.weightUnit ?? preferences.weightUnit,
+            distance: loggingExercise.sets.at(-1)?.distance,
+            distanceUnit:
+              loggingExercise.sets.at(-1)?.distanceUnit ??
+              preferences.distanceUnit,
+          }}
+        />
+      )}
+
+      <ExercisePicker
+        isOpen={showExercisePicker}
+        onClose={() => setShowExercisePicker(false)}
+        onSelect={handleAddExercise}
+        excludeIds={exercises.map((e) => e.exercise.id)}
+      />
+    </AppLayout>
+  )
+}
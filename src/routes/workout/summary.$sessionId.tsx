@@ -11,23 +11,37 @@ import {
   Trophy,
   Weight,
 } from 'lucide-react'
-import type { AchievementRarity, Exercise, WorkoutSet } from '@prisma/client'
+import type {
+  AchievementRarity,
+  DistanceUnit,
+  Exercise,
+  ExerciseGroupType,
+  WeightUnit,
+  WorkoutSet,
+} from '@prisma/client'
+import type { QueuedSetOperation } from '@/lib/offline-queue'
 import AppLayout from '@/components/AppLayout'
 import EmptyState from '@/components/ui/EmptyState'
 import { Skeleton, SkeletonStatsCard } from '@/components/ui/Skeleton'
 import MoodRating from '@/components/workout/MoodRating'
 import MuscleGroupBadge from '@/components/exercises/MuscleGroupBadge'
+import ExerciseGroupBlock from '@/components/plans/ExerciseGroupBlock'
 import { AchievementToast } from '@/components/achievements'
 import {
   completeWorkoutSession,
   getWorkoutSession,
   updateWorkoutSession,
-  updateWorkoutSet,
 } from '@/lib/workouts.server'
 import { markAchievementsNotified } from '@/lib/achievements.server'
 import { useAuth } from '@/context/AuthContext'
 import { useToast } from '@/context/ToastContext'
-import { formatVolume } from '@/lib/formatting'
+import { useOfflineSync } from '@/hooks/useOfflineSync'
+import { applyQueuedOperations } from '@/lib/offline-queue'
+import { formatSetWeight, formatTime, formatVolume } from '@/lib/formatting'
+import { DISTANCE_UNIT_LABELS } from '@/lib/cardio'
+import { getSetVolumeKg } from '@/lib/weight-utils'
+import { getElapsedSeconds } from '@/lib/session-activity'
+import { formatGroupRounds, groupIntoBlocks } from '@/lib/exercise-groups'
 import SetLoggerModal from '@/components/workout/SetLoggerModal'
 
 interface NewAchievement {
@@ -47,6 +61,7 @@ export const Route = createFileRoute('/workout/summary/$sessionId')({
 type SessionDetails = {
   id: string
   startedAt: Date
+  resumedAt: Date | null
   completedAt: Date | null
   durationSeconds: number | null
   notes: string | null
@@ -54,17 +69,25 @@ type SessionDetails = {
   workoutPlan?: { id: string; name: string } | null
   planDay?: { id: string; name: string; dayOrder: number } | null
   workoutSets: Array<WorkoutSet & { exercise: Exercise }>
+  // Plan exercises done as another exercise (missing before substitutions)
+  substitutions?: Array<{
+    exerciseId: string
+    planExercise: { exercise: { name: string } }
+  }>
 }
 
 type ExerciseSummary = {
   exercise: Exercise
   sets: Array<WorkoutSet>
   totalVolume: number
+  groupId: string | null
+  groupType: ExerciseGroupType | null
+  inPlaceOf: string | null // Name of the planned exercise it was swapped for
 }
 
 function WorkoutSummaryPage() {
   const { sessionId } = Route.useParams()
-  const { user, token } = useAuth()
+  const { user, token, preferences } = useAuth()
   const navigate = useNavigate()
 
   const [session, setSession] = useState<SessionDetails | null>(null)
@@ -102,6 +125,7 @@ function WorkoutSummaryPage() {
   >(null)
   const [isUpdating, setIsUpdating] = useState(false)
   const { showToast } = useToast()
+  const { enqueue, sync } = useOfflineSync(token, user?.id ?? null)
 
   // Show achievements one by one
   useEffect(() => {
@@ -117,6 +141,8 @@ function WorkoutSummaryPage() {
       if (!user) return
 
       try {
+        // Send sets still queued from the workout so the totals include them
+        await sync()
         const result = await getWorkoutSession({
           data: { id: sessionId, token },
         })
@@ -132,14 +158,13 @@ function WorkoutSummaryPage() {
         setMoodRating(result.session.moodRating || undefined)
 
         // Initialize duration inputs
-        if (result.session.durationSeconds) {
+        if (result.session.completedAt && result.session.durationSeconds) {
           const dur = result.session.durationSeconds
           setEditedHours(Math.floor(dur / 3600))
           setEditedMinutes(Math.floor((dur % 3600) / 60))
         } else {
-          const dur = Math.floor(
-            (Date.now() - new Date(result.session.startedAt).getTime()) / 1000,
-          )
+          // A resumed session's banked duration is added to the live time
+          const dur = getElapsedSeconds(result.session)
           setCalculatedDuration(dur)
           setEditedHours(Math.floor(dur / 3600))
           setEditedMinutes(Math.floor((dur % 3600) / 60))
@@ -164,14 +189,19 @@ function WorkoutSummaryPage() {
       const existing = exerciseMap.get(set.exerciseId)
       if (existing) {
         existing.sets.push(set)
-        if (set.weight && set.reps) {
-          existing.totalVolume += set.weight * set.reps
-        }
+        existing.totalVolume += getSetVolumeKg(set)
+        existing.groupId ??= set.groupId
+        existing.groupType ??= set.groupType
       } else {
         exerciseMap.set(set.exerciseId, {
           exercise: set.exercise,
           sets: [set],
-          totalVolume: set.weight && set.reps ? set.weight * set.reps : 0,
+          totalVolume: getSetVolumeKg(set),
+          groupId: set.groupId,
+          groupType: set.groupType,
+          inPlaceOf:
+            session.substitutions?.find((s) => s.exerciseId === set.exerciseId)
+              ?.planExercise.exercise.name ?? null,
         })
       }
     }
@@ -199,7 +229,7 @@ function WorkoutSummaryPage() {
       (s) => !s.isWarmup && !s.isDropset,
     )
     const totalVolume = workingSets.reduce(
-      (sum, set) => sum + (set.weight || 0) * (set.reps || 0),
+      (sum, set) => sum + getSetVolumeKg(set),
       0,
     )
 
@@ -255,6 +285,16 @@ function WorkoutSummaryPage() {
 
     setSaving(true)
     try {
+      // Achievements and challenges only count sets the server has
+      const syncResult = await sync()
+      if (syncResult.pending > 0) {
+        showToast(
+          'error',
+          'Some sets have not synced yet. Reconnect to finish your workout.',
+        )
+        return
+      }
+
       const result = await completeWorkoutSession({
         data: {
           sessionId: session.id,
@@ -308,6 +348,13 @@ function WorkoutSummaryPage() {
     reps?: number
     timeSeconds?: number
     weight?: number
+    weightUnit: WeightUnit
+    distance?: number
+    distanceUnit: DistanceUnit
+    avgHeartRate?: number
+    maxHeartRate?: number
+    level?: number
+    calories?: number
     rpe?: number
     isWarmup: boolean
     isDropset: boolean
@@ -316,32 +363,36 @@ function WorkoutSummaryPage() {
 
     setIsUpdating(true)
     try {
-      const result = await updateWorkoutSet({
-        data: {
-          id: editingSet.id,
-          token,
-          reps: setData.reps,
-          timeSeconds: setData.timeSeconds,
-          weight: setData.weight,
-          rpe: setData.rpe,
-          isWarmup: setData.isWarmup,
-          isDropset: setData.isDropset,
-        },
-      })
+      const op: QueuedSetOperation = {
+        kind: 'update',
+        setId: editingSet.id,
+        queuedAt: new Date().toISOString(),
+        payload: setData,
+      }
+      await enqueue(op)
+      const result = await sync()
+      if (result.conflicts.length > 0) throw new Error(result.conflicts[0])
 
       // Update local session state
-      setSession((prev) => {
-        if (!prev) return prev
-        return {
-          ...prev,
-          workoutSets: prev.workoutSets.map((s) =>
-            s.id === editingSet.id
-              ? { ...s, ...result.workoutSet, exercise: s.exercise }
-              : s,
-          ),
-        }
-      })
+      setSession((prev) =>
+        prev
+          ? {
+              ...prev,
+              workoutSets: applyQueuedOperations(
+                prev.workoutSets,
+                [op],
+                prev.id,
+                () => null,
+              ),
+            }
+          : prev,
+      )
 
+      if (result.pending > 0) {
+        showToast('info', 'Set saved offline and will sync when you reconnect')
+        setEditingSet(null)
+        return
+      }
       showToast('success', 'Set updated successfully')
       setEditingSet(null)
     } catch (error) {
@@ -518,7 +569,7 @@ function WorkoutSummaryPage() {
                 <span className="text-sm text-zinc-400">Volume</span>
               </div>
               <p className="text-2xl font-bold text-white">
-                {formatVolume(stats.totalVolume)}
+                {formatVolume(stats.totalVolume, preferences.weightUnit)}
               </p>
             </div>
 
@@ -539,113 +590,157 @@ function WorkoutSummaryPage() {
         <div className="px-4 pb-4">
           <h3 className="text-lg font-semibold text-white mb-3">Exercises</h3>
           <div className="space-y-2">
-            {exerciseSummaries.map((summary, index) => (
-              <div
-                key={summary.exercise.id}
-                className="bg-zinc-800/50 rounded-xl overflow-hidden border border-zinc-700/50 animate-fade-in"
-                style={{
-                  animationDelay: `${index * 50}ms`,
-                  animationFillMode: 'backwards',
-                }}
-              >
-                <button
-                  onClick={() =>
-                    setExpandedExerciseId(
-                      expandedExerciseId === summary.exercise.id
-                        ? null
-                        : summary.exercise.id,
-                    )
-                  }
-                  className="w-full p-4 flex items-center gap-3 text-left"
-                >
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-1">
-                      <h4 className="font-medium text-white truncate">
-                        {summary.exercise.name}
-                      </h4>
-                      <MuscleGroupBadge
-                        muscleGroup={summary.exercise.muscleGroup}
-                      />
-                    </div>
-                    <p className="text-sm text-zinc-500">
-                      {summary.sets.filter((s) => !s.isWarmup).length} sets
-                      {summary.totalVolume > 0 &&
-                        ` · ${formatVolume(summary.totalVolume)}`}
-                    </p>
-                  </div>
-                  {expandedExerciseId === summary.exercise.id ? (
-                    <ChevronUp className="w-5 h-5 text-zinc-500" />
-                  ) : (
-                    <ChevronDown className="w-5 h-5 text-zinc-500" />
-                  )}
-                </button>
-
-                {expandedExerciseId === summary.exercise.id && (
-                  <div className="px-4 pb-4 space-y-2">
-                    {summary.sets.map((set, setIndex) => (
+            {groupIntoBlocks(exerciseSummaries, (s) => s.groupId).map(
+              (block) => {
+                const cards = block.items.map((summary) => {
+                  const index = exerciseSummaries.indexOf(summary)
+                  return (
+                    <div
+                      key={summary.exercise.id}
+                      className="bg-zinc-800/50 rounded-xl overflow-hidden border border-zinc-700/50 animate-fade-in"
+                      style={{
+                        animationDelay: `${index * 50}ms`,
+                        animationFillMode: 'backwards',
+                      }}
+                    >
                       <button
-                        key={set.id}
-                        onClick={() => {
-                          const matchingSet = session.workoutSets.find(
-                            (s) => s.id === set.id,
+                        onClick={() =>
+                          setExpandedExerciseId(
+                            expandedExerciseId === summary.exercise.id
+                              ? null
+                              : summary.exercise.id,
                           )
-                          if (matchingSet) setEditingSet(matchingSet)
-                        }}
-                        className={`w-full flex items-center gap-3 p-2 rounded-lg text-left transition-colors ${
-                          set.isWarmup
-                            ? 'bg-zinc-700/30 hover:bg-zinc-700/50'
-                            : 'bg-zinc-700/50 hover:bg-zinc-700/70'
-                        }`}
+                        }
+                        className="w-full p-4 flex items-center gap-3 text-left"
                       >
-                        <span
-                          className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium ${
-                            set.isWarmup
-                              ? 'bg-zinc-600 text-zinc-400'
-                              : 'bg-blue-600/30 text-blue-400'
-                          }`}
-                        >
-                          {setIndex + 1}
-                        </span>
-                        <div className="flex-1">
-                          {set.weight != null && set.reps != null ? (
-                            <span className="text-white">
-                              {set.weight}kg × {set.reps}
-                            </span>
-                          ) : set.timeSeconds != null ? (
-                            <span className="text-white">
-                              {Math.floor(set.timeSeconds / 60)}:
-                              {(set.timeSeconds % 60)
-                                .toString()
-                                .padStart(2, '0')}
-                            </span>
-                          ) : set.reps != null ? (
-                            <span className="text-white">{set.reps} reps</span>
-                          ) : (
-                            <span className="text-zinc-500">No data</span>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-1">
+                            <h4 className="font-medium text-white truncate">
+                              {summary.exercise.name}
+                            </h4>
+                            <MuscleGroupBadge
+                              muscleGroup={summary.exercise.muscleGroup}
+                            />
+                          </div>
+                          {summary.inPlaceOf && (
+                            <p className="text-xs text-zinc-500 mb-1">
+                              In place of {summary.inPlaceOf}
+                            </p>
                           )}
+                          <p className="text-sm text-zinc-500">
+                            {summary.sets.filter((s) => !s.isWarmup).length}{' '}
+                            sets
+                            {summary.totalVolume > 0 &&
+                              ` · ${formatVolume(summary.totalVolume, preferences.weightUnit)}`}
+                          </p>
                         </div>
-                        {set.isWarmup && (
-                          <span className="px-2 py-0.5 text-xs bg-zinc-600 text-zinc-300 rounded">
-                            Warmup
-                          </span>
+                        {expandedExerciseId === summary.exercise.id ? (
+                          <ChevronUp className="w-5 h-5 text-zinc-500" />
+                        ) : (
+                          <ChevronDown className="w-5 h-5 text-zinc-500" />
                         )}
-                        {set.isDropset && (
-                          <span className="px-2 py-0.5 text-xs bg-orange-600/30 text-orange-400 rounded">
-                            Drop
-                          </span>
-                        )}
-                        {set.rpe && (
-                          <span className="px-2 py-0.5 text-xs bg-purple-600/30 text-purple-400 rounded">
-                            RPE {set.rpe}
-                          </span>
-                        )}
-                        <Pencil className="w-3.5 h-3.5 text-zinc-500" />
                       </button>
-                    ))}
-                  </div>
-                )}
-              </div>
-            ))}
+
+                      {expandedExerciseId === summary.exercise.id && (
+                        <div className="px-4 pb-4 space-y-2">
+                          {summary.sets.map((set, setIndex) => (
+                            <button
+                              key={set.id}
+                              onClick={() => {
+                                const matchingSet = session.workoutSets.find(
+                                  (s) => s.id === set.id,
+                                )
+                                if (matchingSet) setEditingSet(matchingSet)
+                              }}
+                              className={`w-full flex items-center gap-3 p-2 rounded-lg text-left transition-colors ${
+                                set.isWarmup
+                                  ? 'bg-zinc-700/30 hover:bg-zinc-700/50'
+                                  : 'bg-zinc-700/50 hover:bg-zinc-700/70'
+                              }`}
+                            >
+                              <span
+                                className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium ${
+                                  set.isWarmup
+                                    ? 'bg-zinc-600 text-zinc-400'
+                                    : 'bg-blue-600/30 text-blue-400'
+                                }`}
+                              >
+                                {setIndex + 1}
+                              </span>
+                              <div className="flex-1">
+                                {set.distance != null ? (
+                                  <span className="text-white">
+                                    {set.distance}
+                                    {DISTANCE_UNIT_LABELS[set.distanceUnit]}
+                                    {set.timeSeconds != null &&
+                                      ` in ${formatTime(set.timeSeconds)}`}
+                                  </span>
+                                ) : set.weight != null && set.reps != null ? (
+                                  <span className="text-white">
+                                    {formatSetWeight(
+                                      set.weight,
+                                      set.weightUnit,
+                                      preferences.weightUnit,
+                                    )}{' '}
+                                    × {set.reps}
+                                  </span>
+                                ) : set.timeSeconds != null ? (
+                                  <span className="text-white">
+                                    {Math.floor(set.timeSeconds / 60)}:
+                                    {(set.timeSeconds % 60)
+                                      .toString()
+                                      .padStart(2, '0')}
+                                  </span>
+                                ) : set.reps != null ? (
+                                  <span className="text-white">
+                                    {set.reps} reps
+                                  </span>
+                                ) : (
+                                  <span className="text-zinc-500">No data</span>
+                                )}
+                              </div>
+                              {set.isWarmup && (
+                                <span className="px-2 py-0.5 text-xs bg-zinc-600 text-zinc-300 rounded">
+                                  Warmup
+                                </span>
+                              )}
+                              {set.isDropset && (
+                                <span className="px-2 py-0.5 text-xs bg-orange-600/30 text-orange-400 rounded">
+                                  Drop
+                                </span>
+                              )}
+                              {set.rpe && (
+                                <span className="px-2 py-0.5 text-xs bg-purple-600/30 text-purple-400 rounded">
+                                  RPE {set.rpe}
+                                </span>
+                              )}
+                              <Pencil className="w-3.5 h-3.5 text-zinc-500" />
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )
+                })
+
+                const { groupType } = block.items[0]
+                if (!block.groupId || !groupType) return cards
+
+                const rounds = Math.max(
+                  ...block.items.map(
+                    (summary) => summary.sets.filter((s) => !s.isWarmup).length,
+                  ),
+                )
+                return (
+                  <ExerciseGroupBlock
+                    key={block.groupId}
+                    label={formatGroupRounds(groupType, rounds)}
+                  >
+                    {cards}
+                  </ExerciseGroupBlock>
+                )
+              },
+            )}
           </div>
         </div>
 
@@ -709,8 +804,15 @@ function WorkoutSummaryPage() {
           setNumber={editingSet.setNumber}
           defaultValues={{
             weight: editingSet.weight ?? undefined,
+            weightUnit: editingSet.weightUnit,
             reps: editingSet.reps ?? undefined,
             timeSeconds: editingSet.timeSeconds ?? undefined,
+            distance: editingSet.distance ?? undefined,
+            distanceUnit: editingSet.distanceUnit,
+            avgHeartRate: editingSet.avgHeartRate ?? undefined,
+            maxHeartRate: editingSet.maxHeartRate ?? undefined,
+            level: editingSet.level ?? undefined,
+            calories: editingSet.calories ?? undefined,
             rpe: editingSet.rpe ?? undefined,
             isWarmup: editingSet.isWarmup,
             isDropset: editingSet.isDropset,
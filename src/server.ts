@@ -0,0 +1,11 @@
+import handler, { createServerEntry } from '@tanstack/react-start/server-entry'
+import { startAchievementBackfillWorker } from '@/lib/achievement-backfill.server'
+import { startChallengeLifecycleScheduler } from '@/lib/challenge-lifecycle.server'
+import { startStaleSessionScheduler } from '@/lib/stale-sessions.server'
+
+// Background jobs run in every server process, next to the request handler
+startChallengeLifecycleScheduler()
+startAchievementBackfillWorker()
+startStaleSessionScheduler()
+
+export default createServerEntry({ fetch: handler.fetch })